@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "DirectorCaptureLease" (
+    "captureId" TEXT NOT NULL,
+    "leaseToken" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'claimed',
+    "userId" TEXT,
+    "projectId" TEXT,
+    "nodeId" TEXT,
+    "imageUrl" TEXT,
+    "videoUrl" TEXT,
+    "assetId" TEXT,
+    "error" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DirectorCaptureLease_pkey" PRIMARY KEY ("captureId")
+);
+
+-- CreateIndex
+CREATE INDEX "DirectorCaptureLease_status_expiresAt_idx" ON "DirectorCaptureLease"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "DirectorCaptureLease_updatedAt_idx" ON "DirectorCaptureLease"("updatedAt");
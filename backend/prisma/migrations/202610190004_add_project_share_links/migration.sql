@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ProjectShareLink" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "access" TEXT NOT NULL DEFAULT 'view',
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdByUserId" TEXT NOT NULL,
+    "lastViewedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectShareLink_token_key" ON "ProjectShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "ProjectShareLink_projectId_createdAt_idx" ON "ProjectShareLink"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ProjectShareLink" ADD CONSTRAINT "ProjectShareLink_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "ApiUsageRecord" ADD COLUMN "projectId" TEXT,
+ADD COLUMN "nodeId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ApiUsageRecord_projectId_createdAt_idx" ON "ApiUsageRecord"("projectId", "createdAt");
+
+-- CreateTable
+CREATE TABLE "ProjectCreditBudget" (
+    "projectId" TEXT NOT NULL,
+    "limitCredits" INTEGER NOT NULL,
+    "alertThresholds" INTEGER[] DEFAULT ARRAY[50, 80, 100]::INTEGER[],
+    "blockWhenExceeded" BOOLEAN NOT NULL DEFAULT true,
+    "alertedThreshold" INTEGER NOT NULL DEFAULT 0,
+    "updatedByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectCreditBudget_pkey" PRIMARY KEY ("projectId")
+);
+
+-- AddForeignKey
+ALTER TABLE "ProjectCreditBudget" ADD CONSTRAINT "ProjectCreditBudget_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
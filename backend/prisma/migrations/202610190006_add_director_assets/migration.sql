@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "DirectorAsset" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "kind" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "data" JSONB NOT NULL DEFAULT '{}',
+    "sourceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DirectorAsset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DirectorAsset_ownerId_sourceId_key" ON "DirectorAsset"("ownerId", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "DirectorAsset_ownerId_teamId_kind_updatedAt_idx" ON "DirectorAsset"("ownerId", "teamId", "kind", "updatedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "DirectorAsset_teamId_kind_updatedAt_idx" ON "DirectorAsset"("teamId", "kind", "updatedAt" DESC);
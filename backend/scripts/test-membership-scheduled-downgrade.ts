@@ -0,0 +1,40 @@
+import { strict as assert } from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const controller = readFileSync(
+  resolve(process.cwd(), 'backend/src/membership/membership.controller.ts'),
+  'utf8',
+);
+const service = readFileSync(
+  resolve(process.cwd(), 'backend/src/membership/membership.service.ts'),
+  'utf8',
+);
+const scheduler = readFileSync(
+  resolve(process.cwd(), 'backend/src/membership/membership-scheduler.service.ts'),
+  'utf8',
+);
+
+// 自助降级：记录下周期生效的变更，可在生效前撤销
+assert.match(controller, /@Post\('change-plan'\)/);
+assert.match(controller, /@Post\('change-plan\/cancel'\)/);
+assert.match(service, /async scheduleUserDowngrade\(userId: string, planCode: string\)/);
+assert.doesNotMatch(service, /scheduleUserDowngrade\([^)]*\): Promise<never>/);
+assert.match(service, /changeType:\s*'user_downgrade'/);
+assert.match(service, /effectiveAt:\s*subscription\.currentPeriodEndAt/);
+assert.match(service, /async cancelUserScheduledChange\(/);
+assert.match(service, /reason:\s*'replaced:user_purchase'/);
+
+// 预览给出降级的积分 / 权益影响，口径与应用时一致
+assert.match(service, /downgradeEffect:\s*await this\.buildDowngradeEffect\(/);
+assert.match(service, /expiringCredits:/);
+assert.match(service, /grantedCredits:/);
+assert.match(service, /buildDowngradeExpiringLotFilter\(change\.userId, change\.effectiveAt\)/);
+
+// 应用：逐条抢占、清零会员积分、开新周期（写权益快照）
+assert.match(service, /where:\s*\{\s*id:\s*change\.id,\s*status:\s*'scheduled'\s*\}/);
+assert.match(service, /businessType:\s*'membership_scheduled_change'/);
+assert.match(service, /membershipEntitlementSnapshot\.upsert/);
+assert.match(scheduler, /runScheduledMembershipChanges\(\);\s*\n\s*\n\s*const result = await this\.membershipService\.expireElapsedMemberships\(\)/);
+
+console.log('membership scheduled downgrade tests passed');
@@ -0,0 +1,155 @@
+/* eslint-disable no-console */
+/**
+ * 用户 API Key：哈希存储 / 校验与撤销 / 作用域 / 限流 / 路由白名单（后端无 jest，用 ts-node 跑断言）。
+ *   运行: npm run verify:api-keys
+ */
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { Reflector } from '@nestjs/core';
+import { ApiKeysService } from '../src/api-keys/api-keys.service';
+import {
+  assertApiKeyScope,
+  normalizeApiKeyScopes,
+  resolveApiKeyScopeForService,
+} from '../src/api-keys/api-key-scopes';
+import { ApiKeyOrJwtGuard } from '../src/auth/guards/api-key-or-jwt.guard';
+import { AiController } from '../src/ai/ai.controller';
+
+let passed = 0;
+async function check(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn();
+    passed += 1;
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    console.error(`  ✗ ${name}\n    ${e?.message || e}`);
+    process.exitCode = 1;
+  }
+}
+
+/** 只实现 ApiKeysService 用到的 prisma 调用，数据放内存 */
+function fakePrisma() {
+  const keys = new Map<string, any>();
+  let seq = 0;
+  const matches = (key: any, where: Record<string, any>) =>
+    Object.entries(where).every(([field, value]) => key[field] === value);
+  return {
+    keys,
+    apiKey: {
+      findUnique: async ({ where }: any) =>
+        [...keys.values()].find((key) => matches(key, where)) ?? null,
+      findMany: async ({ where }: any) => [...keys.values()].filter((key) => matches(key, where)),
+      count: async ({ where }: any) => [...keys.values()].filter((key) => matches(key, where)).length,
+      create: async ({ data }: any) => {
+        const key = { id: `key-${++seq}`, lastUsedAt: null, revokedAt: null, createdAt: new Date(), ...data };
+        keys.set(key.id, key);
+        return key;
+      },
+      update: async ({ where, data }: any) => Object.assign(keys.get(where.id), data),
+    },
+    teamMembership: { findUnique: async () => ({ userId: 'owner' }) },
+  };
+}
+
+function createService() {
+  const prisma = fakePrisma();
+  const service = new ApiKeysService(
+    prisma as any,
+    { assertRole: async () => undefined } as any,
+    { get: () => undefined } as any,
+  );
+  return { prisma, service };
+}
+
+const rejectsWithStatus = (promise: Promise<unknown>, status: number) =>
+  assert.rejects(promise, (e: any) => e?.getStatus?.() === status);
+
+async function main() {
+  await check('创建：明文只返回一次，库里只存 sha256 哈希与展示前缀', async () => {
+    const { prisma, service } = createService();
+    const { apiKey, secret } = await service.create('owner', { name: ' ci ', scopes: ['image', 'bogus'] } as any);
+    assert.ok(secret.startsWith('tnv_') && secret.length > 40);
+    const stored = prisma.keys.get(apiKey.id);
+    assert.strictEqual(stored.keyHash, crypto.createHash('sha256').update(secret).digest('hex'));
+    assert.ok(!JSON.stringify(stored).includes(secret));
+    assert.strictEqual(apiKey.prefix, secret.slice(0, 12));
+    assert.strictEqual(apiKey.name, 'ci');
+    assert.deepStrictEqual(apiKey.scopes, ['image']);
+  });
+
+  await check('校验：正确 key 返回计费主体与作用域；错误、撤销、轮换前的旧 key 失效', async () => {
+    const { service } = createService();
+    const { apiKey, secret } = await service.create('owner', { name: 'k', scopes: ['chat'] } as any);
+    const client = await service.verify(secret);
+    assert.deepStrictEqual(
+      { id: client?.id, userId: client?.userId, scopes: client?.scopes },
+      { id: apiKey.id, userId: 'owner', scopes: ['chat'] },
+    );
+    assert.strictEqual(await service.verify(`${secret}x`), null);
+    assert.strictEqual(await service.verify('not-a-key'), null);
+
+    const rotated = await service.rotate('owner', apiKey.id);
+    assert.strictEqual(await service.verify(secret), null);
+    assert.ok(await service.verify(rotated.secret));
+
+    await service.revoke('owner', apiKey.id);
+    assert.strictEqual(await service.verify(rotated.secret), null);
+  });
+
+  await check('校验：过期的 key 拒绝；不是所有者的个人 key 不能管理', async () => {
+    const { prisma, service } = createService();
+    const { apiKey, secret } = await service.create('owner', { name: 'k' } as any);
+    prisma.keys.get(apiKey.id).expiresAt = new Date(Date.now() - 1000);
+    assert.strictEqual(await service.verify(secret), null);
+    await rejectsWithStatus(service.revoke('someone-else', apiKey.id), 404);
+  });
+
+  await check('作用域：serviceType 归类；未授权 403，JWT / 静态 key（无 scopes）放行', () => {
+    assert.strictEqual(resolveApiKeyScopeForService('gemini-3-pro-image'), 'image');
+    assert.strictEqual(resolveApiKeyScopeForService('sora-hd'), 'video');
+    assert.strictEqual(resolveApiKeyScopeForService('minimax-speech'), 'audio');
+    assert.strictEqual(resolveApiKeyScopeForService('gemini-text'), 'chat');
+    assert.deepStrictEqual(normalizeApiKeyScopes(['video', 'admin', 'chat']), ['video', 'chat']);
+    assert.throws(() => assertApiKeyScope({ id: 'k', scopes: ['chat'] }, 'veo3-fast'), /video/);
+    assert.doesNotThrow(() => assertApiKeyScope({ id: 'k', scopes: ['video'] }, 'video'));
+    assert.doesNotThrow(() => assertApiKeyScope(undefined, 'sora-hd'));
+    assert.doesNotThrow(() => assertApiKeyScope({ apiKey: 'static' }, 'sora-hd'));
+  });
+
+  await check('限流：每分钟超过上限返回 429，未设上限不限', async () => {
+    const { service } = createService();
+    await service.consumeRateLimit('k1', 2);
+    await service.consumeRateLimit('k1', 2);
+    await rejectsWithStatus(service.consumeRateLimit('k1', 2), 429);
+    await service.consumeRateLimit('k2', 2);
+    for (let i = 0; i < 5; i++) await service.consumeRateLimit('k3', null);
+  });
+
+  await check('路由白名单：/ai 只有计费路由接受用户 API Key', async () => {
+    const userKey = { id: 'k', userId: 'owner', scopes: ['video'], rateLimitPerMinute: null };
+    const guard = new ApiKeyOrJwtGuard(
+      { get: () => '' } as any,
+      { verify: async () => userKey, consumeRateLimit: async () => undefined } as any,
+      new Reflector(),
+    );
+    const run = (handler: (...args: any[]) => unknown) => {
+      const request: any = { headers: { 'x-api-key': 'tnv_user' } };
+      const context: any = {
+        switchToHttp: () => ({ getRequest: () => request }),
+        getHandler: () => handler,
+        getClass: () => AiController,
+      };
+      return guard.canActivate(context).then(() => request);
+    };
+    const proto = AiController.prototype as any;
+    for (const name of ['generateVeoVideo', 'createSora2Character', 'removeBackgroundPublic']) {
+      await rejectsWithStatus(run(proto[name]), 403);
+    }
+    const request = await run(proto.generateImage);
+    assert.strictEqual(request.apiClient, userKey);
+  });
+
+  console.log(`\n${passed} passed${process.exitCode ? ', with failures' : ''}`);
+}
+
+void main();
@@ -0,0 +1,70 @@
+/* eslint-disable no-console */
+/**
+ * 导演台资产 data 校验（动作 / 姿势 / 场景预设的结构、体积、临时引用）。
+ *   运行: npm run verify:director-assets
+ */
+import * as assert from 'assert';
+import {
+  checkDirectorAssetData,
+  isDirectorAssetKind,
+  MAX_DIRECTOR_ASSET_BYTES,
+} from '../src/director-assets/director-asset-data';
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+  try {
+    fn();
+    passed += 1;
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    console.error(`  ✗ ${name}\n    ${e?.message || e}`);
+    process.exitCode = 1;
+  }
+}
+
+const motion = (over: Record<string, unknown> = {}) => ({
+  id: 'import-1',
+  name: '挥手',
+  durationSeconds: 1,
+  keyframes: [
+    { t: 0, pose: { elbowL: [0, 0, 0] } },
+    { t: 1, pose: { elbowL: [0, -1.2, 0] }, interpolation: 'linear' },
+  ],
+  ...over,
+});
+
+check('kind 白名单', () => {
+  assert.ok(isDirectorAssetKind('motion') && isDirectorAssetKind('scene'));
+  assert.ok(!isDirectorAssetKind('video') && !isDirectorAssetKind(undefined));
+});
+
+check('动作：需要时长与合法关键帧', () => {
+  assert.strictEqual(checkDirectorAssetData('motion', motion()), null);
+  assert.match(checkDirectorAssetData('motion', motion({ durationSeconds: 0 })) ?? '', /时长/);
+  assert.match(checkDirectorAssetData('motion', motion({ keyframes: [] })) ?? '', /关键帧/);
+  assert.match(
+    checkDirectorAssetData('motion', motion({ keyframes: [{ t: 0, pose: { elbowL: [0, 'x', 0] } }] })) ?? '',
+    /elbowL/,
+  );
+});
+
+check('姿势与场景预设结构', () => {
+  assert.strictEqual(checkDirectorAssetData('pose', { pose: { neck: [0.1, 0, 0] }, category: '自定义' }), null);
+  assert.ok(checkDirectorAssetData('pose', { pose: [] }));
+  const scene = { kind: 'directorConsole', label: '导演台', scene: { characters: [], cameras: [] } };
+  assert.strictEqual(checkDirectorAssetData('scene', scene), null);
+  assert.ok(checkDirectorAssetData('scene', { ...scene, kind: 'image' }));
+  assert.ok(checkDirectorAssetData('scene', { kind: 'directorConsole', scene: { characters: [] } }));
+});
+
+check('拒绝临时引用与超大数据', () => {
+  const scene = {
+    kind: 'directorConsole',
+    scene: { characters: [{ id: 'c', modelUrl: 'blob:http://x/1' }], cameras: [] },
+  };
+  assert.match(checkDirectorAssetData('scene', scene) ?? '', /scene\.characters\[0\]\.modelUrl/);
+  const big = motion({ note: 'x'.repeat(MAX_DIRECTOR_ASSET_BYTES) });
+  assert.match(checkDirectorAssetData('motion', big) ?? '', /过大/);
+});
+
+console.log(`\n${passed} passed${process.exitCode ? ', with failures' : ''}`);
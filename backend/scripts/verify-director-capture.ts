@@ -0,0 +1,208 @@
+/* eslint-disable no-console */
+/**
+ * 导演台截图租约（DB 路径）：认领竞争 / report 的 CAS / 过期巡检广播 / 接口的项目与领取人校验。
+ *   运行: npm run verify:director-capture
+ */
+import * as assert from 'assert';
+import { NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { DirectorCaptureService } from '../src/director-capture/director-capture.service';
+import { DirectorCaptureController } from '../src/director-capture/director-capture.controller';
+
+let passed = 0;
+async function check(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn();
+    passed += 1;
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    console.error(`  ✗ ${name}\n    ${e?.message || e}`);
+    process.exitCode = 1;
+  }
+}
+
+/** 只实现租约用到的 prisma 调用；captureId 唯一约束按 P2002 抛错，与真实库一致 */
+function fakePrisma() {
+  const rows = new Map<string, any>();
+  const matches = (row: any, where: Record<string, any>) =>
+    Object.entries(where).every(([field, value]) => {
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('lte' in value) return row[field] <= value.lte;
+        if ('lt' in value) return row[field] < value.lt;
+        if ('not' in value) return row[field] !== value.not;
+      }
+      return row[field] === value;
+    });
+  return {
+    rows,
+    directorCaptureLease: {
+      create: async ({ data }: any) => {
+        // 让并发认领真正交错到同一个检查点
+        await new Promise((resolve) => setImmediate(resolve));
+        if (rows.has(data.captureId)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: 'test',
+          });
+        }
+        const row = {
+          imageUrl: null,
+          videoUrl: null,
+          assetId: null,
+          error: null,
+          completedAt: null,
+          updatedAt: new Date(),
+          ...data,
+        };
+        rows.set(data.captureId, row);
+        return row;
+      },
+      findUnique: async ({ where }: any) => rows.get(where.captureId) ?? null,
+      findMany: async ({ where }: any) => [...rows.values()].filter((row) => matches(row, where)),
+      updateMany: async ({ where, data }: any) => {
+        const hits = [...rows.values()].filter((row) => matches(row, where));
+        for (const row of hits) Object.assign(row, data, { updatedAt: new Date() });
+        return { count: hits.length };
+      },
+      deleteMany: async ({ where }: any) => {
+        const hits = [...rows.values()].filter((row) => matches(row, where));
+        for (const row of hits) rows.delete(row.captureId);
+        return { count: hits.length };
+      },
+    },
+  };
+}
+
+function createService() {
+  const prisma = fakePrisma();
+  const published: Array<{ projectId: string; envelope: any }> = [];
+  const collabLog = {
+    nextSeq: async () => published.length + 1,
+    append: async () => undefined,
+  };
+  const collabBus = {
+    publish: async (projectId: string, envelope: any) => {
+      published.push({ projectId, envelope });
+    },
+  };
+  const service = new DirectorCaptureService(
+    { get: () => undefined } as any,
+    prisma as any,
+    collabBus as any,
+    collabLog as any,
+  );
+  return { service, prisma, published };
+}
+
+function createController(service: DirectorCaptureService) {
+  const projects = {
+    assertProjectAccess: async (userId: string, projectId: string) => {
+      if (!(userId === 'u1' && projectId === 'p1')) throw new NotFoundException('项目不存在');
+    },
+  };
+  return new DirectorCaptureController(service, projects as any);
+}
+
+const jwt = (sub: string) => ({ user: { sub } });
+
+async function main() {
+  await check('认领竞争：同一 captureId 并发认领只有一个拿到 leaseToken', async () => {
+    const { service } = createService();
+    const results = await Promise.all([
+      service.claim('cap-1', { userId: 'u1' }),
+      service.claim('cap-1', { userId: 'u1' }),
+    ]);
+    const winners = results.filter((r) => r.ok);
+    assert.strictEqual(winners.length, 1);
+    assert.ok(winners[0].leaseToken);
+    const loser = results.find((r) => !r.ok)!;
+    assert.strictEqual(loser.leaseToken, undefined);
+    assert.strictEqual(loser.status, 'claimed');
+  });
+
+  await check('report CAS：token 不符不写；成功后终态不可再写、不可续约', async () => {
+    const { service } = createService();
+    const { leaseToken } = await service.claim('cap-2', { userId: 'u1' });
+    assert.strictEqual(await service.report('cap-2', 'wrong-token', { status: 'succeeded' }), false);
+    assert.strictEqual((await service.getStatus('cap-2'))?.status, 'claimed');
+
+    assert.strictEqual(
+      await service.report('cap-2', leaseToken!, { status: 'succeeded', imageUrl: 'https://oss/a.png' }),
+      true,
+    );
+    assert.strictEqual(await service.report('cap-2', leaseToken!, { status: 'failed', error: 'late' }), false);
+    const status = await service.getStatus('cap-2');
+    assert.strictEqual(status?.status, 'succeeded');
+    assert.strictEqual(status?.imageUrl, 'https://oss/a.png');
+    assert.strictEqual(status?.error, null);
+    assert.ok(!('leaseToken' in (status as any)));
+
+    const resumed = await service.resume('cap-2', leaseToken!);
+    assert.deepStrictEqual(resumed, { ok: false, status: 'succeeded' });
+  });
+
+  await check('过期巡检：超时租约判 failed 并向项目广播一次；迟到的 report 不再生效', async () => {
+    const { service, prisma, published } = createService();
+    const { leaseToken } = await service.claim('cap-3', { userId: 'u1', projectId: 'p1', nodeId: 'n1' });
+    await service.claim('cap-4', { userId: 'u1', projectId: 'p1', nodeId: 'n2' });
+    prisma.rows.get('cap-3').expiresAt = new Date(Date.now() - 1000);
+
+    await (service as any).sweepExpired();
+    await (service as any).sweepExpired();
+
+    assert.strictEqual(published.length, 1);
+    assert.strictEqual(published[0].projectId, 'p1');
+    assert.strictEqual(published[0].envelope.type, 'task_status');
+    assert.strictEqual(published[0].envelope.payload.nodeId, 'n1');
+    assert.strictEqual(published[0].envelope.payload.status, 'failed');
+    assert.strictEqual((await service.getStatus('cap-3'))?.status, 'failed');
+    assert.strictEqual((await service.getStatus('cap-4'))?.status, 'claimed');
+    assert.strictEqual(await service.report('cap-3', leaseToken!, { status: 'succeeded' }), false);
+  });
+
+  await check('认领接口：无法识别领取人拒绝；无权访问的项目按不存在处理且不落租约', async () => {
+    const { service, prisma } = createService();
+    const controller = createController(service);
+    assert.deepStrictEqual(await controller.claim({ captureId: 'cap-5' }, { apiClient: { apiKey: 'static' } }), {
+      ok: false,
+      code: 'forbidden',
+    });
+    await assert.rejects(
+      controller.claim({ captureId: 'cap-5', projectId: 'p2', nodeId: 'n1' }, jwt('u1')),
+      NotFoundException,
+    );
+    assert.strictEqual(prisma.rows.size, 0);
+    const claimed = await controller.claim({ captureId: 'cap-5', projectId: 'p1', nodeId: 'n1' }, jwt('u1'));
+    assert.strictEqual(claimed.ok, true);
+  });
+
+  await check('续约 / 回报 / 查询：只认领取人，无主租约谁都不匹配', async () => {
+    const { service } = createService();
+    const controller = createController(service);
+    const { leaseToken } = await service.claim('cap-6', { userId: 'u1' });
+    const body = { captureId: 'cap-6', leaseToken: leaseToken! };
+
+    assert.deepStrictEqual(await controller.resume(body, jwt('u2')), { ok: false, code: 'not_found' });
+    assert.deepStrictEqual(await controller.report({ ...body, status: 'succeeded' }, jwt('u2')), {
+      ok: false,
+      code: 'not_found',
+    });
+    assert.deepStrictEqual(await controller.status('cap-6', jwt('u2')), { ok: false, code: 'not_found' });
+    assert.strictEqual((await service.getStatus('cap-6'))?.status, 'claimed');
+
+    assert.strictEqual((await controller.resume(body, jwt('u1'))).ok, true);
+    assert.deepStrictEqual(await controller.report({ ...body, status: 'succeeded' }, jwt('u1')), { ok: true });
+
+    const orphan = await service.claim('cap-7', {});
+    const anonymous = { apiClient: { apiKey: 'static' } };
+    assert.deepStrictEqual(await controller.status('cap-7', anonymous), { ok: false, code: 'not_found' });
+    assert.deepStrictEqual(
+      await controller.resume({ captureId: 'cap-7', leaseToken: orphan.leaseToken }, anonymous),
+      { ok: false, code: 'not_found' },
+    );
+  });
+
+  console.log(`\n${passed} passed${process.exitCode ? ', with failures' : ''}`);
+}
+
+void main();
@@ -4,7 +4,11 @@
  *   运行: npx ts-node scripts/verify-merge-snapshots.ts
  */
 import * as assert from 'assert';
-import { mergeProjectSnapshots, mergePaperJson } from '../src/projects/merge-project-snapshots';
+import {
+  mergeProjectSnapshots,
+  mergePaperJson,
+  mergeProjectSnapshotsThreeWay,
+} from '../src/projects/merge-project-snapshots';
 
 let passed = 0;
 function check(name: string, fn: () => void) {
@@ -123,4 +127,80 @@ check('remote 为 null → 返回 incoming', () => {
   assert.strictEqual(mergeProjectSnapshots(null, incoming), incoming);
 });
 
+// ---- 三方合并（带基线） ----
+
+check('三方：remote 删除、incoming 未改 → 真正删除（不复活）', () => {
+  const base = { flow: { nodes: [{ id: 'a' }, { id: 'b', v: 1 }], edges: [{ id: 'e1' }] } };
+  const remote = { flow: { nodes: [{ id: 'a' }], edges: [] } };
+  const incoming = { flow: { nodes: [{ id: 'a' }, { id: 'b', v: 1 }, { id: 'c' }], edges: [{ id: 'e1' }] } };
+  const { content, conflicts } = mergeProjectSnapshotsThreeWay(base, remote, incoming);
+  assert.deepStrictEqual(ids(content.flow.nodes), ['a', 'c']);
+  assert.deepStrictEqual(content.flow.edges, []);
+  assert.strictEqual(conflicts.length, 0);
+});
+
+check('三方：incoming 删除、remote 未改 → 不再追加回来', () => {
+  const base = { assets: { images: [{ id: 'i1' }, { id: 'i2' }] } };
+  const remote = { assets: { images: [{ id: 'i1' }, { id: 'i2' }, { id: 'i3' }] } };
+  const incoming = { assets: { images: [{ id: 'i1' }] } };
+  const { content } = mergeProjectSnapshotsThreeWay(base, remote, incoming);
+  assert.deepStrictEqual(ids(content.assets.images), ['i1', 'i3']);
+});
+
+check('三方：删除 vs 修改 → 保留修改方并记冲突', () => {
+  const base = { flow: { nodes: [{ id: 'a', v: 1 }, { id: 'b', v: 1 }], edges: [] } };
+  const remote = { flow: { nodes: [{ id: 'b', v: 2 }], edges: [] } };
+  const incoming = { flow: { nodes: [{ id: 'a', v: 9 }], edges: [] } };
+  const { content, conflicts } = mergeProjectSnapshotsThreeWay(base, remote, incoming);
+  assert.deepStrictEqual(ids(content.flow.nodes), ['a', 'b']);
+  const kinds = conflicts.map((c) => `${c.id}:${c.kind}:${c.resolution}`).sort();
+  assert.deepStrictEqual(kinds, ['a:modify-delete:incoming', 'b:delete-modify:remote']);
+});
+
+check('三方：flow 节点 data 逐字段合并，同字段冲突 incoming 胜', () => {
+  const base = { flow: { nodes: [{ id: 'a', data: { prompt: 'p', model: 'm', size: 1 } }], edges: [] } };
+  const remote = { flow: { nodes: [{ id: 'a', data: { prompt: 'p', model: 'm2', size: 2 } }], edges: [] } };
+  const incoming = { flow: { nodes: [{ id: 'a', data: { prompt: 'p2', model: 'm', size: 3 } }], edges: [] } };
+  const { content, conflicts } = mergeProjectSnapshotsThreeWay(base, remote, incoming);
+  assert.deepStrictEqual(content.flow.nodes[0].data, { prompt: 'p2', model: 'm2', size: 3 });
+  assert.deepStrictEqual(
+    conflicts.map((c) => [c.id, c.field, c.kind]),
+    [['a', 'data.size', 'modify-modify']],
+  );
+});
+
+check('三方：paperJson remote 删除 / 仅 remote 修改 / 新增', () => {
+  const layer = (children: any[]) => JSON.stringify([['Layer', { children }]]);
+  const base = layer([['Path', { data: { id: 'p1' } }], ['Path', { data: { id: 'p2' }, x: 0 }]]);
+  const remote = layer([['Path', { data: { id: 'p2' }, x: 5 }], ['Raster', { data: { id: 'r1' } }]]);
+  const incoming = layer([['Path', { data: { id: 'p1' } }], ['Path', { data: { id: 'p2' }, x: 0 }]]);
+  const { content, conflicts } = mergeProjectSnapshotsThreeWay(
+    { paperJson: base },
+    { paperJson: remote },
+    { paperJson: incoming },
+  );
+  const children = JSON.parse(content.paperJson)[0][1].children;
+  assert.deepStrictEqual(
+    children.map((c: any) => [c[1].data.id, c[1].x]),
+    [['p2', 5], ['r1', undefined]],
+  );
+  assert.strictEqual(conflicts.length, 0);
+});
+
+check('三方：基线缺失的集合退化为并集', () => {
+  const base = { flow: { nodes: [], edges: [] } };
+  const remote = { layers: [{ id: 'L1' }] };
+  const incoming = { layers: [{ id: 'L2' }] };
+  const { content } = mergeProjectSnapshotsThreeWay(base, remote, incoming);
+  assert.deepStrictEqual(content.layers.map((l: any) => l.id), ['L2', 'L1']);
+});
+
+check('三方：base 为 null → 等同并集合并', () => {
+  const remote = { flow: { nodes: [{ id: 'a' }], edges: [] } };
+  const incoming = { flow: { nodes: [{ id: 'b' }], edges: [] } };
+  const { content, conflicts } = mergeProjectSnapshotsThreeWay(null, remote, incoming);
+  assert.deepStrictEqual(ids(content.flow.nodes), ['a', 'b']);
+  assert.strictEqual(conflicts.length, 0);
+});
+
 console.log(`\n${passed} checks passed${process.exitCode ? ', WITH FAILURES' : ''}.`);
@@ -0,0 +1,166 @@
+/* eslint-disable no-console */
+/**
+ * 项目归档（.tanva）解析 / 迁移 / 引用改写的可执行校验（后端无 jest，用 ts-node 跑断言）。
+ *   运行: npm run verify:project-archive
+ */
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { strToU8, zipSync } from 'fflate';
+import {
+  archiveAssetKey,
+  extractProjectArchive,
+  migrateProjectArchive,
+  ProjectArchiveError,
+  remapArchiveAssetRefs,
+  sanitizeArchiveMimeType,
+} from '../src/projects/project-archive';
+
+let passed = 0;
+async function check(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn();
+    passed += 1;
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    console.error(`  ✗ ${name}\n    ${e?.message || e}`);
+    process.exitCode = 1;
+  }
+}
+
+const manifest = (overrides: Record<string, unknown> = {}) => ({
+  format: 'tanva.project',
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  project: { name: '海报' },
+  assets: [{ path: 'assets/0001.png', kind: 'image', mimeType: 'image/png', size: 3 }],
+  unresolvedAssetCount: 0,
+  ...overrides,
+});
+
+const content = {
+  paperJson: JSON.stringify(['Project', [['Layer', { children: [['Raster', { source: 'tanva-asset:assets/0001.png' }]] }]]]),
+  assets: { images: [{ id: 'a', url: 'tanva-asset:assets/0001.png' }] },
+  flow: { nodes: [{ id: 'n', data: { text: 'tanva-asset:assets/missing.png' } }] },
+};
+
+const zip = (files: Record<string, unknown>, assets: Record<string, Uint8Array> = {}) =>
+  zipSync({
+    ...Object.fromEntries(Object.entries(files).map(([path, value]) => [path, strToU8(JSON.stringify(value))])),
+    ...assets,
+  });
+
+const isArchiveError = (pattern: RegExp) => (error: unknown) =>
+  error instanceof ProjectArchiveError && pattern.test(error.message);
+const expectArchiveError = (fn: () => void, pattern: RegExp) => assert.throws(fn, isArchiveError(pattern));
+
+/** 模拟上传流：按小块推送，覆盖条目跨块的情况 */
+async function* chunked(data: Uint8Array, size = 7): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < data.byteLength; offset += size) yield data.subarray(offset, offset + size);
+}
+
+async function withWorkDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'verify-archive-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const extract = (data: Uint8Array, chunkSize?: number) =>
+  withWorkDir(async (dir) => {
+    const parsed = await extractProjectArchive(chunked(data, chunkSize), dir);
+    const files = new Map<string, number[]>();
+    for (const [assetPath, diskPath] of parsed.files) files.set(assetPath, Array.from(await fs.readFile(diskPath)));
+    return { ...parsed, files };
+  });
+
+const expectExtractError = (data: Uint8Array, pattern: RegExp) => assert.rejects(extract(data), isArchiveError(pattern));
+
+async function main() {
+  await check('流式读取归档：manifest / content / 资源文件落盘', async () => {
+    const parsed = await extract(
+      zip({ 'manifest.json': manifest(), 'content.json': content }, { 'assets/0001.png': new Uint8Array([1, 2, 3]) }),
+    );
+    assert.strictEqual(parsed.manifest.project.name, '海报');
+    assert.deepStrictEqual(parsed.files.get('assets/0001.png'), [1, 2, 3]);
+    assert.strictEqual(parsed.content.assets.images[0].url, 'tanva-asset:assets/0001.png');
+  });
+
+  await check('大资源逐块解压后内容完整', async () => {
+    const big = new Uint8Array(300_000).map((_, i) => (i * 31) % 251);
+    const parsed = await extract(
+      zip({ 'manifest.json': manifest({ assets: [{ path: 'assets/big.mp4', kind: 'video', mimeType: 'video/mp4' }] }), 'content.json': content }, { 'assets/big.mp4': big }),
+      64 * 1024,
+    );
+    assert.deepStrictEqual(parsed.files.get('assets/big.mp4'), Array.from(big));
+  });
+
+  await check('manifest 列出的资源缺失 → 拒绝', async () => {
+    await expectExtractError(zip({ 'manifest.json': manifest(), 'content.json': content }), /缺少资源/);
+  });
+
+  await check('被截断的归档：未完整解压的资源视为缺失', async () => {
+    const data = zip(
+      { 'manifest.json': manifest(), 'content.json': content },
+      { 'assets/0001.png': new Uint8Array(50_000).fill(7) },
+    );
+    await assert.rejects(extract(data.subarray(0, data.byteLength - 30_000)), (error: unknown) => error instanceof ProjectArchiveError);
+  });
+
+  await check('缺少 content.json / 非 zip → 拒绝', async () => {
+    await expectExtractError(zip({ 'manifest.json': manifest({ assets: [] }) }), /content\.json/);
+    await expectExtractError(strToU8('not a zip'), /无法解压/);
+  });
+
+  await check('资源 mimeType 只沿用图片 / 视频 / 音频 / 模型，其余按二进制存储', () => {
+    assert.strictEqual(sanitizeArchiveMimeType('image/png'), 'image/png');
+    assert.strictEqual(sanitizeArchiveMimeType('Video/MP4'), 'video/mp4');
+    assert.strictEqual(sanitizeArchiveMimeType('model/gltf-binary'), 'model/gltf-binary');
+    assert.strictEqual(sanitizeArchiveMimeType('text/html'), 'application/octet-stream');
+    assert.strictEqual(sanitizeArchiveMimeType('image/svg+xml'), 'application/octet-stream');
+    assert.strictEqual(sanitizeArchiveMimeType('image/png; charset=utf-8'), 'application/octet-stream');
+    assert.strictEqual(sanitizeArchiveMimeType(undefined), 'application/octet-stream');
+    const migrated = migrateProjectArchive({
+      manifest: manifest({ assets: [{ path: 'assets/x.html', kind: 'file', mimeType: 'text/html' }] }),
+      content,
+    });
+    assert.strictEqual(migrated.manifest.assets[0].mimeType, 'application/octet-stream');
+  });
+
+  await check('版本：高于当前版本拒绝，格式标识不符拒绝', () => {
+    expectArchiveError(() => migrateProjectArchive({ manifest: manifest({ version: 2 }), content }), /高于当前支持的版本/);
+    expectArchiveError(() => migrateProjectArchive({ manifest: manifest({ format: 'other' }), content }), /不是 Tanva/);
+    expectArchiveError(() => migrateProjectArchive({ manifest: manifest({ version: 0 }), content }), /版本号无效/);
+  });
+
+  await check('资源路径必须位于 assets/ 下且不含 ..', () => {
+    expectArchiveError(
+      () => migrateProjectArchive({ manifest: manifest({ assets: [{ path: 'assets/../x.png' }] }), content }),
+      /资源清单无效/,
+    );
+    expectArchiveError(
+      () => migrateProjectArchive({ manifest: manifest({ assets: [{ path: 'manifest.json' }] }), content }),
+      /资源清单无效/,
+    );
+  });
+
+  await check('引用改写：嵌套字段与 paperJson 内的 Raster source，未知路径保持原样', () => {
+    const urls = new Map([['assets/0001.png', 'https://cdn.example.com/projects/u/p/assets/0001.png']]);
+    const out = remapArchiveAssetRefs(content, urls);
+    assert.strictEqual(out.assets.images[0].url, 'https://cdn.example.com/projects/u/p/assets/0001.png');
+    assert.ok(out.paperJson.includes('"source":"https://cdn.example.com/projects/u/p/assets/0001.png"'));
+    assert.strictEqual(out.flow.nodes[0].data.text, 'tanva-asset:assets/missing.png');
+  });
+
+  await check('资源 key 落在新项目目录下', () => {
+    assert.strictEqual(archiveAssetKey('projects/u/p/', 'assets/0001.png'), 'projects/u/p/assets/0001.png');
+    assert.strictEqual(archiveAssetKey('projects/u/p', 'assets/a b.png'), 'projects/u/p/assets/a_b.png');
+  });
+
+  console.log(`\n${passed} passed${process.exitCode ? ', with failures' : ''}`);
+}
+
+void main();
@@ -0,0 +1,113 @@
+/* eslint-disable no-console */
+/**
+ * 项目积分预算的阈值归一化 / 预扣判定 / 阈值跨越 / 用量归属校验（后端无 jest，用 ts-node 跑断言）。
+ *   运行: npm run verify:project-budget
+ */
+import * as assert from 'assert';
+import {
+  budgetUsagePercent,
+  decideChargeProject,
+  DEFAULT_BUDGET_ALERT_THRESHOLDS,
+  evaluateProjectBudget,
+  normalizeBudgetThresholds,
+  resolveUsageAttribution,
+} from '../src/credits/project-credit-budget';
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+  try {
+    fn();
+    passed += 1;
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    console.error(`  ✗ ${name}\n    ${e?.message || e}`);
+    process.exitCode = 1;
+  }
+}
+
+const budget = (over: Partial<Parameters<typeof evaluateProjectBudget>[0]> = {}) => ({
+  limitCredits: 1000,
+  alertThresholds: [50, 80, 100],
+  blockWhenExceeded: true,
+  alertedThreshold: 0,
+  ...over,
+});
+
+check('阈值：取整、去重、升序、越界丢弃，空则默认', () => {
+  assert.deepStrictEqual(normalizeBudgetThresholds([80, 50.4, 50, 0, 120, '90']), [50, 80, 90]);
+  assert.deepStrictEqual(normalizeBudgetThresholds(undefined), [...DEFAULT_BUDGET_ALERT_THRESHOLDS]);
+  assert.deepStrictEqual(normalizeBudgetThresholds([1, 2, 3, 4, 5, 6]), [1, 2, 3, 4, 5]);
+});
+
+check('预扣判定：超额且拦截时拒绝，不拦截时放行', () => {
+  const blocked = evaluateProjectBudget(budget(), 950, 100);
+  assert.deepStrictEqual(blocked, { allowed: false, spent: 950, remaining: 50 });
+  assert.strictEqual(evaluateProjectBudget(budget(), 900, 100).allowed, true);
+  const soft = evaluateProjectBudget(budget({ blockWhenExceeded: false }), 950, 100);
+  assert.ok(soft.allowed && soft.spentAfter === 1050 && soft.crossedThreshold === 100);
+  // 免费操作（0 积分）不受拦截
+  assert.strictEqual(evaluateProjectBudget(budget(), 2000, 0).allowed, true);
+});
+
+check('阈值跨越：返回新跨过的最高阈值，已通知的不重复', () => {
+  const first = evaluateProjectBudget(budget(), 400, 450);
+  assert.ok(first.allowed && first.crossedThreshold === 80);
+  const again = evaluateProjectBudget(budget({ alertedThreshold: 80 }), 850, 10);
+  assert.ok(again.allowed && again.crossedThreshold === null);
+  const below = evaluateProjectBudget(budget(), 100, 100);
+  assert.ok(below.allowed && below.crossedThreshold === null);
+  assert.strictEqual(budgetUsagePercent(999, 1000), 99);
+  assert.strictEqual(budgetUsagePercent(5, 0), 100);
+});
+
+check('用量归属：显式优先，回落到 clientProjectId，非法 id 丢弃，无项目不记节点', () => {
+  assert.deepStrictEqual(
+    resolveUsageAttribution({ projectId: 'p-1', nodeId: 'n_1', requestParams: { clientProjectId: 'p-2' } }),
+    { projectId: 'p-1', nodeId: 'n_1' },
+  );
+  assert.deepStrictEqual(
+    resolveUsageAttribution({ requestParams: { clientProjectId: 'p-2', clientNodeId: 'n-2' } }),
+    { projectId: 'p-2', nodeId: 'n-2' },
+  );
+  assert.deepStrictEqual(resolveUsageAttribution({ projectId: "p'; drop", nodeId: 'n' }), {
+    projectId: undefined,
+    nodeId: undefined,
+  });
+});
+
+const facts = (over: Partial<Parameters<typeof decideChargeProject>[0]> = {}) => ({
+  claimAccessible: true,
+  claimSharedWithFundingTeam: false,
+  fundingTeamHasBlockingBudget: false,
+  ...over,
+});
+
+check('扣费归属：设了拦截预算的团队，用户 API Key 调用（不带项目）照常放行、不归属', () => {
+  assert.deepStrictEqual(
+    decideChargeProject(facts({ fundingTeamId: 't-1', fundingTeamHasBlockingBudget: true })),
+    { projectId: null },
+  );
+});
+
+check('扣费归属：团队出资只归属团队项目；声明团队外项目且团队设了拦截预算时拒绝', () => {
+  assert.deepStrictEqual(
+    decideChargeProject(facts({ claimedProjectId: 'p-1', fundingTeamId: 't-1', claimSharedWithFundingTeam: true })),
+    { projectId: 'p-1' },
+  );
+  assert.deepStrictEqual(decideChargeProject(facts({ claimedProjectId: 'p-1', fundingTeamId: 't-1' })), {
+    projectId: null,
+  });
+  assert.ok(
+    'error' in
+      decideChargeProject(facts({ claimedProjectId: 'p-1', fundingTeamId: 't-1', fundingTeamHasBlockingBudget: true })),
+  );
+});
+
+check('扣费归属：个人出资归属可访问的项目，不可访问的丢弃', () => {
+  assert.deepStrictEqual(decideChargeProject(facts({ claimedProjectId: 'p-1' })), { projectId: 'p-1' });
+  assert.deepStrictEqual(decideChargeProject(facts({ claimedProjectId: 'p-1', claimAccessible: false })), {
+    projectId: null,
+  });
+});
+
+console.log(`\n${passed} passed${process.exitCode ? ', with failures' : ''}`);
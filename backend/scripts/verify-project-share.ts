@@ -0,0 +1,127 @@
+/* eslint-disable no-console */
+/**
+ * 项目公开分享链接的 token / 状态 / 过期时间 / 内容脱敏校验（后端无 jest，用 ts-node 跑断言）。
+ *   运行: npm run verify:project-share
+ */
+import * as assert from 'assert';
+import {
+  generateShareToken,
+  isWellFormedShareToken,
+  MAX_SHARE_LINK_LIFETIME_MS,
+  normalizeShareAccess,
+  parseShareExpiry,
+  redactSharedContent,
+  resolveShareLinkState,
+} from '../src/project-share/project-share-links';
+import {
+  SHARE_PASSWORD_MAX_FAILURES_PER_IP,
+  SHARE_PASSWORD_MAX_FAILURES_PER_LINK,
+  ShareAttemptLimitService,
+} from '../src/project-share/share-attempt-limit.service';
+
+let passed = 0;
+async function check(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn();
+    passed += 1;
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    console.error(`  ✗ ${name}\n    ${e?.message || e}`);
+    process.exitCode = 1;
+  }
+}
+
+const now = new Date('2026-06-01T00:00:00.000Z');
+
+async function main() {
+  await check('token：随机、url 安全、格式校验通过', () => {
+    const a = generateShareToken();
+    const b = generateShareToken();
+    assert.notStrictEqual(a, b);
+    assert.ok(isWellFormedShareToken(a));
+    assert.ok(!isWellFormedShareToken('short'));
+    assert.ok(!isWellFormedShareToken(`${a}/../x`));
+    assert.ok(!isWellFormedShareToken(undefined));
+  });
+
+  await check('权限：仅 comment 保留，其余一律降为 view', () => {
+    assert.strictEqual(normalizeShareAccess('comment'), 'comment');
+    assert.strictEqual(normalizeShareAccess('edit'), 'view');
+    assert.strictEqual(normalizeShareAccess(undefined), 'view');
+  });
+
+  await check('状态：撤销优先于过期，未设过期时间永久有效', () => {
+    const past = new Date('2026-05-01T00:00:00.000Z');
+    assert.strictEqual(resolveShareLinkState({ expiresAt: null, revokedAt: null }, now), 'active');
+    assert.strictEqual(resolveShareLinkState({ expiresAt: past, revokedAt: null }, now), 'expired');
+    assert.strictEqual(resolveShareLinkState({ expiresAt: past, revokedAt: past }, now), 'revoked');
+    assert.strictEqual(resolveShareLinkState({ expiresAt: now, revokedAt: null }, now), 'expired');
+  });
+
+  await check('过期时间：空为永久；过去 / 超过一年 / 非法格式拒绝', () => {
+    assert.deepStrictEqual(parseShareExpiry(undefined, now), { expiresAt: null });
+    assert.deepStrictEqual(parseShareExpiry('', now), { expiresAt: null });
+    assert.ok('error' in parseShareExpiry('2026-05-01T00:00:00.000Z', now));
+    assert.ok('error' in parseShareExpiry('not a date', now));
+    const tooLate = new Date(now.getTime() + MAX_SHARE_LINK_LIFETIME_MS + 1000).toISOString();
+    assert.ok('error' in parseShareExpiry(tooLate, now));
+    const ok = parseShareExpiry('2026-06-08T00:00:00.000Z', now);
+    assert.ok('expiresAt' in ok && ok.expiresAt?.toISOString() === '2026-06-08T00:00:00.000Z');
+  });
+
+  await check('内容脱敏：去掉 AI 对话与凭据字段，保留画布与 flow', () => {
+    const paperJson = JSON.stringify(['Project', [['Layer', { name: 'token' }]]]);
+    const out = redactSharedContent({
+      paperJson,
+      aiChatSessions: [{ id: 's' }],
+      aiChatActiveSessionId: 's',
+      meta: { savedAt: 'x' },
+      flow: {
+        nodes: [{ id: 'n', type: 'textPrompt', data: { text: 'hi', apiKey: 'sk-1', maxTokens: 100, nested: { accessToken: 't' } } }],
+        edges: [],
+      },
+    });
+    assert.strictEqual(out.paperJson, paperJson);
+    assert.ok(!('aiChatSessions' in out) && !('aiChatActiveSessionId' in out) && !('meta' in out));
+    assert.deepStrictEqual(out.flow.nodes[0].data, { text: 'hi', maxTokens: 100, nested: {} });
+    assert.strictEqual(redactSharedContent(null), null);
+  });
+
+  const limiter = () => new ShareAttemptLimitService({ get: () => undefined } as any);
+  const rejectsWith429 = (promise: Promise<void>) =>
+    assert.rejects(promise, (e: any) => e?.getStatus?.() === 429);
+
+  await check('密码限流：同一 IP 连续输错达到上限后锁定，其他 IP 不受影响', async () => {
+    const attempts = limiter();
+    for (let i = 0; i < SHARE_PASSWORD_MAX_FAILURES_PER_IP; i++) {
+      await attempts.assertAllowed('link-a', '203.0.113.7');
+      await attempts.recordFailure('link-a', '203.0.113.7');
+    }
+    await rejectsWith429(attempts.assertAllowed('link-a', '203.0.113.7'));
+    // 按 IP 跨链接计数：换一个链接也不能继续试
+    await rejectsWith429(attempts.assertAllowed('link-b', '203.0.113.7'));
+    await attempts.assertAllowed('link-a', '198.51.100.1');
+  });
+
+  await check('密码限流：同一链接被多个 IP 分散尝试也会锁定', async () => {
+    const attempts = limiter();
+    for (let i = 0; i < SHARE_PASSWORD_MAX_FAILURES_PER_LINK; i++) {
+      await attempts.recordFailure('link-a', `198.51.100.${i}`);
+    }
+    await rejectsWith429(attempts.assertAllowed('link-a', '192.0.2.200'));
+    await attempts.assertAllowed('link-b', '192.0.2.200');
+  });
+
+  await check('密码限流：拿不到真实 IP（回环地址）时只按链接计数', async () => {
+    const attempts = limiter();
+    for (let i = 0; i < SHARE_PASSWORD_MAX_FAILURES_PER_IP; i++) {
+      await attempts.recordFailure(`link-${i}`, '127.0.0.1');
+    }
+    await attempts.assertAllowed('link-x', '127.0.0.1');
+    await attempts.assertAllowed('link-x', undefined);
+  });
+
+  console.log(`\n${passed} passed${process.exitCode ? ', with failures' : ''}`);
+}
+
+void main();
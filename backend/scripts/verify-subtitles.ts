@@ -0,0 +1,131 @@
+/* eslint-disable no-console */
+/**
+ * 字幕节点纯函数校验（分段规整、SRT/VTT、腾讯识别结果映射、ASS 文档、ffmpeg 参数、TC3 签名）。
+ *   运行: npm run verify:subtitles
+ */
+import * as assert from 'assert';
+import {
+  buildAssDocument,
+  buildBurnFfmpegArgs,
+  buildSrt,
+  buildVtt,
+  DEFAULT_SUBTITLE_STYLE,
+  formatSrtTime,
+  normalizeSubtitleSegments,
+  normalizeSubtitleStyle,
+  segmentsFromTencentAsr,
+} from '../src/subtitles/subtitle-format';
+import { signTencentCloudRequest } from '../src/subtitles/tencent-file-asr.service';
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+  try {
+    fn();
+    passed += 1;
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    console.error(`  ✗ ${name}\n    ${e?.message || e}`);
+    process.exitCode = 1;
+  }
+}
+
+check('分段规整：排序、丢空文本、最短时长', () => {
+  const segments = normalizeSubtitleSegments([
+    { start: 3, end: 4, text: ' 第二句 ' },
+    { start: 1, end: 1, text: '第一句' },
+    { start: 2, end: 2.5, text: '   ' },
+  ]);
+  assert.deepStrictEqual(segments, [
+    { start: 1, end: 1.2, text: '第一句' },
+    { start: 3, end: 4, text: '第二句' },
+  ]);
+  assert.throws(() => normalizeSubtitleSegments({}), /数组/);
+  assert.throws(() => normalizeSubtitleSegments([{ start: 'a', end: 1, text: 'x' }]), /时间/);
+  assert.throws(() => normalizeSubtitleSegments([{ start: 0, end: 1, text: 'x'.repeat(501) }]), /500/);
+});
+
+check('样式规整：非法值回退默认并夹紧范围', () => {
+  assert.deepStrictEqual(normalizeSubtitleStyle(undefined), DEFAULT_SUBTITLE_STYLE);
+  const style = normalizeSubtitleStyle({ fontSizePercent: 99, color: '#ffcc00', outlineColor: 'red', position: 'top' });
+  assert.strictEqual(style.fontSizePercent, 12);
+  assert.strictEqual(style.color, '#FFCC00');
+  assert.strictEqual(style.outlineColor, DEFAULT_SUBTITLE_STYLE.outlineColor);
+  assert.strictEqual(style.position, 'top');
+});
+
+check('SRT / VTT 时间戳与结构', () => {
+  assert.strictEqual(formatSrtTime(3723.4567), '01:02:03,457');
+  const segments = [
+    { start: 0.5, end: 2, text: '你好' },
+    { start: 2, end: 3.25, text: 'hello\nworld' },
+  ];
+  assert.strictEqual(
+    buildSrt(segments),
+    '1\n00:00:00,500 --> 00:00:02,000\n你好\n\n2\n00:00:02,000 --> 00:00:03,250\nhello\nworld\n',
+  );
+  assert.strictEqual(
+    buildVtt(segments),
+    'WEBVTT\n\n00:00:00.500 --> 00:00:02.000\n你好\n\n00:00:02.000 --> 00:00:03.250\nhello\nworld\n',
+  );
+});
+
+check('腾讯识别 ResultDetail → 分段', () => {
+  const segments = segmentsFromTencentAsr([
+    { FinalSentence: '第二句。', StartMs: 1800, EndMs: 3000 },
+    { FinalSentence: '第一句，', StartMs: 0, EndMs: 1700 },
+    { FinalSentence: '', StartMs: 3000, EndMs: 3500 },
+    { FinalSentence: '缺时间' },
+  ]);
+  assert.deepStrictEqual(segments, [
+    { start: 0, end: 1.7, text: '第一句，' },
+    { start: 1.8, end: 3, text: '第二句。' },
+  ]);
+  assert.deepStrictEqual(segmentsFromTencentAsr(null), []);
+});
+
+check('ASS 文档：按视频高度换算字号、对齐与转义', () => {
+  const doc = buildAssDocument(
+    [{ start: 1.25, end: 62.5, text: 'a{b}\\n\n第二行' }],
+    { ...DEFAULT_SUBTITLE_STYLE, position: 'top', color: '#FFCC00', background: true },
+    { width: 1080, height: 1920, fontName: 'Noto Sans CJK SC' },
+  );
+  assert.match(doc, /PlayResX: 1080\nPlayResY: 1920/);
+  // 5% × 1920 = 96；顶部对齐 8；底框 BorderStyle 3；颜色 &HAABBGGRR
+  assert.match(doc, /Style: Default,Noto Sans CJK SC,96,&H0000CCFF,&H0000CCFF,&H73000000,/);
+  assert.match(doc, /,3,7\.7,0,8,54,54,115,1$/m);
+  assert.match(doc, /Dialogue: 0,0:00:01\.25,0:01:02\.50,Default,,0,0,0,,a\\\{b\\\}＼n\\N第二行/);
+});
+
+check('烧录 ffmpeg 参数：ass 滤镜路径转义、libx264 + 音轨直拷', () => {
+  const args = buildBurnFfmpegArgs({
+    videoUrl: 'https://oss.example.com/a.mp4',
+    assPath: "/tmp/sub'1/captions.ass",
+    outputPath: '/tmp/out.mp4',
+    fontsDir: 'C:\\fonts',
+  });
+  assert.strictEqual(args[args.indexOf('-vf') + 1], "ass='/tmp/sub\\'1/captions.ass':fontsdir='C\\:/fonts'");
+  assert.deepStrictEqual(args.slice(args.indexOf('-c:v'), args.indexOf('-c:v') + 8), [
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-c:a', 'copy',
+  ]);
+  assert.strictEqual(args[args.length - 1], '/tmp/out.mp4');
+});
+
+check('TC3-HMAC-SHA256 签名结构稳定', () => {
+  const params = {
+    secretId: 'AKIDtest',
+    secretKey: 'secret',
+    service: 'asr',
+    host: 'asr.tencentcloudapi.com',
+    body: '{"TaskId":1}',
+    timestamp: 1_700_000_000,
+  };
+  const auth = signTencentCloudRequest(params);
+  assert.match(
+    auth,
+    /^TC3-HMAC-SHA256 Credential=AKIDtest\/2023-11-14\/asr\/tc3_request, SignedHeaders=content-type;host, Signature=[0-9a-f]{64}$/,
+  );
+  assert.strictEqual(signTencentCloudRequest(params), auth);
+  assert.notStrictEqual(signTencentCloudRequest({ ...params, body: '{"TaskId":2}' }), auth);
+});
+
+console.log(`\n${passed} passed${process.exitCode ? ', with failures' : ''}`);
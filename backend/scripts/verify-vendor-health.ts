@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import {
+  classifyVendorError,
+  createVendorCircuit,
+  currentCircuitState,
+  rankByVendorHealth,
+  recordCircuitOutcome,
+  resolveVendorHealthTier,
+  shouldTripOnFailureRate,
+  summarizeVendorSamples,
+  usageRecordToVendorSample,
+  type VendorHealthSample,
+  type VendorHealthTier,
+} from '../src/ai/services/vendor-health';
+
+assert.equal(classifyVendorError(new Error('Request timed out after 180000ms')), 'timeout');
+assert.equal(classifyVendorError({ status: 429, message: 'slow down' }), 'rate_limit');
+assert.equal(classifyVendorError(new Error('upstream 502 bad gateway')), 'upstream');
+assert.equal(classifyVendorError(new Error('该线路暂不支持首尾帧')), 'unavailable');
+assert.equal(classifyVendorError(new Error('prompt 触发内容审核')), 'client');
+assert.equal(classifyVendorError('???'), 'unknown');
+
+// 连续 3 次线路故障熔断；参数/审核类错误不计入
+const t0 = 1_000_000;
+let circuit = createVendorCircuit(t0);
+circuit = recordCircuitOutcome(circuit, { ok: false, errorClass: 'timeout' }, t0 + 1);
+circuit = recordCircuitOutcome(circuit, { ok: false, errorClass: 'client' }, t0 + 2);
+circuit = recordCircuitOutcome(circuit, { ok: false, errorClass: 'upstream' }, t0 + 3);
+assert.equal(currentCircuitState(circuit, t0 + 3), 'closed');
+circuit = recordCircuitOutcome(circuit, { ok: false, errorClass: 'upstream', message: '502' }, t0 + 4);
+assert.equal(currentCircuitState(circuit, t0 + 4), 'open');
+assert.equal(circuit.openUntil, t0 + 4 + 60_000);
+assert.equal(circuit.lastError, '502');
+
+// 冷却到期进入半开；探测失败以翻倍冷却重新打开，探测成功闭合
+assert.equal(currentCircuitState(circuit, t0 + 4 + 60_000), 'half_open');
+const reopened = recordCircuitOutcome(circuit, { ok: false, errorClass: 'timeout' }, t0 + 70_000);
+assert.equal(currentCircuitState(reopened, t0 + 70_000), 'open');
+assert.equal(reopened.openUntil, t0 + 70_000 + 120_000);
+const closed = recordCircuitOutcome(reopened, { ok: true }, t0 + 70_000 + 120_000);
+assert.equal(currentCircuitState(closed, t0 + 70_000 + 120_000), 'closed');
+assert.equal(closed.closedAt, t0 + 70_000 + 120_000);
+
+// 窗口统计：client 错误只记类别；延迟只取成功样本
+const now = 10 * 60 * 60_000;
+const samples: VendorHealthSample[] = [
+  { at: now - 2 * 60 * 60_000, ok: false, errorClass: 'timeout', source: 'usage' },
+  { at: now - 1000, ok: true, latencyMs: 30_000, source: 'usage' },
+  { at: now - 900, ok: true, latencyMs: 10_000, source: 'usage' },
+  { at: now - 800, ok: false, errorClass: 'upstream', source: 'live' },
+  { at: now - 700, ok: false, errorClass: 'client', source: 'usage' },
+  { at: now - 600, ok: true, latencyMs: 20_000, source: 'usage' },
+];
+const summary = summarizeVendorSamples(samples, now);
+assert.equal(summary.totalSamples, 4);
+assert.equal(summary.successRate, 0.75);
+assert.equal(summary.p50LatencyMs, 20_000);
+assert.equal(summary.p90LatencyMs, 30_000);
+assert.deepEqual(summary.errorClasses, { upstream: 1, client: 1 });
+
+// 失败率熔断只看本次闭合之后的样本
+const failing: VendorHealthSample[] = Array.from({ length: 6 }, (_, index) => ({
+  at: now - 6000 + index * 1000,
+  ok: index % 3 === 0,
+  errorClass: index % 3 === 0 ? undefined : ('upstream' as const),
+  source: 'usage' as const,
+}));
+assert.equal(shouldTripOnFailureRate(createVendorCircuit(now - 60_000), failing, now), true);
+assert.equal(shouldTripOnFailureRate(createVendorCircuit(now - 2500), failing, now), false);
+
+assert.equal(resolveVendorHealthTier(summarizeVendorSamples(failing, now), 'closed'), 'degraded');
+assert.equal(resolveVendorHealthTier(summary, 'half_open'), 'degraded');
+assert.equal(resolveVendorHealthTier(summary, 'open'), 'open');
+assert.equal(resolveVendorHealthTier(summarizeVendorSamples([], now), 'closed'), 'healthy');
+
+// 分层重排：同层保持原顺序（指定 vendor 优先），熔断线路垫底兜底
+const tiers: Record<string, VendorHealthTier> = {
+  preferred: 'open',
+  fallback: 'healthy',
+  legacy: 'degraded',
+  spare: 'healthy',
+};
+assert.deepEqual(
+  rankByVendorHealth(['preferred', 'fallback', 'legacy', 'spare'], (key) => tiers[key]),
+  ['fallback', 'spare', 'legacy', 'preferred'],
+);
+
+// usage 样本只认拿到 taskId 的任务终态
+const createdAt = new Date(now);
+assert.deepEqual(
+  usageRecordToVendorSample({
+    responseStatus: 'success',
+    requestParams: { taskId: 't-1', modelKey: 'kling-3.0', vendorKey: 'tencent_vod' },
+    processingTime: 42_000,
+    createdAt,
+  }),
+  {
+    modelKey: 'kling-3.0',
+    vendorKey: 'tencent_vod',
+    sample: { at: now, ok: true, latencyMs: 42_000, errorClass: undefined, source: 'usage' },
+  },
+);
+assert.equal(
+  usageRecordToVendorSample({
+    responseStatus: 'failed',
+    requestParams: { taskId: 't-2', modelKey: 'kling-3.0', vendorKey: 'new_api' },
+    errorMessage: '视频生成任务失败',
+    createdAt,
+  })?.sample.errorClass,
+  'unknown',
+);
+assert.equal(
+  usageRecordToVendorSample({
+    responseStatus: 'failed',
+    requestParams: { modelKey: 'kling-3.0', vendorKey: 'new_api' },
+    createdAt,
+  }),
+  null,
+);
+assert.equal(
+  usageRecordToVendorSample({
+    responseStatus: 'pending',
+    requestParams: { taskId: 't-3', modelKey: 'kling-3.0', vendorKey: 'new_api' },
+    createdAt,
+  }),
+  null,
+);
+
+console.log('Vendor health verification passed');
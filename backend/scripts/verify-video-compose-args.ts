@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import {
+  buildVideoComposeFfmpegArgs,
+  parseFfmpegProgress,
+  planVideoCompose,
+} from '../src/ai/services/video-compose-args';
+
+const probes = [
+  { url: 'https://oss.example.com/a.mp4', durationSec: 5, width: 1281, height: 721, hasAudio: true },
+  { url: 'https://oss.example.com/b.mp4', durationSec: 4, width: 720, height: 1280, hasAudio: false },
+  { url: 'https://oss.example.com/c.mp4', durationSec: 2, width: 1280, height: 720, hasAudio: true },
+];
+
+// trimStart / trimEnd 为微秒；裁完 <= 0 的片段跳过；尺寸取第一段并取偶数
+const plan = planVideoCompose(probes, [
+  { trimStart: 1_000_000 },
+  { trimStart: 500_000, trimEnd: 1_500_000 },
+  { trimStart: 2_000_000 },
+]);
+assert.deepEqual(plan, {
+  segments: [
+    { url: 'https://oss.example.com/a.mp4', startSec: 1, durationSec: 4, hasAudio: true },
+    { url: 'https://oss.example.com/b.mp4', startSec: 0.5, durationSec: 2, hasAudio: false },
+  ],
+  totalSec: 6,
+  width: 1280,
+  height: 720,
+});
+
+assert.throws(() => planVideoCompose([probes[0]], []), /至少需要 2 个视频/);
+assert.throws(
+  () => planVideoCompose(probes.slice(0, 2), [{ trimStart: 5_000_000 }, { trimEnd: 4_000_000 }]),
+  /没有可用的视频片段/,
+);
+
+const noTracks = buildVideoComposeFfmpegArgs(plan, [], '/tmp/out.mp4');
+const noTracksFilter = noTracks[noTracks.indexOf('-filter_complex') + 1];
+assert.deepEqual(noTracks.slice(2, 14), [
+  '-ss', '1', '-t', '4', '-i', 'https://oss.example.com/a.mp4',
+  '-ss', '0.5', '-t', '2', '-i', 'https://oss.example.com/b.mp4',
+]);
+assert.match(noTracksFilter, /\[1:v\]setpts=PTS-STARTPTS,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720/);
+assert.match(noTracksFilter, /anullsrc=r=48000:cl=stereo,atrim=duration=2\[a1\]/);
+assert.match(noTracksFilter, /\[v0\]\[a0\]\[v1\]\[a1\]concat=n=2:v=1:a=1\[vout\]\[acat\]/);
+assert.ok(!noTracksFilter.includes('amix'));
+assert.equal(noTracks[noTracks.indexOf('-map') + 3], '[acat]');
+
+// 音轨：音量钳到 0~2，loop 走 -stream_loop，时长钉成片总长后与片段音轨叠加混音
+const withTracks = buildVideoComposeFfmpegArgs(
+  plan,
+  [
+    { url: 'https://oss.example.com/bgm.mp3', volume: 3, loop: true },
+    { url: 'https://oss.example.com/voice.mp3' },
+  ],
+  '/tmp/out.mp4',
+);
+const withTracksFilter = withTracks[withTracks.indexOf('-filter_complex') + 1];
+const bgmIndex = withTracks.indexOf('https://oss.example.com/bgm.mp3');
+assert.deepEqual(withTracks.slice(bgmIndex - 3, bgmIndex + 1), ['-stream_loop', '-1', '-i', 'https://oss.example.com/bgm.mp3']);
+assert.equal(withTracks[withTracks.indexOf('https://oss.example.com/voice.mp3') - 2], 'https://oss.example.com/bgm.mp3');
+assert.match(withTracksFilter, /\[2:a\]aformat=sample_rates=48000:channel_layouts=stereo,volume=2,atrim=duration=6,asetpts=PTS-STARTPTS\[t0\]/);
+assert.match(withTracksFilter, /\[3:a\][^;]*volume=1,atrim=duration=6/);
+assert.match(withTracksFilter, /\[acat\]\[t0\]\[t1\]amix=inputs=3:duration=first:dropout_transition=0:normalize=0\[aout\]/);
+assert.equal(withTracks[withTracks.indexOf('-t', withTracks.indexOf('-filter_complex')) + 1], '6');
+assert.equal(withTracks[withTracks.length - 1], '/tmp/out.mp4');
+
+assert.equal(parseFfmpegProgress('frame=1\nout_time_us=1500000\nout_time_us=3000000\n', 6), 0.5);
+assert.equal(parseFfmpegProgress('out_time_ms=9000000\n', 6), 1);
+assert.equal(parseFfmpegProgress('progress=continue\n', 6), null);
+
+console.log('Video compose ffmpeg args verification passed');
@@ -27,6 +27,7 @@ import {
   type ManagedPricingPreviewInput,
 } from './services/node-config.service';
 import { SystemMonitorService } from './services/system-monitor.service';
+import { VendorHealthService } from '../ai/services/vendor-health.service';
 import { BusinessPolicyService } from '../business-policy/business-policy.service';
 import type { UpdateMembershipCreditPolicyInput } from '../business-policy/business-policy.types';
 import { VolcAssetService } from '../volc-asset/volc-asset.service';
@@ -113,6 +114,7 @@ export class AdminController {
     private readonly membershipService: MembershipService,
     private readonly volcAssetService: VolcAssetService,
     private readonly systemMonitorService: SystemMonitorService,
+    private readonly vendorHealthService: VendorHealthService,
   ) {}
 
   /**
@@ -289,6 +291,13 @@ export class AdminController {
     });
   }
 
+  @Get('api-usage/vendor-health')
+  @ApiOperation({ summary: '获取托管模型线路健康度（成功率/耗时/错误分类/熔断状态）' })
+  async getVendorHealth(@Request() req: AuthenticatedRequest) {
+    this.checkAdmin(req, 'api-usage:stats');
+    return this.vendorHealthService.getOverview();
+  }
+
   @Get('api-usage/records')
   @ApiOperation({ summary: '获取所有API使用记录' })
   async getAllApiUsageRecords(@Request() req: AuthenticatedRequest, @Query() query: ApiUsageRecordsQueryDto) {
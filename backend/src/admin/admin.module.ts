@@ -14,6 +14,7 @@ import { ApiUsageRollupService } from './services/api-usage-rollup.service';
 import { VolcAssetModule } from '../volc-asset/volc-asset.module';
 import { TeamCollabModule } from '../team-collab/team-collab.module';
 import { TeamCoreModule } from '../team-core/team-core.module';
+import { AiModule } from '../ai/ai.module';
 
 @Module({
   imports: [
@@ -25,6 +26,7 @@ import { TeamCoreModule } from '../team-core/team-core.module';
     VolcAssetModule,
     TeamCollabModule,
     TeamCoreModule,
+    AiModule,
   ],
   controllers: [AdminController, SettingsPublicController],
   providers: [AdminService, TemplateService, NodeConfigService, SystemMonitorService, ApiUsageRollupService],
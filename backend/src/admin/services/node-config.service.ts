@@ -1683,6 +1683,7 @@ export class NodeConfigService {
       { nodeKey: 'videoAnalyze', nameZh: '视频分析节点', nameEn: 'Video Analysis', category: 'other', sortOrder: 30, creditsPerCall: 60, serviceType: 'gemini-video-analyze', priceYuan: 0.6, description: '按模型档位和渠道分析视频内容' },
       { nodeKey: 'videoFrameExtract', nameZh: '视频帧提取', nameEn: 'Frame Extract', category: 'other', sortOrder: 31, creditsPerCall: 0, description: '从视频提取帧，免费' },
       { nodeKey: 'videoToGif', nameZh: '视频转GIF', nameEn: 'Video to GIF', category: 'other', sortOrder: 32, creditsPerCall: 30, serviceType: 'video-to-gif', priceYuan: 0.3, description: '将视频片段转换为GIF' },
+      { nodeKey: 'subtitle', nameZh: '字幕', nameEn: 'Subtitles', category: 'video', sortOrder: 32, creditsPerCall: 20, serviceType: 'video-subtitle-asr', priceYuan: 0.2, description: '识别音轨生成字幕，可编辑、导出 SRT/VTT 或烧录进视频（烧录另计 30 积分）' },
       { nodeKey: 'volcEnhanceVideo', nameZh: '视频画质增强', nameEn: 'Video Enhance', category: 'video', sortOrder: 33, creditsPerCall: 0, serviceType: 'volc-enhance-video', priceYuan: 0, description: '视频画质增强（超分）' },
       {
         nodeKey: 'analysis',
@@ -2383,6 +2384,7 @@ export class NodeConfigService {
       { nodeKey: 'videoAnalyze', nameZh: '视频分析节点', nameEn: 'Video Analysis', category: 'other', sortOrder: 30, creditsPerCall: 60, serviceType: 'gemini-video-analyze', priceYuan: 0.6, description: '按模型档位和渠道分析视频内容' },
       { nodeKey: 'videoFrameExtract', nameZh: '视频帧提取', nameEn: 'Frame Extract', category: 'other', sortOrder: 31, creditsPerCall: 0, description: '从视频提取帧，免费' },
       { nodeKey: 'videoToGif', nameZh: '视频转GIF', nameEn: 'Video to GIF', category: 'other', sortOrder: 32, creditsPerCall: 30, serviceType: 'video-to-gif', priceYuan: 0.3, description: '将视频片段转换为GIF' },
+      { nodeKey: 'subtitle', nameZh: '字幕', nameEn: 'Subtitles', category: 'video', sortOrder: 32, creditsPerCall: 20, serviceType: 'video-subtitle-asr', priceYuan: 0.2, description: '识别音轨生成字幕，可编辑、导出 SRT/VTT 或烧录进视频（烧录另计 30 积分）' },
       { nodeKey: 'volcEnhanceVideo', nameZh: '视频画质增强', nameEn: 'Video Enhance', category: 'video', sortOrder: 33, creditsPerCall: 0, serviceType: 'volc-enhance-video', priceYuan: 0, description: '视频画质增强（超分）' },
       {
         nodeKey: 'analysis',
@@ -3,6 +3,7 @@ import { PrismaService } from '../../prisma/prisma.service';
 import { CreateTemplateDto, UpdateTemplateDto, TemplateQueryDto } from '../dto/template.dto';
 import { OssService } from '../../oss/oss.service';
 import { sanitizeDesignJson } from '../../utils/designJsonSanitizer';
+import { migrateFlowTemplateData } from '../../templates/flow-template-schema';
 
 const sanitizeNullableString = (value: unknown): string | null | undefined => {
   if (value === undefined) return undefined;
@@ -131,7 +132,7 @@ export class TemplateService {
     if (!templateData || (typeof templateData === 'object' && Object.keys(templateData).length === 0)) {
       throw new Error('模板数据不能为空');
     }
-    templateData = sanitizeDesignJson(templateData);
+    templateData = migrateFlowTemplateData(sanitizeDesignJson(templateData));
 
     return this.prisma.publicTemplate.create({
       data: {
@@ -213,7 +214,7 @@ export class TemplateService {
       resolvedTemplateData = json ?? undefined;
     }
     if (resolvedTemplateData !== undefined) {
-      resolvedTemplateData = sanitizeDesignJson(resolvedTemplateData);
+      resolvedTemplateData = migrateFlowTemplateData(sanitizeDesignJson(resolvedTemplateData));
     }
 
     return this.prisma.publicTemplate.update({
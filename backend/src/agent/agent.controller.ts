@@ -6,6 +6,7 @@ import {
   Post,
   Req,
   Res,
+  UnauthorizedException,
   UseGuards,
 } from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
@@ -85,7 +86,10 @@ export class AgentController {
     });
   }
 
+  // run 按 userId 隔离；静态 AI_API_KEYS 调用没有用户身份，不能共用一个匿名桶
   private resolveUserId(req: any): string {
-    return req.user?.id || req.user?.userId || req.user?.sub || 'anonymous';
+    const userId = req.user?.id || req.user?.userId || req.user?.sub;
+    if (!userId) throw new UnauthorizedException('需要用户登录');
+    return userId;
   }
 }
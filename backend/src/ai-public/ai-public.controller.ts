@@ -1,5 +1,5 @@
-import { Body, Controller, Get, Post, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Body, Controller, Get, Post, Logger, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
 import { AiPublicService } from './ai-public.service';
 import {
   ImageGenerationRequest,
@@ -14,13 +14,17 @@ import { VeoVideoService } from '../ai/services/veo-video.service';
 import { VeoGenerateVideoDto, VeoVideoResponseDto, VeoModelsResponseDto } from '../ai/dto/veo-video.dto';
 import { NodeConfigService } from '../admin/services/node-config.service';
 import { SeedAudioVoiceService } from '../ai/services/seed-audio-voice.service';
+import { AllowUserApiKeys, ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { assertApiKeyScope } from '../api-keys/api-key-scopes';
 
 /**
  * 公开 AI API 控制器
- * 无需认证,供外部调用
- * 其他PC可直接调用这些端点,无需API KEY配置
+ * 生成/编辑/融合/分析/对话/抠图/视频接口需要 `x-api-key`（用户在设置中自建的 API Key）或 JWT，
+ * 按 key 的作用域校验，并通过 CreditChargeService 记到所有者的个人或团队积分；
+ * 模型列表、节点配置等只读元数据接口仍无需认证。
  */
 @ApiTags('public-ai')
+@AllowUserApiKeys()
 @Controller('public/ai')
 export class AiPublicController {
   private readonly logger = new Logger(AiPublicController.name);
@@ -34,9 +38,11 @@ export class AiPublicController {
   ) {}
 
   @Post('generate')
+  @UseGuards(ApiKeyOrJwtGuard)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: '生成图像',
-    description: '根据文本提示生成新图像。无需身份认证。',
+    description: '根据文本提示生成新图像。需要 x-api-key 或登录态，按次扣除积分。',
   })
   @ApiResponse({
     status: 200,
@@ -52,44 +58,52 @@ export class AiPublicController {
       },
     },
   })
-  async generateImage(@Body() request: ImageGenerationRequest) {
-    return this.aiPublicService.generateImage(request);
+  async generateImage(@Body() request: ImageGenerationRequest, @Req() req: any) {
+    return this.aiPublicService.generateImage(request, req);
   }
 
   @Post('edit')
+  @UseGuards(ApiKeyOrJwtGuard)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: '编辑图像',
-    description: '编辑现有图像。无需身份认证。',
+    description: '编辑现有图像。需要 x-api-key 或登录态，按次扣除积分。',
   })
-  async editImage(@Body() request: ImageEditRequest) {
-    return this.aiPublicService.editImage(request);
+  async editImage(@Body() request: ImageEditRequest, @Req() req: any) {
+    return this.aiPublicService.editImage(request, req);
   }
 
   @Post('blend')
+  @UseGuards(ApiKeyOrJwtGuard)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: '融合多张图像',
-    description: '融合多张图像成一张。无需身份认证。',
+    description: '融合多张图像成一张。需要 x-api-key 或登录态，按次扣除积分。',
   })
-  async blendImages(@Body() request: ImageBlendRequest) {
-    return this.aiPublicService.blendImages(request);
+  async blendImages(@Body() request: ImageBlendRequest, @Req() req: any) {
+    return this.aiPublicService.blendImages(request, req);
   }
 
   @Post('analyze')
+  @UseGuards(ApiKeyOrJwtGuard)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: '分析图像',
-    description: '分析图像内容并返回详细描述。无需身份认证。',
+    description: '分析图像内容并返回详细描述。需要 x-api-key 或登录态，按次扣除积分。',
   })
-  async analyzeImage(@Body() request: ImageAnalysisRequest) {
-    return this.aiPublicService.analyzeImage(request);
+  async analyzeImage(@Body() request: ImageAnalysisRequest, @Req() req: any) {
+    return this.aiPublicService.analyzeImage(request, req);
   }
 
   @Post('chat')
+  @UseGuards(ApiKeyOrJwtGuard)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: '文本对话',
-    description: '与AI进行文本对话。无需身份认证。',
+    description: '与AI进行文本对话。需要 x-api-key 或登录态，按次扣除积分。',
   })
-  async chat(@Body() request: TextChatRequest) {
-    return this.aiPublicService.chat(request);
+  async chat(@Body() request: TextChatRequest, @Req() req: any) {
+    return this.aiPublicService.chat(request, req);
   }
 
   @Get('providers')
@@ -119,9 +133,11 @@ export class AiPublicController {
   }
 
   @Post('remove-background')
+  @UseGuards(ApiKeyOrJwtGuard)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: '移除背景',
-    description: '从图像中移除背景。无需身份认证。',
+    description: '从图像中移除背景。需要 x-api-key 或登录态，按次扣除积分。',
   })
   @ApiResponse({
     status: 200,
@@ -134,12 +150,18 @@ export class AiPublicController {
       },
     },
   })
-  async removeBackground(@Body() dto: RemoveBackgroundDto) {
+  async removeBackground(@Body() dto: RemoveBackgroundDto, @Req() req: any) {
     this.logger.log('🎯 [PUBLIC] Background removal request received');
     this.logger.log(`   Image size: ${dto.imageData?.length || 0} bytes`);
     this.logger.log(`   MIME type: ${dto.mimeType}`);
     this.logger.log(`   Source: ${dto.source || 'base64'}`);
 
+    return this.aiPublicService.charged(req, 'background-removal', undefined, () =>
+      this.runBackgroundRemoval(dto),
+    );
+  }
+
+  private async runBackgroundRemoval(dto: RemoveBackgroundDto) {
     try {
       const source = dto.source || 'base64';
       let imageData: string;
@@ -228,10 +250,12 @@ export class AiPublicController {
   }
 
   @Post('veo/generate')
+  @UseGuards(ApiKeyOrJwtGuard)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: 'VEO 视频生成',
     description: `
-      使用 VEO 生成视频。无需身份认证。
+      使用 VEO 生成视频。需要 x-api-key（video 作用域）或登录态。
       - veo3-fast: 文字快速生成视频
       - veo3-pro: 文字生成高质量视频（不支持垫图）
       - veo3-pro-frames: 图片+文字生成视频（支持垫图）
@@ -249,7 +273,12 @@ export class AiPublicController {
       },
     },
   })
-  async generateVeoVideo(@Body() dto: VeoGenerateVideoDto): Promise<VeoVideoResponseDto> {
+  async generateVeoVideo(
+    @Body() dto: VeoGenerateVideoDto,
+    @Req() req: any,
+  ): Promise<VeoVideoResponseDto> {
+    // VEO 暂无计价项（与 /ai/veo/generate 一致不扣积分），这里只校验作用域
+    assertApiKeyScope(req.apiClient, 'video');
     this.logger.log(`🎬 [PUBLIC] VEO video generation: model=${dto.model}, prompt=${dto.prompt.substring(0, 50)}...`);
 
     // 验证：veo3-pro-frames 需要图片
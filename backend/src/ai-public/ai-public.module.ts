@@ -1,15 +1,16 @@
 import { Module } from '@nestjs/common';
 import { AiModule } from '../ai/ai.module';
 import { AdminModule } from '../admin/admin.module';
+import { TeamCreditsModule } from '../team-credits/team-credits.module';
 import { AiPublicController } from './ai-public.controller';
 import { AiPublicService } from './ai-public.service';
 
 /**
  * 公开 AI API 模块
- * 提供无需认证的 AI 功能接口供外部调用
+ * 供外部通过用户 API Key 调用 AI 功能，按 key 所有者的个人/团队积分计费
  */
 @Module({
-  imports: [AiModule, AdminModule],
+  imports: [AiModule, AdminModule, TeamCreditsModule],
   controllers: [AiPublicController],
   providers: [AiPublicService],
 })
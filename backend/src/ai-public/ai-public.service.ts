@@ -11,61 +11,194 @@ import {
   AnalysisResult,
   TextResult,
 } from '../ai/providers/ai-provider.interface';
+import { CreditChargeService } from '../team-credits/credit-charge.service';
+import type { ServiceType } from '../credits/credits.config';
+import { ApiClientContext, assertApiKeyScope } from '../api-keys/api-key-scopes';
+
+/** 公开 API 的调用方：由 ApiKeyOrJwtGuard 写入的 apiClient 或 JWT 用户。 */
+export interface AiPublicCaller {
+  apiClient?: ApiClientContext;
+  user?: { sub?: string; id?: string };
+  headers?: Record<string, unknown>;
+  ip?: string;
+}
+
+type ImageOperation = 'generate' | 'edit' | 'blend' | 'analyze';
+
+/** 与 AiController 的计费口径一致：Fast(2.5) / Nano banana 2(3.1) / Pro。 */
+function resolveImageServiceType(operation: ImageOperation, model?: string): ServiceType {
+  const normalized = model?.trim().toLowerCase() ?? '';
+  const tier = normalized.includes('2.5') ? '2.5' : normalized.includes('3.1') ? '3.1' : 'pro';
+  if (operation === 'generate') {
+    if (tier === '2.5') return 'gemini-2.5-image';
+    if (tier === '3.1') return 'gemini-3.1-image';
+    return 'gemini-3-pro-image';
+  }
+  if (tier === 'pro') return `gemini-image-${operation}`;
+  return `gemini-${tier}-image-${operation}`;
+}
 
 @Injectable()
 export class AiPublicService {
   private readonly logger = new Logger(AiPublicService.name);
 
-  constructor(private readonly providerFactory: AIProviderFactory) {}
+  constructor(
+    private readonly providerFactory: AIProviderFactory,
+    private readonly creditCharge: CreditChargeService,
+  ) {}
+
+  /**
+   * 校验作用域并按调用方计费：用户 API Key 记到所有者（团队 key 记到团队积分），
+   * JWT 记到当前用户（可用 x-team-id 切换团队出资），静态 AI_API_KEYS 不计费。
+   * 抛错或返回 { success: false } 时回滚预扣/预留。
+   */
+  async charged<T>(
+    caller: AiPublicCaller,
+    serviceType: ServiceType,
+    model: string | undefined,
+    operation: () => Promise<T>,
+    options: { scope?: string; inputImageCount?: number } = {},
+  ): Promise<T> {
+    assertApiKeyScope(caller.apiClient, options.scope ?? serviceType);
+
+    const userId = caller.apiClient
+      ? caller.apiClient.userId
+      : caller.user?.sub || caller.user?.id;
+    if (!userId) {
+      return operation();
+    }
+    const teamId = caller.apiClient
+      ? caller.apiClient.teamId
+      : (caller.headers?.['x-team-id'] as string | undefined);
+
+    const startTime = Date.now();
+    const handle = await this.creditCharge.begin({
+      userId,
+      teamId,
+      serviceType,
+      model,
+      inputImageCount: options.inputImageCount,
+      requestParams: {
+        source: 'public-api',
+        ...(caller.apiClient?.id ? { apiKeyId: caller.apiClient.id } : {}),
+      },
+      ipAddress: caller.ip,
+      userAgent: caller.headers?.['user-agent'] as string | undefined,
+    });
+
+    let result: T;
+    try {
+      result = await operation();
+    } catch (error) {
+      await this.creditCharge.rollback(handle, {
+        errorMessage: error instanceof Error ? error.message : String(error),
+        processingTime: Date.now() - startTime,
+      });
+      throw error;
+    }
+
+    const returned = result as { success?: boolean; error?: unknown } | null;
+    if (returned && typeof returned === 'object' && returned.success === false) {
+      const error = returned.error as { message?: string } | string | undefined;
+      await this.creditCharge.rollback(handle, {
+        errorMessage: (typeof error === 'string' ? error : error?.message) || 'Public API call failed',
+        processingTime: Date.now() - startTime,
+      });
+      return result;
+    }
+
+    await this.creditCharge.commit(handle, { processingTime: Date.now() - startTime });
+    return result;
+  }
 
   /**
    * 生成图像
    */
-  async generateImage(request: ImageGenerationRequest): Promise<AIProviderResponse<ImageResult>> {
+  async generateImage(
+    request: ImageGenerationRequest,
+    caller: AiPublicCaller,
+  ): Promise<AIProviderResponse<ImageResult>> {
     this.logger.log(`Public API: Generating image with model: ${request.model || 'default'}`);
 
     const provider = this.providerFactory.getProvider(request.model);
-    return provider.generateImage(request);
+    return this.charged(
+      caller,
+      resolveImageServiceType('generate', request.model),
+      request.model,
+      () => provider.generateImage(request),
+    );
   }
 
   /**
    * 编辑图像
    */
-  async editImage(request: ImageEditRequest): Promise<AIProviderResponse<ImageResult>> {
+  async editImage(
+    request: ImageEditRequest,
+    caller: AiPublicCaller,
+  ): Promise<AIProviderResponse<ImageResult>> {
     this.logger.log(`Public API: Editing image with model: ${request.model || 'default'}`);
 
     const provider = this.providerFactory.getProvider(request.model);
-    return provider.editImage(request);
+    return this.charged(
+      caller,
+      resolveImageServiceType('edit', request.model),
+      request.model,
+      () => provider.editImage(request),
+      { inputImageCount: 1 },
+    );
   }
 
   /**
    * 融合多张图像
    */
-  async blendImages(request: ImageBlendRequest): Promise<AIProviderResponse<ImageResult>> {
+  async blendImages(
+    request: ImageBlendRequest,
+    caller: AiPublicCaller,
+  ): Promise<AIProviderResponse<ImageResult>> {
     this.logger.log(`Public API: Blending images with model: ${request.model || 'default'}`);
 
     const provider = this.providerFactory.getProvider(request.model);
-    return provider.blendImages(request);
+    return this.charged(
+      caller,
+      resolveImageServiceType('blend', request.model),
+      request.model,
+      () => provider.blendImages(request),
+      { inputImageCount: request.sourceImages?.length },
+    );
   }
 
   /**
    * 分析图像
    */
-  async analyzeImage(request: ImageAnalysisRequest): Promise<AIProviderResponse<AnalysisResult>> {
+  async analyzeImage(
+    request: ImageAnalysisRequest,
+    caller: AiPublicCaller,
+  ): Promise<AIProviderResponse<AnalysisResult>> {
     this.logger.log(`Public API: Analyzing image with model: ${request.model || 'default'}`);
 
     const provider = this.providerFactory.getProvider(request.model);
-    return provider.analyzeImage(request);
+    return this.charged(
+      caller,
+      resolveImageServiceType('analyze', request.model),
+      request.model,
+      () => provider.analyzeImage(request),
+      { scope: 'chat', inputImageCount: 1 },
+    );
   }
 
   /**
    * 文本对话
    */
-  async chat(request: TextChatRequest): Promise<AIProviderResponse<TextResult>> {
+  async chat(
+    request: TextChatRequest,
+    caller: AiPublicCaller,
+  ): Promise<AIProviderResponse<TextResult>> {
     this.logger.log(`Public API: Chat request with model: ${request.model || 'default'}`);
 
     const provider = this.providerFactory.getProvider(request.model);
-    return provider.generateText(request);
+    return this.charged(caller, 'gemini-text', request.model, () =>
+      provider.generateText(request),
+    );
   }
 
   /**
@@ -23,7 +23,8 @@ import { ImageGenerationService, ImageGenerationResult } from './image-generatio
 import { BackgroundRemovalService } from './services/background-removal.service';
 import { ImageTaskService } from './services/image-task.service';
 import { AIProviderFactory } from './ai-provider.factory';
-import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { AllowUserApiKeys, ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { assertApiKeyScope } from '../api-keys/api-key-scopes';
 import { ToolSelectionRequestDto } from './dto/tool-selection.dto';
 import { RemoveBackgroundDto } from './dto/background-removal.dto';
 import {
@@ -57,6 +58,7 @@ import { Sora2VideoService } from './services/sora2-video.service';
 import { VeoVideoService } from './services/veo-video.service';
 import { VideoProviderService } from './services/video-provider.service';
 import { ModelRoutingService } from './services/model-routing.service';
+import { VendorHealthService } from './services/vendor-health.service';
 import { MinimaxSpeechService } from './services/minimax-speech.service';
 import { MinimaxMusicService } from './services/minimax-music.service';
 import { TencentSpeechService } from './services/tencent-speech.service';
@@ -75,6 +77,7 @@ import { GenerationTaskService } from './services/generation-task.service';
 import { VideoProviderRequestDto } from './dto/video-provider.dto';
 import { AnalyzeVideoDto } from './dto/video-analysis.dto';
 import { VolcEnhanceVideoDto } from './dto/volc-enhance-video.dto';
+import { CreateVideoComposeDto } from './dto/video-compose.dto';
 import { OssService } from '../oss/oss.service';
 import { GoogleGenAI } from '@google/genai';
 import { spawn } from 'child_process';
@@ -87,6 +90,7 @@ import { TeamCreditLedgerService } from '../team-credits/team-credit-ledger.serv
 import { CreditChargeService, type ChargeHandle } from '../team-credits/credit-charge.service';
 import { PDFParse } from 'pdf-parse';
 import { ReferenceVideoDurationService } from './services/reference-video-duration.service';
+import { VideoComposeService } from './services/video-compose.service';
 import { calculateSeedance20BillingDuration } from './services/seedance20-pricing';
 
 type GenerateImageUrlResult = {
@@ -142,6 +146,8 @@ type BananaRouteSuccessRateStats = {
   successRate: number | null;
 };
 
+// 用户 API Key 只开放给经 withCredits / withCreditsFromGateway 计费并校验 scope 的路由及其任务查询，
+// 逐路由标注 @AllowUserApiKeys()；未标注的路由对用户 API Key 返回 403。
 @ApiTags('ai')
 @UseGuards(ApiKeyOrJwtGuard)
 @Controller('ai')
@@ -525,6 +531,8 @@ export class AiController {
     @Optional() private readonly teamCreditLedger?: TeamCreditLedgerService,
     @Optional() private readonly creditCharge?: CreditChargeService,
     @Optional() private readonly referenceVideoDuration?: ReferenceVideoDurationService,
+    @Optional() private readonly videoComposeService?: VideoComposeService,
+    @Optional() private readonly vendorHealthService?: VendorHealthService,
   ) {}
 
   private extractAccessToken(req: any): string | null {
@@ -858,12 +866,11 @@ export class AiController {
 
   /**
    * 获取用户ID（从JWT或API Key认证）
-   * API Key 认证不扣积分
+   * 静态 AI_API_KEYS 不扣积分；用户自建 API Key 按所有者（团队 key 按团队）计费
    */
   private getUserId(req: any): string | null {
-    // API Key 认证不扣积分
     if (req.apiClient) {
-      return null;
+      return req.apiClient.userId ?? null;
     }
     return req.user?.sub || req.user?.id || null;
   }
@@ -933,6 +940,49 @@ export class AiController {
     return 'gemini-2.5-image';
   }
 
+  /**
+   * 图片请求经模型路由选中托管线路（providerOptions.vendorKey）时，按线路健康度
+   * 取排第一的 vendor；熔断中的线路会被换到同模型下更健康的 vendor。
+   * excludeVendorKeys 为本次请求已失败过的线路，有其他候选时跳过。
+   * 未指定 vendorKey 的请求不改写，保持原有渠道选择。
+   */
+  private async resolveHealthyImageRoute(
+    serviceType: string,
+    providerOptions?: Record<string, any>,
+    excludeVendorKeys: ReadonlySet<string> = new Set(),
+  ): Promise<{ vendorKey: string; providerOptions: Record<string, any> } | null> {
+    const requestedVendorKey =
+      typeof providerOptions?.vendorKey === 'string' ? providerOptions.vendorKey.trim() : '';
+    if (!providerOptions || !requestedVendorKey) return null;
+
+    const candidates = await this.modelRoutingService.resolveImageModelCandidates(
+      serviceType,
+      requestedVendorKey,
+    );
+    // 指定的 vendor 不在该模型托管线路里（渠道直连等），不接管
+    if (!candidates.some((item) => item.vendor.vendorKey === requestedVendorKey)) return null;
+    const route =
+      candidates.find((item) => !excludeVendorKeys.has(item.vendor.vendorKey)) ?? candidates[0];
+
+    const vendorKey = route.vendor.vendorKey;
+    if (vendorKey === requestedVendorKey) {
+      return { vendorKey, providerOptions };
+    }
+    this.logger.warn(
+      `[generate-image] vendor rerouted by health: ${serviceType} ${requestedVendorKey} -> ${vendorKey}`,
+    );
+    return {
+      vendorKey,
+      providerOptions: {
+        ...providerOptions,
+        vendorKey,
+        ...(providerOptions.platformKey
+          ? { platformKey: route.vendor.platformKey || vendorKey }
+          : {}),
+      },
+    };
+  }
+
   private normalizeChannelName(channel: string | null | undefined): string | null {
     if (!channel) return null;
     const value = channel.trim().toLowerCase();
@@ -1802,6 +1852,7 @@ export class AiController {
       onApiUsageId?: (apiUsageId: string) => void;
     },
   ): Promise<T> {
+    assertApiKeyScope(req.apiClient, serviceType);
     const userId = this.getUserId(req);
 
     // 如果没有用户ID（API Key认证）或明确跳过积分，直接执行操作
@@ -1848,6 +1899,7 @@ export class AiController {
         ipAddress: req.ip,
         userAgent: req.headers?.['user-agent'],
         idempotencyKey,
+        ...this.getUsageAttribution(req),
       });
 
       apiUsageId = chargeHandle.apiUsageId;
@@ -1989,11 +2041,11 @@ export class AiController {
    *
    * 与 withCredits 的固定预扣不同：价格只存在于 new-api，后端按 new-api 实际回报的
    * 积分【后扣】。
-   *  (a) 调用前只做余额护栏（>= 最坏情况 SEED_AUDIO_MAX_CREDITS，不是实际扣费）。
+   *  (a) 调用前只做余额与项目预算护栏（按最坏情况 SEED_AUDIO_MAX_CREDITS，不是实际扣费）。
    *  (b) 执行 op()，它返回 { result, consumedCredits }（来自 new-api 响应头）。
    *  (c) 成功后用 deductExact 精确扣 consumedCredits。
    *  (d) 抛错则一分不扣（无预扣即无需退款）。
-   * API Key 认证路径与 withCredits 一致——跳过扣费。
+   * 静态 AI_API_KEYS 认证路径与 withCredits 一致——跳过扣费。
    */
   private async withCreditsFromGateway<T>(
     req: any,
@@ -2001,9 +2053,10 @@ export class AiController {
     op: () => Promise<{ result: T; consumedCredits?: number }>,
     requestParams?: Record<string, any>,
   ): Promise<T> {
+    assertApiKeyScope(req.apiClient, serviceType);
     const userId = this.getUserId(req);
 
-    // API Key 认证不扣积分（与 withCredits 相同规则）。
+    // 静态 AI_API_KEYS 认证不扣积分（与 withCredits 相同规则）。
     if (!userId) {
       this.logger.debug('API Key authentication - skipping gateway credits deduction');
       const { result } = await op();
@@ -2019,7 +2072,23 @@ export class AiController {
       (await this.isNonPersonalTeam(teamId))
     );
 
-    // (a) 最坏情况护栏（不是实际扣费）。
+    const sanitizedRequestParams = {
+      ...(requestParams
+        ? Object.fromEntries(
+            Object.entries(requestParams).filter(([, value]) => value !== undefined),
+          )
+        : {}),
+      // 团队出资：打 teamId 标记（个人「积分使用记录」据此过滤）。
+      ...(isTeamProject && teamId ? { teamId } : {}),
+    };
+    const usageAttribution = this.getUsageAttribution(req);
+
+    // (a) 最坏情况护栏（不是实际扣费）：余额与项目预算。
+    await this.creditsService.assertProjectBudgetHeadroom(userId, {
+      requestParams: sanitizedRequestParams,
+      ...usageAttribution,
+      worstCaseCredits: SEED_AUDIO_MAX_CREDITS,
+    });
     if (isTeamProject && teamId) {
       const account = await this.prisma.teamCreditAccount.findUnique({
         where: { teamId },
@@ -2055,16 +2124,6 @@ export class AiController {
       return result;
     }
 
-    const sanitizedRequestParams = {
-      ...(requestParams
-        ? Object.fromEntries(
-            Object.entries(requestParams).filter(([, value]) => value !== undefined),
-          )
-        : {}),
-      // 团队出资：打 teamId 标记（个人「积分使用记录」据此过滤）。
-      ...(isTeamProject && teamId ? { teamId } : {}),
-    };
-
     // (c) 精确后扣 new-api 回报的积分。
     const deducted = await this.creditsService.deductExact(userId, teamId ?? null, amount, {
       serviceType,
@@ -2072,7 +2131,9 @@ export class AiController {
       requestParams: sanitizedRequestParams,
       ipAddress: req.ip,
       userAgent: req.headers?.['user-agent'],
+      ...usageAttribution,
     });
+    this.creditCharge?.notifyProjectBudgetAlert(deducted.projectBudgetAlert, userId);
 
     // 团队项目：deductExact 只落用量记录，团队积分在此 reserve+deduct。
     if (isTeamProject && teamId) {
@@ -3480,6 +3541,7 @@ export class AiController {
     return fallback;
   }
 
+  @AllowUserApiKeys()
   @Post('tool-selection')
   async toolSelection(@Body() dto: ToolSelectionRequestDto, @Req() req: any) {
     const allowVector = this.hasVectorIntent(dto.prompt);
@@ -3562,6 +3624,7 @@ export class AiController {
     }, undefined, undefined, true, this.buildCreditRequestParams(providerName));
   }
 
+  @AllowUserApiKeys()
   @Post('generate-image')
   async generateImage(@Body() dto: GenerateImageDto, @Req() req: any): Promise<GenerateImageUrlResult> {
     if (!dto.imageSize && dto.resolution) dto.imageSize = dto.resolution.toUpperCase();
@@ -3604,6 +3667,7 @@ export class AiController {
         { traceId, parentRequestId },
         dto.nodeId,
         this.getTeamId(req),
+        this.getUsageAttribution(req).projectId,
       );
       return { taskId: task.id, status: task.status } as any;
     }
@@ -3674,6 +3738,7 @@ export class AiController {
       const result = await this.withCredits(req, serviceType, model, async () => {
         const maxAttempts = 3;
         const retryDelaysMs = [500, 1200];
+        const failedImageVendorKeys = new Set<string>();
 
         const shouldRetryOutputError = (error: unknown): boolean => {
           if (error instanceof HttpException) {
@@ -3696,6 +3761,15 @@ export class AiController {
         };
 
         for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+          // 每次尝试都重新选线：上一次失败已计入线路健康度，可能已触发熔断
+          const healthyImageRoute = await this.resolveHealthyImageRoute(
+            serviceType,
+            dto.providerOptions,
+            failedImageVendorKeys,
+          );
+          const imageProviderOptions = healthyImageRoute?.providerOptions ?? dto.providerOptions;
+          const attemptStartedAt = Date.now();
+          let upstreamSucceeded = false;
           try {
             if (attempt > 1) {
               this.logger.warn(`[generate-image] 重试生成第 ${attempt}/${maxAttempts} 次`);
@@ -3711,7 +3785,7 @@ export class AiController {
                 imageSize: dto.imageSize,
                 thinkingLevel: dto.thinkingLevel,
                 outputFormat: dto.outputFormat,
-                providerOptions: dto.providerOptions,
+                providerOptions: imageProviderOptions,
                 enableWebSearch: dto.enableWebSearch,
                 imageUrls: normalizedImageUrlsForProvider.length
                   ? normalizedImageUrlsForProvider
@@ -3723,6 +3797,16 @@ export class AiController {
               });
 
               if (result.success && result.data) {
+                upstreamSucceeded = true;
+                if (healthyImageRoute) {
+                  this.vendorHealthService?.recordDispatch({
+                    modelKey: serviceType,
+                    vendorKey: healthyImageRoute.vendorKey,
+                    ok: true,
+                    latencyMs: Date.now() - attemptStartedAt,
+                    countSample: true,
+                  });
+                }
                 const responseMetadata: Record<string, any> = {
                   ...(result.data.metadata || {}),
                   ...(dto.enableWebSearch ? { webSearchEnabled: true } : {}),
@@ -3794,6 +3878,17 @@ export class AiController {
               throw new Error(result.error?.message || 'Failed to generate image');
             }
           } catch (error) {
+            // 上游已成功、后续转存失败的不算线路故障
+            if (healthyImageRoute && !upstreamSucceeded) {
+              this.vendorHealthService?.recordDispatch({
+                modelKey: serviceType,
+                vendorKey: healthyImageRoute.vendorKey,
+                ok: false,
+                error,
+                countSample: true,
+              });
+              failedImageVendorKeys.add(healthyImageRoute.vendorKey);
+            }
             if (attempt < maxAttempts && shouldRetryOutputError(error)) {
               const delay =
                 retryDelaysMs[attempt - 1] ??
@@ -3865,6 +3960,7 @@ export class AiController {
     }
   }
 
+  @AllowUserApiKeys()
   @Post('edit-image')
   async editImage(@Body() dto: EditImageDto, @Req() req: any): Promise<ImageGenerationResult> {
     if (!dto.imageSize && dto.resolution) dto.imageSize = dto.resolution.toUpperCase();
@@ -4108,6 +4204,7 @@ export class AiController {
     }
   }
 
+  @AllowUserApiKeys()
   @Post('blend-images')
   async blendImages(@Body() dto: BlendImagesDto, @Req() req: any): Promise<ImageGenerationResult> {
     if (!dto.imageSize && dto.resolution) dto.imageSize = dto.resolution.toUpperCase();
@@ -4348,6 +4445,7 @@ export class AiController {
     }
   }
 
+  @AllowUserApiKeys()
   @Post('analyze-image')
   async analyzeImage(@Body() dto: AnalyzeImageDto, @Req() req: any) {
     const providerName = dto.aiProvider && dto.aiProvider !== 'gemini' ? dto.aiProvider : null;
@@ -4541,6 +4639,7 @@ export class AiController {
     }, dto.providerOptions));
   }
 
+  @AllowUserApiKeys()
   @Post('text-chat')
   async textChat(@Body() dto: TextChatDto, @Req() req: any) {
     const providerName = dto.aiProvider && dto.aiProvider !== 'gemini' ? dto.aiProvider : null;
@@ -4595,6 +4694,7 @@ export class AiController {
     }, dto.providerOptions));
   }
 
+  @AllowUserApiKeys()
   @Post('remove-background')
   async removeBackground(@Body() dto: RemoveBackgroundDto, @Req() req: any) {
     this.logger.log('🎯 Background removal request received');
@@ -4669,6 +4769,7 @@ export class AiController {
     return info;
   }
 
+  @AllowUserApiKeys()
   @Post('convert-2d-to-3d')
   async convert2Dto3D(@Body() dto: Convert2Dto3DDto, @Req() req: any) {
     this.logger.log('🎨 2D to 3D conversion request received');
@@ -4702,9 +4803,12 @@ export class AiController {
     }));
   }
 
+  @AllowUserApiKeys()
   @Post('convert-2d-to-3d-async')
   async convert2Dto3DAsync(@Body() dto: Convert2Dto3DDto, @Req() req: any) {
     this.logger.log('🎨 Hunyuan 3D async conversion request received');
+    // 实际计费在后台任务里；作用域先在入队前校验，避免用户 API Key 拿到注定失败的任务
+    assertApiKeyScope(req.apiClient, 'convert-2d-to-3d');
 
     const ownerId = this.getAsync3DTaskOwner(req);
     const clientRequestId = dto.clientRequestId?.trim() || crypto.randomUUID();
@@ -4774,6 +4878,7 @@ export class AiController {
     };
   }
 
+  @AllowUserApiKeys()
   @Get('convert-2d-to-3d/task/:taskId')
   async queryConvert2Dto3DAsyncTask(
     @Param('taskId') taskId: string,
@@ -4782,6 +4887,7 @@ export class AiController {
     return this.queryAsync3DTask(taskId, req, 'hunyuan3d', '混元 3D 生成失败');
   }
 
+  @AllowUserApiKeys()
   @Post('convert-seed3d')
   async convertSeed3D(@Body() dto: Convert2Dto3DDto, @Req() req: any) {
     this.logger.log('🎨 Seed3D conversion request received');
@@ -4814,9 +4920,11 @@ export class AiController {
     }));
   }
 
+  @AllowUserApiKeys()
   @Post('convert-seed3d-async')
   async convertSeed3DAsync(@Body() dto: Convert2Dto3DDto, @Req() req: any) {
     this.logger.log('🎨 Seed3D async conversion request received');
+    assertApiKeyScope(req.apiClient, 'convert-2d-to-3d');
 
     const taskId = `async-seed3d-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
     if (this.generationTaskService) {
@@ -4841,6 +4949,7 @@ export class AiController {
     };
   }
 
+  @AllowUserApiKeys()
   @Get('seed3d/task/:taskId')
   async querySeed3DAsyncTask(@Param('taskId') taskId: string, @Req() req: any) {
     return this.queryAsync3DTask(taskId, req, 'seed3d', 'Seed3D 生成失败');
@@ -5125,6 +5234,7 @@ export class AiController {
     });
   }
 
+  @AllowUserApiKeys()
   @Post('expand-image')
   async expandImage(@Body() dto: ExpandImageDto, @Req() req: any) {
     this.logger.log('🖼️ Expand image request received');
@@ -5231,6 +5341,7 @@ export class AiController {
     }
   }
 
+  @AllowUserApiKeys()
   @Post('generate-video')
   async generateVideo(@Body() dto: GenerateVideoDto, @Req() req: any) {
     const quality = dto.quality === 'sd' ? 'sd' : 'hd';
@@ -5360,10 +5471,12 @@ export class AiController {
    * 立即返回 taskId，前端通过轮询 /ai/sora2/video/:taskId 查询进度
    * 解决线上反向代理超时问题（504 Gateway Timeout）
    */
+  @AllowUserApiKeys()
   @Post('generate-video-async')
   async generateVideoAsync(@Body() dto: GenerateVideoDto, @Req() req: any) {
     const quality = dto.quality === 'sd' ? 'sd' : 'hd';
     const serviceType: ServiceType = quality === 'sd' ? 'sora-sd' : 'sora-hd';
+    assertApiKeyScope(req.apiClient, serviceType);
     const selectedSoraModel =
       dto.model === 'sora-2' || dto.model === 'sora-2-pro'
         ? dto.model
@@ -5698,6 +5811,7 @@ export class AiController {
     return this.sora2VideoService.queryCharacterTask(taskId.trim());
   }
 
+  @AllowUserApiKeys()
   @Get('sora2/video/:taskId')
   async querySora2VideoTask(@Param('taskId') taskId: string) {
     if (!taskId || !taskId.trim()) {
@@ -5769,6 +5883,7 @@ export class AiController {
     return this.resolveSeedance2CombinedAccess(userId, req);
   }
 
+  @AllowUserApiKeys()
   @Post('generate-video-provider')
   async generateVideoProvider(@Body() dto: VideoProviderRequestDto, @Req() req: any) {
     const userId = this.getUserId(req);
@@ -5816,6 +5931,7 @@ export class AiController {
       }
     }
     const serviceType = this.resolveVideoProviderServiceType(effectiveDto);
+    assertApiKeyScope(req.apiClient, 'video');
 
     // 如果没有用户ID（API Key认证），直接执行操作
     if (!userId) {
@@ -5863,6 +5979,7 @@ export class AiController {
       ipAddress: req.ip,
       userAgent: req.headers?.['user-agent'],
       idempotencyKey,
+      ...this.getUsageAttribution(req),
     });
 
     const apiUsageId = chargeHandle.apiUsageId;
@@ -6031,12 +6148,13 @@ export class AiController {
 
     try {
       // 先校验归属并标记失败（仅允许当前用户操作自己的记录）
-      await this.creditsService.markApiUsageFailedForUser(
+      const failedUsage = await this.creditsService.markApiUsageFailedForUser(
         userId,
         apiUsageId,
         '视频生成任务失败',
         0,
       );
+      this.vendorHealthService?.recordTaskOutcome(failedUsage);
 
       // 团队任务：无个人积分需退还（且 refundCredits 会错误地把积分加进个人账户），只释放团队预留。
       const teamHandle = await this.creditCharge!.resolveHandle(apiUsageId);
@@ -6173,17 +6291,19 @@ export class AiController {
       resolvedTokenUsage.outputTokens,
     );
 
-    await this.creditsService.markApiUsageSuccessForUser(
+    const succeededUsage = await this.creditsService.markApiUsageSuccessForUser(
       userId,
       apiUsageId,
       processingTime,
     );
+    this.vendorHealthService?.recordTaskOutcome(succeededUsage);
     return { success: true };
   }
 
   /**
    * 查询视频生成任务状态
    */
+  @AllowUserApiKeys()
   @Get('video-task/:provider/:taskId')
   async queryVideoTask(
     @Param('provider') provider: 'kling' | 'kling-2.6' | 'kling-o3' | 'vidu' | 'viduq3-pro' | 'doubao',
@@ -6289,6 +6409,7 @@ export class AiController {
         ipAddress: req.ip,
         userAgent: req.headers?.['user-agent'],
         idempotencyKey: this.extractIdempotencyKey(req, creditRequestParams),
+        ...this.getUsageAttribution(req),
       });
       apiUsageId = chargeHandle.apiUsageId;
     }
@@ -6387,6 +6508,51 @@ export class AiController {
     }
   }
 
+  /**
+   * 服务端视频合成（浏览器 WebAV 合成的替代路径）：排队执行 ffmpeg，成片上传 OSS。
+   * 立即返回 taskId，前端轮询 video-compose/task/:taskId 获取进度与结果。
+   */
+  @Post('video-compose')
+  @AllowUserApiKeys()
+  async createVideoComposeTask(@Body() dto: CreateVideoComposeDto, @Req() req: any) {
+    assertApiKeyScope(req.apiClient, 'video');
+    const userId = this.getUserId(req);
+    return this.requireVideoComposeService().submit(
+      this.getAsync3DTaskOwner(req),
+      dto,
+      userId
+        ? {
+            userId,
+            role: req.user?.role,
+            teamId: this.getTeamId(req),
+            usageProjectId: this.getUsageAttribution(req).projectId,
+            ipAddress: req.ip,
+            userAgent: req.headers?.['user-agent'],
+            idempotencyKey: this.extractIdempotencyKey(req),
+          }
+        : undefined,
+    );
+  }
+
+  @Get('video-compose/task/:taskId')
+  @AllowUserApiKeys()
+  async getVideoComposeTask(@Param('taskId') taskId: string, @Req() req: any) {
+    return this.requireVideoComposeService().getStatus(this.getAsync3DTaskOwner(req), taskId);
+  }
+
+  @Post('video-compose/task/:taskId/cancel')
+  @AllowUserApiKeys()
+  async cancelVideoComposeTask(@Param('taskId') taskId: string, @Req() req: any) {
+    return this.requireVideoComposeService().cancel(this.getAsync3DTaskOwner(req), taskId);
+  }
+
+  private requireVideoComposeService(): VideoComposeService {
+    if (!this.videoComposeService) {
+      throw new ServiceUnavailableException('视频合成服务未启用');
+    }
+    return this.videoComposeService;
+  }
+
   @Get('volc-enhance-video/:taskId')
   async queryVolcEnhanceVideoTask(@Param('taskId') taskId: string) {
     const apiKey = (process.env.NEW_API_KEY || process.env.NEW_API_TOKEN || '').trim();
@@ -6621,6 +6787,7 @@ export class AiController {
   /**
    * 生成 Paper.js 代码
    */
+  @AllowUserApiKeys()
   @Post('generate-paperjs')
   async generatePaperJS(@Body() dto: PaperJSGenerateRequestDto, @Req() req: any): Promise<PaperJSGenerateResponseDto> {
     this.logger.log(`📐 Paper.js code generation request: ${dto.prompt.substring(0, 50)}...`);
@@ -6698,6 +6865,7 @@ export class AiController {
     }, undefined, undefined, skipCredits);
   }
 
+  @AllowUserApiKeys()
   @Post('img2vector')
   async img2Vector(@Body() dto: Img2VectorRequestDto, @Req() req: any): Promise<Img2VectorResponseDto> {
     this.logger.log(`🖼️ Image to vector conversion request`);
@@ -6852,6 +7020,7 @@ export class AiController {
   /**
    * DashScope Wan2.6-t2v proxy endpoint
    */
+  @AllowUserApiKeys()
   @Post('dashscope/generate-wan26-t2v')
   async generateWan26T2VViaDashscope(@Body() body: any, @Req() req: any) {
     return this.withCredits(req, 'wan26-video', 'wan2.6-t2v', async () => {
@@ -6949,6 +7118,7 @@ export class AiController {
   /**
    * DashScope Wan2.6-i2v proxy endpoint
    */
+  @AllowUserApiKeys()
   @Post('dashscope/generate-wan2-6-i2v')
   async generateWan26I2VViaDashscope(@Body() body: any, @Req() req: any) {
     return this.withCredits(req, 'wan26-video', 'wan2.6-i2v', async () => {
@@ -7063,6 +7233,7 @@ export class AiController {
   /**
    * DashScope Wan2.7-i2v proxy endpoint
    */
+  @AllowUserApiKeys()
   @Post('dashscope/generate-wan2-7-i2v')
   async generateWan27I2VViaDashscope(@Body() body: any, @Req() req: any) {
     return this.withCredits(req, 'wan27-video', 'wan2.7-i2v', async () => {
@@ -7161,6 +7332,7 @@ export class AiController {
   /**
    * DashScope 任务状态查询接口（前端轮询用）
    */
+  @AllowUserApiKeys()
   @Get('dashscope/task/:taskId')
   async getDashscopeTaskStatus(@Param('taskId') taskId: string) {
     const dashKey = process.env.DASHSCOPE_API_KEY;
@@ -7205,6 +7377,7 @@ export class AiController {
   /**
    * DashScope Wan2.6-r2v proxy endpoint
    */
+  @AllowUserApiKeys()
   @Post('dashscope/generate-wan2-6-r2v')
   async generateWan26R2VViaDashscope(@Body() body: any, @Req() req: any) {
     return this.withCredits(req, 'wan26-r2v', 'wan2.6-r2v', async () => {
@@ -7411,6 +7584,7 @@ export class AiController {
     });
   }
 
+  @AllowUserApiKeys()
   @Post('dashscope/generate-happyhorse-video')
   async generateHappyhorseVideoViaDashscope(@Body() body: any, @Req() req: any) {
     const model = this.resolveHappyhorseModelOrThrow(body);
@@ -7529,6 +7703,7 @@ export class AiController {
   /**
    * 视频分析 - 使用 Gemini File API 分析视频内容
    */
+  @AllowUserApiKeys()
   @Post('analyze-video')
   async analyzeVideo(@Body() dto: AnalyzeVideoDto, @Req() req: any) {
     this.logger.log(`🎥 Video analysis request: ${dto.videoUrl?.substring(0, 50)}...`);
@@ -7871,6 +8046,7 @@ export class AiController {
       { traceId, parentRequestId },
       dto.nodeId,
       this.getTeamId(req),
+      this.getUsageAttribution(req).projectId,
     );
 
     return {
@@ -7908,6 +8084,7 @@ export class AiController {
       { traceId, parentRequestId },
       dto.nodeId,
       this.getTeamId(req),
+      this.getUsageAttribution(req).projectId,
     );
 
     return {
@@ -7947,6 +8124,7 @@ export class AiController {
       { traceId, parentRequestId },
       dto.nodeId,
       this.getTeamId(req),
+      this.getUsageAttribution(req).projectId,
     );
 
     return {
@@ -8069,6 +8247,7 @@ export class AiController {
     );
   }
 
+  @AllowUserApiKeys()
   @Post('audio/generate')
   async generateAudio(
     @Body() dto: AudioGenerateDto,
@@ -8096,6 +8275,7 @@ export class AiController {
 
   // ---- 旧路由：薄 shim，构造 AudioGenerateDto 走统一入口；保留原响应关键字段 ----
 
+  @AllowUserApiKeys()
   @Post('tencent-speech')
   async generateTencentSpeech(@Body() dto: TencentSpeechDto, @Req() req: any) {
     return this.runAudioGenerate(
@@ -8137,6 +8317,7 @@ export class AiController {
     return this.tencentSpeechService.queryAsyncSpeechTask(normalizedTaskId);
   }
 
+  @AllowUserApiKeys()
   @Post('minimax-speech')
   async generateSpeech(@Body() dto: MinimaxSpeechDto, @Req() req: any) {
     return this.runAudioGenerate(
@@ -8168,6 +8349,7 @@ export class AiController {
     return this.minimaxSpeechService.queryAsyncSpeechTask(normalizedTaskId);
   }
 
+  @AllowUserApiKeys()
   @Post('minimax-music')
   async generateMusic(@Body() dto: MinimaxMusicDto, @Req() req: any) {
     return this.runAudioGenerate(
@@ -8183,7 +8365,26 @@ export class AiController {
     );
   }
 
+  /**
+   * 用量归属：x-project-id 请求头优先，其次请求体里的 projectId；节点取请求体 nodeId / clientNodeId。
+   * 用户 API Key 调用不归属项目；id 合法性与项目访问权在预扣时校验。
+   */
+  private getUsageAttribution(req: any): { projectId?: string; nodeId?: string } {
+    if (req.apiClient) return {};
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const pick = (...values: unknown[]) =>
+      values.find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+    return {
+      projectId: pick(req.headers?.['x-project-id'], body.projectId),
+      nodeId: pick(body.nodeId, body.clientNodeId),
+    };
+  }
+
   private getTeamId(req: any): string | undefined {
+    // 用户 API Key 的出资方由 key 本身决定，忽略 x-team-id
+    if (req.apiClient) {
+      return req.apiClient.teamId ?? undefined;
+    }
     return req.headers?.['x-team-id'] as string | undefined;
   }
 
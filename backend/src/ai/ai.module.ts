@@ -29,12 +29,14 @@ import { CreditsModule } from '../credits/credits.module';
 import { OssModule } from '../oss/oss.module';
 import { VideoWatermarkService } from './services/video-watermark.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { ProjectsModule } from '../projects/projects.module';
 import { Seedream5Service } from './services/seedream5.service';
 import { MinimaxSpeechService } from './services/minimax-speech.service';
 import { MinimaxMusicService } from './services/minimax-music.service';
 import { TencentSpeechService } from './services/tencent-speech.service';
 import { TencentVodAigcService } from './services/tencent-vod-aigc.service';
 import { ModelRoutingService } from './services/model-routing.service';
+import { VendorHealthService } from './services/vendor-health.service';
 import { TelemetryModule } from '../telemetry/telemetry.module';
 import { TeamCreditsModule } from '../team-credits/team-credits.module';
 import { VolcAssetModule } from '../volc-asset/volc-asset.module';
@@ -45,6 +47,7 @@ import { MinimaxSpeechProvider } from './audio/providers/minimax-speech.provider
 import { MinimaxMusicProvider } from './audio/providers/minimax-music.provider';
 import { TencentDubProvider } from './audio/providers/tencent-dub.provider';
 import { ReferenceVideoDurationService } from './services/reference-video-duration.service';
+import { VideoComposeService } from './services/video-compose.service';
 
 @Module({
   imports: [
@@ -53,6 +56,7 @@ import { ReferenceVideoDurationService } from './services/reference-video-durati
     CreditsModule,
     OssModule,
     PrismaModule,
+    ProjectsModule,
     TelemetryModule,
     TeamCreditsModule,
     VolcAssetModule,
@@ -88,14 +92,16 @@ import { ReferenceVideoDurationService } from './services/reference-video-durati
     AudioRoutingService,
     TencentVodAigcService,
     ModelRoutingService,
+    VendorHealthService,
     ImageTaskService,
     ImageTaskQueueService,
     ImageTaskWorkerService,
     GenerationTaskService,
     ReferenceVideoDurationService,
+    VideoComposeService,
     ApiKeyOrJwtGuard,
   ],
   controllers: [AiController, InternalTencentVodController],
-  exports: [AIProviderFactory, CostCalculatorService, BackgroundRemovalService, VeoVideoService, SeedAudioVoiceService, GenerationTaskService],
+  exports: [AIProviderFactory, CostCalculatorService, BackgroundRemovalService, VeoVideoService, SeedAudioVoiceService, GenerationTaskService, VendorHealthService],
 })
 export class AiModule {}
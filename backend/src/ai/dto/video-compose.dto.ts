@@ -0,0 +1,96 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+/** 与前端 ComposeVideoSource 一致：trimStart / trimEnd 单位为微秒。 */
+export class VideoComposeClipDto {
+  @ApiProperty({ description: '片段视频 URL（需为 OSS 白名单域名）' })
+  @IsString()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url!: string;
+
+  @ApiProperty({ description: '片头裁掉的时长（微秒）', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  trimStart?: number;
+
+  @ApiProperty({ description: '片尾裁掉的时长（微秒）', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  trimEnd?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+}
+
+/** 与前端 ComposeAudioTrack 一致：从 0 时刻混入，时长钉成片总长。 */
+export class VideoComposeAudioTrackDto {
+  @ApiProperty({ description: '音轨 URL（需为 OSS 白名单域名）' })
+  @IsString()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url!: string;
+
+  @ApiProperty({ description: '音量 0~2，默认 1', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  volume?: number;
+
+  @ApiProperty({ description: '短于成片时循环铺满，默认 false', required: false })
+  @IsOptional()
+  @IsBoolean()
+  loop?: boolean;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+}
+
+export class CreateVideoComposeDto {
+  @ApiProperty({ type: [VideoComposeClipDto], description: '按顺序拼接的视频片段（2~50 段）' })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => VideoComposeClipDto)
+  clips!: VideoComposeClipDto[];
+
+  @ApiProperty({ type: [VideoComposeAudioTrackDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(8)
+  @ValidateNested({ each: true })
+  @Type(() => VideoComposeAudioTrackDto)
+  audioTracks?: VideoComposeAudioTrackDto[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  projectId?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  nodeId?: string;
+}
@@ -6,6 +6,7 @@ import {
 } from './async-video-task.store';
 import { CollabEventBus } from '../../team-collab/collab-event-bus.service';
 import { CollabEventLog } from '../../team-collab/collab-event-log.service';
+import { NotificationsService } from '../../notifications/notifications.service';
 import {
   CollabEnvelope,
   TaskStatusPayload,
@@ -39,6 +40,10 @@ const VIDEO_PROCESSING_STUCK_MS = Number(
 const IMAGE_PROCESSING_STUCK_MS =
   Number(process.env.IMAGE_TASK_MAX_DURATION_MS ?? 15 * 60 * 1000) + 5 * 60 * 1000;
 const RECONCILE_INTERVAL_MS = 60 * 1000; // 每分钟扫一次，卡死/孤儿任务无需等下次重启即可被判失败
+// 超过该耗时的视频任务结束时发站内通知（用户多半已离开画布）。env LONG_VIDEO_TASK_NOTIFY_MS 可调。
+const LONG_VIDEO_TASK_NOTIFY_MS = Number(
+  process.env.LONG_VIDEO_TASK_NOTIFY_MS ?? 2 * 60 * 1000,
+);
 
 @Injectable()
 export class GenerationTaskService implements OnModuleInit, OnModuleDestroy {
@@ -49,6 +54,7 @@ export class GenerationTaskService implements OnModuleInit, OnModuleDestroy {
     private readonly prisma: PrismaService,
     @Optional() private readonly collabBus?: CollabEventBus,
     @Optional() private readonly collabLog?: CollabEventLog,
+    @Optional() private readonly notifications?: NotificationsService,
   ) {}
 
   async onModuleInit(): Promise<void> {
@@ -141,10 +147,25 @@ export class GenerationTaskService implements OnModuleInit, OnModuleDestroy {
     let projectIdFromDb: string | null = null;
     let nodeIdFromDb: string | null = null;
     let taskType: string | undefined;
+    let before: {
+      metadata: unknown;
+      nodeId: string | null;
+      taskType: string;
+      userId: string;
+      status: string;
+      createdAt: Date;
+    } | null = null;
     try {
-      const before = await this.prisma.videoTask.findUnique({
+      before = await this.prisma.videoTask.findUnique({
         where: { id: taskId },
-        select: { metadata: true, nodeId: true, taskType: true },
+        select: {
+          metadata: true,
+          nodeId: true,
+          taskType: true,
+          userId: true,
+          status: true,
+          createdAt: true,
+        },
       });
       const meta = (before?.metadata as any) ?? null;
       if (meta && typeof meta === 'object' && typeof meta.projectId === 'string') {
@@ -182,6 +203,45 @@ export class GenerationTaskService implements OnModuleInit, OnModuleDestroy {
         error: update.error ?? null,
       });
     }
+
+    if (
+      before &&
+      (update.status === 'succeeded' || update.status === 'failed') &&
+      before.status !== 'succeeded' &&
+      before.status !== 'failed'
+    ) {
+      await this.notifyLongTaskFinished(taskId, before, update, projectIdFromDb);
+    }
+  }
+
+  /** 长视频任务结束（成功或失败）时通知发起人；短任务用户仍在画布上，不打扰。 */
+  private async notifyLongTaskFinished(
+    taskId: string,
+    task: { userId: string; nodeId: string | null; taskType: string; createdAt: Date },
+    update: UpdateVideoTaskParams,
+    projectId: string | null,
+  ): Promise<void> {
+    if (!this.notifications) return;
+    const finishedAt = update.completedAt ?? new Date();
+    const durationMs = finishedAt.getTime() - task.createdAt.getTime();
+    if (durationMs < LONG_VIDEO_TASK_NOTIFY_MS) return;
+    const preview = this.extractResultPreview(update.result);
+    await this.notifications.notify({
+      userId: task.userId,
+      type: 'task_completed',
+      data: {
+        taskId,
+        taskType: task.taskType,
+        status: update.status,
+        projectId,
+        nodeId: task.nodeId,
+        durationMs,
+        url: preview?.url ?? null,
+        thumbnailUrl: preview?.thumbnailUrl ?? null,
+        error: update.error ?? null,
+      },
+      dedupeKey: `task_completed:${taskId}`,
+    });
   }
 
   /**
@@ -563,6 +563,7 @@ export class ImageTaskService {
     traceContext?: PersistedTraceContext,
     nodeId?: string,
     teamId?: string,
+    usageProjectId?: string,
   ) {
     this.assertRemoteInputAssets(type, requestData || {});
     const persistedTraceContext = captureTraceContext(traceContext);
@@ -574,6 +575,8 @@ export class ImageTaskService {
       traceFlags: persistedTraceContext.traceFlags ?? 1,
       // 团队上下文随 payload 落 DB requestData，worker 侧据此走团队积分（请求头此时已不可用）。
       teamId: teamId ?? null,
+      // 用量归属的项目（x-project-id），worker 预扣时据此记账与检查项目预算。
+      usageProjectId: usageProjectId ?? null,
     };
 
     // 生成 taskId，完整 payload 进队列，DB 写入推迟到 worker 侧执行（削峰）
@@ -891,6 +894,10 @@ export class ImageTaskService {
                 inputImageCount,
                 outputImageCount,
                 requestParams: asyncCreditRequestParams,
+                projectId: [taskRequestData?.usageProjectId, taskRequestData?.projectId].find(
+                  (value): value is string => typeof value === 'string',
+                ),
+                nodeId: task.nodeId ?? undefined,
               });
               effectiveApiUsageId = chargeHandle.apiUsageId;
               this.logger.debug(
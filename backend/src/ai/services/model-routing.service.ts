@@ -1,5 +1,6 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { forwardRef, Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { VendorHealthService } from './vendor-health.service';
 import type { ManagedPricingBook } from './model-pricing-resolver';
 import {
   SEEDANCE20_DISCOUNT_CREDITS,
@@ -1231,7 +1232,12 @@ export const DEFAULT_MODEL_PROVIDER_MAPPING_V2: ModelProviderMappingV2 = {
 export class ModelRoutingService {
   private readonly logger = new Logger(ModelRoutingService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional()
+    @Inject(forwardRef(() => VendorHealthService))
+    private readonly vendorHealthService?: VendorHealthService,
+  ) {}
 
   private mergeMetadataWithFallback<T extends Record<string, any>>(
     fallback: T,
@@ -1731,6 +1737,25 @@ export class ModelRoutingService {
   async resolveVideoModelCandidates(
     modelKey: string,
     preferredVendorKey?: string,
+  ): Promise<ResolvedManagedModelRoute[]> {
+    return this.resolveManagedModelCandidates(modelKey, preferredVendorKey);
+  }
+
+  async resolveImageModelCandidates(
+    modelKey: string,
+    preferredVendorKey?: string,
+  ): Promise<ResolvedManagedModelRoute[]> {
+    return this.resolveManagedModelCandidates(modelKey, preferredVendorKey, 'image');
+  }
+
+  /**
+   * 候选线路：指定 vendor > 默认 vendor > 配置顺序，再按线路健康度分层重排
+   * （熔断中的放最后兜底，同层保持原顺序）。
+   */
+  private async resolveManagedModelCandidates(
+    modelKey: string,
+    preferredVendorKey?: string,
+    taskType?: string,
   ): Promise<ResolvedManagedModelRoute[]> {
     const normalizedKey = typeof modelKey === 'string' ? modelKey.trim() : '';
     if (!normalizedKey) return [];
@@ -1748,7 +1773,8 @@ export class ModelRoutingService {
         item &&
         item.enabled !== false &&
         typeof item.modelKey === 'string' &&
-        item.modelKey.trim() === normalizedKey,
+        item.modelKey.trim() === normalizedKey &&
+        (!taskType || item.taskType === taskType),
     );
     if (!model) return [];
 
@@ -1778,7 +1804,7 @@ export class ModelRoutingService {
       ...enabledVendors.filter((item) => item.vendorKey !== selected.vendorKey),
     ];
 
-    return orderedVendors.map((vendor) => {
+    const candidates = orderedVendors.map((vendor): ResolvedManagedModelRoute => {
       const platform =
         vendor.platformKey && platformMap.has(vendor.platformKey)
           ? platformMap.get(vendor.platformKey)
@@ -1800,5 +1826,12 @@ export class ModelRoutingService {
         route: mergedVendor.route === 'tencent_vod' ? 'tencent_vod' : 'legacy',
       };
     });
+
+    if (!this.vendorHealthService) return candidates;
+    return this.vendorHealthService.rankVendors(
+      normalizedKey,
+      candidates,
+      (candidate) => candidate.vendor.vendorKey,
+    );
   }
 }
@@ -0,0 +1,368 @@
+import {
+  forwardRef,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ApiResponseStatus } from '../../credits/dto/credits.dto';
+import {
+  ModelRoutingService,
+  type ManagedModelConfig,
+} from './model-routing.service';
+import {
+  VENDOR_HEALTH_DEFAULTS,
+  classifyVendorError,
+  createVendorCircuit,
+  currentCircuitState,
+  rankByVendorHealth,
+  recordCircuitOutcome,
+  resolveVendorHealthTier,
+  shouldTripOnFailureRate,
+  summarizeVendorSamples,
+  tripVendorCircuit,
+  usageRecordToVendorSample,
+  type VendorCircuit,
+  type VendorCircuitState,
+  type VendorHealthSample,
+  type VendorHealthSummary,
+  type VendorHealthTier,
+  type VendorUsageRecordLike,
+} from './vendor-health';
+
+const REFRESH_INTERVAL_MS = 60_000;
+const REFRESH_BATCH_LIMIT = 5000;
+const MAX_LIVE_SAMPLES_PER_ROUTE = 500;
+const DISPATCH_LATENCY_WINDOW = 50;
+
+type RouteHealthState = {
+  modelKey: string;
+  vendorKey: string;
+  circuit: VendorCircuit;
+  usageSamples: VendorHealthSample[];
+  liveSamples: VendorHealthSample[];
+  dispatchLatencies: number[];
+  lastDispatchAt: number | null;
+};
+
+export interface VendorDispatchOutcome {
+  modelKey: string;
+  vendorKey: string;
+  ok: boolean;
+  latencyMs?: number;
+  error?: unknown;
+  /**
+   * 是否计入成功率样本。视频建任务成功只代表受理，终态稍后经 ApiUsageRecord 回填，
+   * 这里只推进熔断器；图片同步调用的结果即终态，计入样本。
+   */
+  countSample: boolean;
+}
+
+export interface VendorRouteHealth {
+  modelKey: string;
+  modelName: string;
+  taskType: string;
+  vendorKey: string;
+  vendorLabel: string;
+  enabled: boolean;
+  isDefault: boolean;
+  tier: VendorHealthTier;
+  circuit: {
+    state: VendorCircuitState;
+    openUntil: string | null;
+    consecutiveFailures: number;
+    tripCount: number;
+    lastError: string | null;
+  };
+  summary: VendorHealthSummary;
+  avgDispatchLatencyMs: number | null;
+  lastDispatchAt: string | null;
+}
+
+export interface VendorHealthOverview {
+  generatedAt: string;
+  windowMinutes: number;
+  lastRefreshedAt: string | null;
+  routes: VendorRouteHealth[];
+}
+
+/**
+ * 托管模型线路健康度：进程内维护每条 model×vendor 的熔断器与近 1 小时样本，
+ * 供 ModelRoutingService 重排候选、管理后台展示。多实例部署时各实例独立判断，
+ * usage 样本来自同一张表，结论基本一致。
+ */
+@Injectable()
+export class VendorHealthService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VendorHealthService.name);
+  private readonly routes = new Map<string, RouteHealthState>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshing: Promise<void> | null = null;
+  private lastRefreshedAt: number | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(forwardRef(() => ModelRoutingService))
+    private readonly modelRoutingService: ModelRoutingService,
+  ) {}
+
+  onModuleInit(): void {
+    this.refreshTimer = setInterval(() => {
+      void this.refreshFromUsage();
+    }, REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref?.();
+    void this.refreshFromUsage();
+  }
+
+  onModuleDestroy(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+  }
+
+  private routeKey(modelKey: string, vendorKey: string): string {
+    return `${modelKey.trim()}::${vendorKey.trim()}`;
+  }
+
+  private getRoute(modelKey: string, vendorKey: string): RouteHealthState {
+    const key = this.routeKey(modelKey, vendorKey);
+    let state = this.routes.get(key);
+    if (!state) {
+      state = {
+        modelKey: modelKey.trim(),
+        vendorKey: vendorKey.trim(),
+        circuit: createVendorCircuit(Date.now()),
+        usageSamples: [],
+        liveSamples: [],
+        dispatchLatencies: [],
+        lastDispatchAt: null,
+      };
+      this.routes.set(key, state);
+    }
+    return state;
+  }
+
+  private samplesOf(state: RouteHealthState): VendorHealthSample[] {
+    return [...state.usageSamples, ...state.liveSamples];
+  }
+
+  recordDispatch(outcome: VendorDispatchOutcome): void {
+    if (!outcome.modelKey?.trim() || !outcome.vendorKey?.trim()) return;
+    const now = Date.now();
+    const state = this.getRoute(outcome.modelKey, outcome.vendorKey);
+    const errorClass = outcome.ok ? undefined : classifyVendorError(outcome.error);
+    const message = outcome.ok
+      ? null
+      : outcome.error instanceof Error
+      ? outcome.error.message
+      : String(outcome.error ?? '');
+
+    const before = currentCircuitState(state.circuit, now);
+    state.circuit = recordCircuitOutcome(
+      state.circuit,
+      { ok: outcome.ok, errorClass, message: message?.slice(0, 300) || null },
+      now,
+    );
+    state.lastDispatchAt = now;
+
+    if (outcome.ok && typeof outcome.latencyMs === 'number' && outcome.latencyMs >= 0) {
+      state.dispatchLatencies.push(outcome.latencyMs);
+      if (state.dispatchLatencies.length > DISPATCH_LATENCY_WINDOW) {
+        state.dispatchLatencies.shift();
+      }
+    }
+
+    if (outcome.countSample) {
+      state.liveSamples.push({
+        at: now,
+        ok: outcome.ok,
+        latencyMs: outcome.ok ? outcome.latencyMs : undefined,
+        errorClass,
+        source: 'live',
+      });
+      this.pruneLiveSamples(state, now);
+    }
+
+    const after = currentCircuitState(state.circuit, now);
+    if (before !== after) {
+      this.logger.warn(
+        `Vendor circuit ${state.modelKey}/${state.vendorKey}: ${before} -> ${after}${
+          message ? ` (${errorClass}: ${message.slice(0, 120)})` : ''
+        }`,
+      );
+    }
+  }
+
+  /**
+   * 视频任务终态（前端轮询回报 video-task-success / video-task-refund）即时推进熔断器；
+   * 成功率样本仍以下一次 usage 回填为准，避免重复计数。
+   */
+  recordTaskOutcome(record: VendorUsageRecordLike | null | undefined): void {
+    const mapped = record ? usageRecordToVendorSample(record) : null;
+    if (!mapped) return;
+    this.recordDispatch({
+      modelKey: mapped.modelKey,
+      vendorKey: mapped.vendorKey,
+      ok: mapped.sample.ok,
+      error: record?.errorMessage || mapped.sample.errorClass,
+      countSample: false,
+    });
+  }
+
+  private pruneLiveSamples(state: RouteHealthState, now: number): void {
+    const from = now - VENDOR_HEALTH_DEFAULTS.windowMs;
+    state.liveSamples = state.liveSamples
+      .filter((sample) => sample.at >= from)
+      .slice(-MAX_LIVE_SAMPLES_PER_ROUTE);
+  }
+
+  /** 从近 1 小时 ApiUsageRecord 回填视频任务终态；多次调用合并到同一次刷新。 */
+  refreshFromUsage(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefreshFromUsage().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefreshFromUsage(): Promise<void> {
+    const now = Date.now();
+    try {
+      const config = await this.modelRoutingService.getParsedConfig();
+      const videoModelKeys = (config.models || [])
+        .filter((model) => model?.taskType === 'video' && typeof model.modelKey === 'string')
+        .map((model) => model.modelKey.trim())
+        .filter(Boolean);
+      if (!videoModelKeys.length) return;
+
+      const records = await this.prisma.apiUsageRecord.findMany({
+        where: {
+          createdAt: { gte: new Date(now - VENDOR_HEALTH_DEFAULTS.windowMs) },
+          responseStatus: { in: [ApiResponseStatus.SUCCESS, ApiResponseStatus.FAILED] },
+          OR: videoModelKeys.map((modelKey) => ({
+            requestParams: { path: ['modelKey'], equals: modelKey },
+          })),
+        },
+        select: {
+          responseStatus: true,
+          requestParams: true,
+          errorMessage: true,
+          processingTime: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: REFRESH_BATCH_LIMIT,
+      });
+
+      const grouped = new Map<string, VendorHealthSample[]>();
+      for (const record of records) {
+        const mapped = usageRecordToVendorSample(record);
+        if (!mapped) continue;
+        this.getRoute(mapped.modelKey, mapped.vendorKey);
+        const key = this.routeKey(mapped.modelKey, mapped.vendorKey);
+        const samples = grouped.get(key) || [];
+        samples.push(mapped.sample);
+        grouped.set(key, samples);
+      }
+
+      for (const [key, state] of this.routes) {
+        state.usageSamples = grouped.get(key) || [];
+        this.pruneLiveSamples(state, now);
+        if (shouldTripOnFailureRate(state.circuit, this.samplesOf(state), now)) {
+          state.circuit = tripVendorCircuit(state.circuit, now, 'failure rate over threshold');
+          this.logger.warn(
+            `Vendor circuit ${state.modelKey}/${state.vendorKey}: closed -> open (failure rate)`,
+          );
+        }
+      }
+      this.lastRefreshedAt = now;
+    } catch (error) {
+      this.logger.warn(
+        `刷新线路健康度失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  getTier(modelKey: string, vendorKey: string): VendorHealthTier {
+    const state = this.routes.get(this.routeKey(modelKey, vendorKey));
+    if (!state) return 'healthy';
+    const now = Date.now();
+    return resolveVendorHealthTier(
+      summarizeVendorSamples(this.samplesOf(state), now),
+      currentCircuitState(state.circuit, now),
+    );
+  }
+
+  rankVendors<T>(modelKey: string, candidates: T[], vendorKeyOf: (candidate: T) => string): T[] {
+    if (candidates.length < 2) return candidates;
+    return rankByVendorHealth(candidates, (candidate) =>
+      this.getTier(modelKey, vendorKeyOf(candidate)),
+    );
+  }
+
+  async getOverview(): Promise<VendorHealthOverview> {
+    const config = await this.modelRoutingService.getParsedConfig();
+    const now = Date.now();
+    const routes: VendorRouteHealth[] = [];
+    const seen = new Set<string>();
+
+    const describe = (
+      model: ManagedModelConfig | null,
+      modelKey: string,
+      vendorKey: string,
+    ): VendorRouteHealth => {
+      const vendor = model?.vendors?.find((item) => item?.vendorKey === vendorKey);
+      const state = this.routes.get(this.routeKey(modelKey, vendorKey));
+      const circuit = state?.circuit ?? createVendorCircuit(now);
+      const circuitState = currentCircuitState(circuit, now);
+      const summary = summarizeVendorSamples(state ? this.samplesOf(state) : [], now);
+      const latencies = state?.dispatchLatencies ?? [];
+      return {
+        modelKey,
+        modelName: model?.modelName || modelKey,
+        taskType: model?.taskType || 'unknown',
+        vendorKey,
+        vendorLabel: vendor?.label || vendorKey,
+        enabled: model?.enabled !== false && vendor?.enabled !== false,
+        isDefault: Boolean(model?.defaultVendor && model.defaultVendor === vendorKey),
+        tier: resolveVendorHealthTier(summary, circuitState),
+        circuit: {
+          state: circuitState,
+          openUntil:
+            circuitState === 'open' && circuit.openUntil
+              ? new Date(circuit.openUntil).toISOString()
+              : null,
+          consecutiveFailures: circuit.consecutiveFailures,
+          tripCount: circuit.tripCount,
+          lastError: circuit.lastError,
+        },
+        summary,
+        avgDispatchLatencyMs: latencies.length
+          ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length)
+          : null,
+        lastDispatchAt: state?.lastDispatchAt ? new Date(state.lastDispatchAt).toISOString() : null,
+      };
+    };
+
+    for (const model of config.models || []) {
+      if (!model?.modelKey || (model.taskType !== 'video' && model.taskType !== 'image')) continue;
+      for (const vendor of model.vendors || []) {
+        if (!vendor?.vendorKey) continue;
+        seen.add(this.routeKey(model.modelKey, vendor.vendorKey));
+        routes.push(describe(model, model.modelKey, vendor.vendorKey));
+      }
+    }
+    // 配置里已删掉、但窗口内仍有样本的线路也列出来
+    for (const [key, state] of this.routes) {
+      if (seen.has(key)) continue;
+      routes.push(describe(null, state.modelKey, state.vendorKey));
+    }
+
+    return {
+      generatedAt: new Date(now).toISOString(),
+      windowMinutes: Math.round(VENDOR_HEALTH_DEFAULTS.windowMs / 60_000),
+      lastRefreshedAt: this.lastRefreshedAt ? new Date(this.lastRefreshedAt).toISOString() : null,
+      routes,
+    };
+  }
+}
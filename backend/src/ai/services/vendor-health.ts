@@ -0,0 +1,305 @@
+/**
+ * 托管模型线路（vendor）健康度：滑动窗口统计 + 熔断器 + 候选排序。纯函数，状态由
+ * VendorHealthService 持有。
+ *
+ * 样本来源两路，互不重复计数：
+ * - usage：ApiUsageRecord 的最终结果（视频取已拿到 taskId 的任务、图片取同步调用），定时回填；
+ * - live：进程内调度失败（建任务即失败、fallback 前的失败线路），ApiUsageRecord 里看不到。
+ * 调度成功不进样本（结果稍后会以 usage 形式回来），只用于熔断器复位与调度耗时。
+ */
+
+export type VendorErrorClass =
+  | 'timeout'
+  | 'rate_limit'
+  | 'auth'
+  | 'upstream'
+  | 'unavailable'
+  | 'client'
+  | 'unknown';
+
+export type VendorCircuitState = 'closed' | 'open' | 'half_open';
+
+export type VendorHealthTier = 'healthy' | 'degraded' | 'open';
+
+export interface VendorHealthSample {
+  at: number;
+  ok: boolean;
+  latencyMs?: number;
+  errorClass?: VendorErrorClass;
+  source: 'usage' | 'live';
+}
+
+export interface VendorCircuit {
+  state: 'closed' | 'open';
+  /** 熔断到期时间；到期后首个请求放行作为探测（half_open） */
+  openUntil: number | null;
+  /** 最近一次闭合时间，失败率只统计此后的样本，避免旧失败把恢复的线路又打开 */
+  closedAt: number;
+  consecutiveFailures: number;
+  tripCount: number;
+  lastError: string | null;
+}
+
+export interface VendorHealthConfig {
+  windowMs: number;
+  minSamples: number;
+  failureRateToOpen: number;
+  consecutiveFailuresToOpen: number;
+  openBaseMs: number;
+  openMaxMs: number;
+  degradedSuccessRate: number;
+}
+
+export const VENDOR_HEALTH_DEFAULTS: VendorHealthConfig = {
+  windowMs: 60 * 60_000,
+  minSamples: 5,
+  failureRateToOpen: 0.5,
+  consecutiveFailuresToOpen: 3,
+  openBaseMs: 60_000,
+  openMaxMs: 15 * 60_000,
+  degradedSuccessRate: 0.8,
+};
+
+export interface VendorHealthSummary {
+  totalSamples: number;
+  successes: number;
+  failures: number;
+  /** 0~1；样本为 0 时为 null */
+  successRate: number | null;
+  p50LatencyMs: number | null;
+  p90LatencyMs: number | null;
+  errorClasses: Partial<Record<VendorErrorClass, number>>;
+}
+
+const ERROR_CLASS_PATTERNS: Array<[VendorErrorClass, RegExp]> = [
+  ['client', /(content.?policy|sensitive|审核|违规|敏感|invalid.?param|参数|bad.?request|\b400\b|\b422\b)/i],
+  ['rate_limit', /(rate.?limit|too many requests|\b429\b|限流|频率|quota|配额|并发)/i],
+  ['auth', /(unauthori[sz]ed|forbidden|invalid.?api.?key|\b401\b|\b403\b|鉴权|签名|余额不足|insufficient)/i],
+  ['timeout', /(timeout|timed out|etimedout|超时|abort)/i],
+  ['unavailable', /(暂不支持|未配置|未找到|不可用|unavailable|not support|no available channel|无可用渠道|\b503\b)/i],
+  ['upstream', /(\b5\d\d\b|bad gateway|econnreset|socket hang up|network|upstream|internal server error)/i],
+];
+
+/** 按错误文案/HTTP 状态粗分错误类别；client 类（参数/审核）是请求本身的问题，不算线路故障。 */
+export function classifyVendorError(error: unknown): VendorErrorClass {
+  const status =
+    error && typeof error === 'object' && typeof (error as any).getStatus === 'function'
+      ? Number((error as any).getStatus())
+      : Number((error as any)?.status ?? (error as any)?.statusCode);
+  if (status === 429) return 'rate_limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 || status === 422) return 'client';
+  if (status === 503) return 'unavailable';
+  if (status >= 500 && status < 600) return 'upstream';
+
+  const message =
+    error instanceof Error ? error.message : typeof error === 'string' ? error : String(error ?? '');
+  for (const [errorClass, pattern] of ERROR_CLASS_PATTERNS) {
+    if (pattern.test(message)) return errorClass;
+  }
+  return 'unknown';
+}
+
+export function countsAgainstVendor(errorClass: VendorErrorClass): boolean {
+  return errorClass !== 'client';
+}
+
+export function createVendorCircuit(now: number): VendorCircuit {
+  return {
+    state: 'closed',
+    openUntil: null,
+    closedAt: now,
+    consecutiveFailures: 0,
+    tripCount: 0,
+    lastError: null,
+  };
+}
+
+export function currentCircuitState(circuit: VendorCircuit, now: number): VendorCircuitState {
+  if (circuit.state === 'closed') return 'closed';
+  return circuit.openUntil !== null && now >= circuit.openUntil ? 'half_open' : 'open';
+}
+
+const tripCircuit = (
+  circuit: VendorCircuit,
+  now: number,
+  config: VendorHealthConfig,
+  lastError: string | null,
+): VendorCircuit => {
+  const cooldown = Math.min(config.openBaseMs * 2 ** circuit.tripCount, config.openMaxMs);
+  return {
+    ...circuit,
+    state: 'open',
+    openUntil: now + cooldown,
+    consecutiveFailures: 0,
+    tripCount: circuit.tripCount + 1,
+    lastError,
+  };
+};
+
+/** 一次调度结果推进熔断器：半开探测成功即闭合，失败则以更长冷却重新打开。 */
+export function recordCircuitOutcome(
+  circuit: VendorCircuit,
+  outcome: { ok: boolean; errorClass?: VendorErrorClass; message?: string | null },
+  now: number,
+  config: VendorHealthConfig = VENDOR_HEALTH_DEFAULTS,
+): VendorCircuit {
+  const state = currentCircuitState(circuit, now);
+  if (outcome.ok) {
+    if (state === 'closed') return { ...circuit, consecutiveFailures: 0 };
+    return { ...createVendorCircuit(now), lastError: circuit.lastError };
+  }
+  if (outcome.errorClass && !countsAgainstVendor(outcome.errorClass)) return circuit;
+
+  const message = outcome.message ?? outcome.errorClass ?? null;
+  if (state === 'half_open') return tripCircuit(circuit, now, config, message);
+  if (state === 'open') return { ...circuit, lastError: message };
+
+  const consecutiveFailures = circuit.consecutiveFailures + 1;
+  if (consecutiveFailures >= config.consecutiveFailuresToOpen) {
+    return tripCircuit(circuit, now, config, message);
+  }
+  return { ...circuit, consecutiveFailures, lastError: message };
+}
+
+const percentile = (sorted: number[], p: number): number | null => {
+  if (!sorted.length) return null;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+};
+
+export function summarizeVendorSamples(
+  samples: VendorHealthSample[],
+  now: number,
+  options: { windowMs?: number; since?: number } = {},
+): VendorHealthSummary {
+  const from = Math.max(now - (options.windowMs ?? VENDOR_HEALTH_DEFAULTS.windowMs), options.since ?? 0);
+  const errorClasses: Partial<Record<VendorErrorClass, number>> = {};
+  const latencies: number[] = [];
+  let successes = 0;
+  let failures = 0;
+
+  for (const sample of samples) {
+    if (sample.at < from) continue;
+    if (!sample.ok && sample.errorClass) {
+      errorClasses[sample.errorClass] = (errorClasses[sample.errorClass] ?? 0) + 1;
+      // 请求本身的问题只记类别，不进成功率
+      if (!countsAgainstVendor(sample.errorClass)) continue;
+    }
+    if (sample.ok) successes += 1;
+    else failures += 1;
+    if (sample.ok && typeof sample.latencyMs === 'number' && sample.latencyMs > 0) {
+      latencies.push(sample.latencyMs);
+    }
+  }
+
+  latencies.sort((a, b) => a - b);
+  const totalSamples = successes + failures;
+  return {
+    totalSamples,
+    successes,
+    failures,
+    successRate: totalSamples > 0 ? successes / totalSamples : null,
+    p50LatencyMs: percentile(latencies, 0.5),
+    p90LatencyMs: percentile(latencies, 0.9),
+    errorClasses,
+  };
+}
+
+/** 回填 usage 后按失败率判断是否需要熔断（只看本次闭合之后的样本）。 */
+export function shouldTripOnFailureRate(
+  circuit: VendorCircuit,
+  samples: VendorHealthSample[],
+  now: number,
+  config: VendorHealthConfig = VENDOR_HEALTH_DEFAULTS,
+): boolean {
+  if (currentCircuitState(circuit, now) !== 'closed') return false;
+  const summary = summarizeVendorSamples(samples, now, {
+    windowMs: config.windowMs,
+    since: circuit.closedAt,
+  });
+  return (
+    summary.totalSamples >= config.minSamples &&
+    summary.failures / summary.totalSamples >= config.failureRateToOpen
+  );
+}
+
+export function tripVendorCircuit(
+  circuit: VendorCircuit,
+  now: number,
+  reason: string,
+  config: VendorHealthConfig = VENDOR_HEALTH_DEFAULTS,
+): VendorCircuit {
+  return tripCircuit(circuit, now, config, reason);
+}
+
+export function resolveVendorHealthTier(
+  summary: VendorHealthSummary,
+  circuitState: VendorCircuitState,
+  config: VendorHealthConfig = VENDOR_HEALTH_DEFAULTS,
+): VendorHealthTier {
+  if (circuitState === 'open') return 'open';
+  if (circuitState === 'half_open') return 'degraded';
+  if (
+    summary.successRate !== null &&
+    summary.totalSamples >= config.minSamples &&
+    summary.successRate < config.degradedSuccessRate
+  ) {
+    return 'degraded';
+  }
+  return 'healthy';
+}
+
+const TIER_ORDER: Record<VendorHealthTier, number> = { healthy: 0, degraded: 1, open: 2 };
+
+/**
+ * 按健康分层重排候选：healthy → degraded → open，层内保持原顺序（用户指定 > 默认 > 配置顺序）。
+ * 熔断中的线路不剔除，放到最后兜底，全部线路都坏时仍会尝试。
+ */
+export function rankByVendorHealth<T>(
+  candidates: T[],
+  tierOf: (candidate: T) => VendorHealthTier,
+): T[] {
+  return candidates
+    .map((candidate, index) => ({ candidate, index, tier: TIER_ORDER[tierOf(candidate)] }))
+    .sort((a, b) => a.tier - b.tier || a.index - b.index)
+    .map((item) => item.candidate);
+}
+
+export interface VendorUsageRecordLike {
+  responseStatus: string;
+  requestParams: unknown;
+  errorMessage?: string | null;
+  processingTime?: number | null;
+  createdAt: Date;
+}
+
+/**
+ * ApiUsageRecord → usage 样本。只认已拿到 taskId 且写回了 modelKey/vendorKey 的记录
+ * （视频任务终态）；建任务阶段失败的记录没有 taskId，由 live 样本覆盖，这里跳过避免重复。
+ */
+export function usageRecordToVendorSample(
+  record: VendorUsageRecordLike,
+): { modelKey: string; vendorKey: string; sample: VendorHealthSample } | null {
+  const params =
+    record.requestParams && typeof record.requestParams === 'object'
+      ? (record.requestParams as Record<string, unknown>)
+      : null;
+  const modelKey = typeof params?.modelKey === 'string' ? params.modelKey.trim() : '';
+  const vendorKey = typeof params?.vendorKey === 'string' ? params.vendorKey.trim() : '';
+  if (!params?.taskId || !modelKey || !vendorKey) return null;
+
+  const ok = record.responseStatus === 'success';
+  if (!ok && record.responseStatus !== 'failed') return null;
+  return {
+    modelKey,
+    vendorKey,
+    sample: {
+      at: record.createdAt.getTime(),
+      ok,
+      latencyMs: ok && record.processingTime ? record.processingTime : undefined,
+      errorClass: ok ? undefined : classifyVendorError(record.errorMessage || ''),
+      source: 'usage',
+    },
+  };
+}
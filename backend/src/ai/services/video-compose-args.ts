@@ -0,0 +1,178 @@
+/**
+ * 服务端视频合成的纯逻辑：片段裁剪计划 + ffmpeg 参数构造 + 进度解析。
+ * 语义与前端 composeVideosToBlob 对齐：
+ *  - 片段按顺序拼接，trimStart / trimEnd 单位为微秒，裁完时长 <= 0 的片段跳过；
+ *  - 成片尺寸取第一段，其余片段等比缩放后居中补黑边；
+ *  - 片段自带音轨保留（无音轨的片段补静音）；
+ *  - audioTracks 从 0 时刻混入，音量 0~2，时长钉成片总长（更长截断，loop=true 循环铺满）。
+ */
+
+const US_PER_S = 1_000_000;
+const OUTPUT_FPS = 30;
+const AUDIO_FORMAT = 'aformat=sample_rates=48000:channel_layouts=stereo';
+
+export interface ComposeClipProbe {
+  url: string;
+  durationSec: number;
+  width?: number;
+  height?: number;
+  hasAudio: boolean;
+}
+
+export interface ComposeClipTrim {
+  trimStart?: number;
+  trimEnd?: number;
+}
+
+export interface ComposeSegment {
+  url: string;
+  startSec: number;
+  durationSec: number;
+  hasAudio: boolean;
+}
+
+export interface ComposeAudioInput {
+  url: string;
+  volume?: number;
+  loop?: boolean;
+}
+
+export interface ComposePlan {
+  segments: ComposeSegment[];
+  totalSec: number;
+  width: number;
+  height: number;
+}
+
+const round3 = (value: number) => Number(value.toFixed(3));
+
+/** libx264 + yuv420p 要求宽高为偶数 */
+const toEven = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+
+export function planVideoCompose(
+  probes: ComposeClipProbe[],
+  trims: ComposeClipTrim[],
+): ComposePlan {
+  if (probes.length < 2) {
+    throw new Error('至少需要 2 个视频才能合成');
+  }
+  const first = probes[0];
+  if (!first.width || !first.height) {
+    throw new Error('无法读取第一段视频的分辨率');
+  }
+
+  const segments: ComposeSegment[] = [];
+  probes.forEach((probe, index) => {
+    const trimStartSec = Math.max(0, trims[index]?.trimStart ?? 0) / US_PER_S;
+    const trimEndSec = Math.max(0, trims[index]?.trimEnd ?? 0) / US_PER_S;
+    const durationSec = round3(probe.durationSec - trimStartSec - trimEndSec);
+    if (!(durationSec > 0)) return;
+    segments.push({
+      url: probe.url,
+      startSec: round3(trimStartSec),
+      durationSec,
+      hasAudio: probe.hasAudio,
+    });
+  });
+
+  if (segments.length === 0) {
+    throw new Error('裁剪后没有可用的视频片段');
+  }
+
+  return {
+    segments,
+    totalSec: round3(segments.reduce((sum, seg) => sum + seg.durationSec, 0)),
+    width: toEven(first.width),
+    height: toEven(first.height),
+  };
+}
+
+export function buildVideoComposeFfmpegArgs(
+  plan: ComposePlan,
+  audioTracks: ComposeAudioInput[],
+  outputPath: string,
+): string[] {
+  const { segments, totalSec, width, height } = plan;
+  const inputs: string[] = [];
+  const filters: string[] = [];
+  const concatInputs: string[] = [];
+
+  segments.forEach((seg, i) => {
+    inputs.push('-ss', String(seg.startSec), '-t', String(seg.durationSec), '-i', seg.url);
+    filters.push(
+      `[${i}:v]setpts=PTS-STARTPTS,` +
+        `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${OUTPUT_FPS},format=yuv420p[v${i}]`,
+    );
+    filters.push(
+      seg.hasAudio
+        ? `[${i}:a]asetpts=PTS-STARTPTS,${AUDIO_FORMAT},apad,atrim=duration=${seg.durationSec}[a${i}]`
+        : `anullsrc=r=48000:cl=stereo,atrim=duration=${seg.durationSec}[a${i}]`,
+    );
+    concatInputs.push(`[v${i}][a${i}]`);
+  });
+  filters.push(`${concatInputs.join('')}concat=n=${segments.length}:v=1:a=1[vout][acat]`);
+
+  const trackLabels: string[] = [];
+  audioTracks.forEach((track, j) => {
+    const inputIndex = segments.length + j;
+    if (track.loop === true) inputs.push('-stream_loop', '-1');
+    inputs.push('-i', track.url);
+    const volume = typeof track.volume === 'number' ? Math.min(2, Math.max(0, track.volume)) : 1;
+    filters.push(
+      `[${inputIndex}:a]${AUDIO_FORMAT},volume=${volume},` +
+        `atrim=duration=${totalSec},asetpts=PTS-STARTPTS[t${j}]`,
+    );
+    trackLabels.push(`[t${j}]`);
+  });
+
+  let audioOut = 'acat';
+  if (trackLabels.length > 0) {
+    // normalize=0：与浏览器端叠加混音一致，不按输入数摊薄音量
+    filters.push(
+      `[acat]${trackLabels.join('')}amix=inputs=${trackLabels.length + 1}:` +
+        `duration=first:dropout_transition=0:normalize=0[aout]`,
+    );
+    audioOut = 'aout';
+  }
+
+  return [
+    '-y',
+    '-nostats',
+    ...inputs,
+    '-filter_complex',
+    filters.join(';'),
+    '-map',
+    '[vout]',
+    '-map',
+    `[${audioOut}]`,
+    '-t',
+    String(totalSec),
+    '-c:v',
+    'libx264',
+    '-preset',
+    'veryfast',
+    '-crf',
+    '23',
+    '-c:a',
+    'aac',
+    '-b:a',
+    '192k',
+    '-movflags',
+    '+faststart',
+    '-progress',
+    'pipe:1',
+    outputPath,
+  ];
+}
+
+/**
+ * 解析 `-progress pipe:1` 输出块中的已编码时长，换算成 0~1 的进度。
+ * ffmpeg 的 out_time_ms 实际也是微秒（历史命名），两者取其一。
+ */
+export function parseFfmpegProgress(chunk: string, totalSec: number): number | null {
+  const matches = [...chunk.matchAll(/out_time_(?:us|ms)=(\d+)/g)];
+  const last = matches[matches.length - 1];
+  if (!last || !(totalSec > 0)) return null;
+  return Math.min(1, Math.max(0, Number(last[1]) / US_PER_S / totalSec));
+}
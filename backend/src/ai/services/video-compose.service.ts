@@ -0,0 +1,468 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  Optional,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ChildProcess, spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type OSS from 'ali-oss';
+import { OssService } from '../../oss/oss.service';
+import { ProjectsService } from '../../projects/projects.service';
+import { CreditChargeService, type ChargeHandle } from '../../team-credits/credit-charge.service';
+import { GenerationTaskService } from './generation-task.service';
+import { CreateVideoComposeDto } from '../dto/video-compose.dto';
+import {
+  ComposeClipProbe,
+  buildVideoComposeFfmpegArgs,
+  parseFfmpegProgress,
+  planVideoCompose,
+} from './video-compose-args';
+
+export const VIDEO_COMPOSE_TASK_TYPE = 'video_compose';
+export const VIDEO_COMPOSE_SERVICE_TYPE = 'video-compose';
+
+/** 登录用户 / 用户 API Key 提交时的计费主体；静态 AI_API_KEYS 不传，与 withCredits 一样不扣积分。 */
+export interface VideoComposeBilling {
+  userId: string;
+  role?: string;
+  teamId?: string;
+  usageProjectId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  idempotencyKey?: string;
+}
+
+interface VideoComposeJob {
+  taskId: string;
+  userId: string;
+  projectId?: string;
+  dto: CreateVideoComposeDto;
+  chargeHandle: ChargeHandle | null;
+}
+
+// 同时跑的 ffmpeg 合成数（CPU 密集，默认 1），env VIDEO_COMPOSE_MAX_CONCURRENT 可调。
+const MAX_CONCURRENT = Math.max(1, Number(process.env.VIDEO_COMPOSE_MAX_CONCURRENT) || 1);
+// 单个合成任务的 ffmpeg 上限，需小于 GenerationTaskService 的 processing 卡死阈值（默认 1h）。
+const COMPOSE_TIMEOUT_MS = Number(process.env.VIDEO_COMPOSE_TIMEOUT_MS ?? 30 * 60 * 1000);
+const PROBE_TIMEOUT_MS = 30_000;
+const CANCELLED_MESSAGE = '合成已取消';
+
+/**
+ * 服务端视频合成：浏览器端 WebAV 合成（composeVideosToBlob）的等价实现，
+ * 面向长视频 / 高分辨率，避免前端标签页内存耗尽或关闭页面即中断。
+ *
+ * 任务落 VideoTask（taskType=video_compose），进程内 FIFO 排队执行 ffmpeg，
+ * 成片经 OssService 上传；进度只存在内存，前端按 taskId 轮询。
+ * 提交时预扣积分，成功结算、失败或取消回滚。
+ * 进程重启时排队/执行中的任务由 GenerationTaskService 的卡死巡检判失败。
+ */
+@Injectable()
+export class VideoComposeService implements OnModuleDestroy {
+  private readonly logger = new Logger(VideoComposeService.name);
+  private readonly queue: VideoComposeJob[] = [];
+  private readonly running = new Map<string, ChildProcess | null>();
+  private readonly progress = new Map<string, number>();
+  private readonly cancelled = new Set<string>();
+
+  constructor(
+    private readonly oss: OssService,
+    private readonly generationTasks: GenerationTaskService,
+    private readonly projects: ProjectsService,
+    @Optional() private readonly creditCharge?: CreditChargeService,
+  ) {}
+
+  onModuleDestroy(): void {
+    for (const child of this.running.values()) child?.kill('SIGKILL');
+  }
+
+  async submit(userId: string, dto: CreateVideoComposeDto, billing?: VideoComposeBilling) {
+    for (const clip of dto.clips) this.assertAllowedUrl(clip.url);
+    for (const track of dto.audioTracks ?? []) this.assertAllowedUrl(track.url);
+    // 成片写在 projects/{projectId}/ 下并记到该项目的任务上，先确认调用者能访问该项目
+    if (dto.projectId) {
+      if (!billing) throw new BadRequestException('需要用户认证');
+      await this.projects.assertProjectAccess(billing.userId, dto.projectId, billing.role);
+    }
+
+    const taskId = `video-compose-${randomUUID().replace(/-/g, '')}`;
+    const requestParams = {
+      clipCount: dto.clips.length,
+      audioTrackCount: dto.audioTracks?.length ?? 0,
+    };
+    const chargeHandle = billing
+      ? await this.creditCharge!.begin({
+          userId: billing.userId,
+          teamId: billing.teamId,
+          serviceType: VIDEO_COMPOSE_SERVICE_TYPE,
+          model: 'ffmpeg',
+          requestParams,
+          ipAddress: billing.ipAddress,
+          userAgent: billing.userAgent,
+          idempotencyKey: billing.idempotencyKey,
+          projectId: billing.usageProjectId,
+          nodeId: dto.nodeId,
+        })
+      : null;
+
+    try {
+      await this.generationTasks.createVideoTask({
+        taskId,
+        userId,
+        nodeId: dto.nodeId,
+        taskType: VIDEO_COMPOSE_TASK_TYPE,
+        projectId: dto.projectId,
+        supersedePrevious: false,
+        metadata: {
+          renderer: 'server',
+          ...requestParams,
+          ...(chargeHandle ? { apiUsageId: chargeHandle.apiUsageId } : {}),
+        },
+      });
+    } catch (error) {
+      await this.settle(chargeHandle, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    this.queue.push({ taskId, userId, projectId: dto.projectId, dto, chargeHandle });
+    const queuePosition = this.queue.length;
+    this.drain();
+    return { success: true, taskId, status: 'pending' as const, queuePosition };
+  }
+
+  async getStatus(userId: string, taskId: string) {
+    const task = await this.findOwnedTask(userId, taskId);
+    const result =
+      task.result && typeof task.result === 'object'
+        ? (task.result as Record<string, any>)
+        : {};
+
+    if (task.status === 'succeeded') {
+      return {
+        success: true,
+        taskId,
+        status: 'succeeded' as const,
+        progress: 100,
+        videoUrl: result.videoUrl as string | undefined,
+        durationSec: result.durationSec as number | undefined,
+        width: result.width as number | undefined,
+        height: result.height as number | undefined,
+      };
+    }
+    if (task.status === 'failed') {
+      return {
+        success: false,
+        taskId,
+        status: 'failed' as const,
+        progress: this.progress.get(taskId) ?? 0,
+        error: task.error || '视频合成失败',
+      };
+    }
+
+    const queueIndex = this.queue.findIndex((job) => job.taskId === taskId);
+    const isProcessing = task.status === 'processing' || this.running.has(taskId);
+    return {
+      success: true,
+      taskId,
+      status: isProcessing ? ('processing' as const) : ('pending' as const),
+      progress: this.progress.get(taskId) ?? 0,
+      ...(queueIndex >= 0 ? { queuePosition: queueIndex + 1 } : {}),
+    };
+  }
+
+  async cancel(userId: string, taskId: string) {
+    const task = await this.findOwnedTask(userId, taskId);
+    if (task.status === 'succeeded' || task.status === 'failed') {
+      return { success: false, taskId, status: task.status };
+    }
+
+    this.cancelled.add(taskId);
+    const queueIndex = this.queue.findIndex((job) => job.taskId === taskId);
+    // 还在排队的任务不会再进 run()，在这里退款；执行中的由 run() 的失败分支退款
+    if (queueIndex >= 0) {
+      const [job] = this.queue.splice(queueIndex, 1);
+      await this.settle(job.chargeHandle, CANCELLED_MESSAGE);
+    }
+    this.running.get(taskId)?.kill('SIGKILL');
+
+    await this.generationTasks.updateVideoTask(taskId, {
+      status: 'failed',
+      error: CANCELLED_MESSAGE,
+      completedAt: new Date(),
+    });
+    return { success: true, taskId, status: 'failed' as const };
+  }
+
+  private async findOwnedTask(userId: string, rawTaskId: string) {
+    const taskId = rawTaskId?.trim();
+    if (!taskId) throw new BadRequestException('taskId 不能为空');
+    const task = await this.generationTasks.findVideoTaskById(taskId);
+    if (!task || task.taskType !== VIDEO_COMPOSE_TASK_TYPE) {
+      throw new NotFoundException('合成任务不存在');
+    }
+    if (task.userId !== userId) throw new ForbiddenException('无权访问该任务');
+    return task;
+  }
+
+  private assertAllowedUrl(rawUrl: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(rawUrl);
+    } catch {
+      throw new BadRequestException('素材 URL 格式无效');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new BadRequestException('素材 URL 只支持 http/https 协议');
+    }
+    const hostname = parsed.hostname;
+    const allowed = this.oss
+      .allowedPublicHosts()
+      .some((host) => hostname === host || hostname.endsWith(`.${host}`));
+    if (!allowed) {
+      throw new BadRequestException('素材 URL 域名不在允许列表中，请先上传到项目素材');
+    }
+  }
+
+  private drain(): void {
+    while (this.running.size < MAX_CONCURRENT && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.running.set(job.taskId, null);
+      void this.run(job).finally(() => {
+        this.running.delete(job.taskId);
+        this.cancelled.delete(job.taskId);
+        // 留一会儿给轮询读到最终进度
+        setTimeout(() => this.progress.delete(job.taskId), 5 * 60 * 1000).unref?.();
+        this.drain();
+      });
+    }
+  }
+
+  private async run(job: VideoComposeJob): Promise<void> {
+    const { taskId, dto } = job;
+    const started = Date.now();
+    let tempDir: string | null = null;
+
+    try {
+      tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tanva-compose-'));
+      const outputPath = path.join(tempDir, 'compose.mp4');
+      await this.generationTasks.updateVideoTask(taskId, { status: 'processing' });
+      this.progress.set(taskId, 1);
+
+      const probes: ComposeClipProbe[] = [];
+      for (const clip of dto.clips) {
+        this.throwIfCancelled(taskId);
+        probes.push(await this.probe(clip.url));
+      }
+      const plan = planVideoCompose(probes, dto.clips);
+      this.progress.set(taskId, 5);
+      this.throwIfCancelled(taskId);
+
+      const args = buildVideoComposeFfmpegArgs(plan, dto.audioTracks ?? [], outputPath);
+      this.logger.log(
+        `🎬 Start server compose ${taskId}: ${plan.segments.length} clips, ` +
+          `${dto.audioTracks?.length ?? 0} audio tracks, ${plan.totalSec}s ${plan.width}x${plan.height}`,
+      );
+      await this.runFfmpeg(taskId, args, plan.totalSec, (ratio) => {
+        this.progress.set(taskId, 5 + Math.floor(ratio * 90));
+      });
+      this.throwIfCancelled(taskId);
+
+      if (!fs.existsSync(outputPath)) {
+        throw new ServiceUnavailableException('ffmpeg 未生成输出文件');
+      }
+
+      const dir = job.projectId ? `projects/${job.projectId}/videos` : 'videos/composed';
+      const key = `${dir}/${this.buildDatePrefix()}/compose-${randomUUID().replace(/-/g, '')}.mp4`;
+      const { url } = await this.oss.putStream(key, fs.createReadStream(outputPath), {
+        mime: 'video/mp4',
+        timeout: 300000,
+        meta: { uid: 0, pid: 0 },
+        callback: undefined as unknown as OSS.ObjectCallback,
+      });
+      this.throwIfCancelled(taskId);
+
+      this.progress.set(taskId, 100);
+      await this.generationTasks.updateVideoTask(taskId, {
+        status: 'succeeded',
+        result: {
+          videoUrl: url,
+          key,
+          durationSec: plan.totalSec,
+          width: plan.width,
+          height: plan.height,
+        },
+        completedAt: new Date(),
+      });
+      await this.settle(job.chargeHandle, null, Date.now() - started);
+      this.logger.log(`✅ Server compose done ${taskId}: ${key} (${Date.now() - started}ms)`);
+    } catch (error) {
+      // 取消时 cancel() 已写过 failed；这里再写一次，覆盖与之竞争的 processing 更新
+      const cancelled = this.cancelled.has(taskId);
+      const message = cancelled
+        ? CANCELLED_MESSAGE
+        : error instanceof Error
+          ? error.message
+          : String(error);
+      if (cancelled) {
+        this.logger.log(`Server compose cancelled: ${taskId}`);
+      } else {
+        this.logger.error(`❌ Server compose failed ${taskId}: ${message}`);
+      }
+      await this.generationTasks
+        .updateVideoTask(taskId, {
+          status: 'failed',
+          error: message.slice(0, 500),
+          completedAt: new Date(),
+        })
+        .catch(() => undefined);
+      await this.settle(job.chargeHandle, message, Date.now() - started);
+    } finally {
+      if (tempDir) {
+        await fs.promises.rm(tempDir, { recursive: true, force: true }).catch(() => {
+          this.logger.warn(`清理临时目录失败: ${tempDir}`);
+        });
+      }
+    }
+  }
+
+  /** errorMessage 为 null 表示成功结算，否则回滚预扣；结算出错只记日志，不影响任务状态 */
+  private async settle(
+    handle: ChargeHandle | null,
+    errorMessage: string | null,
+    processingTime = 0,
+  ): Promise<void> {
+    if (!handle || !this.creditCharge) return;
+    try {
+      if (errorMessage === null) {
+        await this.creditCharge.commit(handle, { processingTime });
+      } else {
+        await this.creditCharge.rollback(handle, { errorMessage: errorMessage.slice(0, 500), processingTime });
+      }
+    } catch (error) {
+      this.logger.warn(
+        `视频合成积分结算失败 (apiUsageId=${handle.apiUsageId}): ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private throwIfCancelled(taskId: string): void {
+    if (this.cancelled.has(taskId)) throw new Error(CANCELLED_MESSAGE);
+  }
+
+  private runFfmpeg(
+    taskId: string,
+    args: string[],
+    totalSec: number,
+    onProgress: (ratio: number) => void,
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      this.running.set(taskId, ffmpeg);
+
+      let stderrTail = '';
+      ffmpeg.stderr?.on('data', (chunk) => {
+        stderrTail = `${stderrTail}${chunk.toString()}`.slice(-500);
+      });
+      ffmpeg.stdout?.on('data', (chunk) => {
+        const ratio = parseFfmpegProgress(chunk.toString(), totalSec);
+        if (ratio !== null) onProgress(ratio);
+      });
+
+      const timer = setTimeout(() => {
+        ffmpeg.kill('SIGKILL');
+        reject(new ServiceUnavailableException('ffmpeg timeout'));
+      }, COMPOSE_TIMEOUT_MS);
+
+      ffmpeg.on('error', (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      ffmpeg.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new ServiceUnavailableException(
+              `ffmpeg exited with code ${code}${stderrTail ? `: ${stderrTail}` : ''}`,
+            ),
+          );
+        }
+      });
+    });
+  }
+
+  private probe(url: string): Promise<ComposeClipProbe> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('ffprobe', [
+        '-v',
+        'error',
+        '-show_entries',
+        'format=duration:stream=codec_type,width,height',
+        '-of',
+        'json',
+        url,
+      ]);
+      let stdout = '';
+      let stderr = '';
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error('ffprobe timed out'));
+      }, PROBE_TIMEOUT_MS);
+
+      child.stdout.on('data', (chunk) => {
+        stdout += chunk.toString();
+      });
+      child.stderr.on('data', (chunk) => {
+        stderr = `${stderr}${chunk.toString()}`.slice(-500);
+      });
+      child.on('error', (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(`无法读取视频：${url}${stderr ? ` (${stderr.trim()})` : ''}`));
+          return;
+        }
+        try {
+          const parsed = JSON.parse(stdout) as {
+            format?: { duration?: string };
+            streams?: Array<{ codec_type?: string; width?: number; height?: number }>;
+          };
+          const durationSec = Number(parsed.format?.duration);
+          const video = parsed.streams?.find((s) => s.codec_type === 'video');
+          if (!video || !Number.isFinite(durationSec) || durationSec <= 0) {
+            reject(new Error(`无效的视频文件：${url}`));
+            return;
+          }
+          resolve({
+            url,
+            durationSec,
+            width: video.width,
+            height: video.height,
+            hasAudio: Boolean(parsed.streams?.some((s) => s.codec_type === 'audio')),
+          });
+        } catch {
+          reject(new Error(`ffprobe 输出无法解析：${url}`));
+        }
+      });
+    });
+  }
+
+  private buildDatePrefix(): string {
+    const now = new Date();
+    const yyyy = now.getUTCFullYear();
+    const mm = String(now.getUTCMonth() + 1).padStart(2, '0');
+    const dd = String(now.getUTCDate()).padStart(2, '0');
+    return `${yyyy}/${mm}/${dd}`;
+  }
+}
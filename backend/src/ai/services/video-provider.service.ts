@@ -3,6 +3,7 @@ import {
   BadRequestException,
   Injectable,
   Logger,
+  Optional,
   ServiceUnavailableException,
 } from "@nestjs/common";
 import { VideoProviderRequestDto } from "../dto/video-provider.dto";
@@ -16,6 +17,7 @@ import {
   type ResolvedManagedModelRoute,
 } from "./model-routing.service";
 import type { TencentVodAigcCreateVideoTaskRequest } from "./tencent-vod-aigc.service";
+import { VendorHealthService } from "./vendor-health.service";
 import { VolcAssetService } from "../../volc-asset/volc-asset.service";
 import { isMissingVolcAssetError } from "../../volc-asset/volc-asset-lifecycle.util";
 import {
@@ -226,6 +228,7 @@ export class VideoProviderService {
     private readonly tencentVodAigcService: TencentVodAigcService,
     private readonly modelRoutingService: ModelRoutingService,
     private readonly volcAssetService: VolcAssetService,
+    @Optional() private readonly vendorHealthService?: VendorHealthService,
   ) {}
 
   private getCachedDoubaoVideoUrl(taskId: string): string | null {
@@ -310,8 +313,17 @@ export class VideoProviderService {
     for (let index = 0; index < candidates.length; index += 1) {
       const route = candidates[index];
       const fallbackUsed = index > 0;
+      const startedAt = Date.now();
       try {
         const result = await executor(route);
+        // 建任务成功只代表受理，终态由 ApiUsageRecord 回填，这里只推进熔断器
+        this.vendorHealthService?.recordDispatch({
+          modelKey,
+          vendorKey: route.vendor.vendorKey,
+          ok: true,
+          latencyMs: Date.now() - startedAt,
+          countSample: false,
+        });
         if (fallbackUsed) {
           this.logger.warn(
             `Video generation fallback succeeded for ${modelKey}: vendor=${route.vendor.vendorKey}, route=${route.route}`,
@@ -320,6 +332,13 @@ export class VideoProviderService {
         return this.withExecutionMetadata(result, route, fallbackUsed);
       } catch (error) {
         lastError = error;
+        this.vendorHealthService?.recordDispatch({
+          modelKey,
+          vendorKey: route.vendor.vendorKey,
+          ok: false,
+          error,
+          countSample: true,
+        });
         const canFallback =
           index < candidates.length - 1 && this.shouldFallbackToAlternativeRoute(error);
         this.logger.warn(
@@ -0,0 +1,55 @@
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * 用户 API Key 的作用域：按能力大类授权，而不是按具体模型/接口。
+ * 每次计费调用按 serviceType 归类后校验，未授权直接 403（不预扣积分）。
+ */
+export const API_KEY_SCOPES = ['image', 'video', 'audio', 'chat'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** 鉴权守卫写入 request.apiClient 的调用方信息。 */
+export interface ApiClientContext {
+  /** 用户 API Key 的记录 ID；静态 AI_API_KEYS 没有该字段 */
+  id?: string;
+  /** 静态 AI_API_KEYS 调用时记录原始 key（不计费、不限作用域） */
+  apiKey?: string;
+  /** 计费主体：个人 key = 所有者；团队 key = 创建者（按团队积分出资） */
+  userId?: string;
+  teamId?: string | null;
+  scopes?: ApiKeyScope[];
+  rateLimitPerMinute?: number | null;
+}
+
+const CHAT_PATTERN = /(-text|prompt-optimize|tool-selection|analyze|chat)/;
+const AUDIO_PATTERN = /(speech|music|audio|tts|voice)/;
+const VIDEO_PATTERN = /(video|sora|veo|r2v|seedance|kling|vidu|wan)/;
+
+/** 把计费 serviceType 归类到作用域；无法识别的（生图/编辑/抠图/3D 等）按 image 处理。 */
+export function resolveApiKeyScopeForService(serviceType: string): ApiKeyScope {
+  const normalized = serviceType.toLowerCase();
+  if (CHAT_PATTERN.test(normalized)) return 'chat';
+  if (AUDIO_PATTERN.test(normalized)) return 'audio';
+  if (VIDEO_PATTERN.test(normalized)) return 'video';
+  return 'image';
+}
+
+export function normalizeApiKeyScopes(raw: unknown): ApiKeyScope[] {
+  if (!Array.isArray(raw)) return [];
+  return API_KEY_SCOPES.filter((scope) => raw.includes(scope));
+}
+
+/**
+ * 用户 API Key 调用时校验作用域；JWT 与静态 AI_API_KEYS 调用（没有 scopes）直接放行。
+ */
+export function assertApiKeyScope(
+  apiClient: ApiClientContext | undefined,
+  serviceTypeOrScope: string,
+): void {
+  if (!apiClient?.scopes) return;
+  const scope = (API_KEY_SCOPES as readonly string[]).includes(serviceTypeOrScope)
+    ? (serviceTypeOrScope as ApiKeyScope)
+    : resolveApiKeyScopeForService(serviceTypeOrScope);
+  if (!apiClient.scopes.includes(scope)) {
+    throw new ForbiddenException(`API Key 未授权 ${scope} 作用域`);
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiCookieAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './dto/api-keys.dto';
+
+@ApiTags('api-keys')
+@ApiCookieAuth('access_token')
+@UseGuards(JwtAuthGuard)
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeys: ApiKeysService) {}
+
+  @Get()
+  list(@Req() req: any, @Query('teamId') teamId?: string) {
+    return this.apiKeys.list(req.user.sub, teamId || undefined);
+  }
+
+  @Post()
+  create(@Req() req: any, @Body() dto: CreateApiKeyDto) {
+    return this.apiKeys.create(req.user.sub, dto);
+  }
+
+  @Patch(':id')
+  update(@Req() req: any, @Param('id') id: string, @Body() dto: UpdateApiKeyDto) {
+    return this.apiKeys.update(req.user.sub, id, dto);
+  }
+
+  @Post(':id/rotate')
+  rotate(@Req() req: any, @Param('id') id: string) {
+    return this.apiKeys.rotate(req.user.sub, id);
+  }
+
+  @Delete(':id')
+  async revoke(@Req() req: any, @Param('id') id: string) {
+    await this.apiKeys.revoke(req.user.sub, id);
+    return { ok: true };
+  }
+}
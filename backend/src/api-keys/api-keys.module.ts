@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { TeamCoreModule } from '../team-core/team-core.module';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+
+// 全局模块：ApiKeyOrJwtGuard 在多个模块中作为 provider 使用，需要注入 ApiKeysService
+@Global()
+@Module({
+  imports: [TeamCoreModule],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,337 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import type { ApiKey } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TeamCoreService } from '../team-core/team-core.service';
+import { ApiClientContext, normalizeApiKeyScopes, ApiKeyScope } from './api-key-scopes';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './dto/api-keys.dto';
+
+type RedisClient = any;
+
+const KEY_PREFIX = 'tnv_';
+const DISPLAY_PREFIX_LENGTH = 12;
+const MAX_KEYS_PER_SCOPE = 20;
+// 校验结果缓存：撤销/轮换在本实例立即生效，其他实例最多延迟 VERIFY_CACHE_TTL_MS
+const VERIFY_CACHE_TTL_MS = 30_000;
+const LAST_USED_THROTTLE_MS = 60_000;
+const RATE_LIMIT_WINDOW_SEC = 60;
+const RATE_LIMIT_REDIS_PREFIX = 'api-key:rl:';
+
+export interface ApiKeyDto {
+  id: string;
+  teamId: string | null;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeyWithSecretDto {
+  apiKey: ApiKeyDto;
+  /** 明文 key，仅在创建/轮换时返回一次 */
+  secret: string;
+}
+
+type VerifiedKey = {
+  record: Pick<
+    ApiKey,
+    'id' | 'ownerId' | 'teamId' | 'scopes' | 'rateLimitPerMinute' | 'expiresAt'
+  >;
+  cachedAt: number;
+};
+
+const hashKey = (raw: string): string =>
+  crypto.createHash('sha256').update(raw).digest('hex');
+
+/**
+ * 用户/团队自助管理的 API Key：创建、重命名、调整作用域/过期/限流、轮换、撤销。
+ * 公开 AI API 与 /ai/* 通过 ApiKeyOrJwtGuard 调用 verify + consumeRateLimit，
+ * 计费主体写入 request.apiClient，由 CreditChargeService 按个人/团队积分预扣与退款。
+ */
+@Injectable()
+export class ApiKeysService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ApiKeysService.name);
+  private client: RedisClient | undefined;
+  private readonly verifyCache = new Map<string, VerifiedKey>();
+  private readonly lastUsedWrites = new Map<string, number>();
+  private readonly inMemoryBuckets = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly teamCore: TeamCoreService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const url = this.config.get<string>('REDIS_URL');
+    if (!url) {
+      this.logger.warn('REDIS_URL not configured; API key rate limits run in-process only');
+      return;
+    }
+    try {
+      const IORedis = require('ioredis');
+      this.client = new IORedis(url, { lazyConnect: false, maxRetriesPerRequest: 2 });
+      this.client.on('error', (err: Error) => {
+        this.logger.warn(`ApiKeysService Redis error: ${err.message}`);
+      });
+    } catch (err) {
+      this.logger.warn(`ioredis init failed: ${(err as Error).message}`);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    try {
+      await this.client?.quit();
+    } catch {}
+  }
+
+  // ── helpers ────────────────────────────────────────────────────────────────
+
+  private toDto(key: ApiKey): ApiKeyDto {
+    return {
+      id: key.id,
+      teamId: key.teamId,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: normalizeApiKeyScopes(key.scopes),
+      rateLimitPerMinute: key.rateLimitPerMinute,
+      expiresAt: key.expiresAt?.toISOString() ?? null,
+      lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+      revokedAt: key.revokedAt?.toISOString() ?? null,
+      createdAt: key.createdAt.toISOString(),
+    };
+  }
+
+  private generateSecret(): { secret: string; prefix: string; keyHash: string } {
+    const secret = `${KEY_PREFIX}${crypto.randomBytes(30).toString('base64url')}`;
+    return {
+      secret,
+      prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashKey(secret),
+    };
+  }
+
+  private parseExpiry(value: string | null | undefined): Date | null | undefined {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    const date = new Date(value);
+    if (date.getTime() <= Date.now()) {
+      throw new BadRequestException('过期时间必须晚于当前时间');
+    }
+    return date;
+  }
+
+  /** 个人 key 仅所有者可管理；团队 key 需团队 owner / admin。 */
+  private async assertCanManage(userId: string, teamId: string | null | undefined) {
+    if (teamId) {
+      await this.teamCore.assertRole(teamId, userId, ['owner', 'admin']);
+    }
+  }
+
+  private async getManageableKey(userId: string, id: string): Promise<ApiKey> {
+    const key = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!key || key.revokedAt) throw new NotFoundException('API Key 不存在');
+    if (key.teamId) {
+      await this.assertCanManage(userId, key.teamId);
+    } else if (key.ownerId !== userId) {
+      throw new NotFoundException('API Key 不存在');
+    }
+    return key;
+  }
+
+  private forgetKey(id: string) {
+    for (const [hash, entry] of this.verifyCache) {
+      if (entry.record.id === id) this.verifyCache.delete(hash);
+    }
+  }
+
+  // ── management ────────────────────────────────────────────────────────────
+
+  async list(userId: string, teamId?: string): Promise<ApiKeyDto[]> {
+    if (teamId) await this.assertCanManage(userId, teamId);
+    const keys = await this.prisma.apiKey.findMany({
+      where: teamId
+        ? { teamId, revokedAt: null }
+        : { ownerId: userId, teamId: null, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+    return keys.map((key) => this.toDto(key));
+  }
+
+  async create(userId: string, dto: CreateApiKeyDto): Promise<ApiKeyWithSecretDto> {
+    const teamId = dto.teamId || null;
+    await this.assertCanManage(userId, teamId);
+    const activeCount = await this.prisma.apiKey.count({
+      where: teamId
+        ? { teamId, revokedAt: null }
+        : { ownerId: userId, teamId: null, revokedAt: null },
+    });
+    if (activeCount >= MAX_KEYS_PER_SCOPE) {
+      throw new BadRequestException(`最多创建 ${MAX_KEYS_PER_SCOPE} 个 API Key`);
+    }
+
+    const { secret, prefix, keyHash } = this.generateSecret();
+    const key = await this.prisma.apiKey.create({
+      data: {
+        ownerId: userId,
+        teamId,
+        name: dto.name.trim(),
+        prefix,
+        keyHash,
+        scopes: normalizeApiKeyScopes(dto.scopes),
+        rateLimitPerMinute: dto.rateLimitPerMinute ?? null,
+        expiresAt: this.parseExpiry(dto.expiresAt) ?? null,
+      },
+    });
+    return { apiKey: this.toDto(key), secret };
+  }
+
+  async update(userId: string, id: string, dto: UpdateApiKeyDto): Promise<ApiKeyDto> {
+    await this.getManageableKey(userId, id);
+    const key = await this.prisma.apiKey.update({
+      where: { id },
+      data: {
+        ...(dto.name !== undefined ? { name: dto.name.trim() } : {}),
+        ...(dto.scopes !== undefined ? { scopes: normalizeApiKeyScopes(dto.scopes) } : {}),
+        ...(dto.rateLimitPerMinute !== undefined
+          ? { rateLimitPerMinute: dto.rateLimitPerMinute }
+          : {}),
+        ...(dto.expiresAt !== undefined ? { expiresAt: this.parseExpiry(dto.expiresAt) } : {}),
+      },
+    });
+    this.forgetKey(id);
+    return this.toDto(key);
+  }
+
+  /** 轮换：生成新明文并替换哈希，旧 key 立即失效；名称、作用域与限流保持不变。 */
+  async rotate(userId: string, id: string): Promise<ApiKeyWithSecretDto> {
+    await this.getManageableKey(userId, id);
+    const { secret, prefix, keyHash } = this.generateSecret();
+    const key = await this.prisma.apiKey.update({
+      where: { id },
+      data: { prefix, keyHash, lastUsedAt: null },
+    });
+    this.forgetKey(id);
+    return { apiKey: this.toDto(key), secret };
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    await this.getManageableKey(userId, id);
+    await this.prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+    this.forgetKey(id);
+  }
+
+  // ── verification (ApiKeyOrJwtGuard) ──────────────────────────────────────
+
+  /**
+   * 校验明文 key；无效、已撤销、已过期，或团队 key 的创建者已不在团队时返回 null。
+   */
+  async verify(rawKey: string): Promise<ApiClientContext | null> {
+    if (!rawKey.startsWith(KEY_PREFIX)) return null;
+    const keyHash = hashKey(rawKey);
+    const now = Date.now();
+
+    let entry = this.verifyCache.get(keyHash);
+    if (!entry || now - entry.cachedAt > VERIFY_CACHE_TTL_MS) {
+      const record = await this.prisma.apiKey.findUnique({
+        where: { keyHash },
+        select: {
+          id: true,
+          ownerId: true,
+          teamId: true,
+          scopes: true,
+          rateLimitPerMinute: true,
+          expiresAt: true,
+          revokedAt: true,
+        },
+      });
+      if (!record || record.revokedAt) {
+        this.verifyCache.delete(keyHash);
+        return null;
+      }
+      if (record.teamId) {
+        const membership = await this.prisma.teamMembership.findUnique({
+          where: { teamId_userId: { teamId: record.teamId, userId: record.ownerId } },
+          select: { userId: true },
+        });
+        if (!membership) return null;
+      }
+      entry = { record, cachedAt: now };
+      this.verifyCache.set(keyHash, entry);
+    }
+
+    const { record } = entry;
+    if (record.expiresAt && record.expiresAt.getTime() <= now) return null;
+
+    this.touchLastUsed(record.id, now);
+    return {
+      id: record.id,
+      userId: record.ownerId,
+      teamId: record.teamId,
+      scopes: normalizeApiKeyScopes(record.scopes),
+      rateLimitPerMinute: record.rateLimitPerMinute,
+    };
+  }
+
+  /** 固定窗口限流（每分钟）；有 Redis 时跨实例共享计数，否则退化为进程内计数。 */
+  async consumeRateLimit(keyId: string, limitPerMinute: number | null | undefined) {
+    if (!limitPerMinute || limitPerMinute <= 0) return;
+    const windowStart = Math.floor(Date.now() / (RATE_LIMIT_WINDOW_SEC * 1000));
+    const bucketKey = `${RATE_LIMIT_REDIS_PREFIX}${keyId}:${windowStart}`;
+
+    let count: number | null = null;
+    if (this.client) {
+      try {
+        count = Number(await this.client.incr(bucketKey));
+        if (count === 1) await this.client.expire(bucketKey, RATE_LIMIT_WINDOW_SEC + 5);
+      } catch (err) {
+        this.logger.warn(`API key rate limit Redis error: ${(err as Error).message}`);
+        count = null;
+      }
+    }
+    if (count === null) {
+      const now = Date.now();
+      const bucket = this.inMemoryBuckets.get(keyId);
+      if (!bucket || bucket.resetAt <= now) {
+        this.inMemoryBuckets.set(keyId, {
+          count: 1,
+          resetAt: (windowStart + 1) * RATE_LIMIT_WINDOW_SEC * 1000,
+        });
+        count = 1;
+      } else {
+        bucket.count += 1;
+        count = bucket.count;
+      }
+    }
+
+    if (count > limitPerMinute) {
+      throw new HttpException(
+        `API Key 调用过于频繁（每分钟最多 ${limitPerMinute} 次）`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private touchLastUsed(id: string, now: number) {
+    const last = this.lastUsedWrites.get(id) ?? 0;
+    if (now - last < LAST_USED_THROTTLE_MS) return;
+    this.lastUsedWrites.set(id, now);
+    this.prisma.apiKey
+      .update({ where: { id }, data: { lastUsedAt: new Date(now) } })
+      .catch((err) => this.logger.warn(`更新 API Key lastUsedAt 失败: ${(err as Error).message}`));
+  }
+}
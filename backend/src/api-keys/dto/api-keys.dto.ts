@@ -0,0 +1,78 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { API_KEY_SCOPES, ApiKeyScope } from '../api-key-scopes';
+
+export const API_KEY_MAX_RATE_LIMIT_PER_MINUTE = 600;
+
+export class CreateApiKeyDto {
+  @ApiProperty()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ enum: API_KEY_SCOPES, isArray: true })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(API_KEY_SCOPES as unknown as string[], { each: true })
+  scopes!: ApiKeyScope[];
+
+  @ApiPropertyOptional({ description: '团队 key：由团队积分出资，仅 owner / admin 可管理' })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  teamId?: string;
+
+  @ApiPropertyOptional({ description: '过期时间（ISO 8601）；不传则永不过期' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ description: '每分钟最大调用次数；不传则不限流' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(API_KEY_MAX_RATE_LIMIT_PER_MINUTE)
+  rateLimitPerMinute?: number;
+}
+
+export class UpdateApiKeyDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ enum: API_KEY_SCOPES, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(API_KEY_SCOPES as unknown as string[], { each: true })
+  scopes?: ApiKeyScope[];
+
+  @ApiPropertyOptional({ description: '过期时间（ISO 8601）；传 null 取消过期', nullable: true })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsDateString()
+  expiresAt?: string | null;
+
+  @ApiPropertyOptional({ description: '每分钟最大调用次数；传 null 取消限流', nullable: true })
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsInt()
+  @Min(1)
+  @Max(API_KEY_MAX_RATE_LIMIT_PER_MINUTE)
+  rateLimitPerMinute?: number | null;
+}
@@ -29,6 +29,12 @@ import { AgentModule } from './agent/agent.module';
 import { DirectorCaptureModule } from './director-capture/director-capture.module';
 import { MaterialLibraryModule } from './material-library/material-library.module';
 import { AsrModule } from './asr/asr.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { ProjectShareModule } from './project-share/project-share.module';
+import { ProjectBudgetModule } from './project-budget/project-budget.module';
+import { DirectorAssetsModule } from './director-assets/director-assets.module';
+import { SubtitlesModule } from './subtitles/subtitles.module';
 
 @Module({
   imports: [
@@ -66,6 +72,12 @@ import { AsrModule } from './asr/asr.module';
     DirectorCaptureModule,
     MaterialLibraryModule,
     AsrModule,
+    ApiKeysModule,
+    NotificationsModule,
+    ProjectShareModule,
+    ProjectBudgetModule,
+    DirectorAssetsModule,
+    SubtitlesModule,
   ],
 })
 export class AppModule {}
@@ -1,15 +1,29 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
+  SetMetadata,
   UnauthorizedException,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { ConfigService } from '@nestjs/config';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+
+const ALLOW_USER_API_KEYS = 'allowUserApiKeys';
+
+/**
+ * 标记接受用户/团队自建 API Key 的控制器或路由（/ai 下的计费路由、/public/ai）。
+ * 这些路由在计费入口按 request.apiClient 校验作用域并记账；未标记的路由只认 JWT 与静态 AI_API_KEYS。
+ */
+export const AllowUserApiKeys = () => SetMetadata(ALLOW_USER_API_KEYS, true);
 
 /**
  * 支持 JWT 或外部 API Key 的鉴权守卫。
- * - 当请求头携带合法的 `x-api-key` 时直接放行；
+ * - `x-api-key` 命中静态 AI_API_KEYS 时直接放行（内部调用，不计费、不限作用域）；
+ * - 命中用户/团队自建的 API Key 时：路由须带 @AllowUserApiKeys()，否则 403；
+ *   再校验过期与限流，并在 request.apiClient 写入计费主体与作用域；
  * - 否则退回到标准的 JWT 鉴权逻辑；
  * - 若两者均不满足则返回 401。
  */
@@ -17,7 +31,11 @@ import { ConfigService } from '@nestjs/config';
 export class ApiKeyOrJwtGuard extends AuthGuard('jwt') implements CanActivate {
   private readonly cachedKeys: string[];
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly apiKeys: ApiKeysService,
+    private readonly reflector: Reflector,
+  ) {
     super();
     const keys = this.configService.get<string>('AI_API_KEYS') || '';
     this.cachedKeys = keys
@@ -36,6 +54,21 @@ export class ApiKeyOrJwtGuard extends AuthGuard('jwt') implements CanActivate {
       return true;
     }
 
+    const client = apiKey ? await this.apiKeys.verify(apiKey) : null;
+    if (client) {
+      const allowed = this.reflector.getAllAndOverride<boolean>(ALLOW_USER_API_KEYS, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+      if (!allowed) {
+        throw new ForbiddenException('该接口不支持 API Key 调用，请使用登录态');
+      }
+      // 超出限流时抛 429，不再退回 JWT
+      await this.apiKeys.consumeRateLimit(client.id!, client.rateLimitPerMinute);
+      request.apiClient = client;
+      return true;
+    }
+
     try {
       const result = await super.canActivate(context);
       return result as boolean;
@@ -8,5 +8,6 @@ import { CanvasCommentsService } from './canvas-comments.service';
   imports: [PrismaModule, TeamCollabModule],
   controllers: [CanvasCommentsController],
   providers: [CanvasCommentsService],
+  exports: [CanvasCommentsService],
 })
 export class CanvasCommentsModule {}
@@ -3,9 +3,11 @@ import {
   ForbiddenException,
   Injectable,
   NotFoundException,
+  Optional,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CollabEventBus } from '../team-collab/collab-event-bus.service';
+import { NotificationsService } from '../notifications/notifications.service';
 import type {
   CollabEnvelope,
   CommentChangeAction,
@@ -13,6 +15,7 @@ import type {
 } from '../team-collab/types';
 
 const AUTHOR_SELECT = { id: true, name: true, avatarUrl: true } as const;
+const MENTION_EXCERPT_LENGTH = 120;
 
 export interface CommentAuthorView {
   id: string;
@@ -50,6 +53,7 @@ export class CanvasCommentsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly bus: CollabEventBus,
+    @Optional() private readonly notifications?: NotificationsService,
   ) {}
 
   // ---- 读取 ----
@@ -62,6 +66,15 @@ export class CanvasCommentsService {
     includeResolved: boolean,
   ): Promise<ThreadView[]> {
     await this.assertProjectAccess(projectId, userId, teamId, role);
+    return this.findThreads(projectId, includeResolved);
+  }
+
+  /** 公开分享链接（comment 权限）读取评论：分享 token 由 ProjectShareService 校验。 */
+  async listThreadsForShare(projectId: string): Promise<ThreadView[]> {
+    return this.findThreads(projectId, false);
+  }
+
+  private async findThreads(projectId: string, includeResolved: boolean): Promise<ThreadView[]> {
     const threads = await this.prisma.canvasCommentThread.findMany({
       where: { projectId, ...(includeResolved ? {} : { resolved: false }) },
       orderBy: { createdAt: 'asc' },
@@ -94,6 +107,34 @@ export class CanvasCommentsService {
     },
   ): Promise<ThreadView> {
     await this.assertProjectAccess(projectId, userId, teamId, role);
+    return this.insertThread(projectId, userId, teamId, dto);
+  }
+
+  /**
+   * 通过公开分享链接（comment 权限）发起评论：评论者是已登录用户但不一定有项目权限，
+   * 分享 token 由 ProjectShareService 校验；不支持 @ 项目成员。
+   */
+  async createThreadForShare(
+    projectId: string,
+    userId: string,
+    dto: { nodeId?: string; x?: number; y?: number; body: string; imageUrls?: string[] },
+  ): Promise<ThreadView> {
+    return this.insertThread(projectId, userId, undefined, { ...dto, mentions: [] });
+  }
+
+  private async insertThread(
+    projectId: string,
+    userId: string,
+    teamId: string | undefined,
+    dto: {
+      nodeId?: string;
+      x?: number;
+      y?: number;
+      body: string;
+      mentions?: string[];
+      imageUrls?: string[];
+    },
+  ): Promise<ThreadView> {
     const imageUrls = this.normImages(dto.imageUrls);
     const body = this.normBody(dto.body, imageUrls.length > 0);
     const mentions = await this.sanitizeMentions(projectId, teamId, dto.mentions);
@@ -123,6 +164,12 @@ export class CanvasCommentsService {
       threadId: thread.id,
       commentId: view.comments[0]?.id,
     });
+    void this.notifyMentions(projectId, userId, mentions, {
+      nodeId: thread.nodeId,
+      threadId: thread.id,
+      commentId: view.comments[0]?.id,
+      body,
+    });
     return view;
   }
 
@@ -135,6 +182,26 @@ export class CanvasCommentsService {
     dto: { body: string; mentions?: string[]; imageUrls?: string[]; connId?: string },
   ): Promise<CommentView> {
     await this.assertProjectAccess(projectId, userId, teamId, role);
+    return this.insertReply(projectId, threadId, userId, teamId, dto);
+  }
+
+  /** 通过公开分享链接（comment 权限）回复，约束同 createThreadForShare。 */
+  async addReplyForShare(
+    projectId: string,
+    threadId: string,
+    userId: string,
+    dto: { body: string; imageUrls?: string[] },
+  ): Promise<CommentView> {
+    return this.insertReply(projectId, threadId, userId, undefined, { ...dto, mentions: [] });
+  }
+
+  private async insertReply(
+    projectId: string,
+    threadId: string,
+    userId: string,
+    teamId: string | undefined,
+    dto: { body: string; mentions?: string[]; imageUrls?: string[] },
+  ): Promise<CommentView> {
     const thread = await this.getThreadInProject(projectId, threadId);
     const imageUrls = this.normImages(dto.imageUrls);
     const body = this.normBody(dto.body, imageUrls.length > 0);
@@ -156,6 +223,12 @@ export class CanvasCommentsService {
       threadId,
       commentId: comment.id,
     });
+    void this.notifyMentions(projectId, userId, mentions, {
+      nodeId: thread.nodeId,
+      threadId,
+      commentId: comment.id,
+      body,
+    });
     return this.mapComment(comment);
   }
 
@@ -187,6 +260,14 @@ export class CanvasCommentsService {
       threadId: existing.threadId,
       commentId,
     });
+    // 编辑时只通知新增的 @，避免每次改字都重复打扰
+    const previousMentions = new Set(existing.mentions ?? []);
+    void this.notifyMentions(
+      projectId,
+      userId,
+      mentions.filter((id) => !previousMentions.has(id)),
+      { nodeId: existing.thread.nodeId, threadId: existing.threadId, commentId, body },
+    );
     return this.mapComment(comment);
   }
 
@@ -317,6 +398,39 @@ export class CanvasCommentsService {
     this.bus.publish(projectId, env).catch(() => undefined);
   }
 
+  /** 给被 @ 的成员发站内通知（不含作者本人）。通知失败不影响评论接口。 */
+  private async notifyMentions(
+    projectId: string,
+    actorId: string,
+    mentions: string[],
+    ctx: { nodeId: string | null; threadId: string; commentId?: string; body: string },
+  ): Promise<void> {
+    if (!this.notifications) return;
+    const recipients = mentions.filter((id) => id !== actorId);
+    if (recipients.length === 0) return;
+    try {
+      const [project, actor] = await Promise.all([
+        this.prisma.project.findUnique({ where: { id: projectId }, select: { name: true } }),
+        this.prisma.user.findUnique({ where: { id: actorId }, select: { name: true } }),
+      ]);
+      await this.notifications.notifyMany(recipients, {
+        type: 'mention',
+        actorId,
+        data: {
+          projectId,
+          projectName: project?.name ?? null,
+          actorName: actor?.name ?? null,
+          nodeId: ctx.nodeId,
+          threadId: ctx.threadId,
+          commentId: ctx.commentId ?? null,
+          excerpt: ctx.body.slice(0, MENTION_EXCERPT_LENGTH),
+        },
+      });
+    } catch {
+      // 通知是附带行为，忽略
+    }
+  }
+
   private normBody(body: string, allowEmpty = false): string {
     const t = (body ?? '').trim();
     // 允许「仅图片」评论：有图片时正文可为空。
@@ -380,6 +380,24 @@ export const CREDIT_PRICING_CONFIG = {
     creditsPerCall: 30,
     description: '将视频转换为 GIF',
   },
+  'video-subtitle-asr': {
+    serviceName: '字幕识别',
+    provider: 'tencent',
+    creditsPerCall: 20,
+    description: '使用腾讯录音文件识别为视频生成带时间轴的字幕',
+  },
+  'video-subtitle-burn': {
+    serviceName: '字幕烧录',
+    provider: 'ffmpeg',
+    creditsPerCall: 30,
+    description: '将字幕按样式烧录进视频',
+  },
+  'video-compose': {
+    serviceName: '视频合成',
+    provider: 'ffmpeg',
+    creditsPerCall: 30,
+    description: '在服务端将多段视频与音轨合成为一个成片',
+  },
   'minimax-speech': {
     serviceName: 'MiniMax 语音合成',
     provider: 'minimax',
@@ -9,6 +9,7 @@ import {
 } from './credits.config';
 import { TransactionType, ApiResponseStatus } from './dto/credits.dto';
 import { findCreditAccountForUpdate } from './credit-account-lock.util';
+import { hasProjectAccess } from '../projects/project-access.util';
 import { PricingResponseDto } from './dto/credits.dto';
 import { ReferralService } from '../referral/referral.service';
 import {
@@ -30,6 +31,12 @@ import {
   type CreditLotCandidate,
   type CreditLotStatus,
 } from './credit-lot-policy';
+import {
+  decideChargeProject,
+  evaluateProjectBudget,
+  normalizeBudgetThresholds,
+  resolveUsageAttribution,
+} from './project-credit-budget';
 import { BusinessPolicyService } from '../business-policy/business-policy.service';
 import {
   MODEL_PROVIDER_MAPPING_SETTING_KEY,
@@ -176,6 +183,15 @@ export interface DeductCreditsResult {
   creditsToDeduct: number;
   duplicate: boolean;
   duplicateReason?: 'idempotency' | 'fingerprint' | 'active-node';
+  /** 本次预扣使项目用量新跨过的预算告警阈值（由调用方在事务外发通知） */
+  projectBudgetAlert?: ProjectBudgetAlert;
+}
+
+export interface ProjectBudgetAlert {
+  projectId: string;
+  threshold: number;
+  spent: number;
+  limitCredits: number;
 }
 
 export interface AddCreditsResult {
@@ -199,6 +215,9 @@ export interface ApiUsageParams {
   idempotencyWindowMs?: number;
   /** 团队项目模式：只建用量记录，不扣个人积分。团队积分由调用方另行扣除。 */
   skipPersonalDeduction?: boolean;
+  /** 用量归属的项目 / Flow 节点；缺省时回落到 requestParams.clientProjectId / clientNodeId */
+  projectId?: string;
+  nodeId?: string;
 }
 
 interface PricingCatalogRuleConditionView {
@@ -4173,6 +4192,11 @@ export class CreditsService {
       idempotencyWindowMs,
       skipPersonalDeduction,
     } = params;
+    const attribution = resolveUsageAttribution({
+      projectId: params.projectId,
+      nodeId: params.nodeId,
+      requestParams,
+    });
     const normalizedIdempotencyKey = this.normalizeIdempotencyKey(
       idempotencyKey ?? requestParams?.idempotencyKey,
     );
@@ -4268,6 +4292,21 @@ export class CreditsService {
         }
       }
 
+      // 项目预算（团队/个人模式共用）：超额且设为拦截时在任何扣减之前拒绝
+      const attributedProjectId = await this.resolveChargeProjectId(
+        tx,
+        userId,
+        skipPersonalDeduction ? this.fundingTeamIdOf(requestParams) : undefined,
+        attribution.projectId,
+      );
+      const projectBudgetAlert = attributedProjectId
+        ? await this.enforceProjectBudget(tx, attributedProjectId, creditsToDeduct)
+        : undefined;
+      const usageAttribution = {
+        projectId: attributedProjectId,
+        nodeId: attributedProjectId ? attribution.nodeId ?? null : null,
+      };
+
       // 解析服务名（团队/个人模式共用）
       let effectiveServiceName = this.resolveSoraServiceName(
         serviceType,
@@ -4310,6 +4349,7 @@ export class CreditsService {
             responseStatus: ApiResponseStatus.PENDING,
             ipAddress,
             userAgent,
+            ...usageAttribution,
           },
         });
         return {
@@ -4319,6 +4359,7 @@ export class CreditsService {
           apiUsageId: apiUsage.id,
           creditsToDeduct,
           duplicate: false,
+          projectBudgetAlert,
         };
       }
 
@@ -4436,6 +4477,7 @@ export class CreditsService {
           responseStatus: ApiResponseStatus.PENDING,
           ipAddress,
           userAgent,
+          ...usageAttribution,
         },
       });
 
@@ -4467,12 +4509,133 @@ export class CreditsService {
         apiUsageId: apiUsage.id,
         creditsToDeduct,
         duplicate: false,
+        projectBudgetAlert,
       };
     }, {
       timeout: PRE_DEDUCT_TRANSACTION_TIMEOUT_MS,
     });
   }
 
+  /** 查齐扣费归属判定所需的事实，规则见 decideChargeProject */
+  private async resolveChargeProjectId(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    fundingTeamId: string | undefined,
+    claimedProjectId: string | undefined,
+  ): Promise<string | null> {
+    if (!claimedProjectId) return null;
+    const claimAccessible = await hasProjectAccess(tx, userId, claimedProjectId);
+    const claimSharedWithFundingTeam =
+      claimAccessible && fundingTeamId
+        ? (await tx.teamProjectShare.findUnique({
+            where: { projectId_teamId: { projectId: claimedProjectId, teamId: fundingTeamId } },
+            select: { projectId: true },
+          })) !== null
+        : false;
+    const fundingTeamHasBlockingBudget =
+      claimAccessible && fundingTeamId && !claimSharedWithFundingTeam
+        ? (await tx.projectCreditBudget.findFirst({
+            where: { blockWhenExceeded: true, project: { teamShares: { some: { teamId: fundingTeamId } } } },
+            select: { projectId: true },
+          })) !== null
+        : false;
+    const decision = decideChargeProject({
+      claimedProjectId,
+      claimAccessible,
+      fundingTeamId,
+      claimSharedWithFundingTeam,
+      fundingTeamHasBlockingBudget,
+    });
+    if ('error' in decision) throw new BadRequestException(decision.error);
+    return decision.projectId;
+  }
+
+  /** 团队出资的用量在 requestParams.teamId 上打标（见 CreditChargeService），据此识别出资团队 */
+  private fundingTeamIdOf(requestParams: Record<string, any> | null | undefined): string | undefined {
+    const teamId = requestParams?.teamId;
+    return typeof teamId === 'string' && teamId.trim() ? teamId.trim() : undefined;
+  }
+
+  /**
+   * 网关后扣（上游按实际消耗计价）前的项目预算护栏：按最坏情况 worstCaseCredits 试算，
+   * 超额且拦截时在调用上游之前拒绝；归属规则与 preDeductCredits 相同。
+   */
+  async assertProjectBudgetHeadroom(
+    userId: string,
+    params: {
+      requestParams?: Record<string, any>;
+      projectId?: string;
+      nodeId?: string;
+      worstCaseCredits: number;
+    },
+  ): Promise<void> {
+    const attribution = resolveUsageAttribution({
+      projectId: params.projectId,
+      nodeId: params.nodeId,
+      requestParams: params.requestParams,
+    });
+    await this.prisma.$transaction(async (tx) => {
+      const projectId = await this.resolveChargeProjectId(
+        tx,
+        userId,
+        this.fundingTeamIdOf(params.requestParams),
+        attribution.projectId,
+      );
+      if (projectId) await this.enforceProjectBudget(tx, projectId, params.worstCaseCredits, 'check');
+    });
+  }
+
+  /**
+   * 项目预算检查：锁预算行串行化同一项目的并发预扣（不同用户各自的账户锁管不到这里），
+   * 统计已归属且未失败的用量；超额且 blockWhenExceeded 时抛 BadRequestException。
+   * 新跨过告警阈值时推进 alertedThreshold 并返回告警信息。
+   * mode：charge = 预扣（拦截 + 告警）；settle = 上游已消耗的后扣（只告警不拦截）；
+   * check = 后扣前按最坏情况试算（只拦截，不推进告警）。
+   */
+  private async enforceProjectBudget(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    cost: number,
+    mode: 'charge' | 'settle' | 'check' = 'charge',
+  ): Promise<ProjectBudgetAlert | undefined> {
+    await tx.$queryRaw`SELECT "projectId" FROM "ProjectCreditBudget" WHERE "projectId" = ${projectId} FOR UPDATE`;
+    const budget = await tx.projectCreditBudget.findUnique({ where: { projectId } });
+    if (!budget) return undefined;
+
+    const usage = await tx.apiUsageRecord.aggregate({
+      where: { projectId, responseStatus: { not: ApiResponseStatus.FAILED } },
+      _sum: { creditsUsed: true },
+    });
+    const spent = usage._sum.creditsUsed ?? 0;
+    const decision = evaluateProjectBudget(
+      {
+        limitCredits: budget.limitCredits,
+        alertThresholds: normalizeBudgetThresholds(budget.alertThresholds),
+        blockWhenExceeded: mode !== 'settle' && budget.blockWhenExceeded,
+        alertedThreshold: budget.alertedThreshold,
+      },
+      spent,
+      cost,
+    );
+    if (!decision.allowed) {
+      throw new BadRequestException(
+        `项目预算已用尽：预算 ${budget.limitCredits}，已用 ${decision.spent}，本次需要 ${cost}`,
+      );
+    }
+    if (mode === 'check' || decision.crossedThreshold === null) return undefined;
+
+    await tx.projectCreditBudget.update({
+      where: { projectId },
+      data: { alertedThreshold: decision.crossedThreshold },
+    });
+    return {
+      projectId,
+      threshold: decision.crossedThreshold,
+      spent: decision.spentAfter,
+      limitCredits: budget.limitCredits,
+    };
+  }
+
   /**
    * 单轨网关计费：扣除一个【已知】金额（new-api 已定价并回报）。
    *
@@ -4496,6 +4659,9 @@ export class CreditsService {
       requestParams?: Record<string, any>;
       ipAddress?: string;
       userAgent?: string;
+      /** 用量归属（网关按实际消耗后扣：这里只记账与告警，拦截在调用前由 assertProjectBudgetHeadroom 完成） */
+      projectId?: string;
+      nodeId?: string;
     },
   ): Promise<{
     success: boolean;
@@ -4503,6 +4669,8 @@ export class CreditsService {
     apiUsageId: string;
     transactionId: string;
     creditsCharged: number;
+    /** 本次扣费使项目用量新跨过的预算告警阈值（由调用方在事务外发通知） */
+    projectBudgetAlert?: ProjectBudgetAlert;
   }> {
     const normalizedAmount =
       Number.isFinite(amount) && amount > 0 ? Math.round(amount) : 0;
@@ -4516,11 +4684,30 @@ export class CreditsService {
         ) as Record<string, any>)
       : undefined;
 
+    const attribution = resolveUsageAttribution({
+      projectId: meta.projectId,
+      nodeId: meta.nodeId,
+      requestParams,
+    });
+
     return await this.prisma.$transaction(async (tx) => {
       const account = await findCreditAccountForUpdate(tx, { userId });
       if (!account) {
         throw new NotFoundException('用户积分账户不存在');
       }
+      const attributedProjectId = await this.resolveChargeProjectId(
+        tx,
+        userId,
+        this.fundingTeamIdOf(requestParams),
+        attribution.projectId,
+      );
+      if (!attributedProjectId) {
+        attribution.projectId = undefined;
+        attribution.nodeId = undefined;
+      }
+      const projectBudgetAlert = attributedProjectId
+        ? await this.enforceProjectBudget(tx, attributedProjectId, normalizedAmount, 'settle')
+        : undefined;
 
       const buildUsageData = (creditsUsed: number, status: ApiResponseStatus) => ({
         userId,
@@ -4533,6 +4720,8 @@ export class CreditsService {
         responseStatus: status,
         ipAddress: meta.ipAddress,
         userAgent: meta.userAgent,
+        projectId: attribution.projectId ?? null,
+        nodeId: attribution.nodeId ?? null,
       });
 
       // 团队项目：不动个人积分，仅落用量记录（团队积分由 TeamCreditLedger 处理）。
@@ -4546,6 +4735,7 @@ export class CreditsService {
           apiUsageId: apiUsage.id,
           transactionId: `team:${apiUsage.id}`,
           creditsCharged: normalizedAmount,
+          projectBudgetAlert,
         };
       }
 
@@ -4560,6 +4750,7 @@ export class CreditsService {
           apiUsageId: apiUsage.id,
           transactionId: `zero:${apiUsage.id}`,
           creditsCharged: 0,
+          projectBudgetAlert,
         };
       }
 
@@ -4667,6 +4858,7 @@ export class CreditsService {
         apiUsageId: apiUsage.id,
         transactionId: transaction.id,
         creditsCharged: normalizedAmount,
+        projectBudgetAlert,
       };
     }, {
       timeout: PRE_DEDUCT_TRANSACTION_TIMEOUT_MS,
@@ -0,0 +1,120 @@
+/**
+ * 项目积分预算的纯函数部分（阈值归一化、预扣判定、阈值跨越、用量归属解析与扣费归属判定）。
+ * 事务与通知在 CreditsService / CreditChargeService / ProjectBudgetService 中完成。
+ */
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [50, 80, 100] as const;
+export const MAX_BUDGET_ALERT_THRESHOLDS = 5;
+/** 单个项目预算上限，防止误填超大数 */
+export const MAX_PROJECT_BUDGET_CREDITS = 100_000_000;
+
+const ATTRIBUTION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/** 阈值取 1–100 的整数百分比，去重升序，最多 MAX_BUDGET_ALERT_THRESHOLDS 个；为空时用默认值 */
+export function normalizeBudgetThresholds(input: unknown): number[] {
+  const values = Array.isArray(input) ? input : [];
+  const unique = new Set<number>();
+  for (const value of values) {
+    const n = typeof value === 'number' ? value : Number(value);
+    if (!Number.isFinite(n)) continue;
+    const rounded = Math.round(n);
+    if (rounded >= 1 && rounded <= 100) unique.add(rounded);
+  }
+  const sorted = [...unique].sort((a, b) => a - b).slice(0, MAX_BUDGET_ALERT_THRESHOLDS);
+  return sorted.length > 0 ? sorted : [...DEFAULT_BUDGET_ALERT_THRESHOLDS];
+}
+
+export interface ProjectBudgetSnapshot {
+  limitCredits: number;
+  alertThresholds: number[];
+  blockWhenExceeded: boolean;
+  alertedThreshold: number;
+}
+
+export type ProjectBudgetDecision =
+  | { allowed: true; spentAfter: number; crossedThreshold: number | null }
+  | { allowed: false; spent: number; remaining: number };
+
+/** 已用百分比（向下取整）；额度为 0 时视为已用尽 */
+export function budgetUsagePercent(spent: number, limitCredits: number): number {
+  if (limitCredits <= 0) return spent > 0 ? 100 : 0;
+  return Math.floor((Math.max(0, spent) * 100) / limitCredits);
+}
+
+/**
+ * 预扣前判定：超出额度且 blockWhenExceeded 时拒绝；放行时返回这次扣费后新跨过的最高阈值
+ * （只返回高于 alertedThreshold 的阈值，同一阈值不重复告警）。
+ */
+export function evaluateProjectBudget(
+  budget: ProjectBudgetSnapshot,
+  spent: number,
+  cost: number,
+): ProjectBudgetDecision {
+  const spentAfter = Math.max(0, spent) + Math.max(0, cost);
+  if (budget.blockWhenExceeded && cost > 0 && spentAfter > budget.limitCredits) {
+    return {
+      allowed: false,
+      spent: Math.max(0, spent),
+      remaining: Math.max(0, budget.limitCredits - Math.max(0, spent)),
+    };
+  }
+  const percent = budgetUsagePercent(spentAfter, budget.limitCredits);
+  const crossed = budget.alertThresholds
+    .filter((threshold) => threshold > budget.alertedThreshold && percent >= threshold)
+    .reduce<number | null>((max, threshold) => (max === null || threshold > max ? threshold : max), null);
+  return { allowed: true, spentAfter, crossedThreshold: crossed };
+}
+
+const pickAttributionId = (...values: unknown[]): string | undefined => {
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const trimmed = value.trim();
+    if (ATTRIBUTION_ID_PATTERN.test(trimmed)) return trimmed;
+  }
+  return undefined;
+};
+
+/**
+ * 用量归属：显式传入（请求头 x-project-id / DTO nodeId）优先，
+ * 其次 requestParams 里视频链路已有的 clientProjectId / clientNodeId。非法 id 丢弃。
+ */
+export function resolveUsageAttribution(input: {
+  projectId?: unknown;
+  nodeId?: unknown;
+  requestParams?: Record<string, any> | null;
+}): { projectId?: string; nodeId?: string } {
+  const params = input.requestParams && typeof input.requestParams === 'object' ? input.requestParams : {};
+  const projectId = pickAttributionId(input.projectId, params.clientProjectId);
+  const nodeId = projectId ? pickAttributionId(input.nodeId, params.clientNodeId) : undefined;
+  return { projectId, nodeId };
+}
+
+export interface ChargeProjectFacts {
+  /** 客户端声明的归属项目（已过 resolveUsageAttribution） */
+  claimedProjectId?: string;
+  /** 当前用户可访问声明的项目 */
+  claimAccessible: boolean;
+  /** 团队出资时的出资团队；个人出资为空 */
+  fundingTeamId?: string;
+  /** 声明的项目共享在出资团队下 */
+  claimSharedWithFundingTeam: boolean;
+  /** 出资团队有项目设了拦截预算 */
+  fundingTeamHasBlockingBudget: boolean;
+}
+
+/**
+ * 扣费归属的项目判定（事实由 CreditsService 在事务内查好）：
+ *  - 未声明项目（含用户 API Key 调用，不携带项目）不归属、不拦截；
+ *  - 声明的项目不可访问时丢弃归属；
+ *  - 团队出资只能归属到出资团队的项目；声明了团队外的项目而团队设有拦截预算时拒绝，
+ *    避免把团队积分记到预算之外的项目上绕过拦截。
+ */
+export function decideChargeProject(facts: ChargeProjectFacts): { projectId: string | null } | { error: string } {
+  const { claimedProjectId, fundingTeamId } = facts;
+  if (!claimedProjectId || !facts.claimAccessible) return { projectId: null };
+  if (!fundingTeamId || facts.claimSharedWithFundingTeam) return { projectId: claimedProjectId };
+  if (facts.fundingTeamHasBlockingBudget) {
+    return { error: '该团队已为项目设置积分预算，团队积分只能用于团队内的项目' };
+  }
+  return { projectId: null };
+}
@@ -0,0 +1,93 @@
+/**
+ * 导演台资产 data 的纯函数校验（按 kind 检查结构、体积与临时引用）。
+ * 返回错误文案而非抛错，由 DirectorAssetsService 转成 BadRequestException，便于脚本直接断言。
+ */
+
+export const DIRECTOR_ASSET_KINDS = ['motion', 'pose', 'scene'] as const;
+export type DirectorAssetKind = (typeof DIRECTOR_ASSET_KINDS)[number];
+
+/** 单个资产 JSON 体积上限：导入的动捕片段按 20fps 采样，60 秒约数百 KB，整场景预设留足余量 */
+export const MAX_DIRECTOR_ASSET_BYTES = 4 * 1024 * 1024;
+/** 首次加载迁移 localStorage 时单次最多上传的条数 */
+export const MAX_DIRECTOR_IMPORT_BATCH = 200;
+const MAX_MOTION_KEYFRAMES = 5000;
+const MAX_SCAN_DEPTH = 16;
+
+export const isDirectorAssetKind = (value: unknown): value is DirectorAssetKind =>
+  typeof value === 'string' && (DIRECTOR_ASSET_KINDS as readonly string[]).includes(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEuler = (value: unknown) =>
+  Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+function checkPoseMap(pose: unknown, path: string): string | null {
+  if (!isRecord(pose)) return `${path} 必须是关节角度对象`;
+  for (const [role, value] of Object.entries(pose)) {
+    if (!isEuler(value)) return `${path}.${role} 必须是 3 个弧度值`;
+  }
+  return null;
+}
+
+/** 与素材库一致：不落 data: / blob: 临时引用（模型/全景等应先上传换取远端地址） */
+function findTemporaryReference(value: unknown, path: string, depth: number): string | null {
+  if (depth > MAX_SCAN_DEPTH) return null;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.startsWith('data:') || trimmed.startsWith('blob:') ? path || 'data' : null;
+  }
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const hit = findTemporaryReference(value[i], `${path}[${i}]`, depth + 1);
+      if (hit) return hit;
+    }
+    return null;
+  }
+  if (isRecord(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      const hit = findTemporaryReference(item, path ? `${path}.${key}` : key, depth + 1);
+      if (hit) return hit;
+    }
+  }
+  return null;
+}
+
+export function checkDirectorAssetData(kind: DirectorAssetKind, data: unknown): string | null {
+  if (!isRecord(data)) return '导演台资产数据格式不正确';
+  let size: number;
+  try {
+    size = Buffer.byteLength(JSON.stringify(data), 'utf8');
+  } catch {
+    return '导演台资产数据无法序列化';
+  }
+  if (size > MAX_DIRECTOR_ASSET_BYTES) return '导演台资产数据过大（上限 4MB）';
+
+  if (kind === 'motion') {
+    const duration = data.durationSeconds;
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) {
+      return '动作缺少有效时长 durationSeconds';
+    }
+    const keyframes = data.keyframes;
+    if (!Array.isArray(keyframes) || keyframes.length === 0) return '动作缺少关键帧';
+    if (keyframes.length > MAX_MOTION_KEYFRAMES) return `动作关键帧过多（上限 ${MAX_MOTION_KEYFRAMES}）`;
+    for (let i = 0; i < keyframes.length; i++) {
+      const keyframe = keyframes[i];
+      if (!isRecord(keyframe) || typeof keyframe.t !== 'number' || !Number.isFinite(keyframe.t)) {
+        return `keyframes[${i}] 缺少时间 t`;
+      }
+      const error = checkPoseMap(keyframe.pose, `keyframes[${i}].pose`);
+      if (error) return error;
+    }
+  } else if (kind === 'pose') {
+    const error = checkPoseMap(data.pose, 'pose');
+    if (error) return error;
+  } else {
+    if (data.kind !== 'directorConsole' || !isRecord(data.scene)) return '场景预设必须是导演台节点数据';
+    const scene = data.scene;
+    if (!Array.isArray(scene.characters) || !Array.isArray(scene.cameras)) return '场景预设缺少角色或机位列表';
+  }
+
+  const temporary = findTemporaryReference(data, '', 0);
+  return temporary ? `${temporary} 不能是临时引用（data:/blob:），请先上传换取远端地址` : null;
+}
@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiCookieAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { DirectorAssetsService } from './director-assets.service';
+import {
+  CreateDirectorAssetDto,
+  CreateTeamDirectorAssetDto,
+  ImportLocalDirectorAssetsDto,
+  ShareDirectorAssetDto,
+  UpdateDirectorAssetDto,
+} from './dto/director-assets.dto';
+
+@ApiTags('director-assets')
+@ApiCookieAuth('access_token')
+@UseGuards(JwtAuthGuard)
+@Controller('director-assets')
+export class DirectorAssetsController {
+  constructor(private readonly assets: DirectorAssetsService) {}
+
+  // ── personal assets ─────────────────────────────────────────────────────────
+
+  @Get('assets')
+  listAssets(@Req() req: any, @Query('kind') kind?: string) {
+    return this.assets.listPersonalAssets(req.user.sub, kind);
+  }
+
+  @Post('assets')
+  createAsset(@Req() req: any, @Body() dto: CreateDirectorAssetDto) {
+    return this.assets.createPersonalAsset(req.user.sub, dto);
+  }
+
+  @Post('assets/import-local')
+  importLocal(@Req() req: any, @Body() dto: ImportLocalDirectorAssetsDto) {
+    return this.assets.importLocalAssets(req.user.sub, dto);
+  }
+
+  @Patch('assets/:id')
+  updateAsset(
+    @Req() req: any,
+    @Param('id') id: string,
+    @Body() dto: UpdateDirectorAssetDto,
+  ) {
+    return this.assets.updatePersonalAsset(req.user.sub, id, dto);
+  }
+
+  @Delete('assets/:id')
+  async deleteAsset(@Req() req: any, @Param('id') id: string) {
+    await this.assets.deletePersonalAsset(req.user.sub, id);
+    return { ok: true };
+  }
+
+  @Post('assets/:id/share')
+  shareAsset(
+    @Req() req: any,
+    @Param('id') id: string,
+    @Body() dto: ShareDirectorAssetDto,
+  ) {
+    return this.assets.sharePersonalAsset(req.user.sub, id, dto.teamId);
+  }
+
+  // ── team assets ──────────────────────────────────────────────────────────────
+
+  @Get('team-assets')
+  listTeamAssets(
+    @Req() req: any,
+    @Query('teamId') teamId: string,
+    @Query('kind') kind?: string,
+  ) {
+    return this.assets.listTeamAssets(req.user.sub, teamId, kind);
+  }
+
+  @Post('team-assets')
+  createTeamAsset(@Req() req: any, @Body() dto: CreateTeamDirectorAssetDto) {
+    return this.assets.createTeamAsset(req.user.sub, dto);
+  }
+
+  @Patch('team-assets/:id')
+  updateTeamAsset(
+    @Req() req: any,
+    @Param('id') id: string,
+    @Body() dto: UpdateDirectorAssetDto,
+  ) {
+    return this.assets.updateTeamAsset(req.user.sub, id, dto);
+  }
+
+  @Delete('team-assets/:id')
+  async deleteTeamAsset(@Req() req: any, @Param('id') id: string) {
+    await this.assets.deleteTeamAsset(req.user.sub, id);
+    return { ok: true };
+  }
+}
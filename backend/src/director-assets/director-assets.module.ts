@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TeamCoreModule } from '../team-core/team-core.module';
+import { DirectorAssetsController } from './director-assets.controller';
+import { DirectorAssetsService } from './director-assets.service';
+
+@Module({
+  imports: [TeamCoreModule],
+  controllers: [DirectorAssetsController],
+  providers: [DirectorAssetsService],
+})
+export class DirectorAssetsModule {}
@@ -0,0 +1,192 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import type { DirectorAsset } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TeamCoreService } from '../team-core/team-core.service';
+import { checkDirectorAssetData, DirectorAssetKind, isDirectorAssetKind } from './director-asset-data';
+import {
+  CreateDirectorAssetDto,
+  CreateTeamDirectorAssetDto,
+  DirectorAssetDto,
+  ImportLocalDirectorAssetsDto,
+  UpdateDirectorAssetDto,
+} from './dto/director-assets.dto';
+
+export interface ImportLocalDirectorAssetsResult {
+  created: number;
+  skipped: number;
+  invalid: { sourceId: string; message: string }[];
+}
+
+/**
+ * 导演台资产（自定义动作 / 姿势 / 场景预设）的个人与团队存储，作用域规则同 MaterialLibraryService：
+ * 个人资产只有创建者可见；团队资产对成员可见可改。
+ */
+@Injectable()
+export class DirectorAssetsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly teamCore: TeamCoreService,
+  ) {}
+
+  // ── helpers ────────────────────────────────────────────────────────────────
+
+  private sanitizeData(kind: DirectorAssetKind, data: Record<string, unknown>): Record<string, unknown> {
+    const error = checkDirectorAssetData(kind, data);
+    if (error) throw new BadRequestException(error);
+    return data;
+  }
+
+  private toDto(asset: DirectorAsset): DirectorAssetDto {
+    return {
+      id: asset.id,
+      ownerId: asset.ownerId,
+      teamId: asset.teamId,
+      kind: asset.kind as DirectorAssetKind,
+      name: asset.name,
+      data: (asset.data as Record<string, unknown>) ?? {},
+      sourceId: asset.sourceId,
+      createdAt: asset.createdAt.toISOString(),
+      updatedAt: asset.updatedAt.toISOString(),
+    };
+  }
+
+  private normalizeKind(kind?: string): DirectorAssetKind | undefined {
+    return isDirectorAssetKind(kind) ? kind : undefined;
+  }
+
+  private async findPersonal(userId: string, assetId: string): Promise<DirectorAsset> {
+    const existing = await this.prisma.directorAsset.findUnique({ where: { id: assetId } });
+    if (!existing || existing.ownerId !== userId || existing.teamId) {
+      throw new NotFoundException('导演台资产不存在');
+    }
+    return existing;
+  }
+
+  private async findTeam(userId: string, assetId: string): Promise<DirectorAsset> {
+    const existing = await this.prisma.directorAsset.findUnique({ where: { id: assetId } });
+    if (!existing || !existing.teamId) throw new NotFoundException('导演台资产不存在');
+    await this.teamCore.assertMember(existing.teamId, userId);
+    return existing;
+  }
+
+  private applyUpdate(existing: DirectorAsset, dto: UpdateDirectorAssetDto) {
+    const data: Record<string, unknown> = {};
+    if (dto.name !== undefined) data.name = dto.name;
+    if (dto.data !== undefined) data.data = this.sanitizeData(existing.kind as DirectorAssetKind, dto.data);
+    return this.prisma.directorAsset.update({
+      where: { id: existing.id },
+      data: data as any,
+    });
+  }
+
+  // ── personal assets ─────────────────────────────────────────────────────────
+
+  async listPersonalAssets(userId: string, kind?: string): Promise<DirectorAssetDto[]> {
+    const rows = await this.prisma.directorAsset.findMany({
+      where: { ownerId: userId, teamId: null, kind: this.normalizeKind(kind) },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return rows.map((r) => this.toDto(r));
+  }
+
+  async createPersonalAsset(userId: string, dto: CreateDirectorAssetDto): Promise<DirectorAssetDto> {
+    const row = await this.prisma.directorAsset.create({
+      data: {
+        ownerId: userId,
+        teamId: null,
+        kind: dto.kind,
+        name: dto.name,
+        data: this.sanitizeData(dto.kind, dto.data) as any,
+      },
+    });
+    return this.toDto(row);
+  }
+
+  async updatePersonalAsset(userId: string, assetId: string, dto: UpdateDirectorAssetDto): Promise<DirectorAssetDto> {
+    const existing = await this.findPersonal(userId, assetId);
+    return this.toDto(await this.applyUpdate(existing, dto));
+  }
+
+  async deletePersonalAsset(userId: string, assetId: string): Promise<void> {
+    await this.findPersonal(userId, assetId);
+    await this.prisma.directorAsset.delete({ where: { id: assetId } });
+  }
+
+  /** 把个人资产复制一份到团队（团队副本独立演进，个人原件不受影响） */
+  async sharePersonalAsset(userId: string, assetId: string, teamId: string): Promise<DirectorAssetDto> {
+    const existing = await this.findPersonal(userId, assetId);
+    await this.teamCore.assertMember(teamId, userId);
+    const row = await this.prisma.directorAsset.create({
+      data: {
+        ownerId: userId,
+        teamId,
+        kind: existing.kind,
+        name: existing.name,
+        data: existing.data as any,
+      },
+    });
+    return this.toDto(row);
+  }
+
+  /**
+   * 首次加载时把浏览器 localStorage 里的动作/姿势迁移进个人库。按 (ownerId, sourceId) 去重，
+   * 重复调用只会跳过已迁移条目；结构不合法的条目单独报告，不影响其余条目。
+   */
+  async importLocalAssets(userId: string, dto: ImportLocalDirectorAssetsDto): Promise<ImportLocalDirectorAssetsResult> {
+    const invalid: ImportLocalDirectorAssetsResult['invalid'] = [];
+    const valid = dto.items.filter((item) => {
+      const error = checkDirectorAssetData(item.kind, item.data);
+      if (error) invalid.push({ sourceId: item.sourceId, message: error });
+      return !error;
+    });
+    const { count } = valid.length
+      ? await this.prisma.directorAsset.createMany({
+          data: valid.map((item) => ({
+            ownerId: userId,
+            teamId: null,
+            kind: item.kind,
+            name: item.name,
+            data: item.data as any,
+            sourceId: item.sourceId,
+          })),
+          skipDuplicates: true,
+        })
+      : { count: 0 };
+    return { created: count, skipped: valid.length - count, invalid };
+  }
+
+  // ── team assets ──────────────────────────────────────────────────────────────
+
+  async listTeamAssets(userId: string, teamId: string, kind?: string): Promise<DirectorAssetDto[]> {
+    await this.teamCore.assertMember(teamId, userId);
+    const rows = await this.prisma.directorAsset.findMany({
+      where: { teamId, kind: this.normalizeKind(kind) },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return rows.map((r) => this.toDto(r));
+  }
+
+  async createTeamAsset(userId: string, dto: CreateTeamDirectorAssetDto): Promise<DirectorAssetDto> {
+    await this.teamCore.assertMember(dto.teamId, userId);
+    const row = await this.prisma.directorAsset.create({
+      data: {
+        ownerId: userId,
+        teamId: dto.teamId,
+        kind: dto.kind,
+        name: dto.name,
+        data: this.sanitizeData(dto.kind, dto.data) as any,
+      },
+    });
+    return this.toDto(row);
+  }
+
+  async updateTeamAsset(userId: string, assetId: string, dto: UpdateDirectorAssetDto): Promise<DirectorAssetDto> {
+    const existing = await this.findTeam(userId, assetId);
+    return this.toDto(await this.applyUpdate(existing, dto));
+  }
+
+  async deleteTeamAsset(userId: string, assetId: string): Promise<void> {
+    await this.findTeam(userId, assetId);
+    await this.prisma.directorAsset.delete({ where: { id: assetId } });
+  }
+}
@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import {
+  DIRECTOR_ASSET_KINDS,
+  DirectorAssetKind,
+  MAX_DIRECTOR_IMPORT_BATCH,
+} from '../director-asset-data';
+
+export class CreateDirectorAssetDto {
+  @ApiProperty({ enum: DIRECTOR_ASSET_KINDS })
+  @IsIn(DIRECTOR_ASSET_KINDS as unknown as string[])
+  kind!: DirectorAssetKind;
+
+  @ApiProperty()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  name!: string;
+
+  @ApiProperty({ description: 'motion: PoseClip；pose: { pose }；scene: DirectorConsoleData' })
+  @IsObject()
+  data!: Record<string, unknown>;
+}
+
+export class CreateTeamDirectorAssetDto extends CreateDirectorAssetDto {
+  @ApiProperty()
+  @IsString()
+  @MinLength(1)
+  teamId!: string;
+}
+
+export class UpdateDirectorAssetDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, unknown>;
+}
+
+export class ShareDirectorAssetDto {
+  @ApiProperty({ description: '共享到的团队 ID' })
+  @IsString()
+  @MinLength(1)
+  teamId!: string;
+}
+
+export class LocalDirectorAssetDto extends CreateDirectorAssetDto {
+  @ApiProperty({ description: 'localStorage 中的原 id，用于迁移去重' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  sourceId!: string;
+}
+
+export class ImportLocalDirectorAssetsDto {
+  @ApiProperty({ type: [LocalDirectorAssetDto] })
+  @IsArray()
+  @ArrayMaxSize(MAX_DIRECTOR_IMPORT_BATCH)
+  @ValidateNested({ each: true })
+  @Type(() => LocalDirectorAssetDto)
+  items!: LocalDirectorAssetDto[];
+}
+
+export interface DirectorAssetDto {
+  id: string;
+  ownerId: string;
+  teamId: string | null;
+  kind: DirectorAssetKind;
+  name: string;
+  data: Record<string, unknown>;
+  sourceId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
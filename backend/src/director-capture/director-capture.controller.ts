@@ -1,21 +1,61 @@
-import { Controller, Post, Body, UseGuards } from '@nestjs/common';
+import { Controller, Post, Body, UseGuards, Get, Param, Req } from '@nestjs/common';
 import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
+import { ProjectsService } from '../projects/projects.service';
 import { DirectorCaptureService } from './director-capture.service';
 
+const optionalId = (value: unknown): string | null => {
+  const id = typeof value === 'string' ? value.trim() : '';
+  return id || null;
+};
+
+const requesterId = (req: any): string | null =>
+  req?.apiClient?.userId ?? req?.user?.sub ?? req?.user?.id ?? null;
+
+/** 租约只属于领取它的用户；无主租约（领取方无法识别）谁都不认，避免两个匿名调用方互相匹配。 */
+const ownsLease = (lease: { userId?: string | null } | null, userId: string | null): boolean =>
+  !!lease?.userId && lease.userId === userId;
+
 @Controller('director-capture')
 @UseGuards(ApiKeyOrJwtGuard)
 export class DirectorCaptureController {
-  constructor(private readonly service: DirectorCaptureService) {}
+  constructor(
+    private readonly service: DirectorCaptureService,
+    private readonly projects: ProjectsService,
+  ) {}
 
+  /** 过期巡检会向租约上的项目广播 task_status，所以认领时就校验项目访问权。 */
   @Post('claim')
-  claim(@Body() body: { captureId?: string }) {
+  async claim(
+    @Body() body: { captureId?: string; projectId?: string; nodeId?: string },
+    @Req() req: any,
+  ) {
     const captureId = String(body?.captureId ?? '').trim();
     if (!captureId) return { ok: false, code: 'bad_request' };
-    return this.service.claim(captureId);
+    const userId = requesterId(req);
+    if (!userId) return { ok: false, code: 'forbidden' };
+    const projectId = optionalId(body?.projectId);
+    if (projectId) await this.projects.assertProjectAccess(userId, projectId, req?.user?.role);
+    return this.service.claim(captureId, {
+      userId,
+      projectId,
+      nodeId: optionalId(body?.nodeId),
+    });
+  }
+
+  /** 刷新后凭原 leaseToken 续约，继续执行未完成的截图；只有领取人可续约。 */
+  @Post('resume')
+  async resume(@Body() body: { captureId?: string; leaseToken?: string }, @Req() req: any) {
+    const captureId = String(body?.captureId ?? '').trim();
+    const leaseToken = String(body?.leaseToken ?? '').trim();
+    if (!captureId || !leaseToken) return { ok: false, code: 'bad_request' };
+    if (!ownsLease(await this.service.getStatus(captureId), requesterId(req))) {
+      return { ok: false, code: 'not_found' };
+    }
+    return this.service.resume(captureId, leaseToken);
   }
 
   @Post('report')
-  report(
+  async report(
     @Body()
     body: {
       captureId?: string;
@@ -23,21 +63,35 @@ export class DirectorCaptureController {
       status?: string;
       imageUrl?: string;
       videoUrl?: string;
+      assetId?: string;
       error?: string;
     },
+    @Req() req: any,
   ) {
     const captureId = String(body?.captureId ?? '').trim();
     const leaseToken = String(body?.leaseToken ?? '').trim();
     if (!captureId || !leaseToken) return { ok: false, code: 'bad_request' };
+    if (!ownsLease(await this.service.getStatus(captureId), requesterId(req))) {
+      return { ok: false, code: 'not_found' };
+    }
     const status = body?.status === 'succeeded' ? 'succeeded' : 'failed';
-    const ok = this.service.report(
-      captureId,
-      leaseToken,
+    const ok = await this.service.report(captureId, leaseToken, {
       status,
-      body?.imageUrl,
-      body?.videoUrl,
-      body?.error,
-    );
+      imageUrl: body?.imageUrl,
+      videoUrl: body?.videoUrl,
+      assetId: body?.assetId,
+      error: body?.error,
+    });
     return { ok };
   }
+
+  /** 只有领取该截图的用户能查询；别人的租约按不存在处理，不暴露项目 / 节点与产物地址。 */
+  @Get(':captureId')
+  async status(@Param('captureId') rawCaptureId: string, @Req() req: any) {
+    const captureId = String(rawCaptureId ?? '').trim();
+    if (!captureId) return { ok: false, code: 'bad_request' };
+    const lease = await this.service.getStatus(captureId);
+    if (!lease || !ownsLease(lease, requesterId(req))) return { ok: false, code: 'not_found' };
+    return { ok: true, ...lease };
+  }
 }
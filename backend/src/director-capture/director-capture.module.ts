@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { AuthModule } from '../auth/auth.module';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { TeamCollabModule } from '../team-collab/team-collab.module';
 import { DirectorCaptureController } from './director-capture.controller';
 import { DirectorCaptureService } from './director-capture.service';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, ConfigModule, PrismaModule, ProjectsModule, TeamCollabModule],
   controllers: [DirectorCaptureController],
   providers: [DirectorCaptureService],
 })
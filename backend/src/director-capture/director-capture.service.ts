@@ -1,51 +1,353 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import type { DirectorCaptureLease } from '@prisma/client';
 import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CollabEventBus } from '../team-collab/collab-event-bus.service';
+import { CollabEventLog } from '../team-collab/collab-event-log.service';
+import type { CollabEnvelope, TaskStatusPayload } from '../team-collab/types';
 
-interface CaptureEntry {
+type RedisClient = any;
+
+export type CaptureStatus = 'claimed' | 'succeeded' | 'failed';
+
+export interface CaptureLease {
+  captureId: string;
   leaseToken: string;
-  status: 'claimed' | 'succeeded' | 'failed';
+  status: CaptureStatus;
+  userId?: string | null;
+  projectId?: string | null;
+  nodeId?: string | null;
+  imageUrl?: string | null;
+  videoUrl?: string | null;
+  assetId?: string | null;
+  error?: string | null;
+  expiresAt: number;
+  completedAt?: number | null;
+}
+
+export interface ClaimContext {
+  userId?: string | null;
+  projectId?: string | null;
+  nodeId?: string | null;
+}
+
+export interface CaptureReport {
+  status: 'succeeded' | 'failed';
   imageUrl?: string;
   videoUrl?: string;
+  assetId?: string;
   error?: string;
-  ts: number;
 }
 
-const TTL_MS = 10 * 60 * 1000;
+// 认领后执行端需在该时长内回报（或 resume 续约），否则判失败。
+const LEASE_TTL_MS = 10 * 60 * 1000;
+// 终态记录保留时长：期间同一 captureId 不可再认领，刷新后也能查到结果。
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 30 * 1000;
+const EXPIRED_ERROR = '截图租约已过期（执行端未在时限内回报结果）';
 
+const KEY_PREFIX = 'director:capture:';
+const CLAIMED_ZSET = 'director:capture:claimed';
+
+function leaseKey(captureId: string): string {
+  return `${KEY_PREFIX}${captureId}`;
+}
+
+// 校验 leaseToken 且仍为 claimed 才写入新值（保留原 TTL），并维护待巡检集合。
+const CAS_UPDATE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return 0 end
+local cur = cjson.decode(raw)
+if cur.leaseToken ~= ARGV[1] or cur.status ~= 'claimed' then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'KEEPTTL')
+local next = cjson.decode(ARGV[2])
+if next.status == 'claimed' then
+  redis.call('ZADD', KEYS[2], next.expiresAt, ARGV[3])
+else
+  redis.call('ZREM', KEYS[2], ARGV[3])
+end
+return 1
+`;
+
+/**
+ * 导演台离屏截图租约：claim 原子认领（多标签页 / 多副本只有一个胜出）+ report 记结果。
+ * 前端负责建输出节点（frontend-centric），这里只持久化租约与结果凭证。
+ *
+ * 配置 REDIS_URL 时存 Redis（与 NodeLockService 同一套 ioredis 接入），否则落库；
+ * 两者都跨重启 / 跨副本生效。过期未回报的租约由巡检判 failed，并向项目广播
+ * task_status（nodeId=导演台节点），前端 DirectorCaptureRunner 也会经状态查询回写节点。
+ */
 @Injectable()
-export class DirectorCaptureService {
-  private readonly store = new Map<string, CaptureEntry>();
+export class DirectorCaptureService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DirectorCaptureService.name);
+  private client: RedisClient | undefined;
+  private sweepTimer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+    @Optional() private readonly collabBus?: CollabEventBus,
+    @Optional() private readonly collabLog?: CollabEventLog,
+  ) {}
 
-  claim(captureId: string): { ok: boolean; leaseToken?: string } {
-    this.evict();
-    if (this.store.has(captureId)) return { ok: false };
-    const leaseToken = randomUUID();
-    this.store.set(captureId, { leaseToken, status: 'claimed', ts: Date.now() });
-    return { ok: true, leaseToken };
+  async onModuleInit(): Promise<void> {
+    const url = this.config.get<string>('REDIS_URL');
+    if (url) {
+      try {
+        const IORedis = require('ioredis');
+        this.client = new IORedis(url, { lazyConnect: false, maxRetriesPerRequest: 2 });
+        this.client.on('error', (err: Error) => {
+          this.logger.warn(`DirectorCaptureService Redis error: ${err.message}`);
+        });
+      } catch (err) {
+        this.logger.warn(`ioredis init failed, capture leases fall back to DB: ${(err as Error).message}`);
+      }
+    }
+    this.sweepTimer = setInterval(() => {
+      void this.sweepExpired();
+    }, SWEEP_INTERVAL_MS);
   }
 
-  report(
+  async onModuleDestroy(): Promise<void> {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    try {
+      await this.client?.quit();
+    } catch {}
+  }
+
+  async claim(
+    captureId: string,
+    context: ClaimContext = {},
+  ): Promise<{ ok: boolean; leaseToken?: string; expiresAt?: number; status?: CaptureStatus }> {
+    const lease: CaptureLease = {
+      captureId,
+      leaseToken: randomUUID(),
+      status: 'claimed',
+      userId: context.userId ?? null,
+      projectId: context.projectId ?? null,
+      nodeId: context.nodeId ?? null,
+      expiresAt: Date.now() + LEASE_TTL_MS,
+    };
+
+    if (this.client) {
+      const result = await this.client.set(
+        leaseKey(captureId),
+        JSON.stringify(lease),
+        'PX',
+        RETENTION_MS,
+        'NX',
+      );
+      if (result !== 'OK') {
+        const existing = await this.getStatus(captureId);
+        return { ok: false, status: existing?.status };
+      }
+      await this.client.zadd(CLAIMED_ZSET, lease.expiresAt, captureId);
+      return { ok: true, leaseToken: lease.leaseToken, expiresAt: lease.expiresAt };
+    }
+
+    try {
+      await this.prisma.directorCaptureLease.create({
+        data: {
+          captureId,
+          leaseToken: lease.leaseToken,
+          status: 'claimed',
+          userId: lease.userId,
+          projectId: lease.projectId,
+          nodeId: lease.nodeId,
+          expiresAt: new Date(lease.expiresAt),
+        },
+      });
+      return { ok: true, leaseToken: lease.leaseToken, expiresAt: lease.expiresAt };
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+        const existing = await this.getStatus(captureId);
+        return { ok: false, status: existing?.status };
+      }
+      throw err;
+    }
+  }
+
+  /** 刷新页面后凭原 leaseToken 续约并继续执行；租约已终态或 token 不符时失败。 */
+  async resume(
     captureId: string,
     leaseToken: string,
-    status: 'succeeded' | 'failed',
-    imageUrl?: string,
-    videoUrl?: string,
-    error?: string,
-  ): boolean {
-    const entry = this.store.get(captureId);
-    if (!entry || entry.leaseToken !== leaseToken) return false;
-    entry.status = status;
-    // 前端负责建输出节点（frontend-centric），此处仅记录 URL 作租约凭证；image 路径可无 URL。
-    if (imageUrl) entry.imageUrl = imageUrl;
-    if (videoUrl) entry.videoUrl = videoUrl;
-    if (error) entry.error = error;
-    return true;
-  }
-
-  private evict() {
-    const cutoff = Date.now() - TTL_MS;
-    for (const [id, entry] of this.store.entries()) {
-      if (entry.ts < cutoff) this.store.delete(id);
+  ): Promise<{ ok: boolean; expiresAt?: number; status?: CaptureStatus }> {
+    const expiresAt = Date.now() + LEASE_TTL_MS;
+    const ok = await this.updateClaimed(captureId, leaseToken, { expiresAt });
+    if (ok) return { ok, expiresAt };
+    const existing = await this.getStatus(captureId);
+    return { ok: false, status: existing?.status };
+  }
+
+  async report(captureId: string, leaseToken: string, report: CaptureReport): Promise<boolean> {
+    // 前端负责建输出节点，此处仅记录 URL 作租约凭证；image 路径可无 URL。
+    return this.updateClaimed(captureId, leaseToken, {
+      status: report.status,
+      imageUrl: report.imageUrl || null,
+      videoUrl: report.videoUrl || null,
+      assetId: report.assetId || null,
+      error: report.status === 'failed' ? report.error || '截图失败' : null,
+      completedAt: Date.now(),
+    });
+  }
+
+  /** 状态查询：不返回 leaseToken。 */
+  async getStatus(captureId: string): Promise<Omit<CaptureLease, 'leaseToken'> | null> {
+    const lease = await this.read(captureId);
+    if (!lease) return null;
+    const { leaseToken: _leaseToken, ...rest } = lease;
+    return rest;
+  }
+
+  private async read(captureId: string): Promise<CaptureLease | null> {
+    if (this.client) {
+      const raw = await this.client.get(leaseKey(captureId));
+      if (!raw) return null;
+      try {
+        return JSON.parse(raw) as CaptureLease;
+      } catch {
+        return null;
+      }
+    }
+    const row = await this.prisma.directorCaptureLease.findUnique({ where: { captureId } });
+    return row ? this.fromRow(row) : null;
+  }
+
+  private fromRow(row: DirectorCaptureLease): CaptureLease {
+    return {
+      captureId: row.captureId,
+      leaseToken: row.leaseToken,
+      status: row.status as CaptureStatus,
+      userId: row.userId,
+      projectId: row.projectId,
+      nodeId: row.nodeId,
+      imageUrl: row.imageUrl,
+      videoUrl: row.videoUrl,
+      assetId: row.assetId,
+      error: row.error,
+      expiresAt: row.expiresAt.getTime(),
+      completedAt: row.completedAt?.getTime() ?? null,
+    };
+  }
+
+  /** 仅当 leaseToken 匹配且仍为 claimed 时更新（Redis 用 Lua CAS，DB 用条件 updateMany）。 */
+  private async updateClaimed(
+    captureId: string,
+    leaseToken: string,
+    patch: Partial<Omit<CaptureLease, 'captureId' | 'leaseToken'>>,
+  ): Promise<boolean> {
+    if (this.client) {
+      const current = await this.read(captureId);
+      if (!current) return false;
+      const next = { ...current, ...patch };
+      const result = await this.client.eval(
+        CAS_UPDATE_SCRIPT,
+        2,
+        leaseKey(captureId),
+        CLAIMED_ZSET,
+        leaseToken,
+        JSON.stringify(next),
+        captureId,
+      );
+      return Number(result) === 1;
+    }
+
+    const { count } = await this.prisma.directorCaptureLease.updateMany({
+      where: { captureId, leaseToken, status: 'claimed' },
+      data: {
+        ...(patch.status ? { status: patch.status } : {}),
+        ...(patch.expiresAt ? { expiresAt: new Date(patch.expiresAt) } : {}),
+        ...('imageUrl' in patch ? { imageUrl: patch.imageUrl } : {}),
+        ...('videoUrl' in patch ? { videoUrl: patch.videoUrl } : {}),
+        ...('assetId' in patch ? { assetId: patch.assetId } : {}),
+        ...('error' in patch ? { error: patch.error } : {}),
+        ...(patch.completedAt ? { completedAt: new Date(patch.completedAt) } : {}),
+      },
+    });
+    return count === 1;
+  }
+
+  private async sweepExpired(): Promise<void> {
+    if (this.sweeping) return;
+    this.sweeping = true;
+    try {
+      const now = Date.now();
+      const expired: CaptureLease[] = [];
+
+      if (this.client) {
+        const ids: string[] = await this.client.zrangebyscore(CLAIMED_ZSET, 0, now, 'LIMIT', 0, 100);
+        for (const captureId of ids) {
+          const lease = await this.read(captureId);
+          if (!lease || lease.status !== 'claimed') {
+            await this.client.zrem(CLAIMED_ZSET, captureId);
+            continue;
+          }
+          if (lease.expiresAt > now) continue;
+          // CAS 保证多副本同时巡检时只有一个判定成功并广播
+          if (await this.expire(lease)) expired.push(lease);
+        }
+      } else {
+        const rows = await this.prisma.directorCaptureLease.findMany({
+          where: { status: 'claimed', expiresAt: { lte: new Date(now) } },
+          take: 100,
+        });
+        for (const row of rows) {
+          const lease = this.fromRow(row);
+          if (await this.expire(lease)) expired.push(lease);
+        }
+        await this.prisma.directorCaptureLease.deleteMany({
+          where: { status: { not: 'claimed' }, updatedAt: { lt: new Date(now - RETENTION_MS) } },
+        });
+      }
+
+      for (const lease of expired) {
+        await this.publishExpired(lease);
+      }
+      if (expired.length > 0) {
+        this.logger.warn(`导演台截图租约过期判失败: ${expired.length} 个`);
+      }
+    } catch (err) {
+      this.logger.warn(`Director capture lease sweep failed: ${(err as Error).message}`);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private expire(lease: CaptureLease): Promise<boolean> {
+    return this.updateClaimed(lease.captureId, lease.leaseToken, {
+      status: 'failed',
+      error: EXPIRED_ERROR,
+      completedAt: Date.now(),
+    });
+  }
+
+  private async publishExpired(lease: CaptureLease): Promise<void> {
+    if (!lease.projectId || !lease.nodeId || !this.collabBus || !this.collabLog) return;
+    try {
+      const seq = await this.collabLog.nextSeq(lease.projectId);
+      const envelope: CollabEnvelope<TaskStatusPayload> = {
+        type: 'task_status',
+        payload: {
+          taskId: lease.captureId,
+          nodeId: lease.nodeId,
+          taskType: 'director_capture',
+          category: 'image',
+          status: 'failed',
+          progress: 0,
+          error: EXPIRED_ERROR,
+        },
+        ts: Date.now(),
+        seq,
+      };
+      await this.collabLog.append(lease.projectId, envelope);
+      await this.collabBus.publish(lease.projectId, envelope);
+    } catch (err) {
+      this.logger.warn(
+        `publish capture expiry failed (project=${lease.projectId} capture=${lease.captureId}): ${(err as Error).message}`,
+      );
     }
   }
 }
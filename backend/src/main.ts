@@ -255,6 +255,8 @@ async function bootstrap() {
       "authorization",
       "x-api-key",
       "x-team-id",
+      "x-project-id",
+      "x-share-password",
       "x-trace-id",
       "traceparent",
       "idempotency-key",
@@ -291,6 +293,7 @@ async function bootstrap() {
     .setDescription("Backend API for Tnavas")
     .setVersion("0.1.0")
     .addCookieAuth("access_token")
+    .addApiKey({ type: "apiKey", in: "header", name: "x-api-key" }, "api-key")
     .build();
   const doc = SwaggerModule.createDocument(app, swaggerConfig);
   SwaggerModule.setup("api/docs", app, doc);
@@ -34,6 +34,9 @@ export class MembershipSchedulerService {
 
     this.expiryJobRunning = true;
     try {
+      // 先应用到期的降级/预约变更：其生效时刻即旧周期结束，若先跑到期扫描会把用户短暂打回免费档。
+      await this.runScheduledMembershipChanges();
+
       const result = await this.membershipService.expireElapsedMemberships();
       if (
         result.expiredSubscriptions > 0 ||
@@ -83,6 +86,10 @@ export class MembershipSchedulerService {
 
   @Cron(CronExpression.EVERY_HOUR)
   async handleScheduledMembershipChanges() {
+    await this.runScheduledMembershipChanges();
+  }
+
+  private async runScheduledMembershipChanges() {
     if (this.scheduledChangeJobRunning) {
       this.logger.warn('跳过待生效订阅切换：上一次任务尚未完成');
       return;
@@ -92,7 +99,9 @@ export class MembershipSchedulerService {
     try {
       const result = await this.membershipService.applyDueScheduledChanges();
       if (result.appliedCount > 0) {
-        this.logger.log(`待生效订阅切换完成: applied=${result.appliedCount}`);
+        this.logger.log(
+          `待生效订阅切换完成: applied=${result.appliedCount}, expiredCredits=${result.expiredCredits}`,
+        );
       }
     } catch (error) {
       this.logger.error('待生效订阅切换失败:', error);
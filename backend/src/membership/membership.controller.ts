@@ -76,7 +76,7 @@ export class MembershipController {
   @Post('change-plan')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: '用户自助变更套餐（降级已禁用，恒返回 400）' })
+  @ApiOperation({ summary: '用户自助降级：当前周期结束后切换到目标套餐' })
   async changeMembershipPlan(
     @Request() req: FastifyRequest & { user: AuthenticatedUser },
     @Body() body: { planCode: string },
@@ -85,6 +85,17 @@ export class MembershipController {
     return this.membershipService.scheduleUserDowngrade(userId as string, body.planCode);
   }
 
+  @Post('change-plan/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '生效前撤销自助降级' })
+  async cancelMembershipPlanChange(
+    @Request() req: FastifyRequest & { user: AuthenticatedUser },
+  ) {
+    const userId = req.user.id ?? req.user.sub;
+    return this.membershipService.cancelUserScheduledChange(userId as string);
+  }
+
   @Post('orders')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -31,6 +31,18 @@ type MembershipCreditBalances = {
   totalCredits: number;
 };
 
+type MembershipPlanRecord = {
+  id: string;
+  code: string;
+  name: string;
+  billingCycle: string;
+  price: Prisma.Decimal;
+  monthlyQuotaCredits: number;
+  signupBonusCredits: number;
+  dailyGiftCredits: number;
+  metadata: Prisma.JsonValue | null;
+};
+
 @Injectable()
 export class MembershipService {
   private static readonly FREE_TIER_BENEFITS_SETTING_KEY = 'membership_free_tier_benefits';
@@ -678,6 +690,7 @@ export class MembershipService {
           price: Number(currentPlan.price),
         },
         nextEffectiveAt: current.currentPeriodEndAt,
+        downgradeEffect: await this.buildDowngradeEffect(userId, current, currentPlan, targetPlan),
       };
     }
 
@@ -731,13 +744,144 @@ export class MembershipService {
         price: Number(currentPlan.price),
       },
       nextEffectiveAt: current.currentPeriodEndAt,
+      downgradeEffect: await this.buildDowngradeEffect(userId, current, currentPlan, targetPlan),
+    };
+  }
+
+  /**
+   * 降级预览的积分/权益影响，口径与 applyDueScheduledChanges 一致：
+   * 生效时刻之前到期的会员积分批次清零（按当前剩余量计算，期间消耗的部分不再清零），
+   * 随后按目标套餐开新周期发放额度 + 赠送积分；充值/赠送等非会员积分不受影响。
+   */
+  private async buildDowngradeEffect(
+    userId: string,
+    current: { currentPeriodEndAt: Date },
+    currentPlan: MembershipPlanRecord,
+    targetPlan: MembershipPlanRecord,
+  ) {
+    const effectiveAt = current.currentPeriodEndAt;
+    const policy = await this.businessPolicyService.getMembershipCreditPolicy();
+    const targetCycle = this.normalizeBillingCycle(targetPlan.billingCycle);
+    const expiring = await this.prisma.creditLot.aggregate({
+      where: this.buildDowngradeExpiringLotFilter(userId, effectiveAt),
+      _sum: { remainingAmount: true },
+    });
+
+    return {
+      effectiveAt,
+      expiringCredits: expiring._sum.remainingAmount ?? 0,
+      grantedCredits: targetPlan.monthlyQuotaCredits + targetPlan.signupBonusCredits,
+      nextPeriodEndAt: this.addDays(
+        effectiveAt,
+        this.resolveCycleDays(targetCycle, policy.membershipRefreshCycleDays),
+      ),
+      benefits: {
+        current: this.describePlanBenefits(currentPlan),
+        target: this.describePlanBenefits(targetPlan),
+      },
+    };
+  }
+
+  private buildDowngradeExpiringLotFilter(userId: string, effectiveAt: Date): Prisma.CreditLotWhereInput {
+    return {
+      account: { userId },
+      validityType: 'membership_bound',
+      status: 'active',
+      expiresAt: { lte: effectiveAt },
+    };
+  }
+
+  private describePlanBenefits(plan: MembershipPlanRecord) {
+    const metadata = this.asJsonObject(plan.metadata);
+    return {
+      planCode: plan.code,
+      planName: plan.name,
+      monthlyQuotaCredits: plan.monthlyQuotaCredits,
+      dailyGiftCredits: this.normalizeDailyGiftCreditsForPlanCode(plan.code, plan.dailyGiftCredits),
+      pauseGiftDecay: Boolean(metadata?.pauseGiftDecay),
+      inviteLimit: this.readInviteLimitFromPlanMetadata(plan.metadata),
+    };
+  }
+
+  /**
+   * 用户自助降级：记录一条下周期生效的 MembershipSubscriptionChange，当前周期权益不变，
+   * 到期后由 MembershipSchedulerService 切换。同一用户只保留一条待生效变更（新的替换旧的）。
+   */
+  async scheduleUserDowngrade(userId: string, planCode: string) {
+    const preview = await this.getUserTransitionPreview(userId, planCode);
+    if (preview.actionType !== 'downgrade') {
+      throw new BadRequestException('目标套餐不是降级，请直接下单');
+    }
+
+    const change = await this.prisma.$transaction(async (tx) => {
+      const subscription = await tx.userMembershipSubscription.findFirst({
+        where: { userId, status: 'active' },
+        orderBy: [{ currentPeriodEndAt: 'desc' }, { createdAt: 'desc' }],
+      });
+      if (!subscription) {
+        throw new NotFoundException('当前没有生效中的订阅');
+      }
+
+      await tx.membershipSubscriptionChange.updateMany({
+        where: { userId, status: 'scheduled' },
+        data: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          reason: 'replaced:user_downgrade',
+          requestedBy: userId,
+        },
+      });
+
+      return tx.membershipSubscriptionChange.create({
+        data: {
+          userId,
+          currentSubscriptionId: subscription.id,
+          targetPlanId: preview.targetPlan.id,
+          targetPlanCode: preview.targetPlan.code,
+          targetBillingCycle: preview.targetPlan.billingCycle,
+          changeType: 'user_downgrade',
+          effectiveMode: 'next_cycle',
+          status: 'scheduled',
+          reason: 'user_downgrade',
+          requestedBy: userId,
+          currentPeriodEndAt: subscription.currentPeriodEndAt,
+          effectiveAt: subscription.currentPeriodEndAt,
+          metadata: {
+            source: 'user',
+            fromPlanCode: preview.currentPlan?.code ?? null,
+          },
+        },
+      });
+    });
+
+    return {
+      success: true,
+      nextChangeId: change.id,
+      effectiveAt: change.effectiveAt,
     };
   }
 
-  async scheduleUserDowngrade(_userId: string, _planCode: string): Promise<never> {
-    // 产品拍板（2026-07-17）：用户不允许降档（含年卡→月卡），只能升级/续费；
-    // 管理员侧走 adminScheduleMembershipChange，不受此限制。旧的下周期降级实现见 git 历史。
-    throw new BadRequestException('会员套餐不支持降级');
+  /** 生效前撤销自己预约的降级；管理员安排的变更不允许用户撤销。 */
+  async cancelUserScheduledChange(userId: string) {
+    const now = new Date();
+    const result = await this.prisma.membershipSubscriptionChange.updateMany({
+      where: {
+        userId,
+        status: 'scheduled',
+        changeType: 'user_downgrade',
+        effectiveAt: { gt: now },
+      },
+      data: {
+        status: 'cancelled',
+        cancelledAt: now,
+        reason: 'user_cancelled',
+        requestedBy: userId,
+      },
+    });
+    if (result.count === 0) {
+      throw new NotFoundException('没有可撤销的待生效降级');
+    }
+    return { success: true, cancelledCount: result.count };
   }
 
   async adminExpireMembershipNow(userId: string, reason: string, requestedBy: string) {
@@ -849,9 +993,10 @@ export class MembershipService {
     },
     now: Date,
     reason: string,
+    lotFilter?: Prisma.CreditLotWhereInput,
   ) {
     const lots = await tx.creditLot.findMany({
-      where: {
+      where: lotFilter ?? {
         subscriptionId: subscription.id,
         validityType: 'membership_bound',
         status: 'active',
@@ -1738,6 +1883,17 @@ export class MembershipService {
     let currentPeriodStartAt: Date;
     let currentPeriodEndAt: Date;
 
+    // 续费/重新开通说明用户不再想降级：撤销待生效的自助降级，避免续出来的周期在旧到期日被切走。
+    await params.tx.membershipSubscriptionChange.updateMany({
+      where: { userId: params.userId, status: 'scheduled', changeType: 'user_downgrade' },
+      data: {
+        status: 'cancelled',
+        cancelledAt: paidAt,
+        reason: 'replaced:user_purchase',
+        requestedBy: params.userId,
+      },
+    });
+
     if (activeSubscription && activeSubscription.membershipPlanId === persistedPlan.id) {
       subscriptionId = activeSubscription.id;
       currentPeriodStartAt = activeSubscription.currentPeriodStartAt;
@@ -2119,21 +2275,34 @@ export class MembershipService {
     };
   }
 
+  /**
+   * 应用到期的下周期变更（用户降级 / 管理员预约）：关闭当前订阅、清零生效时刻前到期的会员积分、
+   * 按目标套餐开新周期并写入权益快照。每条变更单独事务，先把 status 从 scheduled 抢占为 applied，
+   * 多实例或与会员到期扫描并发执行时同一条变更只会生效一次。
+   */
   async applyDueScheduledChanges(now = new Date()) {
     const policy = await this.businessPolicyService.getMembershipCreditPolicy();
-    return this.prisma.$transaction(async (tx) => {
-      const changes = await tx.membershipSubscriptionChange.findMany({
-        where: {
-          status: 'scheduled',
-          effectiveMode: 'next_cycle',
-          effectiveAt: { lte: now },
-        },
-        orderBy: [{ effectiveAt: 'asc' }, { createdAt: 'asc' }],
-      });
+    const dueChanges = await this.prisma.membershipSubscriptionChange.findMany({
+      where: {
+        status: 'scheduled',
+        effectiveMode: 'next_cycle',
+        effectiveAt: { lte: now },
+      },
+      select: { id: true },
+      orderBy: [{ effectiveAt: 'asc' }, { createdAt: 'asc' }],
+      take: 200,
+    });
+
+    let appliedCount = 0;
+    let expiredCredits = 0;
 
-      let appliedCount = 0;
+    for (const due of dueChanges) {
+      const applied = await this.prisma.$transaction(async (tx) => {
+        const change = await tx.membershipSubscriptionChange.findUnique({
+          where: { id: due.id },
+        });
+        if (!change || change.status !== 'scheduled') return null;
 
-      for (const change of changes) {
         const plan = await tx.membershipPlan.findUnique({
           where: { id: change.targetPlanId },
         });
@@ -2146,9 +2315,20 @@ export class MembershipService {
               reason: change.reason ?? 'target_plan_missing',
             },
           });
-          continue;
+          return null;
         }
 
+        const claimed = await tx.membershipSubscriptionChange.updateMany({
+          where: { id: change.id, status: 'scheduled' },
+          data: { status: 'applied', appliedAt: now },
+        });
+        if (claimed.count === 0) return null;
+
+        const reason = change.reason ?? 'scheduled_change';
+        const activeSubscriptions = await tx.userMembershipSubscription.findMany({
+          where: { userId: change.userId, status: 'active' },
+          select: { id: true, userId: true, membershipPlanId: true },
+        });
         await tx.userMembershipSubscription.updateMany({
           where: {
             userId: change.userId,
@@ -2161,30 +2341,57 @@ export class MembershipService {
           },
         });
 
+        // 与 getUserTransitionPreview 的 downgradeEffect 同口径：生效时刻前到期的会员积分全部清零。
+        const closing = activeSubscriptions.find((sub) => sub.id === change.currentSubscriptionId)
+          ?? activeSubscriptions[0];
+        const lotResult = closing
+          ? await this.expireSubscriptionLots(
+              tx,
+              closing,
+              now,
+              reason,
+              this.buildDowngradeExpiringLotFilter(change.userId, change.effectiveAt),
+            )
+          : { expiredLots: 0, expiredCredits: 0 };
+
         const snapshot = this.buildPlanSnapshot(plan, null);
         const cycleDays = this.resolveCycleDays(snapshot.billingCycle, policy.membershipRefreshCycleDays);
-        await this.createSubscriptionCycle(tx, {
+        const subscription = await this.createSubscriptionCycle(tx, {
           userId: change.userId,
           plan,
           snapshot,
           startAt: change.effectiveAt,
           endAt: this.addDays(change.effectiveAt, cycleDays),
-          reason: change.reason ?? 'scheduled_change',
+          reason,
+          businessType: 'membership_scheduled_change',
         });
 
         await tx.membershipSubscriptionChange.update({
           where: { id: change.id },
           data: {
-            status: 'applied',
-            appliedAt: now,
+            metadata: this.mergeJsonObject(change.metadata, {
+              applied: {
+                subscriptionId: subscription.id,
+                expiredLots: lotResult.expiredLots,
+                expiredCredits: lotResult.expiredCredits,
+                grantedCredits: snapshot.monthlyQuotaCredits + snapshot.signupBonusCredits,
+                periodStartAt: subscription.currentPeriodStartAt.toISOString(),
+                periodEndAt: subscription.currentPeriodEndAt.toISOString(),
+              },
+            }),
           },
         });
 
+        return lotResult;
+      });
+
+      if (applied) {
         appliedCount += 1;
+        expiredCredits += applied.expiredCredits;
       }
+    }
 
-      return { appliedCount };
-    });
+    return { appliedCount, expiredCredits };
   }
 
   private async adminApplyMembershipChangeNow(params: {
@@ -2281,6 +2488,7 @@ export class MembershipService {
       startAt: Date;
       endAt: Date;
       reason: string;
+      businessType?: string;
     },
   ) {
     const subscription = await tx.userMembershipSubscription.create({
@@ -2347,7 +2555,7 @@ export class MembershipService {
         balanceAfter,
         description: `${params.snapshot.name} 生效发放积分`,
         creditLotId: lot.id,
-        businessType: 'membership_admin_change',
+        businessType: params.businessType ?? 'membership_admin_change',
         subscriptionId: subscription.id,
         membershipPlanId: params.plan.id,
         metadata: {
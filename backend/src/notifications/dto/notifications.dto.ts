@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsArray, IsBoolean, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const NOTIFICATION_TYPES = [
+  'mention',
+  'team_invite',
+  'task_completed',
+  'credits_expiring',
+  'project_budget',
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export class ListNotificationsQueryDto {
+  @ApiPropertyOptional({ description: '上一页最后一条通知的 id' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Transform(({ value }) => (value === undefined ? undefined : Number(value)))
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  unreadOnly?: boolean;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({ enum: NOTIFICATION_TYPES, isArray: true })
+  @IsArray()
+  @IsIn(NOTIFICATION_TYPES as unknown as string[], { each: true })
+  mutedTypes!: NotificationType[];
+}
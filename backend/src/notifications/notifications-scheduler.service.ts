@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreditsService } from '../credits/credits.service';
+import { NotificationsService } from './notifications.service';
+
+// 提前多久提醒积分过期
+const CREDITS_EXPIRING_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const CANDIDATE_BATCH_SIZE = 500;
+
+@Injectable()
+export class NotificationsSchedulerService {
+  private readonly logger = new Logger(NotificationsSchedulerService.name);
+  private creditsExpiringRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly creditsService: CreditsService,
+    private readonly notifications: NotificationsService,
+  ) {}
+
+  /**
+   * 每天上午 10 点提醒即将过期的积分。
+   * 候选用户来自窗口内到期的积分批次，金额口径与「即将过期」接口（getExpiringCredits）一致；
+   * dedupeKey 按最早到期日去重，同一批到期只提醒一次。
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_10AM)
+  async handleCreditsExpiringReminder() {
+    if (this.creditsExpiringRunning) {
+      this.logger.warn('跳过积分过期提醒：上一次任务尚未完成');
+      return;
+    }
+
+    this.creditsExpiringRunning = true;
+    try {
+      const now = new Date();
+      const windowEnd = new Date(now.getTime() + CREDITS_EXPIRING_WINDOW_MS);
+      let cursor: string | undefined;
+      let notified = 0;
+
+      for (;;) {
+        const accounts = await this.prisma.creditAccount.findMany({
+          where: {
+            lots: {
+              some: {
+                status: 'active',
+                remainingAmount: { gt: 0 },
+                expiresAt: { gt: now, lte: windowEnd },
+              },
+            },
+          },
+          select: { id: true, userId: true },
+          orderBy: { id: 'asc' },
+          take: CANDIDATE_BATCH_SIZE,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+        if (accounts.length === 0) break;
+        cursor = accounts[accounts.length - 1].id;
+
+        for (const { userId } of accounts) {
+          const expiring = await this.creditsService.getExpiringCredits(userId);
+          const due = expiring.expiringDetails.filter(
+            (detail) => detail.expiresAt > now && detail.expiresAt <= windowEnd,
+          );
+          const amount = due.reduce((sum, detail) => sum + detail.amount, 0);
+          if (amount <= 0) continue;
+          const earliest = due[0].expiresAt;
+          const result = await this.notifications.notify({
+            userId,
+            type: 'credits_expiring',
+            data: { amount, expiresAt: earliest.toISOString() },
+            dedupeKey: `credits_expiring:${earliest.toISOString().slice(0, 10)}`,
+          });
+          if (result) notified += 1;
+        }
+
+        if (accounts.length < CANDIDATE_BATCH_SIZE) break;
+      }
+
+      this.logger.log(`积分过期提醒完成: notified=${notified}`);
+    } catch (error) {
+      this.logger.error('积分过期提醒失败:', error);
+    } finally {
+      this.creditsExpiringRunning = false;
+    }
+  }
+}
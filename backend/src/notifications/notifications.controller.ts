@@ -0,0 +1,46 @@
+import { Body, Controller, Get, Param, Post, Put, Query, Req, UseGuards } from '@nestjs/common';
+import { ApiCookieAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { NotificationsService } from './notifications.service';
+import {
+  ListNotificationsQueryDto,
+  UpdateNotificationPreferencesDto,
+} from './dto/notifications.dto';
+
+@ApiTags('notifications')
+@ApiCookieAuth('access_token')
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notifications: NotificationsService) {}
+
+  @Get()
+  list(@Req() req: any, @Query() query: ListNotificationsQueryDto) {
+    return this.notifications.list(req.user.sub, query);
+  }
+
+  @Get('unread-count')
+  async unreadCount(@Req() req: any) {
+    return { unreadCount: await this.notifications.getUnreadCount(req.user.sub) };
+  }
+
+  @Post('read-all')
+  markAllRead(@Req() req: any) {
+    return this.notifications.markAllRead(req.user.sub);
+  }
+
+  @Post(':id/read')
+  markRead(@Req() req: any, @Param('id') id: string) {
+    return this.notifications.markRead(req.user.sub, id);
+  }
+
+  @Get('preferences')
+  getPreferences(@Req() req: any) {
+    return this.notifications.getPreferences(req.user.sub);
+  }
+
+  @Put('preferences')
+  updatePreferences(@Req() req: any, @Body() dto: UpdateNotificationPreferencesDto) {
+    return this.notifications.updatePreferences(req.user.sub, dto.mutedTypes);
+  }
+}
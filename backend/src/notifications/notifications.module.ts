@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { TeamCollabModule } from '../team-collab/team-collab.module';
+import { CreditsModule } from '../credits/credits.module';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+import { NotificationsSchedulerService } from './notifications-scheduler.service';
+
+// 全局模块：评论、团队邀请、生成任务等多个模块作为生产方注入 NotificationsService
+@Global()
+@Module({
+  imports: [TeamCollabModule, CreditsModule],
+  controllers: [NotificationsController],
+  providers: [NotificationsService, NotificationsSchedulerService],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,181 @@
+import { Injectable, Logger, NotFoundException, Optional } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { Notification } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CollabEventBus,
+  channelForUser,
+} from '../team-collab/collab-event-bus.service';
+import type { CollabEnvelope, NotificationPushPayload } from '../team-collab/types';
+import {
+  ListNotificationsQueryDto,
+  NOTIFICATION_TYPES,
+  NotificationType,
+} from './dto/notifications.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export interface NotificationDto {
+  id: string;
+  type: string;
+  actorId: string | null;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotifyInput {
+  userId: string;
+  type: NotificationType;
+  actorId?: string | null;
+  data?: Record<string, unknown>;
+  /** 同一用户同一 dedupeKey 只落一条（定时任务重复触发时幂等） */
+  dedupeKey?: string;
+}
+
+/**
+ * 站内通知：落库 + 通过 CollabEventBus 的 user:{userId} 频道实时推送
+ * （团队实时 SSE 流与 WS 网关都订阅了该频道）。
+ *
+ * 生产方（评论 @、团队邀请、长视频任务完成、积分即将过期）统一调用 notify；
+ * 通知是附带行为，任何失败只记日志，不影响调用方主流程。
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional() private readonly bus?: CollabEventBus,
+  ) {}
+
+  private toDto(n: Notification): NotificationDto {
+    return {
+      id: n.id,
+      type: n.type,
+      actorId: n.actorId,
+      data: (n.data as Record<string, unknown>) ?? {},
+      readAt: n.readAt?.toISOString() ?? null,
+      createdAt: n.createdAt.toISOString(),
+    };
+  }
+
+  // ── 生产方 ────────────────────────────────────────────────────────────────
+
+  async notify(input: NotifyInput): Promise<NotificationDto | null> {
+    try {
+      if (input.actorId && input.actorId === input.userId) return null;
+      const muted = await this.getMutedTypes(input.userId);
+      if (muted.includes(input.type)) return null;
+
+      const notification = await this.prisma.notification.create({
+        data: {
+          userId: input.userId,
+          type: input.type,
+          actorId: input.actorId ?? null,
+          data: (input.data ?? {}) as Prisma.InputJsonValue,
+          dedupeKey: input.dedupeKey ?? null,
+        },
+      });
+      const dto = this.toDto(notification);
+      await this.push(input.userId, dto);
+      return dto;
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+        return null; // dedupeKey 已存在
+      }
+      this.logger.warn(
+        `notify failed (user=${input.userId}, type=${input.type}): ${(err as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  async notifyMany(userIds: string[], input: Omit<NotifyInput, 'userId'>): Promise<void> {
+    for (const userId of new Set(userIds)) {
+      await this.notify({ ...input, userId });
+    }
+  }
+
+  private async push(userId: string, notification: NotificationDto): Promise<void> {
+    if (!this.bus) return;
+    const envelope: CollabEnvelope<NotificationPushPayload> = {
+      type: 'notification',
+      payload: { notification, unreadCount: await this.getUnreadCount(userId) },
+      ts: Date.now(),
+    };
+    await this.bus.publishTo(channelForUser(userId), envelope).catch(() => undefined);
+  }
+
+  // ── 读取 / 已读 ────────────────────────────────────────────────────────────
+
+  async list(userId: string, query: ListNotificationsQueryDto) {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const rows = await this.prisma.notification.findMany({
+      where: { userId, ...(query.unreadOnly ? { readAt: null } : {}) },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map((n) => this.toDto(n));
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1]?.id ?? null : null,
+      unreadCount: await this.getUnreadCount(userId),
+    };
+  }
+
+  getUnreadCount(userId: string): Promise<number> {
+    return this.prisma.notification.count({ where: { userId, readAt: null } });
+  }
+
+  async markRead(userId: string, id: string): Promise<{ unreadCount: number }> {
+    const result = await this.prisma.notification.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    if (result.count === 0) {
+      const exists = await this.prisma.notification.findFirst({
+        where: { id, userId },
+        select: { id: true },
+      });
+      if (!exists) throw new NotFoundException('通知不存在');
+    }
+    return { unreadCount: await this.getUnreadCount(userId) };
+  }
+
+  async markAllRead(userId: string): Promise<{ updated: number; unreadCount: number }> {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return { updated: result.count, unreadCount: 0 };
+  }
+
+  // ── 偏好 ──────────────────────────────────────────────────────────────────
+
+  async getMutedTypes(userId: string): Promise<NotificationType[]> {
+    const pref = await this.prisma.notificationPreference.findUnique({
+      where: { userId },
+      select: { mutedTypes: true },
+    });
+    return (pref?.mutedTypes ?? []).filter((type): type is NotificationType =>
+      (NOTIFICATION_TYPES as readonly string[]).includes(type),
+    );
+  }
+
+  async getPreferences(userId: string) {
+    return { mutedTypes: await this.getMutedTypes(userId) };
+  }
+
+  async updatePreferences(userId: string, mutedTypes: NotificationType[]) {
+    const unique = NOTIFICATION_TYPES.filter((type) => mutedTypes.includes(type));
+    await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, mutedTypes: unique },
+      update: { mutedTypes: unique },
+    });
+    return { mutedTypes: unique };
+  }
+}
@@ -606,6 +606,25 @@ export class OssService {
     return { key, url: this.publicUrl(key) };
   }
 
+  async deleteObject(key: string): Promise<void> {
+    const normalizedKey = typeof key === 'string' ? key.trim().replace(/^\/+/, '') : '';
+    if (!normalizedKey) throw new Error('Invalid object key');
+    if (!this.isOssEnabled()) {
+      this.logDisabledOnce();
+      return;
+    }
+
+    if (this.isTosHost(this.resolveObjectHost())) {
+      await this.withTosSecretCandidates(async (client) => {
+        await client.deleteObject({ key: normalizedKey });
+      });
+      return;
+    }
+
+    const client = this.client();
+    await client.delete(normalizedKey);
+  }
+
   async putJSON(
     key: string,
     data: unknown,
@@ -104,6 +104,7 @@ export class VideoGifController {
         ipAddress: req?.ip,
         userAgent: req?.headers?.['user-agent'],
         idempotencyKey,
+        projectId: req?.headers?.['x-project-id'] || dto.projectId,
       });
       apiUsageId = chargeHandle.apiUsageId;
 
@@ -344,7 +344,7 @@ export class PaymentService implements OnModuleInit {
     });
     if (!plan) throw new NotFoundException('会员套餐不存在');
     if (preview.actionType === 'downgrade') {
-      throw new BadRequestException('会员套餐不支持降级');
+      throw new BadRequestException('降级无需支付，请使用预约降级（当前周期结束后生效）');
     }
 
     return this.createOrder(userId, {
@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  MAX_BUDGET_ALERT_THRESHOLDS,
+  MAX_PROJECT_BUDGET_CREDITS,
+} from '../../credits/project-credit-budget';
+
+export class UpsertProjectBudgetDto {
+  @ApiProperty({ description: '项目积分预算（统计归属该项目、未失败的用量）' })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PROJECT_BUDGET_CREDITS)
+  limitCredits!: number;
+
+  @ApiPropertyOptional({ type: [Number], description: '告警阈值（百分比 1–100），默认 [50, 80, 100]' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_BUDGET_ALERT_THRESHOLDS)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(100, { each: true })
+  alertThresholds?: number[];
+
+  @ApiPropertyOptional({ description: '超出预算时拒绝新的生成，默认 true' })
+  @IsOptional()
+  @IsBoolean()
+  blockWhenExceeded?: boolean;
+}
+
+export interface ProjectBudgetDto {
+  projectId: string;
+  limitCredits: number;
+  alertThresholds: number[];
+  blockWhenExceeded: boolean;
+  alertedThreshold: number;
+  spentCredits: number;
+  usagePercent: number;
+  updatedAt: string;
+}
+
+export interface ProjectCreditUsageRow {
+  key: string | null;
+  label: string | null;
+  credits: number;
+  calls: number;
+}
+
+export interface ProjectCreditUsageDto {
+  projectId: string;
+  totalCredits: number;
+  totalCalls: number;
+  byModel: ProjectCreditUsageRow[];
+  byNode: ProjectCreditUsageRow[];
+  budget: ProjectBudgetDto | null;
+}
@@ -0,0 +1,34 @@
+import { Body, Controller, Delete, Get, Param, Put, Req, UseGuards } from '@nestjs/common';
+import { ApiCookieAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { UpsertProjectBudgetDto } from './dto/project-budget.dto';
+import { ProjectBudgetService } from './project-budget.service';
+
+@ApiTags('project-budget')
+@ApiCookieAuth('access_token')
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId')
+export class ProjectBudgetController {
+  constructor(private readonly budgets: ProjectBudgetService) {}
+
+  @Get('credit-budget')
+  async getBudget(@Req() req: any, @Param('projectId') projectId: string) {
+    return { budget: await this.budgets.getBudget(req.user.sub, projectId, req.user.role) };
+  }
+
+  @Put('credit-budget')
+  upsertBudget(@Req() req: any, @Param('projectId') projectId: string, @Body() dto: UpsertProjectBudgetDto) {
+    return this.budgets.upsertBudget(req.user.sub, projectId, dto, req.user.role);
+  }
+
+  @Delete('credit-budget')
+  async removeBudget(@Req() req: any, @Param('projectId') projectId: string) {
+    await this.budgets.removeBudget(req.user.sub, projectId, req.user.role);
+    return { ok: true };
+  }
+
+  @Get('credit-usage')
+  getUsage(@Req() req: any, @Param('projectId') projectId: string) {
+    return this.budgets.getUsage(req.user.sub, projectId, req.user.role);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProjectBudgetController } from './project-budget.controller';
+import { ProjectBudgetService } from './project-budget.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ProjectBudgetController],
+  providers: [ProjectBudgetService],
+  exports: [ProjectBudgetService],
+})
+export class ProjectBudgetModule {}
@@ -0,0 +1,214 @@
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import type { ProjectCreditBudget } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { hasProjectAccess } from '../projects/project-access.util';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ApiResponseStatus } from '../credits/dto/credits.dto';
+import type { ProjectBudgetAlert } from '../credits/credits.service';
+import { budgetUsagePercent, normalizeBudgetThresholds } from '../credits/project-credit-budget';
+import {
+  ProjectBudgetDto,
+  ProjectCreditUsageDto,
+  ProjectCreditUsageRow,
+  UpsertProjectBudgetDto,
+} from './dto/project-budget.dto';
+
+/** 明细分组最多返回的行数（按积分降序） */
+const MAX_BREAKDOWN_ROWS = 100;
+
+/**
+ * 项目积分预算与成本明细。预扣时的拦截在 CreditsService.preDeductCredits 事务内完成，
+ * 这里负责预算配置、按模型 / 节点的用量汇总，以及阈值告警通知。
+ */
+@Injectable()
+export class ProjectBudgetService {
+  private readonly logger = new Logger(ProjectBudgetService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: NotificationsService,
+  ) {}
+
+  async getBudget(userId: string, projectId: string, role?: string): Promise<ProjectBudgetDto | null> {
+    await this.assertProjectAccess(userId, projectId, role);
+    const budget = await this.prisma.projectCreditBudget.findUnique({ where: { projectId } });
+    return budget ? this.toDto(budget, await this.sumSpent(projectId)) : null;
+  }
+
+  /** 设置 / 调整预算：只有项目所有者或管理员可改；额度或阈值变化时清零已告警阈值 */
+  async upsertBudget(
+    userId: string,
+    projectId: string,
+    dto: UpsertProjectBudgetDto,
+    role?: string,
+  ): Promise<ProjectBudgetDto> {
+    await this.assertProjectOwner(userId, projectId, role);
+    const alertThresholds = normalizeBudgetThresholds(dto.alertThresholds);
+    const blockWhenExceeded = dto.blockWhenExceeded ?? true;
+    const existing = await this.prisma.projectCreditBudget.findUnique({ where: { projectId } });
+    const resetAlerts =
+      !existing ||
+      existing.limitCredits !== dto.limitCredits ||
+      existing.alertThresholds.join(',') !== alertThresholds.join(',');
+
+    const budget = await this.prisma.projectCreditBudget.upsert({
+      where: { projectId },
+      create: {
+        projectId,
+        limitCredits: dto.limitCredits,
+        alertThresholds,
+        blockWhenExceeded,
+        updatedByUserId: userId,
+      },
+      update: {
+        limitCredits: dto.limitCredits,
+        alertThresholds,
+        blockWhenExceeded,
+        updatedByUserId: userId,
+        ...(resetAlerts ? { alertedThreshold: 0 } : {}),
+      },
+    });
+    const spent = await this.sumSpent(projectId);
+    // 调整后已在某些阈值之上的，不补发历史告警，直接视为已通知
+    if (resetAlerts) {
+      const percent = budgetUsagePercent(spent, budget.limitCredits);
+      const reached = alertThresholds.filter((t) => percent >= t).pop() ?? 0;
+      if (reached > 0) {
+        const updated = await this.prisma.projectCreditBudget.update({
+          where: { projectId },
+          data: { alertedThreshold: reached },
+        });
+        return this.toDto(updated, spent);
+      }
+    }
+    return this.toDto(budget, spent);
+  }
+
+  async removeBudget(userId: string, projectId: string, role?: string): Promise<void> {
+    await this.assertProjectOwner(userId, projectId, role);
+    await this.prisma.projectCreditBudget.deleteMany({ where: { projectId } });
+  }
+
+  /** 项目成本明细：按模型、按 Flow 节点汇总未失败的用量 */
+  async getUsage(userId: string, projectId: string, role?: string): Promise<ProjectCreditUsageDto> {
+    await this.assertProjectAccess(userId, projectId, role);
+    const where = { projectId, responseStatus: { not: ApiResponseStatus.FAILED } };
+
+    const [byModelRaw, byNodeRaw, budget] = await Promise.all([
+      this.prisma.apiUsageRecord.groupBy({
+        by: ['model', 'serviceName'],
+        where,
+        _sum: { creditsUsed: true },
+        _count: { _all: true },
+      }),
+      this.prisma.apiUsageRecord.groupBy({
+        by: ['nodeId'],
+        where,
+        _sum: { creditsUsed: true },
+        _count: { _all: true },
+      }),
+      this.prisma.projectCreditBudget.findUnique({ where: { projectId } }),
+    ]);
+
+    // 同一模型可能对应多个 serviceName（分辨率档位等），合并到模型一行，label 取积分最多的 serviceName
+    const models = new Map<string, ProjectCreditUsageRow & { labelCredits: number }>();
+    for (const row of byModelRaw) {
+      const key = row.model || row.serviceName;
+      const credits = row._sum.creditsUsed ?? 0;
+      const entry = models.get(key) ?? { key, label: null, credits: 0, calls: 0, labelCredits: -1 };
+      entry.credits += credits;
+      entry.calls += row._count._all;
+      if (credits > entry.labelCredits) {
+        entry.label = row.serviceName;
+        entry.labelCredits = credits;
+      }
+      models.set(key, entry);
+    }
+    const byModel = [...models.values()]
+      .map(({ labelCredits: _labelCredits, ...row }) => row)
+      .sort((a, b) => b.credits - a.credits)
+      .slice(0, MAX_BREAKDOWN_ROWS);
+    const byNode = byNodeRaw
+      .map((row) => ({
+        key: row.nodeId,
+        label: null,
+        credits: row._sum.creditsUsed ?? 0,
+        calls: row._count._all,
+      }))
+      .sort((a, b) => b.credits - a.credits)
+      .slice(0, MAX_BREAKDOWN_ROWS);
+
+    const totalCredits = byModelRaw.reduce((sum, row) => sum + (row._sum.creditsUsed ?? 0), 0);
+    const totalCalls = byModelRaw.reduce((sum, row) => sum + row._count._all, 0);
+    return {
+      projectId,
+      totalCredits,
+      totalCalls,
+      byModel,
+      byNode,
+      budget: budget ? this.toDto(budget, totalCredits) : null,
+    };
+  }
+
+  /** 预扣跨过告警阈值后由 CreditChargeService 调用：通知项目所有者与本次发起人（尽力而为） */
+  async notifyThresholdCrossed(alert: ProjectBudgetAlert, actorUserId: string): Promise<void> {
+    try {
+      const project = await this.prisma.project.findUnique({
+        where: { id: alert.projectId },
+        select: { userId: true, name: true },
+      });
+      if (!project) return;
+      await this.notifications.notifyMany([project.userId, actorUserId], {
+        type: 'project_budget',
+        data: {
+          projectId: alert.projectId,
+          projectName: project.name,
+          threshold: alert.threshold,
+          spent: alert.spent,
+          limitCredits: alert.limitCredits,
+        },
+        dedupeKey: `project_budget:${alert.projectId}:${alert.limitCredits}:${alert.threshold}`,
+      });
+    } catch (err) {
+      this.logger.warn(`project budget alert failed (project=${alert.projectId}): ${(err as Error).message}`);
+    }
+  }
+
+  private async sumSpent(projectId: string): Promise<number> {
+    const usage = await this.prisma.apiUsageRecord.aggregate({
+      where: { projectId, responseStatus: { not: ApiResponseStatus.FAILED } },
+      _sum: { creditsUsed: true },
+    });
+    return usage._sum.creditsUsed ?? 0;
+  }
+
+  // 与 ProjectsService.assertProjectAccess 同一规则；本模块经 TeamCreditsModule 被 ProjectsModule 间接依赖，不能反向注入
+  private async assertProjectAccess(userId: string, projectId: string, role?: string): Promise<void> {
+    if (!(await hasProjectAccess(this.prisma, userId, projectId, role))) {
+      throw new NotFoundException('项目不存在');
+    }
+  }
+
+  private async assertProjectOwner(userId: string, projectId: string, role?: string): Promise<void> {
+    await this.assertProjectAccess(userId, projectId, role);
+    if (typeof role === 'string' && role.toLowerCase() === 'admin') return;
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { userId: true },
+    });
+    if (project?.userId !== userId) throw new ForbiddenException('只有项目所有者可以设置项目预算');
+  }
+
+  private toDto(budget: ProjectCreditBudget, spent: number): ProjectBudgetDto {
+    return {
+      projectId: budget.projectId,
+      limitCredits: budget.limitCredits,
+      alertThresholds: normalizeBudgetThresholds(budget.alertThresholds),
+      blockWhenExceeded: budget.blockWhenExceeded,
+      alertedThreshold: budget.alertedThreshold,
+      spentCredits: spent,
+      usagePercent: budgetUsagePercent(spent, budget.limitCredits),
+      updatedAt: budget.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsIn, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { PROJECT_SHARE_ACCESS, ProjectShareAccess } from '../project-share-links';
+
+export class CreateProjectShareLinkDto {
+  @ApiPropertyOptional({ enum: PROJECT_SHARE_ACCESS, description: 'view 仅查看；comment 可查看评论，登录后可评论' })
+  @IsOptional()
+  @IsIn(PROJECT_SHARE_ACCESS as unknown as string[])
+  access?: ProjectShareAccess;
+
+  @ApiPropertyOptional({ description: '访问密码；不传则无需密码' })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(64)
+  password?: string;
+
+  @ApiPropertyOptional({ description: '过期时间（ISO 8601）；不传则永不过期，最长一年' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
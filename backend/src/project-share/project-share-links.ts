@@ -0,0 +1,88 @@
+/**
+ * 项目公开分享链接的纯函数部分（token / 状态判定 / 内容脱敏），无 Nest 依赖，
+ * 便于 scripts/verify-project-share.ts 校验。
+ */
+import * as crypto from 'crypto';
+
+export const PROJECT_SHARE_ACCESS = ['view', 'comment'] as const;
+export type ProjectShareAccess = (typeof PROJECT_SHARE_ACCESS)[number];
+
+export type ProjectShareLinkState = 'active' | 'expired' | 'revoked';
+
+/** 有效期上限：一年 */
+export const MAX_SHARE_LINK_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** 32 字节随机数的 base64url，约 43 个字符，不可枚举。 */
+export function generateShareToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/** 仅允许 base64url 字符，避免把任意字符串拿去查库 */
+export function isWellFormedShareToken(token: unknown): token is string {
+  return typeof token === 'string' && /^[A-Za-z0-9_-]{20,128}$/.test(token);
+}
+
+export function normalizeShareAccess(access: unknown): ProjectShareAccess {
+  return access === 'comment' ? 'comment' : 'view';
+}
+
+export function resolveShareLinkState(
+  link: { expiresAt: Date | null; revokedAt: Date | null },
+  now: Date = new Date(),
+): ProjectShareLinkState {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt.getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+/**
+ * 校验创建时传入的过期时间：必须晚于当前时间且不超过一年。
+ * 返回 null 表示永不过期；非法时返回错误文案。
+ */
+export function parseShareExpiry(
+  raw: string | undefined | null,
+  now: Date = new Date(),
+): { expiresAt: Date | null } | { error: string } {
+  if (raw === undefined || raw === null || raw === '') return { expiresAt: null };
+  const expiresAt = new Date(raw);
+  if (Number.isNaN(expiresAt.getTime())) return { error: '过期时间格式无效' };
+  if (expiresAt.getTime() <= now.getTime()) return { error: '过期时间必须晚于当前时间' };
+  if (expiresAt.getTime() - now.getTime() > MAX_SHARE_LINK_LIFETIME_MS) {
+    return { error: '分享链接有效期最长一年' };
+  }
+  return { expiresAt };
+}
+
+/** 字段名命中即整体移除：凭据类字段不应出现在公开内容里 */
+const SECRET_KEY_PATTERN =
+  /^(api[-_]?key|api[-_]?secret|secret|secret[-_]?key|token|access[-_]?token|refresh[-_]?token|password|authorization|cookie|credentials?)$/i;
+
+/** 只属于编辑者的部分（AI 对话记录、保存元数据），公开分享时整体去掉 */
+const PRIVATE_CONTENT_KEYS = ['aiChatSessions', 'aiChatActiveSessionId', 'meta'];
+
+const redactValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      if (SECRET_KEY_PATTERN.test(key)) return;
+      out[key] = redactValue(child);
+    });
+    return out;
+  }
+  return value;
+};
+
+/**
+ * 公开分享的内容脱敏：去掉编辑者私有字段，并递归移除 flow / assets 中疑似凭据的字段。
+ * paperJson 是 Paper 序列化字符串，只含图形与资源地址，原样保留。
+ */
+export function redactSharedContent<T extends Record<string, any> | null>(content: T): T {
+  if (!content || typeof content !== 'object') return content;
+  const out: Record<string, unknown> = {};
+  Object.entries(content).forEach(([key, value]) => {
+    if (PRIVATE_CONTENT_KEYS.includes(key)) return;
+    out[key] = key === 'paperJson' ? value : redactValue(value);
+  });
+  return out as T;
+}
@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiCookieAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { CreateReplyDto, CreateThreadDto } from '../canvas-comments/dto/canvas-comment.dto';
+import { CreateProjectShareLinkDto } from './dto/project-share.dto';
+import { ProjectShareService } from './project-share.service';
+
+/** 分享链接密码通过请求头传递，避免出现在 URL / 访问日志里 */
+const PASSWORD_HEADER = 'x-share-password';
+
+@ApiTags('project-share')
+@ApiCookieAuth('access_token')
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/share-links')
+export class ProjectShareLinksController {
+  constructor(private readonly shares: ProjectShareService) {}
+
+  @Get()
+  list(@Req() req: any, @Param('projectId') projectId: string) {
+    return this.shares.list(req.user.sub, projectId, req.user.role);
+  }
+
+  @Post()
+  create(@Req() req: any, @Param('projectId') projectId: string, @Body() dto: CreateProjectShareLinkDto) {
+    return this.shares.create(req.user.sub, projectId, dto, req.user.role);
+  }
+
+  @Delete(':linkId')
+  async revoke(@Req() req: any, @Param('projectId') projectId: string, @Param('linkId') linkId: string) {
+    await this.shares.revoke(req.user.sub, projectId, linkId, req.user.role);
+    return { ok: true };
+  }
+}
+
+/** 公开访问：查看不需要登录；comment 权限的链接发表评论需要登录。 */
+@ApiTags('project-share')
+@Controller('share')
+export class PublicShareController {
+  constructor(private readonly shares: ProjectShareService) {}
+
+  @Get(':token')
+  get(@Req() req: any, @Param('token') token: string, @Headers(PASSWORD_HEADER) password?: string) {
+    return this.shares.getSharedProject(token, password || undefined, req.ip);
+  }
+
+  @Get(':token/comments')
+  listComments(@Req() req: any, @Param('token') token: string, @Headers(PASSWORD_HEADER) password?: string) {
+    return this.shares.listComments(token, password || undefined, req.ip);
+  }
+
+  @ApiCookieAuth('access_token')
+  @UseGuards(JwtAuthGuard)
+  @Post(':token/comments')
+  createThread(
+    @Req() req: any,
+    @Param('token') token: string,
+    @Headers(PASSWORD_HEADER) password: string | undefined,
+    @Body() dto: CreateThreadDto,
+  ) {
+    return this.shares.createThread(token, password || undefined, req.ip, req.user.sub, dto);
+  }
+
+  @ApiCookieAuth('access_token')
+  @UseGuards(JwtAuthGuard)
+  @Post(':token/comments/:threadId/replies')
+  reply(
+    @Req() req: any,
+    @Param('token') token: string,
+    @Param('threadId') threadId: string,
+    @Headers(PASSWORD_HEADER) password: string | undefined,
+    @Body() dto: CreateReplyDto,
+  ) {
+    return this.shares.addReply(token, password || undefined, req.ip, req.user.sub, threadId, dto);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { CanvasCommentsModule } from '../canvas-comments/canvas-comments.module';
+import { ProjectShareLinksController, PublicShareController } from './project-share.controller';
+import { ProjectShareService } from './project-share.service';
+import { ShareAttemptLimitService } from './share-attempt-limit.service';
+
+@Module({
+  imports: [PrismaModule, ProjectsModule, CanvasCommentsModule],
+  controllers: [ProjectShareLinksController, PublicShareController],
+  providers: [ProjectShareService, ShareAttemptLimitService],
+})
+export class ProjectShareModule {}
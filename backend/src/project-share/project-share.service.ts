@@ -0,0 +1,214 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import type { ProjectShareLink } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProjectsService } from '../projects/projects.service';
+import { CanvasCommentsService } from '../canvas-comments/canvas-comments.service';
+import { CreateProjectShareLinkDto } from './dto/project-share.dto';
+import { ShareAttemptLimitService } from './share-attempt-limit.service';
+import {
+  generateShareToken,
+  isWellFormedShareToken,
+  normalizeShareAccess,
+  parseShareExpiry,
+  redactSharedContent,
+  resolveShareLinkState,
+  type ProjectShareAccess,
+  type ProjectShareLinkState,
+} from './project-share-links';
+
+const MAX_ACTIVE_LINKS_PER_PROJECT = 50;
+// 访问计数只做粗粒度统计，同一链接每分钟至多写一次库
+const VIEW_TOUCH_THROTTLE_MS = 60_000;
+
+export interface ProjectShareLinkDto {
+  id: string;
+  projectId: string;
+  token: string;
+  access: ProjectShareAccess;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  state: ProjectShareLinkState;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+@Injectable()
+export class ProjectShareService {
+  private readonly lastTouchedAt = new Map<string, number>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly projects: ProjectsService,
+    private readonly comments: CanvasCommentsService,
+    private readonly attempts: ShareAttemptLimitService,
+  ) {}
+
+  // ---- 管理（需登录且有项目权限） ----
+
+  async list(userId: string, projectId: string, role?: string): Promise<ProjectShareLinkDto[]> {
+    await this.projects.assertProjectAccess(userId, projectId, role);
+    const links = await this.prisma.projectShareLink.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return links.map((link) => this.toDto(link));
+  }
+
+  async create(
+    userId: string,
+    projectId: string,
+    dto: CreateProjectShareLinkDto,
+    role?: string,
+  ): Promise<ProjectShareLinkDto> {
+    await this.projects.assertProjectAccess(userId, projectId, role);
+    const expiry = parseShareExpiry(dto.expiresAt);
+    if ('error' in expiry) throw new BadRequestException(expiry.error);
+
+    const activeCount = await this.prisma.projectShareLink.count({
+      where: {
+        projectId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+    if (activeCount >= MAX_ACTIVE_LINKS_PER_PROJECT) {
+      throw new BadRequestException(`每个项目最多 ${MAX_ACTIVE_LINKS_PER_PROJECT} 个有效分享链接`);
+    }
+
+    const password = dto.password?.trim();
+    const link = await this.prisma.projectShareLink.create({
+      data: {
+        token: generateShareToken(),
+        projectId,
+        access: normalizeShareAccess(dto.access),
+        passwordHash: password ? await bcrypt.hash(password, 10) : null,
+        expiresAt: expiry.expiresAt,
+        createdByUserId: userId,
+      },
+    });
+    return this.toDto(link);
+  }
+
+  async revoke(userId: string, projectId: string, linkId: string, role?: string): Promise<void> {
+    await this.projects.assertProjectAccess(userId, projectId, role);
+    const link = await this.prisma.projectShareLink.findUnique({ where: { id: linkId } });
+    if (!link || link.projectId !== projectId) throw new NotFoundException('分享链接不存在');
+    if (link.revokedAt) return;
+    await this.prisma.projectShareLink.update({
+      where: { id: linkId },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // ---- 公开访问（无需登录，凭 token + 可选密码） ----
+
+  async getSharedProject(token: string, password: string | undefined, ip?: string) {
+    const link = await this.resolveLink(token, password, ip);
+    const { name, content, updatedAt } = await this.projects.getSharedContent(link.projectId);
+    this.touch(link);
+    return {
+      project: { name },
+      access: normalizeShareAccess(link.access),
+      expiresAt: link.expiresAt ? link.expiresAt.toISOString() : null,
+      updatedAt,
+      content: redactSharedContent(content as Record<string, any> | null),
+    };
+  }
+
+  async listComments(token: string, password: string | undefined, ip?: string) {
+    const link = await this.resolveLink(token, password, ip, 'comment');
+    return this.comments.listThreadsForShare(link.projectId);
+  }
+
+  async createThread(
+    token: string,
+    password: string | undefined,
+    ip: string | undefined,
+    userId: string,
+    dto: { x?: number; y?: number; nodeId?: string; body: string; imageUrls?: string[] },
+  ) {
+    const link = await this.resolveLink(token, password, ip, 'comment');
+    return this.comments.createThreadForShare(link.projectId, userId, dto);
+  }
+
+  async addReply(
+    token: string,
+    password: string | undefined,
+    ip: string | undefined,
+    userId: string,
+    threadId: string,
+    dto: { body: string; imageUrls?: string[] },
+  ) {
+    const link = await this.resolveLink(token, password, ip, 'comment');
+    return this.comments.addReplyForShare(link.projectId, threadId, userId, dto);
+  }
+
+  /**
+   * 校验 token：不存在 / 已撤销 → 404，已过期 → 410，需要密码 → 401。
+   * 撤销与不存在返回同样的错误，避免泄露链接曾经存在。
+   * 密码错误按链接与来源 IP 计数，超限后锁定一段时间（429），锁定期间不再比对密码。
+   */
+  private async resolveLink(
+    token: string,
+    password: string | undefined,
+    ip: string | undefined,
+    requiredAccess: ProjectShareAccess = 'view',
+  ): Promise<ProjectShareLink> {
+    if (!isWellFormedShareToken(token)) throw new NotFoundException('分享链接不存在或已失效');
+    const link = await this.prisma.projectShareLink.findUnique({ where: { token } });
+    const state = link ? resolveShareLinkState(link) : 'revoked';
+    if (!link || state === 'revoked') throw new NotFoundException('分享链接不存在或已失效');
+    if (state === 'expired') throw new GoneException('分享链接已过期');
+    if (link.passwordHash) {
+      if (!password) throw new UnauthorizedException('需要访问密码');
+      await this.attempts.assertAllowed(link.id, ip);
+      if (!(await bcrypt.compare(password, link.passwordHash))) {
+        await this.attempts.recordFailure(link.id, ip);
+        throw new UnauthorizedException('访问密码错误');
+      }
+    }
+    if (requiredAccess === 'comment' && normalizeShareAccess(link.access) !== 'comment') {
+      throw new ForbiddenException('此分享链接不允许评论');
+    }
+    return link;
+  }
+
+  private touch(link: ProjectShareLink): void {
+    const now = Date.now();
+    const last = this.lastTouchedAt.get(link.id) ?? 0;
+    if (now - last < VIEW_TOUCH_THROTTLE_MS) return;
+    this.lastTouchedAt.set(link.id, now);
+    this.prisma.projectShareLink
+      .update({
+        where: { id: link.id },
+        data: { viewCount: { increment: 1 }, lastViewedAt: new Date(now) },
+      })
+      .catch(() => undefined);
+  }
+
+  private toDto(link: ProjectShareLink): ProjectShareLinkDto {
+    return {
+      id: link.id,
+      projectId: link.projectId,
+      token: link.token,
+      access: normalizeShareAccess(link.access),
+      hasPassword: Boolean(link.passwordHash),
+      expiresAt: link.expiresAt ? link.expiresAt.toISOString() : null,
+      revokedAt: link.revokedAt ? link.revokedAt.toISOString() : null,
+      state: resolveShareLinkState(link),
+      viewCount: link.viewCount,
+      lastViewedAt: link.lastViewedAt ? link.lastViewedAt.toISOString() : null,
+      createdAt: link.createdAt.toISOString(),
+    };
+  }
+}
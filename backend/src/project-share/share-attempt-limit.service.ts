@@ -0,0 +1,125 @@
+import { HttpException, HttpStatus, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+let IORedis: any;
+try {
+  // optional dependency（与 register-ip-limit.service 一致）
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  IORedis = require('ioredis');
+} catch (e) {
+  IORedis = null;
+}
+
+/** 同一链接在窗口内累计的错误次数上限（所有来源合计，防分布式爆破） */
+export const SHARE_PASSWORD_MAX_FAILURES_PER_LINK = 30;
+/** 同一 IP 在窗口内累计的错误次数上限（跨链接合计） */
+export const SHARE_PASSWORD_MAX_FAILURES_PER_IP = 10;
+/** 计数窗口；达到上限后从最后一次失败起锁定同样时长 */
+const WINDOW_SEC = 15 * 60;
+const KEY_PREFIX = 'share_pw_fail:';
+
+/**
+ * 分享链接访问密码的错误次数限流与锁定：按链接、按 IP 分别计数，任一达到上限即拒绝继续尝试。
+ * 锁定期间不再做 bcrypt 比对，正确密码也不放行。
+ * 优先用 Redis（REDIS_URL）跨进程共享计数；无 Redis 时退回进程内存。
+ */
+@Injectable()
+export class ShareAttemptLimitService implements OnModuleDestroy {
+  private readonly logger = new Logger(ShareAttemptLimitService.name);
+  private redisClient: any | undefined;
+  private memoryStore = new Map<string, { count: number; expiresAt: number }>();
+
+  constructor(private readonly config: ConfigService) {
+    const redisUrl = this.config.get<string>('REDIS_URL');
+    if (redisUrl && IORedis) {
+      this.redisClient = new IORedis(redisUrl, { maxRetriesPerRequest: 2 });
+      this.redisClient.on('error', (err: Error) => {
+        this.logger.warn(`ShareAttemptLimitService Redis error: ${err.message}`);
+      });
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.redisClient?.quit().catch(() => undefined);
+  }
+
+  /** 比对密码前调用；已锁定时抛 429 */
+  async assertAllowed(linkId: string, ip?: string | null): Promise<void> {
+    const [linkFailures, ipFailures] = await Promise.all([
+      this.getCount(this.linkKey(linkId)),
+      this.isUncountableIp(ip) ? 0 : this.getCount(this.ipKey(ip as string)),
+    ]);
+    if (linkFailures >= SHARE_PASSWORD_MAX_FAILURES_PER_LINK || ipFailures >= SHARE_PASSWORD_MAX_FAILURES_PER_IP) {
+      throw new HttpException(
+        `访问密码错误次数过多，请 ${WINDOW_SEC / 60} 分钟后再试`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /** 密码错误后计数；计数失败不影响本次的 401 */
+  async recordFailure(linkId: string, ip?: string | null): Promise<void> {
+    const keys = [this.linkKey(linkId)];
+    if (!this.isUncountableIp(ip)) keys.push(this.ipKey(ip as string));
+    for (const key of keys) {
+      try {
+        await this.increment(key);
+      } catch (e) {
+        this.logger.warn(`分享密码错误计数写入失败: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+  }
+
+  private linkKey(linkId: string): string {
+    return `${KEY_PREFIX}link:${linkId}`;
+  }
+
+  private ipKey(ip: string): string {
+    return `${KEY_PREFIX}ip:${ip}`;
+  }
+
+  private isUncountableIp(ip?: string | null): boolean {
+    // 回环地址说明反代真实 IP 透传失败，按 IP 锁会把所有访客一起锁住，只保留按链接计数
+    return !ip || ip === '127.0.0.1' || ip === '::1' || ip === '::ffff:127.0.0.1';
+  }
+
+  private async getCount(key: string): Promise<number> {
+    if (this.redisClient) {
+      try {
+        const v = await this.redisClient.get(key);
+        return v ? Number(v) || 0 : 0;
+      } catch (e) {
+        this.logger.warn(`分享密码错误计数读取失败: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+    const item = this.memoryStore.get(key);
+    if (!item || item.expiresAt <= Date.now()) {
+      if (item) this.memoryStore.delete(key);
+      return 0;
+    }
+    return item.count;
+  }
+
+  /** 每次失败都把过期时间顺延一个窗口：持续尝试会一直处于锁定状态 */
+  private async increment(key: string): Promise<void> {
+    if (this.redisClient) {
+      await this.redisClient.incr(key);
+      await this.redisClient.expire(key, WINDOW_SEC);
+      return;
+    }
+    const now = Date.now();
+    const item = this.memoryStore.get(key);
+    if (item && item.expiresAt > now) {
+      item.count += 1;
+      item.expiresAt = now + WINDOW_SEC * 1000;
+    } else {
+      this.memoryStore.set(key, { count: 1, expiresAt: now + WINDOW_SEC * 1000 });
+    }
+    // 顺手清理过期键，避免长期堆积
+    if (this.memoryStore.size > 10000) {
+      for (const [k, v] of this.memoryStore) {
+        if (v.expiresAt <= now) this.memoryStore.delete(k);
+      }
+    }
+  }
+}
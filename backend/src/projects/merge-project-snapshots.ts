@@ -9,6 +9,9 @@
  *    incoming 没有的 id 化条目追加；无 data.id 的手绘矢量以 incoming 为准。
  *  - 标量字段（canvas 视口、activeLayerId、meta、updatedAt）取 incoming。
  *
+ * 能取到双方共同基线（客户端加载时的版本快照）时改用 mergeProjectSnapshotsThreeWay，
+ * 区分「删除」与「对方新增」，并返回冲突列表；取不到基线时仍走本并集合并。
+ *
  * 纯函数，无副作用。任何解析异常都向 incoming 退化，绝不抛错。
  */
 
@@ -177,3 +180,357 @@ export function mergeProjectSnapshots(remote: any, incoming: any): any {
   // 标量（canvas 视口 / activeLayerId / meta / updatedAt / aiChatActiveSessionId）已由 {...incoming} 取 incoming
   return merged;
 }
+
+/* ------------------------------------------------------------------ */
+/* 三方合并（带删除感知）                                               */
+/* ------------------------------------------------------------------ */
+
+/**
+ * 冲突种类（以 incoming 视角命名）：
+ *  - modify-modify：双方都改了同一字段且结果不同 → incoming 胜；
+ *  - delete-modify：incoming 删除、remote 修改 → 保留 remote 版本（删除让位于修改）；
+ *  - modify-delete：incoming 修改、remote 删除 → 保留 incoming 版本；
+ *  - add-add：双方各自新增了同 id 但内容不同的条目 → incoming 胜。
+ */
+export type ProjectMergeConflictKind = 'modify-modify' | 'delete-modify' | 'modify-delete' | 'add-add';
+
+export interface ProjectMergeConflict {
+  /** 冲突所在集合，如 flow.nodes / assets.images / paperJson */
+  collection: string;
+  id: string;
+  /** modify-modify 时的字段路径（flow 节点 data 内字段为 data.xxx） */
+  field?: string;
+  kind: ProjectMergeConflictKind;
+  /** 最终采用的一方 */
+  resolution: 'incoming' | 'remote';
+}
+
+export interface ThreeWayMergeResult {
+  content: any;
+  conflicts: ProjectMergeConflict[];
+}
+
+function isPlainObject(value: unknown): value is AnyRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** 结构相等（忽略对象键顺序）。 */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == b; // null 与 undefined 视为相同（JSON 往返后不可区分）
+  if (typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const arrB = b as unknown[];
+    if (a.length !== arrB.length) return false;
+    return a.every((item, index) => sameValue(item, arrB[index]));
+  }
+  const objA = a as AnyRecord;
+  const objB = b as AnyRecord;
+  const keys = new Set([...Object.keys(objA), ...Object.keys(objB)]);
+  for (const key of keys) {
+    if (!sameValue(objA[key], objB[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * 同一条目在三方都存在时逐字段合并：只有一方改动的字段取改动方，双方改成不同值时
+ * incoming 胜并记冲突。nestedKeys 中的字段（如 flow 节点的 data）再下钻一层逐字段合并。
+ */
+function mergeRecordThreeWay(
+  base: AnyRecord,
+  remote: AnyRecord,
+  incoming: AnyRecord,
+  report: (field: string) => void,
+  nestedKeys: readonly string[] = [],
+  fieldPrefix = '',
+): AnyRecord {
+  const merged: AnyRecord = {};
+  const keys = new Set([...Object.keys(incoming), ...Object.keys(remote), ...Object.keys(base)]);
+  for (const key of keys) {
+    const b = base[key];
+    const r = remote[key];
+    const i = incoming[key];
+    let value: unknown;
+    if (sameValue(r, i) || sameValue(b, r)) {
+      value = i;
+    } else if (sameValue(b, i)) {
+      value = r;
+    } else if (nestedKeys.includes(key) && isPlainObject(r) && isPlainObject(i)) {
+      value = mergeRecordThreeWay(isPlainObject(b) ? b : {}, r, i, report, [], `${fieldPrefix}${key}.`);
+    } else {
+      report(`${fieldPrefix}${key}`);
+      value = i;
+    }
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
+
+/**
+ * 按 id 三方合并集合。base 不可用（非数组）时退化为 unionById。
+ * 顺序：incoming 顺序在前，remote 新增 / 被保留的条目追加在后（与 unionById 一致）。
+ */
+function mergeByIdThreeWay<T extends AnyRecord>(
+  collection: string,
+  base: T[] | undefined | null,
+  remote: T[] | undefined | null,
+  incoming: T[] | undefined | null,
+  conflicts: ProjectMergeConflict[],
+  nestedKeys: readonly string[] = [],
+): T[] {
+  if (!Array.isArray(base)) return unionById(remote, incoming);
+  const inc = Array.isArray(incoming) ? incoming : [];
+  const rem = Array.isArray(remote) ? remote : [];
+  const indexById = (items: T[]) => {
+    const map = new Map<string, T>();
+    for (const it of items) {
+      const id = it?.id;
+      if (id != null && !map.has(String(id))) map.set(String(id), it);
+    }
+    return map;
+  };
+  const baseById = indexById(base);
+  const remoteById = indexById(rem);
+  const incomingById = indexById(inc);
+
+  const result: T[] = [];
+  for (const it of inc) {
+    const rawId = it?.id;
+    if (rawId == null) {
+      result.push(it);
+      continue;
+    }
+    const id = String(rawId);
+    if (incomingById.get(id) !== it) continue; // 重复 id 只保留首个
+    const b = baseById.get(id);
+    const r = remoteById.get(id);
+    if (r !== undefined) {
+      if (b !== undefined && isPlainObject(b) && isPlainObject(r) && isPlainObject(it)) {
+        result.push(
+          mergeRecordThreeWay(
+            b,
+            r,
+            it,
+            (field) => conflicts.push({ collection, id, field, kind: 'modify-modify', resolution: 'incoming' }),
+            nestedKeys,
+          ) as T,
+        );
+        continue;
+      }
+      if (b === undefined && !sameValue(r, it)) {
+        conflicts.push({ collection, id, kind: 'add-add', resolution: 'incoming' });
+      }
+      result.push(it);
+      continue;
+    }
+    if (b !== undefined) {
+      // remote 已删除：incoming 未改动 → 接受删除；改动过 → 保留并记冲突
+      if (sameValue(b, it)) continue;
+      conflicts.push({ collection, id, kind: 'modify-delete', resolution: 'incoming' });
+    }
+    result.push(it);
+  }
+
+  for (const it of rem) {
+    const rawId = it?.id;
+    if (rawId == null) continue; // 无 id 的远端项无法去重 → 让位给当前用户
+    const id = String(rawId);
+    if (incomingById.has(id) || remoteById.get(id) !== it) continue;
+    const b = baseById.get(id);
+    if (b !== undefined) {
+      // incoming 已删除：remote 未改动 → 接受删除；改动过 → 保留远端版本并记冲突
+      if (sameValue(b, it)) continue;
+      conflicts.push({ collection, id, kind: 'delete-modify', resolution: 'remote' });
+    }
+    result.push(it);
+  }
+  return result;
+}
+
+/** 收集 paper 树中所有 data.id 条目（含嵌套），同 id 取首个。 */
+function indexPaperItems(node: any, into: Map<string, [string, AnyRecord]>): void {
+  if (!Array.isArray(node)) return;
+  if (isPair(node)) {
+    const id = node[1]?.data?.id;
+    if (id != null && !into.has(String(id))) into.set(String(id), node);
+    if (Array.isArray(node[1]?.children)) {
+      for (const child of node[1].children) indexPaperItems(child, into);
+    }
+    return;
+  }
+  for (const item of node) indexPaperItems(item, into);
+}
+
+/**
+ * paperJson 三方合并（以 data.id 为条目粒度，条目内部不再逐字段合并）：
+ *  - remote 删除且 incoming 未改 → 删除；incoming 改过 → 保留并记冲突；
+ *  - 仅 remote 改动 → 替换为 remote 版本；双方都改 → incoming 胜并记冲突；
+ *  - incoming 删除且 remote 未改 → 不再追加回来；remote 改过 → 追加并记冲突；
+ *  - remote 新增 → 追加到第一个图层。
+ * base 缺失或任一方解析失败时退化为 mergePaperJson。
+ */
+function mergePaperJsonThreeWay(
+  baseJson: string | undefined | null,
+  remoteJson: string | undefined | null,
+  incomingJson: string | undefined | null,
+  conflicts: ProjectMergeConflict[],
+): string | undefined {
+  if (incomingJson == null || incomingJson === '') return remoteJson ?? incomingJson ?? undefined;
+  if (remoteJson == null || remoteJson === '') return incomingJson;
+  if (typeof baseJson !== 'string' || baseJson === '') return mergePaperJson(remoteJson, incomingJson);
+  let base: any;
+  let remote: any;
+  let incoming: any;
+  try {
+    base = JSON.parse(baseJson);
+    remote = JSON.parse(remoteJson);
+    incoming = JSON.parse(incomingJson);
+  } catch {
+    return mergePaperJson(remoteJson, incomingJson);
+  }
+
+  const baseItems = new Map<string, [string, AnyRecord]>();
+  const remoteItems = new Map<string, [string, AnyRecord]>();
+  const incomingItems = new Map<string, [string, AnyRecord]>();
+  indexPaperItems(base, baseItems);
+  indexPaperItems(remote, remoteItems);
+  indexPaperItems(incoming, incomingItems);
+  const conflictsBefore = conflicts.length;
+  let changed = false;
+
+  // 返回 null 表示删除该条目
+  const reconcile = (node: any): any => {
+    if (!isPair(node)) {
+      return Array.isArray(node) ? node.map(reconcile).filter((child) => child !== null) : node;
+    }
+    const props = node[1];
+    const rawId = props?.data?.id;
+    if (rawId != null) {
+      const id = String(rawId);
+      const b = baseItems.get(id);
+      const r = remoteItems.get(id);
+      if (b !== undefined && r === undefined) {
+        if (sameValue(b, node)) {
+          changed = true;
+          return null;
+        }
+        conflicts.push({ collection: 'paperJson', id, kind: 'modify-delete', resolution: 'incoming' });
+        return node;
+      }
+      if (b !== undefined && r !== undefined && !sameValue(r, node)) {
+        if (sameValue(b, node)) {
+          changed = true;
+          return r;
+        }
+        if (!sameValue(b, r)) {
+          conflicts.push({ collection: 'paperJson', id, kind: 'modify-modify', resolution: 'incoming' });
+          return node;
+        }
+      }
+    }
+    if (Array.isArray(props?.children)) {
+      const children = props.children.map(reconcile).filter((child: any) => child !== null);
+      if (children.length !== props.children.length || children.some((c: any, i: number) => c !== props.children[i])) {
+        return [node[0], { ...props, children }];
+      }
+    }
+    return node;
+  };
+
+  const additions: any[] = [];
+  const collectAdditions = (node: any): void => {
+    if (!Array.isArray(node)) return;
+    if (!isPair(node)) {
+      for (const item of node) collectAdditions(item);
+      return;
+    }
+    const props = node[1];
+    const rawId = props?.data?.id;
+    if (rawId != null && !incomingItems.has(String(rawId))) {
+      const id = String(rawId);
+      const b = baseItems.get(id);
+      if (b === undefined) {
+        additions.push(node);
+      } else if (!sameValue(b, node)) {
+        conflicts.push({ collection: 'paperJson', id, kind: 'delete-modify', resolution: 'remote' });
+        additions.push(node);
+      }
+      return; // 整棵子树随条目一并处理
+    }
+    if (Array.isArray(props?.children)) {
+      for (const child of props.children) collectAdditions(child);
+    }
+  };
+
+  try {
+    const reconciled = reconcile(incoming);
+    collectAdditions(remote);
+    if (additions.length > 0 && appendItemsToFirstLayer(reconciled, additions)) changed = true;
+    if (!changed && conflicts.length === conflictsBefore) return incomingJson;
+    return JSON.stringify(reconciled);
+  } catch {
+    conflicts.length = conflictsBefore;
+    return mergePaperJson(remoteJson, incomingJson);
+  }
+}
+
+/**
+ * 以双方共同的基线版本（base = 客户端加载时的快照）做三方合并，能识别删除：
+ * 一方删除、另一方未改动的条目会被真正删除，而不是像并集合并那样被「复活」。
+ * base 中缺失的集合（如基线只来自 WorkflowHistory，仅有 flow）按并集合并处理。
+ * 标量字段仍取 incoming。
+ */
+export function mergeProjectSnapshotsThreeWay(base: any, remote: any, incoming: any): ThreeWayMergeResult {
+  if (!base || typeof base !== 'object') {
+    return { content: mergeProjectSnapshots(remote, incoming), conflicts: [] };
+  }
+  if (!incoming || typeof incoming !== 'object') return { content: incoming, conflicts: [] };
+  if (!remote || typeof remote !== 'object') return { content: incoming, conflicts: [] };
+
+  const conflicts: ProjectMergeConflict[] = [];
+  const merged: AnyRecord = { ...incoming };
+
+  if (remote.flow || incoming.flow) {
+    const bFlow = base.flow || {};
+    const rFlow = remote.flow || {};
+    const iFlow = incoming.flow || {};
+    merged.flow = {
+      ...iFlow,
+      nodes: mergeByIdThreeWay('flow.nodes', bFlow.nodes, rFlow.nodes, iFlow.nodes, conflicts, ['data']),
+      edges: mergeByIdThreeWay('flow.edges', bFlow.edges, rFlow.edges, iFlow.edges, conflicts),
+    };
+  }
+
+  if (remote.assets || incoming.assets) {
+    const bA = base.assets || {};
+    const rA = remote.assets || {};
+    const iA = incoming.assets || {};
+    merged.assets = { ...iA };
+    for (const key of ['images', 'models', 'texts', 'videos'] as const) {
+      merged.assets[key] = mergeByIdThreeWay(`assets.${key}`, bA[key], rA[key], iA[key], conflicts);
+    }
+  }
+
+  if (remote.layers || incoming.layers) {
+    merged.layers = mergeByIdThreeWay('layers', base.layers, remote.layers, incoming.layers, conflicts);
+  }
+
+  if (remote.aiChatSessions || incoming.aiChatSessions) {
+    merged.aiChatSessions = mergeByIdThreeWay(
+      'aiChatSessions',
+      base.aiChatSessions,
+      remote.aiChatSessions,
+      incoming.aiChatSessions,
+      conflicts,
+    );
+  }
+
+  if (incoming.paperJson !== undefined || remote.paperJson !== undefined) {
+    const mergedPaper = mergePaperJsonThreeWay(base.paperJson, remote.paperJson, incoming.paperJson, conflicts);
+    if (mergedPaper !== undefined) merged.paperJson = mergedPaper;
+  }
+
+  return { content: merged, conflicts };
+}
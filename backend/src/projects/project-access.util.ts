@@ -0,0 +1,30 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * 项目访问规则的唯一实现：项目所有者 / 超管 / 项目共享到的团队成员。
+ *
+ * ProjectsService.assertProjectAccess 基于它抛 404；计费等需要在事务内判断用量归属、
+ * 或因模块循环依赖无法注入 ProjectsService 的地方直接传入 tx / prisma 调用。
+ * role 不传时不走超管放行（例如用量归属不应因为是超管就记到任意项目上）。
+ */
+export async function hasProjectAccess(
+  client: Prisma.TransactionClient,
+  userId: string,
+  projectId: string,
+  role?: string,
+): Promise<boolean> {
+  const isSuperAdmin = typeof role === 'string' && role.toLowerCase() === 'admin';
+  const project = await client.project.findFirst({
+    where: isSuperAdmin
+      ? { id: projectId }
+      : {
+          id: projectId,
+          OR: [
+            { userId },
+            { teamShares: { some: { team: { memberships: { some: { userId } } } } } },
+          ],
+        },
+    select: { id: true },
+  });
+  return project !== null;
+}
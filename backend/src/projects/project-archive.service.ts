@@ -0,0 +1,80 @@
+import { BadRequestException, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { createReadStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OssService } from '../oss/oss.service';
+import { ProjectsService } from './projects.service';
+import {
+  archiveAssetKey,
+  extractProjectArchive,
+  ProjectArchiveError,
+  remapArchiveAssetRefs,
+  type ExtractedProjectArchive,
+} from './project-archive';
+
+/** 同时上传的资源数 */
+const UPLOAD_CONCURRENCY = 4;
+
+@Injectable()
+export class ProjectArchiveService {
+  private readonly logger = new Logger(ProjectArchiveService.name);
+
+  constructor(
+    private readonly projects: ProjectsService,
+    private readonly oss: OssService,
+  ) {}
+
+  /**
+   * 导入 .tanva 归档：流式解压到临时目录 → 新建项目 → 资源逐个从磁盘重新上传到新项目的 OSS 目录 → 改写引用后写入内容。
+   * 任一步失败都会删除新建的项目，不留下半成品；临时目录总会清理。
+   */
+  async importArchive(userId: string, source: AsyncIterable<Uint8Array>, teamId?: string) {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tanva-archive-'));
+    try {
+      let archive: ExtractedProjectArchive;
+      try {
+        archive = await extractProjectArchive(source, workDir);
+      } catch (error) {
+        if (error instanceof ProjectArchiveError) throw new BadRequestException(error.message);
+        throw error;
+      }
+      return await this.createFromArchive(userId, archive, teamId);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  private async createFromArchive(userId: string, archive: ExtractedProjectArchive, teamId?: string) {
+    if (archive.manifest.assets.length > 0 && !this.oss.isEnabled()) {
+      throw new ServiceUnavailableException('对象存储未启用，无法导入归档中的资源');
+    }
+
+    const project = await this.projects.create(userId, archive.manifest.project.name, teamId);
+    try {
+      const urlByPath = new Map<string, string>();
+      const assets = archive.manifest.assets;
+      for (let i = 0; i < assets.length; i += UPLOAD_CONCURRENCY) {
+        await Promise.all(
+          assets.slice(i, i + UPLOAD_CONCURRENCY).map(async (asset) => {
+            const key = archiveAssetKey(project.ossPrefix, asset.path);
+            const { url } = await this.oss.putStream(key, createReadStream(archive.files.get(asset.path)!), {
+              headers: { 'Content-Type': asset.mimeType },
+            });
+            if (!url) throw new Error(`资源 ${asset.path} 上传失败`);
+            urlByPath.set(asset.path, url);
+          }),
+        );
+      }
+
+      const content = remapArchiveAssetRefs(archive.content, urlByPath);
+      await this.projects.updateContent(userId, project.id, content);
+      return { ...project, importedAssetCount: urlByPath.size };
+    } catch (error) {
+      this.logger.error(
+        `Archive import failed for project ${project.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      await this.projects.remove(userId, project.id).catch(() => undefined);
+      throw new ServiceUnavailableException('归档导入失败，请稍后重试');
+    }
+  }
+}
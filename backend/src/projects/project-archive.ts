@@ -0,0 +1,308 @@
+/**
+ * 项目归档（.tanva）的解析与迁移，无 Nest 依赖（便于 scripts/verify-project-archive.ts 校验）。
+ *
+ * 归档是一个 zip：manifest.json（格式标识 / 版本 / 资源清单）、content.json（项目内容，
+ * 资源引用写成 `tanva-asset:assets/0001.png`）、assets/ 下的资源原文件。
+ * 与前端 utils/projectArchive.ts 的导出格式保持一致。
+ */
+import { promises as fs } from 'fs';
+import * as nodePath from 'path';
+import { strFromU8, Unzip, UnzipInflate, type UnzipFile } from 'fflate';
+
+export const PROJECT_ARCHIVE_FORMAT = 'tanva.project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+export const ARCHIVE_ASSET_SCHEME = 'tanva-asset:';
+
+const MANIFEST_PATH = 'manifest.json';
+const CONTENT_PATH = 'content.json';
+const ASSETS_DIR = 'assets/';
+/** 解压后总大小上限，防止压缩炸弹 */
+const MAX_UNPACKED_BYTES = 1024 * 1024 * 1024;
+/** manifest.json / content.json 需整体解析，单独限制大小 */
+const MAX_JSON_BYTES = 100 * 1024 * 1024;
+const MAX_ASSET_COUNT = 2000;
+/**
+ * 允许沿用归档里声明的 Content-Type 的资源类型；其余（text/html、application/javascript 等）
+ * 一律按 application/octet-stream 存储，避免借导入在 OSS 域名下托管可执行内容。SVG 可内嵌脚本，同样不放行。
+ */
+const ALLOWED_MIME_PREFIXES = ['image/', 'video/', 'audio/', 'model/'];
+const BLOCKED_MIME_TYPES = ['image/svg+xml'];
+const FALLBACK_MIME_TYPE = 'application/octet-stream';
+
+export type ProjectArchiveAssetKind = 'image' | 'video' | 'audio' | 'model' | 'file';
+
+export interface ProjectArchiveAssetEntry {
+  path: string;
+  kind: ProjectArchiveAssetKind;
+  mimeType: string;
+  size: number;
+}
+
+export interface ProjectArchiveManifest {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { name: string };
+  assets: ProjectArchiveAssetEntry[];
+  unresolvedAssetCount: number;
+}
+
+export interface ExtractedProjectArchive {
+  manifest: ProjectArchiveManifest;
+  content: Record<string, any>;
+  /** 归档内路径 → 解压到磁盘上的文件路径 */
+  files: Map<string, string>;
+}
+
+export class ProjectArchiveError extends Error {}
+
+type RawArchive = { manifest: Record<string, any>; content: Record<string, any> };
+type ArchiveMigration = (archive: RawArchive) => RawArchive;
+
+/**
+ * 旧版本归档的升级步骤：key 为源版本，执行后得到 key + 1 版本。
+ * 修改归档格式时递增 PROJECT_ARCHIVE_VERSION 并在此登记，旧归档导入时逐级升级。
+ */
+const ARCHIVE_MIGRATIONS: Record<number, ArchiveMigration> = {};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const KINDS: ProjectArchiveAssetKind[] = ['image', 'video', 'audio', 'model', 'file'];
+
+/** 归档声明的 mimeType 只在白名单内沿用，其余按二进制存储。 */
+export function sanitizeArchiveMimeType(raw: unknown): string {
+  if (typeof raw !== 'string') return FALLBACK_MIME_TYPE;
+  const mimeType = raw.trim().toLowerCase();
+  if (!/^[a-z0-9.+-]+\/[a-z0-9.+-]+$/.test(mimeType)) return FALLBACK_MIME_TYPE;
+  if (BLOCKED_MIME_TYPES.includes(mimeType)) return FALLBACK_MIME_TYPE;
+  return ALLOWED_MIME_PREFIXES.some((prefix) => mimeType.startsWith(prefix)) ? mimeType : FALLBACK_MIME_TYPE;
+}
+
+const isSafeAssetPath = (path: unknown): path is string =>
+  typeof path === 'string' &&
+  path.startsWith(ASSETS_DIR) &&
+  path.length > ASSETS_DIR.length &&
+  !path.includes('..') &&
+  !path.includes('\\');
+
+/** 把任意版本的 manifest + content 升级到当前版本，并校验 manifest 字段。 */
+export function migrateProjectArchive(raw: RawArchive): { manifest: ProjectArchiveManifest; content: Record<string, any> } {
+  if (!isRecord(raw.manifest) || raw.manifest.format !== PROJECT_ARCHIVE_FORMAT) {
+    throw new ProjectArchiveError('不是 Tanva 项目归档');
+  }
+  let version = Number(raw.manifest.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ProjectArchiveError('归档版本号无效');
+  }
+  if (version > PROJECT_ARCHIVE_VERSION) {
+    throw new ProjectArchiveError(`归档版本 ${version} 高于当前支持的版本 ${PROJECT_ARCHIVE_VERSION}，请升级后再导入`);
+  }
+
+  let current: RawArchive = raw;
+  while (version < PROJECT_ARCHIVE_VERSION) {
+    const migrate = ARCHIVE_MIGRATIONS[version];
+    if (!migrate) throw new ProjectArchiveError(`缺少归档版本 ${version} 的迁移`);
+    current = migrate(current);
+    version += 1;
+  }
+
+  const manifest = current.manifest;
+  const assets: ProjectArchiveAssetEntry[] = (Array.isArray(manifest.assets) ? manifest.assets : []).map(
+    (entry: unknown) => {
+      if (!isRecord(entry) || !isSafeAssetPath(entry.path)) {
+        throw new ProjectArchiveError('归档资源清单无效');
+      }
+      return {
+        path: entry.path,
+        kind: KINDS.includes(entry.kind) ? entry.kind : 'file',
+        mimeType: sanitizeArchiveMimeType(entry.mimeType),
+        size: Number(entry.size) || 0,
+      };
+    },
+  );
+  if (assets.length > MAX_ASSET_COUNT) {
+    throw new ProjectArchiveError(`归档资源过多（上限 ${MAX_ASSET_COUNT} 个）`);
+  }
+  if (!isRecord(current.content)) {
+    throw new ProjectArchiveError('归档内容无效');
+  }
+
+  return {
+    manifest: {
+      format: PROJECT_ARCHIVE_FORMAT,
+      version: PROJECT_ARCHIVE_VERSION,
+      exportedAt: typeof manifest.exportedAt === 'string' ? manifest.exportedAt : '',
+      project: {
+        name: typeof manifest.project?.name === 'string' && manifest.project.name.trim()
+          ? manifest.project.name.trim()
+          : '导入的项目',
+      },
+      assets,
+      unresolvedAssetCount: Number(manifest.unresolvedAssetCount) || 0,
+    },
+    content: current.content,
+  };
+}
+
+const parseJsonFile = (files: Map<string, Uint8Array>, path: string): unknown => {
+  const data = files.get(path);
+  if (!data) throw new ProjectArchiveError(`归档缺少 ${path}`);
+  try {
+    return JSON.parse(strFromU8(data));
+  } catch {
+    throw new ProjectArchiveError(`${path} 不是有效的 JSON`);
+  }
+};
+
+const concatChunks = (chunks: Uint8Array[], size: number): Uint8Array => {
+  const out = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return out;
+};
+
+/**
+ * 流式解压并校验归档：manifest.json / content.json 读入内存，assets/ 下的文件逐块写到 workDir，
+ * 任何时刻只在内存中保留一块解压数据。manifest 中列出的每个资源都必须存在于 assets/ 下。
+ * workDir 由调用方创建和清理。
+ */
+export async function extractProjectArchive(
+  source: AsyncIterable<Uint8Array>,
+  workDir: string,
+): Promise<ExtractedProjectArchive> {
+  const seen = new Set<string>();
+  const jsonFiles = new Map<string, Uint8Array>();
+  /** 只登记完整解压的资源；被截断的条目不会出现在这里 */
+  const assetFiles = new Map<string, string>();
+  let unpackedBytes = 0;
+  let entryCount = 0;
+  let assetCount = 0;
+  let failure: unknown = null;
+  // 解压回调是同步的：写盘操作串成一条链，每推入一块压缩数据后等它落盘，再读下一块
+  let writes: Promise<unknown> = Promise.resolve();
+  const enqueue = (task: () => Promise<unknown>) => {
+    writes = writes.then(() => (failure ? undefined : task())).catch((error) => {
+      failure = failure ?? error;
+    });
+  };
+
+  const onFile = (file: UnzipFile) => {
+    entryCount += 1;
+    const isJson = file.name === MANIFEST_PATH || file.name === CONTENT_PATH;
+    if (!isJson && !isSafeAssetPath(file.name)) return;
+    if (seen.has(file.name)) {
+      failure = failure ?? new ProjectArchiveError(`归档中 ${file.name} 重复`);
+      return;
+    }
+    seen.add(file.name);
+    if (!isJson && ++assetCount > MAX_ASSET_COUNT) {
+      failure = failure ?? new ProjectArchiveError(`归档资源过多（上限 ${MAX_ASSET_COUNT} 个）`);
+      return;
+    }
+
+    const chunks: Uint8Array[] = [];
+    let fileBytes = 0;
+    const diskPath = isJson ? '' : nodePath.join(workDir, `${assetCount}.bin`);
+    if (!isJson) enqueue(() => fs.writeFile(diskPath, new Uint8Array(0)));
+
+    file.ondata = (error, data, final) => {
+      if (failure) return;
+      if (error) {
+        failure = new ProjectArchiveError('无法解压归档文件');
+        return;
+      }
+      unpackedBytes += data.byteLength;
+      fileBytes += data.byteLength;
+      if (unpackedBytes > MAX_UNPACKED_BYTES) {
+        failure = new ProjectArchiveError('归档解压后过大');
+        return;
+      }
+      if (isJson) {
+        if (fileBytes > MAX_JSON_BYTES) {
+          failure = new ProjectArchiveError(`${file.name} 过大`);
+          return;
+        }
+        chunks.push(data);
+        if (final) jsonFiles.set(file.name, concatChunks(chunks, fileBytes));
+        return;
+      }
+      if (data.byteLength > 0) enqueue(() => fs.appendFile(diskPath, data));
+      if (final) assetFiles.set(file.name, diskPath);
+    };
+    file.start();
+  };
+
+  const unzip = new Unzip(onFile);
+  unzip.register(UnzipInflate);
+  const push = (chunk: Uint8Array, final: boolean) => {
+    try {
+      unzip.push(chunk, final);
+    } catch {
+      failure = failure ?? new ProjectArchiveError('无法解压归档文件');
+    }
+  };
+  // 读取来源本身的错误（如上传超出大小上限）原样抛出，由调用方映射
+  for await (const chunk of source) {
+    push(chunk, false);
+    await writes;
+    if (failure) break;
+  }
+  if (!failure) {
+    push(new Uint8Array(0), true);
+    await writes;
+  }
+  if (failure) throw failure;
+  if (entryCount === 0) throw new ProjectArchiveError('无法解压归档文件');
+
+  const { manifest, content } = migrateProjectArchive({
+    manifest: parseJsonFile(jsonFiles, MANIFEST_PATH) as Record<string, any>,
+    content: parseJsonFile(jsonFiles, CONTENT_PATH) as Record<string, any>,
+  });
+
+  const files = new Map<string, string>();
+  manifest.assets.forEach((asset) => {
+    const diskPath = assetFiles.get(asset.path);
+    if (!diskPath) throw new ProjectArchiveError(`归档缺少资源 ${asset.path}`);
+    files.set(asset.path, diskPath);
+  });
+  return { manifest, content, files };
+}
+
+const remapValue = (value: unknown, urlByPath: Map<string, string>, key?: string): unknown => {
+  if (typeof value === 'string') {
+    // paperJson 是序列化后的 Paper 项目，Raster 的 source 在字符串内部
+    if (key === 'paperJson' && value.includes(ARCHIVE_ASSET_SCHEME)) {
+      try {
+        return JSON.stringify(remapValue(JSON.parse(value), urlByPath));
+      } catch {
+        return value;
+      }
+    }
+    if (!value.startsWith(ARCHIVE_ASSET_SCHEME)) return value;
+    return urlByPath.get(value.slice(ARCHIVE_ASSET_SCHEME.length)) ?? value;
+  }
+  if (Array.isArray(value)) return value.map((item) => remapValue(item, urlByPath));
+  if (isRecord(value)) {
+    const out: Record<string, unknown> = {};
+    Object.entries(value).forEach(([childKey, child]) => {
+      out[childKey] = remapValue(child, urlByPath, childKey);
+    });
+    return out;
+  }
+  return value;
+};
+
+/** 把 content 中的 `tanva-asset:<path>` 引用换成重新上传后的地址。 */
+export function remapArchiveAssetRefs<T>(content: T, urlByPath: Map<string, string>): T {
+  return remapValue(content, urlByPath) as T;
+}
+
+/** 资源在新项目 OSS 目录下的 key：<prefix>assets/<文件名> */
+export function archiveAssetKey(projectPrefix: string, path: string): string {
+  const prefix = projectPrefix.endsWith('/') ? projectPrefix : `${projectPrefix}/`;
+  return `${prefix}${ASSETS_DIR}${path.slice(ASSETS_DIR.length).replace(/[^a-zA-Z0-9_.-]/g, '_')}`;
+}
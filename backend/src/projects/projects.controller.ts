@@ -1,18 +1,24 @@
-import { Body, Controller, Delete, Get, Param, Post, Put, Query, Req, UseGuards } from '@nestjs/common';
-import { ApiCookieAuth, ApiTags } from '@nestjs/swagger';
+import { BadRequestException, Body, Controller, Delete, Get, Param, Post, Put, Query, Req, UseGuards } from '@nestjs/common';
+import { ApiConsumes, ApiCookieAuth, ApiTags } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt.guard';
 import { ProjectsService } from './projects.service';
+import { ProjectArchiveService } from './project-archive.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { UpdateProjectContentDto } from './dto/update-project-content.dto';
 import { ShareProjectDto } from './dto/share-project.dto';
 
+const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024; // 500MB，与视频上传上限一致
+
 @ApiTags('projects')
 @ApiCookieAuth('access_token')
 @UseGuards(JwtAuthGuard)
 @Controller('projects')
 export class ProjectsController {
-  constructor(private readonly projects: ProjectsService) {}
+  constructor(
+    private readonly projects: ProjectsService,
+    private readonly archives: ProjectArchiveService,
+  ) {}
 
   @Get()
   async list(
@@ -36,6 +42,25 @@ export class ProjectsController {
     return this.projects.create(req.user.sub, dto.name, teamId);
   }
 
+  // 导入 .tanva 项目归档（multipart 单文件），边上传边解压，资源重新上传后创建新项目
+  @Post('import')
+  @ApiConsumes('multipart/form-data')
+  async importArchive(@Req() req: any) {
+    if (typeof req.file !== 'function') throw new BadRequestException('Multipart parser is not available');
+    const part = await req.file({ limits: { files: 1, fileSize: MAX_ARCHIVE_SIZE } });
+    if (!part) throw new BadRequestException('No file uploaded');
+    const teamId = (req.headers?.['x-team-id'] as string | undefined) || undefined;
+    try {
+      return await this.archives.importArchive(req.user.sub, part.file, teamId);
+    } catch (error: any) {
+      // 超出上限时文件流被截断，解压会先报归档损坏，这里按大小超限返回
+      if (error?.code === 'FST_REQ_FILE_TOO_LARGE' || part.file?.truncated) {
+        throw new BadRequestException(`File too large (max ${MAX_ARCHIVE_SIZE} bytes)`);
+      }
+      throw error;
+    }
+  }
+
   @Get(':id')
   async getOne(@Req() req: any, @Param('id') id: string) {
     return this.projects.get(req.user.sub, id, req.user.role);
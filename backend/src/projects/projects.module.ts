@@ -2,12 +2,14 @@ import { Module } from '@nestjs/common';
 import { ProjectsService } from './projects.service';
 import { ProjectsController } from './projects.controller';
 import { ProjectsSchedulerService } from './projects-scheduler.service';
+import { ProjectArchiveService } from './project-archive.service';
 import { OssModule } from '../oss/oss.module';
 import { TeamCollabModule } from '../team-collab/team-collab.module';
 
 @Module({
   imports: [OssModule, TeamCollabModule],
-  providers: [ProjectsService, ProjectsSchedulerService],
+  providers: [ProjectsService, ProjectsSchedulerService, ProjectArchiveService],
   controllers: [ProjectsController],
+  exports: [ProjectsService],
 })
 export class ProjectsModule {}
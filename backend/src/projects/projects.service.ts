@@ -5,9 +5,14 @@ import type { CollabEnvelope, TeamProjectsChangeAction, TeamProjectsChangedPaylo
 import type { Prisma } from '@prisma/client';
 import { createHash } from 'node:crypto';
 import { PrismaService } from '../prisma/prisma.service';
+import { hasProjectAccess } from './project-access.util';
 import { OssService } from '../oss/oss.service';
 import { sanitizeDesignJson, dropGhostFlowNodes } from '../utils/designJsonSanitizer';
-import { mergeProjectSnapshots } from './merge-project-snapshots';
+import {
+  mergeProjectSnapshots,
+  mergeProjectSnapshotsThreeWay,
+  type ProjectMergeConflict,
+} from './merge-project-snapshots';
 
 @Injectable()
 export class ProjectsService {
@@ -29,6 +34,12 @@ export class ProjectsService {
     process.env.PROJECT_HISTORY_BACKUP_INTERVAL_MS || 10 * 60 * 1000,
   );
   private readonly preOverwriteBackupAt = new Map<string, number>();
+  /** 合并响应里最多回传的冲突条数（完整数量另见 conflictCount）。 */
+  private static readonly MERGE_CONFLICTS_RESPONSE_LIMIT = 50;
+  /** 三方合并基线快照保留的最近版本数;落后更多版本的客户端退化为并集合并。 */
+  private static readonly MERGE_BASE_SNAPSHOT_RETAIN = Number(
+    process.env.PROJECT_MERGE_BASE_SNAPSHOT_RETAIN || 20,
+  );
 
   constructor(
     private prisma: PrismaService,
@@ -278,7 +289,23 @@ export class ProjectsService {
     const project = await this.prisma.project.findUnique({ where: { id } });
     if (!project) throw new NotFoundException('项目不存在');
     if (!this.isSuperAdmin(role) && project.userId !== userId) await this.assertTeamProjectAccess(userId, id);
+    return this.readContent(project);
+  }
 
+  /**
+   * 公开分享链接读取项目内容：不做用户鉴权，调用方（ProjectShareService）负责校验分享 token。
+   */
+  async getSharedContent(id: string) {
+    const project = await this.prisma.project.findUnique({ where: { id } });
+    if (!project) throw new NotFoundException('项目不存在');
+    return { name: project.name, ...(await this.readContent(project)) };
+  }
+
+  private async readContent(project: {
+    mainKey: string;
+    contentVersion: number;
+    updatedAt: Date;
+  }) {
     if (!project.mainKey) {
       return {
         content: dropGhostFlowNodes(sanitizeDesignJson((project as any).contentJson || null)),
@@ -386,6 +413,7 @@ export class ProjectsService {
       // remote-only 追加，谁的新增都不丢。合并后照常落盘，并在返回里带 merged/content 供前端 adopt。
       const currentContentVersion = project.contentVersion ?? 0;
       let mergedFromConflict = false;
+      let mergeConflicts: ProjectMergeConflict[] = [];
       if (typeof version === 'number' && version > 0 && version < currentContentVersion) {
         // 版本落后且非活跃实时协作（前端只在 collab 长连接时传 allowMerge=true）：
         // 直接拒绝、不写入，返回 stale 让前端冻结并强制刷新。串行锁内执行，无竞态，
@@ -418,9 +446,19 @@ export class ProjectsService {
           console.warn('[merge] 读取远端快照失败，回退为仅用当前用户内容:', err);
         }
         if (remoteContent) {
-          sanitizedContent = dropGhostFlowNodes(
-            sanitizeDesignJson(mergeProjectSnapshots(remoteContent, sanitizedContent)),
+          // 能取到客户端基线版本时做删除感知的三方合并；否则退化为并集合并。
+          const baseContent = await timeStep('conflictReadBaseMs', () =>
+            this.loadMergeBaseSnapshot(id, prefix, version),
           );
+          let mergedContent: unknown;
+          if (baseContent) {
+            const threeWay = mergeProjectSnapshotsThreeWay(baseContent, remoteContent, sanitizedContent);
+            mergedContent = threeWay.content;
+            mergeConflicts = threeWay.conflicts;
+          } else {
+            mergedContent = mergeProjectSnapshots(remoteContent, sanitizedContent);
+          }
+          sanitizedContent = dropGhostFlowNodes(sanitizeDesignJson(mergedContent));
           const mergedFingerprint = this.hashProjectContent(sanitizedContent);
           contentHash = mergedFingerprint.hash;
           contentBytes = mergedFingerprint.bytes;
@@ -507,6 +545,14 @@ export class ProjectsService {
       }
 
       const persistedVersion = updated2.contentVersion ?? newVersion;
+      if (options?.allowMerge === true) {
+        // 协作保存可能在之后以本版本为基线发生冲突，留一份版本快照供三方合并。
+        await timeStep('mergeBaseSnapshotMs', () =>
+          this.tryStoreMergeBaseSnapshot(prefix, persistedVersion, sanitizedContent),
+        );
+      }
+      // 每次保存都清理滑出保留窗口的那一版:是否协作保存会来回切换,只在写快照时清理会漏掉版本。
+      this.pruneMergeBaseSnapshot(prefix, persistedVersion);
       this.rememberProjectContentFingerprint(id, contentHash, persistedVersion, incomingNodeCount);
       // 每次真实落盘都留一条简明日志:事故回查时能回答「白天到底有没有保存、存了什么规模」。
       // eslint-disable-next-line no-console
@@ -519,6 +565,7 @@ export class ProjectsService {
         bytes: contentBytes,
         ms: Date.now() - saveStartedAt,
         merged: mergedFromConflict,
+        conflicts: mergeConflicts.length,
       }));
       this.logProjectSaveIfHot({
         projectId: id,
@@ -537,7 +584,15 @@ export class ProjectsService {
         thumbnailUrl: this.extractThumbnail(updated2) || undefined,
         // 命中版本冲突并做了并集合并时，回传合并结果供前端 adopt（把远端新增补进本地运行时，
         // 避免下一次保存又用本地内容覆盖丢掉远端项）。非冲突路径不带这两个字段。
-        ...(mergedFromConflict ? { merged: true, content: sanitizedContent } : {}),
+        // conflicts 为三方合并中双方改动同一条目的记录（已按规则自动取舍），供前端提示。
+        ...(mergedFromConflict
+          ? {
+              merged: true,
+              content: sanitizedContent,
+              conflicts: mergeConflicts.slice(0, ProjectsService.MERGE_CONFLICTS_RESPONSE_LIMIT),
+              conflictCount: mergeConflicts.length,
+            }
+          : {}),
       };
     });
   }
@@ -640,6 +695,67 @@ export class ProjectsService {
     };
   }
 
+  private mergeBaseSnapshotKey(prefix: string, version: number): string {
+    return `${prefix}versions/${version}.json`;
+  }
+
+  /**
+   * 三方合并的基线快照:协作保存(allowMerge)落盘后额外写一份 versions/{version}.json。
+   * 只保留最近 MERGE_BASE_SNAPSHOT_RETAIN 个版本,见 pruneMergeBaseSnapshot。
+   * best-effort,失败只影响后续冲突退化为并集合并。
+   */
+  private async tryStoreMergeBaseSnapshot(prefix: string, version: number, content: unknown): Promise<void> {
+    if (!this.oss.isEnabled()) return;
+    try {
+      await this.oss.putJSON(this.mergeBaseSnapshotKey(prefix, version), content);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn('[merge] 写入基线快照失败:', err);
+    }
+  }
+
+  /**
+   * 删除刚滑出保留窗口的 versions/{version - N}.json。版本号每次保存严格 +1,
+   * 每个版本号都会在 N 次保存后被清理一次,无需列举目录;不存在的键删除是空操作。
+   * 不阻塞保存,失败只留下一个孤立快照。
+   */
+  private pruneMergeBaseSnapshot(prefix: string, version: number): void {
+    const expired = version - ProjectsService.MERGE_BASE_SNAPSHOT_RETAIN;
+    if (!this.oss.isEnabled() || expired < 1) return;
+    this.oss.deleteObject(this.mergeBaseSnapshotKey(prefix, expired)).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.warn('[merge] 清理过期基线快照失败:', err);
+    });
+  }
+
+  /**
+   * 读取客户端基线版本的快照:优先 OSS 版本快照(完整内容),其次同版本的 WorkflowHistory(仅 flow)。
+   * 都没有时返回 null,调用方退化为并集合并。
+   */
+  private async loadMergeBaseSnapshot(projectId: string, prefix: string, version: number): Promise<any | null> {
+    if (this.oss.isEnabled()) {
+      try {
+        const stored = await this.oss.getJSON(this.mergeBaseSnapshotKey(prefix, version));
+        if (stored && typeof stored === 'object') return stored;
+      } catch {
+        // 忽略,继续尝试工作流历史
+      }
+    }
+    try {
+      const history = await this.prisma.workflowHistory.findFirst({
+        where: { projectId, version },
+        select: { flow: true },
+      });
+      const flow = history?.flow as any;
+      if (flow && typeof flow === 'object' && Array.isArray(flow.nodes)) {
+        return { flow: { nodes: flow.nodes, edges: Array.isArray(flow.edges) ? flow.edges : [] } };
+      }
+    } catch {
+      // 忽略,退化为并集合并
+    }
+    return null;
+  }
+
   private async tryCreateWorkflowHistorySnapshot(
     userId: string,
     projectId: string,
@@ -1043,6 +1159,13 @@ export class ProjectsService {
     if (!share) throw new NotFoundException('项目不存在');
   }
 
+  /** 与 get 相同的访问校验：所有者 / 超管 / 项目共享到的团队成员，否则抛 NotFoundException。 */
+  async assertProjectAccess(userId: string, projectId: string, role?: string): Promise<void> {
+    if (!(await hasProjectAccess(this.prisma, userId, projectId, role))) {
+      throw new NotFoundException('项目不存在');
+    }
+  }
+
   async shareWithTeam(projectId: string, teamId: string, userId: string) {
     const project = await this.prisma.project.findUniqueOrThrow({ where: { id: projectId } });
     if (project.userId !== userId) throw new ForbiddenException('无权共享此项目');
@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsIn, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import { MAX_SUBTITLE_SEGMENTS } from '../subtitle-format';
+
+export const SUBTITLE_LANGUAGES = ['zh', 'en', 'mixed'] as const;
+
+export class TranscribeSubtitlesDto {
+  @ApiProperty({ description: '上游视频或音频的 OSS 地址' })
+  @IsString()
+  @MaxLength(4096)
+  mediaUrl!: string;
+
+  @ApiPropertyOptional({ enum: SUBTITLE_LANGUAGES, default: 'zh' })
+  @IsOptional()
+  @IsIn(SUBTITLE_LANGUAGES as unknown as string[])
+  language?: (typeof SUBTITLE_LANGUAGES)[number];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  projectId?: string;
+}
+
+export class BurnSubtitlesDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(4096)
+  videoUrl!: string;
+
+  @ApiProperty({ description: '[{ start, end, text }]，单位秒' })
+  @IsArray()
+  @ArrayMaxSize(MAX_SUBTITLE_SEGMENTS)
+  segments!: unknown[];
+
+  @ApiPropertyOptional({ description: 'SubtitleStyle：字号/颜色/描边/位置/加粗/底框' })
+  @IsOptional()
+  @IsObject()
+  style?: Record<string, unknown>;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  projectId?: string;
+}
@@ -0,0 +1,303 @@
+// 字幕节点的纯函数：分段校验、SRT/VTT 生成、腾讯录音识别结果 → 分段、烧录用 ASS 文档与 ffmpeg 参数。
+// 不碰网络与文件系统，scripts/verify-subtitles.ts 直接覆盖。
+
+export interface SubtitleSegment {
+  /** 秒 */
+  start: number;
+  /** 秒 */
+  end: number;
+  text: string;
+}
+
+export type SubtitlePosition = 'bottom' | 'top';
+
+export interface SubtitleStyle {
+  /** 字号，按视频高度的百分比（2~12） */
+  fontSizePercent: number;
+  /** #RRGGBB */
+  color: string;
+  outlineColor: string;
+  /** 描边粗细，按字号的百分比（0~20） */
+  outlinePercent: number;
+  position: SubtitlePosition;
+  bold: boolean;
+  /** 半透明底框（BorderStyle=3） */
+  background: boolean;
+}
+
+export const MAX_SUBTITLE_SEGMENTS = 2000;
+export const MAX_SUBTITLE_TEXT_LENGTH = 500;
+/** 单段最短显示时长，避免 0 时长段被播放器吞掉 */
+const MIN_SEGMENT_SECONDS = 0.2;
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontSizePercent: 5,
+  color: '#FFFFFF',
+  outlineColor: '#000000',
+  outlinePercent: 8,
+  position: 'bottom',
+  bold: false,
+  background: false,
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number => {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+};
+
+/**
+ * 校验并规整前端提交的分段：按开始时间排序、丢空文本、保证 end > start。
+ * 非法结构抛 Error（由调用方转 BadRequestException）。
+ */
+export function normalizeSubtitleSegments(raw: unknown): SubtitleSegment[] {
+  if (!Array.isArray(raw)) throw new Error('segments 必须是数组');
+  if (raw.length > MAX_SUBTITLE_SEGMENTS) throw new Error(`字幕最多 ${MAX_SUBTITLE_SEGMENTS} 段`);
+  const segments: SubtitleSegment[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') throw new Error('字幕分段格式错误');
+    const { start, end, text } = item as Record<string, unknown>;
+    if (typeof start !== 'number' || typeof end !== 'number' || !Number.isFinite(start) || !Number.isFinite(end)) {
+      throw new Error('字幕分段缺少有效的开始/结束时间');
+    }
+    if (typeof text !== 'string') throw new Error('字幕分段缺少文本');
+    const trimmed = text.replace(/\r\n?/g, '\n').trim();
+    if (!trimmed) continue;
+    if (trimmed.length > MAX_SUBTITLE_TEXT_LENGTH) {
+      throw new Error(`单段字幕不能超过 ${MAX_SUBTITLE_TEXT_LENGTH} 字`);
+    }
+    const s = Math.max(0, start);
+    segments.push({ start: s, end: Math.max(end, s + MIN_SEGMENT_SECONDS), text: trimmed });
+  }
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+export function normalizeSubtitleStyle(raw: unknown): SubtitleStyle {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const color = typeof value.color === 'string' && HEX_COLOR.test(value.color) ? value.color : DEFAULT_SUBTITLE_STYLE.color;
+  const outlineColor =
+    typeof value.outlineColor === 'string' && HEX_COLOR.test(value.outlineColor)
+      ? value.outlineColor
+      : DEFAULT_SUBTITLE_STYLE.outlineColor;
+  return {
+    fontSizePercent: clamp(value.fontSizePercent, 2, 12, DEFAULT_SUBTITLE_STYLE.fontSizePercent),
+    color: color.toUpperCase(),
+    outlineColor: outlineColor.toUpperCase(),
+    outlinePercent: clamp(value.outlinePercent, 0, 20, DEFAULT_SUBTITLE_STYLE.outlinePercent),
+    position: value.position === 'top' ? 'top' : 'bottom',
+    bold: value.bold === true,
+    background: value.background === true,
+  };
+}
+
+function splitSeconds(totalSeconds: number) {
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3_600_000),
+    m: Math.floor((totalMs % 3_600_000) / 60_000),
+    s: Math.floor((totalMs % 60_000) / 1000),
+    ms: totalMs % 1000,
+  };
+}
+
+const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+
+export function formatSrtTime(totalSeconds: number): string {
+  const { h, m, s, ms } = splitSeconds(totalSeconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+}
+
+export function formatVttTime(totalSeconds: number): string {
+  const { h, m, s, ms } = splitSeconds(totalSeconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+}
+
+export function buildSrt(segments: SubtitleSegment[]): string {
+  return segments
+    .map((seg, i) => `${i + 1}\n${formatSrtTime(seg.start)} --> ${formatSrtTime(seg.end)}\n${seg.text}\n`)
+    .join('\n');
+}
+
+export function buildVtt(segments: SubtitleSegment[]): string {
+  const cues = segments.map((seg) => `${formatVttTime(seg.start)} --> ${formatVttTime(seg.end)}\n${seg.text}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * 腾讯录音文件识别（ResTextFormat=3 按标点分段）的 ResultDetail → 字幕分段。
+ * 时间单位毫秒；没有 ResultDetail 时返回空数组，由调用方决定是否回退整段文本。
+ */
+export function segmentsFromTencentAsr(resultDetail: unknown): SubtitleSegment[] {
+  if (!Array.isArray(resultDetail)) return [];
+  const segments: SubtitleSegment[] = [];
+  for (const item of resultDetail) {
+    if (!item || typeof item !== 'object') continue;
+    const row = item as Record<string, unknown>;
+    const text = String(row.FinalSentence ?? row.SliceSentence ?? '').trim();
+    const startMs = Number(row.StartMs);
+    const endMs = Number(row.EndMs);
+    if (!text || !Number.isFinite(startMs) || !Number.isFinite(endMs)) continue;
+    segments.push({
+      start: startMs / 1000,
+      end: Math.max(endMs, startMs + MIN_SEGMENT_SECONDS * 1000) / 1000,
+      text,
+    });
+  }
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+/** #RRGGBB + 不透明度(0~1) → ASS 的 &HAABBGGRR（AA 为透明度，00 不透明） */
+function assColor(hex: string, opacity = 1): string {
+  const r = hex.slice(1, 3);
+  const g = hex.slice(3, 5);
+  const b = hex.slice(5, 7);
+  const alpha = Math.round((1 - Math.min(1, Math.max(0, opacity))) * 255)
+    .toString(16)
+    .padStart(2, '0');
+  return `&H${alpha}${b}${g}${r}`.toUpperCase();
+}
+
+function formatAssTime(totalSeconds: number): string {
+  const totalCs = Math.max(0, Math.round(totalSeconds * 100));
+  const h = Math.floor(totalCs / 360_000);
+  const m = Math.floor((totalCs % 360_000) / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(totalCs % 100)}`;
+}
+
+/**
+ * ASS 对话文本转义：花括号会被当成覆写标签，换行用 \N。
+ * libass 没有反斜杠自身的转义，原文里的 \ 换成全角＼，避免拼出 \N、\h 等控制序列。
+ */
+function escapeAssText(text: string): string {
+  return text.replace(/\\/g, '＼').replace(/\{/g, '\\{').replace(/\}/g, '\\}').replace(/\n/g, '\\N');
+}
+
+/**
+ * 生成烧录用 ASS 文档。PlayRes 与视频像素一致，字号/描边/边距都按视频高度换算，
+ * 横竖屏都不会被 libass 拉伸。
+ */
+export function buildAssDocument(
+  segments: SubtitleSegment[],
+  style: SubtitleStyle,
+  video: { width: number; height: number; fontName: string },
+): string {
+  const width = Math.max(2, Math.round(video.width));
+  const height = Math.max(2, Math.round(video.height));
+  const fontSize = Math.max(8, Math.round((height * style.fontSizePercent) / 100));
+  const outline = Math.round(((fontSize * style.outlinePercent) / 100) * 10) / 10;
+  const marginV = Math.round(height * 0.06);
+  const marginH = Math.round(width * 0.05);
+  const alignment = style.position === 'top' ? 8 : 2;
+  const borderStyle = style.background ? 3 : 1;
+  // BorderStyle=3 时 OutlineColour 是底框颜色
+  const outlineColour = style.background ? assColor('#000000', 0.55) : assColor(style.outlineColor);
+  const fontName = video.fontName.replace(/,/g, ' ');
+  const styleLine = [
+    'Default',
+    fontName,
+    fontSize,
+    assColor(style.color),
+    assColor(style.color),
+    outlineColour,
+    assColor('#000000', 0.5),
+    style.bold ? -1 : 0,
+    0,
+    0,
+    0,
+    100,
+    100,
+    0,
+    0,
+    borderStyle,
+    style.background ? Math.max(2, outline) : outline,
+    0,
+    alignment,
+    marginH,
+    marginH,
+    marginV,
+    1,
+  ].join(',');
+  const events = segments.map(
+    (seg) => `Dialogue: 0,${formatAssTime(seg.start)},${formatAssTime(seg.end)},Default,,0,0,0,,${escapeAssText(seg.text)}`,
+  );
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+/** ffmpeg 滤镜参数里的路径转义（: ' \ 都是滤镜语法字符） */
+export function escapeFfmpegFilterPath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "\\'");
+}
+
+/** 烧录参数：与 video-watermark 一致的 libx264 veryfast/crf23 + 音轨直拷 + faststart */
+export function buildBurnFfmpegArgs(params: {
+  videoUrl: string;
+  assPath: string;
+  outputPath: string;
+  fontsDir?: string;
+}): string[] {
+  const filter = params.fontsDir
+    ? `ass='${escapeFfmpegFilterPath(params.assPath)}':fontsdir='${escapeFfmpegFilterPath(params.fontsDir)}'`
+    : `ass='${escapeFfmpegFilterPath(params.assPath)}'`;
+  return [
+    '-hide_banner',
+    '-loglevel',
+    'error',
+    '-y',
+    '-i',
+    params.videoUrl,
+    '-vf',
+    filter,
+    '-c:v',
+    'libx264',
+    '-preset',
+    'veryfast',
+    '-crf',
+    '23',
+    '-c:a',
+    'copy',
+    '-movflags',
+    '+faststart',
+    params.outputPath,
+  ];
+}
+
+/** 识别前抽音轨：16k 单声道 mp3，腾讯录音识别 16k 引擎的推荐输入，体积也小 */
+export function buildExtractAudioFfmpegArgs(mediaUrl: string, outputPath: string): string[] {
+  return [
+    '-hide_banner',
+    '-loglevel',
+    'error',
+    '-y',
+    '-i',
+    mediaUrl,
+    '-vn',
+    '-ac',
+    '1',
+    '-ar',
+    '16000',
+    '-b:a',
+    '32k',
+    '-f',
+    'mp3',
+    outputPath,
+  ];
+}
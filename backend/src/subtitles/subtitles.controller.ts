@@ -0,0 +1,179 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Body,
+  Controller,
+  HttpException,
+  Logger,
+  Optional,
+  Post,
+  Req,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiCookieAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { CreditsService } from '../credits/credits.service';
+import { ServiceType } from '../credits/credits.config';
+import { ProjectsService } from '../projects/projects.service';
+import { CreditChargeService, type ChargeHandle } from '../team-credits/credit-charge.service';
+import { BurnSubtitlesDto, TranscribeSubtitlesDto } from './dto/subtitles.dto';
+import {
+  buildSrt,
+  buildVtt,
+  normalizeSubtitleSegments,
+  normalizeSubtitleStyle,
+  type SubtitleSegment,
+} from './subtitle-format';
+import { SubtitlesService } from './subtitles.service';
+
+@ApiTags('subtitles')
+@Controller('subtitles')
+export class SubtitlesController {
+  private readonly logger = new Logger(SubtitlesController.name);
+
+  constructor(
+    private readonly subtitles: SubtitlesService,
+    private readonly creditsService: CreditsService,
+    private readonly projects: ProjectsService,
+    @Optional() private readonly creditCharge?: CreditChargeService,
+  ) {}
+
+  @Post('transcribe')
+  @ApiOperation({ summary: '识别上游音视频的音轨，返回带时间戳的字幕分段' })
+  @ApiCookieAuth('access_token')
+  @UseGuards(JwtAuthGuard)
+  async transcribe(@Body() dto: TranscribeSubtitlesDto, @Req() req: any): Promise<{
+    success: boolean;
+    language: string;
+    segments: SubtitleSegment[];
+    srt: string;
+    vtt: string;
+  }> {
+    const mediaUrl = this.subtitles.parseAndValidateMediaUrl(dto.mediaUrl, 'mediaUrl');
+    const language = dto.language ?? 'zh';
+    const segments = await this.charged(req, {
+      serviceType: 'video-subtitle-asr',
+      model: 'tencent-asr-file',
+      projectId: dto.projectId,
+      requestParams: { language },
+      run: () => this.subtitles.transcribe({ mediaUrl, language }),
+    });
+    return { success: true, language, segments, srt: buildSrt(segments), vtt: buildVtt(segments) };
+  }
+
+  @Post('burn')
+  @ApiOperation({ summary: '把字幕分段按样式烧录进视频（ffmpeg ass 滤镜）' })
+  @ApiCookieAuth('access_token')
+  @UseGuards(JwtAuthGuard)
+  async burn(@Body() dto: BurnSubtitlesDto, @Req() req: any): Promise<{
+    success: boolean;
+    videoUrl: string;
+    videoKey: string;
+    width: number;
+    height: number;
+  }> {
+    const videoUrl = this.subtitles.parseAndValidateMediaUrl(dto.videoUrl, 'videoUrl');
+    let segments: SubtitleSegment[];
+    try {
+      segments = normalizeSubtitleSegments(dto.segments);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : '字幕分段格式错误');
+    }
+    if (!segments.length) {
+      throw new BadRequestException('没有可烧录的字幕');
+    }
+    const style = normalizeSubtitleStyle(dto.style);
+    const result = await this.charged(req, {
+      serviceType: 'video-subtitle-burn',
+      model: 'ffmpeg-ass',
+      projectId: dto.projectId,
+      requestParams: { segmentCount: segments.length, style },
+      run: () => this.subtitles.burn({ videoUrl, segments, style, projectId: dto.projectId }),
+    });
+    return {
+      success: true,
+      videoUrl: result.url,
+      videoKey: result.key,
+      width: result.width,
+      height: result.height,
+    };
+  }
+
+  /** 与 video-gif 相同的计费包装：预扣 → 执行 → 成功结算 / 失败回滚，并把 ffmpeg 缺失映射为 503 */
+  private async charged<T>(
+    req: any,
+    params: {
+      serviceType: ServiceType;
+      model: string;
+      projectId?: string;
+      requestParams: Record<string, unknown>;
+      run: () => Promise<T>;
+    },
+  ): Promise<T> {
+    const userId = this.getUserId(req);
+    if (!userId) {
+      throw new BadRequestException('需要用户认证');
+    }
+    // 产物写在 projects/{projectId}/ 下，先确认调用者能访问该项目
+    if (params.projectId) {
+      await this.projects.assertProjectAccess(userId, params.projectId, req?.user?.role);
+    }
+    const startTime = Date.now();
+    let chargeHandle: ChargeHandle | null = null;
+    try {
+      await this.creditsService.getOrCreateAccount(userId);
+      chargeHandle = await this.creditCharge!.begin({
+        userId,
+        teamId: req?.headers?.['x-team-id'] as string | undefined,
+        serviceType: params.serviceType,
+        model: params.model,
+        requestParams: params.requestParams,
+        ipAddress: req?.ip,
+        userAgent: req?.headers?.['user-agent'],
+        idempotencyKey: this.extractIdempotencyKey(req),
+        projectId: req?.headers?.['x-project-id'] || params.projectId,
+      });
+      const result = await params.run();
+      await this.creditCharge!.commit(chargeHandle, { processingTime: Date.now() - startTime });
+      return result;
+    } catch (err: any) {
+      const message = err?.message || `${params.serviceType} failed`;
+      if (chargeHandle) {
+        await this.creditCharge!.rollback(chargeHandle, {
+          errorMessage: message,
+          processingTime: Date.now() - startTime,
+        }).catch((rollbackError) => {
+          this.logger.error(
+            `Failed to rollback ${params.serviceType} charge: ${
+              rollbackError instanceof Error ? rollbackError.message : String(rollbackError)
+            }`,
+          );
+        });
+      }
+      if (message.includes('ffmpeg not installed') || message.includes('ffprobe not installed')) {
+        throw new ServiceUnavailableException(message);
+      }
+      if (err instanceof HttpException) {
+        throw err;
+      }
+      throw new BadGatewayException(message);
+    }
+  }
+
+  private getUserId(req: any): string | null {
+    return req?.user?.id || req?.user?.sub || null;
+  }
+
+  private extractIdempotencyKey(req: any): string | undefined {
+    const raw = req?.headers?.['idempotency-key'] || req?.headers?.['x-idempotency-key'];
+    if (Array.isArray(raw)) {
+      const first = raw.find((item) => typeof item === 'string' && item.trim().length > 0);
+      return typeof first === 'string' ? first.trim().slice(0, 128) : undefined;
+    }
+    if (typeof raw === 'string' && raw.trim().length > 0) {
+      return raw.trim().slice(0, 128);
+    }
+    return undefined;
+  }
+}
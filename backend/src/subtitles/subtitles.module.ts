@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { CreditsModule } from '../credits/credits.module';
+import { OssModule } from '../oss/oss.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { TeamCreditsModule } from '../team-credits/team-credits.module';
+import { SubtitlesController } from './subtitles.controller';
+import { SubtitlesService } from './subtitles.service';
+import { TencentFileAsrService } from './tencent-file-asr.service';
+
+@Module({
+  imports: [OssModule, CreditsModule, TeamCreditsModule, ProjectsModule],
+  controllers: [SubtitlesController],
+  providers: [SubtitlesService, TencentFileAsrService],
+})
+export class SubtitlesModule {}
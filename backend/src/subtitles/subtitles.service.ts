@@ -0,0 +1,215 @@
+import { BadRequestException, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OssService } from '../oss/oss.service';
+import {
+  buildAssDocument,
+  buildBurnFfmpegArgs,
+  buildExtractAudioFfmpegArgs,
+  type SubtitleSegment,
+  type SubtitleStyle,
+} from './subtitle-format';
+import { TENCENT_ASR_MAX_INLINE_BYTES, TencentFileAsrService, type SubtitleAsrLanguage } from './tencent-file-asr.service';
+
+const DEFAULT_FONT_NAME = 'Noto Sans CJK SC';
+const EXTRACT_TIMEOUT_MS = 180_000;
+const BURN_TIMEOUT_MS = 600_000;
+
+/**
+ * 字幕节点的服务端流水线：
+ * - transcribe：ffmpeg 抽 16k 单声道音轨 → 腾讯录音文件识别 → 带时间戳的分段
+ * - burn：ffprobe 取分辨率 → 生成 ASS → ffmpeg ass 滤镜重编码（参数与视频水印一致）→ 上传 OSS
+ */
+@Injectable()
+export class SubtitlesService {
+  private readonly logger = new Logger(SubtitlesService.name);
+
+  constructor(
+    private readonly oss: OssService,
+    private readonly asr: TencentFileAsrService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /** 与 video-gif 相同：只接受本站 OSS/CDN 上的媒体，避免把 ffmpeg 当成任意 URL 抓取器 */
+  parseAndValidateMediaUrl(rawUrl: unknown, field: string): string {
+    if (!rawUrl || typeof rawUrl !== 'string') {
+      throw new BadRequestException(`${field} is required`);
+    }
+    let parsed: URL;
+    try {
+      parsed = new URL(rawUrl.trim());
+    } catch {
+      throw new BadRequestException(`Invalid ${field}`);
+    }
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      throw new BadRequestException(`Unsupported ${field} protocol`);
+    }
+    const hostname = parsed.hostname;
+    const allowedHosts = this.oss.allowedPublicHosts();
+    const isAllowed = allowedHosts.some((allowed) => hostname === allowed || hostname.endsWith(`.${allowed}`));
+    if (!isAllowed) {
+      throw new BadRequestException(`${field} host not allowed`);
+    }
+    return parsed.toString();
+  }
+
+  async transcribe(params: {
+    mediaUrl: string;
+    language: SubtitleAsrLanguage;
+  }): Promise<SubtitleSegment[]> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'subtitle-asr-'));
+    let uploadedAudioKey: string | null = null;
+    try {
+      const audioPath = path.join(tempDir, 'audio.mp3');
+      await this.runFfmpeg(buildExtractAudioFfmpegArgs(params.mediaUrl, audioPath), EXTRACT_TIMEOUT_MS);
+      const audio = await fs.readFile(audioPath).catch(() => null);
+      if (!audio || audio.byteLength === 0) {
+        throw new BadRequestException('未能从素材中提取到音轨');
+      }
+      if (audio.byteLength <= TENCENT_ASR_MAX_INLINE_BYTES) {
+        return await this.asr.recognize({ data: audio }, params.language);
+      }
+      // 超过本地上传上限：先转存 OSS 临时目录，再让腾讯按 URL 拉取，识别结束后删除
+      const { url, key } = await this.oss.putBuffer(this.buildAsrAudioKey(), audio, 'audio/mpeg');
+      if (!url) {
+        throw new ServiceUnavailableException('音轨超过 5MB 且 OSS 未启用，无法识别');
+      }
+      uploadedAudioKey = key;
+      return await this.asr.recognize({ url }, params.language);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+      if (uploadedAudioKey) {
+        const key = uploadedAudioKey;
+        await this.oss.deleteObject(key).catch((error) => {
+          this.logger.warn(`Failed to delete ASR audio ${key}: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      }
+    }
+  }
+
+  async burn(params: {
+    videoUrl: string;
+    segments: SubtitleSegment[];
+    style: SubtitleStyle;
+    projectId?: string;
+  }): Promise<{ url: string; key: string; width: number; height: number }> {
+    const started = Date.now();
+    const { width, height } = await this.probeVideoSize(params.videoUrl);
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'subtitle-burn-'));
+    try {
+      const assPath = path.join(tempDir, 'captions.ass');
+      const outputPath = path.join(tempDir, 'output.mp4');
+      const fontName = (this.config.get<string>('SUBTITLE_FONT_NAME') || DEFAULT_FONT_NAME).trim();
+      const fontsDir = (this.config.get<string>('SUBTITLE_FONTS_DIR') || '').trim() || undefined;
+      await fs.writeFile(assPath, buildAssDocument(params.segments, params.style, { width, height, fontName }), 'utf8');
+      await this.runFfmpeg(
+        buildBurnFfmpegArgs({ videoUrl: params.videoUrl, assPath, outputPath, fontsDir }),
+        BURN_TIMEOUT_MS,
+      );
+      const stat = await fs.stat(outputPath).catch(() => null);
+      if (!stat || stat.size === 0) {
+        throw new ServiceUnavailableException('ffmpeg 未生成输出文件');
+      }
+      const { url, key } = await this.oss.putStream(this.buildKey(params.projectId, 'mp4'), createReadStream(outputPath), {
+        headers: { 'Content-Type': 'video/mp4' },
+        timeout: 120000,
+      });
+      this.logger.log(`✅ Subtitles burned and uploaded: ${key} (${Date.now() - started}ms)`);
+      return { url, key, width, height };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  private buildFileName(ext: 'mp3' | 'mp4'): string {
+    return `${Date.now()}-${randomUUID().replace(/-/g, '').slice(0, 12)}.${ext}`;
+  }
+
+  /** 调用方需先校验 projectId 的访问权限（见 SubtitlesController） */
+  private buildKey(projectId: string | undefined, ext: 'mp3' | 'mp4'): string {
+    const name = this.buildFileName(ext);
+    return projectId ? `projects/${projectId}/flow/subtitles/${name}` : `uploads/flow/subtitles/${name}`;
+  }
+
+  /** 识别用的临时音轨不归属项目，识别结束即删除 */
+  private buildAsrAudioKey(): string {
+    return `uploads/flow/subtitles/asr-tmp/${this.buildFileName('mp3')}`;
+  }
+
+  private probeVideoSize(videoUrl: string): Promise<{ width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+      const ffprobe = spawn('ffprobe', [
+        '-v',
+        'error',
+        '-select_streams',
+        'v:0',
+        '-show_entries',
+        'stream=width,height',
+        '-of',
+        'csv=s=x:p=0',
+        videoUrl,
+      ]);
+      let output = '';
+      let errorOutput = '';
+      ffprobe.stdout.on('data', (data) => {
+        output += data.toString();
+      });
+      ffprobe.stderr.on('data', (data) => {
+        errorOutput += data.toString();
+      });
+      ffprobe.on('error', (err: any) => {
+        if (String(err?.code || '') === 'ENOENT') {
+          reject(new Error('ffprobe not installed on server'));
+          return;
+        }
+        reject(new Error(`ffprobe error: ${err.message}`));
+      });
+      ffprobe.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`ffprobe failed: ${errorOutput.slice(-500)}`));
+          return;
+        }
+        const [width, height] = output.trim().split('x').map((value) => parseInt(value, 10));
+        if (!width || !height) {
+          reject(new BadRequestException('素材没有视频轨，无法烧录字幕'));
+          return;
+        }
+        resolve({ width, height });
+      });
+    });
+  }
+
+  private runFfmpeg(args: string[], timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let errorOutput = '';
+      ffmpeg.stderr?.on('data', (data) => {
+        errorOutput = (errorOutput + data.toString()).slice(-2000);
+      });
+      const timer = setTimeout(() => {
+        ffmpeg.kill('SIGKILL');
+        reject(new ServiceUnavailableException('ffmpeg timeout'));
+      }, timeoutMs);
+      ffmpeg.on('error', (err: any) => {
+        clearTimeout(timer);
+        if (String(err?.code || '') === 'ENOENT') {
+          reject(new Error('ffmpeg not installed on server'));
+          return;
+        }
+        reject(new Error(`ffmpeg error: ${err.message}`));
+      });
+      ffmpeg.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(`ffmpeg failed: ${errorOutput.slice(-500)}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+}
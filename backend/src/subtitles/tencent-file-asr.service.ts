@@ -0,0 +1,197 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac } from 'crypto';
+import { segmentsFromTencentAsr, type SubtitleSegment } from './subtitle-format';
+
+const ASR_HOST = 'asr.tencentcloudapi.com';
+const ASR_SERVICE = 'asr';
+const ASR_VERSION = '2019-06-14';
+/** 录音文件识别本地上传（SourceType=1）的体积上限，超出改走 URL */
+export const TENCENT_ASR_MAX_INLINE_BYTES = 5 * 1024 * 1024;
+
+export type SubtitleAsrLanguage = 'zh' | 'en' | 'mixed';
+
+type TencentAsrSource = { data: Buffer } | { url: string };
+
+/**
+ * 腾讯云录音文件识别（CreateRecTask + DescribeTaskStatus 轮询），给字幕节点出带时间戳的分段。
+ * 与实时识别网关（asr-realtime.gateway.ts）共用 TENCENT_ASR_* 凭证，同样回退到 TENCENT_MPS_*。
+ */
+@Injectable()
+export class TencentFileAsrService {
+  private readonly logger = new Logger(TencentFileAsrService.name);
+
+  constructor(private readonly config: ConfigService) {}
+
+  async recognize(source: TencentAsrSource, language: SubtitleAsrLanguage): Promise<SubtitleSegment[]> {
+    const payload: Record<string, unknown> = {
+      EngineModelType: this.resolveEngine(language),
+      ChannelNum: 1,
+      // 3 = 按标点分段并带每段时间戳，专为字幕场景
+      ResTextFormat: 3,
+      FilterDirty: 0,
+      FilterModal: 0,
+      FilterPunc: 0,
+      ConvertNumMode: 1,
+    };
+    if ('data' in source) {
+      payload.SourceType = 1;
+      payload.Data = source.data.toString('base64');
+      payload.DataLen = source.data.byteLength;
+    } else {
+      payload.SourceType = 0;
+      payload.Url = source.url;
+    }
+
+    const created = await this.call('CreateRecTask', payload);
+    const taskId = created?.Data?.TaskId;
+    if (taskId === undefined || taskId === null) {
+      throw new BadGatewayException('腾讯语音识别未返回任务 ID');
+    }
+    this.logger.log(`ASR file task created: ${taskId} lang=${language}`);
+
+    const pollIntervalMs = this.readPositiveInt('TENCENT_ASR_FILE_POLL_INTERVAL_MS', 2_000);
+    const maxWaitMs = this.readPositiveInt('TENCENT_ASR_FILE_MAX_WAIT_MS', 10 * 60 * 1000);
+    const deadline = Date.now() + maxWaitMs;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      const status = await this.call('DescribeTaskStatus', { TaskId: taskId });
+      const data = status?.Data ?? {};
+      // 0 等待 / 1 执行中 / 2 成功 / 3 失败
+      if (data.Status === 2) {
+        const segments = segmentsFromTencentAsr(data.ResultDetail);
+        this.logger.log(`ASR file task done: ${taskId} segments=${segments.length}`);
+        return segments;
+      }
+      if (data.Status === 3) {
+        throw new BadGatewayException(`语音识别失败：${data.ErrorMsg || data.StatusStr || '未知错误'}`);
+      }
+    }
+    throw new ServiceUnavailableException('语音识别超时，请缩短音视频时长后重试');
+  }
+
+  private async call(action: string, payload: Record<string, unknown>): Promise<Record<string, any>> {
+    const { secretId, secretKey } = this.getCredentials();
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      Authorization: signTencentCloudRequest({
+        secretId,
+        secretKey,
+        service: ASR_SERVICE,
+        host: ASR_HOST,
+        body,
+        timestamp,
+      }),
+      'Content-Type': 'application/json; charset=utf-8',
+      Host: ASR_HOST,
+      'X-TC-Action': action,
+      'X-TC-Timestamp': String(timestamp),
+      'X-TC-Version': ASR_VERSION,
+    };
+    const region = this.readConfig('TENCENT_ASR_REGION');
+    if (region) headers['X-TC-Region'] = region;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), 30_000);
+    try {
+      const response = await fetch(`https://${ASR_HOST}`, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+      const rawText = await response.text();
+      if (!response.ok) {
+        throw new BadGatewayException(`腾讯语音识别 ${action} 请求失败: ${response.status}`);
+      }
+      let parsed: any;
+      try {
+        parsed = JSON.parse(rawText);
+      } catch {
+        throw new BadGatewayException(`腾讯语音识别 ${action} 返回了无法解析的 JSON`);
+      }
+      const result = parsed?.Response ?? {};
+      if (result.Error) {
+        const code = String(result.Error.Code || '');
+        const message = `腾讯语音识别 ${action} 调用失败（${code}: ${result.Error.Message || ''}）`;
+        if (code.startsWith('InvalidParameter') || code.startsWith('FailedOperation.ErrorDownFile')) {
+          throw new BadRequestException(message);
+        }
+        throw new BadGatewayException(message);
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof BadGatewayException || error instanceof BadRequestException) throw error;
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ServiceUnavailableException(`腾讯语音识别 ${action} 请求超时`);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ServiceUnavailableException(`腾讯语音识别 ${action} 请求异常: ${message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getCredentials(): { secretId: string; secretKey: string } {
+    const secretId = this.readConfig('TENCENT_ASR_SECRET_ID') || this.readConfig('TENCENT_MPS_SECRET_ID');
+    const secretKey = this.readConfig('TENCENT_ASR_SECRET_KEY') || this.readConfig('TENCENT_MPS_SECRET_KEY');
+    if (!secretId || !secretKey) {
+      throw new ServiceUnavailableException('服务端未配置 TENCENT_ASR_SECRET_ID / TENCENT_ASR_SECRET_KEY');
+    }
+    return { secretId, secretKey };
+  }
+
+  private resolveEngine(language: SubtitleAsrLanguage): string {
+    if (language === 'en') return this.readConfig('TENCENT_ASR_FILE_ENGINE_EN') || '16k_en';
+    if (language === 'mixed') return this.readConfig('TENCENT_ASR_FILE_ENGINE_MIXED') || '16k_zh_en';
+    return this.readConfig('TENCENT_ASR_FILE_ENGINE_ZH') || '16k_zh';
+  }
+
+  private readConfig(name: string): string {
+    return (this.config.get<string>(name) || process.env[name] || '').trim();
+  }
+
+  private readPositiveInt(name: string, fallback: number): number {
+    const value = Number(this.readConfig(name));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  }
+}
+
+const sha256Hex = (value: string) => createHash('sha256').update(value, 'utf8').digest('hex');
+const hmac = (key: string | Buffer, value: string) => createHmac('sha256', key).update(value, 'utf8').digest();
+
+/** 腾讯云 API 3.0 的 TC3-HMAC-SHA256 签名（POST + JSON，签 content-type 与 host 两个头） */
+export function signTencentCloudRequest(params: {
+  secretId: string;
+  secretKey: string;
+  service: string;
+  host: string;
+  body: string;
+  timestamp: number;
+}): string {
+  const date = new Date(params.timestamp * 1000).toISOString().slice(0, 10);
+  const canonicalRequest = [
+    'POST',
+    '/',
+    '',
+    `content-type:application/json; charset=utf-8\nhost:${params.host}\n`,
+    'content-type;host',
+    sha256Hex(params.body),
+  ].join('\n');
+  const credentialScope = `${date}/${params.service}/tc3_request`;
+  const stringToSign = ['TC3-HMAC-SHA256', String(params.timestamp), credentialScope, sha256Hex(canonicalRequest)].join(
+    '\n',
+  );
+  const secretDate = hmac(`TC3${params.secretKey}`, date);
+  const secretService = hmac(secretDate, params.service);
+  const secretSigning = hmac(secretService, 'tc3_request');
+  const signature = createHmac('sha256', secretSigning).update(stringToSign, 'utf8').digest('hex');
+  return `TC3-HMAC-SHA256 Credential=${params.secretId}/${credentialScope}, SignedHeaders=content-type;host, Signature=${signature}`;
+}
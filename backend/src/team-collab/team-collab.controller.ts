@@ -30,6 +30,7 @@ import {
   CursorPayload,
   NodeLockPayload,
   ToastPayload,
+  sanitizeCursorViewport,
 } from './types';
 
 const POST_RATE_LIMIT_PER_SEC = 30;
@@ -195,7 +196,7 @@ export class TeamCollabController {
         avatarUrl: profile.avatarUrl,
         x: dto.x,
         y: dto.y,
-        viewport: dto.viewport as CursorPayload['viewport'],
+        viewport: sanitizeCursorViewport(dto.viewport),
       },
       ts: Date.now(),
       senderConnId: dto.connId,
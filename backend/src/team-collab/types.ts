@@ -12,7 +12,8 @@ export type CollabEventType =
   | 'team_projects_changed'
   | 'comment_marker_move'
   | 'team_credits_changed'
-  | 'user_credits_changed';
+  | 'user_credits_changed'
+  | 'notification';
 
 export interface CollabEnvelope<T = unknown> {
   type: CollabEventType;
@@ -30,7 +31,32 @@ export interface CursorPayload {
   color?: string;
   x: number;
   y: number;
-  viewport?: { zoom?: number; offsetX?: number; offsetY?: number };
+  viewport?: CursorViewport;
+}
+
+/** 发送端可见区域，与光标同为 DPR 无关的共享坐标；zoom 为发送端缩放倍率。 */
+export interface CursorViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  zoom: number;
+}
+
+/** 光标帧里的 viewport 由客户端任意上送，只保留合法的数值字段，非法则丢弃。 */
+export function sanitizeCursorViewport(value: unknown): CursorViewport | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const v = value as Record<string, unknown>;
+  const keys = ['x', 'y', 'width', 'height', 'zoom'] as const;
+  if (!keys.every((k) => typeof v[k] === 'number' && Number.isFinite(v[k] as number))) return undefined;
+  if ((v.width as number) <= 0 || (v.height as number) <= 0 || (v.zoom as number) <= 0) return undefined;
+  return {
+    x: v.x as number,
+    y: v.y as number,
+    width: v.width as number,
+    height: v.height as number,
+    zoom: v.zoom as number,
+  };
 }
 
 export interface PresenceUserPayload {
@@ -48,15 +74,24 @@ export interface NodePatchPayload {
 }
 
 /**
- * 画布(Paper.js)图片对象的协作 patch。仅同步「图片」对象(有稳定 imageId 的 Raster/Group)：
- * 移动/缩放=upsertImages 携带 {imageId, bounds, ...}; 插入=携带完整快照; 删除=removeImageIds。
- * 笔迹/涂鸦不走此通道(无逐笔 id, 走保存+广播, 且本在规格"不做"列表)。
+ * 画布(Paper.js)对象的协作 patch，后端只转发不解析：
+ * - 图片/路径：移动/缩放=upsert* 携带 {imageId|pathId, bounds, ...}; 插入=携带完整快照; 删除=remove*Ids。
+ * - 文本/3D 模型：upsertTexts/upsertModels 为完整快照，删除=removeTextIds/removeModelIds。
+ * - 图层：新建/改名/显隐/锁定=upsertLayers; 删除=removeLayerIds; layerOrder 为全量 id 顺序。
+ * 每条 patch 分配与 CollabEventLog 同源的 seq，前端按实体丢弃更旧的 patch。
  */
 export interface CanvasPatchPayload {
   upsertImages?: unknown[];
   removeImageIds?: string[];
   upsertPaths?: unknown[];
   removePathIds?: string[];
+  upsertTexts?: unknown[];
+  removeTextIds?: string[];
+  upsertModels?: unknown[];
+  removeModelIds?: string[];
+  upsertLayers?: unknown[];
+  removeLayerIds?: string[];
+  layerOrder?: string[];
 }
 
 export type NodeLockAction = 'claim' | 'release' | 'expired' | 'renewed';
@@ -170,6 +205,22 @@ export interface UserCreditsChangedPayload {
   reason: string;
 }
 
+/**
+ * 站内通知推送（发往 user:{userId} 频道）：携带新通知与最新未读数，
+ * 客户端据此更新铃铛角标；通知本身已落库，离线用户下次拉列表即可看到。
+ */
+export interface NotificationPushPayload {
+  notification: {
+    id: string;
+    type: string;
+    actorId: string | null;
+    data: Record<string, unknown>;
+    readAt: string | null;
+    createdAt: string;
+  };
+  unreadCount: number;
+}
+
 export const PERSISTED_EVENT_TYPES: ReadonlySet<CollabEventType> = new Set([
   'node_patch',
   'canvas_patch',
@@ -12,7 +12,13 @@ import {
   channelForUser,
 } from './collab-event-bus.service';
 import { CollabEventLog } from './collab-event-log.service';
-import { CollabEnvelope, CommentMarkerMovePayload, CursorPayload, PresenceUserPayload } from './types';
+import {
+  CollabEnvelope,
+  CommentMarkerMovePayload,
+  CursorPayload,
+  PresenceUserPayload,
+  sanitizeCursorViewport,
+} from './types';
 
 const WS_PATH = '/ws/collab';
 const HEARTBEAT_MS = 25_000;
@@ -23,6 +29,7 @@ const HEARTBEAT_MS = 25_000;
 const FORWARD_TYPES: ReadonlySet<string> = new Set([
   'team_credits_changed',
   'user_credits_changed',
+  'notification',
   'cursor',
   'task_status',
   'presence_join',
@@ -319,7 +326,7 @@ export class WsCollabGateway implements OnModuleDestroy {
           avatarUrl: conn.avatarUrl,
           x: p.x,
           y: p.y,
-          viewport: p.viewport,
+          viewport: sanitizeCursorViewport(p.viewport),
         },
         ts: Date.now(),
         senderUserId: conn.userId,
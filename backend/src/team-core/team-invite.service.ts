@@ -1,7 +1,8 @@
 import {
-  Injectable, ForbiddenException, NotFoundException, BadRequestException,
+  Injectable, ForbiddenException, NotFoundException, BadRequestException, Optional,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
 import { TeamCoreService } from './team-core.service';
 import { InviteMemberDto } from './dto/invite-member.dto';
 
@@ -10,6 +11,7 @@ export class TeamInviteService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly teamCore: TeamCoreService,
+    @Optional() private readonly notifications?: NotificationsService,
   ) {}
 
   async createInvite(teamId: string, inviterUserId: string, dto: InviteMemberDto) {
@@ -22,7 +24,7 @@ export class TeamInviteService {
       ? new Date(Date.now() + dto.expiresInDays * 86400_000)
       : null;
 
-    return this.prisma.teamInvite.create({
+    const invite = await this.prisma.teamInvite.create({
       data: {
         teamId,
         code,
@@ -32,6 +34,51 @@ export class TeamInviteService {
         expiresAt,
       },
     });
+    void this.notifyInvitee(invite, team.name);
+    return invite;
+  }
+
+  /** 邀请指定了邮箱/手机号且对应已注册用户时，给该用户发站内通知（含邀请码，可直接接受）。 */
+  private async notifyInvitee(
+    invite: { teamId: string; code: string; email: string | null; phone: string | null; inviterUserId: string; expiresAt: Date | null },
+    teamName: string,
+  ): Promise<void> {
+    if (!this.notifications || (!invite.email && !invite.phone)) return;
+    try {
+      const invitee = await this.prisma.user.findFirst({
+        where: {
+          OR: [
+            ...(invite.email ? [{ email: invite.email }] : []),
+            ...(invite.phone ? [{ phone: invite.phone }] : []),
+          ],
+        },
+        select: { id: true },
+      });
+      if (!invitee) return;
+      const alreadyMember = await this.prisma.teamMembership.findUnique({
+        where: { teamId_userId: { teamId: invite.teamId, userId: invitee.id } },
+        select: { userId: true },
+      });
+      if (alreadyMember) return;
+      const inviter = await this.prisma.user.findUnique({
+        where: { id: invite.inviterUserId },
+        select: { name: true },
+      });
+      await this.notifications.notify({
+        userId: invitee.id,
+        type: 'team_invite',
+        actorId: invite.inviterUserId,
+        data: {
+          teamId: invite.teamId,
+          teamName,
+          inviteCode: invite.code,
+          inviterName: inviter?.name ?? null,
+          expiresAt: invite.expiresAt?.toISOString() ?? null,
+        },
+      });
+    } catch {
+      // 通知是附带行为，忽略
+    }
   }
 
   async listInvites(teamId: string, requestingUserId: string) {
@@ -1,9 +1,10 @@
 import { Injectable, BadRequestException, Logger, Optional } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreditsService } from '../credits/credits.service';
+import { CreditsService, type ProjectBudgetAlert } from '../credits/credits.service';
 import { ApiResponseStatus } from '../credits/dto/credits.dto';
 import type { ServiceType } from '../credits/credits.config';
 import { TeamCreditLedgerService } from './team-credit-ledger.service';
+import { ProjectBudgetService } from '../project-budget/project-budget.service';
 
 export interface ChargeBeginInput {
   userId: string;
@@ -17,6 +18,9 @@ export interface ChargeBeginInput {
   ipAddress?: string;
   userAgent?: string;
   idempotencyKey?: string;
+  /** 用量归属的项目 / 节点（x-project-id 请求头、DTO nodeId 等）；项目设了预算时在预扣中检查 */
+  projectId?: string;
+  nodeId?: string;
 }
 
 export interface ChargeHandle {
@@ -52,8 +56,14 @@ export class CreditChargeService {
     private readonly prisma: PrismaService,
     private readonly credits: CreditsService,
     @Optional() private readonly ledger?: TeamCreditLedgerService,
+    @Optional() private readonly projectBudget?: ProjectBudgetService,
   ) {}
 
+  /** 扣费新跨过项目预算阈值时通知项目成员（不阻塞计费）。 */
+  notifyProjectBudgetAlert(alert: ProjectBudgetAlert | undefined, actorUserId: string): void {
+    if (alert) void this.projectBudget?.notifyThresholdCrossed(alert, actorUserId);
+  }
+
   /** 判定原始 teamId 是否为团队出资（存在、有账本、且非个人团队）。 */
   async resolveTeamFunding(
     teamId?: string | null,
@@ -89,7 +99,10 @@ export class CreditChargeService {
       userAgent: input.userAgent,
       idempotencyKey: input.idempotencyKey,
       skipPersonalDeduction: funded,
+      projectId: input.projectId,
+      nodeId: input.nodeId,
     });
+    this.notifyProjectBudgetAlert(deduct.projectBudgetAlert, input.userId);
 
     const handle: ChargeHandle = {
       apiUsageId: deduct.apiUsageId,
@@ -4,6 +4,7 @@ import { TeamCoreModule } from '../team-core/team-core.module';
 import { PaymentModule } from '../payment/payment.module';
 import { TeamCollabModule } from '../team-collab/team-collab.module';
 import { CreditsModule } from '../credits/credits.module';
+import { ProjectBudgetModule } from '../project-budget/project-budget.module';
 import { TeamCreditsController } from './team-credits.controller';
 import { TeamCreditsService } from './team-credits.service';
 import { TeamCreditLedgerService } from './team-credit-ledger.service';
@@ -12,7 +13,7 @@ import { TeamSeatPackageService } from './team-seat-package.service';
 import { TeamCreditsTopupService } from './team-credits-topup.service';
 
 @Module({
-  imports: [PrismaModule, TeamCoreModule, PaymentModule, TeamCollabModule, CreditsModule],
+  imports: [PrismaModule, TeamCoreModule, PaymentModule, TeamCollabModule, CreditsModule, ProjectBudgetModule],
   controllers: [TeamCreditsController],
   providers: [
     TeamCreditsService,
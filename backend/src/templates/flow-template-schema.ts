@@ -0,0 +1,118 @@
+/**
+ * Flow 模板 schema 升级与输入声明校验（与前端 src/utils/flowTemplateInputs.ts 保持一致）。
+ *
+ * - schemaVersion 1：只有 nodes / edges；
+ * - schemaVersion 2：额外声明 inputs（text / image / enum / number），每个输入绑定到
+ *   若干节点 data 字段，实例化时由前端弹表单收集并写回。
+ *
+ * 用户模板（UserTemplate.templateData）与公共模板（PublicTemplate.templateData）在写入与
+ * 读取时都经过 migrateFlowTemplateData：V1 升级为 inputs 为空的 V2，非法输入声明被丢弃。
+ * 纯函数，不抛错；非对象输入原样返回，交由调用方按原有逻辑处理。
+ */
+
+export const FLOW_TEMPLATE_SCHEMA_VERSION = 2;
+
+type AnyRecord = Record<string, unknown>;
+
+const INPUT_TYPES = new Set(['text', 'image', 'enum', 'number']);
+const MAX_INPUTS = 32;
+const MAX_BINDINGS_PER_INPUT = 16;
+
+const isRecord = (value: unknown): value is AnyRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toTrimmedString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const toFiniteNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'string' && !value.trim()) return undefined;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+function normalizeOptions(raw: unknown): Array<{ value: string; label?: string }> {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const options: Array<{ value: string; label?: string }> = [];
+  for (const item of raw) {
+    const value = isRecord(item) ? toTrimmedString(item.value) : toTrimmedString(item);
+    if (!value || seen.has(value)) continue;
+    seen.add(value);
+    const label = isRecord(item) ? toTrimmedString(item.label) : '';
+    options.push(label ? { value, label } : { value });
+  }
+  return options;
+}
+
+/** 校验输入声明：类型非法、绑定节点不存在、枚举无选项的输入被丢弃，key 去重。 */
+export function normalizeFlowTemplateInputs(raw: unknown, nodes: unknown[]): AnyRecord[] {
+  if (!Array.isArray(raw)) return [];
+  const nodeIds = new Set(
+    nodes.filter(isRecord).map((node) => String(node.id ?? '')).filter(Boolean),
+  );
+  const keys = new Set<string>();
+  const inputs: AnyRecord[] = [];
+
+  for (const item of raw) {
+    if (inputs.length >= MAX_INPUTS) break;
+    if (!isRecord(item)) continue;
+    const key = toTrimmedString(item.key);
+    const type = toTrimmedString(item.type);
+    if (!key || keys.has(key) || !INPUT_TYPES.has(type)) continue;
+
+    const bindings: Array<{ nodeId: string; field: string }> = [];
+    if (Array.isArray(item.bindings)) {
+      for (const binding of item.bindings) {
+        if (!isRecord(binding) || bindings.length >= MAX_BINDINGS_PER_INPUT) continue;
+        const nodeId = toTrimmedString(binding.nodeId);
+        const field = toTrimmedString(binding.field);
+        if (!nodeId || !field || !nodeIds.has(nodeId)) continue;
+        if (field.split('.').some((part) => !part || part === '__proto__')) continue;
+        bindings.push({ nodeId, field });
+      }
+    }
+    if (!bindings.length) continue;
+
+    const input: AnyRecord = { key, label: toTrimmedString(item.label) || key, type, bindings };
+    const description = toTrimmedString(item.description);
+    if (description) input.description = description;
+    const placeholder = toTrimmedString(item.placeholder);
+    if (placeholder) input.placeholder = placeholder;
+    if (item.required === true) input.required = true;
+
+    if (type === 'enum') {
+      const options = normalizeOptions(item.options);
+      if (!options.length) continue;
+      input.options = options;
+      const fallback = toTrimmedString(item.default);
+      if (options.some((option) => option.value === fallback)) input.default = fallback;
+    } else if (type === 'number') {
+      const min = toFiniteNumber(item.min);
+      const max = toFiniteNumber(item.max);
+      const step = toFiniteNumber(item.step);
+      if (min !== undefined) input.min = min;
+      if (max !== undefined) input.max = max;
+      if (step !== undefined && step > 0) input.step = step;
+      const fallback = toFiniteNumber(item.default);
+      if (fallback !== undefined) input.default = fallback;
+    } else if (typeof item.default === 'string') {
+      input.default = item.default;
+    }
+
+    keys.add(key);
+    inputs.push(input);
+  }
+  return inputs;
+}
+
+/** 把任意版本的模板数据升级为 schemaVersion 2。 */
+export function migrateFlowTemplateData<T>(raw: T): T {
+  if (!isRecord(raw)) return raw;
+  const nodes = Array.isArray(raw.nodes) ? raw.nodes : [];
+  return {
+    ...raw,
+    schemaVersion: FLOW_TEMPLATE_SCHEMA_VERSION,
+    nodes,
+    edges: Array.isArray(raw.edges) ? raw.edges : [],
+    inputs: normalizeFlowTemplateInputs(raw.inputs, nodes),
+  } as T;
+}
@@ -3,6 +3,7 @@ import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { FastifyRequest } from 'fastify';
 import { JwtAuthGuard } from '../auth/guards/jwt.guard';
 import { TemplateService } from '../admin/services/template.service';
+import { migrateFlowTemplateData } from './flow-template-schema';
 
 interface AuthenticatedUser {
   id?: string;
@@ -51,7 +52,7 @@ export class TemplatesController {
         throw new ForbiddenException('该模板仅限 VIP 用户使用');
       }
     }
-    return template.templateData;
+    return migrateFlowTemplateData(template.templateData);
   }
 }
 
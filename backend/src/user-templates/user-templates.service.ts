@@ -3,6 +3,7 @@ import { randomUUID } from 'crypto';
 import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { sanitizeDesignJson } from '../utils/designJsonSanitizer';
+import { migrateFlowTemplateData } from '../templates/flow-template-schema';
 
 type UserTemplateListItem = {
   id: string;
@@ -78,9 +79,10 @@ export class UserTemplatesService {
       throw new NotFoundException('模板不存在');
     }
 
+    // 存量 V1 模板读取时升级为 V2（inputs 为空），前端无需区分版本
     const data =
       template.templateData && typeof template.templateData === 'object' && !Array.isArray(template.templateData)
-        ? ({ ...(template.templateData as Record<string, unknown>) } as Record<string, unknown>)
+        ? migrateFlowTemplateData({ ...(template.templateData as Record<string, unknown>) } as Record<string, unknown>)
         : {};
 
     data.id = template.id;
@@ -190,7 +192,7 @@ export class UserTemplatesService {
       throw new BadRequestException('template 必须是对象');
     }
     const templateData = {
-      ...(asObject as Record<string, unknown>),
+      ...migrateFlowTemplateData(asObject as Record<string, unknown>),
       id,
       name,
       category: category ?? undefined,
@@ -14,6 +14,7 @@ import { AppLoadingIndicator } from '@/components/AppLoadingIndicator';
 import { useTranslation } from 'react-i18next';
 import { TeamInviteConfirmModal } from '@/components/team/TeamInviteConfirmModal';
 import { useTeamRealtime } from '@/hooks/useTeamRealtime';
+import { useNotificationSync } from '@/hooks/useNotificationSync';
 import { useProjectContentStore } from '@/stores/projectContentStore';
 import CampaignNoticeBar from '@/components/layout/CampaignNoticeBar';
 import { isCampaignNoticeAvailable } from '@/components/layout/campaignNoticeConfig';
@@ -74,6 +75,7 @@ const MobileWarning: React.FC = () => {
 const App: React.FC = () => {
   const { t, i18n } = useTranslation();
   useTeamRealtime();
+  useNotificationSync();
   const [isMobile, setIsMobile] = useState<boolean>(() => isMobileDevice());
   const [showPromptDemo, setShowPromptDemo] = useState<boolean>(() => {
     if (typeof window === 'undefined') {
@@ -2,6 +2,7 @@ import React, { createContext, useCallback, useContext, useEffect } from 'react'
 import { useProjectStore } from '@/stores/projectStore';
 import { useCanvasCollab, type CanvasCollabHandle } from '@/hooks/useCanvasCollab';
 import { collabCanvasBridge } from './collabCanvasBridge';
+import { startCollabLayerSync } from './collabLayerSync';
 
 /**
  * 共享的画布协作句柄。此前 useCanvasCollab 只在 CollabRoot 内部实例化，
@@ -32,9 +33,10 @@ export const CollabProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     onSnapshotRequired,
   });
 
-  // 画布图片协作桥：订阅远端 canvas_patch 并以 window 事件下发给画布层。
+  // 画布协作桥：订阅远端 canvas_patch 并以 window 事件下发给画布层；图层不挂在某个画布钩子上，单独同步。
   useEffect(() => {
     collabCanvasBridge.init();
+    return startCollabLayerSync();
   }, []);
 
   return <CollabContext.Provider value={collab}>{children}</CollabContext.Provider>;
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  diffEntitySnapshots,
+  diffLayerLists,
+  filterCanvasPatchBySeq,
+  isCanvasPatchEmpty,
+  markCanvasPatchSeq,
+  mergeCanvasPatches,
+  type EntitySeqMap,
+} from './canvasPatchSync.ts';
+import type { ModelAssetSnapshot, TextAssetSnapshot } from '@/types/project';
+
+const text = (id: string, content: string, x = 0): TextAssetSnapshot => ({
+  id,
+  content,
+  position: { x, y: 0 },
+  style: {
+    fontFamily: 'sans-serif',
+    fontWeight: 'normal',
+    fontSize: 24,
+    color: '#000000',
+    align: 'left',
+    italic: false,
+  },
+  layerId: 'l1',
+});
+
+const model = (id: string): ModelAssetSnapshot => ({
+  id,
+  url: `https://cdn.example.com/${id}.glb`,
+  format: 'glb',
+  fileName: `${id}.glb`,
+  fileSize: 1024,
+  defaultScale: { x: 1, y: 1, z: 1 },
+  defaultRotation: { x: 0, y: 0, z: 0 },
+  timestamp: 0,
+  bounds: { x: 0, y: 0, width: 100, height: 100 },
+  layerId: 'l1',
+});
+
+test('merging pending patches keeps the latest upsert and lets later removes win', () => {
+  const merged = mergeCanvasPatches(
+    { upsertTexts: [text('t1', 'a')], upsertImages: [{ imageId: 'i1', bounds: { x: 0 } }] },
+    { upsertTexts: [text('t1', 'b')], removeImageIds: ['i1'] },
+  );
+  assert.deepEqual(merged.upsertTexts?.map((t) => t.content), ['b']);
+  assert.equal(merged.upsertImages, undefined);
+  assert.deepEqual(merged.removeImageIds, ['i1']);
+
+  // 删了又撤销恢复：后到的 upsert 覆盖之前的 remove
+  const revived = mergeCanvasPatches({ removeModelIds: ['m1'] }, { upsertModels: [model('m1')] });
+  assert.equal(revived.removeModelIds, undefined);
+  assert.deepEqual(revived.upsertModels?.map((m) => m.id), ['m1']);
+});
+
+test('layer order in a merged patch is the most recent one', () => {
+  const merged = mergeCanvasPatches({ layerOrder: ['a', 'b'] }, { upsertLayers: [{ id: 'a', name: 'A', visible: false }] });
+  assert.deepEqual(merged.layerOrder, ['a', 'b']);
+  assert.deepEqual(mergeCanvasPatches(merged, { layerOrder: ['b', 'a'] }).layerOrder, ['b', 'a']);
+  assert.equal(isCanvasPatchEmpty(mergeCanvasPatches(null, {})), true);
+});
+
+test('snapshot diff reports changed and removed entities against the baseline', () => {
+  const first = diffEntitySnapshots(new Map(), [text('t1', 'a'), text('t2', 'b')]);
+  assert.deepEqual(first.upserts.map((t) => t.id), ['t1', 't2']);
+
+  const second = diffEntitySnapshots(first.next, [text('t1', 'a', 10)]);
+  assert.deepEqual(second.upserts.map((t) => t.id), ['t1']);
+  assert.deepEqual(second.removeIds, ['t2']);
+
+  const third = diffEntitySnapshots(second.next, [text('t1', 'a', 10)]);
+  assert.equal(third.upserts.length, 0);
+  assert.equal(third.removeIds.length, 0);
+});
+
+test('layer diff covers create, rename, visibility, delete and reorder', () => {
+  const prev = [
+    { id: 'a', name: 'A', visible: true },
+    { id: 'b', name: 'B', visible: true },
+  ];
+  assert.deepEqual(diffLayerLists(prev, prev), {});
+
+  const renamed = diffLayerLists(prev, [{ id: 'a', name: 'A2', visible: true }, { id: 'b', name: 'B', visible: false }]);
+  assert.deepEqual(renamed.upsertLayers?.map((l) => l.id), ['a', 'b']);
+  assert.equal(renamed.layerOrder, undefined);
+
+  const reordered = diffLayerLists(prev, [prev[1], prev[0]]);
+  assert.deepEqual(reordered.layerOrder, ['b', 'a']);
+  assert.equal(reordered.upsertLayers, undefined);
+
+  const created = diffLayerLists(prev, [...prev, { id: 'c', name: 'C', visible: true }]);
+  assert.deepEqual(created.upsertLayers?.map((l) => l.id), ['c']);
+  assert.deepEqual(created.layerOrder, ['a', 'b', 'c']);
+
+  const removed = diffLayerLists(prev, [prev[0]]);
+  assert.deepEqual(removed.removeLayerIds, ['b']);
+  assert.equal(removed.layerOrder, undefined);
+});
+
+test('stale remote patches are dropped per entity', () => {
+  const seqs: EntitySeqMap = new Map();
+  assert.ok(filterCanvasPatchBySeq(seqs, { upsertTexts: [text('t1', 'new')] }, 10));
+
+  // 乱序到达的旧 patch：t1 已有更新的 seq，被丢弃；t2 不受影响
+  const stale = filterCanvasPatchBySeq(seqs, { upsertTexts: [text('t1', 'old'), text('t2', 'x')] }, 8);
+  assert.deepEqual(stale?.upsertTexts?.map((t) => t.id), ['t2']);
+
+  assert.equal(filterCanvasPatchBySeq(seqs, { removeTextIds: ['t1'] }, 9), null);
+  assert.deepEqual(filterCanvasPatchBySeq(seqs, { removeTextIds: ['t1'] }, 11)?.removeTextIds, ['t1']);
+});
+
+test('own sends are ordered against remote patches by the server seq', () => {
+  const seqs: EntitySeqMap = new Map();
+  markCanvasPatchSeq(seqs, { layerOrder: ['a', 'b'], upsertLayers: [{ id: 'a', name: 'A', visible: true }] }, 20);
+
+  assert.equal(filterCanvasPatchBySeq(seqs, { layerOrder: ['b', 'a'] }, 19), null);
+  const newer = filterCanvasPatchBySeq(seqs, { layerOrder: ['b', 'a'], upsertLayers: [{ id: 'a', name: 'X', visible: true }] }, 21);
+  assert.deepEqual(newer?.layerOrder, ['b', 'a']);
+  assert.equal(newer?.upsertLayers?.[0].name, 'X');
+
+  // 没有 seq（降级通道）原样放行
+  assert.deepEqual(filterCanvasPatchBySeq(seqs, { removeLayerIds: ['a'] }, undefined), { removeLayerIds: ['a'] });
+});
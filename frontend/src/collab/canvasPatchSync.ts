@@ -0,0 +1,250 @@
+import type { CanvasPatchPayload, CanvasLayerPatchItem } from './types';
+
+/**
+ * canvas_patch 的纯逻辑部分（合并 / 快照 diff / 按实体 seq 排序），不依赖 Paper 与 store，
+ * 由 collabCanvasBridge 与各画布钩子调用。
+ *
+ * 顺序保证：后端对每个 canvas_patch 分配项目内单调递增的 seq（与 CollabEventLog 同源）。
+ * 同一实体（text:id / model:id / layer:id / 图层顺序）只接受比「已应用或已发出」更新的 seq，
+ * 乱序到达的旧 patch 不会覆盖新状态；不同实体之间互不影响。
+ */
+
+export type EntityBaseline = Map<string, string>;
+
+export type EntitySeqMap = Map<string, number>;
+
+const LAYER_ORDER_KEY = 'layer-order';
+
+const MAX_TRACKED_ENTITIES = 2000;
+
+const readId = (item: object | null | undefined, idKey: string): unknown =>
+  item ? (item as Record<string, unknown>)[idKey] : undefined;
+
+function dedupById<T extends object>(
+  arr: T[] | undefined,
+  idKey: string,
+): T[] | undefined {
+  if (!arr || arr.length === 0) return undefined;
+  const byId = new Map<string, T>();
+  const noId: T[] = [];
+  for (const it of arr) {
+    const id = readId(it, idKey);
+    if (typeof id === 'string') {
+      // 先删后插，保证合并后顺序跟最后一次出现一致
+      byId.delete(id);
+      byId.set(id, it);
+    } else {
+      noId.push(it);
+    }
+  }
+  return [...noId, ...byId.values()];
+}
+
+function unionIds(a?: string[], b?: string[]): string[] | undefined {
+  const ids = [...new Set([...(a ?? []), ...(b ?? [])])];
+  return ids.length ? ids : undefined;
+}
+
+/**
+ * 合并两个待发 patch：upsert 按 id 保留最新，remove 取并集。
+ * 同一实体先 upsert 后 remove（或反之）以后到的为准，避免接收端先删后又被旧 upsert 复活。
+ */
+export function mergeCanvasPatches(
+  prev: CanvasPatchPayload | null,
+  next: CanvasPatchPayload,
+): CanvasPatchPayload {
+  const base = prev ?? {};
+  const merge = <T extends object>(
+    prevUpserts: T[] | undefined,
+    prevRemoved: string[] | undefined,
+    nextUpserts: T[] | undefined,
+    nextRemoved: string[] | undefined,
+    idKey: string,
+  ): [T[] | undefined, string[] | undefined] => {
+    const removedNow = new Set(nextRemoved ?? []);
+    const upsertedNow = new Set((nextUpserts ?? []).map((it) => readId(it, idKey)));
+    const upserts = dedupById(
+      [...(prevUpserts ?? []).filter((it) => !removedNow.has(readId(it, idKey) as string)), ...(nextUpserts ?? [])],
+      idKey,
+    );
+    const removed = unionIds((prevRemoved ?? []).filter((id) => !upsertedNow.has(id)), nextRemoved);
+    return [upserts, removed];
+  };
+
+  const [upsertImages, removeImageIds] = merge(
+    base.upsertImages, base.removeImageIds, next.upsertImages, next.removeImageIds, 'imageId',
+  );
+  const [upsertPaths, removePathIds] = merge(
+    base.upsertPaths, base.removePathIds, next.upsertPaths, next.removePathIds, 'pathId',
+  );
+  const [upsertTexts, removeTextIds] = merge(
+    base.upsertTexts, base.removeTextIds, next.upsertTexts, next.removeTextIds, 'id',
+  );
+  const [upsertModels, removeModelIds] = merge(
+    base.upsertModels, base.removeModelIds, next.upsertModels, next.removeModelIds, 'id',
+  );
+  const [upsertLayers, removeLayerIds] = merge(
+    base.upsertLayers, base.removeLayerIds, next.upsertLayers, next.removeLayerIds, 'id',
+  );
+
+  return compactCanvasPatch({
+    upsertImages,
+    removeImageIds,
+    upsertPaths,
+    removePathIds,
+    upsertTexts,
+    removeTextIds,
+    upsertModels,
+    removeModelIds,
+    upsertLayers,
+    removeLayerIds,
+    layerOrder: next.layerOrder ?? base.layerOrder,
+  });
+}
+
+/** 去掉空数组/undefined 字段，便于判空与减少报文体积。 */
+export function compactCanvasPatch(patch: CanvasPatchPayload): CanvasPatchPayload {
+  const out: CanvasPatchPayload = {};
+  for (const [key, value] of Object.entries(patch) as Array<[keyof CanvasPatchPayload, unknown]>) {
+    if (Array.isArray(value) && value.length > 0) {
+      (out as Record<string, unknown>)[key] = value;
+    }
+  }
+  return out;
+}
+
+export function isCanvasPatchEmpty(patch: CanvasPatchPayload | null | undefined): boolean {
+  return !patch || Object.keys(compactCanvasPatch(patch)).length === 0;
+}
+
+/**
+ * 把当前实体快照和上次发出的基线做 diff：内容（JSON）变化的算 upsert，基线里有、现在没有的算 remove。
+ * 返回新的基线，调用方在发送后替换旧基线。
+ */
+export function diffEntitySnapshots<T extends { id: string }>(
+  baseline: EntityBaseline,
+  snapshots: T[],
+): { upserts: T[]; removeIds: string[]; next: EntityBaseline } {
+  const next: EntityBaseline = new Map();
+  const upserts: T[] = [];
+  for (const snapshot of snapshots) {
+    if (!snapshot?.id) continue;
+    const json = JSON.stringify(snapshot);
+    next.set(snapshot.id, json);
+    if (baseline.get(snapshot.id) !== json) upserts.push(snapshot);
+  }
+  const removeIds: string[] = [];
+  for (const id of baseline.keys()) {
+    if (!next.has(id)) removeIds.push(id);
+  }
+  return { upserts, removeIds, next };
+}
+
+/**
+ * 图层列表 diff：新建/改名/显隐/锁定 → upsertLayers，删除 → removeLayerIds，
+ * 相对顺序变化（或有新增）→ layerOrder（全量 id 顺序，数组越靠前越在上层）。
+ */
+export function diffLayerLists(
+  prev: CanvasLayerPatchItem[],
+  next: CanvasLayerPatchItem[],
+): Pick<CanvasPatchPayload, 'upsertLayers' | 'removeLayerIds' | 'layerOrder'> {
+  const prevById = new Map(prev.map((layer) => [layer.id, layer]));
+  const nextIds = new Set(next.map((layer) => layer.id));
+
+  const upsertLayers: CanvasLayerPatchItem[] = [];
+  for (const layer of next) {
+    const before = prevById.get(layer.id);
+    if (
+      !before ||
+      before.name !== layer.name ||
+      before.visible !== layer.visible ||
+      Boolean(before.locked) !== Boolean(layer.locked)
+    ) {
+      upsertLayers.push({ id: layer.id, name: layer.name, visible: layer.visible, locked: Boolean(layer.locked) });
+    }
+  }
+  const removeLayerIds = prev.filter((layer) => !nextIds.has(layer.id)).map((layer) => layer.id);
+
+  const prevOrder = prev.filter((layer) => nextIds.has(layer.id)).map((layer) => layer.id);
+  const nextOrder = next.map((layer) => layer.id);
+  const orderChanged =
+    prevOrder.length !== nextOrder.length || prevOrder.some((id, index) => id !== nextOrder[index]);
+
+  return compactCanvasPatch({
+    upsertLayers,
+    removeLayerIds,
+    layerOrder: orderChanged ? nextOrder : undefined,
+  });
+}
+
+/** patch 涉及的实体 key；图片/路径沿用原有的 imageId/pathId。 */
+export function canvasPatchEntityKeys(patch: CanvasPatchPayload): string[] {
+  const keys: string[] = [];
+  const push = (prefix: string, ids: Array<unknown> | undefined) => {
+    for (const id of ids ?? []) {
+      if (typeof id === 'string' && id) keys.push(`${prefix}:${id}`);
+    }
+  };
+  push('image', patch.upsertImages?.map((it) => it?.imageId));
+  push('image', patch.removeImageIds);
+  push('path', patch.upsertPaths?.map((it) => it?.pathId));
+  push('path', patch.removePathIds);
+  push('text', patch.upsertTexts?.map((it) => it?.id));
+  push('text', patch.removeTextIds);
+  push('model', patch.upsertModels?.map((it) => it?.id));
+  push('model', patch.removeModelIds);
+  push('layer', patch.upsertLayers?.map((it) => it?.id));
+  push('layer', patch.removeLayerIds);
+  if (patch.layerOrder?.length) keys.push(LAYER_ORDER_KEY);
+  return keys;
+}
+
+const bumpSeq = (seqs: EntitySeqMap, key: string, seq: number) => {
+  if ((seqs.get(key) ?? -Infinity) >= seq) return;
+  seqs.delete(key);
+  seqs.set(key, seq);
+  if (seqs.size > MAX_TRACKED_ENTITIES) {
+    const oldest = seqs.keys().next().value;
+    if (oldest !== undefined) seqs.delete(oldest);
+  }
+};
+
+/** 本端发出的 patch 拿到服务端 seq 后登记，之后更旧的远端 patch 不会覆盖这些实体。 */
+export function markCanvasPatchSeq(seqs: EntitySeqMap, patch: CanvasPatchPayload, seq: number): void {
+  for (const key of canvasPatchEntityKeys(patch)) bumpSeq(seqs, key, seq);
+}
+
+/**
+ * 按实体 seq 过滤远端 patch：每个实体只保留 seq 比已知更新的部分，并登记新 seq。
+ * 没有 seq 的 envelope（降级通道）原样放行。全部被过滤时返回 null。
+ */
+export function filterCanvasPatchBySeq(
+  seqs: EntitySeqMap,
+  patch: CanvasPatchPayload,
+  seq: number | undefined,
+): CanvasPatchPayload | null {
+  if (typeof seq !== 'number') return isCanvasPatchEmpty(patch) ? null : patch;
+
+  const fresh = (prefix: string, id: unknown) =>
+    typeof id !== 'string' || (seqs.get(`${prefix}:${id}`) ?? -Infinity) < seq;
+  const keepUpserts = <T extends object>(arr: T[] | undefined, prefix: string, idKey: string) =>
+    arr?.filter((it) => fresh(prefix, readId(it, idKey)));
+  const keepIds = (ids: string[] | undefined, prefix: string) => ids?.filter((id) => fresh(prefix, id));
+
+  const filtered = compactCanvasPatch({
+    upsertImages: keepUpserts(patch.upsertImages, 'image', 'imageId'),
+    removeImageIds: keepIds(patch.removeImageIds, 'image'),
+    upsertPaths: keepUpserts(patch.upsertPaths, 'path', 'pathId'),
+    removePathIds: keepIds(patch.removePathIds, 'path'),
+    upsertTexts: keepUpserts(patch.upsertTexts, 'text', 'id'),
+    removeTextIds: keepIds(patch.removeTextIds, 'text'),
+    upsertModels: keepUpserts(patch.upsertModels, 'model', 'id'),
+    removeModelIds: keepIds(patch.removeModelIds, 'model'),
+    upsertLayers: keepUpserts(patch.upsertLayers, 'layer', 'id'),
+    removeLayerIds: keepIds(patch.removeLayerIds, 'layer'),
+    layerOrder: (seqs.get(LAYER_ORDER_KEY) ?? -Infinity) < seq ? patch.layerOrder : undefined,
+  });
+  if (isCanvasPatchEmpty(filtered)) return null;
+  markCanvasPatchSeq(seqs, filtered, seq);
+  return filtered;
+}
@@ -2,16 +2,23 @@ import { realtimeClient } from '@/services/realtimeClient';
 import { fetchWithAuth } from '@/services/authFetch';
 import { useProjectStore } from '@/stores/projectStore';
 import { useTeamStore } from '@/stores/teamStore';
-import type { CanvasImagePatchPayload, CollabEnvelope } from './types';
+import {
+  filterCanvasPatchBySeq,
+  markCanvasPatchSeq,
+  mergeCanvasPatches,
+  isCanvasPatchEmpty,
+  type EntitySeqMap,
+} from './canvasPatchSync';
+import type { CanvasPatchPayload, CollabEnvelope } from './types';
 
 /**
- * 画布图片对象的协作桥（独立于 React，供深层 canvas 钩子直接调用）。
- * - send：去抖+合并后 POST /canvas/:id/canvas-patch。
- * - 接收：订阅 realtimeClient 的 canvas_patch，去重并抑制自身后，
+ * 画布对象的协作桥（独立于 React，供深层 canvas 钩子直接调用）。
+ * - send：去抖+合并后 POST /canvas/:id/canvas-patch，回包里的 seq 登记到涉及的实体上。
+ * - 接收：订阅 realtimeClient 的 canvas_patch，去重并抑制自身、按实体 seq 丢弃过期部分后，
  *   以 window 事件 'collab:canvas-apply' 派发，由画布层监听应用，避免把 collab 句柄
- *   层层透传进 useImageTool。
+ *   层层透传进 useImageTool / useSimpleTextTool / useModel3DTool。
  *
- * 仅同步「图片」对象；笔迹/涂鸦不走此通道。
+ * 同步对象：图片、路径、文本、3D 模型与图层（新建/改名/显隐/顺序）。
  */
 
 const base =
@@ -22,25 +29,21 @@ const base =
 const DEBOUNCE_MS = 120;
 const SEQ_WINDOW = 200;
 
-let pending: CanvasImagePatchPayload | null = null;
+let pending: CanvasPatchPayload | null = null;
 let debounceTimer: ReturnType<typeof setTimeout> | null = null;
 let subscribed = false;
 let applyingRemote = false;
 const seenSeqs: number[] = [];
+let seqProjectId: string | null = null;
+const entitySeqs: EntitySeqMap = new Map();
 
-function dedupById(
-  arr?: Array<Record<string, unknown>>,
-  idKey: string = 'imageId',
-): Array<Record<string, unknown>> | undefined {
-  if (!arr || arr.length === 0) return undefined;
-  const byId = new Map<string, Record<string, unknown>>();
-  const noId: Array<Record<string, unknown>> = [];
-  for (const it of arr) {
-    const id = it?.[idKey];
-    if (typeof id === 'string') byId.set(id, it);
-    else noId.push(it);
+/** 实体 seq 按项目隔离，切换项目后清空（seq 是项目内计数）。 */
+function entitySeqsFor(projectId: string | null): EntitySeqMap {
+  if (projectId !== seqProjectId) {
+    seqProjectId = projectId;
+    entitySeqs.clear();
   }
-  return [...noId, ...byId.values()];
+  return entitySeqs;
 }
 
 function ensureSubscribed(): void {
@@ -55,10 +58,11 @@ function ensureSubscribed(): void {
       seenSeqs.push(env.seq);
       if (seenSeqs.length > SEQ_WINDOW) seenSeqs.splice(0, seenSeqs.length - SEQ_WINDOW);
     }
+    const seqs = entitySeqsFor(useProjectStore.getState().currentProjectId);
+    const payload = filterCanvasPatchBySeq(seqs, (env.payload ?? {}) as CanvasPatchPayload, env.seq);
+    if (!payload) return;
     try {
-      window.dispatchEvent(
-        new CustomEvent('collab:canvas-apply', { detail: env.payload as CanvasImagePatchPayload }),
-      );
+      window.dispatchEvent(new CustomEvent('collab:canvas-apply', { detail: payload }));
     } catch {}
   });
 }
@@ -79,17 +83,11 @@ export const collabCanvasBridge = {
   init(): void {
     ensureSubscribed();
   },
-  /** 发送图片协作 patch（去抖+合并，按 imageId 去重保留最新）。 */
-  sendCanvasPatch(patch: CanvasImagePatchPayload): void {
+  /** 发送画布协作 patch（去抖+合并，同一实体保留最新的 upsert/remove）。 */
+  sendCanvasPatch(patch: CanvasPatchPayload): void {
     const connId = realtimeClient.getConnId();
-    if (!connId || applyingRemote) return;
-    const prev = pending ?? {};
-    pending = {
-      upsertImages: dedupById([...(prev.upsertImages ?? []), ...(patch.upsertImages ?? [])], 'imageId'),
-      removeImageIds: [...new Set([...(prev.removeImageIds ?? []), ...(patch.removeImageIds ?? [])])],
-      upsertPaths: dedupById([...(prev.upsertPaths ?? []), ...(patch.upsertPaths ?? [])], 'pathId'),
-      removePathIds: [...new Set([...(prev.removePathIds ?? []), ...(patch.removePathIds ?? [])])],
-    };
+    if (!connId || applyingRemote || isCanvasPatchEmpty(patch)) return;
+    pending = mergeCanvasPatches(pending, patch);
     if (debounceTimer) clearTimeout(debounceTimer);
     debounceTimer = setTimeout(() => {
       const toSend = pending;
@@ -102,10 +100,18 @@ export const collabCanvasBridge = {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ patch: toSend, connId }),
-      }).catch(() => undefined);
+      })
+        .then(async (res) => {
+          if (!res.ok) return;
+          const data = (await res.json().catch(() => null)) as { seq?: unknown } | null;
+          if (typeof data?.seq === 'number') {
+            markCanvasPatchSeq(entitySeqsFor(projectId), toSend, data.seq);
+          }
+        })
+        .catch(() => undefined);
     }, DEBOUNCE_MS);
   },
-  sendImagePatch(patch: CanvasImagePatchPayload): void {
+  sendImagePatch(patch: CanvasPatchPayload): void {
     this.sendCanvasPatch(patch);
   },
 };
@@ -0,0 +1,66 @@
+import paper from 'paper';
+import { useLayerStore, type LayerMeta } from '@/stores/layerStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { paperSaveService } from '@/services/paperSaveService';
+import { collabCanvasBridge } from './collabCanvasBridge';
+import { diffLayerLists, isCanvasPatchEmpty } from './canvasPatchSync';
+import type { CanvasPatchPayload } from './types';
+
+/**
+ * 图层的协作同步：图层操作分散在 LayerPanel、快捷键与各工具里，直接订阅 layerStore.layers
+ * 与上次的列表做 diff 发送，远端 patch 通过 layerStore.applyRemoteLayerPatch 落地。
+ *
+ * 不发送的情况：应用远端 patch 期间；切换项目；首次加载（基线为空，或新旧图层 id 完全不相交，
+ * 说明是整份内容被替换而不是用户编辑）。
+ */
+export function startCollabLayerSync(): () => void {
+  let projectId = useProjectStore.getState().currentProjectId;
+  let baseline: LayerMeta[] = useLayerStore.getState().layers;
+
+  const unsubscribe = useLayerStore.subscribe(
+    (state) => state.layers,
+    (layers) => {
+      const prev = baseline;
+      baseline = layers;
+
+      const currentProjectId = useProjectStore.getState().currentProjectId;
+      if (currentProjectId !== projectId) {
+        projectId = currentProjectId;
+        return;
+      }
+      if (!collabCanvasBridge.connected || collabCanvasBridge.isApplyingRemote) return;
+      if (prev.length === 0 || !layers.some((layer) => prev.some((p) => p.id === layer.id))) return;
+
+      const patch = diffLayerLists(prev, layers);
+      if (!isCanvasPatchEmpty(patch)) collabCanvasBridge.sendCanvasPatch(patch);
+    },
+  );
+
+  const handler = (event: Event) => {
+    const detail = (event as CustomEvent).detail as CanvasPatchPayload | undefined;
+    if (!detail) return;
+    const upsertLayers = Array.isArray(detail.upsertLayers) ? detail.upsertLayers : [];
+    const removeLayerIds = Array.isArray(detail.removeLayerIds) ? detail.removeLayerIds : [];
+    const layerOrder = Array.isArray(detail.layerOrder) ? detail.layerOrder : undefined;
+    if (upsertLayers.length === 0 && removeLayerIds.length === 0 && !layerOrder) return;
+
+    collabCanvasBridge.setApplyingRemote(true);
+    try {
+      useLayerStore.getState().applyRemoteLayerPatch({ upsertLayers, removeLayerIds, layerOrder });
+      try {
+        paper.view?.update();
+      } catch {}
+      try {
+        paperSaveService.triggerAutoSave('collab-layer');
+      } catch {}
+    } finally {
+      queueMicrotask(() => collabCanvasBridge.setApplyingRemote(false));
+    }
+  };
+
+  window.addEventListener('collab:canvas-apply', handler as EventListener);
+  return () => {
+    unsubscribe();
+    window.removeEventListener('collab:canvas-apply', handler as EventListener);
+  };
+}
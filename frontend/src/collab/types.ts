@@ -1,3 +1,5 @@
+import type { ModelAssetSnapshot, TextAssetSnapshot } from '@/types/project';
+
 export type CollabEventType =
   | 'cursor'
   | 'node_patch'
@@ -14,7 +16,8 @@ export type CollabEventType =
   | 'team_projects_changed'
   | 'comment_marker_move'
   | 'team_credits_changed'
-  | 'user_credits_changed';
+  | 'user_credits_changed'
+  | 'notification';
 
 export interface CollabEnvelope<T = unknown> {
   type: CollabEventType;
@@ -34,6 +37,17 @@ export interface CursorPayload {
   // 接收端用本地视口把它投影回自己的屏幕坐标，从而做到跨视窗对齐。
   x: number;
   y: number;
+  /** 发送端当前可见区域（同为共享坐标），用于显示对端视野与「跳转/跟随」。 */
+  viewport?: CollabViewport;
+}
+
+/** 视口矩形：与 DPR 无关的共享坐标（Paper world / dpr）；zoom 为发送端缩放倍率。 */
+export interface CollabViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  zoom: number;
 }
 
 export interface PresenceUser {
@@ -50,12 +64,32 @@ export interface NodePatchPayload {
   removeEdgeIds?: string[];
 }
 
-/** 画布图片对象协作 patch：移动/缩放/插入=upsertImages(含 imageId+bounds[+快照]); 删除=removeImageIds。 */
-export interface CanvasImagePatchPayload {
+/** 图层协作条目：id 为 layerStore 的图层 id（Paper 图层名为 layer_${id}）。 */
+export interface CanvasLayerPatchItem {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked?: boolean;
+}
+
+/**
+ * 画布对象协作 patch（canvas_patch）：
+ * - 图片/路径：移动/缩放/插入=upsert(含 imageId|pathId + bounds[+快照])；删除=remove*Ids。
+ * - 文本/3D 模型：upsert 为完整快照（与项目内容里的 TextAssetSnapshot/ModelAssetSnapshot 同构）。
+ * - 图层：新建/改名/显隐/锁定=upsertLayers；删除=removeLayerIds；layerOrder 为全量 id 顺序（靠前在上层）。
+ */
+export interface CanvasPatchPayload {
   upsertImages?: Array<Record<string, unknown>>;
   removeImageIds?: string[];
   upsertPaths?: Array<Record<string, unknown>>;
   removePathIds?: string[];
+  upsertTexts?: TextAssetSnapshot[];
+  removeTextIds?: string[];
+  upsertModels?: ModelAssetSnapshot[];
+  removeModelIds?: string[];
+  upsertLayers?: CanvasLayerPatchItem[];
+  removeLayerIds?: string[];
+  layerOrder?: string[];
 }
 
 export type NodeLockAction = 'claim' | 'release' | 'expired' | 'renewed';
@@ -153,3 +187,16 @@ export interface CommentMarkerMovePayload {
 }
 
 export type CollabListener = (envelope: CollabEnvelope) => void;
+
+/** 站内通知（user:{userId} 频道推送）；data 字段随 type 变化，见 services/notificationsApi.ts。 */
+export interface NotificationPushPayload {
+  notification: {
+    id: string;
+    type: string;
+    actorId: string | null;
+    data: Record<string, unknown>;
+    readAt: string | null;
+    createdAt: string;
+  };
+  unreadCount: number;
+}
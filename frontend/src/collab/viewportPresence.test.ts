@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  cameraDrifted,
+  cameraToSharedViewport,
+  readCollabViewport,
+  sharedViewportToCamera,
+  viewportChanged,
+} from './viewportPresence.ts';
+
+const close = (actual: number, expected: number, epsilon = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < epsilon, `${actual} ≈ ${expected}`);
+
+test('a shared viewport maps back to the same camera on an identical window', () => {
+  const camera = { zoom: 1.5, panX: -320, panY: 180 };
+  const size = { width: 1600, height: 900 };
+  const viewport = cameraToSharedViewport(camera, size, 2);
+  assert.ok(viewport);
+  const restored = sharedViewportToCamera(viewport, size, 2);
+  assert.ok(restored);
+  close(restored.zoom, camera.zoom);
+  close(restored.panX, camera.panX);
+  close(restored.panY, camera.panY);
+});
+
+test('viewports are DPR independent so peers frame the same content', () => {
+  // 同一块内容：dpr=1 的窗口 800x450 与 dpr=2 的窗口 1600x900（设备像素）
+  const a = cameraToSharedViewport({ zoom: 1, panX: -100, panY: -50 }, { width: 800, height: 450 }, 1);
+  const b = cameraToSharedViewport({ zoom: 1, panX: -200, panY: -100 }, { width: 1600, height: 900 }, 2);
+  assert.deepEqual(a, b);
+});
+
+test('fitting a peer viewport into a different aspect keeps all of it visible', () => {
+  const viewport = { x: 0, y: 0, width: 1000, height: 500, zoom: 1 };
+  const camera = sharedViewportToCamera(viewport, { width: 500, height: 500 }, 1);
+  assert.ok(camera);
+  close(camera.zoom, 0.5);
+  const seen = cameraToSharedViewport(camera, { width: 500, height: 500 }, 1);
+  assert.ok(seen);
+  assert.ok(seen.x <= viewport.x && seen.x + seen.width >= viewport.x + viewport.width);
+  assert.ok(seen.y <= viewport.y && seen.y + seen.height >= viewport.y + viewport.height);
+});
+
+test('camera zoom is clamped to the canvas zoom range', () => {
+  const camera = sharedViewportToCamera({ x: 0, y: 0, width: 1, height: 1, zoom: 40 }, { width: 1000, height: 1000 }, 1);
+  assert.equal(camera?.zoom, 4);
+  assert.equal(sharedViewportToCamera({ x: 0, y: 0, width: 0, height: 10, zoom: 1 }, { width: 10, height: 10 }, 1), null);
+});
+
+test('drift ignores float noise but catches user pans and zooms', () => {
+  const expected = { zoom: 2, panX: 100, panY: 100 };
+  assert.equal(cameraDrifted(expected, { zoom: 2.0001, panX: 100.5, panY: 99.6 }), false);
+  assert.equal(cameraDrifted(expected, { zoom: 2, panX: 110, panY: 100 }), true);
+  assert.equal(cameraDrifted(expected, { zoom: 2.2, panX: 100, panY: 100 }), true);
+});
+
+test('viewport rebroadcast threshold and payload validation', () => {
+  const base = { x: 10, y: 10, width: 800, height: 600, zoom: 1 };
+  assert.equal(viewportChanged(null, base), true);
+  assert.equal(viewportChanged(base, { ...base, x: 10.4 }), false);
+  assert.equal(viewportChanged(base, { ...base, x: 12 }), true);
+  assert.equal(viewportChanged(base, { ...base, zoom: 1.01 }), true);
+
+  assert.deepEqual(readCollabViewport(base), base);
+  assert.equal(readCollabViewport({ ...base, width: -1 }), null);
+  assert.equal(readCollabViewport({ ...base, x: 'nope' }), null);
+  assert.equal(readCollabViewport(undefined), null);
+});
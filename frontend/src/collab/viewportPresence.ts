@@ -0,0 +1,92 @@
+import type { CollabViewport } from './types';
+
+/**
+ * 视口 presence 的纯换算（不依赖 Paper / store，便于测试）。
+ *
+ * 坐标约定与光标一致：广播的是与 DPR 无关的共享坐标（Paper world / dpr）。
+ * 本地相机为 canvasStore 的 { zoom, panX, panY }，满足 screen = zoom * (world + pan)，
+ * screen/world 都以设备像素计（见 ZoomIndicator）。
+ */
+
+export interface LocalCamera {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export interface ViewSize {
+  width: number;
+  height: number;
+}
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+/** 本地相机 → 广播用的共享视口矩形。 */
+export function cameraToSharedViewport(camera: LocalCamera, viewSize: ViewSize, dpr: number): CollabViewport | null {
+  if (!(camera.zoom > 0) || !(viewSize.width > 0) || !(viewSize.height > 0) || !(dpr > 0)) return null;
+  const worldWidth = viewSize.width / camera.zoom;
+  const worldHeight = viewSize.height / camera.zoom;
+  return {
+    x: -camera.panX / dpr,
+    y: -camera.panY / dpr,
+    width: worldWidth / dpr,
+    height: worldHeight / dpr,
+    zoom: camera.zoom,
+  };
+}
+
+/**
+ * 把对端的共享视口套到本地窗口：中心对齐，缩放取「完整装下对端可见区域」的最大值。
+ * 两端窗口比例不同时本地会多看到一些边缘，但不会漏掉对端看到的内容。
+ */
+export function sharedViewportToCamera(viewport: CollabViewport, viewSize: ViewSize, dpr: number): LocalCamera | null {
+  if (!(viewport.width > 0) || !(viewport.height > 0) || !(viewSize.width > 0) || !(viewSize.height > 0)) {
+    return null;
+  }
+  const worldWidth = viewport.width * dpr;
+  const worldHeight = viewport.height * dpr;
+  const centerX = (viewport.x + viewport.width / 2) * dpr;
+  const centerY = (viewport.y + viewport.height / 2) * dpr;
+  const zoom = clampZoom(Math.min(viewSize.width / worldWidth, viewSize.height / worldHeight));
+  return {
+    zoom,
+    panX: viewSize.width / 2 / zoom - centerX,
+    panY: viewSize.height / 2 / zoom - centerY,
+  };
+}
+
+/**
+ * 跟随模式下判断本地相机是否被用户挪开：按屏幕像素比较平移、按比例比较缩放，
+ * 容忍 Flow/Paper 视口互相同步带来的浮点误差。
+ */
+export function cameraDrifted(expected: LocalCamera, actual: LocalCamera, tolerancePx = 2): boolean {
+  if (Math.abs(actual.zoom - expected.zoom) / expected.zoom > 0.01) return true;
+  const dx = Math.abs(actual.panX - expected.panX) * actual.zoom;
+  const dy = Math.abs(actual.panY - expected.panY) * actual.zoom;
+  return dx > tolerancePx || dy > tolerancePx;
+}
+
+/** 视口变化是否值得重新广播（共享坐标下小于 1px、缩放变化小于 0.1% 的抖动不发）。 */
+export function viewportChanged(prev: CollabViewport | null, next: CollabViewport): boolean {
+  if (!prev) return true;
+  return (
+    Math.abs(prev.x - next.x) >= 1 ||
+    Math.abs(prev.y - next.y) >= 1 ||
+    Math.abs(prev.width - next.width) >= 1 ||
+    Math.abs(prev.height - next.height) >= 1 ||
+    Math.abs(prev.zoom - next.zoom) / next.zoom >= 0.001
+  );
+}
+
+/** 校验对端发来的视口（服务端只做透传，这里兜底）。 */
+export function readCollabViewport(value: unknown): CollabViewport | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  const nums = [v.x, v.y, v.width, v.height, v.zoom];
+  if (!nums.every((n) => typeof n === 'number' && Number.isFinite(n))) return null;
+  if ((v.width as number) <= 0 || (v.height as number) <= 0 || (v.zoom as number) <= 0) return null;
+  return { x: v.x as number, y: v.y as number, width: v.width as number, height: v.height as number, zoom: v.zoom as number };
+}
@@ -0,0 +1,384 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Check, Copy, KeyRound, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTeamStore } from "@/stores/teamStore";
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  updateApiKey,
+  type ApiKeyDto,
+  type ApiKeyScope,
+} from "@/services/apiKeysApi";
+
+const PERSONAL_OWNER = "personal";
+
+// datetime-local 输入值（本地时区）与 ISO 字符串互转
+const toLocalInputValue = (iso: string | null): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const fromLocalInputValue = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+export default function ApiKeysPanel() {
+  const { t } = useTranslation();
+  const teams = useTeamStore((s) => s.teams);
+  const manageableTeams = useMemo(
+    () => teams.filter((team) => !team.isPersonal && team.myRole !== "member"),
+    [teams]
+  );
+
+  const [owner, setOwner] = useState<string>(PERSONAL_OWNER);
+  const [keys, setKeys] = useState<ApiKeyDto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [secret, setSecret] = useState<{ name: string; value: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["image", "chat"]);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [rateLimit, setRateLimit] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const teamId = owner === PERSONAL_OWNER ? null : owner;
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setKeys(await listApiKeys(teamId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setKeys([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    void loadKeys();
+  }, [loadKeys]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleScope = (list: ApiKeyScope[], scope: ApiKeyScope): ApiKeyScope[] =>
+    list.includes(scope) ? list.filter((item) => item !== scope) : [...list, scope];
+
+  const handleCreate = async () => {
+    if (!name.trim() || !scopes.length || creating) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const parsedLimit = Number.parseInt(rateLimit, 10);
+      const created = await createApiKey({
+        name: name.trim(),
+        scopes,
+        ...(teamId ? { teamId } : {}),
+        ...(expiresAt ? { expiresAt: fromLocalInputValue(expiresAt)! } : {}),
+        ...(Number.isFinite(parsedLimit) && parsedLimit > 0
+          ? { rateLimitPerMinute: parsedLimit }
+          : {}),
+      });
+      setSecret({ name: created.apiKey.name, value: created.secret });
+      setName("");
+      setExpiresAt("");
+      setRateLimit("");
+      setKeys((prev) => [created.apiKey, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRename = (key: ApiKeyDto) => {
+    const next = window.prompt(t("workspace.settings.apiKeysTab.renamePrompt"), key.name);
+    if (!next || !next.trim() || next.trim() === key.name) return;
+    void runAction(key.id, async () => {
+      const updated = await updateApiKey(key.id, { name: next.trim() });
+      setKeys((prev) => prev.map((item) => (item.id === key.id ? updated : item)));
+    });
+  };
+
+  const handleScopeChange = (key: ApiKeyDto, scope: ApiKeyScope) => {
+    const nextScopes = toggleScope(key.scopes, scope);
+    if (!nextScopes.length) return;
+    void runAction(key.id, async () => {
+      const updated = await updateApiKey(key.id, { scopes: nextScopes });
+      setKeys((prev) => prev.map((item) => (item.id === key.id ? updated : item)));
+    });
+  };
+
+  const handleRotate = (key: ApiKeyDto) => {
+    if (!window.confirm(t("workspace.settings.apiKeysTab.rotateConfirm", { name: key.name }))) return;
+    void runAction(key.id, async () => {
+      const rotated = await rotateApiKey(key.id);
+      setSecret({ name: rotated.apiKey.name, value: rotated.secret });
+      setKeys((prev) => prev.map((item) => (item.id === key.id ? rotated.apiKey : item)));
+    });
+  };
+
+  const handleRevoke = (key: ApiKeyDto) => {
+    if (!window.confirm(t("workspace.settings.apiKeysTab.revokeConfirm", { name: key.name }))) return;
+    void runAction(key.id, async () => {
+      await revokeApiKey(key.id);
+      setKeys((prev) => prev.filter((item) => item.id !== key.id));
+    });
+  };
+
+  const handleCopySecret = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret.value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn("[ApiKeysPanel] 复制失败", err);
+    }
+  };
+
+  const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : "—");
+
+  return (
+    <div className='pb-6 space-y-6'>
+      <div className='border-b border-slate-100 pt-5 pb-6 space-y-4'>
+        <div className='flex items-center justify-between gap-4'>
+          <div>
+            <h3 className='text-base font-medium text-slate-800'>
+              {t("workspace.settings.apiKeysTab.title")}
+            </h3>
+            <p className='text-xs text-slate-400 mt-1'>{t("workspace.settings.apiKeysTab.desc")}</p>
+          </div>
+          {manageableTeams.length > 0 && (
+            <select
+              value={owner}
+              onChange={(e) => {
+                setOwner(e.target.value);
+                setSecret(null);
+              }}
+              className='h-9 rounded-xl border border-slate-200 bg-white px-3 text-sm'
+            >
+              <option value={PERSONAL_OWNER}>{t("workspace.settings.apiKeysTab.personal")}</option>
+              {manageableTeams.map((team) => (
+                <option key={team.id} value={team.id}>
+                  {team.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {secret && (
+          <div className='rounded-xl border border-amber-200 bg-amber-50 p-4 space-y-2'>
+            <p className='text-sm text-amber-800'>
+              {t("workspace.settings.apiKeysTab.secretOnce", { name: secret.name })}
+            </p>
+            <div className='flex items-center gap-2'>
+              <code className='flex-1 truncate rounded-lg bg-white px-3 py-2 text-xs text-slate-700 border border-amber-100'>
+                {secret.value}
+              </code>
+              <Button variant='outline' size='sm' className='rounded-xl' onClick={handleCopySecret}>
+                {copied ? <Check className='w-4 h-4' /> : <Copy className='w-4 h-4' />}
+              </Button>
+              <Button variant='ghost' size='sm' className='rounded-xl' onClick={() => setSecret(null)}>
+                {t("workspace.settings.apiKeysTab.dismiss")}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className='rounded-xl border border-slate-200 p-4 space-y-3'>
+          <div className='grid grid-cols-3 gap-3'>
+            <Input
+              value={name}
+              maxLength={100}
+              placeholder={t("workspace.settings.apiKeysTab.namePlaceholder")}
+              onChange={(e) => setName(e.target.value)}
+              className='rounded-xl'
+            />
+            <Input
+              type='datetime-local'
+              value={expiresAt}
+              title={t("workspace.settings.apiKeysTab.expiresAt")}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className='rounded-xl'
+            />
+            <Input
+              type='number'
+              min={1}
+              max={600}
+              value={rateLimit}
+              placeholder={t("workspace.settings.apiKeysTab.rateLimitPlaceholder")}
+              onChange={(e) => setRateLimit(e.target.value)}
+              className='rounded-xl'
+            />
+          </div>
+          <div className='flex items-center justify-between gap-3'>
+            <div className='flex items-center gap-3'>
+              {API_KEY_SCOPES.map((scope) => (
+                <label key={scope} className='flex items-center gap-1.5 text-sm text-slate-600'>
+                  <input
+                    type='checkbox'
+                    checked={scopes.includes(scope)}
+                    onChange={() => setScopes((prev) => toggleScope(prev, scope))}
+                  />
+                  {t(`workspace.settings.apiKeysTab.scopes.${scope}`)}
+                </label>
+              ))}
+            </div>
+            <Button
+              size='sm'
+              className='rounded-xl'
+              disabled={!name.trim() || !scopes.length || creating}
+              onClick={handleCreate}
+            >
+              <KeyRound className='w-4 h-4 mr-1.5' />
+              {creating
+                ? t("workspace.settings.apiKeysTab.creating")
+                : t("workspace.settings.apiKeysTab.create")}
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className='text-xs text-red-500'>{error}</p>}
+      </div>
+
+      {loading ? (
+        <div className='text-sm text-slate-400'>{t("workspace.settings.workspaceTab.loading")}</div>
+      ) : keys.length === 0 ? (
+        <div className='text-sm text-slate-400'>{t("workspace.settings.apiKeysTab.empty")}</div>
+      ) : (
+        <div className='space-y-3'>
+          {keys.map((key) => {
+            const expired = !!key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now();
+            const busy = busyId === key.id;
+            return (
+              <div key={key.id} className='rounded-xl border border-slate-200 p-4 space-y-3'>
+                <div className='flex items-center justify-between gap-3'>
+                  <div className='min-w-0'>
+                    <button
+                      type='button'
+                      className='text-sm font-medium text-slate-800 hover:underline truncate'
+                      onClick={() => handleRename(key)}
+                    >
+                      {key.name}
+                    </button>
+                    <div className='text-xs text-slate-400 mt-0.5'>
+                      <code>{key.prefix}…</code>
+                      {expired && (
+                        <span className='ml-2 text-red-500'>
+                          {t("workspace.settings.apiKeysTab.expired")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className='flex items-center gap-2 shrink-0'>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      className='rounded-xl'
+                      disabled={busy}
+                      onClick={() => handleRotate(key)}
+                    >
+                      <RefreshCw className='w-4 h-4 mr-1.5' />
+                      {t("workspace.settings.apiKeysTab.rotate")}
+                    </Button>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      className='rounded-xl text-red-500 border-red-200 hover:bg-red-50'
+                      disabled={busy}
+                      onClick={() => handleRevoke(key)}
+                    >
+                      <Trash2 className='w-4 h-4 mr-1.5' />
+                      {t("workspace.settings.apiKeysTab.revoke")}
+                    </Button>
+                  </div>
+                </div>
+                <div className='flex flex-wrap items-center gap-3'>
+                  {API_KEY_SCOPES.map((scope) => (
+                    <label key={scope} className='flex items-center gap-1.5 text-xs text-slate-600'>
+                      <input
+                        type='checkbox'
+                        disabled={busy}
+                        checked={key.scopes.includes(scope)}
+                        onChange={() => handleScopeChange(key, scope)}
+                      />
+                      {t(`workspace.settings.apiKeysTab.scopes.${scope}`)}
+                    </label>
+                  ))}
+                </div>
+                <div className='grid grid-cols-3 gap-3 text-xs text-slate-500'>
+                  <label className='flex flex-col gap-1'>
+                    {t("workspace.settings.apiKeysTab.expiresAt")}
+                    <Input
+                      type='datetime-local'
+                      disabled={busy}
+                      defaultValue={toLocalInputValue(key.expiresAt)}
+                      onBlur={(e) => {
+                        const next = fromLocalInputValue(e.target.value);
+                        if (next === key.expiresAt) return;
+                        void runAction(key.id, async () => {
+                          const updated = await updateApiKey(key.id, { expiresAt: next });
+                          setKeys((prev) => prev.map((item) => (item.id === key.id ? updated : item)));
+                        });
+                      }}
+                      className='h-8 rounded-lg text-xs'
+                    />
+                  </label>
+                  <label className='flex flex-col gap-1'>
+                    {t("workspace.settings.apiKeysTab.rateLimit")}
+                    <Input
+                      type='number'
+                      min={1}
+                      max={600}
+                      disabled={busy}
+                      defaultValue={key.rateLimitPerMinute ?? ""}
+                      placeholder={t("workspace.settings.apiKeysTab.unlimited")}
+                      onBlur={(e) => {
+                        const parsed = Number.parseInt(e.target.value, 10);
+                        const next = Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+                        if (next === key.rateLimitPerMinute) return;
+                        void runAction(key.id, async () => {
+                          const updated = await updateApiKey(key.id, { rateLimitPerMinute: next });
+                          setKeys((prev) => prev.map((item) => (item.id === key.id ? updated : item)));
+                        });
+                      }}
+                      className='h-8 rounded-lg text-xs'
+                    />
+                  </label>
+                  <div className='flex flex-col gap-1'>
+                    {t("workspace.settings.apiKeysTab.lastUsedAt")}
+                    <span className='h-8 flex items-center text-slate-600'>
+                      {formatDate(key.lastUsedAt)}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
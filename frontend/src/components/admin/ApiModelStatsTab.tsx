@@ -5,6 +5,7 @@ import {
   type ApiUsageModelStats,
   type ApiUsageModelStatsResponse,
 } from "@/services/adminApi";
+import VendorHealthPanel from "@/components/admin/VendorHealthPanel";
 
 type RangeKey = "today" | "yesterday" | "day" | "week" | "custom";
 
@@ -211,6 +212,8 @@ export default function ApiModelStatsTab() {
         )}
       </div>
 
+      <VendorHealthPanel />
+
       <div className='overflow-hidden rounded-lg border bg-white'>
         <div className='max-h-[1200px] overflow-auto'>
           <table className='w-full text-sm'>
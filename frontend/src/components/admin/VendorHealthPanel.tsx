@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  getVendorHealth,
+  type VendorErrorClass,
+  type VendorHealthOverview,
+  type VendorRouteHealth,
+} from "@/services/adminApi";
+import {
+  getBananaRouteSuccessRates,
+  type BananaRouteSuccessRatesResponse,
+} from "@/services/bananaRouteStatsApi";
+
+const REFRESH_MS = 30_000;
+
+const TIER_LABELS: Record<VendorRouteHealth["tier"], { text: string; className: string }> = {
+  healthy: { text: "健康", className: "bg-green-50 text-green-700" },
+  degraded: { text: "降级", className: "bg-amber-50 text-amber-700" },
+  open: { text: "熔断", className: "bg-red-50 text-red-700" },
+};
+
+const CIRCUIT_LABELS: Record<VendorRouteHealth["circuit"]["state"], string> = {
+  closed: "闭合",
+  half_open: "半开（探测中）",
+  open: "打开",
+};
+
+const ERROR_CLASS_LABELS: Record<VendorErrorClass, string> = {
+  timeout: "超时",
+  rate_limit: "限流",
+  auth: "鉴权/余额",
+  upstream: "上游异常",
+  unavailable: "不可用",
+  client: "请求问题",
+  unknown: "未知",
+};
+
+const BANANA_ROUTE_LABELS: Record<string, string> = {
+  normal: "普通线路",
+  stable: "稳定线路",
+  ultra: "Ultra 线路",
+};
+
+function formatRate(rate: number | null) {
+  return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatLatency(ms: number | null) {
+  if (ms === null) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function formatTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleTimeString("zh-CN", { hour12: false }) : "—";
+}
+
+/** 托管模型线路健康度：候选排序与熔断依据，和香蕉线路今日成功率放在一起看。 */
+export default function VendorHealthPanel() {
+  const [overview, setOverview] = useState<VendorHealthOverview | null>(null);
+  const [bananaRates, setBananaRates] = useState<BananaRouteSuccessRatesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [health, banana] = await Promise.all([
+        getVendorHealth(),
+        getBananaRouteSuccessRates().catch(() => null),
+      ]);
+      setOverview(health);
+      setBananaRates(banana);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "加载线路健康度失败");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+    const timer = window.setInterval(() => void load(), REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [load]);
+
+  // 没有样本的线路折叠掉，避免几十行空数据；熔断/降级的始终显示
+  const routes = (overview?.routes || []).filter(
+    (route) => route.summary.totalSamples > 0 || route.tier !== "healthy" || route.lastDispatchAt
+  );
+
+  return (
+    <div className='rounded-lg border bg-white p-4'>
+      <div className='flex flex-wrap items-center justify-between gap-3'>
+        <div>
+          <div className='text-sm font-semibold'>线路健康度</div>
+          <div className='text-xs text-gray-500'>
+            近 {overview?.windowMinutes ?? 60} 分钟 · 用量回填于 {formatTime(overview?.lastRefreshedAt ?? null)}
+            · 熔断线路会被排到候选末尾
+          </div>
+        </div>
+        <Button variant='outline' size='sm' onClick={() => void load()} disabled={loading}>
+          {loading ? "刷新中..." : "刷新"}
+        </Button>
+      </div>
+
+      {error && <div className='mt-3 text-sm text-red-600'>{error}</div>}
+
+      {bananaRates && (
+        <div className='mt-4 grid grid-cols-1 gap-3 md:grid-cols-3'>
+          {Object.values(bananaRates.routes).map((stat) => (
+            <div key={stat.route} className='rounded-md bg-gray-50 p-3'>
+              <div className='text-xs text-gray-500'>
+                {BANANA_ROUTE_LABELS[stat.route] || stat.route} · 今日
+              </div>
+              <div className='mt-1 text-lg font-semibold'>
+                {stat.successRate === null ? "—" : `${stat.successRate}%`}
+              </div>
+              <div className='text-xs text-gray-500'>
+                成功 {stat.successfulCalls} / 失败 {stat.failedCalls} / 待完成 {stat.pendingCalls}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className='mt-4 overflow-auto rounded-md border'>
+        <table className='w-full text-sm'>
+          <thead className='bg-gray-50'>
+            <tr>
+              <th className='px-3 py-2 text-left'>模型</th>
+              <th className='px-3 py-2 text-left'>线路</th>
+              <th className='px-3 py-2 text-left'>状态</th>
+              <th className='px-3 py-2 text-right'>样本</th>
+              <th className='px-3 py-2 text-right'>成功率</th>
+              <th className='px-3 py-2 text-right'>P50 / P90</th>
+              <th className='px-3 py-2 text-right'>调度耗时</th>
+              <th className='px-3 py-2 text-left'>错误分类</th>
+            </tr>
+          </thead>
+          <tbody>
+            {routes.length === 0 ? (
+              <tr>
+                <td colSpan={8} className='px-3 py-6 text-center text-gray-500'>
+                  {loading && !overview ? "加载中..." : "窗口内暂无线路样本"}
+                </td>
+              </tr>
+            ) : (
+              routes.map((route) => {
+                const tier = TIER_LABELS[route.tier];
+                const errorClasses = Object.entries(route.summary.errorClasses) as Array<
+                  [VendorErrorClass, number]
+                >;
+                return (
+                  <tr key={`${route.modelKey}::${route.vendorKey}`} className='border-t align-top'>
+                    <td className='px-3 py-2'>
+                      <div className='font-medium'>{route.modelName}</div>
+                      <div className='text-xs text-gray-400'>{route.taskType}</div>
+                    </td>
+                    <td className='px-3 py-2'>
+                      <div>
+                        {route.vendorLabel}
+                        {route.isDefault && <span className='ml-1 text-xs text-blue-600'>默认</span>}
+                        {!route.enabled && <span className='ml-1 text-xs text-gray-400'>已停用</span>}
+                      </div>
+                      <div className='text-xs text-gray-400'>{route.vendorKey}</div>
+                    </td>
+                    <td className='px-3 py-2'>
+                      <span className={`rounded px-2 py-0.5 text-xs ${tier.className}`}>{tier.text}</span>
+                      <div className='mt-1 text-xs text-gray-500'>
+                        熔断器{CIRCUIT_LABELS[route.circuit.state]}
+                        {route.circuit.openUntil && ` 至 ${formatTime(route.circuit.openUntil)}`}
+                        {route.circuit.tripCount > 0 && ` · 已熔断 ${route.circuit.tripCount} 次`}
+                      </div>
+                      {route.circuit.lastError && route.tier !== "healthy" && (
+                        <div className='mt-1 max-w-xs truncate text-xs text-red-500' title={route.circuit.lastError}>
+                          {route.circuit.lastError}
+                        </div>
+                      )}
+                    </td>
+                    <td className='px-3 py-2 text-right'>
+                      <span className='text-green-600'>{route.summary.successes}</span>
+                      {" / "}
+                      <span className='text-red-600'>{route.summary.failures}</span>
+                    </td>
+                    <td className='px-3 py-2 text-right font-semibold'>
+                      {formatRate(route.summary.successRate)}
+                    </td>
+                    <td className='px-3 py-2 text-right'>
+                      {formatLatency(route.summary.p50LatencyMs)} / {formatLatency(route.summary.p90LatencyMs)}
+                    </td>
+                    <td className='px-3 py-2 text-right'>{formatLatency(route.avgDispatchLatencyMs)}</td>
+                    <td className='px-3 py-2 text-xs text-gray-600'>
+                      {errorClasses.length === 0
+                        ? "—"
+                        : errorClasses
+                            .map(([errorClass, count]) => `${ERROR_CLASS_LABELS[errorClass] || errorClass} ${count}`)
+                            .join("，")}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
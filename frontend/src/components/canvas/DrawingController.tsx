@@ -14,9 +14,12 @@ import {
   FolderPlus,
   FileJson,
   FileInput,
+  FileImage,
+  FileText,
   Group,
   Link2,
   Play,
+  RotateCcw,
   Square,
 } from 'lucide-react';
 import { useToolStore, useCanvasStore, useLayerStore } from '@/stores';
@@ -31,6 +34,8 @@ import CanvasImageLayer from './CanvasImageLayer';
 import SelectionGroupToolbar from './SelectionGroupToolbar';
 import { DrawingLayerManager } from './drawing/DrawingLayerManager';
 import { AutoScreenshotService } from '@/services/AutoScreenshotService';
+import { VectorExportService } from '@/services/VectorExportService';
+import { unionBounds } from '@/utils/canvasVectorExport';
 import { fetchWithAuth } from '@/services/authFetch';
 import { logger } from '@/utils/logger';
 import { recordImageHistoryEntry } from '@/services/imageHistoryService';
@@ -43,6 +48,7 @@ import {
   formatImageGroupTitle,
   removeGroupBlockTitle,
 } from '@/utils/paperImageGroupBlock';
+import { deleteFrameBlock, getFrameName, getVisibleFrameInfos, isFrameBlock } from '@/utils/paperFrameBlock';
 import { contextManager } from '@/services/contextManager';
 import { clipboardService, type CanvasClipboardData, type PathClipboardSnapshot } from '@/services/clipboardService';
 import { isGroup, isRaster } from '@/utils/paperCoords';
@@ -639,6 +645,7 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
     lineStyle,
     isEraser,
     hasFill,
+    framePresetId,
     setDrawMode,
   } = useToolStore();
   const zoom = useCanvasStore((state) => state.zoom);
@@ -1869,6 +1876,7 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
         parallelGroupTotal,
         initialWidth,
         initialHeight,
+        historyOrigin,
       } = event.detail;
 
       logger.debug("🎨 [DEBUG] 收到AI图片快速上传触发事件:", {
@@ -1929,6 +1937,7 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
 	                parallelGroupTotal,
                 initialWidth,
                 initialHeight,
+                historyOrigin,
 	              } // 🔥 传递并行分组信息
 	            )
 	            .catch((err) => {
@@ -3892,6 +3901,7 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
     lineStyle,
     isEraser,
     hasFill,
+    framePresetId,
     eventHandlers: {
       onPathCreate: (path) => {
         logger.debug("路径创建:", path);
@@ -7525,6 +7535,11 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
     if (pathTargets.length > 0) {
       const removedPlaceholders = new Set<paper.Group>();
       pathTargets.forEach((path) => {
+        // 画板：连同标题一起删除，画板内的内容保留
+        if (isFrameBlock(path)) {
+          if (deleteFrameBlock(path)) didDelete = true;
+          return;
+        }
         // 🔥 不再使用 placeholderGroup 引用，改为向上查找占位符组
         let foundPlaceholderGroup: paper.Group | undefined;
         let node: any = path;
@@ -7683,6 +7698,101 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
     }
   }, [showToast]);
 
+  // 当前画布选区（路径 / 文字 / 图片 / 3D 模型）对应的 Paper 元素，供矢量导出
+  const collectSelectedExportItems = useCallback(
+    () =>
+      VectorExportService.resolveSelectionItems({
+        paperItems: [
+          selectionTool.selectedPath,
+          ...(selectionTool.selectedPaths ?? []),
+          ...selectedTextItems.map((item) => item.paperText),
+        ],
+        imageIds: imageTool.selectedImageIds ?? [],
+        modelIds: model3DTool.selectedModel3DIds ?? [],
+      }),
+    [
+      selectionTool.selectedPath,
+      selectionTool.selectedPaths,
+      selectedTextItems,
+      imageTool.selectedImageIds,
+      model3DTool.selectedModel3DIds,
+    ]
+  );
+
+  const reportVectorExport = useCallback(
+    (result: { linkedImageCount?: number; skippedModelCount?: number }, done: string) => {
+      const notes = [
+        result.linkedImageCount ? `${result.linkedImageCount} 张图片未能内嵌，保留为链接` : "",
+        result.skippedModelCount ? `${result.skippedModelCount} 个 3D 模型未能取到画面` : "",
+      ].filter(Boolean);
+      showToast(notes.length > 0 ? `${done}（${notes.join("；")}）` : done);
+    },
+    [showToast]
+  );
+
+  // 有选区时只导出选中元素的范围，否则导出全部可见图层
+  const handleExportSvg = useCallback(async () => {
+    const regions = VectorExportService.regionsFromItems(collectSelectedExportItems());
+    const result = await VectorExportService.exportSvg({
+      region: unionBounds(regions.map((region) => region.bounds)),
+      title: "Tanva",
+    });
+    if (!result.success || !result.svg) {
+      showToast(result.error || "SVG 导出失败", "error");
+      return;
+    }
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    VectorExportService.downloadSvg(result.svg, `canvas-${timestamp}.svg`);
+    reportVectorExport(result, "已导出 SVG");
+  }, [collectSelectedExportItems, reportVectorExport, showToast]);
+
+  const handlePrintPages = useCallback(
+    async (pagination: "selection" | "layers" | "frames") => {
+      const regions =
+        pagination === "selection"
+          ? VectorExportService.regionsFromItems(collectSelectedExportItems())
+          : pagination === "frames"
+            ? VectorExportService.regionsFromFrames()
+            : VectorExportService.regionsFromLayers();
+      const result = await VectorExportService.printPages({ regions, title: "Tanva" });
+      if (!result.success) {
+        showToast(result.error || "打印失败", "error");
+        return;
+      }
+      reportVectorExport(result, `已生成 ${regions.length} 页，可在打印对话框中另存为 PDF`);
+    },
+    [collectSelectedExportItems, reportVectorExport, showToast]
+  );
+
+  // 画板按 1:1 像素截图后作为 Flow 图片节点的输入
+  const handleSendFrameToFlow = useCallback(
+    async (frame: paper.Path) => {
+      const name = getFrameName(frame);
+      const result = await AutoScreenshotService.captureAutoScreenshot(
+        imageTool.imageInstances,
+        model3DTool.model3DInstances,
+        {
+          format: "png",
+          scale: 1,
+          includeBackground: false,
+          autoDownload: false,
+          frameId: String(frame.data?.frameId || ""),
+        }
+      );
+      if (!result.success || !result.dataUrl) {
+        showToast(result.error || "画板截图失败", "error");
+        return;
+      }
+      createFlowImageNode({
+        imageData: result.dataUrl.split(",")[1],
+        label: name,
+        imageName: name,
+      });
+      showToast(`已将「${name}」发送到 Flow`);
+    },
+    [createFlowImageNode, imageTool.imageInstances, model3DTool.model3DInstances, showToast]
+  );
+
   const handleCreateFlowNodeGroup = useCallback(() => {
     window.dispatchEvent(new CustomEvent("flow:create-group-from-selection"));
     closeContextMenu();
@@ -7707,6 +7817,11 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
     const canPaste = !!clipboardService.getCanvasData();
     const isCanvasContext =
       contextMenuState.type === "canvas" || contextMenuState.type === "selection";
+    const hasFrames = getVisibleFrameInfos().length > 0;
+    const selectedFrame =
+      selectionTool.selectedPath && isFrameBlock(selectionTool.selectedPath)
+        ? selectionTool.selectedPath
+        : null;
 
     const items: Array<{
       label: string;
@@ -7758,6 +7873,58 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
           closeContextMenu();
         },
       },
+      {
+        label: hasSelection ? "导出选中内容为 SVG" : "导出画布为 SVG",
+        icon: <FileImage className='w-4 h-4' />,
+        onClick: () => {
+          void handleExportSvg();
+          closeContextMenu();
+        },
+      },
+      ...(hasSelection
+        ? [
+            {
+              label: "打印 / 另存为 PDF（每个选中元素一页）",
+              icon: <FileText className='w-4 h-4' />,
+              onClick: () => {
+                void handlePrintPages("selection");
+                closeContextMenu();
+              },
+            },
+          ]
+        : []),
+      ...(hasFrames
+        ? [
+            {
+              label: "打印 / 另存为 PDF（每个画板一页）",
+              icon: <FileText className='w-4 h-4' />,
+              onClick: () => {
+                void handlePrintPages("frames");
+                closeContextMenu();
+              },
+            },
+          ]
+        : []),
+      {
+        label: "打印 / 另存为 PDF（每个图层一页）",
+        icon: <FileText className='w-4 h-4' />,
+        onClick: () => {
+          void handlePrintPages("layers");
+          closeContextMenu();
+        },
+      },
+      ...(selectedFrame
+        ? [
+            {
+              label: "发送画板到 Flow",
+              icon: <FileImage className='w-4 h-4' />,
+              onClick: () => {
+                void handleSendFrameToFlow(selectedFrame);
+                closeContextMenu();
+              },
+            },
+          ]
+        : []),
     ];
 
     if (isCanvasContext) {
@@ -7787,6 +7954,17 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
           );
         },
       });
+      if (!isGlobalFlowRunning) {
+        items.push({
+          label: "全局强制重跑",
+          icon: <RotateCcw className='w-4 h-4' />,
+          onClick: () => {
+            window.dispatchEvent(
+              new CustomEvent("flow:run-global", { detail: { force: true } })
+            );
+          },
+        });
+      }
     }
 
     if (contextMenuState.type === "image" && contextMenuState.targetId) {
@@ -7865,6 +8043,9 @@ const DrawingController: React.FC<DrawingControllerProps> = ({ canvasRef }) => {
     handleExportCanvasJson,
     handleExportSelectedFlowNodesJson,
     handleImportCanvasJson,
+    handleExportSvg,
+    handlePrintPages,
+    handleSendFrameToFlow,
     handleCreateFlowNodeGroup,
     handleStartFlowBatchOutputConnect,
     handleAddImageToLibrary,
@@ -19,6 +19,8 @@ import type { ExtendedPath } from '@/types/paper';
 import type { DrawMode, LineStyle } from '@/stores/toolStore';
 import { NodeManager } from '@/canvas/NodeManager';
 import type { PathNode } from '@/canvas/nodes/PathNode';
+import { frameRectFromClick, frameRectFromDrag, getFramePreset } from '@/utils/canvasFrames';
+import { createFrameBlock } from '@/utils/paperFrameBlock';
 
 interface UseDrawingToolsProps {
   context: DrawingContext;
@@ -28,6 +30,8 @@ interface UseDrawingToolsProps {
   lineStyle: LineStyle;
   isEraser: boolean;
   hasFill: boolean;
+  /** 画板工具单击放置时的尺寸预设 */
+  framePresetId?: string;
   eventHandlers?: DrawingToolEventHandlers;
 }
 
@@ -114,6 +118,7 @@ export const useDrawingTools = ({
   lineStyle,
   isEraser,
   hasFill,
+  framePresetId,
   eventHandlers = {} 
 }: UseDrawingToolsProps) => {
   const { ensureDrawingLayer } = context;
@@ -250,6 +255,7 @@ export const useDrawingTools = ({
   const isDrawingRef = useRef(false);
   const hasMovedRef = useRef(false); // 立即跟踪移动状态，避免异步问题
   const initialClickPointRef = useRef<paper.Point | null>(null);
+  const frameDragEndRef = useRef<paper.Point | null>(null);
   const [drawingState, setDrawingState] = useState<DrawingToolState>({
     currentPath: null,
     isDrawing: false,
@@ -680,6 +686,76 @@ export const useDrawingTools = ({
     }
   }, [create3DModelPath, drawingState.initialClickPoint, drawingState.dragThreshold]);
 
+  // ========== 画板绘制功能 ==========
+
+  // 开始绘制画板：单击放置预设尺寸，拖拽则框出自定义尺寸
+  const onFrameDrawStart = eventHandlers.onDrawStart;
+  const startFrameDraw = useCallback((point: paper.Point) => {
+    hasMovedRef.current = false;
+    initialClickPointRef.current = point;
+    frameDragEndRef.current = null;
+    setDrawingState(prev => ({
+      ...prev,
+      initialClickPoint: point,
+      hasMoved: false
+    }));
+    onFrameDrawStart?.('frame');
+  }, [onFrameDrawStart]);
+
+  // 拖拽预览框（松手后替换为真正的画板）
+  const createFramePreview = useCallback((startPoint: paper.Point, endPoint: paper.Point) => {
+    ensureDrawingLayer();
+    const preview = new paper.Path.Rectangle(new paper.Rectangle(startPoint, endPoint)) as ExtendedPath;
+    preview.strokeColor = new paper.Color('#3b82f6');
+    preview.strokeWidth = 1;
+    preview.dashArray = [6, 4];
+    preview.fillColor = new paper.Color(1, 1, 1, 0.6);
+    preview.data = { isHelper: true } as ExtendedPath['data'];
+    return preview;
+  }, [ensureDrawingLayer]);
+
+  const updateFrameDraw = useCallback((point: paper.Point) => {
+    const initialClickPoint = initialClickPointRef.current || drawingState.initialClickPoint;
+    if (!initialClickPoint) return;
+    if (!pathRef.current && !hasMovedRef.current) {
+      if (initialClickPoint.getDistance(point) < drawingState.dragThreshold) return;
+      hasMovedRef.current = true;
+      setDrawingState(prev => ({ ...prev, hasMoved: true }));
+      isDrawingRef.current = true;
+    }
+
+    frameDragEndRef.current = point;
+    if (pathRef.current) pathRef.current.remove();
+    pathRef.current = createFramePreview(initialClickPoint, point);
+  }, [createFramePreview, drawingState.initialClickPoint, drawingState.dragThreshold]);
+
+  const finishFrameDraw = useCallback((setDrawMode?: (mode: DrawMode) => void) => {
+    const initialClickPoint = initialClickPointRef.current || drawingState.initialClickPoint;
+    const endPoint = hasMovedRef.current ? frameDragEndRef.current : null;
+    if (pathRef.current) {
+      try { pathRef.current.remove(); } catch {}
+      pathRef.current = null;
+    }
+
+    if (initialClickPoint) {
+      const preset = getFramePreset(framePresetId);
+      const dragRect = endPoint ? frameRectFromDrag(initialClickPoint, endPoint) : null;
+      const rect = dragRect ?? frameRectFromClick(initialClickPoint, preset);
+      const frame = createFrameBlock(rect, {
+        presetId: dragRect ? 'custom' : preset.id,
+        layer: ensureDrawingLayer(),
+      });
+      if (frame) {
+        logger.debug('创建画板:', frame.data?.name, rect);
+        setDrawMode?.('select');
+      }
+    }
+
+    hasMovedRef.current = false;
+    initialClickPointRef.current = null;
+    frameDragEndRef.current = null;
+  }, [drawingState.initialClickPoint, ensureDrawingLayer, framePresetId]);
+
   // ========== 直线绘制功能 ==========
 
   // 创建直线路径（延迟创建）
@@ -857,6 +933,20 @@ export const useDrawingTools = ({
     const initialClickPoint = initialClickPointRef.current || drawingState.initialClickPoint;
     logger.debug(`finishDraw被调用: drawMode=${drawMode}, pathRef=${!!pathRef.current}, initialClickPoint=${!!initialClickPoint}, hasMoved=${hasMovedRef.current}`);
     
+    if (drawMode === 'frame') {
+      finishFrameDraw(setDrawMode);
+      setDrawingState(prev => ({
+        ...prev,
+        currentPath: null,
+        isDrawing: false,
+        initialClickPoint: null,
+        hasMoved: false
+      }));
+      isDrawingRef.current = false;
+      eventHandlers.onDrawEnd?.(drawMode);
+      return;
+    }
+
     // 处理画线类工具的特殊情况：如果用户只是点击而没有拖拽，切换到选择模式
     if ((drawMode === 'free' || drawMode === 'rect' || drawMode === 'circle') && !pathRef.current && initialClickPoint && !hasMovedRef.current) {
       logger.debug(
@@ -993,7 +1083,7 @@ export const useDrawingTools = ({
     
     eventHandlers.onDrawEnd?.(drawMode);
     logger.debug(`结束${drawMode}绘制`);
-  }, [isEraser, drawingState.initialClickPoint, convertToSketchPath, eventHandlers.onPathComplete, eventHandlers.onDrawEnd]);
+  }, [isEraser, drawingState.initialClickPoint, convertToSketchPath, finishFrameDraw, eventHandlers.onPathComplete, eventHandlers.onDrawEnd]);
 
   const resetEraserToolState = useCallback(() => {
     const currentPath = pathRef.current as unknown as paper.Path | null;
@@ -1082,6 +1172,10 @@ export const useDrawingTools = ({
     update3DModelDraw,
     create3DModelPath,
 
+    // 画板绘制
+    startFrameDraw,
+    updateFrameDraw,
+
     // 通用
     finishDraw,
 
@@ -10,7 +10,7 @@ import { logger } from '@/utils/logger';
 import { clientToProject, getDpr } from '@/utils/paperCoords';
 import { historyService } from '@/services/historyService';
 import type { DrawMode } from '@/stores/toolStore';
-import type { ImageDragState, ImageResizeState } from '@/types/canvas';
+import type { ImageDragState, ImageInstance, ImageResizeState } from '@/types/canvas';
 import { paperSaveService } from '@/services/paperSaveService';
 import { useCanvasStore } from '@/stores';
 import {
@@ -22,6 +22,7 @@ import {
   IMAGE_GROUP_BLOCK_TYPE,
   updateGroupBlockTitle,
 } from '@/utils/paperImageGroupBlock';
+import { collectFrameMembers, deleteFrameBlock, findFrameTitle, isFrameBlock } from '@/utils/paperFrameBlock';
 import type { ImageAssetSnapshot } from '@/types/project';
 import type { ImageGroupBlockSnapshot } from '@/utils/paperImageGroupBlock';
 import type { SnapAlignmentAPI } from './useSnapAlignment';
@@ -102,6 +103,8 @@ interface DrawingTools {
   updateImageDraw: (point: paper.Point) => void;
   start3DModelDraw: (point: paper.Point) => void;
   update3DModelDraw: (point: paper.Point) => void;
+  startFrameDraw: (point: paper.Point) => void;
+  updateFrameDraw: (point: paper.Point) => void;
   finishDraw: (drawMode: DrawMode, ...args: any[]) => void;
   clearTemporaryEraserPaths?: () => number;
   resetEraserToolState?: () => void;
@@ -184,7 +187,8 @@ interface GroupPathDragState {
   active: boolean;
   mode: GroupPathDragMode | null;
   startPoint: paper.Point | null;
-  paths: Array<{ path: paper.Path; startPosition: paper.Point }>;
+  // 画板拖拽时还会带上标题与画板内文本（PointText），因此按 Item 记录
+  paths: Array<{ path: paper.Item; startPosition: paper.Point }>;
   groupBlocks: Array<{
     block: paper.Path;
     imageIds: string[];
@@ -211,6 +215,7 @@ const DRAWING_MODES: ReadonlySet<DrawMode> = new Set([
   'circle',
   'image',
   '3d-model',
+  'frame',
 ]);
 
 const isPaperItemRemoved = (item: paper.Item | null | undefined): boolean => {
@@ -586,6 +591,39 @@ export const useInteractionController = ({
     return true;
   }, [collectSelectedPaths, resetGroupPathDrag]);
 
+  // 拖动画板：画板、标题与中心落在画板内的路径/文本按位移平移，图片经 groupBlocks 走图片移动
+  const beginFrameDrag = useCallback((frame: paper.Path, startPoint: paper.Point) => {
+    const members = collectFrameMembers(frame);
+    const title = findFrameTitle(String(frame.data?.frameId || ''));
+    const items: paper.Item[] = [frame, ...(title ? [title] : []), ...members.items];
+    const pathEntries = items
+      .filter((item) => !isPaperItemRemoved(item) && item.position)
+      .map((item) => ({ path: item, startPosition: item.position.clone() }));
+
+    const imageInstanceMap = new Map<string, ImageInstance>(
+      (imageToolRef.current?.imageInstances ?? []).map((img: ImageInstance) => [String(img.id), img])
+    );
+    const startBounds: Record<string, { x: number; y: number }> = {};
+    members.imageIds.forEach((id) => {
+      if (isLockedImage(id)) return;
+      const paperBounds = getImagePaperBounds(id);
+      const inst = imageInstanceMap.get(id);
+      if (paperBounds) startBounds[id] = { x: paperBounds.x, y: paperBounds.y };
+      else if (inst?.bounds) startBounds[id] = { x: inst.bounds.x, y: inst.bounds.y };
+    });
+    const imageIds = Object.keys(startBounds);
+
+    groupPathDragRef.current = {
+      active: true,
+      mode: 'path',
+      startPoint: startPoint.clone(),
+      paths: pathEntries,
+      groupBlocks: imageIds.length > 0 ? [{ block: frame, imageIds, startBounds }] : [],
+      hasMoved: false
+    };
+    return pathEntries.length > 0;
+  }, [isLockedImage]);
+
   const updateLibraryDropHover = useCallback((clientX: number, clientY: number, enabled: boolean) => {
     const libraryDropZone = document.querySelector('[data-library-drop-zone="true"]');
     if (!libraryDropZone) {
@@ -649,7 +687,9 @@ export const useInteractionController = ({
     }
 
     // Alt+拖拽路径：创建占位框，原路径保持不动
-    if (altPressed && state.paths.length > 0 && !pathAltDragClonedRef.current) {
+    // 画板不支持 Alt 复制（副本会带着同一个 frameId）
+    const isFrameDrag = state.paths.some(({ path }) => isFrameBlock(path));
+    if (altPressed && !isFrameDrag && state.paths.length > 0 && !pathAltDragClonedRef.current) {
       pathAltDragClonedRef.current = true;
 
       // 计算所有路径的总边界
@@ -965,12 +1005,13 @@ export const useInteractionController = ({
       // 处理路径编辑交互
       const selectedPathForEdit = latestSelectionTool.selectedPath;
       const isImageGroupBlockSelected = selectedPathForEdit?.data?.type === 'image-group';
+      const isFrameSelected = isFrameBlock(selectedPathForEdit);
       const allowSegmentEdit = Boolean(
         latestSelectionTool?.isPathEditing
           ? latestSelectionTool.isPathEditing(selectedPathForEdit)
           : selectedPathForEdit?.data?.isPathEditing
       );
-      if (!hasMultiplePathSelection && !isImageGroupBlockSelected) {
+      if (!hasMultiplePathSelection && !isImageGroupBlockSelected && !isFrameSelected) {
         const pathEditResult = latestPathEditor.handlePathEditInteraction(
           point,
           latestSelectionTool.selectedPath,
@@ -1110,6 +1151,13 @@ export const useInteractionController = ({
         const pathSelectedByThisClick = selectionResult.path;
         const pathWasSelected = previouslySelectedPaths.has(selectionResult.path);
 
+        if (isFrameBlock(selectionResult.path) && !ctrlPressed) {
+          if (beginFrameDrag(selectionResult.path, point)) {
+            document.body.classList.add('tanva-canvas-dragging');
+          }
+          return;
+        }
+
         if (selectionResult.path?.data?.type === 'image-group') {
           const rawIds = (selectionResult.path.data as any)?.imageIds;
           const candidateIds = Array.isArray(rawIds)
@@ -1258,6 +1306,8 @@ export const useInteractionController = ({
       return;
     } else if (currentDrawMode === '3d-model') {
       latestDrawingTools.start3DModelDraw(point);
+    } else if (currentDrawMode === 'frame') {
+      latestDrawingTools.startFrameDraw(point);
     } else if (currentDrawMode === 'text') {
       // 文本工具处理，传递当前工具模式
       latestSimpleTextTool.handleCanvasClick(point, event as any, currentDrawMode);
@@ -1265,7 +1315,7 @@ export const useInteractionController = ({
     }
 
     latestDrawingTools.isDrawingRef.current = true;
-  }, [canvasRef, beginGroupPathDrag, collectDragImageGroupSnapshots, isLockedImage, isSelectionLikeMode, isPendingUploadImage, startViewportPanDrag]);
+  }, [canvasRef, beginGroupPathDrag, beginFrameDrag, collectDragImageGroupSnapshots, isLockedImage, isSelectionLikeMode, isPendingUploadImage, startViewportPanDrag]);
 
   // 更新鼠标光标样式（需在 handleMouseMove 之前定义，避免临时死区）
   function updateCursorStyle(
@@ -1853,6 +1903,8 @@ export const useInteractionController = ({
       latestDrawingTools.updateImageDraw(point);
     } else if (currentDrawMode === '3d-model') {
       latestDrawingTools.update3DModelDraw(point);
+    } else if (currentDrawMode === 'frame') {
+      latestDrawingTools.updateFrameDraw(point);
     }
   }, [
     canvasRef,
@@ -2044,6 +2096,7 @@ export const useInteractionController = ({
 
         resetGroupPathDrag();
         clearLibraryDropHover();
+        document.body.classList.remove('tanva-canvas-dragging');
         if (moved) {
           try { paper.view.update(); } catch {}
           historyService.commit('move-paths').catch(() => {});
@@ -2315,7 +2368,7 @@ export const useInteractionController = ({
     }
 
     // ========== 绘图模式处理 ==========
-    const validDrawingModes: DrawMode[] = ['line', 'arrow', 'free', 'rect', 'circle', 'image', '3d-model'];
+    const validDrawingModes: DrawMode[] = ['line', 'arrow', 'free', 'rect', 'circle', 'image', '3d-model', 'frame'];
 
     // 直线/箭头模式特殊处理：首击抬起时不应结束绘制，否则无法等待第二次点击
     if (currentDrawMode === 'line' || currentDrawMode === 'arrow') {
@@ -2493,6 +2546,12 @@ export const useInteractionController = ({
               return;
             }
 
+            // 画板：删除画板与标题，画板内的内容保留
+            if (isFrameBlock(p)) {
+              if (deleteFrameBlock(p)) didDelete = true;
+              return;
+            }
+
             const imageIdFromPath = resolveImageIdFromPath(p);
             if (
               imageIdFromPath &&
@@ -18,6 +18,29 @@ import type { Model3DData, Model3DCameraState } from '@/services/model3DUploadSe
 import type { ModelAssetSnapshot } from '@/types/project';
 import { useLayerStore } from '@/stores/layerStore';
 import type { DrawMode } from '@/stores/toolStore';
+import { collabCanvasBridge } from '@/collab/collabCanvasBridge';
+import { diffEntitySnapshots, type EntityBaseline } from '@/collab/canvasPatchSync';
+
+// 与 paperSaveService 采集的模型快照同构，作为 canvas_patch 的 upsertModels 条目
+const buildModelSnapshot = (instance: Model3DInstance): ModelAssetSnapshot => {
+  const data = instance.modelData;
+  const url = data.url || data.path || '';
+  return {
+    id: instance.id,
+    url,
+    key: data.key,
+    path: data.path || url,
+    format: data.format || 'glb',
+    fileName: data.fileName || 'model',
+    fileSize: data.fileSize || 0,
+    defaultScale: data.defaultScale || { x: 1, y: 1, z: 1 },
+    defaultRotation: data.defaultRotation || { x: 0, y: 0, z: 0 },
+    timestamp: data.timestamp || 0,
+    camera: data.camera,
+    bounds: { ...instance.bounds },
+    layerId: instance.layerId ?? null,
+  };
+};
 
 interface UseModel3DToolProps {
   context: DrawingContext;
@@ -38,6 +61,9 @@ export const useModel3DTool = ({ context, canvasRef, eventHandlers = {}, setDraw
   const cameraChangeTimersRef = useRef<Record<string, number>>({});
   const [selectedPlaceholderId, setSelectedPlaceholderId] = useState<string | null>(null);  // 占位框选中状态
   const placeholdersRef = useRef<Map<string, paper.Group>>(new Map());  // 存储所有占位框
+  // 协作：上次发出的模型快照基线；hydrate/从 Paper 重建/应用远端后只重建基线不发送
+  const collabBaselineRef = useRef<EntityBaseline>(new Map());
+  const collabRebaselineRef = useRef(true);
 
   useEffect(() => {
     model3DInstancesRef.current = model3DInstances;
@@ -718,6 +744,7 @@ export const useModel3DTool = ({ context, canvasRef, eventHandlers = {}, setDraw
       }
 
       if (built.length > 0) {
+        collabRebaselineRef.current = true;
         setModel3DInstances(built);
         setSelectedModel3DIds([]);
       }
@@ -727,6 +754,7 @@ export const useModel3DTool = ({ context, canvasRef, eventHandlers = {}, setDraw
   }, []);
 
   const hydrateFromSnapshot = useCallback((snapshots: ModelAssetSnapshot[]) => {
+    collabRebaselineRef.current = true;
     if (!Array.isArray(snapshots) || snapshots.length === 0) {
       setModel3DInstances([]);
       setSelectedModel3DIds([]);
@@ -886,6 +914,94 @@ export const useModel3DTool = ({ context, canvasRef, eventHandlers = {}, setDraw
     return modelId;
   }, [create3DModelPlaceholder, handleModel3DUploaded]);
 
+  // ========== 协作：发送本地模型变更 ==========
+  // 上传/移动/缩放/相机/删除都会落到 model3DInstances，按快照 diff 出 upsertModels/removeModelIds；
+  // 拖拽中每帧的状态更新由桥层去抖合并。
+  useEffect(() => {
+    const { upserts, removeIds, next } = diffEntitySnapshots(
+      collabBaselineRef.current,
+      model3DInstances.map(buildModelSnapshot)
+    );
+    collabBaselineRef.current = next;
+    if (collabRebaselineRef.current) {
+      collabRebaselineRef.current = false;
+      return;
+    }
+    if (!collabCanvasBridge.connected || collabCanvasBridge.isApplyingRemote) return;
+    if (upserts.length === 0 && removeIds.length === 0) return;
+    collabCanvasBridge.sendCanvasPatch({ upsertModels: upserts, removeModelIds: removeIds });
+  }, [model3DInstances]);
+
+  // ========== 协作：应用远端模型 patch ==========
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent).detail as
+        | { upsertModels?: ModelAssetSnapshot[]; removeModelIds?: string[] }
+        | undefined;
+      if (!detail) return;
+      const upserts = Array.isArray(detail.upsertModels) ? detail.upsertModels : [];
+      const removeIds = Array.isArray(detail.removeModelIds) ? detail.removeModelIds : [];
+      if (upserts.length === 0 && removeIds.length === 0) return;
+
+      collabCanvasBridge.setApplyingRemote(true);
+      collabRebaselineRef.current = true;
+      try {
+        for (const snap of upserts) {
+          if (!snap?.id || !snap.bounds) continue;
+          const existing = model3DInstancesRef.current.find((m) => m.id === snap.id);
+          if (!existing) {
+            if (!snap.url && !snap.path) continue;
+            // createModel3DFromSnapshot 会按 layerId 激活图层，远端插入后还原本地的活动图层
+            const activeLayerId = useLayerStore.getState().activeLayerId;
+            try { createModel3DFromSnapshot(snap, { idOverride: snap.id }); } catch {}
+            if (activeLayerId && useLayerStore.getState().activeLayerId !== activeLayerId) {
+              try { useLayerStore.getState().activateLayer(activeLayerId); } catch {}
+            }
+            continue;
+          }
+
+          const b = existing.bounds;
+          if (
+            b.x !== snap.bounds.x ||
+            b.y !== snap.bounds.y ||
+            b.width !== snap.bounds.width ||
+            b.height !== snap.bounds.height
+          ) {
+            try { handleModel3DResize(snap.id, { ...snap.bounds }); } catch {}
+          }
+          if (snap.camera && !(existing.modelData.camera && cameraStatesEqual(existing.modelData.camera, snap.camera))) {
+            // 远端相机只同步状态与 Paper data，不写本地历史
+            const camera = snap.camera;
+            setModel3DInstances(prev => prev.map(m =>
+              m.id === snap.id ? { ...m, modelData: { ...m.modelData, camera } as Model3DData } : m
+            ));
+            try {
+              const group = paper.project.getItems({
+                match: (item: paper.Item) => item.data?.type === '3d-model' && item.data?.modelId === snap.id,
+              })[0];
+              if (group?.data) {
+                group.data.camera = camera;
+                if (group.data.modelData) group.data.modelData = { ...group.data.modelData, camera };
+              }
+            } catch {}
+          }
+        }
+
+        for (const id of removeIds) {
+          if (typeof id !== 'string' || !id) continue;
+          if (!model3DInstancesRef.current.some((m) => m.id === id)) continue;
+          try { handleModel3DDelete(id); } catch {}
+        }
+        try { paper.view?.update(); } catch {}
+      } finally {
+        queueMicrotask(() => collabCanvasBridge.setApplyingRemote(false));
+      }
+    };
+
+    window.addEventListener('collab:canvas-apply', handler as EventListener);
+    return () => window.removeEventListener('collab:canvas-apply', handler as EventListener);
+  }, [createModel3DFromSnapshot, handleModel3DResize, handleModel3DDelete]);
+
   return {
     // 状态
     model3DInstances,
@@ -8,6 +8,7 @@ import paper from 'paper';
 import { ImageResourceManager } from '@/canvas/ImageResourceManager';
 import { logger } from '@/utils/logger';
 import { historyService } from '@/services/historyService';
+import type { HistoryCommitOrigin } from '@/services/historyTransaction';
 import { paperSaveService } from '@/services/paperSaveService';
 import { imageUploadService } from '@/services/imageUploadService';
 import { recordImageHistoryEntry } from '@/services/imageHistoryService';
@@ -1322,6 +1323,8 @@ export const useQuickImageUpload = ({ context, canvasRef, projectId }: UseQuickI
             // 上传占位框尺寸（无 placeholderId 时的初始显示尺寸）
             initialWidth?: number;
             initialHeight?: number;
+            // 撤销历史来源：小T patch 队列放的图标 "transaction"，折叠进本轮事务
+            historyOrigin?: HistoryCommitOrigin;
         }
     ) => {
         if (!imagePayload) {
@@ -2467,7 +2470,7 @@ export const useQuickImageUpload = ({ context, canvasRef, projectId }: UseQuickI
                     ? '选中图片位置'
                     : (placeholder ? '占位框位置' : '坐标原点');
                 logger.upload(`✅ 快速上传成功：图片已添加到${positionInfo} - ${fileName || 'uploaded-image'}`);
-                try { historyService.commit('add-image').catch(() => {}); } catch {}
+                try { historyService.commit('add-image', { origin: extraOptions?.historyOrigin }).catch(() => {}); } catch {}
                 const persistableRef = normalizePersistableImageRef(
                     resolvedRemoteUrl || resolvedKey || asset.url || asset.src || ''
                 );
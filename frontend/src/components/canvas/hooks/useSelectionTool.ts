@@ -8,6 +8,7 @@ import paper from 'paper';
 import { logger } from '@/utils/logger';
 import type { ImageInstance, Model3DInstance, VideoInstance } from '@/types/canvas';
 import { findImagePaperItem } from '@/utils/paperImageGroupBlock';
+import { FRAME_TITLE_TYPE, findFrameBlock, isFrameBlock } from '@/utils/paperFrameBlock';
 import { useAIChatStore } from '@/stores/aiChatStore';
 
 interface UseSelectionToolProps {
@@ -141,8 +142,11 @@ export const useSelectionTool = ({
       return;
     }
 
+    // 画板只整体选中/拖动，不进入节点编辑
+    const nextEditing = editing && !isFrameBlock(path);
+
     path.selected = true;
-    path.fullySelected = editing;
+    path.fullySelected = nextEditing;
     try {
       if (selectedStrokeColor) {
         (path as any).selectedColor = new paper.Color(selectedStrokeColor);
@@ -151,7 +155,7 @@ export const useSelectionTool = ({
       }
     } catch {}
     try {
-      path.data = { ...(path.data || {}), isPathEditing: editing };
+      path.data = { ...(path.data || {}), isPathEditing: nextEditing };
     } catch {}
 
     if (!(path as any).originalStrokeWidth) {
@@ -985,6 +989,17 @@ export const useSelectionTool = ({
             return { type: 'path', path: block };
           }
         }
+        // 画板标题：命中时选中对应画板
+        if (isPointText && hitItem?.data?.type === FRAME_TITLE_TYPE && hitItem?.data?.frameId) {
+          const frame = findFrameBlock(String(hitItem.data.frameId));
+          if (frame) {
+            clearAllSelections();
+            handlePathSelect(frame);
+            setSelectedPaths([frame]);
+            logger.debug('命中画板标题，选中画板:', frame.data?.name);
+            return { type: 'path', path: frame };
+          }
+        }
       } catch {}
 
       const isPath = hitResult.item instanceof paper.Path;
@@ -12,6 +12,9 @@ import { useToolStore } from '@/stores/toolStore';
 import { useAIChatStore } from '@/stores/aiChatStore';
 import type { TextAssetSnapshot } from '@/types/project';
 import { NodeManager } from '@/canvas/NodeManager';
+import { collabCanvasBridge } from '@/collab/collabCanvasBridge';
+import { diffEntitySnapshots, type EntityBaseline } from '@/collab/canvasPatchSync';
+import { paperSaveService } from '@/services/paperSaveService';
 
 interface TextStyle {
   fontFamily: string;
@@ -32,6 +35,29 @@ interface TextItem {
 
 export type SimpleTextItem = TextItem;
 
+// Paper 的 PointText 运行时支持 fontStyle，但类型声明里没有
+type StyledPointText = paper.PointText & { fontStyle?: string };
+
+// 文本 id 原先只有自增计数，多人协作时各端从同一个数开始会撞 id，追加本端随机后缀。
+const TEXT_ID_SUFFIX = Math.random().toString(36).slice(2, 6);
+
+const toLayerStoreId = (name?: string | null): string | null => {
+  if (!name) return null;
+  return name.startsWith('layer_') ? name.slice('layer_'.length) : name;
+};
+
+// 与 paperSaveService 采集的文本快照同构，position 为 PointText 的 position（包围盒中心）
+const buildTextSnapshot = (item: TextItem): TextAssetSnapshot => ({
+  id: item.id,
+  content: item.paperText?.content ?? '',
+  position: {
+    x: item.paperText?.position?.x ?? 0,
+    y: item.paperText?.position?.y ?? 0,
+  },
+  style: { ...item.style },
+  layerId: toLayerStoreId(item.paperText?.layer?.name),
+});
+
 interface UseSimpleTextToolProps {
   currentColor: string;
   ensureDrawingLayer: () => paper.Layer;
@@ -44,6 +70,11 @@ export const useSimpleTextTool = ({ currentColor, ensureDrawingLayer }: UseSimpl
   const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
   const textIdCounter = useRef(0);
+  // 协作：上次发出的文本快照基线；hydrate/清空后整体重建基线不发送
+  const collabBaselineRef = useRef<EntityBaseline>(new Map());
+  const collabRebaselineRef = useRef(true);
+  // 刚应用过远端 patch 的文本 id：只把这些 id 并入基线不回发，同一批里的本地改动照常发送
+  const collabRemoteTextIdsRef = useRef<Set<string>>(new Set());
   const setDrawMode = useToolStore(state => state.setDrawMode);
 
   // 拖拽状态管理
@@ -102,7 +133,7 @@ export const useSimpleTextTool = ({ currentColor, ensureDrawingLayer }: UseSimpl
         }
       }
     } else {
-      id = `text_${++textIdCounter.current}`;
+      id = `text_${++textIdCounter.current}_${TEXT_ID_SUFFIX}`;
     }
     
     const resolvedColor = style?.color ?? autoDefaultTextColor;
@@ -181,6 +212,7 @@ export const useSimpleTextTool = ({ currentColor, ensureDrawingLayer }: UseSimpl
   }, []);
 
   const clearAllTextItems = useCallback(() => {
+    collabRebaselineRef.current = true;
     setTextItems(prev => {
       prev.forEach(item => {
         try { item.paperText?.remove(); } catch {}
@@ -663,6 +695,7 @@ export const useSimpleTextTool = ({ currentColor, ensureDrawingLayer }: UseSimpl
   }, []);
 
   const hydrateFromPaperItems = useCallback((items: Array<Partial<TextItem> & { paperText: paper.PointText; id?: string }> | null | undefined) => {
+    collabRebaselineRef.current = true;
     if (!items || items.length === 0) {
       setTextItems([]);
       setSelectedTextId(null);
@@ -696,7 +729,7 @@ export const useSimpleTextTool = ({ currentColor, ensureDrawingLayer }: UseSimpl
         id = `text_${++textIdCounter.current}`;
       }
 
-      const match = /^text_(\d+)$/i.exec(id);
+      const match = /^text_(\d+)(?:_[a-z0-9]+)?$/i.exec(id);
       if (match) {
         const parsed = parseInt(match[1], 10);
         if (!Number.isNaN(parsed)) {
@@ -787,6 +820,7 @@ export const useSimpleTextTool = ({ currentColor, ensureDrawingLayer }: UseSimpl
   }, [defaultStyle]);
 
   const hydrateFromSnapshot = useCallback((snapshots: TextAssetSnapshot[]) => {
+    collabRebaselineRef.current = true;
     // 先清理 Paper.js 中现有的文本对象，避免重复（开发模式/严格模式下的双执行）
     try {
       if (paper && paper.project) {
@@ -862,6 +896,123 @@ export const useSimpleTextTool = ({ currentColor, ensureDrawingLayer }: UseSimpl
     setEditingTextId(null);
   }, [ensureDrawingLayer, textItems]);
 
+  // ========== 协作：发送本地文本变更 ==========
+  // 创建/编辑/移动/改样式/删除最终都会落到 textItems，按快照 diff 出 upsertTexts/removeTextIds。
+  // 拖拽过程中只改 Paper 不改状态，松手 moveText 后才发送一次。
+  useEffect(() => {
+    const { upserts, removeIds, next } = diffEntitySnapshots(
+      collabBaselineRef.current,
+      textItems.map(buildTextSnapshot)
+    );
+    collabBaselineRef.current = next;
+    const remoteIds = collabRemoteTextIdsRef.current;
+    collabRemoteTextIdsRef.current = new Set();
+    if (collabRebaselineRef.current) {
+      collabRebaselineRef.current = false;
+      return;
+    }
+    if (!collabCanvasBridge.connected) return;
+    const localUpserts = upserts.filter((snap) => !remoteIds.has(snap.id));
+    const localRemoveIds = removeIds.filter((id) => !remoteIds.has(id));
+    if (localUpserts.length === 0 && localRemoveIds.length === 0) return;
+    collabCanvasBridge.sendCanvasPatch({ upsertTexts: localUpserts, removeTextIds: localRemoveIds });
+  }, [textItems]);
+
+  // ========== 协作：应用远端文本 patch ==========
+  // 远端文本不进入选中/编辑态，也不提交本地历史；正在本地编辑的文本不被远端内容覆盖。
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent).detail as
+        | { upsertTexts?: TextAssetSnapshot[]; removeTextIds?: string[] }
+        | undefined;
+      if (!detail) return;
+      const upserts = Array.isArray(detail.upsertTexts) ? detail.upsertTexts : [];
+      const removeIds = new Set(
+        (Array.isArray(detail.removeTextIds) ? detail.removeTextIds : []).filter(
+          (id): id is string => typeof id === 'string' && !!id
+        )
+      );
+      if (upserts.length === 0 && removeIds.size === 0) return;
+
+      collabCanvasBridge.setApplyingRemote(true);
+      try {
+        const byId = new Map(textItems.map(item => [item.id, item]));
+        const updated = new Map<string, TextItem>();
+        const created: TextItem[] = [];
+
+        for (const snap of upserts) {
+          if (!snap?.id || !snap.position || !snap.style) continue;
+          if (snap.id === editingTextId) continue;
+          const targetLayer = snap.layerId
+            ? useLayerStore.getState().getPaperLayerById(snap.layerId)
+            : null;
+          const existing = byId.get(snap.id);
+          const paperText = existing?.paperText ?? new paper.PointText({ point: [0, 0], visible: true });
+
+          paperText.content = snap.content ?? '';
+          paperText.fillColor = new paper.Color(snap.style.color || '#000000');
+          paperText.fontSize = snap.style.fontSize;
+          paperText.fontFamily = snap.style.fontFamily;
+          paperText.fontWeight = snap.style.fontWeight === 'bold' ? 'bold' : 'normal';
+          (paperText as StyledPointText).fontStyle = snap.style.italic ? 'italic' : 'normal';
+          paperText.justification = snap.style.align;
+          paperText.data = { ...(paperText.data || {}), type: 'text', textId: snap.id };
+
+          if (!existing) {
+            (targetLayer ?? ensureDrawingLayer()).addChild(paperText);
+            const match = /text_(\d+)/.exec(snap.id);
+            if (match) {
+              textIdCounter.current = Math.max(textIdCounter.current, parseInt(match[1], 10) || 0);
+            }
+          } else if (targetLayer && paperText.layer !== targetLayer) {
+            targetLayer.addChild(paperText);
+          }
+          // 样式会改变包围盒，最后再按中心点定位
+          paperText.position = new paper.Point(snap.position.x, snap.position.y);
+
+          const style: TextStyle = { ...snap.style };
+          if (existing) {
+            updated.set(snap.id, { ...existing, style });
+          } else {
+            created.push({ id: snap.id, paperText, isSelected: false, isEditing: false, style });
+          }
+        }
+
+        removeIds.forEach((id) => {
+          if (id === editingTextId) return;
+          const item = byId.get(id);
+          try {
+            if (item?.paperText?.isInserted()) item.paperText.remove();
+          } catch {}
+        });
+
+        upserts.forEach((snap) => {
+          if (snap?.id && snap.id !== editingTextId) collabRemoteTextIdsRef.current.add(snap.id);
+        });
+        removeIds.forEach((id) => {
+          if (id !== editingTextId) collabRemoteTextIdsRef.current.add(id);
+        });
+        setTextItems(prev => [
+          ...prev
+            .filter(item => !removeIds.has(item.id) || item.id === editingTextId)
+            .map(item => updated.get(item.id) ?? item),
+          ...created.filter(item => !prev.some(p => p.id === item.id)),
+        ]);
+        if (selectedTextId && selectedTextId !== editingTextId && removeIds.has(selectedTextId)) {
+          setSelectedTextId(null);
+        }
+
+        try { paper.view?.update(); } catch {}
+        try { paperSaveService.triggerAutoSave('collab-text'); } catch {}
+      } finally {
+        queueMicrotask(() => collabCanvasBridge.setApplyingRemote(false));
+      }
+    };
+
+    window.addEventListener('collab:canvas-apply', handler as EventListener);
+    return () => window.removeEventListener('collab:canvas-apply', handler as EventListener);
+  }, [textItems, editingTextId, selectedTextId, ensureDrawingLayer]);
+
   return {
     // 状态
     textItems,
@@ -9,11 +9,13 @@ import {
   detectAlignments,
   imagesToBounds,
   modelsToBounds,
+  framesToBounds,
   mergeBounds,
   deduplicateAlignments,
   type AlignmentLine,
   type ObjectBounds,
 } from '@/utils/snapAlignment';
+import { getVisibleFrameInfos } from '@/utils/paperFrameBlock';
 import type { ImageInstance, Model3DInstance } from '@/types/canvas';
 
 interface UseSnapAlignmentProps {
@@ -63,8 +65,9 @@ export function useSnapAlignment({
       const excludeSet = new Set(excludeIds);
       const imageBounds = imagesToBounds(imageInstances).filter((b) => !excludeSet.has(b.id));
       const modelBounds = modelsToBounds(model3DInstances).filter((b) => !excludeSet.has(b.id));
+      const frameBounds = framesToBounds(getVisibleFrameInfos()).filter((b) => !excludeSet.has(b.id));
 
-      boundsCache.current = mergeBounds(imageBounds, modelBounds);
+      boundsCache.current = mergeBounds(imageBounds, modelBounds, frameBounds);
     },
     [snapEnabled, imageInstances, model3DInstances]
   );
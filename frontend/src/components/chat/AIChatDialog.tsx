@@ -101,6 +101,7 @@ import {
   XIAOT_PREFERRED_VIDEO_MODELS,
 } from "@/services/agentCanvasProtocol";
 import XiaotCards from "@/components/chat/XiaotCards";
+import AgentTurnActions from "@/components/chat/AgentTurnActions";
 import XiaotStyleAnchorButton from "@/components/chat/XiaotStyleAnchorButton";
 
 type ManualModeOption = {
@@ -5676,6 +5677,12 @@ const AIChatDialog: React.FC = () => {
                                       void processUserInput(text);
                                     }}
                                   />
+                                  <AgentTurnActions
+                                    messageId={message.id}
+                                    status={message.metadata?.agentTurn?.status}
+                                    disabled={xiaotRunning}
+                                    lt={lt}
+                                  />
                                 </div>
                               ) : null;
                               const resendInfo =
@@ -0,0 +1,114 @@
+// 小T整轮改动的「撤销本轮 / 保留」操作条。一轮运行的全部画布改动在撤销栈上
+// 只占一条（见 agentPatchApplier beginAgentTurn/endAgentTurn），这里整体回退或确认。
+// 状态写在消息 metadata.agentTurn.status：pending → reverted / accepted。
+// 事务记录只在内存里，刷新后没有记录就不再显示按钮。
+import React, { useState } from "react";
+import { Check, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAIChatStore, type AgentTurnStatus } from "@/stores/aiChatStore";
+import {
+  acceptAgentTurn,
+  hasAgentTurnRecord,
+  undoAgentTurn,
+} from "@/services/agentPatchApplier";
+
+interface Props {
+  messageId: string;
+  status?: AgentTurnStatus;
+  disabled?: boolean;
+  lt: (zh: string, en: string) => string;
+}
+
+const toast = (message: string, type: "success" | "warning" | "error") => {
+  window.dispatchEvent(new CustomEvent("toast", { detail: { message, type } }));
+};
+
+export default function AgentTurnActions({ messageId, status, disabled, lt }: Props) {
+  const updateMessage = useAIChatStore((state) => state.updateMessage);
+  const [busy, setBusy] = useState(false);
+
+  const setStatus = (next: AgentTurnStatus) => {
+    updateMessage(messageId, (msg) => ({
+      ...msg,
+      metadata: { ...(msg.metadata || {}), agentTurn: { status: next } },
+    }));
+  };
+
+  if (status === "reverted" || status === "accepted") {
+    return (
+      <div className='mt-2 flex items-center gap-1 text-xs text-slate-400'>
+        {status === "reverted" ? <Undo2 className='h-3.5 w-3.5' /> : <Check className='h-3.5 w-3.5' />}
+        <span>
+          {status === "reverted"
+            ? lt("已撤销本轮画布改动", "Canvas changes from this turn were undone")
+            : lt("已保留本轮画布改动", "Canvas changes from this turn were kept")}
+        </span>
+      </div>
+    );
+  }
+  if (status !== "pending" || !hasAgentTurnRecord(messageId)) return null;
+
+  const handleUndo = async () => {
+    setBusy(true);
+    try {
+      const result = await undoAgentTurn(messageId);
+      if (result === "ok") {
+        setStatus("reverted");
+        toast(lt("已撤销小T本轮的画布改动", "Undid this turn's canvas changes"), "success");
+      } else if (result === "stale") {
+        toast(
+          lt(
+            "画布在这一轮之后还有其他改动，请用撤销（Ctrl+Z）逐步回退",
+            "The canvas changed after this turn. Use Undo (Ctrl+Z) to step back instead."
+          ),
+          "warning"
+        );
+      } else {
+        toast(lt("这一轮的改动已无法整体撤销", "This turn can no longer be undone as a whole"), "warning");
+      }
+    } catch (error) {
+      console.warn("[AgentTurnActions] 撤销本轮失败:", error);
+      toast(lt("撤销失败，请重试", "Undo failed, please retry"), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAccept = () => {
+    acceptAgentTurn(messageId);
+    setStatus("accepted");
+  };
+
+  const buttonClass =
+    "inline-flex items-center gap-1 rounded-md border border-solid px-2 py-1 text-xs transition-colors disabled:cursor-not-allowed disabled:opacity-50";
+
+  return (
+    <div className='mt-2 flex items-center gap-1.5'>
+      <button
+        type='button'
+        className={cn(
+          buttonClass,
+          "border-slate-300 text-slate-600 hover:bg-slate-100 dark:border-white/20 dark:text-slate-300 dark:hover:bg-white/10"
+        )}
+        disabled={disabled || busy}
+        onClick={() => void handleUndo()}
+        title={lt("把本轮小T对画布的所有改动一次撤回", "Revert every canvas change made in this turn")}
+      >
+        <Undo2 className='h-3.5 w-3.5' />
+        {lt("撤销本轮", "Undo this turn")}
+      </button>
+      <button
+        type='button'
+        className={cn(
+          buttonClass,
+          "border-emerald-300 text-emerald-700 hover:bg-emerald-50 dark:border-emerald-400/40 dark:text-emerald-300 dark:hover:bg-emerald-400/10"
+        )}
+        disabled={disabled || busy}
+        onClick={handleAccept}
+      >
+        <Check className='h-3.5 w-3.5' />
+        {lt("保留", "Accept")}
+      </button>
+    </div>
+  );
+}
@@ -2,10 +2,14 @@ import React from 'react';
 import paper from 'paper';
 import { useCanvasStore } from '@/stores';
 import { projectToClient, getDpr } from '@/utils/paperCoords';
-import type { PeerCursor } from '@/hooks/usePresence';
+import { colorFor } from '@/collab/presenceColors';
+import type { PeerCursor, PeerViewport } from '@/hooks/usePresence';
 
 interface Props {
   cursors: Record<string, PeerCursor>;
+  /** 对端可见区域，画成虚线框；正在跟随的成员与本端视野重合，不画。 */
+  viewports?: Record<string, PeerViewport>;
+  hiddenViewportUserId?: string | null;
 }
 
 /**
@@ -18,15 +22,16 @@ interface Props {
  * alignment. Subscribing to the local viewport (zoom/panX/panY) re-projects
  * the cursors whenever the local user pans or zooms.
  */
-const CollabCursorLayer: React.FC<Props> = ({ cursors }) => {
+const CollabCursorLayer: React.FC<Props> = ({ cursors, viewports, hiddenViewportUserId }) => {
   // 订阅本地视口：平移/缩放时触发重渲染，从而重新投影对端光标。
   const viewportKey = useCanvasStore((s) => `${s.zoom}:${s.panX}:${s.panY}`);
 
   const entries = Object.values(cursors);
-  if (entries.length === 0) return null;
+  const frames = Object.values(viewports ?? {}).filter((v) => v.userId !== hiddenViewportUserId);
+  if (entries.length === 0 && frames.length === 0) return null;
 
   const canvas = (paper?.view?.element as HTMLCanvasElement | undefined) ?? null;
-  const project = (c: PeerCursor): { x: number; y: number } => {
+  const project = (c: { x: number; y: number }): { x: number; y: number } => {
     if (canvas && paper?.view) {
       try {
         // 对端发来的是与 DPR 无关的共享坐标（world / dpr_sender）。先乘回本地 dpr 还原成
@@ -40,6 +45,16 @@ const CollabCursorLayer: React.FC<Props> = ({ cursors }) => {
     }
     return { x: c.x, y: c.y };
   };
+  const projectRect = (v: PeerViewport) => {
+    const topLeft = project({ x: v.x, y: v.y });
+    const bottomRight = project({ x: v.x + v.width, y: v.y + v.height });
+    return {
+      left: topLeft.x,
+      top: topLeft.y,
+      width: Math.max(0, bottomRight.x - topLeft.x),
+      height: Math.max(0, bottomRight.y - topLeft.y),
+    };
+  };
 
   return (
     <div
@@ -47,6 +62,42 @@ const CollabCursorLayer: React.FC<Props> = ({ cursors }) => {
       style={{ position: 'fixed', inset: 0 }}
       data-viewport={viewportKey}
     >
+      {frames.map((v) => {
+        const rect = projectRect(v);
+        const peer = cursors[v.userId];
+        const color = peer?.color ?? colorFor(v.userId);
+        return (
+          <div
+            key={`viewport-${v.userId}`}
+            style={{
+              position: 'absolute',
+              ...rect,
+              border: `1.5px dashed ${color}`,
+              borderRadius: 4,
+              pointerEvents: 'none',
+            }}
+          >
+            {peer?.name && (
+              <div
+                style={{
+                  position: 'absolute',
+                  left: -1,
+                  top: -20,
+                  padding: '1px 6px',
+                  borderRadius: 4,
+                  fontSize: 11,
+                  color: 'white',
+                  background: color,
+                  whiteSpace: 'nowrap',
+                  opacity: 0.85,
+                }}
+              >
+                {peer.name} 的视野
+              </div>
+            )}
+          </div>
+        );
+      })}
       {entries.map((c) => {
         const screen = project(c);
         return (
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { PresenceUser } from '@/collab/types';
 import { colorFor } from '@/collab/presenceColors';
 import { useUIStore } from '@/stores/uiStore';
@@ -12,6 +12,12 @@ interface Props {
   variant?: 'fixed' | 'inline';
   fallbackUser?: { id: string; name?: string | null; avatarUrl?: string | null } | null;
   profilesByUserId?: Record<string, { name?: string | null; avatarUrl?: string | null }>;
+  /** 已上报视口的成员；只有他们的头像可点击「跳转 / 跟随」。 */
+  viewportUserIds?: string[];
+  followingUserId?: string | null;
+  onJumpTo?: (userId: string) => void;
+  onFollow?: (userId: string) => void;
+  onStopFollow?: () => void;
 }
 
 function initials(name: string): string {
@@ -45,6 +51,7 @@ function pastelFor(seed: string) {
 /**
  * 团队项目在线成员头像条（"看见彼此在线"）。展示当前项目内的在线协作者头像，
  * hover 显示昵称。数据来自 usePresence().online（presence_join/leave + 握手快照）。
+ * 点击他人头像弹出「跳到 TA 的视角 / 跟随 TA」，正在跟随的成员头像带描边。
  */
 const CollabPresenceBar: React.FC<Props> = ({
   online,
@@ -52,9 +59,26 @@ const CollabPresenceBar: React.FC<Props> = ({
   variant = 'fixed',
   fallbackUser,
   profilesByUserId,
+  viewportUserIds,
+  followingUserId,
+  onJumpTo,
+  onFollow,
+  onStopFollow,
 }) => {
   const showLibraryPanel = useUIStore((state) => state.showLibraryPanel);
   const commentActive = useCommentStore((state) => state.active);
+  const [menuUserId, setMenuUserId] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!menuUserId) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(event.target as Node)) setMenuUserId(null);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [menuUserId]);
+
   const users =
     online && online.length > 0
       ? online
@@ -85,6 +109,9 @@ const CollabPresenceBar: React.FC<Props> = ({
     return 0;
   });
   const shown = sorted.slice(0, 6);
+  const menuUser = menuUserId ? sorted.find((u) => u.userId === menuUserId) : undefined;
+  const canNavigate = (userId: string) =>
+    userId !== currentUserId && Boolean(viewportUserIds?.includes(userId)) && Boolean(onJumpTo || onFollow);
   const extra = sorted.length - shown.length;
   const fixedRightOffset = Math.max(
     24,
@@ -100,10 +127,11 @@ const CollabPresenceBar: React.FC<Props> = ({
       style={variant === 'fixed' ? { top: fixedTopOffset, right: fixedRightOffset, pointerEvents: 'none' } : { pointerEvents: 'none' }}
     >
       <div
+        ref={rootRef}
         className={
           variant === 'fixed'
-            ? 'flex items-center'
-            : 'flex items-center'
+            ? 'relative flex items-center'
+            : 'relative flex items-center'
         }
         style={{ pointerEvents: 'auto' }}
         title={`${users.length} 人在线协作`}
@@ -113,12 +141,19 @@ const CollabPresenceBar: React.FC<Props> = ({
             const color = u.color ?? colorFor(u.userId);
             const pastel = getDefaultAvatarColor(u.userId || u.name);
             const isSelf = u.userId === currentUserId;
+            const navigable = canNavigate(u.userId);
+            const isFollowing = u.userId === followingUserId;
             return (
               <div
                 key={u.userId}
-                title={isSelf ? `${u.name}（你）` : u.name}
-                className={`${variant === 'inline' || variant === 'fixed' ? 'h-10 w-10 shadow-lg' : 'h-8 w-8'} flex items-center justify-center overflow-hidden rounded-full border-2 border-white text-xs font-semibold`}
-                style={{ background: u.avatarUrl ? color : pastel.bg, color: pastel.text }}
+                title={isSelf ? `${u.name}（你）` : navigable ? `${u.name} · 点击查看 TA 的视角` : u.name}
+                className={`${variant === 'inline' || variant === 'fixed' ? 'h-10 w-10 shadow-lg' : 'h-8 w-8'} flex items-center justify-center overflow-hidden rounded-full border-2 border-white text-xs font-semibold${navigable ? ' cursor-pointer' : ''}`}
+                style={{
+                  background: u.avatarUrl ? color : pastel.bg,
+                  color: pastel.text,
+                  boxShadow: isFollowing ? `0 0 0 2px ${color}` : undefined,
+                }}
+                onClick={navigable ? () => setMenuUserId((prev) => (prev === u.userId ? null : u.userId)) : undefined}
               >
                 {u.avatarUrl ? (
                   <img src={u.avatarUrl} alt={u.name} className="h-full w-full object-cover" />
@@ -137,6 +172,48 @@ const CollabPresenceBar: React.FC<Props> = ({
             </div>
           )}
         </div>
+        {menuUser && (
+          <div className="absolute right-0 top-full mt-2 min-w-[160px] overflow-hidden rounded-lg border border-gray-200 bg-white py-1 text-sm text-gray-700 shadow-lg">
+            <div className="truncate px-3 py-1 text-xs text-gray-400">{menuUser.name}</div>
+            {onJumpTo && (
+              <button
+                type="button"
+                className="block w-full px-3 py-1.5 text-left hover:bg-gray-100"
+                onClick={() => {
+                  onJumpTo(menuUser.userId);
+                  setMenuUserId(null);
+                }}
+              >
+                跳到 TA 的视角
+              </button>
+            )}
+            {followingUserId === menuUser.userId
+              ? onStopFollow && (
+                  <button
+                    type="button"
+                    className="block w-full px-3 py-1.5 text-left hover:bg-gray-100"
+                    onClick={() => {
+                      onStopFollow();
+                      setMenuUserId(null);
+                    }}
+                  >
+                    停止跟随
+                  </button>
+                )
+              : onFollow && (
+                  <button
+                    type="button"
+                    className="block w-full px-3 py-1.5 text-left hover:bg-gray-100"
+                    onClick={() => {
+                      onFollow(menuUser.userId);
+                      setMenuUserId(null);
+                    }}
+                  >
+                    跟随 TA
+                  </button>
+                )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -2,6 +2,7 @@ import React, { useCallback, useEffect, useRef } from 'react';
 import paper from 'paper';
 import { clientToProject, getDpr } from '@/utils/paperCoords';
 import { useProjectStore } from '@/stores/projectStore';
+import { useCanvasStore } from '@/stores';
 import { useAuthStore } from '@/stores/authStore';
 import { useTeamStore } from '@/stores/teamStore';
 import { useCollab } from '@/collab/CollabContext';
@@ -9,10 +10,20 @@ import { usePresence } from '@/hooks/usePresence';
 import { useTaskBroadcast } from '@/hooks/useTaskBroadcast';
 import { useCollabToast } from '@/hooks/useCollabToast';
 import { useTeamPresenceProfiles } from '@/hooks/useTeamPresenceProfiles';
+import { useFollowPresenter } from '@/hooks/useFollowPresenter';
+import { cameraToSharedViewport, viewportChanged } from '@/collab/viewportPresence';
 import CollabCursorLayer from './CollabCursorLayer';
 import CollabPresenceBar from './CollabPresenceBar';
 import CollabToastHost, { type CollabToastApi } from './CollabToastHost';
-import type { ToastKind } from '@/collab/types';
+import type { CollabViewport, ToastKind } from '@/collab/types';
+
+// 当前可见区域（共享坐标），随光标帧一起广播
+const readSharedViewport = (): CollabViewport | null => {
+  const size = paper?.view?.viewSize;
+  if (!size) return null;
+  const { zoom, panX, panY } = useCanvasStore.getState();
+  return cameraToSharedViewport({ zoom, panX, panY }, { width: size.width, height: size.height }, getDpr());
+};
 
 /**
  * Top-level wiring for canvas real-time collaboration. Mounted once inside
@@ -62,6 +73,9 @@ const CollabRoot: React.FC = () => {
   const collab = useCollab();
   const presence = usePresence(collab ?? undefined);
   const teamPresenceProfiles = useTeamPresenceProfiles();
+  const followPresenter = useFollowPresenter(presence.viewports, presence.online);
+  const lastCursorRef = useRef<{ x: number; y: number } | null>(null);
+  const lastViewportRef = useRef<CollabViewport | null>(null);
 
   const showToast = useCallback((text: string, kind: ToastKind) => {
     toastApiRef.current?.show(text, kind);
@@ -113,7 +127,10 @@ const CollabRoot: React.FC = () => {
       // 跨端广播必须用与 DPR 无关的共享坐标（等价于 React Flow flow 坐标 = world / dpr），
       // 否则两台分辨率/缩放不同的电脑光标会按 dpr 比例错位。接收端再乘回本地 dpr 还原。
       const dpr = getDpr();
-      collab?.sendCursor(p.x / dpr, p.y / dpr);
+      const viewport = readSharedViewport();
+      lastCursorRef.current = { x: p.x / dpr, y: p.y / dpr };
+      if (viewport) lastViewportRef.current = viewport;
+      collab?.sendCursor(p.x / dpr, p.y / dpr, viewport);
     };
     const handler = (e: PointerEvent) => {
       pending = { x: e.clientX, y: e.clientY };
@@ -126,21 +143,80 @@ const CollabRoot: React.FC = () => {
     };
   }, [projectId, collab]);
 
+  // 视口变化（滚轮缩放/拖动画布/窗口尺寸）不一定伴随 pointermove，单独补发一帧光标 + 视口，
+  // 让跟随者和对端的视野框及时更新。连上协作时也先发一帧，新加入的人立即能跳转过来。
+  const collabConnected = Boolean(collab?.connected);
+  useEffect(() => {
+    if (!projectId || !collab || !collabConnected) return;
+    const publish = () => {
+      const viewport = readSharedViewport();
+      if (!viewport || !viewportChanged(lastViewportRef.current, viewport)) return;
+      lastViewportRef.current = viewport;
+      const cursor = lastCursorRef.current ?? {
+        x: viewport.x + viewport.width / 2,
+        y: viewport.y + viewport.height / 2,
+      };
+      collab.sendCursor(cursor.x, cursor.y, viewport);
+    };
+    lastViewportRef.current = null;
+    publish();
+    const unsubscribe = useCanvasStore.subscribe(
+      (state) => `${state.zoom}:${state.panX}:${state.panY}`,
+      publish,
+    );
+    window.addEventListener('resize', publish);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('resize', publish);
+    };
+  }, [projectId, collab, collabConnected]);
+
+  const followedUser = followPresenter.followingUserId
+    ? presence.online.find((u) => u.userId === followPresenter.followingUserId)
+    : undefined;
+  const followedName = followedUser
+    ? teamPresenceProfiles[followedUser.userId]?.name || followedUser.name
+    : '';
+
   if (!projectId) {
     return <CollabToastHost apiRef={setToastApi} />;
   }
 
   return (
     <>
-      <CollabCursorLayer cursors={presence.cursors} />
+      <CollabCursorLayer
+        cursors={presence.cursors}
+        viewports={presence.viewports}
+        hiddenViewportUserId={followPresenter.followingUserId}
+      />
       {!activeTeam?.isPersonal && (
         <CollabPresenceBar
           online={presence.online}
           currentUserId={currentUserId}
           fallbackUser={user ?? null}
           profilesByUserId={teamPresenceProfiles}
+          viewportUserIds={Object.keys(presence.viewports)}
+          followingUserId={followPresenter.followingUserId}
+          onJumpTo={followPresenter.jumpTo}
+          onFollow={followPresenter.follow}
+          onStopFollow={followPresenter.stopFollowing}
         />
       )}
+      {followedUser && (
+        <div
+          className="fixed left-1/2 top-[72px] z-[8000] flex -translate-x-1/2 items-center gap-3 rounded-full px-4 py-1.5 text-sm text-white shadow-lg"
+          style={{ background: followedUser.color ?? '#3b82f6' }}
+        >
+          <span>正在跟随 {followedName} 的视角 · 拖动画布或按 Esc 退出</span>
+          <button
+            type="button"
+            className="rounded-full bg-white/20 px-2 py-0.5 text-xs hover:bg-white/30"
+            onClick={followPresenter.stopFollowing}
+          >
+            停止跟随
+          </button>
+        </div>
+      )}
       <CollabToastHost apiRef={setToastApi} />
     </>
   );
@@ -5,6 +5,8 @@ import { Trash2, Plus, Upload, Download, Group, Ungroup, Lock, Crown } from "luc
 import { fetchTemplateCategories } from "@/services/publicTemplateService";
 import { fetchWithAuth } from "@/services/authFetch";
 import SharedTemplateCard from "@/components/template/SharedTemplateCard";
+import { TemplateInputsDialog } from "@/components/template/TemplateInputsDialog";
+import { TemplateInputsPickerDialog } from "@/components/template/TemplateInputsPickerDialog";
 import SmartImage from "@/components/ui/SmartImage";
 import {
   clearPaperEraserTrails,
@@ -35,6 +37,7 @@ import "@xyflow/react/dist/style.css";
 import "./flow.css";
 import type {
   FlowTemplate,
+  FlowTemplateInput,
   TemplateIndexEntry,
   TemplateNode,
   TemplateEdge,
@@ -112,6 +115,7 @@ import {
 } from "./klingO3VideoMode";
 import VideoFrameExtractNode from "./nodes/VideoFrameExtractNode";
 import VideoToGifNode from "./nodes/VideoToGifNode";
+import SubtitleNode from "./nodes/subtitle/SubtitleNode";
 import VolcEnhanceVideoNode from "./nodes/VolcEnhanceVideoNode";
 import ImageGridNode from "./nodes/ImageGridNode";
 import ImageSplitNode from "./nodes/ImageSplitNode";
@@ -145,6 +149,7 @@ import {
 } from "@/stores/aiChatStore";
 import type { Sora2VideoQuality } from "@/stores/aiChatStore";
 import { historyService } from "@/services/historyService";
+import type { HistoryCommitOrigin } from "@/services/historyTransaction";
 import {
   clipboardService,
   type ClipboardFlowNode,
@@ -275,6 +280,22 @@ import {
   type AlignmentLine,
   type ObjectBounds,
 } from "@/utils/snapAlignment";
+import {
+  executeFlowGraph,
+  type FlowExecutionSummary,
+  type FlowNodeRunState,
+} from "@/utils/flowExecutor";
+import {
+  FLOW_RUN_INPUT_HASH_KEY,
+  computeFlowNodeInputHash,
+  isFlowNodeInputUnchanged,
+  isFlowRunCacheableType,
+} from "@/utils/flowRunInputHash";
+import {
+  applyFlowTemplateInputs,
+  inferFlowTemplateInputs,
+  migrateFlowTemplate,
+} from "@/utils/flowTemplateInputs";
 // collab: transport layer — import collaboration handle + payload types
 import { useCollab } from "@/collab/CollabContext";
 import type { NodePatchPayload, NodeLockPayload, TaskStatusPayload } from "@/collab/types";
@@ -1073,6 +1094,7 @@ const rawNodeTypes = {
   videoAnalyze: VideoAnalyzeNode,
   videoFrameExtract: VideoFrameExtractNode,
   videoToGif: VideoToGifNode,
+  subtitle: SubtitleNode,
   volcEnhanceVideo: VolcEnhanceVideoNode,
   imageGrid: ImageGridNode,
   imageSplit: ImageSplitNode,
@@ -1267,6 +1289,7 @@ const FLOW_GROUP_RUNNABLE_TYPES = new Set([
   "analysis",
   "videoAnalyze",
   "videoToGif",
+  "subtitle",
   "generate",
   "generate4",
   "generateRef",
@@ -1309,7 +1332,65 @@ const FLOW_GROUP_LOCAL_RUN_TYPES = new Set([
   "analysis",
   "videoAnalyze",
   "videoToGif",
+  "subtitle",
 ]);
+// 分组/全局运行并发上限：互不依赖的节点并发执行，视频节点耗时长、上游排队严格，单独限流。
+const FLOW_RUN_CONCURRENCY_TOTAL = 4;
+const FLOW_RUN_VIDEO_CONCURRENCY = 2;
+const FLOW_RUN_CONCURRENCY_BY_TYPE: Record<string, number> = Object.fromEntries(
+  [
+    "sora2Video",
+    "sora2Character",
+    "wan26",
+    "wan2R2V",
+    "happyhorseR2V",
+    "wan27Video",
+    "omniFlashExtVideo",
+    "klingVideo",
+    "kling26Video",
+    "kling30Video",
+    "klingO1Video",
+    "viduVideo",
+    "viduQ3",
+    "doubaoVideo",
+    "seedance20Video",
+    "seedVideo",
+    "volcEnhanceVideo",
+  ].map((type) => [type, FLOW_RUN_VIDEO_CONCURRENCY])
+);
+// 运行结束后仍保留在节点上的标记，需用户点击节点或下次运行时才清除
+const FLOW_RUN_STICKY_STATES = new Set<FlowNodeRunState | undefined>(["failed", "skipped"]);
+
+const omitFlowRunStates = (
+  states: Record<string, FlowNodeRunState>,
+  ids: string[]
+): Record<string, FlowNodeRunState> => {
+  if (!ids.some((id) => id in states)) return states;
+  const next = { ...states };
+  ids.forEach((id) => delete next[id]);
+  return next;
+};
+
+const formatFlowRunSummary = (
+  summary: FlowExecutionSummary,
+  labels: { done: string; stopped: string }
+) => {
+  const { succeeded, cached, failed, skipped, executed, stopped } = summary;
+  const skippedText =
+    (skipped > 0 ? `，跳过 ${skipped}` : "") +
+    (cached > 0 ? `，输入未变沿用 ${cached}` : "");
+  if (stopped) {
+    return failed > 0 || skipped > 0
+      ? `${labels.stopped}：已执行 ${executed} 个节点（成功 ${succeeded}，失败 ${failed}${skippedText}）`
+      : `${labels.stopped}：已执行 ${executed} 个节点`;
+  }
+  if (failed > 0 || skipped > 0) {
+    return `${labels.done}：成功 ${succeeded}，失败 ${failed}${skippedText}`;
+  }
+  return cached > 0
+    ? `${labels.done}：共执行 ${succeeded} 个节点${skippedText}`
+    : `${labels.done}：共执行 ${succeeded} 个节点`;
+};
 const SORA2_MAX_REFERENCE_IMAGES = 1;
 const VIDU_MAX_REFERENCE_IMAGES = 2; // Vidu 当前统一限制最多 2 张参考图（图1/图2）
 const VIDUQ3_MAX_REFERENCE_IMAGES = 2; // Vidu Q3 支持最多 2 张参考图
@@ -1360,6 +1441,7 @@ const VIDEO_SOURCE_NODE_TYPES = [
   "seedanceVideo",
   "volcEnhanceVideo",
   "videoCompose",
+  "subtitle",
 ];
 
 const normalizeSeedanceModelValue = (
@@ -1597,6 +1679,7 @@ const QUICK_CONNECT_PRESETS: Record<
     { nodeType: "videoAnalyze", targetHandle: "video" },
     { nodeType: "videoFrameExtract", targetHandle: "video" },
     { nodeType: "videoToGif", targetHandle: "video" },
+    { nodeType: "subtitle", targetHandle: "video" },
     { nodeType: "wan2R2V", targetHandle: "video-1" },
     { nodeType: "wan27Video", targetHandle: "video" },
     { nodeType: "klingO1Video", targetHandle: "video" },
@@ -1606,6 +1689,7 @@ const QUICK_CONNECT_PRESETS: Record<
   audio: [
     { nodeType: "wan26", targetHandle: "audio" },
     { nodeType: "wan27Video", targetHandle: "audio" },
+    { nodeType: "subtitle", targetHandle: "audio" },
   ],
   character: [{ nodeType: "sora2Video", targetHandle: "character" }],
   unknown: [
@@ -1648,6 +1732,7 @@ const QUICK_CONNECT_PRESETS: Record<
     { nodeType: "klingO1Video", sourceHandle: "video-out" },
     { nodeType: "videoCompose", sourceHandle: "video-out" },
     { nodeType: "videoFrameExtract", sourceHandle: "video" },
+    { nodeType: "subtitle", sourceHandle: "video" },
     { nodeType: "audioStudio", sourceHandle: "video" },
   ],
   audio: [
@@ -1741,6 +1826,7 @@ const NODE_CREDITS_MAP: Record<string, number | string> = {
   seedance20Video: 210, // Seedance 2.0 视频生成
   seedVideo: 600, // Seed 2.0 视频生成
   videoToGif: 30, // 视频转GIF
+  subtitle: 20, // 字幕识别（烧录另计 30）
   videoCompose: 0, // 视频合成 - 浏览器端合成，不消耗积分
   directorConsole: 0, // 导演台 - 3D 搭景截图，不消耗积分
   volcEnhanceVideo: 0, // 视频画质增强
@@ -1807,6 +1893,7 @@ const NODE_PALETTE_ITEMS = [
   { key: "videoAnalyze", zh: "视频分析节点", en: "Video Analysis", category: "other" },
   { key: "videoFrameExtract", zh: "视频抽帧节点", en: "Video Frame Extract", category: "other" },
   { key: "videoToGif", zh: "视频转GIF节点", en: "Video to GIF", category: "other" },
+  { key: "subtitle", zh: "字幕节点", en: "Subtitles", category: "video" },
   { key: "volcEnhanceVideo", zh: "视频画质增强", en: "Video Enhance", category: "video" },
   { key: "storyboardSplit", zh: "分镜拆分节点", en: "Storyboard Split", category: "other" },
   { key: "audioStudio", zh: "音频工作台", en: "Audio Studio", category: "audio" },
@@ -1922,6 +2009,7 @@ const NODE_PANEL_GROUP_BY_TYPE: Record<string, NodePanelGroupKey> = {
   videoAnalyze: "video",
   videoFrameExtract: "video",
   videoToGif: "video",
+  subtitle: "video",
   videoCompose: "video",
   directorConsole: "three",
   audioUpload: "audio",
@@ -1991,6 +2079,7 @@ const FLOW_NODE_DEFAULT_SIZE = {
   videoAnalyze: { w: 280, h: 360 },
   videoFrameExtract: { w: 300, h: 420 },
   videoToGif: { w: 320, h: 420 },
+  subtitle: { w: 380, h: 560 },
   volcEnhanceVideo: { w: 360, h: 620 },
   imageGrid: { w: 300, h: 380 },
   imageSplit: { w: 320, h: 400 },
@@ -2329,6 +2418,7 @@ const FALLBACK_SOURCE_HANDLES_BY_NODE_TYPE: Record<string, string[]> = {
   volcEnhanceVideo: ["video"],
   videoFrameExtract: ["images", "image", "images-range"],
   videoCompose: ["video"],
+  subtitle: ["video"],
   directorConsole: ["source"],
   audioUpload: ["audio"],
   minimaxSpeech: ["audio"],
@@ -2383,6 +2473,7 @@ const FALLBACK_TARGET_HANDLES_BY_NODE_TYPE: Record<string, string[]> = {
   videoAnalyze: ["video"],
   videoFrameExtract: ["video"],
   videoToGif: ["video"],
+  subtitle: ["video", "audio"],
   videoCompose: ["video", "audio"],
   directorConsole: ["target"],
   audioUpload: ["audio"],
@@ -2530,6 +2621,9 @@ const FLOW_NODE_KEY_ALIASES: Record<string, FlowNodeType> = {
   "html-ppt": "htmlPpt",
   ppt: "htmlPpt",
   presentation: "htmlPpt",
+  subtitles: "subtitle",
+  caption: "subtitle",
+  captions: "subtitle",
 };
 
 const canonicalizeNodeTypeKey = (value: string): string =>
@@ -5993,12 +6087,98 @@ function FlowInner() {
     []
   );
 
+  // 按节点 id 打组（成员从原有组中移出；空组随之移除）。返回新组 id，失败返回 null。
+  const createGroupFromNodeIds = React.useCallback(
+    (
+      nodeIds: string[],
+      options?: { name?: string; silent?: boolean; historyOrigin?: HistoryCommitOrigin }
+    ) => {
+      const allNodes = (rf.getNodes?.() || []) as RFNode[];
+      const requested = new Set(nodeIds);
+      const selectedIds = allNodes
+        .filter((node) => requested.has(node.id) && !isGroupNode(node))
+        .map((node) => node.id);
+      if (selectedIds.length < 2) return null;
+
+      const bounds = computeGroupBounds(allNodes, selectedIds);
+      if (!bounds) return null;
+
+      const groupCount = allNodes.filter((node) => isGroupNode(node)).length;
+      const groupId = generateId("group");
+      const groupNode: RFNode = {
+        id: groupId,
+        type: FLOW_GROUP_NODE_TYPE,
+        position: { x: bounds.x, y: bounds.y },
+        data: {
+          groupName: options?.name?.trim() || `分组 ${groupCount + 1}`,
+          groupColor: FLOW_GROUP_DEFAULT_COLOR,
+          childNodeIds: selectedIds,
+          collapsed: false,
+          expandedBounds: bounds,
+        },
+        selected: true,
+        draggable: true,
+        selectable: true,
+        style: {
+          width: bounds.width,
+          height: bounds.height,
+          zIndex: -1,
+        },
+      };
+
+      const selectedSet = new Set(selectedIds);
+      let changed = false;
+      setNodes((prev) => {
+        const next = prev
+          .map((node) => {
+            if (!isGroupNode(node as RFNode)) {
+              return { ...node, selected: false };
+            }
+            const childIds = getGroupChildIds(node as RFNode);
+            const filtered = childIds.filter((id) => !selectedSet.has(id));
+            if (filtered.length !== childIds.length) {
+              changed = true;
+              if (filtered.length === 0) {
+                return null;
+              }
+              return {
+                ...node,
+                selected: false,
+                data: { ...(node.data || {}), childNodeIds: filtered },
+              };
+            }
+            return { ...node, selected: false };
+          })
+          .filter(Boolean) as RFNode[];
+
+        changed = true;
+        return [groupNode, ...next];
+      });
+
+      if (!changed) return null;
+      try {
+        historyService
+          .commit("flow-group-create", { origin: options?.historyOrigin })
+          .catch(() => {});
+      } catch {}
+      if (!options?.silent) {
+        window.dispatchEvent(
+          new CustomEvent("toast", {
+            detail: { message: "已创建分组", type: "success" },
+          })
+        );
+      }
+      return groupId;
+    },
+    [rf, setNodes]
+  );
+
   const createGroupFromSelection = React.useCallback(() => {
     const allNodes = (rf.getNodes?.() || []) as RFNode[];
-    const selectedNodes = allNodes.filter(
-      (node) => node.selected && !isGroupNode(node)
-    );
-    if (selectedNodes.length < 2) {
+    const selectedIds = allNodes
+      .filter((node) => node.selected && !isGroupNode(node))
+      .map((node) => node.id);
+    if (selectedIds.length < 2) {
       window.dispatchEvent(
         new CustomEvent("toast", {
           detail: { message: "请先选择至少两个节点再打组", type: "warning" },
@@ -6006,74 +6186,8 @@ function FlowInner() {
       );
       return false;
     }
-
-    const selectedIds = selectedNodes.map((node) => node.id);
-    const bounds = computeGroupBounds(allNodes, selectedIds);
-    if (!bounds) return false;
-
-    const groupCount = allNodes.filter((node) => isGroupNode(node)).length;
-    const groupId = generateId("group");
-    const groupNode: RFNode = {
-      id: groupId,
-      type: FLOW_GROUP_NODE_TYPE,
-      position: { x: bounds.x, y: bounds.y },
-      data: {
-        groupName: `分组 ${groupCount + 1}`,
-        groupColor: FLOW_GROUP_DEFAULT_COLOR,
-        childNodeIds: selectedIds,
-        collapsed: false,
-        expandedBounds: bounds,
-      },
-      selected: true,
-      draggable: true,
-      selectable: true,
-      style: {
-        width: bounds.width,
-        height: bounds.height,
-        zIndex: -1,
-      },
-    } as any;
-
-    const selectedSet = new Set(selectedIds);
-    let changed = false;
-    setNodes((prev: any[]) => {
-      const next = prev
-        .map((node) => {
-          if (!isGroupNode(node as RFNode)) {
-            return { ...node, selected: false };
-          }
-          const childIds = getGroupChildIds(node as RFNode);
-          const filtered = childIds.filter((id) => !selectedSet.has(id));
-          if (filtered.length !== childIds.length) {
-            changed = true;
-            if (filtered.length === 0) {
-              return null;
-            }
-            return {
-              ...node,
-              selected: false,
-              data: { ...(node.data || {}), childNodeIds: filtered },
-            };
-          }
-          return { ...node, selected: false };
-        })
-        .filter(Boolean) as RFNode[];
-
-      changed = true;
-      return [groupNode, ...next];
-    });
-
-    if (!changed) return false;
-    try {
-      historyService.commit("flow-group-create").catch(() => {});
-    } catch {}
-    window.dispatchEvent(
-      new CustomEvent("toast", {
-        detail: { message: "已创建分组", type: "success" },
-      })
-    );
-    return true;
-  }, [rf, setNodes]);
+    return createGroupFromNodeIds(selectedIds) !== null;
+  }, [rf, createGroupFromNodeIds]);
 
   const updateGroupName = React.useCallback(
     (groupId: string, nextName: string) => {
@@ -6125,8 +6239,12 @@ function FlowInner() {
   const [runningGroupIds, setRunningGroupIds] = React.useState<string[]>([]);
   const [stoppingGroupIds, setStoppingGroupIds] = React.useState<string[]>([]);
   const [isGlobalRunning, setIsGlobalRunning] = React.useState(false);
-  const globalRunStopRequestedRef = React.useRef(false);
-  const groupRunStopRequestedRef = React.useRef<Set<string>>(new Set());
+  const globalRunAbortRef = React.useRef<AbortController | null>(null);
+  const groupRunAbortRef = React.useRef<Map<string, AbortController>>(new Map());
+  // 分组/全局运行中的逐节点排队状态（queued/running/skipped...），仅用于渲染，不写回 nodes
+  const [flowRunStates, setFlowRunStates] = React.useState<
+    Record<string, FlowNodeRunState>
+  >({});
 
   const onEdgesChangeWithHistory = React.useCallback(
     (changes: any) => {
@@ -9356,6 +9474,27 @@ function FlowInner() {
     ]
   );
 
+  // 保存/导出模板前让作者挑选暴露的输入（默认勾选推断结果）；取消返回 null，不保存
+  const [pendingTemplateInputPick, setPendingTemplateInputPick] = React.useState<{
+    templateName: string;
+    candidates: FlowTemplateInput[];
+    resolve: (inputs: FlowTemplateInput[] | null) => void;
+  } | null>(null);
+
+  const pickTemplateInputs = React.useCallback(
+    (
+      templateName: string,
+      nodesForTemplate: RFNode[]
+    ): Promise<FlowTemplateInput[] | null> => {
+      const candidates = inferFlowTemplateInputs(nodesForTemplate);
+      if (!candidates.length) return Promise.resolve([]);
+      return new Promise((resolve) => {
+        setPendingTemplateInputPick({ templateName, candidates, resolve });
+      });
+    },
+    []
+  );
+
   const exportFlowTemplate = React.useCallback(async (
     nodesToExport: RFNode[],
     edgesToExport: Edge[],
@@ -9375,13 +9514,15 @@ function FlowInner() {
       );
       return;
     }
+    const templateName = `${
+      options?.namePrefix || "导出模板"
+    }_${new Date().toLocaleString()}`;
+    const templateInputs = await pickTemplateInputs(templateName, nodesToExport);
+    if (!templateInputs) return;
     setIsExporting(true);
 
     try {
       const templateId = `tpl_${Date.now()}`;
-      const templateName = `${
-        options?.namePrefix || "导出模板"
-      }_${new Date().toLocaleString()}`;
 
       // 处理节点数据：模板导出仅保留稳定的 imageUrl / imageUrls（避免 base64 过大）
       const processedNodes = await Promise.all(
@@ -9548,10 +9689,11 @@ function FlowInner() {
       );
 
       const payload = {
-        schemaVersion: 1 as const,
+        schemaVersion: 2 as const,
         id: templateId,
         name: templateName,
         nodes: processedNodes,
+        inputs: templateInputs,
         edges: edgesToExport.map((e) => ({
           id: e.id,
           source: e.source,
@@ -9583,6 +9725,7 @@ function FlowInner() {
     cleanNodeData,
     getHistoryRemoteUrlForNode,
     isExporting,
+    pickTemplateInputs,
     stripLargeInlineBlobsInPlace,
     isRemoteUrl,
     normalizeStableRemoteUrl,
@@ -10691,7 +10834,8 @@ function FlowInner() {
       rawType: string,
       world: { x: number; y: number },
       paletteDefaultData?: Record<string, any>,
-      paletteConfig?: Partial<NodeConfig>
+      paletteConfig?: Partial<NodeConfig>,
+      historyOrigin?: HistoryCommitOrigin
     ) => {
       // 以默认尺寸中心对齐放置
       const type = normalizeFlowNodeType(rawType);
@@ -11028,6 +11172,16 @@ function FlowInner() {
               boxW: size.w,
               boxH: size.h,
             }
+          : type === "subtitle"
+          ? {
+              status: "idle" as const,
+              language: "zh" as const,
+              segments: [],
+              burnStatus: "idle" as const,
+              videoUrl: undefined,
+              boxW: size.w,
+              boxH: size.h,
+            }
           : type === "imageGrid"
           ? {
               status: "idle" as const,
@@ -11348,7 +11502,7 @@ function FlowInner() {
       };
       setNodes((ns) => ns.concat([{ id, type, position: pos, data } as any]));
       try {
-        historyService.commit("flow-add-node").catch(() => {});
+        historyService.commit("flow-add-node", { origin: historyOrigin }).catch(() => {});
       } catch {}
       setAddPanel((v) => ({ ...v, visible: false }));
       return id;
@@ -12566,6 +12720,7 @@ function FlowInner() {
             "volcEnhanceVideo",
             "genericVideo",
             "seedanceVideo",
+            "subtitle",
           ];
           return allowedVideoSourceTypes.includes(sourceNode.type || "");
         }
@@ -12591,6 +12746,7 @@ function FlowInner() {
             "volcEnhanceVideo",
             "genericVideo",
             "seedanceVideo",
+            "subtitle",
           ];
           return allowedVideoSourceTypes.includes(sourceNode.type || "");
         }
@@ -12602,6 +12758,21 @@ function FlowInner() {
         }
         return false;
       }
+      if (targetNode.type === "subtitle") {
+        if (targetHandle === "video") {
+          if (sourceNode.type === "audioStudio" || sourceNode.type === "tencentSpeech") {
+            return sourceHandle === "video";
+          }
+          return VIDEO_SOURCE_NODE_TYPES.includes(sourceNode.type || "");
+        }
+        if (targetHandle === "audio") {
+          if (sourceHandle !== "audio") return false;
+          return ["audioStudio", "audioUpload", "minimaxSpeech", "tencentSpeech", "minimaxMusic"].includes(
+            sourceNode.type || ""
+          );
+        }
+        return false;
+      }
       if (targetNode.type === "seed3d") {
         if (targetHandle === "img") {
           return isImageSource(sourceNode, sourceHandle);
@@ -12959,6 +13130,9 @@ function FlowInner() {
       if (targetNode?.type === "videoToGif") {
         if (params.targetHandle === "video") return true; // 仅一条视频连接
       }
+      if (targetNode?.type === "subtitle") {
+        if (params.targetHandle === "video" || params.targetHandle === "audio") return true; // 视频/音频各一条
+      }
       if (targetNode?.type === "volcEnhanceVideo") {
         if (params.targetHandle === "video") return true; // 仅一条视频连接
       }
@@ -12997,7 +13171,7 @@ function FlowInner() {
   );
 
   const onConnect = React.useCallback(
-    (params: Connection) => {
+    (params: Connection, historyOrigin?: HistoryCommitOrigin) => {
       if (!isValidConnection(params)) return;
       if (!canAcceptConnection(params)) {
         const targetNode = params.target ? rf.getNode(params.target) : undefined;
@@ -13070,6 +13244,14 @@ function FlowInner() {
             (e) => !(e.target === params.target && e.targetHandle === "video")
           );
         }
+        if (
+          tgt?.type === "subtitle" &&
+          (params.targetHandle === "video" || params.targetHandle === "audio")
+        ) {
+          next = next.filter(
+            (e) => !(e.target === params.target && e.targetHandle === params.targetHandle)
+          );
+        }
         if (
           tgt?.type === "volcEnhanceVideo" &&
           params.targetHandle === "video"
@@ -13516,7 +13698,7 @@ function FlowInner() {
         return out;
       });
       try {
-        historyService.commit("flow-connect").catch(() => {});
+        historyService.commit("flow-connect", { origin: historyOrigin }).catch(() => {});
       } catch {}
 
       // collab: 广播真实创建的边(含 ReactFlow 自分配 id), 保证两端边身份一致
@@ -14928,7 +15110,11 @@ function FlowInner() {
   React.useEffect(() => {
     const handler = (event: Event) => {
       const detail = (event as CustomEvent).detail as
-        | { source?: string; focusNodeId?: string | null }
+        | {
+            source?: string;
+            focusNodeId?: string | null;
+            historyOrigin?: HistoryCommitOrigin;
+          }
         | undefined;
       const focusAfterLayout = () => {
         if (!detail?.focusNodeId) return;
@@ -15001,7 +15187,9 @@ function FlowInner() {
           }
         } catch {}
         try {
-          historyService.commit("flow-auto-layout").catch(() => {});
+          historyService
+            .commit("flow-auto-layout", { origin: detail?.historyOrigin })
+            .catch(() => {});
         } catch {}
         focusAfterLayout();
       };
@@ -21888,6 +22076,7 @@ function FlowInner() {
             providerOptions: {
               midjourney: { mode: "FAST" },
             },
+            nodeId,
           });
 
           if (!mjResult.success || !mjResult.data) {
@@ -22640,6 +22829,7 @@ function FlowInner() {
             imageUrls: imageDatas.length > 0 ? imageDatas : undefined,
             batchMode: false,
             batchCount: 4,
+            nodeId,
           });
 
           if (!result.success || !result.data) {
@@ -23928,6 +24118,38 @@ function FlowInner() {
     ]
   );
 
+  // 增量运行：运行前按当前输入计算哈希，成功后写入 data.runInputHash，
+  // 分组/全局运行据此跳过输入未变的节点；运行开始即清除旧哈希，失败/中断不会留下可复用记录。
+  const setNodeRunInputHash = React.useCallback(
+    (nodeId: string, hash: string | undefined) => {
+      setNodes((ns) =>
+        ns.map((n) => {
+          if (n.id !== nodeId) return n;
+          const current = (n.data as Record<string, unknown> | undefined)?.[FLOW_RUN_INPUT_HASH_KEY];
+          if (current === hash || (!current && !hash)) return n;
+          return { ...n, data: { ...n.data, [FLOW_RUN_INPUT_HASH_KEY]: hash } };
+        })
+      );
+    },
+    [setNodes]
+  );
+
+  const runWithInputHash = React.useCallback(
+    async (nodeId: string, run: () => Promise<void>) => {
+      const node = rf.getNode(nodeId);
+      const inputHash =
+        node && isFlowRunCacheableType(node.type)
+          ? computeFlowNodeInputHash(node, rf.getNodes(), rf.getEdges())
+          : undefined;
+      if (inputHash) setNodeRunInputHash(nodeId, undefined);
+      await run();
+      if (inputHash && rf.getNode(nodeId)?.data?.status === "succeeded") {
+        setNodeRunInputHash(nodeId, inputHash);
+      }
+    },
+    [rf, setNodeRunInputHash]
+  );
+
   const runNode = React.useCallback(
     async (nodeId: string) => {
       if (runNodeInFlightRef.current.has(nodeId)) {
@@ -23936,12 +24158,12 @@ function FlowInner() {
       }
       runNodeInFlightRef.current.add(nodeId);
       try {
-        await runNodeInner(nodeId);
+        await runWithInputHash(nodeId, () => runNodeInner(nodeId));
       } finally {
         runNodeInFlightRef.current.delete(nodeId);
       }
     },
-    [runNodeInner]
+    [runNodeInner, runWithInputHash]
   );
 
   // 小T agent 画布桥：建节点/连线/运行（事件由 services/agentPatchApplier.ts 派发）
@@ -23975,7 +24197,13 @@ function FlowInner() {
             (rect?.height || window.innerHeight) / 2,
         };
         const world = rf.screenToFlowPosition(screenPosition);
-        createdId = createNodeAtWorldCenter(detail.type, world, detail.data);
+        createdId = createNodeAtWorldCenter(
+          detail.type,
+          world,
+          detail.data,
+          undefined,
+          "transaction"
+        );
       } catch (err) {
         console.warn("[agent-bridge] add-node failed:", err);
         createdId = null;
@@ -23988,7 +24216,7 @@ function FlowInner() {
           requestAnimationFrame(() => {
             window.dispatchEvent(
               new CustomEvent(FLOW_AUTO_LAYOUT_EVENT, {
-                detail: { source: "xiaot" },
+                detail: { source: "xiaot", historyOrigin: "transaction" },
               })
             );
           });
@@ -24097,7 +24325,7 @@ function FlowInner() {
       await waitHandleReady(d.target, d.targetHandle);
       await waitHandleReady(d.source, d.sourceHandle);
       try {
-        onConnect(d as Connection);
+        onConnect(d as Connection, "transaction");
       } catch (err) {
         console.warn("[agent-bridge] connect-edge failed:", err);
       }
@@ -24157,6 +24385,184 @@ function FlowInner() {
     };
   }, [createNodeAtWorldCenter, onConnect, runNode, rf]);
 
+  // 小T画布协议 v2：删除节点 / 断开连线 / 移动节点 / 打组。
+  // 与右键删除、橡皮擦、一键整理、手动打组走同一套状态更新与撤销历史；
+  // 被协作端锁定的节点不动。每个监听器都回调 done 放行 applier 串行队列。
+  React.useEffect(() => {
+    const warn = (message: string) => {
+      window.dispatchEvent(
+        new CustomEvent("toast", { detail: { message, type: "warning" } })
+      );
+    };
+    const callDone = (
+      done: ((groupId: string | null) => void) | undefined,
+      groupId: string | null = null
+    ) => {
+      try {
+        done?.(groupId);
+      } catch {}
+    };
+
+    const onAgentDeleteNode = (event: Event) => {
+      const detail = (event as CustomEvent).detail as
+        | { id?: string; done?: () => void }
+        | undefined;
+      try {
+        const allNodes = (rf.getNodes?.() || []) as RFNode[];
+        const target = detail?.id
+          ? allNodes.find((node) => node.id === detail.id)
+          : null;
+        if (!target) return;
+        const ids = expandFlowDeleteIdsWithGroupChildren(
+          allNodes,
+          new Set([target.id])
+        );
+        const locked = Array.from(ids).filter((id) =>
+          lockedByOthersRef.current.has(id)
+        );
+        if (locked.length) {
+          warn(`小T删除未生效：节点正被协作者编辑（${locked.join("、")}）`);
+          return;
+        }
+        const removedEdgeIds = (edgesRef.current || [])
+          .filter((edge) => ids.has(edge.source) || ids.has(edge.target))
+          .map((edge) => String(edge.id));
+        cancelPollingForRemovedNodes(ids);
+        setNodes((prev) => prev.filter((n) => !ids.has(n.id)));
+        setEdges((prev) =>
+          prev.filter((e) => !ids.has(e.source) && !ids.has(e.target))
+        );
+        try {
+          const c0 = collabRef.current;
+          if (c0?.connected && !applyingRemoteRef.current) {
+            c0.sendPatch({
+              removeNodeIds: Array.from(ids),
+              ...(removedEdgeIds.length > 0 ? { removeEdgeIds: removedEdgeIds } : {}),
+            });
+          }
+        } catch {}
+        try {
+          historyService.commit("flow-agent-delete-node", { origin: "transaction" }).catch(() => {});
+        } catch {}
+      } finally {
+        callDone(detail?.done);
+      }
+    };
+
+    const onAgentDisconnectEdge = (event: Event) => {
+      const detail = (event as CustomEvent).detail as
+        | {
+            id?: string | null;
+            source?: string | null;
+            target?: string | null;
+            sourceHandle?: string | null;
+            targetHandle?: string | null;
+            done?: () => void;
+          }
+        | undefined;
+      try {
+        const edgeIds = (edgesRef.current || [])
+          .filter((edge) => {
+            if (detail?.id) return String(edge.id) === detail.id;
+            if (edge.source !== detail?.source || edge.target !== detail?.target) {
+              return false;
+            }
+            if (detail.sourceHandle && edge.sourceHandle !== detail.sourceHandle) {
+              return false;
+            }
+            if (detail.targetHandle && edge.targetHandle !== detail.targetHandle) {
+              return false;
+            }
+            return true;
+          })
+          .map((edge) => String(edge.id));
+        if (!edgeIds.length) {
+          warn("小T断开连线未生效：找不到对应连线");
+          return;
+        }
+        if (deleteFlowEdgesByIds(edgeIds) > 0) {
+          try {
+            historyService
+              .commit("flow-agent-disconnect-edge", { origin: "transaction" })
+              .catch(() => {});
+          } catch {}
+        }
+      } finally {
+        callDone(detail?.done);
+      }
+    };
+
+    const onAgentMoveNode = (event: Event) => {
+      const detail = (event as CustomEvent).detail as
+        | { id?: string; position?: { x: number; y: number }; done?: () => void }
+        | undefined;
+      try {
+        const id = detail?.id;
+        const position = detail?.position;
+        if (!id || !position || !rf.getNode(id)) return;
+        if (lockedByOthersRef.current.has(id)) {
+          warn("小T移动未生效：节点正被协作者编辑");
+          return;
+        }
+        setNodes((prev) =>
+          prev.map((node) => {
+            if (node.id !== id) return node;
+            const { positionAbsolute: _pa, ...rest } = node as RFNode & {
+              positionAbsolute?: unknown;
+            };
+            return { ...rest, position: { x: position.x, y: position.y } };
+          })
+        );
+        try {
+          const c0 = collabRef.current;
+          if (c0?.connected && !applyingRemoteRef.current) {
+            c0.sendPatch({ upsertNodes: [{ id, position }] });
+          }
+        } catch {}
+        try {
+          historyService.commit("flow-agent-move-node", { origin: "transaction" }).catch(() => {});
+        } catch {}
+      } finally {
+        callDone(detail?.done);
+      }
+    };
+
+    const onAgentCreateGroup = (event: Event) => {
+      const detail = (event as CustomEvent).detail as
+        | { nodeIds?: string[]; name?: string; done?: (groupId: string | null) => void }
+        | undefined;
+      let groupId: string | null = null;
+      try {
+        groupId = createGroupFromNodeIds(detail?.nodeIds ?? [], {
+          name: detail?.name,
+          silent: true,
+          historyOrigin: "transaction",
+        });
+      } catch (err) {
+        console.warn("[agent-bridge] create-group failed:", err);
+      }
+      callDone(detail?.done, groupId);
+    };
+
+    window.addEventListener("flow:agent-delete-node", onAgentDeleteNode as EventListener);
+    window.addEventListener("flow:agent-disconnect-edge", onAgentDisconnectEdge as EventListener);
+    window.addEventListener("flow:agent-move-node", onAgentMoveNode as EventListener);
+    window.addEventListener("flow:agent-create-group", onAgentCreateGroup as EventListener);
+    return () => {
+      window.removeEventListener("flow:agent-delete-node", onAgentDeleteNode as EventListener);
+      window.removeEventListener("flow:agent-disconnect-edge", onAgentDisconnectEdge as EventListener);
+      window.removeEventListener("flow:agent-move-node", onAgentMoveNode as EventListener);
+      window.removeEventListener("flow:agent-create-group", onAgentCreateGroup as EventListener);
+    };
+  }, [
+    rf,
+    setNodes,
+    setEdges,
+    cancelPollingForRemovedNodes,
+    deleteFlowEdgesByIds,
+    createGroupFromNodeIds,
+  ]);
+
   // 定义稳定的onSend回调
   const onSendHandler = React.useCallback(
     async (id: string) => {
@@ -24720,8 +25126,108 @@ function FlowInner() {
     [rf, aiProvider, bananaImageRoute, imageModel, imageSize, globalWebSearchEnabled]
   );
 
+  // 供执行器调用的单节点运行：本地节点走 flow:run-node 回调，其余走 runNode 并以节点最终状态判定成败
+  const runNodeForFlowExecution = React.useCallback(
+    async (node: RFNode): Promise<boolean> => {
+      const nodeType = String(node.type || "");
+      if (FLOW_GROUP_LOCAL_RUN_TYPES.has(nodeType)) {
+        let ok = false;
+        await runWithInputHash(node.id, async () => {
+          ok = await new Promise<boolean>((resolve) => {
+            let settled = false;
+            const timeout = window.setTimeout(() => {
+              if (settled) return;
+              settled = true;
+              resolve(false);
+            }, 180000);
+
+            window.dispatchEvent(
+              new CustomEvent("flow:run-node", {
+                detail: {
+                  id: node.id,
+                  done: (result?: boolean) => {
+                    if (settled) return;
+                    settled = true;
+                    window.clearTimeout(timeout);
+                    resolve(result !== false);
+                  },
+                },
+              })
+            );
+          });
+        });
+        return ok;
+      }
+      try {
+        await runNode(node.id);
+      } catch {
+        return false;
+      }
+      return rf.getNode(node.id)?.data?.status !== "failed";
+    },
+    [rf, runNode, runWithInputHash]
+  );
+
+  const executeFlowRun = React.useCallback(
+    async (
+      candidateNodes: RFNode[],
+      allEdges: Edge[],
+      signal: AbortSignal,
+      options?: { force?: boolean }
+    ) => {
+      const runIds = candidateNodes.map((node) => node.id);
+      // 新一轮运行开始：清掉这些节点上一轮残留的失败/跳过标记
+      setFlowRunStates((prev) => omitFlowRunStates(prev, runIds));
+      try {
+        return await executeFlowGraph({
+          nodes: candidateNodes,
+          edges: allEdges,
+          isRunnable: (node) => FLOW_GROUP_RUNNABLE_TYPES.has(String(node.type || "")),
+          runNode: runNodeForFlowExecution,
+          // 强制重跑时不做输入比对；否则以放行时刻的最新节点数据判定输入是否变化
+          shouldSkip: options?.force
+            ? undefined
+            : (node) =>
+                isFlowNodeInputUnchanged(
+                  rf.getNode(node.id) ?? node,
+                  rf.getNodes(),
+                  rf.getEdges()
+                ),
+          limits: {
+            total: FLOW_RUN_CONCURRENCY_TOTAL,
+            byType: FLOW_RUN_CONCURRENCY_BY_TYPE,
+          },
+          signal,
+          onStateChange: (nodeId, state) => {
+            setFlowRunStates((prev) =>
+              prev[nodeId] === state ? prev : { ...prev, [nodeId]: state }
+            );
+          },
+        });
+      } finally {
+        // 失败/跳过标记保留到下次运行或用户点击该节点，其余过程态随运行结束清除
+        setFlowRunStates((prev) =>
+          omitFlowRunStates(
+            prev,
+            runIds.filter((id) => !FLOW_RUN_STICKY_STATES.has(prev[id]))
+          )
+        );
+      }
+    },
+    [rf, runNodeForFlowExecution]
+  );
+
+  const dismissFlowRunState = React.useCallback(
+    (_event: React.MouseEvent, node: RFNode) => {
+      setFlowRunStates((prev) =>
+        prev[node.id] ? omitFlowRunStates(prev, [node.id]) : prev
+      );
+    },
+    []
+  );
+
   const runGroupNodes = React.useCallback(
-    async (groupId: string) => {
+    async (groupId: string, options?: { force?: boolean }) => {
       if (!groupId) return;
 
       let started = false;
@@ -24731,7 +25237,8 @@ function FlowInner() {
         return prev.concat(groupId);
       });
       if (!started) return;
-      groupRunStopRequestedRef.current.delete(groupId);
+      const controller = new AbortController();
+      groupRunAbortRef.current.set(groupId, controller);
       setStoppingGroupIds((prev) => prev.filter((id) => id !== groupId));
 
       try {
@@ -24745,71 +25252,11 @@ function FlowInner() {
           .map((childId) => allNodes.find((node) => node.id === childId))
           .filter((node): node is RFNode => !!node && !isGroupNode(node));
 
-        const childSet = new Set(childNodes.map((node) => node.id));
-        const compareNodePosition = (a: RFNode, b: RFNode) => {
-          const ax = Number(a.position?.x ?? 0);
-          const bx = Number(b.position?.x ?? 0);
-          if (Math.abs(ax - bx) > 0.01) return ax - bx;
-          const ay = Number(a.position?.y ?? 0);
-          const by = Number(b.position?.y ?? 0);
-          return ay - by;
-        };
-
-        const indegree = new Map<string, number>();
-        const nextMap = new Map<string, Set<string>>();
-        childNodes.forEach((node) => {
-          indegree.set(node.id, 0);
-          nextMap.set(node.id, new Set<string>());
-        });
-
-        allEdges.forEach((edge) => {
-          if (!childSet.has(edge.source) || !childSet.has(edge.target)) return;
-          if (edge.source === edge.target) return;
-          const next = nextMap.get(edge.source);
-          if (!next || next.has(edge.target)) return;
-          next.add(edge.target);
-          indegree.set(edge.target, (indegree.get(edge.target) || 0) + 1);
-        });
-
-        const childNodeMap = new Map(childNodes.map((node) => [node.id, node]));
-        const queue = childNodes
-          .filter((node) => (indegree.get(node.id) || 0) === 0)
-          .sort(compareNodePosition);
-        const topoOrdered: RFNode[] = [];
-        const visited = new Set<string>();
-
-        while (queue.length > 0) {
-          const current = queue.shift() as RFNode;
-          if (visited.has(current.id)) continue;
-          visited.add(current.id);
-          topoOrdered.push(current);
-
-          const neighbors = Array.from(nextMap.get(current.id) || []);
-          neighbors.forEach((neighborId) => {
-            const nextDeg = (indegree.get(neighborId) || 0) - 1;
-            indegree.set(neighborId, nextDeg);
-            if (nextDeg === 0) {
-              const neighbor = childNodeMap.get(neighborId);
-              if (neighbor && !visited.has(neighbor.id)) {
-                queue.push(neighbor);
-              }
-            }
-          });
-          queue.sort(compareNodePosition);
-        }
-
-        if (topoOrdered.length < childNodes.length) {
-          childNodes
-            .filter((node) => !visited.has(node.id))
-            .sort(compareNodePosition)
-            .forEach((node) => topoOrdered.push(node));
-        }
-
-        const runnableNodes = topoOrdered.filter((node) =>
-          FLOW_GROUP_RUNNABLE_TYPES.has(String(node.type || ""))
-        );
-
-        if (!runnableNodes.length) {
+        if (
+          !childNodes.some((node) =>
+            FLOW_GROUP_RUNNABLE_TYPES.has(String(node.type || ""))
+          )
+        ) {
           window.dispatchEvent(
             new CustomEvent("toast", {
               detail: { message: "该分组内没有可运行节点", type: "warning" },
@@ -24818,96 +25265,46 @@ function FlowInner() {
           return;
         }
 
-        let successCount = 0;
-        let failedCount = 0;
-        let stoppedByUser = false;
-
-        for (const node of runnableNodes) {
-          if (groupRunStopRequestedRef.current.has(groupId)) {
-            stoppedByUser = true;
-            break;
-          }
-          try {
-            const nodeType = String(node.type || "");
-            if (FLOW_GROUP_LOCAL_RUN_TYPES.has(nodeType)) {
-              const ok = await new Promise<boolean>((resolve) => {
-                let settled = false;
-                const timeout = window.setTimeout(() => {
-                  if (settled) return;
-                  settled = true;
-                  resolve(false);
-                }, 180000);
-
-                window.dispatchEvent(
-                  new CustomEvent("flow:run-node", {
-                    detail: {
-                      id: node.id,
-                      done: (result?: boolean) => {
-                        if (settled) return;
-                        settled = true;
-                        window.clearTimeout(timeout);
-                        resolve(result !== false);
-                      },
-                    },
-                  })
-                );
-              });
-              if (ok) {
-                successCount += 1;
-              } else {
-                failedCount += 1;
-              }
-            } else {
-              await runNode(node.id);
-              successCount += 1;
-            }
-          } catch {
-            failedCount += 1;
-          }
-        }
-
-        if (groupRunStopRequestedRef.current.has(groupId)) {
-          stoppedByUser = true;
-        }
-        const executedCount = successCount + failedCount;
-        const message =
-          stoppedByUser
-            ? failedCount > 0
-              ? `分组运行已停止：已执行 ${executedCount} 个节点（成功 ${successCount}，失败 ${failedCount}）`
-              : `分组运行已停止：已执行 ${executedCount} 个节点`
-          : failedCount > 0
-            ? `分组运行完成：成功 ${successCount}，失败 ${failedCount}`
-            : `分组运行完成：共执行 ${successCount} 个节点`;
-
+        const summary = await executeFlowRun(childNodes, allEdges, controller.signal, {
+          force: options?.force === true,
+        });
         window.dispatchEvent(
           new CustomEvent("toast", {
             detail: {
-              message,
-              type: stoppedByUser || failedCount > 0 ? "warning" : "success",
+              message: formatFlowRunSummary(summary, {
+                done: "分组运行完成",
+                stopped: "分组运行已停止",
+              }),
+              type:
+                summary.stopped || summary.failed > 0 || summary.skipped > 0
+                  ? "warning"
+                  : "success",
             },
           })
         );
       } finally {
-        groupRunStopRequestedRef.current.delete(groupId);
+        if (groupRunAbortRef.current.get(groupId) === controller) {
+          groupRunAbortRef.current.delete(groupId);
+        }
         setRunningGroupIds((prev) => prev.filter((id) => id !== groupId));
         setStoppingGroupIds((prev) => prev.filter((id) => id !== groupId));
       }
     },
-    [rf, runNode]
+    [rf, executeFlowRun]
   );
 
   const stopGroupRun = React.useCallback((groupId: string) => {
     if (!groupId) return;
     const running = runningGroupIds.includes(groupId);
     if (!running) return;
-    groupRunStopRequestedRef.current.add(groupId);
+    groupRunAbortRef.current.get(groupId)?.abort();
     setStoppingGroupIds((prev) =>
       prev.includes(groupId) ? prev : prev.concat(groupId)
     );
     window.dispatchEvent(
       new CustomEvent("toast", {
         detail: {
-          message: "已请求停止分组：当前节点完成后不会继续运行后续节点",
+          message: "已停止分组：排队中的节点不再运行，已发起的任务继续按结果结算",
           type: "warning",
         },
       })
@@ -24984,7 +25381,7 @@ function FlowInner() {
     [rf, setNodes]
   );
 
-  const runGlobalNodes = React.useCallback(async () => {
+  const runGlobalNodes = React.useCallback(async (options?: { force?: boolean }) => {
     let started = false;
     setIsGlobalRunning((prev) => {
       if (prev) return prev;
@@ -24992,7 +25389,8 @@ function FlowInner() {
       return true;
     });
     if (!started) return;
-    globalRunStopRequestedRef.current = false;
+    const controller = new AbortController();
+    globalRunAbortRef.current = controller;
     try {
       (window as Window & { __tanvaFlowGlobalRunning?: boolean }).__tanvaFlowGlobalRunning = true;
     } catch {}
@@ -25008,7 +25406,11 @@ function FlowInner() {
       const allEdges = (rf.getEdges?.() || []) as Edge[];
       const normalNodes = allNodes.filter((node) => !isGroupNode(node));
 
-      if (!normalNodes.length) {
+      if (
+        !normalNodes.some((node) =>
+          FLOW_GROUP_RUNNABLE_TYPES.has(String(node.type || ""))
+        )
+      ) {
         window.dispatchEvent(
           new CustomEvent("toast", {
             detail: { message: "当前没有可运行节点", type: "warning" },
@@ -25017,211 +25419,28 @@ function FlowInner() {
         return;
       }
 
-      const nodeSet = new Set(normalNodes.map((node) => node.id));
-      const compareNodePosition = (a: RFNode, b: RFNode) => {
-        const ax = Number(a.position?.x ?? 0);
-        const bx = Number(b.position?.x ?? 0);
-        if (Math.abs(ax - bx) > 0.01) return ax - bx;
-        const ay = Number(a.position?.y ?? 0);
-        const by = Number(b.position?.y ?? 0);
-        return ay - by;
-      };
-
-      const indegree = new Map<string, number>();
-      const nextMap = new Map<string, Set<string>>();
-      normalNodes.forEach((node) => {
-        indegree.set(node.id, 0);
-        nextMap.set(node.id, new Set<string>());
-      });
-
-      allEdges.forEach((edge) => {
-        if (!nodeSet.has(edge.source) || !nodeSet.has(edge.target)) return;
-        if (edge.source === edge.target) return;
-        const next = nextMap.get(edge.source);
-        if (!next || next.has(edge.target)) return;
-        next.add(edge.target);
-        indegree.set(edge.target, (indegree.get(edge.target) || 0) + 1);
+      const summary = await executeFlowRun(normalNodes, allEdges, controller.signal, {
+        force: options?.force === true,
       });
-
-      const nodeMap = new Map(normalNodes.map((node) => [node.id, node]));
-      const queue = normalNodes
-        .filter((node) => (indegree.get(node.id) || 0) === 0)
-        .sort(compareNodePosition);
-      const topoOrdered: RFNode[] = [];
-      const visited = new Set<string>();
-
-      while (queue.length > 0) {
-        const current = queue.shift() as RFNode;
-        if (visited.has(current.id)) continue;
-        visited.add(current.id);
-        topoOrdered.push(current);
-
-        const neighbors = Array.from(nextMap.get(current.id) || []);
-        neighbors.forEach((neighborId) => {
-          const nextDeg = (indegree.get(neighborId) || 0) - 1;
-          indegree.set(neighborId, nextDeg);
-          if (nextDeg === 0) {
-            const neighbor = nodeMap.get(neighborId);
-            if (neighbor && !visited.has(neighbor.id)) {
-              queue.push(neighbor);
-            }
-          }
-        });
-        queue.sort(compareNodePosition);
-      }
-
-      if (topoOrdered.length < normalNodes.length) {
-        normalNodes
-          .filter((node) => !visited.has(node.id))
-          .sort(compareNodePosition)
-          .forEach((node) => topoOrdered.push(node));
-      }
-
-      const runnableNodes = topoOrdered.filter((node) =>
-        FLOW_GROUP_RUNNABLE_TYPES.has(String(node.type || ""))
-      );
-
-      if (!runnableNodes.length) {
-        window.dispatchEvent(
-          new CustomEvent("toast", {
-            detail: { message: "当前没有可运行节点", type: "warning" },
-          })
-        );
-        return;
-      }
-
-      let successCount = 0;
-      let failedCount = 0;
-      let stoppedByUser = false;
-
-      for (const node of runnableNodes) {
-        if (globalRunStopRequestedRef.current) {
-          stoppedByUser = true;
-          break;
-        }
-        try {
-          const nodeType = String(node.type || "");
-          if (FLOW_GROUP_LOCAL_RUN_TYPES.has(nodeType)) {
-            const localRunPromise = new Promise<boolean>((resolve) => {
-              let settled = false;
-              const timeout = window.setTimeout(() => {
-                if (settled) return;
-                settled = true;
-                resolve(false);
-              }, 180000);
-
-              window.dispatchEvent(
-                new CustomEvent("flow:run-node", {
-                  detail: {
-                    id: node.id,
-                    done: (result?: boolean) => {
-                      if (settled) return;
-                      settled = true;
-                      window.clearTimeout(timeout);
-                      resolve(result !== false);
-                    },
-                  },
-                })
-              );
-            });
-            const ok = await new Promise<boolean>((resolve) => {
-              let settled = false;
-              const handleStop = () => {
-                if (settled) return;
-                settled = true;
-                globalRunStopRequestedRef.current = true;
-                resolve(false);
-              };
-              window.addEventListener(
-                "flow:stop-global",
-                handleStop as EventListener,
-                { once: true }
-              );
-              void localRunPromise.then((value) => {
-                if (settled) return;
-                settled = true;
-                window.removeEventListener(
-                  "flow:stop-global",
-                  handleStop as EventListener
-                );
-                resolve(value);
-              });
-            });
-            if (globalRunStopRequestedRef.current) {
-              stoppedByUser = true;
-              break;
-            }
-            if (ok) {
-              successCount += 1;
-            } else {
-              failedCount += 1;
-            }
-          } else {
-            const ok = await new Promise<boolean>((resolve) => {
-              let settled = false;
-              const handleStop = () => {
-                if (settled) return;
-                settled = true;
-                globalRunStopRequestedRef.current = true;
-                resolve(false);
-              };
-              window.addEventListener(
-                "flow:stop-global",
-                handleStop as EventListener,
-                { once: true }
-              );
-              void runNode(node.id)
-                .then(() => {
-                  if (settled) return;
-                  settled = true;
-                  window.removeEventListener(
-                    "flow:stop-global",
-                    handleStop as EventListener
-                  );
-                  resolve(true);
-                })
-                .catch(() => {
-                  if (settled) return;
-                  settled = true;
-                  window.removeEventListener(
-                    "flow:stop-global",
-                    handleStop as EventListener
-                  );
-                  resolve(false);
-                });
-            });
-            if (globalRunStopRequestedRef.current) {
-              stoppedByUser = true;
-              break;
-            }
-            if (ok) successCount += 1;
-            else failedCount += 1;
-          }
-        } catch {
-          failedCount += 1;
-        }
-      }
-
-      const executedCount = successCount + failedCount;
-      const message = stoppedByUser
-        ? failedCount > 0
-          ? `全局运行已终止：已执行 ${executedCount} 个节点（成功 ${successCount}，失败 ${failedCount}）`
-          : `全局运行已终止：已执行 ${executedCount} 个节点`
-        : failedCount > 0
-          ? `全局运行完成：成功 ${successCount}，失败 ${failedCount}`
-          : `全局运行完成：共执行 ${successCount} 个节点`;
-
       window.dispatchEvent(
         new CustomEvent("toast", {
           detail: {
-            message,
-            type: stoppedByUser || failedCount > 0 ? "warning" : "success",
+            message: formatFlowRunSummary(summary, {
+              done: "全局运行完成",
+              stopped: "全局运行已终止",
+            }),
+            type:
+              summary.stopped || summary.failed > 0 || summary.skipped > 0
+                ? "warning"
+                : "success",
           },
         })
       );
     } finally {
       setIsGlobalRunning(false);
-      globalRunStopRequestedRef.current = false;
+      if (globalRunAbortRef.current === controller) {
+        globalRunAbortRef.current = null;
+      }
       try {
         (window as Window & { __tanvaFlowGlobalRunning?: boolean }).__tanvaFlowGlobalRunning = false;
       } catch {}
@@ -25231,11 +25450,12 @@ function FlowInner() {
         })
       );
     }
-  }, [rf, runNode]);
+  }, [rf, executeFlowRun]);
 
   React.useEffect(() => {
-    const handler = () => {
-      void runGlobalNodes();
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent<{ force?: boolean } | undefined>).detail;
+      void runGlobalNodes({ force: detail?.force === true });
     };
     window.addEventListener("flow:run-global", handler as EventListener);
     return () => {
@@ -25245,7 +25465,7 @@ function FlowInner() {
 
   React.useEffect(() => {
     const handler = () => {
-      globalRunStopRequestedRef.current = true;
+      globalRunAbortRef.current?.abort();
     };
     window.addEventListener("flow:stop-global", handler as EventListener);
     return () => {
@@ -25637,10 +25857,23 @@ function FlowInner() {
               };
             });
 
+      // 分组/全局运行的排队状态同样只加在渲染数组上（见 flow.css 的 .flow-run-*）。
+      const withRunStates =
+        Object.keys(flowRunStates).length === 0
+          ? base
+          : base.map((node) => {
+              const runState = flowRunStates[node.id];
+              if (!runState) return node;
+              return {
+                ...node,
+                className: [node.className, `flow-run-${runState}`].filter(Boolean).join(' '),
+              };
+            });
+
       // collab: 给被他人锁定/选中的对象加可视边框(虚线描边, 颜色按持有者)。
       // 仅作用于渲染数组 nodesForRender, 不写回 nodes, 因此不会被广播或持久化。
-      if (!collabLockedNodes || Object.keys(collabLockedNodes).length === 0) return base;
-      return base.map((node: any) => {
+      if (!collabLockedNodes || Object.keys(collabLockedNodes).length === 0) return withRunStates;
+      return withRunStates.map((node) => {
         const holder = collabLockedNodes[node.id];
         if (!holder) return node;
         // 锁定者用色与其在线头像/光标一致(同一 colorFor 口径)。
@@ -25660,7 +25893,7 @@ function FlowInner() {
         };
       });
     },
-    [nodesWithHandlers, collapsedChildNodeIds, collabLockedNodes]
+    [nodesWithHandlers, collapsedChildNodeIds, collabLockedNodes, flowRunStates]
   );
 
   const edgesForRender = React.useMemo(
@@ -26783,8 +27016,14 @@ function FlowInner() {
   }, [deleteSelectedEdges]);
 
   // -------- 模板：实例化与保存 --------
-  const instantiateTemplateAt = React.useCallback(
-    async (tpl: FlowTemplate, world: { x: number; y: number }) => {
+  // schemaVersion 2 模板声明了暴露输入时，先弹表单收集，再带着输入值落到画布
+  const [pendingTemplateForm, setPendingTemplateForm] = React.useState<{
+    template: FlowTemplate;
+    world: { x: number; y: number };
+  } | null>(null);
+
+  const placeTemplateAt = React.useCallback(
+    (tpl: FlowTemplate, world: { x: number; y: number }) => {
       if (!tpl?.nodes?.length) return;
       const minX = Math.min(...tpl.nodes.map((n) => n.position?.x || 0));
       const minY = Math.min(...tpl.nodes.map((n) => n.position?.y || 0));
@@ -26860,6 +27099,20 @@ function FlowInner() {
     [setNodes, setEdges]
   );
 
+  const instantiateTemplateAt = React.useCallback(
+    async (raw: FlowTemplate, world: { x: number; y: number }) => {
+      const tpl = migrateFlowTemplate(raw);
+      if (!tpl?.nodes?.length) return;
+      if (tpl.inputs.length) {
+        setAddPanel((v) => ({ ...v, visible: false }));
+        setPendingTemplateForm({ template: tpl, world });
+        return;
+      }
+      placeTemplateAt(tpl, world);
+    },
+    [placeTemplateAt]
+  );
+
   // 监听模板实例化事件（从 TemplateModal 触发）
   React.useEffect(() => {
     const handler = (event: Event) => {
@@ -26896,6 +27149,8 @@ function FlowInner() {
     const name =
       prompt("模板名称", `模板_${new Date().toLocaleString()}`) ||
       `模板_${Date.now()}`;
+    const templateInputs = await pickTemplateInputs(name, nodesToSave);
+    if (!templateInputs) return;
     const id = generateId("tpl");
     const minX = Math.min(...nodesToSave.map((n) => n.position.x));
     const minY = Math.min(...nodesToSave.map((n) => n.position.y));
@@ -27068,10 +27323,11 @@ function FlowInner() {
       );
 
       const tpl: FlowTemplate = {
-        schemaVersion: 1,
+        schemaVersion: 2,
         id,
         name,
         nodes: templateNodes as any,
+        inputs: templateInputs,
         edges: edgesToSave.map((e) => ({
           id: e.id,
           source: e.source,
@@ -27094,6 +27350,7 @@ function FlowInner() {
     getHistoryRemoteUrlForNode,
     isRemoteUrl,
     normalizeStableRemoteUrl,
+    pickTemplateInputs,
     rf,
     sanitizeNodeData,
     setUserTplList,
@@ -27153,6 +27410,7 @@ function FlowInner() {
         onNodesChange={onNodesChangeWithHistory}
         onEdgesChange={onEdgesChangeWithHistory}
         defaultViewport={initialViewport}
+        onNodeClick={dismissFlowRunState}
         onSelectionChange={(sel: any) => {
           // collab: 选中即对对象加锁(满足"选中/拖动 → 他人看到边框且不能同时编辑"),
           // 取消选中则释放。不抢占他人已锁定的对象。
@@ -28513,6 +28771,31 @@ function FlowInner() {
           style={{ display: "none" }}
           onChange={(e) => handleImportFiles(e.target.files)}
         />
+        {pendingTemplateInputPick && (
+          <TemplateInputsPickerDialog
+            templateName={pendingTemplateInputPick.templateName}
+            candidates={pendingTemplateInputPick.candidates}
+            onCancel={() => {
+              pendingTemplateInputPick.resolve(null);
+              setPendingTemplateInputPick(null);
+            }}
+            onConfirm={(inputs) => {
+              pendingTemplateInputPick.resolve(inputs);
+              setPendingTemplateInputPick(null);
+            }}
+          />
+        )}
+        {pendingTemplateForm && (
+          <TemplateInputsDialog
+            template={pendingTemplateForm.template}
+            onCancel={() => setPendingTemplateForm(null)}
+            onSubmit={(values) => {
+              const { template, world } = pendingTemplateForm;
+              setPendingTemplateForm(null);
+              placeTemplateAt(applyFlowTemplateInputs(template, values), world);
+            }}
+          />
+        )}
         </div>
       </div>
     </FlowRenderModeProvider>
@@ -37,7 +37,8 @@ import {
   type FlowModelProvider,
 } from "@/utils/flowModelProvider";
 import { useLocaleText } from "@/utils/localeText";
-import { assertSafeHtmlPptCode } from "@/utils/htmlPptSafety";
+import { assertSafeHtmlPptCode, assertSafeHtmlPptDeck } from "@/utils/htmlPptSafety";
+import { exportHtmlPptDeckToPptx, printHtmlPptDeck } from "@/utils/htmlPptExport";
 import {
   HTML_PPT_SLIDE_TEMPLATE_OPTIONS,
   createDefaultHtmlPptDeck,
@@ -512,6 +513,63 @@ const getBananaImageRouteOption = (
 ): BananaImageRoute =>
   bananaImageRoute === "stable" ? "stable" : "normal";
 
+/** 打印 / 另存 PDF 用：每页一张纸，纸张尺寸即设计稿尺寸（保持 deck 比例），不带翻页脚本。 */
+const buildPrintDeckHtml = (deck: HtmlPptDeck, title: string): string => {
+  const design = getDesignSize(deck.aspectRatio);
+  const slides = deck.slides
+    .map(
+      (slide, index) => `<section class="slide-root" data-slide-index="${index}">
+${slide.html || ""}
+</section>`
+    )
+    .join("\n");
+  const slideCss = deck.slides
+    .map((slide) => slide.css || "")
+    .join("\n\n");
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: http:; style-src 'unsafe-inline' https: http:; font-src https: http:; script-src 'none'; connect-src 'none'; frame-src 'none'; object-src 'none'; base-uri 'none'; form-action 'none'">
+  <title>${escapeHtml(title || "HTML PPT")}</title>
+  <style>
+${escapeStyleContent(baseSlideRuntimeCss(deck))}
+${escapeStyleContent(deck.themeCss || "")}
+${escapeStyleContent(slideCss)}
+@page {
+  size: ${design.width}px ${design.height}px;
+  margin: 0;
+}
+html,
+body {
+  margin: 0 !important;
+  width: ${design.width}px !important;
+  height: auto !important;
+  overflow: visible !important;
+  background: #ffffff !important;
+  -webkit-print-color-adjust: exact;
+  print-color-adjust: exact;
+}
+body > .slide-root {
+  width: ${design.width}px !important;
+  height: ${design.height}px !important;
+  transform: none !important;
+  break-after: page;
+  page-break-after: always;
+}
+body > .slide-root:last-child {
+  break-after: auto;
+  page-break-after: auto;
+}
+  </style>
+</head>
+<body>
+${slides}
+</body>
+</html>`;
+};
+
 const buildBananaProviderOptions = (
   bananaImageRoute?: string | null
 ): AIProviderOptions => {
@@ -1527,19 +1585,66 @@ function HtmlPptNodeInner({ id, data, selected }: Props) {
     return () => window.removeEventListener("flow:run-node", handler as EventListener);
   }, [id, runAiEdit]);
 
-  const exportHtml = React.useCallback(() => {
-    const blob = new Blob([buildFullDeckHtml(deck, title)], {
-      type: "text/html;charset=utf-8",
-    });
+  const exportFileName = React.useCallback(
+    (extension: string) => `${title.replace(/[^\w.-]+/g, "_") || "html-ppt"}.${extension}`,
+    [title]
+  );
+
+  const downloadBlob = React.useCallback((blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `${title.replace(/[^\w.-]+/g, "_") || "html-ppt"}.html`;
+    link.download = fileName;
     document.body.appendChild(link);
     link.click();
     link.remove();
     window.setTimeout(() => URL.revokeObjectURL(url), 500);
-  }, [deck, title]);
+  }, []);
+
+  const exportHtml = React.useCallback(() => {
+    const blob = new Blob([buildFullDeckHtml(deck, title)], {
+      type: "text/html;charset=utf-8",
+    });
+    downloadBlob(blob, exportFileName("html"));
+  }, [deck, downloadBlob, exportFileName, title]);
+
+  const [exporting, setExporting] = React.useState<"pptx" | "print" | null>(null);
+
+  const exportPptx = React.useCallback(async () => {
+    if (exporting) return;
+    setExporting("pptx");
+    try {
+      assertSafeHtmlPptDeck(deck);
+      const blob = await exportHtmlPptDeckToPptx({
+        deck,
+        title,
+        design: getDesignSize(deck.aspectRatio),
+        buildSlideSrcDoc: (index) => buildSlideSrcDoc(deck, deck.slides[index], 1),
+        onProgress: (done, total) =>
+          setStatusText(lt(`正在导出 PPTX（${done}/${total}）`, `Exporting PPTX (${done}/${total})`)),
+      });
+      downloadBlob(blob, exportFileName("pptx"));
+      setStatusText(lt("PPTX 已导出", "PPTX exported"));
+    } catch (error) {
+      setStatusText(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(null);
+    }
+  }, [deck, downloadBlob, exportFileName, exporting, lt, title]);
+
+  const printDeck = React.useCallback(async () => {
+    if (exporting) return;
+    setExporting("print");
+    try {
+      assertSafeHtmlPptDeck(deck);
+      await printHtmlPptDeck(buildPrintDeckHtml(deck, title), getDesignSize(deck.aspectRatio));
+      setStatusText(lt("已打开打印，可选择「另存为 PDF」", "Print opened, choose Save as PDF if needed"));
+    } catch (error) {
+      setStatusText(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(null);
+    }
+  }, [deck, exporting, lt, title]);
 
   const copyHtml = React.useCallback(async () => {
     try {
@@ -1944,9 +2049,40 @@ function HtmlPptNodeInner({ id, data, selected }: Props) {
           <button type="button" title={lt("复制 HTML", "Copy HTML")} onClick={copyHtml} style={iconButtonStyle(palette, false)}>
             <Copy size={14} />
           </button>
-          <button type="button" title={lt("导出 HTML", "Export HTML")} onClick={exportHtml} style={iconButtonStyle(palette, false)}>
-            <Download size={14} />
-          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" title={lt("导出", "Export")} disabled={!!exporting} style={iconButtonStyle(palette, !!exporting)}>
+                {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              align="end"
+              side="bottom"
+              sideOffset={8}
+              className="min-w-[180px] rounded-xl border border-slate-200 bg-white/95 p-1 shadow-lg backdrop-blur-md dark:!border-slate-200 dark:!bg-white/95"
+            >
+              <DropdownMenuLabel className="px-3 py-2 text-[11px] uppercase tracking-wide text-slate-400 dark:!text-slate-400">
+                {lt("导出", "Export")}
+              </DropdownMenuLabel>
+              {[
+                { key: "html", label: lt("HTML 单文件", "HTML file"), run: exportHtml },
+                { key: "pptx", label: lt("PowerPoint（PPTX）", "PowerPoint (PPTX)"), run: exportPptx },
+                { key: "print", label: lt("打印 / 另存为 PDF", "Print / Save as PDF"), run: printDeck },
+              ].map((option) => (
+                <DropdownMenuItem
+                  key={option.key}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    void option.run();
+                  }}
+                  onPointerDownCapture={stopFlowPan}
+                  className="rounded-lg px-3 py-2 text-xs text-slate-600 hover:bg-gray-100 dark:!text-slate-600 dark:hover:!bg-gray-100"
+                >
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
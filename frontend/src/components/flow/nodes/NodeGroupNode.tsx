@@ -13,7 +13,7 @@ type NodeGroupData = {
   onUpdateGroupName?: (groupId: string, nextName: string) => void;
   onChangeGroupColor?: (groupId: string, color: string) => void;
   onUngroup?: (groupId: string) => void;
-  onRunGroup?: (groupId: string) => void;
+  onRunGroup?: (groupId: string, options?: { force?: boolean }) => void;
   onStopGroup?: (groupId: string) => void;
   groupRunning?: boolean;
   groupStopping?: boolean;
@@ -453,7 +453,8 @@ function NodeGroupNode({ id, data, selected }: Props) {
             if (running) {
               data?.onStopGroup?.(id);
             } else {
-              data?.onRunGroup?.(id);
+              // Shift+点击：忽略输入哈希，强制重跑组内全部节点
+              data?.onRunGroup?.(id, { force: event.shiftKey });
             }
           }}
           title={
@@ -461,7 +462,10 @@ function NodeGroupNode({ id, data, selected }: Props) {
               ? lt('正在停止后续节点', 'Stopping pending group nodes')
               : running
               ? lt('停止后续节点运行', 'Stop pending group nodes')
-              : lt('依次运行组内节点', 'Run nodes in this group in order')
+              : lt(
+                  '运行组内节点（输入未变的节点沿用结果，Shift+点击强制重跑）',
+                  'Run group nodes (unchanged nodes are reused, Shift+click to force re-run)'
+                )
           }
           style={{
             width: 32,
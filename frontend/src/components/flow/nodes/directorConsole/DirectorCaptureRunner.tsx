@@ -6,21 +6,47 @@ import { Viewport, type ViewportHandle } from './scene/Viewport'
 import { aspectRatio } from './state/aspect'
 import type { AspectKey, CharacterObj, DirectorScene, Vec3 } from './types'
 import { sendShotsToCanvas } from './sendToCanvas'
+import { useProjectContentStore } from '@/stores/projectContentStore'
 
-// Tanva 后端 director-capture 租约（薄）：claim 原子认领 + report 记结果。前端建输出节点，后端不建。
+// Tanva 后端 director-capture 租约：claim 原子认领 + resume 续约 + report 记结果 + 状态查询。
+// 租约持久化在后端（Redis / 数据库），前端建输出节点，后端不建。
 function getApiBase(): string {
   const base = import.meta.env.VITE_API_BASE_URL
   return typeof base === 'string' && base ? base.replace(/\/$/, '') : ''
 }
-async function claimDirectorCapture(captureId: string): Promise<{ ok: boolean; leaseToken?: string; scene?: unknown }> {
+type LeaseStatus = 'claimed' | 'succeeded' | 'failed'
+type ClaimResult = { ok: boolean; leaseToken?: string; status?: LeaseStatus; scene?: unknown }
+type LeaseInfo = { captureId: string; status: LeaseStatus; error?: string | null; expiresAt?: number }
+
+async function claimDirectorCapture(
+  captureId: string,
+  context: { nodeId: string; projectId?: string | null },
+): Promise<ClaimResult> {
   const r = await fetchWithAuth(`${getApiBase()}/api/director-capture/claim`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ captureId }),
+    body: JSON.stringify({ captureId, nodeId: context.nodeId, projectId: context.projectId || undefined }),
+  })
+  if (!r.ok) return { ok: false }
+  return r.json()
+}
+async function resumeDirectorCapture(captureId: string, leaseToken: string): Promise<{ ok: boolean }> {
+  const r = await fetchWithAuth(`${getApiBase()}/api/director-capture/resume`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ captureId, leaseToken }),
   })
   if (!r.ok) return { ok: false }
   return r.json()
 }
+async function getDirectorCaptureStatus(captureId: string): Promise<LeaseInfo | null> {
+  const r = await fetchWithAuth(`${getApiBase()}/api/director-capture/${encodeURIComponent(captureId)}`, {
+    method: 'GET',
+  })
+  if (!r.ok) return null
+  const data = await r.json()
+  return data?.ok ? (data as LeaseInfo) : null
+}
 async function reportDirectorCapture(input: {
   captureId: string
   leaseToken: string
@@ -37,11 +63,50 @@ async function reportDirectorCapture(input: {
   }).catch(() => {})
 }
 
+// 认领成功后把 leaseToken 存进 sessionStorage：本标签页刷新后凭它 resume，继续执行同一 capture。
+const LEASE_STORAGE_PREFIX = 'tanva.directorCapture.lease.'
+// 租约被别处持有时，隔一段时间重查状态，直到拿到终态（含过期判失败）回写节点。
+const STATUS_RECHECK_MS = 15_000
+
+function readStoredLease(captureId: string): string | null {
+  try {
+    return window.sessionStorage.getItem(LEASE_STORAGE_PREFIX + captureId)
+  } catch {
+    return null
+  }
+}
+function storeLease(captureId: string, leaseToken: string | null) {
+  try {
+    if (leaseToken) window.sessionStorage.setItem(LEASE_STORAGE_PREFIX + captureId, leaseToken)
+    else window.sessionStorage.removeItem(LEASE_STORAGE_PREFIX + captureId)
+  } catch {
+    // sessionStorage 不可用（隐私模式等）时只是失去刷新续跑能力
+  }
+}
+
+/** 把租约终态写回节点：pendingCapture 离开 queued 后不会再被任何 runner 认领。 */
+function writeBackCaptureStatus(
+  nodeId: string,
+  pending: PendingCapture,
+  status: 'succeeded' | 'failed',
+  error?: string | null,
+) {
+  window.dispatchEvent(
+    new CustomEvent('flow:updateNodeData', {
+      detail: {
+        id: nodeId,
+        patch: { pendingCapture: { ...pending, status, ...(error ? { error } : {}) } },
+      },
+    }),
+  )
+}
+
 type PendingCapture = {
   captureId: string
   scene: unknown
   aspect?: string
-  status: 'queued'
+  status: 'queued' | 'succeeded' | 'failed'
+  error?: string
 }
 
 type CaptureJob = {
@@ -83,6 +148,7 @@ export function DirectorCaptureRunner({ nodes, onlyNodeId }: { nodes: Node<any>[
   const [job, setJob] = React.useState<CaptureJob | null>(null)
   const processedRef = React.useRef<Set<string>>(new Set())
   const busyRef = React.useRef(false)
+  const [recheckTick, setRecheckTick] = React.useState(0)
 
   React.useEffect(() => {
     if (busyRef.current || job) return
@@ -96,22 +162,44 @@ export function DirectorCaptureRunner({ nodes, onlyNodeId }: { nodes: Node<any>[
       busyRef.current = true
       processedRef.current.add(pending.captureId)
       const nodeId = n.id
+      const captureId = pending.captureId
       void (async () => {
         try {
-          const claimed = await claimDirectorCapture(pending.captureId)
-          if (!claimed.ok || !claimed.leaseToken) {
-            busyRef.current = false
+          const claimed = await claimDirectorCapture(captureId, {
+            nodeId,
+            projectId: useProjectContentStore.getState().projectId,
+          })
+          if (claimed.ok && claimed.leaseToken) {
+            storeLease(captureId, claimed.leaseToken)
+            const scene = asRecord(claimed.scene ?? pending.scene)
+            setJob({ pending, nodeId, leaseToken: claimed.leaseToken, scene })
             return
           }
-          const scene = asRecord(claimed.scene ?? pending.scene)
-          setJob({ pending, nodeId, leaseToken: claimed.leaseToken, scene })
+          // 已被认领：可能是本标签页刷新前认领的（凭存下的 token 续跑），也可能已出终态
+          const lease = await getDirectorCaptureStatus(captureId)
+          if (lease?.status === 'succeeded' || lease?.status === 'failed') {
+            storeLease(captureId, null)
+            writeBackCaptureStatus(nodeId, pending, lease.status, lease.error)
+          } else if (lease?.status === 'claimed') {
+            const stored = readStoredLease(captureId)
+            if (stored && (await resumeDirectorCapture(captureId, stored)).ok) {
+              setJob({ pending, nodeId, leaseToken: stored, scene: asRecord(pending.scene) })
+              return
+            }
+            // 别处持有：稍后重查，拿到终态（含过期判失败）再回写
+            window.setTimeout(() => {
+              processedRef.current.delete(captureId)
+              setRecheckTick((t) => t + 1)
+            }, STATUS_RECHECK_MS)
+          }
+          busyRef.current = false
         } catch {
           busyRef.current = false
         }
       })()
       break
     }
-  }, [nodes, job, onlyNodeId])
+  }, [nodes, job, onlyNodeId, recheckTick])
 
   if (!job) return null
   const onDone = () => {
@@ -168,6 +256,11 @@ function useRenderSceneFromJob(job: CaptureJob, camId: string): DirectorScene {
   }, [job.scene, camId])
 }
 
+function finishCapture(job: CaptureJob, status: 'succeeded' | 'failed', error?: string) {
+  storeLease(job.pending.captureId, null)
+  writeBackCaptureStatus(job.nodeId, job.pending, status, error)
+}
+
 function OffscreenCapture({ job, onDone }: { job: CaptureJob; onDone: () => void }) {
   const ref = React.useRef<ViewportHandle | null>(null)
   const firedRef = React.useRef(false)
@@ -184,7 +277,10 @@ function OffscreenCapture({ job, onDone }: { job: CaptureJob; onDone: () => void
         leaseToken: job.leaseToken,
         status: 'failed',
         error: '离屏渲染超时（场景未就绪）',
-      }).catch(() => {}).then(() => onDone())
+      }).catch(() => {}).then(() => {
+        finishCapture(job, 'failed', '离屏渲染超时（场景未就绪）')
+        onDone()
+      })
     }, 60_000)
     return () => window.clearTimeout(watchdog)
   }, [job, onDone])
@@ -214,13 +310,16 @@ function OffscreenCapture({ job, onDone }: { job: CaptureJob; onDone: () => void
           leaseToken: job.leaseToken,
           status: 'succeeded',
         })
+        finishCapture(job, 'succeeded')
       } catch (e) {
+        const error = String((e as Error)?.message ?? e)
         await reportDirectorCapture({
           captureId: job.pending.captureId,
           leaseToken: job.leaseToken,
           status: 'failed',
-          error: String((e as Error)?.message ?? e),
+          error,
         }).catch(() => {})
+        finishCapture(job, 'failed', error)
       } finally {
         onDone()
       }
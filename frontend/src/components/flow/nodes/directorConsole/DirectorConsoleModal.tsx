@@ -10,6 +10,7 @@ import { createDefaultDirectorConsoleData } from './types'
 import {
   addCharacter, addCamera, selectObject, removeObject,
   patchCharacter, patchCamera, setAspect, setViewpoint, setActiveCamera, setSkybox, setSkyboxYaw,
+  applyScenePreset, upsertSceneMotion,
 } from './state/scene'
 import { createHistory, pushHistory, undoHistory, redoHistory, snapshotOf, type HistorySnapshot } from './state/history'
 import { copySelection, pasteClipboard, type DirectorClipboard } from './state/clipboard'
@@ -27,7 +28,7 @@ import { sendShotsToCanvas } from './sendToCanvas'
 import { TimelinePanel } from './panels/TimelinePanel'
 import { advancePlayhead } from './state/playback'
 import { useConnectedPanorama } from './useConnectedPanorama'
-import { addObjectTracks, ensurePropertyTimeline, hasKeyframeAt, removeKeyframe, removeObjectTracks, samplePropertyTimeline, setKeyframe, setPropertyKeyframes, setPositionTrajectory, type PropertyName } from './state/propertyTimeline'
+import { addObjectTracks, ensurePropertyTimeline, hasKeyframeAt, removeKeyframe, removeObjectTracks, samplePropertyTimeline, setKeyframe, setKeyframeInterpolation, setPropertyKeyframes, setPositionTrajectory, type PropertyName } from './state/propertyTimeline'
 import type { GroundPath } from './state/groundPath'
 import { model3DUploadService } from '@/services/model3DUploadService'
 import { uploadToOSS } from '@/services/ossUploadService'
@@ -35,6 +36,10 @@ import { generateImageViaAPI } from '@/services/aiBackendAPI'
 import { isPersistableImageRef, resolveImageToBlob } from '@/utils/imageSource'
 import { AiSceneImportDialog, type AiSceneImportMode } from './panels/AiSceneImportDialog'
 import { snapPositionToGround } from './state/gaussianGround'
+import { DirectorAssetsDialog } from './panels/DirectorAssetsDialog'
+import { syncLocalDirectorAssets } from './directorAssetSync'
+import { exportDirectorSceneGltf } from './gltfExport'
+import { useAuthStore } from '@/stores/authStore'
 
 let uidCounter = 0
 const uid = (p: string) => `${p}-${Date.now()}-${uidCounter++}`
@@ -72,6 +77,8 @@ export default function DirectorConsoleModal({ nodeId, onClose }: Props) {
   const [cameraTab, setCameraTab] = React.useState<'props' | 'shots'>('props')
   const [aiImportOpen, setAiImportOpen] = React.useState(false)
   const [aiImportSourceUrl, setAiImportSourceUrl] = React.useState<string>()
+  const [assetsOpen, setAssetsOpen] = React.useState(false)
+  const userId = useAuthStore((s) => s.user?.id)
   // 导演台内吐司（modal 在画布之上，全局 toast 会被盖住）
   const [modalToast, setModalToast] = React.useState<{ msg: string; type: 'success' | 'error' | 'warning' | 'info' } | null>(null)
   const toastTimerRef = React.useRef<number | null>(null)
@@ -96,6 +103,13 @@ export default function DirectorConsoleModal({ nodeId, onClose }: Props) {
       historyPickerCallbacksRef.current.clear()
     }
   }, [])
+  // 首次打开导演台时把 localStorage 里的自定义动作/姿势迁移进服务端个人库（失败静默，下次打开重试）
+  React.useEffect(() => {
+    if (!userId) return
+    syncLocalDirectorAssets(userId)
+      .then((created) => { if (created > 0) showToast(`已把 ${created} 个本地动作/姿势同步到资产库`, 'success') })
+      .catch((err) => console.warn('[director] local asset sync failed', err))
+  }, [userId, showToast])
   const requestHistoryImage = React.useCallback((purpose: string, callback: (url: string, name?: string) => void) => {
     const requestId = uid('history-pick')
     historyPickerCallbacksRef.current.set(requestId, callback)
@@ -512,6 +526,30 @@ export default function DirectorConsoleModal({ nodeId, onClose }: Props) {
 
   // 选中机位时直接截右侧实时机位预览并归入该机位；未选机位时才从导演视角创建新机位。
   // 画幅框可见时按 框高/视口高 收窄 FOV → 截图只含框内内容（所见即所得）
+  // 场景 + 机位路径导出 glTF/GLB（时间轴烘焙成节点动画），直接下载到本地
+  const onExportGltf = React.useCallback(async (binary: boolean) => {
+    const groups = viewportRef.current?.getCharacterGroups()
+    if (!groups) { showToast('视口尚未就绪', 'warning'); return }
+    setBusy(true)
+    try {
+      const current = dataRef.current
+      const result = await exportDirectorSceneGltf(current.scene, { label: current.label, binary, characterGroups: groups })
+      const url = URL.createObjectURL(result.blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = result.fileName
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(url), 0)
+      const skippedNote = result.skipped.length ? `，已跳过 ${result.skipped.join('、')}（非网格）` : ''
+      showToast(`已导出 ${result.fileName}${result.animated ? '（含时间轴动画）' : ''}${skippedNote}`, 'success')
+    } catch (err) {
+      console.error('[director] glTF export failed', err)
+      showToast(`导出失败：${err instanceof Error ? err.message : String(err)}`, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }, [showToast])
+
   const onCapture = React.useCallback(async () => {
     const current = dataRef.current
     const currentScene = current.scene
@@ -984,6 +1022,7 @@ export default function DirectorConsoleModal({ nodeId, onClose }: Props) {
         propertyTimeline={propertyTimeline}
         onSetPropertyKeyframe={(objectKind, objectId, property) => apply({ ...dataRef.current, scene: { ...dataRef.current.scene, propertyTimeline: setPropertyKeyframes(dataRef.current.scene.propertyTimeline, dataRef.current.scene, objectKind, objectId, property, playRefs.current.playhead) } })}
         onRemovePropertyKeyframe={(objectId, property) => apply({ ...dataRef.current, scene: { ...dataRef.current.scene, propertyTimeline: removeKeyframe(dataRef.current.scene.propertyTimeline, objectId, property, playRefs.current.playhead) } })}
+        onSetKeyframeInterpolation={(objectId, property, time, interpolation, bezier) => apply({ ...dataRef.current, scene: { ...dataRef.current.scene, propertyTimeline: setKeyframeInterpolation(dataRef.current.scene.propertyTimeline, objectId, property, time, interpolation, bezier) } })}
         onDurationChange={(duration) => {
           onSeek(Math.min(playRefs.current.playhead, duration))
           apply({ ...dataRef.current, scene: { ...dataRef.current.scene, propertyTimeline: { ...ensurePropertyTimeline(dataRef.current.scene.propertyTimeline), duration } } })
@@ -1037,6 +1076,8 @@ export default function DirectorConsoleModal({ nodeId, onClose }: Props) {
         onSetAspect={(a) => apply(setAspect(data, a))}
         onCapture={onCapture}
         onAiSceneImport={() => setAiImportOpen(true)}
+        onOpenAssets={() => setAssetsOpen(true)}
+        onExportGltf={(binary) => void onExportGltf(binary)}
         editorMode={editorMode}
         onEditorModeChange={setEditorMode}
       />
@@ -1052,6 +1093,27 @@ export default function DirectorConsoleModal({ nodeId, onClose }: Props) {
         })}
         onGenerate={onGeneratePlacementReference}
       /> : null}
+      {assetsOpen ? <DirectorAssetsDialog
+        data={data}
+        selectedCharacter={selectedCharacter}
+        onClose={() => setAssetsOpen(false)}
+        onApplyScene={(preset) => {
+          apply(applyScenePreset(dataRef.current, preset))
+          setShots(preset.scene.cameraShots ?? {})
+          showToast('已套用场景预设', 'success')
+        }}
+        onApplyPose={(pose) => {
+          if (!selectedCharacter) return
+          onCharacterPatch(selectedCharacter.id, { pose, posePresetId: undefined, motion: undefined, motionClip: undefined, motionSequence: undefined })
+          showToast(`已套用姿势到「${selectedCharacter.name}」`, 'success')
+        }}
+        onApplyMotion={(clip) => {
+          if (!selectedCharacter) return
+          apply(patchCharacter(upsertSceneMotion(dataRef.current, clip), selectedCharacter.id, { motionClip: clip.id, motion: undefined, motionSequence: undefined }))
+          showToast(`已套用动作「${clip.name}」到「${selectedCharacter.name}」`, 'success')
+        }}
+        showToast={showToast}
+      /> : null}
       {/* 本节点的 capture 认领器：Modal 打开期间由它负责（离屏渲染机位 POV/样片），全局 runner 让位 */}
       <DirectorCaptureRunner nodes={scopedRunnerNodes} onlyNodeId={nodeId} />
       {/* 导演台内吐司：固定底部居中、在导演台之上（不被画布盖住） */}
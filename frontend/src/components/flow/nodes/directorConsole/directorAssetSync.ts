@@ -0,0 +1,44 @@
+import { importLocalDirectorAssets } from '@/services/directorAssetsApi'
+import { loadCustomMotions } from './state/motionLibrary'
+import { loadCustomPoses } from './state/poseLibrary'
+import { collectLocalDirectorAssets } from './state/directorAssetTransfer'
+
+// 本机已同步进服务端个人库的 localStorage 条目（sourceId 列表），按用户区分。
+const syncedKey = (userId: string) => `tc:director:syncedAssets:${userId}`
+// 迁移请求单批上限与后端 MAX_DIRECTOR_IMPORT_BATCH 一致
+const BATCH = 200
+
+function readSynced(userId: string): Set<string> {
+  try {
+    const list = JSON.parse(localStorage.getItem(syncedKey(userId)) || '[]')
+    return new Set(Array.isArray(list) ? list.filter((id): id is string => typeof id === 'string') : [])
+  } catch {
+    return new Set()
+  }
+}
+
+let inflight: Promise<number> | null = null
+
+/**
+ * 把 localStorage 里的自定义动作/姿势迁移进服务端个人库（导演台首次打开时调用）。
+ * 只上传本机尚未同步过的条目；服务端按 sourceId 去重，失败下次打开重试。localStorage 原数据保留作离线兜底。
+ * 返回本次新建的条数。
+ */
+export function syncLocalDirectorAssets(userId: string): Promise<number> {
+  if (inflight) return inflight
+  inflight = (async () => {
+    const synced = readSynced(userId)
+    const items = collectLocalDirectorAssets(loadCustomMotions(), loadCustomPoses(), synced)
+    let created = 0
+    for (let i = 0; i < items.length; i += BATCH) {
+      const batch = items.slice(i, i + BATCH)
+      const result = await importLocalDirectorAssets(batch)
+      created += result.created
+      // 结构不合法的条目同样记为已处理，避免每次打开都重复上报
+      for (const item of batch) synced.add(item.sourceId)
+      try { localStorage.setItem(syncedKey(userId), JSON.stringify([...synced])) } catch { /* 配额/隐私模式：下次重传，服务端幂等 */ }
+    }
+    return created
+  })().finally(() => { inflight = null })
+  return inflight
+}
@@ -0,0 +1,160 @@
+import * as THREE from 'three'
+import { clone as skeletonClone } from 'three/examples/jsm/utils/SkeletonUtils.js'
+import type { DirectorScene } from './types'
+import { getLibraryItem } from './assets'
+import { aspectRatio } from './state/aspect'
+import { applyResolvedCameraPose, resolveCameraPose } from './state/cameraPose'
+import { bakeTransformKeys, isConstant, pushQuaternion, timelineSampleTimes } from './state/gltfTimeline'
+import { ensurePropertyTimeline, samplePropertyTimeline } from './state/propertyTimeline'
+
+// 导演台场景 → glTF/GLB：角色/道具取视口里的实时 group（所见即所得，含当前姿势），
+// 机位重建为 glTF 相机；时间轴按固定帧率经 samplePropertyTimeline 烘焙成节点 TRS 动画，供 Blender 等 DCC 接着做 previs。
+// 骨骼动作（motionClip / 连招 / 轻量动画）不烘焙，身体保持导出瞬间的姿态；高斯泼溅与站位参考图不是网格，跳过。
+
+export type DirectorGltfExportOptions = {
+  label: string
+  binary: boolean
+  /** 视口里角色 id → 外层 group（ViewportHandle.getCharacterGroups） */
+  characterGroups: ReadonlyMap<string, THREE.Object3D>
+  fps?: number
+}
+
+export type DirectorGltfExportResult = {
+  blob: Blob
+  fileName: string
+  /** 因类型不支持而未导出的对象名 */
+  skipped: string[]
+  animated: boolean
+}
+
+const DEFAULT_FPS = 24
+
+type Sampled = { node: THREE.Object3D; positions: number[]; quaternions: number[]; scales: number[]; fovs?: number[] }
+
+function uniqueName(base: string, used: Set<string>): string {
+  const clean = base.trim() || 'Object'
+  let name = clean
+  for (let i = 2; used.has(name); i++) name = `${clean}.${i}`
+  used.add(name)
+  return name
+}
+
+/** 去掉选中框、方向箭头、关节球等编辑辅助物，只留可出图的几何 */
+function stripHelpers(root: THREE.Object3D) {
+  const doomed: THREE.Object3D[] = []
+  root.traverse((object) => {
+    if (object !== root && (object.userData?.directorHelper || object.userData?.jointRole)) doomed.push(object)
+  })
+  for (const object of doomed) object.removeFromParent()
+}
+
+function exportFileName(label: string, binary: boolean): string {
+  const safe = label.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80) || 'director-scene'
+  return `${safe}.${binary ? 'glb' : 'gltf'}`
+}
+
+export async function exportDirectorSceneGltf(scene: DirectorScene, options: DirectorGltfExportOptions): Promise<DirectorGltfExportResult> {
+  const fps = options.fps ?? DEFAULT_FPS
+  const root = new THREE.Scene()
+  root.name = options.label || '导演台'
+  const usedNames = new Set<string>()
+  const skipped: string[] = []
+
+  // 与视口一致：角色挂在场景整体变换（sceneScale/Position/Rotation）之下，机位在世界坐标
+  const stage = new THREE.Group()
+  stage.name = uniqueName('Stage', usedNames)
+  stage.position.set(...(scene.scenePosition ?? [0, 0, 0]))
+  const sceneRotation = scene.sceneRotation ?? [0, 0, 0]
+  stage.rotation.set(...(sceneRotation.map((value) => THREE.MathUtils.degToRad(value)) as [number, number, number]))
+  stage.scale.setScalar(Math.max(0.01, scene.sceneScale ?? 3))
+  root.add(stage)
+
+  const characterSamples = new Map<string, Sampled>()
+  for (const character of scene.characters) {
+    if (character.hidden) continue
+    const item = getLibraryItem(character.modelId)
+    if (item?.kind === 'gaussian' || item?.kind === 'reference') {
+      skipped.push(character.name)
+      continue
+    }
+    const node = new THREE.Group()
+    node.name = uniqueName(character.name, usedNames)
+    node.userData = { directorId: character.id, modelId: character.modelId }
+    const live = options.characterGroups.get(character.id)
+    if (live) {
+      const body = skeletonClone(live)
+      body.position.set(0, 0, 0)
+      body.rotation.set(0, 0, 0)
+      body.scale.set(1, 1, 1)
+      body.name = `${node.name}_Mesh`
+      body.userData = {}
+      stripHelpers(body)
+      node.add(body)
+    }
+    stage.add(node)
+    characterSamples.set(character.id, { node, positions: [], quaternions: [], scales: [] })
+  }
+
+  const cameraSamples = new Map<string, Sampled>()
+  for (const camera of scene.cameras) {
+    if (camera.hidden) continue
+    const node = new THREE.PerspectiveCamera(camera.fovDeg, aspectRatio(scene.aspect, 16 / 9), 0.1, 1000)
+    node.name = uniqueName(camera.name, usedNames)
+    node.userData = { directorId: camera.id }
+    root.add(node)
+    cameraSamples.set(camera.id, { node, positions: [], quaternions: [], scales: [], fovs: [] })
+  }
+
+  const timeline = ensurePropertyTimeline(scene.propertyTimeline)
+  const hasTimeline = timeline.tracks.length > 0 || Object.values(timeline.trajectories ?? {}).some((path) => path.waypoints.length >= 2)
+  const times = hasTimeline ? timelineSampleTimes(timeline.duration, fps) : [0]
+  const euler = new THREE.Euler()
+  const quaternion = new THREE.Quaternion()
+  const probe = new THREE.PerspectiveCamera()
+  for (const time of times) {
+    const sampled = hasTimeline ? samplePropertyTimeline(scene, time) : scene
+    for (const character of sampled.characters) {
+      const target = characterSamples.get(character.id)
+      if (!target) continue
+      target.positions.push(...character.position)
+      pushQuaternion(target.quaternions, quaternion.setFromEuler(euler.set(character.rotation[0], character.rotation[1], character.rotation[2])))
+      const s = character.uniformScale
+      target.scales.push(character.scale[0] * s, character.scale[1] * s, character.scale[2] * s)
+    }
+    for (const camera of sampled.cameras) {
+      const target = cameraSamples.get(camera.id)
+      if (!target) continue
+      applyResolvedCameraPose(probe, resolveCameraPose(camera, sampled))
+      target.positions.push(probe.position.x, probe.position.y, probe.position.z)
+      pushQuaternion(target.quaternions, probe.quaternion)
+      target.fovs?.push(probe.fov)
+    }
+  }
+
+  const tracks: THREE.KeyframeTrack[] = []
+  for (const sample of [...characterSamples.values(), ...cameraSamples.values()]) {
+    const { node, positions, quaternions, scales, fovs } = sample
+    // 首帧作为静态变换：没有动画的 DCC 导入也停在时间轴 0 秒的构图
+    node.position.fromArray(positions)
+    node.quaternion.fromArray(quaternions)
+    if (scales.length) node.scale.fromArray(scales)
+    if (fovs?.length && node instanceof THREE.PerspectiveCamera) {
+      node.fov = fovs[0]
+      node.updateProjectionMatrix()
+      // glTF 相机无法原生做 FOV 动画，变焦曲线放进 extras 供脚本还原
+      if (!isConstant(fovs, 1)) node.userData.fovDegKeys = times.map((time, i) => [time, Number(fovs[i].toFixed(3))])
+    }
+    const keys = bakeTransformKeys(times, sample)
+    if (keys.position) tracks.push(new THREE.VectorKeyframeTrack(`${node.uuid}.position`, times, keys.position))
+    if (keys.quaternion) tracks.push(new THREE.QuaternionKeyframeTrack(`${node.uuid}.quaternion`, times, keys.quaternion))
+    if (keys.scale) tracks.push(new THREE.VectorKeyframeTrack(`${node.uuid}.scale`, times, keys.scale))
+  }
+  const animations = tracks.length ? [new THREE.AnimationClip('DirectorTimeline', timeline.duration, tracks)] : []
+
+  const { GLTFExporter } = await import('three/examples/jsm/exporters/GLTFExporter.js')
+  const result = await new GLTFExporter().parseAsync(root, { binary: options.binary, animations, onlyVisible: true })
+  const blob = options.binary
+    ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+    : new Blob([JSON.stringify(result, null, 2)], { type: 'model/gltf+json' })
+  return { blob, fileName: exportFileName(options.label, options.binary), skipped, animated: animations.length > 0 }
+}
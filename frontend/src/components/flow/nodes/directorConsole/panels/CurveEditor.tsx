@@ -0,0 +1,232 @@
+import React from 'react'
+import { sampleTrack, type PropertyTrack } from '../state/propertyTimeline'
+import {
+  DEFAULT_BEZIER_TANGENTS,
+  INTERPOLATION_LABELS,
+  KEYFRAME_INTERPOLATIONS,
+  cubicBezierAt,
+  normalizeBezierTangents,
+  tangentsFor,
+  type BezierTangents,
+  type KeyframeInterpolation,
+} from '../state/keyframeEasing'
+
+export type CurveEditorProps = {
+  title: string
+  tracks: PropertyTrack[]
+  duration: number
+  playhead: number
+  onSeek: (time: number) => void
+  onSetInterpolation: (time: number, interpolation: KeyframeInterpolation, bezier?: BezierTangents) => void
+  onClose: () => void
+}
+
+type Series = { id: string; color: string; points: Array<[number, number]>; keys: Array<{ time: number; value: number }> }
+
+const GRAPH_W = 640
+const GRAPH_H = 168
+const PAD_X = 10
+const PAD_Y = 14
+const SAMPLES = 160
+const EASE_BOX = 116
+const COMPONENT_COLORS = ['#f87171', '#4ade80', '#60a5fa']
+const SCALAR_COLOR = '#f59e0b'
+const KEY_EPSILON = 0.02
+
+const button: React.CSSProperties = { height: 22, padding: '0 7px', border: '1px solid #333', borderRadius: 5, background: '#242424', color: '#bfbfbf', fontSize: 11, cursor: 'pointer' }
+
+const numericAt = (value: unknown, index: number | null): number | null => {
+  if (index == null) return typeof value === 'number' && Number.isFinite(value) ? value : null
+  return Array.isArray(value) && Number.isFinite(Number(value[index])) ? Number(value[index]) : null
+}
+
+/** Value curves of the property's tracks: one per XYZ component, scalar tracks as one; pose tracks have no curve. */
+function buildSeries(tracks: PropertyTrack[], duration: number): Series[] {
+  const series: Series[] = []
+  for (const track of tracks) {
+    const first = track.keyframes[0]?.value
+    const channels: Array<number | null> = track.component != null || typeof first === 'number'
+      ? [null]
+      : Array.isArray(first) ? [0, 1, 2] : []
+    for (const channel of channels) {
+      const color = track.component != null ? COMPONENT_COLORS[track.component] : channel == null ? SCALAR_COLOR : COMPONENT_COLORS[channel]
+      const points: Array<[number, number]> = []
+      for (let i = 0; i <= SAMPLES; i++) {
+        const time = (i / SAMPLES) * duration
+        const value = numericAt(sampleTrack(track, time), channel)
+        if (value != null) points.push([time, value])
+      }
+      const keys = track.keyframes
+        .map((keyframe) => ({ time: keyframe.time, value: numericAt(keyframe.value, channel) }))
+        .filter((key): key is { time: number; value: number } => key.value != null)
+      if (points.length) series.push({ id: `${track.id}:${channel ?? 's'}`, color, points, keys })
+    }
+  }
+  return series
+}
+
+/**
+ * Graph editor for one animated property: plots the sampled value curves and
+ * lets the selected keyframe's leaving segment be switched between linear,
+ * step, ease presets or a custom bezier whose tangents are dragged in the box.
+ */
+export function CurveEditor(props: CurveEditorProps) {
+  const duration = Math.max(0.01, props.duration)
+  const series = React.useMemo(() => buildSeries(props.tracks, duration), [props.tracks, duration])
+  const keyTimes = React.useMemo(() => {
+    const times: number[] = []
+    for (const track of props.tracks) for (const keyframe of track.keyframes) {
+      if (!times.some((time) => Math.abs(time - keyframe.time) <= KEY_EPSILON)) times.push(keyframe.time)
+    }
+    return times.sort((a, b) => a - b)
+  }, [props.tracks])
+  const [selectedTime, setSelectedTime] = React.useState<number | null>(null)
+  const [draftTangents, setDraftTangents] = React.useState<BezierTangents | null>(null)
+  const dragHandle = React.useRef<0 | 1 | null>(null)
+
+  const selectedKey = selectedTime == null ? null : keyTimes.find((time) => Math.abs(time - selectedTime) <= KEY_EPSILON) ?? null
+  const selectedKeyframe = selectedKey == null ? null : props.tracks
+    .map((track) => track.keyframes.find((keyframe) => Math.abs(keyframe.time - selectedKey) <= KEY_EPSILON))
+    .find(Boolean) ?? null
+  const interpolation: KeyframeInterpolation = selectedKeyframe?.interpolation ?? 'linear'
+  const isLastKey = selectedKey != null && selectedKey === keyTimes[keyTimes.length - 1]
+  const tangents = draftTangents ?? tangentsFor(interpolation, selectedKeyframe?.bezier)
+
+  const values = series.flatMap((item) => item.points.map(([, value]) => value))
+  let min = values.length ? Math.min(...values) : 0
+  let max = values.length ? Math.max(...values) : 1
+  if (max - min < 1e-6) { min -= 1; max += 1 }
+  const x = (time: number) => PAD_X + (time / duration) * (GRAPH_W - PAD_X * 2)
+  const y = (value: number) => GRAPH_H - PAD_Y - ((value - min) / (max - min)) * (GRAPH_H - PAD_Y * 2)
+
+  const seekFromGraph = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const ratio = ((event.clientX - rect.left) / rect.width * GRAPH_W - PAD_X) / (GRAPH_W - PAD_X * 2)
+    props.onSeek(Math.max(0, Math.min(duration, ratio * duration)))
+  }
+
+  const selectKey = (time: number) => {
+    setSelectedTime(time)
+    setDraftTangents(null)
+    props.onSeek(time)
+  }
+
+  const changeInterpolation = (next: KeyframeInterpolation) => {
+    if (selectedKey == null) return
+    setDraftTangents(null)
+    // Switching to bezier starts from the current preset's shape so the move doesn't jump.
+    props.onSetInterpolation(selectedKey, next, next === 'bezier' ? tangentsFor(interpolation, selectedKeyframe?.bezier) ?? [...DEFAULT_BEZIER_TANGENTS] : undefined)
+  }
+
+  const handleToBox = (point: [number, number]) => [point[0] * EASE_BOX, EASE_BOX - point[1] * EASE_BOX * 0.6 - EASE_BOX * 0.2] as const
+  const boxToHandle = (event: React.PointerEvent<SVGSVGElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const px = (event.clientX - rect.left) / rect.width * EASE_BOX
+    const py = (event.clientY - rect.top) / rect.height * EASE_BOX
+    return [px / EASE_BOX, (EASE_BOX - py - EASE_BOX * 0.2) / (EASE_BOX * 0.6)]
+  }
+  const onEasePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragHandle.current == null || !tangents) return
+    const [hx, hy] = boxToHandle(event)
+    const next = [...tangents] as BezierTangents
+    next[dragHandle.current * 2] = hx
+    next[dragHandle.current * 2 + 1] = hy
+    setDraftTangents(normalizeBezierTangents(next))
+  }
+  const onEasePointerUp = () => {
+    if (dragHandle.current == null) return
+    dragHandle.current = null
+    if (draftTangents && selectedKey != null) props.onSetInterpolation(selectedKey, 'bezier', draftTangents)
+    setDraftTangents(null)
+  }
+
+  const easePath = tangents
+    ? Array.from({ length: 41 }, (_, i) => {
+      const t = i / 40
+      const [px, py] = handleToBox([t, cubicBezierAt(t, tangents)])
+      return `${i ? 'L' : 'M'}${px.toFixed(1)},${py.toFixed(1)}`
+    }).join(' ')
+    : interpolation === 'step'
+      ? (() => {
+        const [x0, y0] = handleToBox([0, 0])
+        const [x1, y1] = handleToBox([1, 1])
+        return `M${x0},${y0} L${x1},${y0} L${x1},${y1}`
+      })()
+      : (() => {
+        const [x0, y0] = handleToBox([0, 0])
+        const [x1, y1] = handleToBox([1, 1])
+        return `M${x0},${y0} L${x1},${y1}`
+      })()
+
+  return <div data-testid="curve-editor" style={{ flex: 1, display: 'flex', minWidth: 0 }}>
+    <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+      <div style={{ height: 24, display: 'flex', alignItems: 'center', gap: 8, padding: '0 8px', borderBottom: '1px solid #262626', fontSize: 11, color: '#a3a3a3' }}>
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>曲线 · {props.title}</span>
+        <div style={{ flex: 1 }} />
+        <button style={button} onClick={props.onClose}>返回轨道</button>
+      </div>
+      {series.length ? <svg
+        viewBox={`0 0 ${GRAPH_W} ${GRAPH_H}`}
+        style={{ flex: 1, width: '100%', minHeight: 0, cursor: 'crosshair' }}
+        onPointerDown={seekFromGraph}
+      >
+        {keyTimes.map((time) => <line key={`grid-${time}`} x1={x(time)} x2={x(time)} y1={0} y2={GRAPH_H} stroke={selectedKey === time ? '#525252' : '#262626'} />)}
+        {series.map((item) => <polyline key={item.id} points={item.points.map(([time, value]) => `${x(time).toFixed(1)},${y(value).toFixed(1)}`).join(' ')} fill="none" stroke={item.color} strokeWidth={1.5} />)}
+        {series.flatMap((item) => item.keys.map((key) => <circle
+          key={`${item.id}-${key.time}`}
+          cx={x(key.time)}
+          cy={y(key.value)}
+          r={selectedKey != null && Math.abs(key.time - selectedKey) <= KEY_EPSILON ? 5 : 3.5}
+          fill={item.color}
+          stroke="#111"
+          style={{ cursor: 'pointer' }}
+          onPointerDown={(event) => { event.stopPropagation(); selectKey(key.time) }}
+        />))}
+        <line x1={x(props.playhead)} x2={x(props.playhead)} y1={0} y2={GRAPH_H} stroke="#ef4444" pointerEvents="none" />
+      </svg> : <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#737373', fontSize: 11 }}>
+        {props.tracks.some((track) => track.keyframes.length) ? '该属性没有可绘制的数值曲线，可在右侧设置关键帧插值' : '该属性还没有关键帧'}
+      </div>}
+      {!series.length && keyTimes.length ? <div style={{ display: 'flex', gap: 4, padding: '4px 8px', flexWrap: 'wrap' }}>
+        {keyTimes.map((time) => <button key={time} style={{ ...button, color: selectedKey === time ? '#fff' : button.color }} onClick={() => selectKey(time)}>{time.toFixed(2)}s</button>)}
+      </div> : null}
+    </div>
+    <div style={{ width: 150, flex: '0 0 auto', borderLeft: '1px solid #2a2a2a', padding: 8, fontSize: 11, color: '#a3a3a3', display: 'flex', flexDirection: 'column', gap: 6 }}>
+      {selectedKey == null ? <span style={{ color: '#737373' }}>点击曲线上的关键帧以设置插值</span> : <>
+        <span>关键帧 {selectedKey.toFixed(2)}s</span>
+        <select
+          aria-label="关键帧插值"
+          value={interpolation}
+          disabled={isLastKey}
+          onChange={(event) => changeInterpolation(event.target.value as KeyframeInterpolation)}
+          style={{ height: 22, border: '1px solid #333', borderRadius: 4, background: '#202020', color: '#d4d4d4', fontSize: 11 }}
+        >
+          {KEYFRAME_INTERPOLATIONS.map((mode) => <option key={mode} value={mode}>{INTERPOLATION_LABELS[mode]}</option>)}
+        </select>
+        {isLastKey ? <span style={{ color: '#737373' }}>最后一个关键帧之后没有过渡</span> : <svg
+          viewBox={`0 0 ${EASE_BOX} ${EASE_BOX}`}
+          style={{ width: EASE_BOX, height: EASE_BOX, background: '#1b1b1b', border: '1px solid #2a2a2a', borderRadius: 4, touchAction: 'none' }}
+          onPointerMove={onEasePointerMove}
+          onPointerUp={onEasePointerUp}
+          onPointerLeave={onEasePointerUp}
+        >
+          {tangents && interpolation === 'bezier' ? ([0, 1] as const).map((handle) => {
+            const [hx, hy] = handleToBox([tangents[handle * 2], tangents[handle * 2 + 1]])
+            const [ax, ay] = handleToBox(handle === 0 ? [0, 0] : [1, 1])
+            return <React.Fragment key={handle}>
+              <line x1={ax} y1={ay} x2={hx} y2={hy} stroke="#525252" />
+              <circle
+                cx={hx}
+                cy={hy}
+                r={5}
+                fill="#22d3ee"
+                style={{ cursor: 'grab' }}
+                onPointerDown={(event) => { event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId); dragHandle.current = handle }}
+              />
+            </React.Fragment>
+          }) : null}
+          <path d={easePath} fill="none" stroke="#e5e5e5" strokeWidth={1.5} pointerEvents="none" />
+        </svg>}
+      </>}
+    </div>
+  </div>
+}
@@ -0,0 +1,229 @@
+import React from 'react'
+import { useTeamStore } from '@/stores/teamStore'
+import {
+  createDirectorAsset,
+  createTeamDirectorAsset,
+  deleteDirectorAsset,
+  deleteTeamDirectorAsset,
+  listDirectorAssets,
+  listTeamDirectorAssets,
+  shareDirectorAsset,
+  type DirectorAssetDto,
+} from '@/services/directorAssetsApi'
+import type { CharacterObj, DirectorConsoleData } from '../types'
+import type { PoseClip } from '../state/poseClip'
+import type { PoseMap } from '../state/pose'
+import { importMotionFile } from '../state/motionImport'
+import {
+  buildDirectorAssetFile,
+  directorAssetFileName,
+  DIRECTOR_ASSET_KIND_LABELS,
+  motionFromAsset,
+  parseDirectorAssetFile,
+  poseFromAsset,
+  sceneAssetData,
+  type DirectorAssetKind,
+  type DirectorAssetPayload,
+} from '../state/directorAssetTransfer'
+
+type Props = {
+  data: DirectorConsoleData
+  selectedCharacter?: CharacterObj
+  onClose: () => void
+  onApplyScene: (preset: Pick<DirectorConsoleData, 'scene' | 'activeViewpoint'>) => void
+  onApplyPose: (pose: PoseMap) => void
+  onApplyMotion: (clip: PoseClip) => void
+  showToast: (msg: string, type?: 'success' | 'error' | 'warning' | 'info') => void
+}
+
+const KINDS: DirectorAssetKind[] = ['motion', 'pose', 'scene']
+const PERSONAL = 'personal'
+
+const tab = (active: boolean): React.CSSProperties => ({
+  border: 0, borderBottom: active ? '2px solid #f5f5f5' : '2px solid transparent', padding: '0 0 8px',
+  background: 'transparent', color: active ? '#f5f5f5' : '#737373', cursor: 'pointer', fontSize: 13,
+})
+const smallBtn: React.CSSProperties = { height: 26, padding: '0 9px', border: '1px solid #3a3a3a', borderRadius: 6, background: '#242424', color: '#ddd', cursor: 'pointer', fontSize: 12 }
+const actionBtn: React.CSSProperties = { flex: 1, height: 32, border: '1px solid #3a3a3a', borderRadius: 7, background: '#242424', color: '#ddd', cursor: 'pointer', fontSize: 12 }
+
+function downloadJson(fileName: string, value: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** 导演台资产库：个人 / 团队作用域下的动作、姿势、整场景预设，支持保存当前、套用、导入导出与共享到团队 */
+export function DirectorAssetsDialog({ data, selectedCharacter, onClose, onApplyScene, onApplyPose, onApplyMotion, showToast }: Props) {
+  const teams = useTeamStore((s) => s.teams).filter((team) => !team.isPersonal)
+  const [kind, setKind] = React.useState<DirectorAssetKind>('motion')
+  const [scope, setScope] = React.useState<string>(PERSONAL)
+  const [assets, setAssets] = React.useState<DirectorAssetDto[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [busy, setBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [sharingId, setSharingId] = React.useState<string | null>(null)
+  const fileRef = React.useRef<HTMLInputElement>(null)
+  const teamId = scope === PERSONAL ? null : scope
+
+  const load = React.useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setAssets(teamId ? await listTeamDirectorAssets({ teamId, kind }) : await listDirectorAssets({ kind }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      setAssets([])
+    } finally {
+      setLoading(false)
+    }
+  }, [kind, teamId])
+
+  React.useEffect(() => { void load() }, [load])
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const create = async (payloads: DirectorAssetPayload[]) => {
+    for (const payload of payloads) {
+      if (teamId) await createTeamDirectorAsset({ teamId, ...payload })
+      else await createDirectorAsset(payload)
+    }
+    const targetKind = payloads[payloads.length - 1]?.kind
+    if (targetKind && targetKind !== kind) setKind(targetKind)
+    else await load()
+  }
+
+  const characterPose = selectedCharacter?.pose && Object.keys(selectedCharacter.pose).length > 0 ? selectedCharacter.pose : undefined
+  const saveCurrent = () => run(async () => {
+    if (kind === 'scene') {
+      const name = window.prompt('场景预设名称', data.label || '导演台场景')?.trim()
+      if (!name) return
+      await create([{ kind: 'scene', name, data: sceneAssetData(data) }])
+    } else if (kind === 'pose') {
+      if (!selectedCharacter || !characterPose) return
+      const name = window.prompt('姿势名称', `${selectedCharacter.name} 姿势`)?.trim()
+      if (!name) return
+      await create([{ kind: 'pose', name, data: { pose: characterPose } }])
+    }
+    showToast('已保存到资产库', 'success')
+  })
+
+  const importFiles = (files: FileList | null) => run(async () => {
+    if (!files || files.length === 0) return
+    const payloads: DirectorAssetPayload[] = []
+    for (const file of Array.from(files)) {
+      if (/\.json$/i.test(file.name)) {
+        payloads.push(parseDirectorAssetFile(await file.text(), file.name.replace(/\.[^.]+$/, '')))
+      } else {
+        for (const clip of await importMotionFile(file)) payloads.push({ kind: 'motion', name: clip.name, data: clip })
+      }
+    }
+    await create(payloads)
+    showToast(`已导入 ${payloads.length} 个资产`, 'success')
+  })
+
+  const remove = (asset: DirectorAssetDto) => run(async () => {
+    if (!window.confirm(`删除「${asset.name}」？`)) return
+    if (asset.teamId) await deleteTeamDirectorAsset(asset.id)
+    else await deleteDirectorAsset(asset.id)
+    setAssets((prev) => prev.filter((item) => item.id !== asset.id))
+  })
+
+  const share = (asset: DirectorAssetDto, targetTeamId: string) => run(async () => {
+    await shareDirectorAsset(asset.id, targetTeamId)
+    setSharingId(null)
+    showToast(`已共享到「${teams.find((team) => team.id === targetTeamId)?.name ?? '团队'}」`, 'success')
+  })
+
+  const applyAsset = (asset: DirectorAssetDto) => {
+    if (asset.kind === 'scene') {
+      const preset = asset.data as Partial<DirectorConsoleData>
+      if (!preset.scene) { setError('场景预设数据不完整'); return }
+      if (!window.confirm('套用场景预设会替换当前导演台的角色、机位与时间线，可用撤销恢复。继续？')) return
+      onApplyScene({ scene: preset.scene, activeViewpoint: preset.activeViewpoint === 'camera' ? 'camera' : 'director' })
+    } else if (asset.kind === 'pose') {
+      const pose = poseFromAsset(asset)
+      if (pose) onApplyPose(pose)
+    } else {
+      const clip = motionFromAsset(asset)
+      if (clip) onApplyMotion(clip)
+      else setError('动作数据不完整')
+    }
+  }
+
+  const needsCharacter = kind !== 'scene'
+  const canApply = !needsCharacter || !!selectedCharacter
+
+  return <div style={{ position: 'fixed', inset: 0, zIndex: 4300, display: 'grid', placeItems: 'center', background: 'rgba(0,0,0,.58)' }} onMouseDown={(event) => { if (event.target === event.currentTarget) onClose() }}>
+    <div role="dialog" aria-label="导演台资产库" style={{ width: 560, maxHeight: '84vh', display: 'flex', flexDirection: 'column', borderRadius: 14, border: '1px solid #383838', background: '#191919', boxShadow: '0 24px 80px rgba(0,0,0,.55)', color: '#eee' }}>
+      <div style={{ height: 48, padding: '0 16px', display: 'flex', alignItems: 'center', justifyContent: 'space-between', borderBottom: '1px solid #2b2b2b', fontWeight: 600 }}>
+        <span>资产库</span>
+        <button aria-label="关闭" onClick={onClose} style={{ border: 0, background: 'transparent', color: '#aaa', cursor: 'pointer', fontSize: 20 }}>×</button>
+      </div>
+      <div style={{ padding: '12px 16px 0', display: 'flex', alignItems: 'center', gap: 16, borderBottom: '1px solid #2b2b2b' }}>
+        {KINDS.map((item) => <button key={item} style={tab(kind === item)} onClick={() => setKind(item)}>{DIRECTOR_ASSET_KIND_LABELS[item]}</button>)}
+        <div style={{ flex: 1 }} />
+        <select aria-label="资产作用域" value={scope} onChange={(event) => setScope(event.target.value)} style={{ marginBottom: 8, height: 26, border: '1px solid #3a3a3a', borderRadius: 6, background: '#242424', color: '#ddd', fontSize: 12 }}>
+          <option value={PERSONAL}>个人</option>
+          {teams.map((team) => <option key={team.id} value={team.id}>团队 · {team.name}</option>)}
+        </select>
+      </div>
+      <div style={{ padding: 16, display: 'flex', flexDirection: 'column', gap: 10, minHeight: 0, flex: 1 }}>
+        <input ref={fileRef} type="file" multiple accept={kind === 'motion' ? '.json,.bvh,.glb,.gltf' : '.json'} hidden onChange={(event) => { void importFiles(event.target.files); event.currentTarget.value = '' }} />
+        <div style={{ display: 'flex', gap: 8 }}>
+          {kind !== 'motion' ? <button
+            disabled={busy || (kind === 'pose' && !characterPose)}
+            title={kind === 'pose' && !characterPose ? '先选中一个摆好姿势的角色' : undefined}
+            onClick={() => void saveCurrent()}
+            style={{ ...actionBtn, opacity: busy || (kind === 'pose' && !characterPose) ? 0.45 : 1 }}
+          >{kind === 'scene' ? '保存当前场景' : '保存选中角色姿势'}</button> : null}
+          <button disabled={busy} onClick={() => fileRef.current?.click()} style={{ ...actionBtn, opacity: busy ? 0.45 : 1 }}>
+            {kind === 'motion' ? '导入（JSON / BVH / glTF）' : '导入 JSON'}
+          </button>
+        </div>
+        {needsCharacter && !selectedCharacter ? <div style={{ color: '#737373', fontSize: 11 }}>选中一个角色后可把{DIRECTOR_ASSET_KIND_LABELS[kind]}套用到该角色</div> : null}
+        {error ? <div style={{ color: '#f87171', fontSize: 12 }}>{error}</div> : null}
+        <div style={{ overflowY: 'auto', minHeight: 160, display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {loading ? <div style={{ color: '#737373', fontSize: 12, textAlign: 'center', padding: 24 }}>加载中…</div>
+            : assets.length === 0 ? <div style={{ color: '#737373', fontSize: 12, textAlign: 'center', padding: 24 }}>暂无{DIRECTOR_ASSET_KIND_LABELS[kind]}</div>
+              : assets.map((asset) => <div key={asset.id} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '7px 10px', border: '1px solid #2b2b2b', borderRadius: 8, background: '#202020' }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontSize: 13, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{asset.name}</div>
+                  <div style={{ color: '#737373', fontSize: 10.5 }}>
+                    {new Date(asset.updatedAt).toLocaleString()}
+                    {asset.kind === 'motion' && typeof asset.data.durationSeconds === 'number' ? ` · ${asset.data.durationSeconds}s` : ''}
+                  </div>
+                </div>
+                {sharingId === asset.id ? <select
+                  autoFocus
+                  aria-label="共享到团队"
+                  defaultValue=""
+                  onBlur={() => setSharingId(null)}
+                  onChange={(event) => { if (event.target.value) void share(asset, event.target.value) }}
+                  style={{ height: 26, border: '1px solid #3a3a3a', borderRadius: 6, background: '#242424', color: '#ddd', fontSize: 12 }}
+                >
+                  <option value="" disabled>选择团队</option>
+                  {teams.map((team) => <option key={team.id} value={team.id}>{team.name}</option>)}
+                </select> : null}
+                <button disabled={!canApply} title={canApply ? undefined : '先选中一个角色'} onClick={() => applyAsset(asset)} style={{ ...smallBtn, opacity: canApply ? 1 : 0.45 }}>套用</button>
+                <button onClick={() => downloadJson(directorAssetFileName(asset), buildDirectorAssetFile(asset))} style={smallBtn}>导出</button>
+                {!asset.teamId && teams.length > 0 && sharingId !== asset.id ? <button disabled={busy} onClick={() => setSharingId(asset.id)} style={smallBtn}>共享</button> : null}
+                <button disabled={busy} onClick={() => void remove(asset)} style={{ ...smallBtn, color: '#d98080' }}>删</button>
+              </div>)}
+        </div>
+      </div>
+    </div>
+  </div>
+}
@@ -8,6 +8,8 @@ import {
 } from '../state/motionEdit'
 import type { PoseMap } from '../state/pose'
 import { MOTION_PRESETS, MOTION_PRESET_CATEGORIES, findMotionPreset } from '../state/motionPresets'
+import { deleteCustomMotion, loadCustomMotions, saveCustomMotions, type CustomMotion } from '../state/motionLibrary'
+import { importMotionFile } from '../state/motionImport'
 
 export type MotionPanelProps = {
   character: CharacterObj
@@ -56,6 +58,10 @@ function chipStyle(active: boolean, disabled?: boolean): React.CSSProperties {
   }
 }
 
+/** 动作库分类 chip：自定义 + BVH/glTF 导入的动作（localStorage），与内置预设并列 */
+const IMPORTED_CATEGORY = '导入'
+const SOURCE_LABEL: Record<string, string> = { bvh: 'BVH', gltf: 'glTF', pose: '自定义' }
+
 export function MotionPanel(props: MotionPanelProps): React.JSX.Element {
   const { character, onPatch, drawPathActive, onToggleDrawPath, keyframeTime, onSeekTo } = props
   const motion = character.motion
@@ -71,8 +77,28 @@ export function MotionPanel(props: MotionPanelProps): React.JSX.Element {
   const sequence = character.motionSequence ?? []
   const [presetCat, setPresetCat] = React.useState<string>(MOTION_PRESET_CATEGORIES[0])
   const presetsInCat = MOTION_PRESETS.filter((p) => p.category === presetCat)
-  const seqDuration = sequence.reduce((s, id) => s + (findMotionPreset(id)?.durationSeconds ?? 0), 0)
-  const nameOf = (id: string) => findMotionPreset(id)?.name ?? id
+  // 导入动作：BVH / glTF 重定向成 PoseClip 存进自定义动作库，id 与内置预设一样可进连招
+  const [customMotions, setCustomMotions] = React.useState<CustomMotion[]>(() => loadCustomMotions())
+  const [importing, setImporting] = React.useState(false)
+  const [importError, setImportError] = React.useState<string | null>(null)
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const findMotion = (id: string) => findMotionPreset(id) ?? customMotions.find((m) => m.id === id)
+  const seqDuration = sequence.reduce((s, id) => s + (findMotion(id)?.durationSeconds ?? 0), 0)
+  const nameOf = (id: string) => findMotion(id)?.name ?? id
+  const handleImportFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setImporting(true)
+    setImportError(null)
+    try {
+      const clips = []
+      for (const file of Array.from(files)) clips.push(...(await importMotionFile(file)))
+      setCustomMotions(saveCustomMotions(clips))
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setImporting(false)
+    }
+  }
   const setSeq = (next: string[]) =>
     onPatch({ motionSequence: next.length ? next : undefined, motionClip: undefined, motion: undefined })
   const moveSeq = (i: number, dir: -1 | 1) => {
@@ -91,25 +117,88 @@ export function MotionPanel(props: MotionPanelProps): React.JSX.Element {
           点一个预设把它加入下方「连招」——多个预设首尾相接连续播放（拔剑起手→出拳连击→踢腿）。只点一个 = 单动作。
         </div>
         <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 8 }}>
-          {MOTION_PRESET_CATEGORIES.map((cat) => (
+          {[...MOTION_PRESET_CATEGORIES, IMPORTED_CATEGORY].map((cat) => (
             <button key={cat} onClick={() => setPresetCat(cat)} style={chipStyle(presetCat === cat)}>{cat}</button>
           ))}
         </div>
-        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
-          {presetsInCat.map((p) => {
-            const count = sequence.filter((id) => id === p.id).length
-            return (
-              <button
-                key={p.id}
-                title={`${p.name} · ${p.durationSeconds}s${p.loop ? ' · 循环' : ''}（点击加入连招）`}
-                onClick={() => setSeq([...sequence, p.id])}
-                style={chipStyle(count > 0)}
-              >
-                {p.name}{count > 0 ? ` ×${count}` : ''}
-              </button>
-            )
-          })}
-        </div>
+        {presetCat === IMPORTED_CATEGORY ? (
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".bvh,.glb,.gltf"
+              multiple
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                void handleImportFiles(e.target.files)
+                e.target.value = ''
+              }}
+            />
+            <button
+              disabled={importing}
+              onClick={() => fileInputRef.current?.click()}
+              style={{ width: '100%', padding: '6px 0', borderRadius: 6, border: '1px solid #2a2f3a', background: '#1c1f26', color: importing ? '#4b5563' : '#e5e7eb', cursor: importing ? 'not-allowed' : 'pointer', fontSize: 13, marginBottom: 6 }}
+            >
+              {importing ? '导入中…' : '＋ 导入 BVH / glTF 动作'}
+            </button>
+            <div style={{ fontSize: 11, color: '#6b7280', marginBottom: 8 }}>
+              动捕/动画轨按 T-pose 重定向到人物骨架（只取关节旋转，行进用下方位移/路径）
+            </div>
+            {importError && <div style={{ fontSize: 11, color: '#f87171', marginBottom: 8 }}>{importError}</div>}
+            {customMotions.length === 0 ? (
+              <div style={{ fontSize: 11, color: '#6b7280' }}>暂无导入动作</div>
+            ) : (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {customMotions.map((m) => {
+                  const count = sequence.filter((id) => id === m.id).length
+                  return (
+                    <span key={m.id} style={{ display: 'inline-flex', alignItems: 'center', gap: 2 }}>
+                      <button
+                        title={`${m.name} · ${m.durationSeconds}s · ${SOURCE_LABEL[m.source ?? 'pose']}${m.loop ? ' · 循环' : ''}（点击加入连招）`}
+                        onClick={() => setSeq([...sequence, m.id])}
+                        style={chipStyle(count > 0)}
+                      >
+                        {m.name}{count > 0 ? ` ×${count}` : ''}
+                      </button>
+                      <button
+                        title="从动作库删除"
+                        onClick={() => {
+                          try {
+                            setCustomMotions(deleteCustomMotion(m.id))
+                            setImportError(null)
+                          } catch (error) {
+                            setImportError(error instanceof Error ? error.message : String(error))
+                            return
+                          }
+                          if (count > 0) setSeq(sequence.filter((id) => id !== m.id))
+                        }}
+                        style={{ padding: '2px 5px', borderRadius: 6, fontSize: 11, cursor: 'pointer', border: 0, background: 'transparent', color: '#9b6b6b' }}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+            {presetsInCat.map((p) => {
+              const count = sequence.filter((id) => id === p.id).length
+              return (
+                <button
+                  key={p.id}
+                  title={`${p.name} · ${p.durationSeconds}s${p.loop ? ' · 循环' : ''}（点击加入连招）`}
+                  onClick={() => setSeq([...sequence, p.id])}
+                  style={chipStyle(count > 0)}
+                >
+                  {p.name}{count > 0 ? ` ×${count}` : ''}
+                </button>
+              )
+            })}
+          </div>
+        )}
       </Section>
 
       {/* Section — 连招序列：有序、可上下移/删，角色循环播放整套连续动作 */}
@@ -122,7 +211,7 @@ export function MotionPanel(props: MotionPanelProps): React.JSX.Element {
                 style={{ display: 'flex', alignItems: 'center', gap: 6, background: '#1c1f26', border: '1px solid #2a2f3a', borderRadius: 6, padding: '5px 8px' }}
               >
                 <span style={{ fontSize: 12, color: '#cdd3dc', flex: 1 }}>
-                  {i + 1}. {nameOf(id)} <span style={{ color: '#6b7280' }}>· {(findMotionPreset(id)?.durationSeconds ?? 0)}s</span>
+                  {i + 1}. {nameOf(id)} <span style={{ color: '#6b7280' }}>· {(findMotion(id)?.durationSeconds ?? 0)}s</span>
                 </span>
                 <button disabled={i === 0} onClick={() => moveSeq(i, -1)} style={{ padding: '2px 7px', borderRadius: 6, fontSize: 12, cursor: i === 0 ? 'not-allowed' : 'pointer', opacity: i === 0 ? 0.4 : 1, border: '1px solid #2a2f3a', background: '#16181d', color: '#9ca3af' }}>↑</button>
                 <button disabled={i === sequence.length - 1} onClick={() => moveSeq(i, 1)} style={{ padding: '2px 7px', borderRadius: 6, fontSize: 12, cursor: i === sequence.length - 1 ? 'not-allowed' : 'pointer', opacity: i === sequence.length - 1 ? 0.4 : 1, border: '1px solid #2a2f3a', background: '#16181d', color: '#9ca3af' }}>↓</button>
@@ -1,5 +1,7 @@
 import React from 'react'
 import { type PropertyName, type PropertyTimeline } from '../state/propertyTimeline'
+import type { BezierTangents, KeyframeInterpolation } from '../state/keyframeEasing'
+import { CurveEditor } from './CurveEditor'
 
 type ObjectOption = { id: string; name: string }
 
@@ -15,6 +17,7 @@ export type TimelinePanelProps = {
   propertyTimeline: PropertyTimeline
   onSetPropertyKeyframe: (objectKind: 'character' | 'camera', objectId: string, property: PropertyName) => void
   onRemovePropertyKeyframe: (objectId: string, property: PropertyName) => void
+  onSetKeyframeInterpolation: (objectId: string, property: PropertyName, time: number, interpolation: KeyframeInterpolation, bezier?: BezierTangents) => void
   onDurationChange: (duration: number) => void
   autoKeyframe: boolean
   onAutoKeyframeChange: (enabled: boolean) => void
@@ -41,6 +44,7 @@ export function TimelinePanel(props: TimelinePanelProps) {
   const [expanded, setExpanded] = React.useState<Record<string, boolean>>({})
   const [playheadDraft, setPlayheadDraft] = React.useState<string | null>(null)
   const [durationDraft, setDurationDraft] = React.useState<string | null>(null)
+  const [curveTarget, setCurveTarget] = React.useState<{ objectId: string; property: PropertyName; title: string } | null>(null)
   const contentWidth = Math.max(720, total * PX_PER_SEC * zoom)
   const durationLabel = milliseconds ? `${Math.round(total * 1000)}` : total.toFixed(2)
   const playheadLabel = milliseconds ? `${Math.round(props.playhead * 1000)}` : props.playhead.toFixed(2)
@@ -101,24 +105,33 @@ export function TimelinePanel(props: TimelinePanelProps) {
               const prop = property as PropertyName
               const propertyTracks = props.propertyTimeline.tracks.filter((item) => item.objectId === row.id && item.property === prop)
               const keyedNow = propertyTracks.some((track) => track.keyframes.some((item) => Math.abs(item.time - props.playhead) <= 0.02))
-              return <div key={prop} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', height: 21 }}><span>{label}</span><button aria-label={`${row.name}-${label}-关键帧`} title={keyedNow ? '删除当前关键帧' : '在当前时间添加关键帧'} onClick={() => keyedNow ? props.onRemovePropertyKeyframe(row.id, prop) : props.onSetPropertyKeyframe(row.kind, row.id, prop)} style={{ width: 20, height: 18, padding: 0, border: 0, background: 'transparent', color: keyedNow ? '#f59e0b' : '#737373', cursor: 'pointer' }}>{keyedNow ? '◆' : '◇'}</button></div>
+              const curveActive = curveTarget?.objectId === row.id && curveTarget.property === prop
+              return <div key={prop} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', height: 21 }}><span style={{ flex: 1 }}>{label}</span><button aria-label={`${row.name}-${label}-曲线`} aria-pressed={curveActive} title="在曲线编辑器中调整插值" onClick={() => setCurveTarget(curveActive ? null : { objectId: row.id, property: prop, title: `${row.name} · ${label}` })} style={{ width: 20, height: 18, padding: 0, border: 0, background: 'transparent', color: curveActive ? '#22d3ee' : '#737373', cursor: 'pointer' }}>∿</button><button aria-label={`${row.name}-${label}-关键帧`} title={keyedNow ? '删除当前关键帧' : '在当前时间添加关键帧'} onClick={() => keyedNow ? props.onRemovePropertyKeyframe(row.id, prop) : props.onSetPropertyKeyframe(row.kind, row.id, prop)} style={{ width: 20, height: 18, padding: 0, border: 0, background: 'transparent', color: keyedNow ? '#f59e0b' : '#737373', cursor: 'pointer' }}>{keyedNow ? '◆' : '◇'}</button></div>
             })}
           </div> : null}
         </React.Fragment>)}
       </div>
-      <div style={{ flex: 1, overflow: 'auto' }}>
+      {curveTarget ? <CurveEditor
+        title={curveTarget.title}
+        tracks={props.propertyTimeline.tracks.filter((track) => track.objectId === curveTarget.objectId && track.property === curveTarget.property)}
+        duration={total}
+        playhead={props.playhead}
+        onSeek={props.onSeek}
+        onSetInterpolation={(time, interpolation, bezier) => props.onSetKeyframeInterpolation(curveTarget.objectId, curveTarget.property, time, interpolation, bezier)}
+        onClose={() => setCurveTarget(null)}
+      /> : <div style={{ flex: 1, overflow: 'auto' }}>
         <div style={{ width: contentWidth, minHeight: '100%', position: 'relative' }}>
           <div style={{ height: 24, display: 'flex', borderBottom: '1px solid #262626', color: '#737373', fontSize: 9 }}>
             {Array.from({ length: Math.floor(total) + 1 }, (_, second) => <div key={second} style={{ position: 'absolute', left: second / total * contentWidth, top: 3, borderLeft: '1px solid #3a3a3a', height: 21, paddingLeft: 3 }}>{second}</div>)}
           </div>
           <div onPointerDown={seek} style={{ position: 'absolute', inset: '24px 0 0', cursor: 'crosshair', backgroundImage: 'repeating-linear-gradient(to bottom, transparent 0, transparent 31px, #242424 32px)' }} />
           {rows.map((row, index) => <div key={row.id} style={{ position: 'absolute', top: 24 + index * 32, left: 0, width: contentWidth, height: 32, pointerEvents: 'none' }}>
-            {props.propertyTimeline.tracks.filter((track) => track.objectId === row.id).flatMap((track) => track.keyframes).map((keyframe, keyIndex) => <span key={`${keyframe.time}-${keyIndex}`} style={{ position: 'absolute', left: keyframe.time / total * contentWidth, top: 11, width: 7, height: 7, transform: 'rotate(45deg)', background: row.kind === 'camera' ? '#60a5fa' : '#f59e0b' }} />)}
+            {props.propertyTimeline.tracks.filter((track) => track.objectId === row.id).flatMap((track) => track.keyframes).map((keyframe, keyIndex) => <span key={`${keyframe.time}-${keyIndex}`} style={{ position: 'absolute', left: keyframe.time / total * contentWidth, top: 11, width: 7, height: 7, transform: keyframe.interpolation === 'step' ? undefined : 'rotate(45deg)', borderRadius: keyframe.interpolation && keyframe.interpolation !== 'linear' && keyframe.interpolation !== 'step' ? '50%' : undefined, background: row.kind === 'camera' ? '#60a5fa' : '#f59e0b' }} />)}
           </div>)}
           <div style={{ position: 'absolute', top: 24, bottom: 0, left: props.playhead / total * contentWidth, width: 1, background: '#ef4444', pointerEvents: 'none' }}><div style={{ width: 7, height: 7, marginLeft: -3, background: '#ef4444', transform: 'rotate(45deg)' }} /></div>
         </div>
-      </div>
-      {rows.length === 1 ? <div style={{ position: 'absolute', left: TRACK_LABEL + 20, top: 84, color: '#737373', fontSize: 11 }}>请选择一个角色或者摄像机后，可新建轨道</div> : null}
+      </div>}
+      {rows.length === 1 && !curveTarget ? <div style={{ position: 'absolute', left: TRACK_LABEL + 20, top: 84, color: '#737373', fontSize: 11 }}>请选择一个角色或者摄像机后，可新建轨道</div> : null}
     </div> : null}
   </div>
 }
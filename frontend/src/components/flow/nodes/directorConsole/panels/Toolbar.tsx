@@ -1,5 +1,5 @@
 import React from 'react'
-import { IconUserPlus, IconVideoPlus, IconAspectRatio, IconCamera, IconArrowsMove, IconPhoto, IconPointer, IconClock, IconScan, IconMaximize } from '@tabler/icons-react'
+import { IconUserPlus, IconVideoPlus, IconAspectRatio, IconCamera, IconArrowsMove, IconPhoto, IconPointer, IconClock, IconScan, IconMaximize, IconBooks, IconFileExport } from '@tabler/icons-react'
 import type { AspectKey } from '../types'
 import { BODY_TYPES, PROP_TYPES } from '../assets'
 import type { CrowdInput } from '../state/crowd'
@@ -26,6 +26,8 @@ type Props = {
   onSetAspect: (a: AspectKey) => void
   onCapture: () => void
   onAiSceneImport: () => void
+  onOpenAssets: () => void
+  onExportGltf: (binary: boolean) => void
   editorMode: 'scene' | 'timeline'
   onEditorModeChange: (mode: 'scene' | 'timeline') => void
 }
@@ -102,7 +104,7 @@ function CharacterMenu({ close, onLocalUpload, onGaussianUpload, onAddCharacter,
   </>
 }
 
-export function Toolbar({ busy, aspect, gizmoMode, onSetGizmoMode, onAddCharacter, onAddCrowd, onUploadModel, onUploadGaussian, onSetSkybox, hasSkybox, panoConnected, skyboxYaw, onSetSkyboxYaw, onGeneratePanorama, onOpenPanoramaHistory, onAddCamera, onSetAspect, onCapture, onAiSceneImport, editorMode, onEditorModeChange }: Props) {
+export function Toolbar({ busy, aspect, gizmoMode, onSetGizmoMode, onAddCharacter, onAddCrowd, onUploadModel, onUploadGaussian, onSetSkybox, hasSkybox, panoConnected, skyboxYaw, onSetSkyboxYaw, onGeneratePanorama, onOpenPanoramaHistory, onAddCamera, onSetAspect, onCapture, onAiSceneImport, onOpenAssets, onExportGltf, editorMode, onEditorModeChange }: Props) {
   const fileRef = React.useRef<HTMLInputElement>(null)
   const gaussianRef = React.useRef<HTMLInputElement>(null)
   const skyRef = React.useRef<HTMLInputElement>(null)
@@ -165,6 +167,13 @@ export function Toolbar({ busy, aspect, gizmoMode, onSetGizmoMode, onAddCharacte
         </Pop>
         <ToolButton icon={<IconCamera size={20} />} title="截图" disabled={busy} onClick={onCapture} />
         <ToolButton icon={<IconScan size={20} />} title="AI 图片识别导入" label="AI 识图导入" onClick={onAiSceneImport} />
+        <ToolButton icon={<IconBooks size={20} />} title="导演台资产库" label="资产库" onClick={onOpenAssets} />
+        <Pop icon={<IconFileExport size={20} />} title="导出场景为 glTF（含机位与时间轴动画）" label="导出 3D">
+          {(close) => <>
+            <button style={item} disabled={busy} onClick={() => { onExportGltf(true); close() }}>导出 GLB（单文件）</button>
+            <button style={item} disabled={busy} onClick={() => { onExportGltf(false); close() }}>导出 glTF（JSON）</button>
+          </>}
+        </Pop>
         <ToolButton icon={<IconMaximize size={20} />} title="全屏" onClick={() => { const root = document.querySelector('[data-testid=director-console-modal]') as HTMLElement | null; if (!document.fullscreenElement) void root?.requestFullscreen?.(); else void document.exitFullscreen?.() }} />
         <div style={{ width: 1, height: 24, background: '#525252', margin: '0 4px' }} />
         <div style={{ position: 'relative', display: 'flex', alignItems: 'center', gap: 4, padding: 2, borderRadius: 8, background: 'rgba(255,255,255,0.05)' }}>
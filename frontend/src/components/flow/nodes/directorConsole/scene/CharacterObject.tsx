@@ -673,7 +673,11 @@ export function CharacterObject({ character, selected, showLabel = true, customM
 
   // 【连招】motionSequence 非空 → 合成一条首尾相接的 PoseClip 注入 customMotions，作为有效 motionClip。
   // 复用既有 applyMotion 解析(先查 customMotions)+预览循环+capture 出片，全链路零改动；motion 仍最高优先。
-  const seqClip = React.useMemo(() => concatMotionPresets(character.motionSequence), [character.motionSequence])
+  // 连招段与单 clip 同一解析顺序：场景级 customMotions → 内置预设 → localStorage 自定义/导入（BVH·glTF）动作
+  const seqClip = React.useMemo(
+    () => concatMotionPresets(character.motionSequence, (id) => customMotions?.find((m) => m.id === id) ?? findMotionPreset(id) ?? findCustomMotion(id)),
+    [character.motionSequence, customMotions],
+  )
   const effectiveMotionClip = seqClip ? seqClip.id : character.motionClip
   const effectiveCustomMotions = React.useMemo(
     () => (seqClip ? [...(customMotions ?? []), seqClip] : customMotions),
@@ -34,6 +34,8 @@ export type ViewportHandle = {
   captureView: (opts?: { fovScale?: number }) => string | null
   getCurrentCamera: () => { position: Vec3; lookAt: Vec3; fovDeg: number } | null
   resetView: () => void
+  /** 角色 id → 视口里的外层 group（glTF 导出克隆几何用） */
+  getCharacterGroups: () => ReadonlyMap<string, THREE.Group>
 }
 
 const DIRECTOR_CAM_POS: Vec3 = [6, 4.5, 13]
@@ -687,6 +689,7 @@ export const Viewport = React.forwardRef<ViewportHandle, Props>(function Viewpor
       const c = controlsRef.current
       if (c) { if (c.target?.set) c.target.set(DIRECTOR_TARGET[0], DIRECTOR_TARGET[1], DIRECTOR_TARGET[2]); c.update?.() }
     },
+    getCharacterGroups: () => groupsRef.current,
   }), [])
 
   // 机位视角按画幅比例做 letterbox
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildDirectorAssetFile,
+  collectLocalDirectorAssets,
+  directorAssetFileName,
+  motionFromAsset,
+  parseDirectorAssetFile,
+} from './directorAssetTransfer.ts';
+import type { PoseClip } from './poseClip';
+
+const clip: PoseClip = {
+  id: 'wave',
+  name: '挥手',
+  durationSeconds: 2,
+  loop: true,
+  keyframes: [{ t: 0, pose: { shoulderR: [0, 0, 1.2] } }, { t: 1, pose: { shoulderR: [0, 0, 0.4] } }],
+};
+const clipData = clip as unknown as Record<string, unknown>;
+
+test('exported asset files round-trip through the importer', () => {
+  const file = buildDirectorAssetFile({ kind: 'motion', name: '挥手', data: clipData }, new Date('2026-10-19T00:00:00Z'));
+  assert.equal(file.exportedAt, '2026-10-19T00:00:00.000Z');
+  const parsed = parseDirectorAssetFile(JSON.stringify(file));
+  assert.deepEqual(parsed, { kind: 'motion', name: '挥手', data: clipData });
+  assert.equal(directorAssetFileName({ kind: 'scene', name: 'a/b c' }), 'a_b_c.director-scene.json');
+});
+
+test('bare pose clips and director node data are accepted, anything else is rejected', () => {
+  assert.equal(parseDirectorAssetFile(JSON.stringify(clip), 'fallback').kind, 'motion');
+  const scene = parseDirectorAssetFile(
+    JSON.stringify({ kind: 'directorConsole', label: '导演台', status: 'idle', scene: { characters: [], cameras: [] } }),
+    '街角',
+  );
+  assert.equal(scene.kind, 'scene');
+  assert.equal(scene.name, '街角');
+  assert.equal('status' in scene.data, false);
+  assert.throws(() => parseDirectorAssetFile('{oops'), /JSON/);
+  assert.throws(() => parseDirectorAssetFile(JSON.stringify({ format: 'tanva-director-asset', kind: 'light', data: {} })), /类型/);
+  assert.throws(() => parseDirectorAssetFile(JSON.stringify({ hello: 1 })), /不是导演台资产/);
+});
+
+test('local migration skips already-synced entries and strips library-only fields', () => {
+  const items = collectLocalDirectorAssets(
+    [{ ...clip, custom: true, createdAt: 1 }, { ...clip, id: 'old', custom: true }],
+    [{ id: 'p1', name: '叉腰', category: 'stand', pose: { spine: [0.1, 0, 0] }, custom: true, createdAt: 2 }],
+    new Set(['motion:old']),
+  );
+  assert.deepEqual(items.map((item) => item.sourceId), ['motion:wave', 'pose:p1']);
+  assert.equal('custom' in items[0].data, false);
+  assert.equal('createdAt' in items[0].data, false);
+  assert.deepEqual(items[1].data, { pose: { spine: [0.1, 0, 0] }, category: 'stand' });
+});
+
+test('motion assets get a stable id derived from the asset', () => {
+  const motion = motionFromAsset({ id: 'abc', name: '服务端挥手', data: clipData });
+  assert.equal(motion?.id, 'asset-abc');
+  assert.equal(motion?.name, '服务端挥手');
+  assert.equal(motionFromAsset({ id: 'x', name: 'x', data: { pose: {} } }), null);
+});
@@ -0,0 +1,139 @@
+// 导演台资产（动作 / 姿势 / 整场景）的文件导入导出与 localStorage 迁移条目整理。纯函数，不碰网络与存储。
+import type { DirectorConsoleData } from '../types'
+import type { PoseClip } from './poseClip'
+import type { PoseMap } from './pose'
+
+export type DirectorAssetKind = 'motion' | 'pose' | 'scene'
+
+export const DIRECTOR_ASSET_FILE_FORMAT = 'tanva-director-asset'
+const FILE_VERSION = 1
+
+export type DirectorAssetFile = {
+  format: typeof DIRECTOR_ASSET_FILE_FORMAT
+  version: number
+  kind: DirectorAssetKind
+  name: string
+  data: Record<string, unknown>
+  exportedAt: string
+}
+
+export type DirectorAssetPayload = { kind: DirectorAssetKind; name: string; data: Record<string, unknown> }
+export type LocalDirectorAssetItem = DirectorAssetPayload & { sourceId: string }
+
+/** 姿势资产的 data：pose map + 原分类（UI 分组用） */
+export type PoseAssetData = { pose: PoseMap; category?: string }
+
+export const DIRECTOR_ASSET_KIND_LABELS: Record<DirectorAssetKind, string> = {
+  motion: '动作',
+  pose: '姿势',
+  scene: '场景',
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+export function buildDirectorAssetFile(payload: DirectorAssetPayload, now = new Date()): DirectorAssetFile {
+  return {
+    format: DIRECTOR_ASSET_FILE_FORMAT,
+    version: FILE_VERSION,
+    kind: payload.kind,
+    name: payload.name,
+    data: payload.data,
+    exportedAt: now.toISOString(),
+  }
+}
+
+export function directorAssetFileName(payload: Pick<DirectorAssetPayload, 'kind' | 'name'>): string {
+  const safe = payload.name.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80) || 'director'
+  return `${safe}.director-${payload.kind}.json`
+}
+
+/** 识别动作 data：有正时长与关键帧数组的 PoseClip */
+const looksLikePoseClip = (value: Record<string, unknown>) =>
+  typeof value.durationSeconds === 'number' && value.durationSeconds > 0 && Array.isArray(value.keyframes) && value.keyframes.length > 0
+
+/**
+ * 解析导入文件。除本格式外也接受裸 PoseClip（当作动作）与裸导演台节点数据（当作场景），
+ * 方便直接导入旧导出或节点 JSON。
+ */
+export function parseDirectorAssetFile(text: string, fallbackName = '导入资产'): DirectorAssetPayload {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+  if (!isRecord(parsed)) throw new Error('文件内容不是导演台资产')
+  if (parsed.format === DIRECTOR_ASSET_FILE_FORMAT) {
+    const kind = parsed.kind
+    if (kind !== 'motion' && kind !== 'pose' && kind !== 'scene') throw new Error('未知的导演台资产类型')
+    if (typeof parsed.version === 'number' && parsed.version > FILE_VERSION) throw new Error('资产文件版本过新，请升级后再导入')
+    if (!isRecord(parsed.data)) throw new Error('资产文件缺少数据')
+    const name = typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : fallbackName
+    return { kind, name: name.slice(0, 200), data: parsed.data }
+  }
+  if (parsed.kind === 'directorConsole' && isRecord(parsed.scene)) {
+    return { kind: 'scene', name: fallbackName, data: sceneAssetData(parsed as DirectorConsoleData) }
+  }
+  if (looksLikePoseClip(parsed)) {
+    const name = typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : fallbackName
+    return { kind: 'motion', name: name.slice(0, 200), data: parsed }
+  }
+  throw new Error('文件内容不是导演台资产')
+}
+
+/** 场景预设只存场景本身与视角，剥掉节点运行态（status、出图结果等临时字段） */
+export function sceneAssetData(data: DirectorConsoleData): Record<string, unknown> {
+  return {
+    kind: 'directorConsole',
+    label: data.label,
+    scene: data.scene,
+    activeViewpoint: data.activeViewpoint === 'camera' ? 'camera' : 'director',
+  }
+}
+
+/** 动作资产统一带上资产 id，套进场景 customMotions 时不与内置预设/其它动作撞车 */
+export function motionFromAsset(asset: { id: string; name: string; data: Record<string, unknown> }): PoseClip | null {
+  const data = asset.data
+  if (!looksLikePoseClip(data)) return null
+  return {
+    id: `asset-${asset.id}`,
+    name: asset.name,
+    durationSeconds: data.durationSeconds as number,
+    loop: data.loop === true,
+    keyframes: data.keyframes as PoseClip['keyframes'],
+  }
+}
+
+export function poseFromAsset(asset: { data: Record<string, unknown> }): PoseMap | null {
+  return isRecord(asset.data.pose) ? (asset.data.pose as PoseMap) : null
+}
+
+type LocalMotion = PoseClip & { custom?: true; createdAt?: number; source?: string }
+type LocalPose = { id: string; name: string; category?: string; pose: PoseMap; custom?: true; createdAt?: number }
+
+/**
+ * 把 localStorage 里的自定义动作/姿势整理成迁移条目；syncedIds 中已上传过的跳过，
+ * 这样既能首次整体迁移，也能补传之后在本机新增（如 BVH 导入）的条目。
+ */
+export function collectLocalDirectorAssets(
+  motions: LocalMotion[],
+  poses: LocalPose[],
+  syncedIds: ReadonlySet<string> = new Set(),
+): LocalDirectorAssetItem[] {
+  const items: LocalDirectorAssetItem[] = []
+  for (const motion of motions) {
+    const sourceId = `motion:${motion.id}`
+    if (!motion?.id || syncedIds.has(sourceId)) continue
+    const { custom: _custom, createdAt: _createdAt, ...clip } = motion
+    if (!looksLikePoseClip(clip as Record<string, unknown>)) continue
+    items.push({ kind: 'motion', name: clip.name || '自定义动作', data: clip as Record<string, unknown>, sourceId })
+  }
+  for (const pose of poses) {
+    const sourceId = `pose:${pose.id}`
+    if (!pose?.id || !isRecord(pose.pose) || syncedIds.has(sourceId)) continue
+    const data: PoseAssetData = { pose: pose.pose, ...(pose.category ? { category: pose.category } : {}) }
+    items.push({ kind: 'pose', name: pose.name || '自定义姿势', data, sourceId })
+  }
+  return items
+}
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  bakeTransformKeys,
+  pushQuaternion,
+  timelineSampleTimes,
+  type TransformSamples,
+} from './gltfTimeline.ts';
+
+const assertStrictlyIncreasingAsFloat32 = (times: number[]) => {
+  const stored = Float32Array.from(times);
+  for (let i = 1; i < stored.length; i++) {
+    assert.ok(stored[i] > stored[i - 1], `key ${i} (${stored[i]}) must come after ${stored[i - 1]}`);
+  }
+};
+
+test('samples at the frame rate from 0 and ends exactly on the duration', () => {
+  assert.deepEqual(timelineSampleTimes(1, 4), [0, 0.25, 0.5, 0.75, 1]);
+  const times = timelineSampleTimes(1.1, 4);
+  assert.deepEqual(times, [0, 0.25, 0.5, 0.75, 1, 1.1]);
+  assertStrictlyIncreasingAsFloat32(times);
+});
+
+test('a zero-length or invalid timeline yields a single key instead of duplicate times', () => {
+  assert.deepEqual(timelineSampleTimes(0, 24), [0]);
+  assert.deepEqual(timelineSampleTimes(-2, 24), [0]);
+  assert.deepEqual(timelineSampleTimes(Number.NaN, 24), [0]);
+  assert.deepEqual(timelineSampleTimes(3, 0), [0]);
+  assert.deepEqual(bakeTransformKeys([0], { positions: [0, 0, 0], quaternions: [0, 0, 0, 1], scales: [1, 1, 1] }), {});
+});
+
+test('a duration just past a frame boundary does not produce a near-duplicate last key', () => {
+  for (const duration of [1 + 1e-9, 2.0000001, 10 / 3, 0.5 + 1e-4]) {
+    const times = timelineSampleTimes(duration, 24);
+    assert.equal(times[0], 0);
+    assert.equal(times[times.length - 1], duration);
+    assertStrictlyIncreasingAsFloat32(times);
+  }
+});
+
+test('only channels that change are baked into keys', () => {
+  const times = [0, 0.5, 1];
+  const samples: TransformSamples = {
+    positions: [0, 0, 0, 1, 0, 0, 2, 0, 0],
+    quaternions: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1],
+    scales: [1, 1, 1, 1, 1, 1, 2, 2, 2],
+  };
+  const keys = bakeTransformKeys(times, samples);
+  assert.deepEqual(keys.position, samples.positions);
+  assert.equal(keys.quaternion, undefined);
+  assert.deepEqual(keys.scale, samples.scales);
+  assert.equal(keys.position!.length, times.length * 3);
+  assert.equal(keys.scale!.length, times.length * 3);
+});
+
+test('quaternion keys stay in the same hemisphere as the previous key', () => {
+  const quaternions: number[] = [];
+  pushQuaternion(quaternions, { x: 0, y: 0, z: 0, w: 1 });
+  // 与上一帧是同一朝向的另一半球表示，应翻转成同号
+  pushQuaternion(quaternions, { x: 0, y: -0.1, z: 0, w: -0.995 });
+  assert.deepEqual(quaternions.slice(4), [-0, 0.1, -0, 0.995]);
+
+  const keys = bakeTransformKeys([0, 1], { positions: [0, 0, 0, 0, 0, 0], quaternions, scales: [] });
+  assert.equal(keys.position, undefined);
+  assert.equal(keys.scale, undefined);
+  assert.equal(keys.quaternion!.length, 8);
+});
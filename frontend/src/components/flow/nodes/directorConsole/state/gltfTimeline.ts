@@ -0,0 +1,45 @@
+// glTF 导出的时间轴烘焙：采样时刻与节点 TRS 关键帧。不依赖 three，便于单测。
+// glTF 要求动画输入时刻严格递增（按 float32 存储），相邻采样过近或时长为 0 都会产生重复时刻被 DCC 拒绝。
+
+export type QuaternionLike = { x: number; y: number; z: number; w: number }
+
+export type TransformSamples = { positions: number[]; quaternions: number[]; scales: number[] }
+
+/** 烘焙出的 TRS 关键帧；整段不变的通道省略，只靠节点的静态变换表达 */
+export type TransformKeys = { position?: number[]; quaternion?: number[]; scale?: number[] }
+
+const EPSILON = 1e-5
+// 远大于 float32 在常见时长（数分钟）内的精度，保证写入后仍严格递增
+const MIN_KEY_GAP = 1e-3
+
+/** 按固定帧率取采样时刻：0 起步、落在 duration 收尾；时长为 0（或无效）时只取首帧，不产生动画 */
+export function timelineSampleTimes(duration: number, fps: number): number[] {
+  if (!Number.isFinite(duration) || duration <= MIN_KEY_GAP || !Number.isFinite(fps) || fps <= 0) return [0]
+  const times: number[] = []
+  for (let frame = 0; frame / fps < duration - MIN_KEY_GAP; frame++) times.push(frame / fps)
+  times.push(duration)
+  return times
+}
+
+export function isConstant(values: number[], stride: number): boolean {
+  for (let i = stride; i < values.length; i++) if (Math.abs(values[i] - values[i % stride]) > EPSILON) return false
+  return true
+}
+
+export function pushQuaternion(target: number[], q: QuaternionLike) {
+  // 与上一帧同半球，避免 slerp 绕远路
+  const n = target.length
+  if (n >= 4 && target[n - 4] * q.x + target[n - 3] * q.y + target[n - 2] * q.z + target[n - 1] * q.w < 0) {
+    target.push(-q.x, -q.y, -q.z, -q.w)
+  } else target.push(q.x, q.y, q.z, q.w)
+}
+
+/** 把逐帧采样整理成 TRS 关键帧；少于两个采样时刻时没有动画 */
+export function bakeTransformKeys(times: number[], samples: TransformSamples): TransformKeys {
+  if (times.length < 2) return {}
+  const keys: TransformKeys = {}
+  if (!isConstant(samples.positions, 3)) keys.position = samples.positions
+  if (!isConstant(samples.quaternions, 4)) keys.quaternion = samples.quaternions
+  if (samples.scales.length && !isConstant(samples.scales, 3)) keys.scale = samples.scales
+  return keys
+}
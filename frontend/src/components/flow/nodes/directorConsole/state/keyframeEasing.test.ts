@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  cubicBezierAt,
+  easeSegment,
+  isKeyframeInterpolation,
+  normalizeBezierTangents,
+  tangentsFor,
+} from './keyframeEasing.ts';
+
+test('keyframes without a mode stay linear so old timelines sample unchanged', () => {
+  for (const amount of [0, 0.25, 0.5, 0.75, 1]) {
+    assert.equal(easeSegment(amount, undefined), amount);
+    assert.equal(easeSegment(amount, 'linear'), amount);
+  }
+  assert.equal(isKeyframeInterpolation('smooth'), false);
+  assert.equal(tangentsFor(undefined), null);
+});
+
+test('step holds the leaving value until the next keyframe', () => {
+  assert.equal(easeSegment(0, 'step'), 0);
+  assert.equal(easeSegment(0.99, 'step'), 0);
+  assert.equal(easeSegment(1, 'step'), 1);
+});
+
+test('ease presets keep their endpoints and bend in the expected direction', () => {
+  for (const mode of ['ease-in', 'ease-out', 'ease-in-out'] as const) {
+    assert.equal(easeSegment(0, mode), 0);
+    assert.equal(easeSegment(1, mode), 1);
+    let previous = 0;
+    for (let i = 1; i <= 20; i++) {
+      const value = easeSegment(i / 20, mode);
+      assert.ok(value >= previous - 1e-9, `${mode} is monotonic`);
+      previous = value;
+    }
+  }
+  assert.ok(easeSegment(0.25, 'ease-in') < 0.25);
+  assert.ok(easeSegment(0.25, 'ease-out') > 0.25);
+  assert.ok(Math.abs(easeSegment(0.5, 'ease-in-out') - 0.5) < 1e-4);
+});
+
+test('bezier tangents are clamped and may overshoot on y', () => {
+  assert.deepEqual(normalizeBezierTangents([-1, 0, 2, 1]), [0, 0, 1, 1]);
+  assert.deepEqual(normalizeBezierTangents('bad'), [0.33, 0, 0.67, 1]);
+  assert.ok(Math.abs(cubicBezierAt(0.5, [0.5, 0.5, 0.5, 0.5]) - 0.5) < 1e-4);
+  const overshoot = easeSegment(0.7, 'bezier', [0.2, 1.8, 0.6, 1]);
+  assert.ok(overshoot > 1, 'y tangents above 1 overshoot the target');
+});
@@ -0,0 +1,98 @@
+/**
+ * Per-keyframe interpolation for the property timeline. A keyframe's mode
+ * shapes the segment that leaves it (up to the next keyframe); keyframes
+ * without a mode are linear, so timelines saved before easing existed sample
+ * exactly as before.
+ */
+export type KeyframeInterpolation = 'linear' | 'step' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bezier'
+
+/**
+ * Segment tangents in normalised segment space, CSS cubic-bezier style:
+ * [outX, outY, inX, inY]. X is clamped to [0, 1] so time stays monotonic;
+ * Y may overshoot to let a dolly settle past its target and come back.
+ */
+export type BezierTangents = [number, number, number, number]
+
+export const KEYFRAME_INTERPOLATIONS: KeyframeInterpolation[] = ['linear', 'step', 'ease-in', 'ease-out', 'ease-in-out', 'bezier']
+
+export const INTERPOLATION_LABELS: Record<KeyframeInterpolation, string> = {
+  linear: '线性',
+  step: '阶梯',
+  'ease-in': '缓入',
+  'ease-out': '缓出',
+  'ease-in-out': '缓入缓出',
+  bezier: '贝塞尔',
+}
+
+const PRESET_TANGENTS: Record<'ease-in' | 'ease-out' | 'ease-in-out', BezierTangents> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+}
+
+export const DEFAULT_BEZIER_TANGENTS: BezierTangents = [0.33, 0, 0.67, 1]
+const MAX_TANGENT_Y = 3
+
+export const isKeyframeInterpolation = (value: unknown): value is KeyframeInterpolation =>
+  typeof value === 'string' && (KEYFRAME_INTERPOLATIONS as string[]).includes(value)
+
+export function normalizeBezierTangents(value: unknown): BezierTangents {
+  if (!Array.isArray(value) || value.length < 4) return [...DEFAULT_BEZIER_TANGENTS]
+  const numbers = value.slice(0, 4).map((item) => Number(item))
+  if (numbers.some((item) => !Number.isFinite(item))) return [...DEFAULT_BEZIER_TANGENTS]
+  const clampX = (x: number) => Math.max(0, Math.min(1, x))
+  const clampY = (y: number) => Math.max(-MAX_TANGENT_Y + 1, Math.min(MAX_TANGENT_Y, y))
+  return [clampX(numbers[0]), clampY(numbers[1]), clampX(numbers[2]), clampY(numbers[3])]
+}
+
+/** The tangents a mode stands for; linear and step have none. */
+export function tangentsFor(interpolation: KeyframeInterpolation | undefined, bezier?: unknown): BezierTangents | null {
+  if (interpolation === 'bezier') return normalizeBezierTangents(bezier)
+  if (interpolation === 'ease-in' || interpolation === 'ease-out' || interpolation === 'ease-in-out') return [...PRESET_TANGENTS[interpolation]]
+  return null
+}
+
+const bezierComponent = (t: number, p1: number, p2: number) => {
+  const u = 1 - t
+  return 3 * u * u * t * p1 + 3 * u * t * t * p2 + t * t * t
+}
+
+const bezierSlope = (t: number, p1: number, p2: number) => {
+  const u = 1 - t
+  return 3 * u * u * p1 + 6 * u * t * (p2 - p1) + 3 * t * t * (1 - p2)
+}
+
+/** Evaluates y for a given x on the unit cubic bezier (0,0)-(x1,y1)-(x2,y2)-(1,1). */
+export function cubicBezierAt(x: number, tangents: BezierTangents): number {
+  const [x1, y1, x2, y2] = tangents
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  // Newton first (fast near the answer), bisection as the fallback when the slope flattens.
+  let t = x
+  for (let i = 0; i < 8; i++) {
+    const error = bezierComponent(t, x1, x2) - x
+    if (Math.abs(error) < 1e-6) return bezierComponent(t, y1, y2)
+    const slope = bezierSlope(t, x1, x2)
+    if (Math.abs(slope) < 1e-6) break
+    t -= error / slope
+  }
+  let low = 0
+  let high = 1
+  t = x
+  for (let i = 0; i < 40; i++) {
+    const value = bezierComponent(t, x1, x2)
+    if (Math.abs(value - x) < 1e-6) break
+    if (value < x) low = t
+    else high = t
+    t = (low + high) / 2
+  }
+  return bezierComponent(t, y1, y2)
+}
+
+/** Maps the linear segment progress (0..1) through the leaving keyframe's interpolation. */
+export function easeSegment(amount: number, interpolation: KeyframeInterpolation | undefined, bezier?: unknown): number {
+  const clamped = Math.max(0, Math.min(1, amount))
+  if (interpolation === 'step') return clamped >= 1 ? 1 : 0
+  const tangents = tangentsFor(interpolation, bezier)
+  return tangents ? cubicBezierAt(clamped, tangents) : clamped
+}
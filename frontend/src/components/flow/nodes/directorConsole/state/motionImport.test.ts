@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { IMPORT_SAMPLE_FPS, MAX_IMPORT_SECONDS, parseBvhMotion } from './motionImport.ts';
+
+// Mixamo 命名的最小 T-pose 骨架：左臂沿 +X、右臂沿 -X，面朝 +Z
+type Joint = { name: string; offset: [number, number, number]; children?: Joint[] };
+
+const SKELETON: Joint = {
+  name: 'Hips',
+  offset: [0, 100, 0],
+  children: [
+    {
+      name: 'Spine',
+      offset: [0, 10, 0],
+      children: [
+        {
+          name: 'Spine1',
+          offset: [0, 20, 0],
+          children: [
+            { name: 'Neck', offset: [0, 15, 0] },
+            { name: 'LeftArm', offset: [15, 10, 0], children: [{ name: 'LeftForeArm', offset: [25, 0, 0] }] },
+            { name: 'RightArm', offset: [-15, 10, 0], children: [{ name: 'RightForeArm', offset: [-25, 0, 0] }] },
+          ],
+        },
+      ],
+    },
+    { name: 'LeftUpLeg', offset: [10, 0, 0], children: [{ name: 'LeftLeg', offset: [0, -45, 0], children: [{ name: 'LeftFoot', offset: [0, -45, 0] }] }] },
+    { name: 'RightUpLeg', offset: [-10, 0, 0], children: [{ name: 'RightLeg', offset: [0, -45, 0], children: [{ name: 'RightFoot', offset: [0, -45, 0] }] }] },
+  ],
+};
+
+const jointNames: string[] = [];
+const hierarchy = (joint: Joint, depth: number): string => {
+  jointNames.push(joint.name);
+  const pad = '  '.repeat(depth);
+  const channels = depth === 0
+    ? 'CHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation'
+    : 'CHANNELS 3 Zrotation Xrotation Yrotation';
+  const children = joint.children?.length
+    ? joint.children.map((child) => hierarchy(child, depth + 1)).join('\n')
+    : `${pad}  End Site\n${pad}  {\n${pad}    OFFSET 0 5 0\n${pad}  }`;
+  return [
+    `${pad}${depth === 0 ? 'ROOT' : 'JOINT'} ${joint.name}`,
+    `${pad}{`,
+    `${pad}  OFFSET ${joint.offset.join(' ')}`,
+    `${pad}  ${channels}`,
+    children,
+    `${pad}}`,
+  ].join('\n');
+};
+const HIERARCHY = hierarchy(SKELETON, 0);
+
+/** 逐帧生成 BVH；rotations 给出某帧某关节的 [Z, X, Y] 角度（度），未给出的关节保持 T-pose */
+const buildBvh = (
+  frames: number,
+  frameTime: number,
+  rotations: (frame: number) => Record<string, [number, number, number]> = () => ({}),
+): string => {
+  const lines: string[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    const values: number[] = [0, 100, 0];
+    const rotated = rotations(frame);
+    for (const name of jointNames) values.push(...(rotated[name] ?? [0, 0, 0]));
+    lines.push(values.join(' '));
+  }
+  return `HIERARCHY\n${HIERARCHY}\nMOTION\nFrames: ${frames}\nFrame Time: ${frameTime}\n${lines.join('\n')}\n`;
+};
+
+const assertNear = (actual: number, expected: number, message?: string) => {
+  assert.ok(Math.abs(actual - expected) < 1e-3, `${message ?? ''} expected ${expected}, got ${actual}`);
+};
+
+test('a still T-pose retargets to zero rotations and is treated as a loop', () => {
+  const motion = parseBvhMotion(buildBvh(11, 0.1), 'idle stand.bvh');
+  assert.equal(motion.source, 'bvh');
+  assert.equal(motion.name, 'idle stand');
+  assert.equal(motion.durationSeconds, 1);
+  assert.equal(motion.keyframes.length, IMPORT_SAMPLE_FPS + 1);
+  assert.equal(motion.loop, true);
+  for (const keyframe of motion.keyframes) {
+    assert.equal(keyframe.interpolation, 'linear');
+    for (const role of ['body', 'spine', 'neck', 'shoulderL', 'elbowL', 'shoulderR', 'elbowR', 'hipL', 'kneeL', 'footL', 'hipR', 'kneeR', 'footR']) {
+      const angles = keyframe.pose[role as keyof typeof keyframe.pose];
+      assert.ok(angles, `${role} should be mapped`);
+      angles.forEach((value, axis) => assertNear(value, 0, `${role}[${axis}]`));
+    }
+  }
+});
+
+test('a forward elbow bend lands on the canonical elbow axis only', () => {
+  // 前臂绕自身 Y 轴 -90°：沿 +X 的左前臂转向面朝方向 +Z，即规范空间 elbowL 的 y- 弯曲
+  const motion = parseBvhMotion(
+    buildBvh(11, 0.1, (frame) => ({ LeftForeArm: [0, 0, -9 * frame] })),
+    'elbow.bvh',
+  );
+  const last = motion.keyframes[motion.keyframes.length - 1];
+  assertNear(last.t, 1);
+  const [x, y, z] = last.pose.elbowL!;
+  assertNear(x, 0, 'elbowL x');
+  assertNear(y, -Math.PI / 2, 'elbowL y');
+  assertNear(z, 0, 'elbowL z');
+  last.pose.shoulderL!.forEach((value) => assertNear(value, 0, 'shoulderL'));
+  last.pose.elbowR!.forEach((value) => assertNear(value, 0, 'elbowR'));
+  assert.equal(motion.loop, false);
+});
+
+test('root heading is stripped so turning in place does not rotate the body', () => {
+  const motion = parseBvhMotion(
+    buildBvh(11, 0.1, (frame) => ({ Hips: [0, 0, 9 * frame] })),
+    'turn.bvh',
+  );
+  for (const keyframe of motion.keyframes) {
+    keyframe.pose.body!.forEach((value) => assertNear(value, 0, 'body'));
+    keyframe.pose.spine!.forEach((value) => assertNear(value, 0, 'spine'));
+  }
+});
+
+test('long captures are truncated to the import limit', () => {
+  const motion = parseBvhMotion(buildBvh(MAX_IMPORT_SECONDS + 5, 1), 'long.bvh');
+  assert.equal(motion.durationSeconds, MAX_IMPORT_SECONDS);
+  assert.equal(motion.keyframes.length, MAX_IMPORT_SECONDS * IMPORT_SAMPLE_FPS + 1);
+  assertNear(motion.keyframes[motion.keyframes.length - 1].t, MAX_IMPORT_SECONDS);
+});
+
+test('non-humanoid skeletons and malformed files are rejected with a readable error', () => {
+  const tail = [
+    'HIERARCHY',
+    'ROOT Base',
+    '{',
+    '  OFFSET 0 0 0',
+    '  CHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation',
+    '  JOINT Segment1',
+    '  {',
+    '    OFFSET 0 10 0',
+    '    CHANNELS 3 Zrotation Xrotation Yrotation',
+    '    End Site',
+    '    {',
+    '      OFFSET 0 10 0',
+    '    }',
+    '  }',
+    '}',
+    'MOTION',
+    'Frames: 2',
+    'Frame Time: 0.1',
+    '0 0 0 0 0 0 0 0 0',
+    '0 0 0 0 0 0 0 0 10',
+  ].join('\n');
+  assert.throws(() => parseBvhMotion(tail, 'tail.bvh'), /未识别到人形骨架/);
+  assert.throws(() => parseBvhMotion('not a bvh file', 'broken.bvh'), /BVH 解析失败/);
+});
@@ -0,0 +1,208 @@
+// 外部动作导入：BVH 动捕 / glTF·GLB 动画轨 → 重定向到 pose.ts 规范关节空间 → PoseClip（与自定义动作同一套存储/播放）。
+//
+// 重定向思路：applyPoseToRig 写入的欧拉角 C 满足「骨骼世界增量 = 父关节增量 · Ĉ」（Ĉ=basis·C·basis⁻¹），
+// 与骨骼局部轴无关。于是在源骨架上逐帧求每个关节相对静止姿态的世界增量 D，
+// 取 Ĉ = D(父角色)⁻¹ · D(角色)，再换回规范系即得 C；同一 C 经 applyPoseToRig 在 GltfBody 的 mixamo 骨架上重放。
+// 两边静止姿态需同为 T-pose（BVH 约定 / mixamo 绑定姿态）；A-pose 源会带上手臂的固定偏角。
+// 根位移与朝向不进 PoseClip（逐帧去掉髋部绕 Y 的转向），行进交给位移/路径。
+import * as THREE from 'three'
+import { BVHLoader } from 'three/examples/jsm/loaders/BVHLoader.js'
+import type { PoseClip, PoseKeyframe } from './poseClip'
+import { ALL_JOINT_ROLES, computeRigBasis, mapBones, type Euler3, type JointRole, type PoseMap } from './pose.ts'
+
+/** 采样帧率：导入帧标为线性插值，20fps 足够顺滑，也压得住 localStorage 体积 */
+export const IMPORT_SAMPLE_FPS = 20
+/** 单段导入时长上限（秒），超出截断 */
+export const MAX_IMPORT_SECONDS = 60
+const MAX_GLTF_ANIMATIONS = 20
+/** 首末帧各关节最大角差（弧度）低于此值视为循环动作 */
+const LOOP_TOLERANCE = 0.12
+
+export type ImportedMotionSource = 'bvh' | 'gltf'
+export type ImportedMotion = PoseClip & { source: ImportedMotionSource }
+
+// 规范层级：角色 → 最近的受控祖先角色。中间未映射骨（锁骨、Spine2、Hips…）在目标骨架上保持绑定姿态，
+// 所以源骨架上它们的旋转要并入子关节。
+const PARENT_ROLE: Record<JointRole, JointRole | null> = {
+  body: null, spine: 'body', neck: 'spine',
+  shoulderL: 'spine', elbowL: 'shoulderL', shoulderR: 'spine', elbowR: 'shoulderR',
+  hipL: null, kneeL: 'hipL', footL: 'kneeL', hipR: null, kneeR: 'hipR', footR: 'kneeR',
+}
+
+// 非 mixamo 命名的常见 BVH 骨架（CMU/Truebones/SecondLife 等）；只补 mapBones 没认出的角色
+const BVH_ROLE_ALIASES: Partial<Record<JointRole, string[]>> = {
+  body: ['lowerback', 'pelvis'],
+  spine: ['chest', 'upperback'],
+  shoulderL: ['leftshoulder', 'lshldr', 'lshoulder', 'leftupperarm'],
+  elbowL: ['leftelbow', 'lforearm', 'leftlowerarm'],
+  shoulderR: ['rightshoulder', 'rshldr', 'rshoulder', 'rightupperarm'],
+  elbowR: ['rightelbow', 'rforearm', 'rightlowerarm'],
+  hipL: ['lefthip', 'lthigh', 'leftthigh'],
+  kneeL: ['leftknee', 'lshin', 'leftshin'],
+  footL: ['leftankle', 'lfoot'],
+  hipR: ['righthip', 'rthigh', 'rightthigh'],
+  kneeR: ['rightknee', 'rshin', 'rightshin'],
+  footR: ['rightankle', 'rfoot'],
+}
+
+const normName = (name: string): string => name.toLowerCase().replace(/^mixamorig[:_]?/, '').replace(/[\s._-]/g, '')
+
+function mapSourceJoints(root: THREE.Object3D): Partial<Record<JointRole, THREE.Object3D>> {
+  const roles = mapBones(root)
+  const byName = new Map<string, THREE.Object3D>()
+  root.traverse((o) => { if ((o as THREE.Bone).isBone && !byName.has(normName(o.name))) byName.set(normName(o.name), o) })
+  for (const role of ALL_JOINT_ROLES) {
+    if (roles[role]) continue
+    const hit = (BVH_ROLE_ALIASES[role] ?? []).map((name) => byName.get(name)).find(Boolean)
+    if (hit) roles[role] = hit
+  }
+  return roles
+}
+
+function parentRoleOf(role: JointRole, roles: Partial<Record<JointRole, THREE.Object3D>>): JointRole | null {
+  let parent = PARENT_ROLE[role]
+  while (parent && !roles[parent]) parent = PARENT_ROLE[parent]
+  return parent
+}
+
+/** 最顶层骨（通常是 Hips）：其世界旋转的绕 Y 分量即角色朝向 */
+function topBone(roles: Partial<Record<JointRole, THREE.Object3D>>): THREE.Object3D | null {
+  let bone = roles.body ?? roles.hipL ?? roles.hipR ?? null
+  while (bone?.parent && (bone.parent as THREE.Bone).isBone) bone = bone.parent
+  return bone
+}
+
+/** 四元数绕 Y 的 twist 分量（swing-twist 分解） */
+function yawOf(q: THREE.Quaternion): THREE.Quaternion {
+  const twist = new THREE.Quaternion(0, q.y, 0, q.w)
+  return twist.lengthSq() < 1e-10 ? new THREE.Quaternion() : twist.normalize()
+}
+
+const round = (value: number) => Math.round(value * 1e4) / 1e4
+
+/**
+ * 把挂在 root 下的骨架动画重定向成 PoseClip。root 的子树需含源骨骼；clip 的轨道名按节点名绑定。
+ * 认不出双肩或双髋时抛错（多半不是人形骨架）。
+ */
+export function retargetAnimationToPoseClip(
+  root: THREE.Object3D,
+  clip: THREE.AnimationClip,
+  meta: { id: string; name: string },
+): PoseClip {
+  const roles = mapSourceJoints(root)
+  if (!(roles.shoulderL && roles.shoulderR) && !(roles.hipL && roles.hipR)) {
+    throw new Error('未识别到人形骨架（缺少肩/髋关节）')
+  }
+  const mapped = ALL_JOINT_ROLES.filter((role) => roles[role])
+  const top = topBone(roles)
+
+  root.updateMatrixWorld(true)
+  const rootWorldInv = root.getWorldQuaternion(new THREE.Quaternion()).invert()
+  const rootRelative = (o: THREE.Object3D) => rootWorldInv.clone().multiply(o.getWorldQuaternion(new THREE.Quaternion()))
+  const basis = computeRigBasis(root, roles)
+  const basisInv = basis.clone().invert()
+  const restInv = new Map<JointRole, THREE.Quaternion>(mapped.map((role) => [role, rootRelative(roles[role]!).invert()]))
+  const topRestInv = top ? rootRelative(top).invert() : new THREE.Quaternion()
+
+  const duration = Math.min(Math.max(clip.duration, 0), MAX_IMPORT_SECONDS)
+  const frameCount = Math.max(1, Math.round(duration * IMPORT_SAMPLE_FPS))
+  const mixer = new THREE.AnimationMixer(root)
+  const action = mixer.clipAction(clip)
+  action.setLoop(THREE.LoopOnce, 1)
+  action.clampWhenFinished = true
+  action.play()
+
+  const keyframes: PoseKeyframe[] = []
+  const previous: PoseMap = {}
+  const euler = new THREE.Euler()
+  try {
+    for (let frame = 0; frame <= frameCount; frame++) {
+      const t = frameCount === 0 ? 0 : (duration * frame) / frameCount
+      mixer.setTime(t)
+      root.updateMatrixWorld(true)
+      const headingInv = top ? yawOf(rootRelative(top).multiply(topRestInv)).invert() : new THREE.Quaternion()
+      const delta = new Map<JointRole, THREE.Quaternion>()
+      for (const role of mapped) {
+        delta.set(role, headingInv.clone().multiply(rootRelative(roles[role]!)).multiply(restInv.get(role)!))
+      }
+      const pose: PoseMap = {}
+      for (const role of mapped) {
+        const parent = parentRoleOf(role, roles)
+        const local = parent ? delta.get(parent)!.clone().invert().multiply(delta.get(role)!) : delta.get(role)!.clone()
+        euler.setFromQuaternion(basisInv.clone().multiply(local).multiply(basis), 'XYZ')
+        // 逐轴展开 ±π 跳变，避免关键帧间插值绕远路
+        const prev = previous[role]
+        const angles = [euler.x, euler.y, euler.z].map((angle, axis) => {
+          if (!prev) return angle
+          let value = angle
+          while (value - prev[axis] > Math.PI) value -= Math.PI * 2
+          while (value - prev[axis] < -Math.PI) value += Math.PI * 2
+          return value
+        }) as Euler3
+        previous[role] = angles
+        pose[role] = angles.map(round) as Euler3
+      }
+      keyframes.push({ t: round(t), pose, interpolation: 'linear' })
+    }
+  } finally {
+    mixer.stopAllAction()
+    mixer.uncacheRoot(root)
+  }
+
+  const first = keyframes[0].pose
+  const last = keyframes[keyframes.length - 1].pose
+  const loop = keyframes.length > 2 && mapped.every((role) =>
+    (first[role] ?? [0, 0, 0]).every((value, axis) => Math.abs(value - (last[role]?.[axis] ?? 0)) < LOOP_TOLERANCE))
+
+  return {
+    id: meta.id,
+    name: meta.name,
+    durationSeconds: Math.max(0.1, round(duration)),
+    loop,
+    keyframes,
+  }
+}
+
+const importId = () => `import-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').trim() || '导入动作'
+
+/** 解析 BVH 文本（单根骨架 + MOTION 段）。 */
+export function parseBvhMotion(text: string, fileName: string): ImportedMotion {
+  let result: ReturnType<BVHLoader['parse']>
+  try {
+    result = new BVHLoader().parse(text)
+  } catch (error) {
+    throw new Error(`BVH 解析失败：${(error as Error)?.message ?? String(error)}`)
+  }
+  const root = new THREE.Group()
+  root.add(result.skeleton.bones[0])
+  const clip = retargetAnimationToPoseClip(root, result.clip, { id: importId(), name: baseName(fileName) })
+  return { ...clip, source: 'bvh' }
+}
+
+/** 解析 GLB / 内嵌资源的 glTF，每条动画轨生成一段动作。外链 .bin/贴图的 .gltf 需先打包成 GLB。 */
+export async function parseGltfMotions(data: ArrayBuffer | string, fileName: string): Promise<ImportedMotion[]> {
+  const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js')
+  let gltf: Awaited<ReturnType<InstanceType<typeof GLTFLoader>['parseAsync']>>
+  try {
+    gltf = await new GLTFLoader().parseAsync(data, '')
+  } catch (error) {
+    throw new Error(`glTF 解析失败（外链资源的 .gltf 请先导出为 GLB）：${(error as Error)?.message ?? String(error)}`)
+  }
+  const animations = gltf.animations.filter((clip) => clip.duration > 0).slice(0, MAX_GLTF_ANIMATIONS)
+  if (animations.length === 0) throw new Error('文件中没有动画轨')
+  const base = baseName(fileName)
+  return animations.map((clip, index) => {
+    const name = animations.length === 1 ? base : `${base} · ${clip.name || `动画${index + 1}`}`
+    return { ...retargetAnimationToPoseClip(gltf.scene, clip, { id: importId(), name }), source: 'gltf' as const }
+  })
+}
+
+/** 按扩展名分派：.bvh / .glb / .gltf */
+export async function importMotionFile(file: File): Promise<ImportedMotion[]> {
+  const ext = file.name.toLowerCase().split('.').pop()
+  if (ext === 'bvh') return [parseBvhMotion(await file.text(), file.name)]
+  if (ext === 'glb') return parseGltfMotions(await file.arrayBuffer(), file.name)
+  if (ext === 'gltf') return parseGltfMotions(await file.text(), file.name)
+  throw new Error('仅支持 .bvh / .glb / .gltf 文件')
+}
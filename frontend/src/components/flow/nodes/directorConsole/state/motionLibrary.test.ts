@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { loadCustomMotions, saveCustomMotions } from './motionLibrary.ts';
+import type { PoseClip } from './poseClip';
+
+const store = new Map<string, string>();
+let quota = Infinity;
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > quota) throw new DOMException('quota', 'QuotaExceededError');
+      store.set(key, value);
+    },
+    removeItem: (key: string) => store.delete(key),
+  },
+});
+
+const clip = (id: string): PoseClip => ({
+  id,
+  name: id,
+  durationSeconds: 1,
+  loop: false,
+  keyframes: [{ t: 0, pose: { elbowL: [0, -1, 0] } }],
+});
+
+test('saving motions persists them and returns the updated library', () => {
+  store.clear();
+  quota = Infinity;
+  const next = saveCustomMotions([clip('a'), clip('b')]);
+  assert.deepEqual(next.map((motion) => motion.id), ['a', 'b']);
+  assert.deepEqual(loadCustomMotions().map((motion) => motion.id), ['a', 'b']);
+});
+
+test('a full storage quota is reported to the caller and leaves the library unchanged', () => {
+  store.clear();
+  quota = Infinity;
+  saveCustomMotions([clip('a')]);
+  quota = store.get('tc:director:customMotions')!.length;
+  assert.throws(() => saveCustomMotions([clip('b')]), /存储空间不足/);
+  assert.deepEqual(loadCustomMotions().map((motion) => motion.id), ['a']);
+});
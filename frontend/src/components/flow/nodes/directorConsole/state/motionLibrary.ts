@@ -6,19 +6,39 @@ const KEY = 'tc:director:customMotions'
 function readJSON<T>(key: string, fallback: T): T {
   try { const raw = localStorage.getItem(key); return raw ? (JSON.parse(raw) as T) : fallback } catch { return fallback }
 }
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+/** 与 poseLibrary 不同，写失败要抛给调用方：动捕动作体积大，配额满时静默会让面板误报导入成功 */
 function writeJSON(key: string, value: unknown): void {
-  try { localStorage.setItem(key, JSON.stringify(value)) } catch { /* 配额/隐私模式：静默降级 */ }
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    throw new Error(isQuotaExceeded(error)
+      ? '浏览器本地存储空间不足，动作未保存（可先删除部分导入动作再试）'
+      : `动作未保存：${error instanceof Error ? error.message : String(error)}`)
+  }
 }
 
-export type CustomMotion = PoseClip & { custom: true; createdAt: number }
+/** source 缺省 = 应用内由姿势关键帧保存；'bvh' / 'gltf' = 从外部文件导入并重定向（见 motionImport.ts） */
+export type CustomMotionSource = 'pose' | 'bvh' | 'gltf'
+export type CustomMotion = PoseClip & { custom: true; createdAt: number; source?: CustomMotionSource }
 
 export function loadCustomMotions(): CustomMotion[] {
   const list = readJSON<CustomMotion[]>(KEY, [])
   return Array.isArray(list) ? list : []
 }
-export function saveCustomMotion(clip: PoseClip): CustomMotion[] {
-  const rest = loadCustomMotions().filter((m) => m.id !== clip.id)
-  const next = [...rest, { ...clip, custom: true as const, createdAt: Date.now() }]
+export function saveCustomMotion(clip: PoseClip & { source?: CustomMotionSource }): CustomMotion[] {
+  return saveCustomMotions([clip])
+}
+/** 批量保存（一个 glTF 可含多条动画）：只读写一次 localStorage；写入失败（如配额不足）时抛错，动作库保持原样 */
+export function saveCustomMotions(clips: (PoseClip & { source?: CustomMotionSource })[]): CustomMotion[] {
+  const ids = new Set(clips.map((clip) => clip.id))
+  const createdAt = Date.now()
+  const next = [
+    ...loadCustomMotions().filter((m) => !ids.has(m.id)),
+    ...clips.map((clip) => ({ ...clip, custom: true as const, createdAt })),
+  ]
   writeJSON(KEY, next)
   return next
 }
@@ -231,9 +231,13 @@ export function findMotionPreset(id: string | undefined): MotionPreset | undefin
  * 每段按累计时长偏移；第 2 段起丢掉它的 t=0「预备/起手」帧，让上一段末帧 smoothstep 平滑过渡到下一段动作
  * （不硬切）。整条 loop=true（在时间窗内循环整套连招）。单个 id == 单动作。无有效预设返回 null。
  * 解析链路完全复用 motionClip：把它写进 character.motionClip 引用的 customMotions / 或由 CharacterObject 合成。
+ * resolve 默认只查内置预设；调用方可传入兼查自定义/导入动作的解析器，让导入片段也能进连招。
  */
-export function concatMotionPresets(ids: string[] | undefined): PoseClip | null {
-  const presets = (ids ?? []).map(findMotionPreset).filter((p): p is MotionPreset => !!p)
+export function concatMotionPresets(
+  ids: string[] | undefined,
+  resolve: (id: string) => PoseClip | undefined = findMotionPreset,
+): PoseClip | null {
+  const presets = (ids ?? []).map(resolve).filter((p): p is PoseClip => !!p)
   if (presets.length === 0) return null
   const keyframes: PoseKeyframe[] = []
   let offset = 0
@@ -241,7 +245,7 @@ export function concatMotionPresets(ids: string[] | undefined): PoseClip | null
     const p = presets[i]
     for (const kf of p.keyframes) {
       if (i > 0 && kf.t <= 1e-6) continue // 丢预备帧 → 跨段平滑过渡，不在切点硬跳
-      keyframes.push({ t: offset + kf.t, pose: kf.pose })
+      keyframes.push({ ...kf, t: offset + kf.t })
     }
     offset += Math.max(0.1, p.durationSeconds)
   }
@@ -120,6 +120,22 @@ export type RigState = {
   scaleY: number     // 根 y 缩放（内容空间 → 父级空间）
 }
 
+/** 规范系 basis（根内容空间）：left 来自肩线，up=+Y，forward=left×up；缺肩时为单位四元数。调用前需 updateMatrixWorld */
+export function computeRigBasis(root: THREE.Object3D, roles: Partial<Record<JointRole, THREE.Object3D>>): THREE.Quaternion {
+  const rootInv = root.matrixWorld.clone().invert()
+  const localPos = (o: THREE.Object3D) =>
+    new THREE.Vector3().setFromMatrixPosition(new THREE.Matrix4().multiplyMatrices(rootInv, o.matrixWorld))
+  if (!roles.shoulderL || !roles.shoulderR) return new THREE.Quaternion()
+  const left = localPos(roles.shoulderL).sub(localPos(roles.shoulderR))
+  left.y = 0
+  if (left.lengthSq() <= 1e-8) return new THREE.Quaternion()
+  left.normalize()
+  const up = new THREE.Vector3(0, 1, 0)
+  const forward = new THREE.Vector3().crossVectors(left, up).normalize()
+  const left2 = new THREE.Vector3().crossVectors(up, forward).normalize()
+  return new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(left2, up, forward))
+}
+
 /** 在根节点尚未挂入场景树时调用（useMemo 内），以根内容空间完成标定 */
 export function calibrateRig(root: THREE.Object3D): RigState {
   root.updateMatrixWorld(true)
@@ -128,19 +144,7 @@ export function calibrateRig(root: THREE.Object3D): RigState {
   const localPos = (o: THREE.Object3D) =>
     new THREE.Vector3().setFromMatrixPosition(new THREE.Matrix4().multiplyMatrices(rootInv, o.matrixWorld))
 
-  // 规范系 basis：left 来自肩线，up=+Y，forward=left×up
-  let basis = new THREE.Quaternion()
-  if (roles.shoulderL && roles.shoulderR) {
-    const left = localPos(roles.shoulderL).sub(localPos(roles.shoulderR))
-    left.y = 0
-    if (left.lengthSq() > 1e-8) {
-      left.normalize()
-      const up = new THREE.Vector3(0, 1, 0)
-      const forward = new THREE.Vector3().crossVectors(left, up).normalize()
-      const left2 = new THREE.Vector3().crossVectors(up, forward).normalize()
-      basis = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(left2, up, forward))
-    }
-  }
+  const basis = computeRigBasis(root, roles)
 
   const rootWorldQuatInv = root.getWorldQuaternion(new THREE.Quaternion()).invert()
   const joints: Partial<Record<JointRole, JointCalib>> = {}
@@ -2,7 +2,8 @@
 // 播放 = 在关键帧间逐关节逐轴线性插值 → applyPoseToRig（对任意骨骼局部轴都正确，无裸四元数坑）。
 import type { PoseMap, JointRole, Euler3 } from './pose'
 
-export type PoseKeyframe = { t: number; pose: PoseMap }
+/** interpolation 决定离开该帧的区间：缺省 smoothstep 落帧；'linear' 给逐帧采样的动捕/导入动作（密集帧间再缓动会顿挫）。 */
+export type PoseKeyframe = { t: number; pose: PoseMap; interpolation?: 'smooth' | 'linear' }
 export type PoseClip = {
   id: string
   name: string
@@ -32,7 +33,7 @@ export function samplePoseClipAt(clip: PoseClip, t: number): PoseMap {
       const kRaw = b.t === a.t ? 0 : (tt - a.t) / (b.t - a.t)
       // smoothstep ease-in-out：关键帧处速度归零，姿势"落帧"更自然，去掉线性插值的匀速机械感
       // （跳舞/动作戏的关键帧动画尤其受益）。中点 k=0.5 → 0.5 不变，故既有中点用例不破。
-      const k = kRaw * kRaw * (3 - 2 * kRaw)
+      const k = a.interpolation === 'linear' ? kRaw : kRaw * kRaw * (3 - 2 * kRaw)
       const roles = new Set<JointRole>([
         ...(a.pose ? (Object.keys(a.pose) as JointRole[]) : []),
         ...(b.pose ? (Object.keys(b.pose) as JointRole[]) : []),
@@ -3,11 +3,13 @@ import type { GroundPath } from './groundPath'
 import { pathLength, samplePathAt } from './groundPath'
 import { snapPositionToGround } from './gaussianGround'
 import { resolveTrajectoryMotion } from './trajectoryMotion'
+import { easeSegment, isKeyframeInterpolation, normalizeBezierTangents, type BezierTangents, type KeyframeInterpolation } from './keyframeEasing'
 
 export type PropertyName = 'position' | 'rotation' | 'scale' | 'uniformScale' | 'pose' | 'fovDeg' | 'lookAt'
 export type PoseValue = Record<string, Vec3>
 export type KeyframeValue = number | Vec3 | PoseValue
-export type PropertyKeyframe = { time: number; value: KeyframeValue }
+/** interpolation shapes the segment leaving this keyframe; absent means linear (pre-easing data). */
+export type PropertyKeyframe = { time: number; value: KeyframeValue; interpolation?: KeyframeInterpolation; bezier?: BezierTangents }
 export type PropertyTrack = {
   id: string
   objectId: string
@@ -74,7 +76,15 @@ export function setKeyframe(timelineValue: PropertyTimeline | undefined, scene:
   if (value === undefined) return timeline
   const id = trackId(objectId, property, component)
   const existing = timeline.tracks.find((track) => track.id === id)
-  const keyframe = { time: Math.max(0, Math.min(timeline.duration, time)), value }
+  const keyTime = Math.max(0, Math.min(timeline.duration, time))
+  // Re-keying an existing keyframe keeps its easing so auto-key edits don't reset a shaped move.
+  const replaced = existing?.keyframes.find((item) => Math.abs(item.time - keyTime) <= 0.001)
+  const keyframe: PropertyKeyframe = {
+    time: keyTime,
+    value,
+    ...(replaced?.interpolation ? { interpolation: replaced.interpolation } : {}),
+    ...(replaced?.bezier ? { bezier: replaced.bezier } : {}),
+  }
   const keyframes = [...(existing?.keyframes ?? []).filter((item) => Math.abs(item.time - keyframe.time) > 0.001), keyframe].sort((a, b) => a.time - b.time)
   const track: PropertyTrack = { id, objectId, objectKind, property, component, keyframes }
   return { ...timeline, tracks: [...timeline.tracks.filter((item) => item.id !== id), track] }
@@ -88,6 +98,28 @@ export function removeKeyframe(timelineValue: PropertyTimeline | undefined, obje
   return { ...timeline, tracks: timeline.tracks.map((track) => ids.has(track.id) ? { ...track, keyframes: track.keyframes.filter((item) => Math.abs(item.time - time) > 0.02) } : track) }
 }
 
+/** Sets the easing of the keyframe(s) at `time` on every track of the property (all XYZ components). */
+export function setKeyframeInterpolation(
+  timelineValue: PropertyTimeline | undefined,
+  objectId: string,
+  property: PropertyName,
+  time: number,
+  interpolation: KeyframeInterpolation,
+  bezier?: BezierTangents,
+): PropertyTimeline {
+  const timeline = ensurePropertyTimeline(timelineValue)
+  const ids = new Set([trackId(objectId, property), trackId(objectId, property, 0), trackId(objectId, property, 1), trackId(objectId, property, 2)])
+  const apply = (keyframe: PropertyKeyframe): PropertyKeyframe => {
+    if (Math.abs(keyframe.time - time) > 0.02) return keyframe
+    const { interpolation: _previous, bezier: _previousBezier, ...rest } = keyframe
+    if (interpolation === 'linear') return rest
+    return interpolation === 'bezier'
+      ? { ...rest, interpolation, bezier: normalizeBezierTangents(bezier ?? keyframe.bezier) }
+      : { ...rest, interpolation }
+  }
+  return { ...timeline, tracks: timeline.tracks.map((track) => ids.has(track.id) ? { ...track, keyframes: track.keyframes.map(apply) } : track) }
+}
+
 export function setPropertyKeyframes(timelineValue: PropertyTimeline | undefined, scene: DirectorScene, objectKind: 'character' | 'camera', objectId: string, property: PropertyName, time: number): PropertyTimeline {
   if (!VECTOR_PROPERTIES.has(property)) return setKeyframe(timelineValue, scene, objectKind, objectId, property, time)
   let timeline = ensurePropertyTimeline(timelineValue)
@@ -203,7 +235,7 @@ const mixRotation = (a: KeyframeValue, b: KeyframeValue, amount: number, period:
   return [mixAngle(a[0], b[0], amount, period), mixAngle(a[1], b[1], amount, period), mixAngle(a[2], b[2], amount, period)]
 }
 
-function sampleTrack(track: PropertyTrack, time: number): KeyframeValue | undefined {
+export function sampleTrack(track: PropertyTrack, time: number): KeyframeValue | undefined {
   const keys = track.keyframes
   if (!keys.length) return undefined
   if (time <= keys[0].time) return keys[0].value
@@ -212,7 +244,8 @@ function sampleTrack(track: PropertyTrack, time: number): KeyframeValue | undefi
     const next = keys[index]
     if (time > next.time) continue
     const previous = keys[index - 1]
-    const amount = (time - previous.time) / Math.max(0.0001, next.time - previous.time)
+    const linear = (time - previous.time) / Math.max(0.0001, next.time - previous.time)
+    const amount = isKeyframeInterpolation(previous.interpolation) ? easeSegment(linear, previous.interpolation, previous.bezier) : linear
     if (track.property === 'rotation') {
       const period = track.objectKind === 'camera' ? 360 : Math.PI * 2
       if (typeof previous.value === 'number' && typeof next.value === 'number') return mixAngle(previous.value, next.value, amount, period)
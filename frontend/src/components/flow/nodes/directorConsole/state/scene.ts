@@ -1,5 +1,6 @@
 import type { DirectorConsoleData, CharacterObj, CameraObj, AspectKey, Vec3 } from '../types'
 import { getLibraryItem } from '../assets'
+import type { PoseClip } from './poseClip'
 
 const ALPHA = (i: number) => String.fromCharCode(65 + i) // 0 -> A
 
@@ -103,6 +104,17 @@ export function removeObject(d: DirectorConsoleData, id: string): DirectorConsol
   return next
 }
 
+/** 把动作写进场景级 customMotions（同 id 覆盖），随节点数据保存，换机器/出片也能解析 */
+export function upsertSceneMotion(d: DirectorConsoleData, clip: PoseClip): DirectorConsoleData {
+  const rest = (d.scene.customMotions ?? []).filter((m) => m.id !== clip.id)
+  return { ...d, scene: { ...d.scene, customMotions: [...rest, clip] } }
+}
+
+/** 套用场景预设：替换场景与视角，保留节点自身的标签与运行态字段 */
+export function applyScenePreset(d: DirectorConsoleData, preset: Pick<DirectorConsoleData, 'scene' | 'activeViewpoint'>): DirectorConsoleData {
+  return { ...d, scene: preset.scene, activeViewpoint: preset.activeViewpoint ?? d.activeViewpoint, selectedObjectId: undefined }
+}
+
 export function setAspect(d: DirectorConsoleData, aspect: AspectKey): DirectorConsoleData {
   return { ...d, scene: { ...d.scene, aspect } }
 }
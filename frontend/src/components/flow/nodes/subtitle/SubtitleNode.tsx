@@ -0,0 +1,717 @@
+import React from 'react';
+import { Handle, Position, useStore, type ReactFlowState, type Node } from '@xyflow/react';
+import { burnSubtitles, transcribeSubtitles } from '@/services/subtitlesApi';
+import { useProjectContentStore } from '@/stores/projectContentStore';
+import { useLocaleText } from '@/utils/localeText';
+import RunCreditBadge from '../RunCreditBadge';
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  buildSrt,
+  buildVtt,
+  formatTimecode,
+  mergeWithNext,
+  parseSubtitles,
+  parseTimecode,
+  retimeSegment,
+  shiftSegments,
+  splitSegment,
+  subtitleFileName,
+  type SubtitleLanguage,
+  type SubtitleSegment,
+  type SubtitleStyle,
+} from './subtitleFormat';
+
+type Props = {
+  id: string;
+  data: {
+    label?: string;
+    status?: 'idle' | 'transcribing' | 'ready' | 'error';
+    error?: string;
+    language?: SubtitleLanguage;
+    segments?: SubtitleSegment[];
+    style?: Partial<SubtitleStyle>;
+    /** 最近一次识别用的素材地址 */
+    sourceUrl?: string;
+    burnStatus?: 'idle' | 'burning' | 'ready' | 'error';
+    burnError?: string;
+    /** 烧录后的成片，作为 video 输出给下游 */
+    videoUrl?: string;
+    creditsPerCall?: number;
+  };
+  selected?: boolean;
+};
+
+const DEFAULT_CREDITS_PER_CALL = 20;
+const BURN_CREDITS = 30;
+
+const LANGUAGE_OPTIONS: Array<{ value: SubtitleLanguage; zh: string; en: string }> = [
+  { value: 'zh', zh: '中文', en: 'Chinese' },
+  { value: 'en', zh: '英文', en: 'English' },
+  { value: 'mixed', zh: '中英混合', en: 'Mixed' },
+];
+
+const sanitizeMediaUrl = (raw?: unknown): string | undefined => {
+  if (!raw || typeof raw !== 'string') return undefined;
+  const trimmed = raw.trim();
+  return trimmed.length ? trimmed : undefined;
+};
+
+// 上游视频 / 音频节点可能携带的素材字段（各节点写法不一，按候选顺序读取）
+type UpstreamMediaData = {
+  videoUrl?: unknown;
+  video_url?: unknown;
+  videoSourceUrl?: unknown;
+  video_source_url?: unknown;
+  video?: unknown;
+  output?: { video_url?: unknown; url?: unknown } | Array<{ video_url?: unknown } | undefined>;
+  raw?: { output?: { video_url?: unknown }; video_url?: unknown };
+  history?: Array<{ videoUrl?: unknown } | undefined>;
+  videoSource?: { url?: unknown };
+  audioUrl?: unknown;
+  audioUrls?: unknown;
+};
+
+const readMediaData = (node: Node): UpstreamMediaData => (node.data ?? {}) as UpstreamMediaData;
+
+const resolveVideoUrlFromNode = (node?: Node | null): string | undefined => {
+  if (!node) return undefined;
+  const data = readMediaData(node);
+  const output = Array.isArray(data.output) ? undefined : data.output;
+  const outputList = Array.isArray(data.output) ? data.output : undefined;
+  const candidates = [
+    data.videoUrl,
+    data.video_url,
+    data.videoSourceUrl,
+    data.video_source_url,
+    data.video,
+    output?.video_url,
+    outputList?.[0]?.video_url,
+    output?.url,
+    data.raw?.output?.video_url,
+    data.raw?.video_url,
+    Array.isArray(data.history) ? data.history[0]?.videoUrl : undefined,
+    data.videoSource?.url,
+  ];
+  for (const c of candidates) {
+    const s = sanitizeMediaUrl(c);
+    if (s) return s;
+  }
+  return undefined;
+};
+
+const resolveAudioUrlFromNode = (node?: Node | null): string | undefined => {
+  if (!node) return undefined;
+  const data = readMediaData(node);
+  const direct = sanitizeMediaUrl(data.audioUrl);
+  if (direct) return direct;
+  if (Array.isArray(data.audioUrls)) {
+    for (const value of data.audioUrls) {
+      const s = sanitizeMediaUrl(value);
+      if (s) return s;
+    }
+  }
+  return undefined;
+};
+
+const downloadText = (content: string, fileName: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const inputStyle: React.CSSProperties = {
+  fontSize: 12,
+  padding: '3px 6px',
+  borderRadius: 4,
+  border: '1px solid #d1d5db',
+  background: '#fff',
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  fontSize: 11,
+  padding: '2px 8px',
+  background: '#fff',
+  color: '#111827',
+  borderRadius: 6,
+  border: '1px solid #d1d5db',
+  cursor: 'pointer',
+};
+
+/** 时间码输入：本地草稿，失焦/回车时解析提交，非法输入回退 */
+function TimecodeInput({ value, onCommit }: { value: number; onCommit: (seconds: number) => void }) {
+  const [draft, setDraft] = React.useState(() => formatTimecode(value));
+  React.useEffect(() => setDraft(formatTimecode(value)), [value]);
+  const commit = () => {
+    const parsed = parseTimecode(draft);
+    if (parsed === null) setDraft(formatTimecode(value));
+    else if (parsed !== value) onCommit(parsed);
+  };
+  return (
+    <input
+      className='nodrag nopan'
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+      }}
+      style={{ ...inputStyle, width: 78, fontFamily: 'ui-monospace, monospace', fontSize: 11 }}
+    />
+  );
+}
+
+function SubtitleNodeInner({ id, data, selected = false }: Props) {
+  const { lt } = useLocaleText();
+  const projectId = useProjectContentStore((s) => s.projectId);
+  const [hoverHandle, setHoverHandle] = React.useState<string | null>(null);
+  const videoRef = React.useRef<HTMLVideoElement | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement | null>(null);
+  const caretRef = React.useRef<{ index: number; caret: number } | null>(null);
+
+  const sourceVideoUrl = useStore(
+    React.useCallback(
+      (state: ReactFlowState) => {
+        const edge = state.edges.find((e) => e.target === id && e.targetHandle === 'video');
+        return edge ? resolveVideoUrlFromNode(state.nodes.find((n) => n.id === edge.source)) : undefined;
+      },
+      [id]
+    )
+  );
+  const sourceAudioUrl = useStore(
+    React.useCallback(
+      (state: ReactFlowState) => {
+        const edge = state.edges.find((e) => e.target === id && e.targetHandle === 'audio');
+        return edge ? resolveAudioUrlFromNode(state.nodes.find((n) => n.id === edge.source)) : undefined;
+      },
+      [id]
+    )
+  );
+  const hasConnection = useStore(
+    React.useCallback(
+      (state: ReactFlowState) =>
+        state.edges.some((e) => e.target === id && (e.targetHandle === 'video' || e.targetHandle === 'audio')),
+      [id]
+    )
+  );
+  // 有视频优先识别视频音轨；只接了音频时只能识别、导出，不能烧录
+  const mediaUrl = sourceVideoUrl || sourceAudioUrl;
+
+  const status = data.status ?? 'idle';
+  const burnStatus = data.burnStatus ?? 'idle';
+  const language: SubtitleLanguage = data.language ?? 'zh';
+  const segments = React.useMemo(() => (Array.isArray(data.segments) ? data.segments : []), [data.segments]);
+  const style: SubtitleStyle = React.useMemo(() => ({ ...DEFAULT_SUBTITLE_STYLE, ...(data.style ?? {}) }), [data.style]);
+  const runCredits =
+    typeof data.creditsPerCall === 'number' && data.creditsPerCall > 0
+      ? data.creditsPerCall
+      : DEFAULT_CREDITS_PER_CALL;
+
+  const borderColor = selected ? '#2563eb' : '#e5e7eb';
+  const boxShadow = selected ? '0 0 0 2px rgba(37,99,235,0.12)' : '0 1px 2px rgba(0,0,0,0.04)';
+
+  const updateNodeData = React.useCallback(
+    (patch: Record<string, unknown>) => {
+      window.dispatchEvent(new CustomEvent('flow:updateNodeData', { detail: { id, patch } }));
+    },
+    [id]
+  );
+
+  // 分段改动后旧的烧录成片就过期了，清掉输出避免下游拿到不一致的视频
+  const setSegments = React.useCallback(
+    (next: SubtitleSegment[]) => {
+      updateNodeData({ segments: next, videoUrl: undefined, burnStatus: 'idle', burnError: undefined });
+    },
+    [updateNodeData]
+  );
+
+  const handleTranscribe = React.useCallback(async () => {
+    if (!mediaUrl) {
+      updateNodeData({
+        status: 'error',
+        error: lt('没有可识别的音视频输入，请先连接视频或音频节点', 'No media input. Please connect a video or audio node first'),
+      });
+      return;
+    }
+    if (status === 'transcribing') return;
+    updateNodeData({ status: 'transcribing', error: undefined });
+    try {
+      const result = await transcribeSubtitles({ mediaUrl, language, projectId });
+      if (!result.segments.length) {
+        throw new Error(lt('没有识别到语音内容', 'No speech detected'));
+      }
+      updateNodeData({
+        status: 'ready',
+        error: undefined,
+        sourceUrl: mediaUrl,
+        segments: result.segments,
+        videoUrl: undefined,
+        burnStatus: 'idle',
+        burnError: undefined,
+      });
+    } catch (err) {
+      updateNodeData({ status: 'error', error: err instanceof Error ? err.message : lt('字幕识别失败', 'Transcription failed') });
+    }
+  }, [language, lt, mediaUrl, projectId, status, updateNodeData]);
+
+  const handleBurn = React.useCallback(async () => {
+    if (!sourceVideoUrl || !segments.length || burnStatus === 'burning') return;
+    updateNodeData({ burnStatus: 'burning', burnError: undefined });
+    try {
+      const result = await burnSubtitles({ videoUrl: sourceVideoUrl, segments, style, projectId });
+      updateNodeData({ burnStatus: 'ready', burnError: undefined, videoUrl: result.videoUrl });
+    } catch (err) {
+      updateNodeData({ burnStatus: 'error', burnError: err instanceof Error ? err.message : lt('字幕烧录失败', 'Burn-in failed') });
+    }
+  }, [burnStatus, lt, projectId, segments, sourceVideoUrl, style, updateNodeData]);
+
+  React.useEffect(() => {
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent<{ id?: string }>).detail;
+      if (!detail || detail.id !== id) return;
+      void handleTranscribe();
+    };
+    window.addEventListener('flow:run-node', handler as EventListener);
+    return () => window.removeEventListener('flow:run-node', handler as EventListener);
+  }, [handleTranscribe, id]);
+
+  // 预览：原视频挂 VTT 轨道实时看字幕；烧录完成后直接播成片
+  const vttUrl = React.useMemo(
+    () => (segments.length ? URL.createObjectURL(new Blob([buildVtt(segments)], { type: 'text/vtt' })) : undefined),
+    [segments]
+  );
+  React.useEffect(() => () => {
+    if (vttUrl) URL.revokeObjectURL(vttUrl);
+  }, [vttUrl]);
+  const previewVideoUrl = data.videoUrl || sourceVideoUrl;
+  const showTrack = Boolean(vttUrl && !data.videoUrl);
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (video) video.currentTime = seconds;
+  };
+
+  const updateText = (index: number, text: string) => {
+    const next = segments.slice();
+    next[index] = { ...next[index], text };
+    setSegments(next);
+  };
+
+  const addSegment = () => {
+    const last = segments[segments.length - 1];
+    const start = last ? last.end : 0;
+    setSegments([...segments, { start, end: start + 2, text: lt('新字幕', 'New caption') }]);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = parseSubtitles(await file.text());
+      if (!parsed.length) throw new Error(lt('文件中没有可用的字幕', 'No cues found in file'));
+      setSegments(parsed);
+      updateNodeData({ status: 'ready', error: undefined });
+    } catch (err) {
+      updateNodeData({ status: 'error', error: err instanceof Error ? err.message : lt('字幕导入失败', 'Import failed') });
+    }
+  };
+
+  const patchStyle = (patch: Partial<SubtitleStyle>) => {
+    updateNodeData({ style: { ...style, ...patch }, videoUrl: undefined, burnStatus: 'idle', burnError: undefined });
+  };
+
+  const canTranscribe = Boolean(mediaUrl) && status !== 'transcribing';
+  const canBurn = Boolean(sourceVideoUrl) && segments.length > 0 && burnStatus !== 'burning';
+
+  const renderHandleTooltip = (key: string, label: string, top: string, side: 'left' | 'right') =>
+    hoverHandle === key && (
+      <div
+        className='flow-tooltip'
+        style={
+          side === 'left'
+            ? { left: -8, top, transform: 'translate(-100%, -50%)' }
+            : { right: -8, top, transform: 'translate(100%, -50%)' }
+        }
+      >
+        {label}
+      </div>
+    );
+
+  return (
+    <div
+      style={{
+        width: 380,
+        padding: 10,
+        background: '#fff',
+        border: `1px solid ${borderColor}`,
+        borderRadius: 8,
+        boxShadow,
+        transition: 'border-color 0.15s ease, box-shadow 0.15s ease',
+        position: 'relative',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
+        <div style={{ fontWeight: 600 }}>{lt('字幕', 'Subtitles')}</div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <select
+            className='nodrag nopan'
+            value={language}
+            onChange={(e) => updateNodeData({ language: e.target.value as SubtitleLanguage })}
+            style={inputStyle}
+          >
+            {LANGUAGE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {lt(option.zh, option.en)}
+              </option>
+            ))}
+          </select>
+          <button
+            className='run-btn-with-credit'
+            onClick={handleTranscribe}
+            disabled={!canTranscribe}
+            title={
+              status === 'transcribing'
+                ? lt('识别中...', 'Transcribing...')
+                : `${lt('本次消耗', 'Cost')}: ${runCredits} ${lt('积分', 'credits')}`
+            }
+            style={{
+              fontSize: 12,
+              padding: '4px 10px',
+              minWidth: 78,
+              background: canTranscribe ? '#111827' : '#e5e7eb',
+              color: '#fff',
+              borderRadius: 6,
+              border: 'none',
+              cursor: canTranscribe ? 'pointer' : 'not-allowed',
+              display: 'inline-flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: 6,
+            }}
+          >
+            {status === 'transcribing' ? (
+              <span className='run-text-trigger'>{lt('识别中...', 'Transcribing...')}</span>
+            ) : (
+              <>
+                <span className='run-text-trigger'>{segments.length ? lt('重新识别', 'Re-run') : lt('识别字幕', 'Transcribe')}</span>
+                <RunCreditBadge credits={runCredits} runButton />
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      <div
+        style={{
+          width: '100%',
+          height: 190,
+          background: '#111827',
+          borderRadius: 6,
+          border: '1px solid #eef0f2',
+          overflow: 'hidden',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+        }}
+      >
+        {previewVideoUrl ? (
+          <video
+            ref={videoRef}
+            key={previewVideoUrl}
+            src={previewVideoUrl}
+            style={{ width: '100%', height: '100%', objectFit: 'contain' }}
+            preload='metadata'
+            controls
+          >
+            {showTrack && <track key={vttUrl} kind='subtitles' src={vttUrl} srcLang={language === 'en' ? 'en' : 'zh'} label={lt('字幕', 'Subtitles')} default />}
+          </video>
+        ) : sourceAudioUrl ? (
+          <audio src={sourceAudioUrl} controls style={{ width: '92%' }} />
+        ) : (
+          <span style={{ fontSize: 12, color: '#9ca3af' }}>
+            {hasConnection
+              ? lt('等待音视频输入', 'Waiting for media input')
+              : lt('请连接视频或音频节点', 'Please connect a video or audio node')}
+          </span>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+        <span style={{ fontSize: 11, color: '#6b7280', marginRight: 'auto' }}>
+          {segments.length
+            ? lt(`${segments.length} 段字幕`, `${segments.length} captions`)
+            : lt('识别后可逐段编辑', 'Edit captions after transcription')}
+        </span>
+        <button type='button' className='nodrag nopan' style={smallButtonStyle} onClick={() => fileInputRef.current?.click()}>
+          {lt('导入', 'Import')}
+        </button>
+        <button
+          type='button'
+          className='nodrag nopan'
+          style={smallButtonStyle}
+          disabled={!segments.length}
+          onClick={() => downloadText(buildSrt(segments), subtitleFileName(data.label, 'srt'), 'application/x-subrip')}
+        >
+          SRT
+        </button>
+        <button
+          type='button'
+          className='nodrag nopan'
+          style={smallButtonStyle}
+          disabled={!segments.length}
+          onClick={() => downloadText(buildVtt(segments), subtitleFileName(data.label, 'vtt'), 'text/vtt')}
+        >
+          VTT
+        </button>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='.srt,.vtt,text/vtt,application/x-subrip'
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) void handleImport(file);
+          }}
+        />
+      </div>
+
+      {segments.length > 0 && (
+        <div
+          className='nodrag nopan nowheel'
+          style={{ maxHeight: 240, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 6, paddingRight: 2 }}
+        >
+          {segments.map((segment, index) => (
+            <div
+              key={`${index}-${segment.start}`}
+              style={{ border: '1px solid #eef0f2', borderRadius: 6, padding: 6, display: 'flex', flexDirection: 'column', gap: 4 }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                <button
+                  type='button'
+                  title={lt('跳到此处', 'Seek here')}
+                  onClick={() => seek(segment.start)}
+                  style={{ ...smallButtonStyle, padding: '1px 6px', color: '#6b7280' }}
+                >
+                  {index + 1}
+                </button>
+                <TimecodeInput value={segment.start} onCommit={(start) => setSegments(retimeSegment(segments, index, { start }))} />
+                <span style={{ fontSize: 11, color: '#9ca3af' }}>→</span>
+                <TimecodeInput value={segment.end} onCommit={(end) => setSegments(retimeSegment(segments, index, { end }))} />
+                <div style={{ marginLeft: 'auto', display: 'flex', gap: 4 }}>
+                  <button
+                    type='button'
+                    title={lt('在光标处拆分', 'Split at cursor')}
+                    style={{ ...smallButtonStyle, padding: '1px 6px' }}
+                    onClick={() => {
+                      const caret = caretRef.current?.index === index ? caretRef.current.caret : Math.floor(segment.text.length / 2);
+                      setSegments(splitSegment(segments, index, caret));
+                    }}
+                  >
+                    {lt('拆分', 'Split')}
+                  </button>
+                  <button
+                    type='button'
+                    title={lt('与下一段合并', 'Merge with next')}
+                    disabled={index === segments.length - 1}
+                    style={{ ...smallButtonStyle, padding: '1px 6px' }}
+                    onClick={() => setSegments(mergeWithNext(segments, index))}
+                  >
+                    {lt('合并', 'Merge')}
+                  </button>
+                  <button
+                    type='button'
+                    title={lt('删除', 'Delete')}
+                    style={{ ...smallButtonStyle, padding: '1px 6px', color: '#ef4444' }}
+                    onClick={() => setSegments(segments.filter((_, i) => i !== index))}
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+              <textarea
+                value={segment.text}
+                rows={Math.min(3, segment.text.split('\n').length)}
+                onChange={(e) => updateText(index, e.target.value)}
+                onSelect={(e) => {
+                  caretRef.current = { index, caret: (e.target as HTMLTextAreaElement).selectionStart };
+                }}
+                style={{ ...inputStyle, width: '100%', resize: 'vertical', lineHeight: 1.4, boxSizing: 'border-box' }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {segments.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <button type='button' className='nodrag nopan' style={smallButtonStyle} onClick={addSegment}>
+            {lt('+ 添加一段', '+ Add caption')}
+          </button>
+          <span style={{ fontSize: 11, color: '#6b7280', marginLeft: 'auto' }}>{lt('整体平移', 'Shift all')}</span>
+          <button type='button' className='nodrag nopan' style={smallButtonStyle} onClick={() => setSegments(shiftSegments(segments, -0.1))}>
+            −0.1s
+          </button>
+          <button type='button' className='nodrag nopan' style={smallButtonStyle} onClick={() => setSegments(shiftSegments(segments, 0.1))}>
+            +0.1s
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: 6, fontSize: 11, color: '#374151' }}>
+        <label>
+          {lt('字号(%)', 'Size(%)')}
+          <input
+            type='number'
+            className='nodrag nopan'
+            min={2}
+            max={12}
+            step={0.5}
+            value={style.fontSizePercent}
+            onChange={(e) => {
+              const val = Number(e.target.value);
+              if (Number.isFinite(val) && val >= 2 && val <= 12) patchStyle({ fontSizePercent: val });
+            }}
+            style={{ ...inputStyle, marginTop: 4, width: '100%', boxSizing: 'border-box' }}
+          />
+        </label>
+        <label>
+          {lt('文字颜色', 'Text color')}
+          <input
+            type='color'
+            className='nodrag nopan'
+            value={style.color}
+            onChange={(e) => patchStyle({ color: e.target.value.toUpperCase() })}
+            style={{ marginTop: 4, width: '100%', height: 26, padding: 0, border: '1px solid #d1d5db', borderRadius: 4 }}
+          />
+        </label>
+        <label>
+          {lt('描边颜色', 'Outline')}
+          <input
+            type='color'
+            className='nodrag nopan'
+            value={style.outlineColor}
+            disabled={style.background}
+            onChange={(e) => patchStyle({ outlineColor: e.target.value.toUpperCase() })}
+            style={{ marginTop: 4, width: '100%', height: 26, padding: 0, border: '1px solid #d1d5db', borderRadius: 4 }}
+          />
+        </label>
+        <label>
+          {lt('位置', 'Position')}
+          <select
+            className='nodrag nopan'
+            value={style.position}
+            onChange={(e) => patchStyle({ position: e.target.value === 'top' ? 'top' : 'bottom' })}
+            style={{ ...inputStyle, marginTop: 4, width: '100%' }}
+          >
+            <option value='bottom'>{lt('底部', 'Bottom')}</option>
+            <option value='top'>{lt('顶部', 'Top')}</option>
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4, marginTop: 16 }}>
+          <input type='checkbox' className='nodrag nopan' checked={style.bold} onChange={(e) => patchStyle({ bold: e.target.checked })} />
+          {lt('加粗', 'Bold')}
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4, marginTop: 16 }}>
+          <input
+            type='checkbox'
+            className='nodrag nopan'
+            checked={style.background}
+            onChange={(e) => patchStyle({ background: e.target.checked })}
+          />
+          {lt('底框', 'Box')}
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <button
+          type='button'
+          className='nodrag nopan'
+          onClick={handleBurn}
+          disabled={!canBurn}
+          title={
+            sourceVideoUrl
+              ? `${lt('本次消耗', 'Cost')}: ${BURN_CREDITS} ${lt('积分', 'credits')}`
+              : lt('烧录需要连接视频输入', 'Burn-in needs a video input')
+          }
+          style={{
+            fontSize: 12,
+            padding: '4px 10px',
+            background: canBurn ? '#2563eb' : '#e5e7eb',
+            color: '#fff',
+            borderRadius: 6,
+            border: 'none',
+            cursor: canBurn ? 'pointer' : 'not-allowed',
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 6,
+          }}
+        >
+          {burnStatus === 'burning' ? (
+            lt('烧录中...', 'Burning...')
+          ) : (
+            <>
+              {lt('烧录进视频', 'Burn into video')}
+              <RunCreditBadge credits={BURN_CREDITS} runButton />
+            </>
+          )}
+        </button>
+        {data.videoUrl && (
+          <a
+            href={data.videoUrl}
+            download
+            target='_blank'
+            rel='noreferrer'
+            style={{ ...smallButtonStyle, textDecoration: 'none', marginLeft: 'auto' }}
+          >
+            {lt('下载成片', 'Download video')}
+          </a>
+        )}
+      </div>
+
+      {status === 'error' && data.error && (
+        <div style={{ fontSize: 12, color: '#ef4444', padding: '4px 8px', background: '#fef2f2', borderRadius: 4 }}>
+          {data.error}
+        </div>
+      )}
+      {burnStatus === 'error' && data.burnError && (
+        <div style={{ fontSize: 12, color: '#ef4444', padding: '4px 8px', background: '#fef2f2', borderRadius: 4 }}>
+          {data.burnError}
+        </div>
+      )}
+
+      <Handle
+        type='target'
+        position={Position.Left}
+        id='video'
+        style={{ top: '30%' }}
+        onMouseEnter={() => setHoverHandle('video')}
+        onMouseLeave={() => setHoverHandle(null)}
+      />
+      {renderHandleTooltip('video', 'video', '30%', 'left')}
+      <Handle
+        type='target'
+        position={Position.Left}
+        id='audio'
+        style={{ top: '50%' }}
+        onMouseEnter={() => setHoverHandle('audio')}
+        onMouseLeave={() => setHoverHandle(null)}
+      />
+      {renderHandleTooltip('audio', 'audio', '50%', 'left')}
+      <Handle
+        type='source'
+        position={Position.Right}
+        id='video'
+        style={{ top: '30%' }}
+        onMouseEnter={() => setHoverHandle('video-out')}
+        onMouseLeave={() => setHoverHandle(null)}
+      />
+      {renderHandleTooltip('video-out', 'video', '30%', 'right')}
+    </div>
+  );
+}
+
+export default React.memo(SubtitleNodeInner);
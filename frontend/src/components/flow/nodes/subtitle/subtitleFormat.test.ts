@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildSrt,
+  buildVtt,
+  formatTimecode,
+  mergeWithNext,
+  parseSubtitles,
+  parseTimecode,
+  retimeSegment,
+  shiftSegments,
+  splitSegment,
+  subtitleFileName,
+} from './subtitleFormat.ts';
+
+const segments = [
+  { start: 0.5, end: 2, text: '你好' },
+  { start: 2, end: 3.25, text: 'hello\nworld' },
+];
+
+test('timecodes round-trip between display and input forms', () => {
+  assert.equal(formatTimecode(62.5), '01:02.500');
+  assert.equal(formatTimecode(3723.4567), '1:02:03.457');
+  assert.equal(parseTimecode('01:02.500'), 62.5);
+  assert.equal(parseTimecode('1:02:03,457'), 3723.457);
+  assert.equal(parseTimecode('4.2'), 4.2);
+  assert.equal(parseTimecode('1:2:3:4'), null);
+  assert.equal(parseTimecode('abc'), null);
+});
+
+test('SRT and VTT output matches the server format', () => {
+  assert.equal(
+    buildSrt(segments),
+    '1\n00:00:00,500 --> 00:00:02,000\n你好\n\n2\n00:00:02,000 --> 00:00:03,250\nhello\nworld\n',
+  );
+  assert.equal(
+    buildVtt(segments),
+    'WEBVTT\n\n00:00:00.500 --> 00:00:02.000\n你好\n\n00:00:02.000 --> 00:00:03.250\nhello\nworld\n',
+  );
+});
+
+test('exported SRT and VTT import back to the same segments', () => {
+  assert.deepEqual(parseSubtitles(buildSrt(segments)), segments);
+  assert.deepEqual(parseSubtitles(buildVtt(segments)), segments);
+  const vtt = '\uFEFFWEBVTT\r\n\r\nNOTE 备注\r\n\r\ncue-1\r\n00:01.000 --> 00:02.000 align:start\r\n第一句\r\n';
+  assert.deepEqual(parseSubtitles(vtt), [{ start: 1, end: 2, text: '第一句' }]);
+});
+
+test('retiming keeps a minimum duration and re-sorts', () => {
+  const next = retimeSegment(segments, 1, { start: 0.1, end: 0 });
+  assert.deepEqual(next[0], { start: 0.1, end: 0.3, text: 'hello\nworld' });
+  assert.equal(next[1].text, '你好');
+});
+
+test('split divides time by text length and merge joins it back', () => {
+  const source = [{ start: 0, end: 4, text: '第一句第二句' }];
+  const split = splitSegment(source, 0, 3);
+  assert.deepEqual(split, [
+    { start: 0, end: 2, text: '第一句' },
+    { start: 2, end: 4, text: '第二句' },
+  ]);
+  assert.deepEqual(mergeWithNext(split, 0), source);
+  assert.equal(splitSegment(source, 0, 0), source);
+  assert.equal(mergeWithNext([{ start: 0, end: 1, text: 'hello' }, { start: 1, end: 2, text: 'world' }], 0)[0].text, 'hello world');
+});
+
+test('shifting clamps at zero and drops cues pushed before the start', () => {
+  assert.deepEqual(shiftSegments(segments, -1), [
+    { start: 0, end: 1, text: '你好' },
+    { start: 1, end: 2.25, text: 'hello\nworld' },
+  ]);
+  assert.equal(shiftSegments(segments, -3).length, 1);
+  assert.equal(subtitleFileName('我的 视频/字幕', 'srt'), '我的_视频_字幕.srt');
+  assert.equal(subtitleFileName(undefined, 'vtt'), 'subtitles.vtt');
+});
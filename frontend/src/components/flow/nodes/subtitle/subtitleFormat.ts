@@ -0,0 +1,176 @@
+// 字幕节点的纯函数：时间码显示/解析、SRT/VTT 生成与导入、分段编辑（拆分/合并/平移）。
+// 与后端 backend/src/subtitles/subtitle-format.ts 的 SRT/VTT 输出保持一致。
+
+export type SubtitleSegment = {
+  /** 秒 */
+  start: number
+  /** 秒 */
+  end: number
+  text: string
+}
+
+export type SubtitleLanguage = 'zh' | 'en' | 'mixed'
+
+export type SubtitleStyle = {
+  /** 字号，按视频高度的百分比 */
+  fontSizePercent: number
+  color: string
+  outlineColor: string
+  /** 描边粗细，按字号的百分比 */
+  outlinePercent: number
+  position: 'bottom' | 'top'
+  bold: boolean
+  background: boolean
+}
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontSizePercent: 5,
+  color: '#FFFFFF',
+  outlineColor: '#000000',
+  outlinePercent: 8,
+  position: 'bottom',
+  bold: false,
+  background: false,
+}
+
+export const MIN_SEGMENT_SECONDS = 0.2
+
+const pad = (value: number, width = 2) => String(value).padStart(width, '0')
+const roundMs = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+function splitSeconds(totalSeconds: number) {
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000))
+  return {
+    h: Math.floor(totalMs / 3_600_000),
+    m: Math.floor((totalMs % 3_600_000) / 60_000),
+    s: Math.floor((totalMs % 60_000) / 1000),
+    ms: totalMs % 1000,
+  }
+}
+
+/** 节点内编辑用的短时间码：不足 1 小时显示 mm:ss.mmm */
+export function formatTimecode(totalSeconds: number): string {
+  const { h, m, s, ms } = splitSeconds(totalSeconds)
+  const tail = `${pad(m)}:${pad(s)}.${pad(ms, 3)}`
+  return h > 0 ? `${h}:${tail}` : tail
+}
+
+/**
+ * 解析用户输入的时间码：支持 ss(.mmm)、mm:ss(.mmm)、hh:mm:ss(.mmm)，小数点也可写成逗号（SRT 习惯）。
+ * 非法返回 null。
+ */
+export function parseTimecode(raw: string): number | null {
+  const value = raw.trim().replace(',', '.')
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value)) return null
+  const parts = value.split(':')
+  const seconds = Number(parts.pop())
+  let total = seconds
+  let unit = 60
+  while (parts.length) {
+    total += Number(parts.pop()) * unit
+    unit *= 60
+  }
+  return Number.isFinite(total) ? roundMs(total) : null
+}
+
+export function buildSrt(segments: SubtitleSegment[]): string {
+  const time = (seconds: number) => {
+    const { h, m, s, ms } = splitSeconds(seconds)
+    return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`
+  }
+  return segments.map((seg, i) => `${i + 1}\n${time(seg.start)} --> ${time(seg.end)}\n${seg.text}\n`).join('\n')
+}
+
+export function buildVtt(segments: SubtitleSegment[]): string {
+  const time = (seconds: number) => {
+    const { h, m, s, ms } = splitSeconds(seconds)
+    return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`
+  }
+  const cues = segments.map((seg) => `${time(seg.start)} --> ${time(seg.end)}\n${seg.text}\n`)
+  return ['WEBVTT\n', ...cues].join('\n')
+}
+
+const CUE_TIMING = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/
+
+/** 导入 SRT / VTT 文本（自动识别），忽略序号、NOTE/STYLE 块与 cue 设置 */
+export function parseSubtitles(content: string): SubtitleSegment[] {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)
+  const segments: SubtitleSegment[] = []
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line))
+    if (timingIndex < 0) continue
+    const match = CUE_TIMING.exec(lines[timingIndex])
+    const start = match ? parseTimecode(match[1]) : null
+    const end = match ? parseTimecode(match[2]) : null
+    const text = lines.slice(timingIndex + 1).join('\n').trim()
+    if (start === null || end === null || !text) continue
+    segments.push({ start, end: Math.max(end, start + MIN_SEGMENT_SECONDS), text })
+  }
+  return sortSegments(segments)
+}
+
+export function sortSegments(segments: SubtitleSegment[]): SubtitleSegment[] {
+  return [...segments].sort((a, b) => a.start - b.start || a.end - b.end)
+}
+
+/** 改某段的起止时间：保证 end ≥ start + 最短时长，返回重新排序后的列表 */
+export function retimeSegment(
+  segments: SubtitleSegment[],
+  index: number,
+  patch: Partial<Pick<SubtitleSegment, 'start' | 'end'>>,
+): SubtitleSegment[] {
+  const current = segments[index]
+  if (!current) return segments
+  const start = roundMs(Math.max(0, patch.start ?? current.start))
+  const end = roundMs(Math.max(patch.end ?? current.end, start + MIN_SEGMENT_SECONDS))
+  const next = segments.slice()
+  next[index] = { ...current, start, end }
+  return sortSegments(next)
+}
+
+/** 在文本光标处把一段拆成两段，时间按字数比例切分 */
+export function splitSegment(segments: SubtitleSegment[], index: number, caret: number): SubtitleSegment[] {
+  const current = segments[index]
+  if (!current) return segments
+  const head = current.text.slice(0, caret).trim()
+  const tail = current.text.slice(caret).trim()
+  if (!head || !tail) return segments
+  const ratio = head.length / (head.length + tail.length)
+  const duration = current.end - current.start
+  if (duration < MIN_SEGMENT_SECONDS * 2) return segments
+  const offset = Math.min(duration - MIN_SEGMENT_SECONDS, Math.max(MIN_SEGMENT_SECONDS, duration * ratio))
+  const mid = roundMs(current.start + offset)
+  const next = segments.slice()
+  next.splice(index, 1, { start: current.start, end: mid, text: head }, { start: mid, end: current.end, text: tail })
+  return next
+}
+
+/** 与下一段合并；中文直接拼接，其他语言用空格分隔 */
+export function mergeWithNext(segments: SubtitleSegment[], index: number): SubtitleSegment[] {
+  const current = segments[index]
+  const following = segments[index + 1]
+  if (!current || !following) return segments
+  const joiner = /[\u3000-\u9fff\uff00-\uffef]$/.test(current.text) || /^[\u3000-\u9fff\uff00-\uffef]/.test(following.text) ? '' : ' '
+  const next = segments.slice()
+  next.splice(index, 2, {
+    start: current.start,
+    end: Math.max(current.end, following.end),
+    text: `${current.text}${joiner}${following.text}`,
+  })
+  return next
+}
+
+/** 整体平移（对齐音画偏移），平移后起点截到 0 秒，剩余不足最短时长的段丢弃 */
+export function shiftSegments(segments: SubtitleSegment[], offsetSeconds: number): SubtitleSegment[] {
+  return segments
+    .map((seg) => ({ ...seg, start: seg.start + offsetSeconds, end: seg.end + offsetSeconds }))
+    .filter((seg) => seg.end >= MIN_SEGMENT_SECONDS)
+    .map((seg) => ({ ...seg, start: Math.max(0, roundMs(seg.start)), end: roundMs(seg.end) }))
+}
+
+/** 下载文件名：节点标题去掉非法字符 */
+export function subtitleFileName(label: string | undefined, ext: 'srt' | 'vtt'): string {
+  const safe = (label || '').replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80) || 'subtitles'
+  return `${safe}.${ext}`
+}
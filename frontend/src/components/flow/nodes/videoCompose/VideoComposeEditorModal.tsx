@@ -13,11 +13,14 @@ import {
   Maximize2,
   Magnet,
   Trash2,
+  Monitor,
+  Server,
 } from "lucide-react";
 import { MP4Clip } from "@webav/av-cliper";
 import type { ComposeVideoSource } from "./useVideoCompose";
 import { useVideoCompose } from "./useVideoCompose";
 import type { ComposeAudioTrack } from "./composeVideosCore";
+import { submitServerComposeJob } from "@/services/videoComposeService";
 import { fetchClip } from "./reliableClipFetch";
 
 const US_PER_S = 1_000_000;
@@ -108,6 +111,18 @@ function PrimaryBtn({ disabled, onClick, children }: any) {
   );
 }
 
+export type ComposeRenderMode = "browser" | "server";
+
+const RENDER_MODE_STORAGE_KEY = "tanva.videoCompose.renderMode";
+
+function readRenderMode(): ComposeRenderMode {
+  try {
+    return localStorage.getItem(RENDER_MODE_STORAGE_KEY) === "server" ? "server" : "browser";
+  } catch {
+    return "browser";
+  }
+}
+
 const VDivider = () => (
   <div style={{ width: 1, height: 18, background: "#333", margin: "0 4px", flexShrink: 0 }} />
 );
@@ -146,6 +161,10 @@ export type VideoComposeEditorModalProps = {
   /** 上游音频节点的配音/BGM 轨，合成时从 0 时刻混入 */
   upstreamAudioTracks?: ComposeAudioTrack[];
   onComposeDone: (blob: Blob) => void;
+  /** 服务端渲染：任务提交成功后交给节点轮询（关闭编辑器/页面都不中断） */
+  onServerComposeSubmitted?: (taskId: string) => void;
+  projectId?: string | null;
+  nodeId?: string;
 };
 
 export function VideoComposeEditorModal({
@@ -154,6 +173,9 @@ export function VideoComposeEditorModal({
   upstreamVideos,
   upstreamAudioTracks,
   onComposeDone,
+  onServerComposeSubmitted,
+  projectId,
+  nodeId,
 }: VideoComposeEditorModalProps) {
   const canvasRef = React.useRef<HTMLCanvasElement>(null);
   const scrollRef = React.useRef<HTMLDivElement>(null);
@@ -190,6 +212,20 @@ export function VideoComposeEditorModal({
     durationUs: number;
   } | null>(null);
 
+  const [renderMode, setRenderMode] = React.useState<ComposeRenderMode>(readRenderMode);
+  const [serverSubmitting, setServerSubmitting] = React.useState(false);
+  const [serverError, setServerError] = React.useState<string | null>(null);
+  const serverRenderAvailable = Boolean(onServerComposeSubmitted);
+  const useServer = serverRenderAvailable && renderMode === "server";
+  const changeRenderMode = (mode: ComposeRenderMode) => {
+    setRenderMode(mode);
+    try {
+      localStorage.setItem(RENDER_MODE_STORAGE_KEY, mode);
+    } catch {
+      /* ignore */
+    }
+  };
+
   const {
     compose,
     cancel: cancelCompose,
@@ -791,6 +827,24 @@ export function VideoComposeEditorModal({
       trimStart: ec.trimStart,
       trimEnd: ec.trimEnd,
     }));
+    if (useServer) {
+      setServerSubmitting(true);
+      setServerError(null);
+      try {
+        const taskId = await submitServerComposeJob(sources, {
+          audioTracks: upstreamAudioTracks,
+          projectId,
+          nodeId,
+        });
+        onServerComposeSubmitted?.(taskId);
+        onClose();
+      } catch (err) {
+        setServerError(err instanceof Error ? err.message : "提交失败");
+      } finally {
+        setServerSubmitting(false);
+      }
+      return;
+    }
     const blob = await compose(sources, { audioTracks: upstreamAudioTracks });
     if (blob) {
       onComposeDone(blob);
@@ -1053,8 +1107,27 @@ export function VideoComposeEditorModal({
                 <Maximize2 size={14} />
               </IconBtn>
               <VDivider />
+              {serverRenderAvailable && (
+                <>
+                  <IconBtn
+                    title="浏览器渲染（在当前页面内合成）"
+                    active={renderMode === "browser"}
+                    onClick={() => changeRenderMode("browser")}
+                  >
+                    <Monitor size={14} />
+                  </IconBtn>
+                  <IconBtn
+                    title="服务器渲染（适合长视频/高分辨率，关闭页面不中断）"
+                    active={renderMode === "server"}
+                    color="blue"
+                    onClick={() => changeRenderMode("server")}
+                  >
+                    <Server size={14} />
+                  </IconBtn>
+                </>
+              )}
               <PrimaryBtn
-                disabled={upstreamVideos.length < 2 || composing || loading}
+                disabled={upstreamVideos.length < 2 || composing || serverSubmitting || loading}
                 onClick={() => void handleCompose()}
               >
                 <Scissors size={12} />
@@ -1063,8 +1136,10 @@ export function VideoComposeEditorModal({
             </div>
           </div>
         )}
-        {composeError && (
-          <div style={{ fontSize: 12, color: "#f87171", marginTop: 6 }}>{composeError}</div>
+        {(composeError || serverError) && (
+          <div style={{ fontSize: 12, color: "#f87171", marginTop: 6 }}>
+            {composeError || serverError}
+          </div>
         )}
       </div>
 
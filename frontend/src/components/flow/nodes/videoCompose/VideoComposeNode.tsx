@@ -14,6 +14,10 @@ import {
   buildComposeInitialPatch,
   buildComposeUrlSwapPatch,
 } from "./composeWriteback";
+import {
+  cancelServerCompose,
+  waitForServerCompose,
+} from "@/services/videoComposeService";
 
 type Props = {
   id: string;
@@ -25,6 +29,8 @@ type Props = {
     boxH?: number;
     status?: "idle" | "uploading" | "ready" | "error";
     error?: string;
+    /** 服务端渲染中的任务 id；存在即轮询（刷新/重开项目后续等原任务） */
+    composeTaskId?: string;
   };
   selected?: boolean;
 };
@@ -110,6 +116,47 @@ function VideoComposeNodeInner({ id, data, selected }: Props) {
     [id, projectId, rf, updateNodeData]
   );
 
+  // 服务端渲染：提交后只把 taskId 写进节点，由这里统一轮询并写回持久 URL。
+  const composeTaskId = data.composeTaskId;
+  const [serverProgress, setServerProgress] = React.useState(0);
+  React.useEffect(() => {
+    if (!composeTaskId) return;
+    const abortCtrl = new AbortController();
+    setServerProgress(0);
+    waitForServerCompose(composeTaskId, {
+      signal: abortCtrl.signal,
+      onProgress: setServerProgress,
+    })
+      .then((task) => {
+        if (rf.getNode(id)?.data?.composeTaskId !== composeTaskId) return;
+        updateNodeData({
+          ...buildComposeInitialPatch(task.videoUrl),
+          composeTaskId: undefined,
+        });
+      })
+      .catch((err) => {
+        if (abortCtrl.signal.aborted) return;
+        if (rf.getNode(id)?.data?.composeTaskId !== composeTaskId) return;
+        updateNodeData({
+          composeTaskId: undefined,
+          status: "error",
+          error: err instanceof Error ? err.message : "服务端合成失败",
+        });
+      });
+    return () => abortCtrl.abort();
+  }, [composeTaskId, id, rf, updateNodeData]);
+
+  const handleServerComposeSubmitted = React.useCallback(
+    (taskId: string) => updateNodeData({ composeTaskId: taskId, error: undefined }),
+    [updateNodeData]
+  );
+
+  const handleCancelServerCompose = React.useCallback(() => {
+    if (!composeTaskId) return;
+    void cancelServerCompose(composeTaskId).catch(() => undefined);
+    updateNodeData({ composeTaskId: undefined });
+  }, [composeTaskId, updateNodeData]);
+
   const handleDownload = React.useCallback(() => {
     const url = data.videoUrl;
     if (!url) return;
@@ -165,6 +212,40 @@ function VideoComposeNodeInner({ id, data, selected }: Props) {
         </div>
       </div>
 
+      {composeTaskId && (
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+            marginBottom: 6,
+            fontSize: 11,
+            color: "#2563eb",
+          }}
+        >
+          <span style={{ flex: 1 }}>
+            {lt("服务器合成中", "Rendering on server")}… {serverProgress}%
+          </span>
+          <button
+            type="button"
+            onClick={handleCancelServerCompose}
+            style={{
+              fontSize: 11,
+              color: "#ef4444",
+              background: "transparent",
+              border: "none",
+              cursor: "pointer",
+              padding: 0,
+            }}
+          >
+            {lt("取消", "Cancel")}
+          </button>
+        </div>
+      )}
+      {!composeTaskId && data.status === "error" && data.error && (
+        <div style={{ marginBottom: 6, fontSize: 11, color: "#ef4444" }}>{data.error}</div>
+      )}
+
       {/* 内容区域 */}
       <VideoComposeContent
         upstreamCount={upstreamVideos.length}
@@ -181,6 +262,9 @@ function VideoComposeNodeInner({ id, data, selected }: Props) {
         upstreamVideos={upstreamVideos}
         upstreamAudioTracks={upstreamAudioTracks}
         onComposeDone={handleComposeDone}
+        onServerComposeSubmitted={handleServerComposeSubmitted}
+        projectId={projectId}
+        nodeId={id}
       />
 
       {/* 入口：视频（多条） */}
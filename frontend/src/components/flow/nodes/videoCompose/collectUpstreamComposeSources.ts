@@ -28,6 +28,7 @@ const VIDEO_SOURCE_NODE_TYPES = new Set([
   "seedanceVideo",
   "volcEnhanceVideo",
   "videoCompose",
+  "subtitle",
 ]);
 
 const AUDIO_SOURCE_NODE_TYPES = new Set([
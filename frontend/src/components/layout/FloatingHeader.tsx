@@ -101,6 +101,8 @@ import {
 } from "@/services/bananaRouteStatsApi";
 import { OPEN_WECHAT_QR_PANEL_EVENT } from "@/utils/wechatQrPanel";
 import ReferralRewards from "@/components/ReferralRewards";
+import ApiKeysPanel from "@/components/ApiKeysPanel";
+import NotificationBell from "@/components/notifications/NotificationBell";
 import LanguageSwitcher from "@/components/LanguageSwitcher";
 import MembershipPanel from "@/components/payment/MembershipPanel";
 import { TeamSwitcher } from "@/components/team/TeamSwitcher";
@@ -188,6 +190,7 @@ const resolveBananaCredits = (
 const SETTINGS_SECTIONS = [
   { id: "workspace", labelKey: "workspace.settings.sections.workspace", icon: Square },
   { id: "referral", labelKey: "workspace.settings.sections.referral", icon: Gift },
+  { id: "apiKeys", labelKey: "workspace.settings.sections.apiKeys", icon: Key },
   { id: "appearance", labelKey: "workspace.settings.sections.appearance", icon: Eye },
   { id: "ai", labelKey: "workspace.settings.sections.ai", icon: Sparkles },
   { id: "advanced", labelKey: "workspace.settings.sections.advanced", icon: Zap },
@@ -1750,6 +1753,8 @@ const FloatingHeader: React.FC = () => {
         );
       case "referral":
         return <ReferralRewards />;
+      case "apiKeys":
+        return <ApiKeysPanel />;
       case "appearance":
         return (
           <div className='pb-6 space-y-6'>
@@ -2903,6 +2908,9 @@ const FloatingHeader: React.FC = () => {
             {/* 团队切换器 */}
             <TeamSwitcher onManage={setTeamManagementId} variant="header" />
 
+            {/* 通知中心 */}
+            {authUser && <NotificationBell onOpenCredits={openMembershipHub} />}
+
             <TooltipProvider delayDuration={300}>
               <Tooltip>
                 <TooltipTrigger asChild>
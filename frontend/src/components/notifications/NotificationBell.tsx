@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { AtSign, Bell, CheckCheck, Clock, Coins, Settings, Users, Video } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Switch } from "@/components/ui/switch";
+import { TeamInviteConfirmModal } from "@/components/team/TeamInviteConfirmModal";
+import { useNotificationStore } from "@/stores/notificationStore";
+import { useProjectStore } from "@/stores/projectStore";
+import { useCommentStore } from "@/stores/commentStore";
+import { useTeamStore } from "@/stores/teamStore";
+import {
+  NOTIFICATION_TYPES,
+  type NotificationDto,
+} from "@/services/notificationsApi";
+import { cn } from "@/lib/utils";
+
+interface Props {
+  /** credits_expiring 通知点击后打开积分/会员面板 */
+  onOpenCredits?: () => void;
+}
+
+const TYPE_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  mention: AtSign,
+  team_invite: Users,
+  task_completed: Video,
+  credits_expiring: Clock,
+  project_budget: Coins,
+};
+
+const str = (value: unknown): string => (typeof value === "string" ? value : "");
+
+export default function NotificationBell({ onOpenCredits }: Props) {
+  const { t, i18n } = useTranslation();
+  const {
+    items,
+    unreadCount,
+    mutedTypes,
+    loading,
+    loaded,
+    error,
+    nextCursor,
+    loadFirstPage,
+    loadMore,
+    markRead,
+    markAllRead,
+    setMuted,
+  } = useNotificationStore();
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && !loaded) void loadFirstPage();
+  }, [open, loaded, loadFirstPage]);
+
+  const formatTime = (iso: string) => {
+    const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 1) return t("workspace.notifications.justNow");
+    if (minutes < 60) return t("workspace.settings.referralTab.timeAgo.minutes", { count: minutes });
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return t("workspace.settings.referralTab.timeAgo.hours", { count: hours });
+    return t("workspace.settings.referralTab.timeAgo.days", { count: Math.floor(hours / 24) });
+  };
+
+  const describe = (n: NotificationDto): { text: string; detail?: string } => {
+    const d = n.data;
+    const actor = str(d.actorName) || str(d.inviterName) || t("workspace.notifications.someone");
+    switch (n.type) {
+      case "mention":
+        return {
+          text: t("workspace.notifications.messages.mention", {
+            actor,
+            project: str(d.projectName),
+          }),
+          detail: str(d.excerpt) || undefined,
+        };
+      case "team_invite":
+        return {
+          text: t("workspace.notifications.messages.team_invite", { actor, team: str(d.teamName) }),
+        };
+      case "task_completed":
+        return {
+          text:
+            d.status === "failed"
+              ? t("workspace.notifications.messages.taskFailed", { error: str(d.error) || "-" })
+              : t("workspace.notifications.messages.taskSucceeded"),
+        };
+      case "credits_expiring":
+        return {
+          text: t("workspace.notifications.messages.credits_expiring", {
+            amount: Number(d.amount) || 0,
+            date: str(d.expiresAt)
+              ? new Date(str(d.expiresAt)).toLocaleDateString(i18n.language)
+              : "-",
+          }),
+        };
+      case "project_budget":
+        return {
+          text: t("workspace.notifications.messages.project_budget", {
+            project: str(d.projectName),
+            threshold: Number(d.threshold) || 0,
+          }),
+          detail: `${Number(d.spent) || 0} / ${Number(d.limitCredits) || 0}`,
+        };
+      default:
+        return { text: n.type };
+    }
+  };
+
+  const handleClick = (n: NotificationDto) => {
+    void markRead(n.id);
+    const d = n.data;
+    const projectId = str(d.projectId);
+    if (n.type === "team_invite" && str(d.inviteCode)) {
+      setInviteCode(str(d.inviteCode));
+    } else if (n.type === "mention" && projectId) {
+      if (useProjectStore.getState().currentProjectId !== projectId) {
+        useProjectStore.getState().open(projectId);
+      }
+      const threadId = str(d.threadId);
+      if (threadId) {
+        useCommentStore.getState().enter();
+        useCommentStore.getState().requestFocus(threadId);
+      }
+    } else if ((n.type === "task_completed" || n.type === "project_budget") && projectId) {
+      if (useProjectStore.getState().currentProjectId !== projectId) {
+        useProjectStore.getState().open(projectId);
+      }
+    } else if (n.type === "credits_expiring") {
+      onOpenCredits?.();
+    } else {
+      return;
+    }
+    setOpen(false);
+  };
+
+  const badge = unreadCount > 99 ? "99+" : String(unreadCount);
+
+  return (
+    <>
+      <DropdownMenu open={open} onOpenChange={setOpen}>
+        <DropdownMenuTrigger
+          type='button'
+          className='relative p-0 text-gray-600 transition-all duration-200 border rounded-full h-7 w-7 bg-liquid-glass-light backdrop-blur-minimal border-liquid-glass-light hover:bg-liquid-glass-hover focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-300 flex items-center justify-center'
+          title={t("workspace.notifications.title")}
+          aria-label={t("workspace.notifications.title")}
+        >
+          <Bell className='w-3.5 h-3.5' />
+          {unreadCount > 0 && (
+            <span className='absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-medium leading-4 text-center tabular-nums'>
+              {badge}
+            </span>
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align='end'
+          sideOffset={8}
+          className='w-80 rounded-2xl border border-slate-200 bg-white/95 backdrop-blur-md shadow-[0_12px_28px_rgba(15,23,42,0.12)] p-1.5'
+        >
+          <div className='flex items-center justify-between px-2 py-1.5'>
+            <span className='text-sm font-medium text-slate-800'>
+              {t("workspace.notifications.title")}
+            </span>
+            <div className='flex items-center gap-1'>
+              <button
+                type='button'
+                className='flex items-center gap-1 px-1.5 py-0.5 text-xs rounded-md text-slate-500 hover:bg-slate-100 disabled:opacity-40'
+                onClick={() => void markAllRead()}
+                disabled={unreadCount === 0}
+              >
+                <CheckCheck className='w-3.5 h-3.5' />
+                {t("workspace.notifications.markAllRead")}
+              </button>
+              <button
+                type='button'
+                className={cn(
+                  "p-1 rounded-md text-slate-500 hover:bg-slate-100",
+                  showSettings && "bg-slate-100 text-slate-800"
+                )}
+                title={t("workspace.notifications.settings")}
+                aria-label={t("workspace.notifications.settings")}
+                onClick={() => setShowSettings((v) => !v)}
+              >
+                <Settings className='w-3.5 h-3.5' />
+              </button>
+            </div>
+          </div>
+
+          {showSettings ? (
+            <div className='px-2 pb-2 space-y-2'>
+              <p className='text-[11px] text-slate-400'>{t("workspace.notifications.mutedHint")}</p>
+              {NOTIFICATION_TYPES.map((type) => (
+                <label key={type} className='flex items-center justify-between text-xs text-slate-700'>
+                  {t(`workspace.notifications.types.${type}`)}
+                  <Switch
+                    checked={!mutedTypes.includes(type)}
+                    onCheckedChange={(checked: boolean) => void setMuted(type, !checked)}
+                  />
+                </label>
+              ))}
+            </div>
+          ) : (
+            <div className='max-h-96 overflow-y-auto'>
+              {error && !items.length && (
+                <div className='px-2 py-6 text-xs text-center text-red-500'>
+                  {t("workspace.notifications.loadFailed")}
+                </div>
+              )}
+              {!error && loaded && !items.length && (
+                <div className='px-2 py-6 text-xs text-center text-slate-400'>
+                  {t("workspace.notifications.empty")}
+                </div>
+              )}
+              {items.map((n) => {
+                const Icon = TYPE_ICONS[n.type] ?? Bell;
+                const { text, detail } = describe(n);
+                return (
+                  <button
+                    key={n.id}
+                    type='button'
+                    className={cn(
+                      "w-full flex items-start gap-2 px-2 py-2 text-left rounded-xl hover:bg-slate-100",
+                      !n.readAt && "bg-sky-50/70"
+                    )}
+                    onClick={() => handleClick(n)}
+                  >
+                    <Icon className='w-4 h-4 mt-0.5 shrink-0 text-slate-500' />
+                    <span className='flex-1 min-w-0'>
+                      <span className='block text-xs text-slate-800'>{text}</span>
+                      {detail && (
+                        <span className='block mt-0.5 text-[11px] text-slate-500 truncate'>{detail}</span>
+                      )}
+                      <span className='block mt-0.5 text-[10px] text-slate-400'>
+                        {formatTime(n.createdAt)}
+                      </span>
+                    </span>
+                    {!n.readAt && <span className='w-1.5 h-1.5 mt-1.5 rounded-full bg-sky-500 shrink-0' />}
+                  </button>
+                );
+              })}
+              {nextCursor && (
+                <button
+                  type='button'
+                  className='w-full py-1.5 text-xs text-slate-500 rounded-lg hover:bg-slate-100 disabled:opacity-50'
+                  onClick={() => void loadMore()}
+                  disabled={loading}
+                >
+                  {t("workspace.notifications.loadMore")}
+                </button>
+              )}
+            </div>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {inviteCode && (
+        <TeamInviteConfirmModal
+          code={inviteCode}
+          onClose={() => setInviteCode(null)}
+          onJoined={(teamId) => {
+            setInviteCode(null);
+            useTeamStore.getState().setActiveTeamId(teamId);
+          }}
+        />
+      )}
+    </>
+  );
+}
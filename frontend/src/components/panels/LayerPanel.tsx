@@ -17,6 +17,7 @@ import { paperSaveService } from '@/services/paperSaveService';
 import { getNonRemoteImageAssetIds } from '@/utils/projectContentValidation';
 import { useLocaleText } from '@/utils/localeText';
 import { isActivePaperEraserTrail } from '@/utils/paperEraserTrail';
+import { isFrameBlock, isFrameTitle, renameFrameBlock } from '@/utils/paperFrameBlock';
 import { cn } from '@/lib/utils';
 import CanvasNodeTab from './CanvasNodeTab';
 
@@ -196,7 +197,7 @@ const LayerPanel: React.FC = () => {
             const isScalebar = item.data?.type === 'scalebar';
             const isImageGroupBlock = item.data?.type === 'image-group';
             const isImageGroupTitle = item.data?.type === 'image-group-title';
-            const shouldFilter = isHelper === true || isGrid || isScalebar || isImageGroupBlock || isImageGroupTitle;
+            const shouldFilter = isHelper === true || isGrid || isScalebar || isImageGroupBlock || isImageGroupTitle || isFrameTitle(item);
             return !shouldFilter;
         }).reverse();
 
@@ -259,8 +260,10 @@ const LayerPanel: React.FC = () => {
                 }
             }
 
-            // 优先使用已有的自定义名称
-            if (item.data?.customName) {
+            // 画板直接使用画板名称；其次使用已有的自定义名称
+            if (isFrameBlock(item) && typeof item.data?.name === 'string' && item.data.name) {
+                name = item.data.name;
+            } else if (item.data?.customName) {
                 name = item.data.customName;
             } else {
                 const baseName = typeNames[type] || lt('图元', 'Item');
@@ -1216,7 +1219,12 @@ const LayerPanel: React.FC = () => {
                 // 如果是图元，更新其自定义名称
                 if (editingId.includes('_item_')) {
                     const item = Object.values(layerItems).flat().find(item => item.id === editingId);
-                    if (item?.paperItem) {
+                    if (item?.paperItem && isFrameBlock(item.paperItem)) {
+                        // 画板：同步更新画板名称与画布上的标题
+                        renameFrameBlock(item.paperItem as paper.Path, name);
+                        updateAllLayerItems();
+                        paperSaveService.triggerAutoSave('rename-frame');
+                    } else if (item?.paperItem) {
                         item.paperItem.data = { ...item.paperItem.data, customName: name };
                         updateAllLayerItems();
                     }
@@ -4,14 +4,18 @@ import { cn } from "@/lib/utils";
 import PaymentPanel from "@/components/payment/PaymentPanel";
 import { useAIChatStore } from "@/stores/aiChatStore";
 import {
+  cancelMembershipPlanChange,
   createMembershipOrder,
   getDailyRewardStatus,
   getMembershipCurrent,
   getMembershipOrders,
+  getMembershipTransitionPreview,
   getPaymentMembershipPlans,
   getPaymentStatus,
+  scheduleMembershipPlanChange,
   type MembershipCurrentResponse,
   type MembershipOrderRecord,
+  type MembershipTransitionPreview,
   type PaymentMembershipPlan,
   type PaymentMethod,
 } from "@/services/adminApi";
@@ -200,6 +204,9 @@ const MembershipPanel: React.FC<MembershipPanelProps> = ({ onBack, onPaymentSucc
   const [orders, setOrders] = useState<MembershipOrderRecord[]>([]);
   const [ordersLoading, setOrdersLoading] = useState(false);
   const [sevenDayRewardMultiplier, setSevenDayRewardMultiplier] = useState(DEFAULT_7_DAY_REWARD_MULTIPLIER);
+  /** 点选低档套餐时不下单，改为展示降级预览，确认后预约到当前周期结束生效 */
+  const [downgradePreview, setDowngradePreview] = useState<MembershipTransitionPreview | null>(null);
+  const [downgradeSubmitting, setDowngradeSubmitting] = useState(false);
   const countdownRef = useRef<NodeJS.Timeout | null>(null);
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
   const orderExpiresAtRef = useRef<number | null>(null);
@@ -403,6 +410,56 @@ const MembershipPanel: React.FC<MembershipPanelProps> = ({ onBack, onPaymentSucc
     void createOrderForPlan(selectedPlanCode, paymentMethod);
   }, [selectedPlanCode, paymentMethod, userConfirmedPlan, createOrderForPlan]);
 
+  const hasActiveMembership = current?.entitlement?.membershipStatus === "active";
+
+  const handleSelectPlan = useCallback(async (planCode: string) => {
+    setDowngradePreview(null);
+    if (hasActiveMembership) {
+      try {
+        const preview = await getMembershipTransitionPreview(planCode);
+        if (preview.actionType === "downgrade") {
+          setUserConfirmedPlan(false);
+          setSelectedPlanCode(planCode);
+          setDowngradePreview(preview);
+          return;
+        }
+      } catch (error) {
+        // 预览失败按原流程下单，由服务端兜底校验
+        console.warn("获取套餐切换预览失败:", error);
+      }
+    }
+    setUserConfirmedPlan(true);
+    setSelectedPlanCode(planCode);
+  }, [hasActiveMembership]);
+
+  const handleConfirmDowngrade = useCallback(async () => {
+    if (!downgradePreview) return;
+    setDowngradeSubmitting(true);
+    try {
+      await scheduleMembershipPlanChange(downgradePreview.targetPlan.code);
+      showToast("已预约降级，当前周期结束后生效", "success");
+      setDowngradePreview(null);
+      await loadData();
+    } catch (error: unknown) {
+      showToast(error instanceof Error ? error.message : "预约降级失败", "error");
+    } finally {
+      setDowngradeSubmitting(false);
+    }
+  }, [downgradePreview, loadData]);
+
+  const handleCancelDowngrade = useCallback(async () => {
+    setDowngradeSubmitting(true);
+    try {
+      await cancelMembershipPlanChange();
+      showToast("已撤销降级，当前套餐保持不变", "success");
+      await loadData();
+    } catch (error: unknown) {
+      showToast(error instanceof Error ? error.message : "撤销降级失败", "error");
+    } finally {
+      setDowngradeSubmitting(false);
+    }
+  }, [loadData]);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "paid":
@@ -443,6 +500,77 @@ const MembershipPanel: React.FC<MembershipPanelProps> = ({ onBack, onPaymentSucc
 
   const isWhite = useAIChatStore((state) => state.chatTheme === "white");
 
+  const scheduledChange = current?.nextChange?.status === "scheduled" ? current.nextChange : null;
+  const formatDate = (value: string | null | undefined) =>
+    value ? new Date(value).toLocaleDateString("zh-CN") : "—";
+
+  const renderDowngradePreview = (preview: MembershipTransitionPreview) => {
+    const effect = preview.downgradeEffect;
+    const rows = effect
+      ? [
+          { label: "生效时间", value: `${formatDate(effect.effectiveAt)}（当前周期结束）` },
+          { label: "清零的会员积分", value: `${effect.expiringCredits} 积分（按当前剩余）` },
+          { label: "新套餐到账", value: `${effect.grantedCredits} 积分` },
+          { label: "新周期到期", value: formatDate(effect.nextPeriodEndAt) },
+          {
+            label: "每日赠送",
+            value: `${effect.benefits.current.dailyGiftCredits} → ${effect.benefits.target.dailyGiftCredits} 积分`,
+          },
+          {
+            label: "邀请名额",
+            value: `${effect.benefits.current.inviteLimit ?? "不限"} → ${effect.benefits.target.inviteLimit ?? "不限"}`,
+          },
+        ]
+      : [{ label: "生效时间", value: formatDate(preview.nextEffectiveAt) }];
+
+    return (
+      <div
+        className={cn(
+          "relative overflow-hidden rounded-2xl border p-5 sm:p-6",
+          isWhite
+            ? "border-slate-200 bg-white shadow-[0_14px_28px_rgba(15,23,42,0.08)]"
+            : "border-[#8E86F5]/30 bg-[#181818] shadow-[0_8px_32px_rgba(0,0,0,0.5)]",
+        )}
+      >
+        <div className={cn("text-[10px] font-semibold uppercase tracking-[0.2em]", isWhite ? "text-slate-500" : "text-zinc-500")}>降级</div>
+        <div className={cn("mt-2 text-lg font-semibold", isWhite ? "text-slate-900" : "text-zinc-100")}>
+          {preview.currentPlan?.name ?? "当前套餐"} → {preview.targetPlan.name}
+        </div>
+        <p className={cn("mt-2 text-xs leading-relaxed", isWhite ? "text-slate-500" : "text-zinc-500")}>
+          降级无需支付，当前周期内权益不变；到期后自动切换，生效前可随时撤销。充值积分不受影响。
+        </p>
+        <dl className="mt-4 space-y-2 text-xs">
+          {rows.map((row) => (
+            <div key={row.label} className="flex items-center justify-between gap-3">
+              <dt className={isWhite ? "text-slate-500" : "text-zinc-500"}>{row.label}</dt>
+              <dd className={cn("font-medium tabular-nums", isWhite ? "text-slate-900" : "text-zinc-100")}>{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+        <div className="mt-5 grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            onClick={() => setDowngradePreview(null)}
+            className={cn(
+              "rounded-xl border py-2.5 text-sm font-medium transition-colors",
+              isWhite ? "border-slate-300 text-slate-600 hover:bg-slate-50" : "border-zinc-700 text-zinc-300 hover:bg-[#1c1c1f]",
+            )}
+          >
+            再想想
+          </button>
+          <button
+            type="button"
+            disabled={downgradeSubmitting}
+            onClick={() => void handleConfirmDowngrade()}
+            className="rounded-xl bg-gradient-to-r from-[#8E86F5] to-[#9aa8ef] py-2.5 text-sm font-semibold text-white shadow-lg disabled:opacity-60"
+          >
+            {downgradeSubmitting ? "提交中…" : "确认降级"}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div
       className={cn(
@@ -686,6 +814,32 @@ const MembershipPanel: React.FC<MembershipPanelProps> = ({ onBack, onPaymentSucc
             <p className={cn("mt-3 text-xs font-medium leading-relaxed", isWhite ? "text-amber-700" : "text-amber-300")}>
               请注意：月度套餐额度将在每个计费日刷新，未使用额度将清零；年付套餐额度按月发放，年度到期日统一清零。单独购买的额度不受套餐周期影响，可长期使用。
             </p>
+
+            {scheduledChange ? (
+              <div
+                className={cn(
+                  "mt-3 flex flex-wrap items-center justify-between gap-2 rounded-xl border px-3 py-2.5 text-xs",
+                  isWhite ? "border-violet-200 bg-violet-50 text-violet-800" : "border-violet-500/30 bg-violet-500/10 text-violet-100",
+                )}
+              >
+                <span>
+                  已预约于 {formatDate(scheduledChange.effectiveAt)} 切换为「{scheduledChange.targetPlanName}」，在此之前当前套餐权益不变
+                </span>
+                {scheduledChange.changeType === "user_downgrade" ? (
+                  <button
+                    type="button"
+                    disabled={downgradeSubmitting}
+                    onClick={() => void handleCancelDowngrade()}
+                    className={cn(
+                      "rounded-lg border px-2.5 py-1 font-medium transition-colors disabled:opacity-50",
+                      isWhite ? "border-violet-300 hover:bg-violet-100" : "border-violet-400/40 hover:bg-violet-500/20",
+                    )}
+                  >
+                    撤销降级
+                  </button>
+                ) : null}
+              </div>
+            ) : null}
           </section>
 
           {!filteredPlans.length ? (
@@ -710,7 +864,7 @@ const MembershipPanel: React.FC<MembershipPanelProps> = ({ onBack, onPaymentSucc
                   <div
                     className={cn(
                       "grid min-w-0 gap-3 sm:gap-4 lg:items-stretch lg:gap-4",
-                      userConfirmedPlan
+                      userConfirmedPlan || downgradePreview
                         ? "flex-1 grid-cols-1 md:grid-cols-2 xl:grid-cols-2 2xl:grid-cols-4"
                         : "grid-cols-1 md:grid-cols-2 lg:grid-cols-4",
                     )}
@@ -903,10 +1057,7 @@ const MembershipPanel: React.FC<MembershipPanelProps> = ({ onBack, onPaymentSucc
 
                         <button
                           type="button"
-                          onClick={() => {
-                            setUserConfirmedPlan(true);
-                            setSelectedPlanCode(plan.code);
-                          }}
+                          onClick={() => void handleSelectPlan(plan.code)}
                           className={cn(
                             "mt-4 w-full rounded-xl py-3 text-xs font-semibold text-white shadow-lg transition-transform sm:py-3.5 sm:text-sm",
                             confirmedActive
@@ -1091,6 +1242,10 @@ const MembershipPanel: React.FC<MembershipPanelProps> = ({ onBack, onPaymentSucc
                         </div>
                       </div>
                     </aside>
+                  ) : downgradePreview ? (
+                    <aside className="w-full shrink-0 xl:sticky xl:top-4 xl:self-start xl:w-[min(100%,420px)] 2xl:w-[440px]">
+                      {renderDowngradePreview(downgradePreview)}
+                    </aside>
                   ) : null}
                 </div>
 
@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useProjectContentStore } from '@/stores/projectContentStore';
+import {
+  getProjectCreditUsage,
+  removeProjectBudget,
+  saveProjectBudget,
+  type ProjectCreditUsageDto,
+  type ProjectCreditUsageRow,
+} from '@/services/projectBudgetApi';
+import {
+  buildNodeUsageLabels,
+  DEFAULT_BUDGET_THRESHOLDS,
+  parseBudgetThresholds,
+  resolveBudgetLevel,
+} from '@/utils/projectBudget';
+
+type Props = {
+  project: { id: string; name: string };
+  onClose: () => void;
+};
+
+const LEVEL_BAR_CLASS = {
+  ok: 'bg-emerald-500',
+  warn: 'bg-amber-500',
+  exceeded: 'bg-red-500',
+} as const;
+
+/** 项目积分预算与成本明细：按模型 / Flow 节点汇总，设置预算额度、告警阈值与超额拦截 */
+export default function ProjectBudgetDialog({ project, onClose }: Props) {
+  const { i18n } = useTranslation();
+  const isZh = (i18n.resolvedLanguage || i18n.language || '').toLowerCase().startsWith('zh');
+  const lt = (zhText: string, enText: string) => (isZh ? zhText : enText);
+
+  const [usage, setUsage] = useState<ProjectCreditUsageDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [limitInput, setLimitInput] = useState('');
+  const [thresholdInput, setThresholdInput] = useState(DEFAULT_BUDGET_THRESHOLDS.join(', '));
+  const [blockWhenExceeded, setBlockWhenExceeded] = useState(true);
+
+  // 节点标签只对当前打开的项目可用（其他项目的 flow 未加载），其余显示节点 id
+  const contentProjectId = useProjectContentStore((s) => s.projectId);
+  const flow = useProjectContentStore((s) => s.content?.flow);
+  const nodeLabels = useMemo(
+    () => (contentProjectId === project.id ? buildNodeUsageLabels(flow) : new Map<string, string>()),
+    [contentProjectId, flow, project.id]
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const next = await getProjectCreditUsage(project.id);
+      setUsage(next);
+      if (next.budget) {
+        setLimitInput(String(next.budget.limitCredits));
+        setThresholdInput(next.budget.alertThresholds.join(', '));
+        setBlockWhenExceeded(next.budget.blockWhenExceeded);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const limit = Math.round(Number(limitInput));
+  const limitValid = Number.isFinite(limit) && limit >= 1;
+
+  const handleSave = async () => {
+    if (!limitValid) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const budget = await saveProjectBudget(project.id, {
+        limitCredits: limit,
+        alertThresholds: parseBudgetThresholds(thresholdInput),
+        blockWhenExceeded,
+      });
+      setUsage((prev) => (prev ? { ...prev, budget } : prev));
+      setThresholdInput(budget.alertThresholds.join(', '));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(lt('移除后该项目不再有预算限制，确定移除？', 'Remove the budget for this project?'))) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await removeProjectBudget(project.id);
+      setUsage((prev) => (prev ? { ...prev, budget: null } : prev));
+      setLimitInput('');
+      setThresholdInput(DEFAULT_BUDGET_THRESHOLDS.join(', '));
+      setBlockWhenExceeded(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const budget = usage?.budget ?? null;
+  const level = budget ? resolveBudgetLevel(budget.usagePercent, budget.alertThresholds) : 'ok';
+
+  const renderRows = (rows: ProjectCreditUsageRow[], labelOf: (row: ProjectCreditUsageRow) => string) => {
+    if (rows.length === 0) {
+      return <div className="py-3 text-center text-xs text-slate-400">{lt('暂无用量', 'No usage yet')}</div>;
+    }
+    const max = Math.max(...rows.map((row) => row.credits), 1);
+    return (
+      <ul className="space-y-1.5">
+        {rows.map((row) => (
+          <li key={row.key ?? '__none__'} className="text-xs">
+            <div className="flex items-center gap-2">
+              <span className="min-w-0 flex-1 truncate text-slate-700" title={row.key ?? undefined}>
+                {labelOf(row)}
+              </span>
+              <span className="shrink-0 text-slate-400">{lt(`${row.calls} 次`, `${row.calls} runs`)}</span>
+              <span className="w-16 shrink-0 text-right font-medium text-slate-700">{row.credits}</span>
+            </div>
+            <div className="mt-0.5 h-1 rounded bg-slate-100">
+              <div className="h-1 rounded bg-sky-400" style={{ width: `${(row.credits / max) * 100}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center" onClick={(e) => e.stopPropagation()}>
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+      <div className="relative flex max-h-[calc(100vh-48px)] w-[680px] max-w-[calc(100vw-48px)] flex-col overflow-hidden rounded-xl border bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="truncate font-medium">
+            {lt('积分预算', 'Credit budget')} · {project.name}
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 w-7 px-0" onClick={onClose} aria-label={lt('关闭', 'Close')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-b p-4">
+          {budget ? (
+            <div>
+              <div className="flex items-baseline justify-between text-sm">
+                <span className="text-slate-600">
+                  {lt('已用', 'Used')} <span className="font-medium text-slate-800">{budget.spentCredits}</span> /{' '}
+                  {budget.limitCredits}
+                </span>
+                <span className="text-xs text-slate-500">{budget.usagePercent}%</span>
+              </div>
+              <div className="mt-1 h-2 rounded bg-slate-100">
+                <div
+                  className={`h-2 rounded ${LEVEL_BAR_CLASS[level]}`}
+                  style={{ width: `${Math.min(budget.usagePercent, 100)}%` }}
+                />
+              </div>
+              {level === 'exceeded' && budget.blockWhenExceeded && (
+                <div className="mt-1 text-xs text-red-600">
+                  {lt('预算已用尽，项目内的新生成会被拒绝', 'Budget exhausted: new runs in this project are blocked')}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">
+              {lt(
+                '未设置预算。设置后按阈值发送通知，并可在超出时拦截新的生成。',
+                'No budget set. A budget sends alerts at thresholds and can block new runs once exceeded.'
+              )}
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              className="h-8 w-32"
+              placeholder={lt('预算积分', 'Credits')}
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+            />
+            <Input
+              className="h-8 w-36"
+              placeholder={lt('告警阈值 %', 'Alert at %')}
+              title={lt('告警阈值（百分比，逗号分隔）', 'Alert thresholds (percent, comma separated)')}
+              value={thresholdInput}
+              onChange={(e) => setThresholdInput(e.target.value)}
+            />
+            <label className="flex items-center gap-1.5 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={blockWhenExceeded}
+                onChange={(e) => setBlockWhenExceeded(e.target.checked)}
+              />
+              {lt('超出时拦截', 'Block when exceeded')}
+            </label>
+            <div className="flex-1" />
+            {budget && (
+              <Button variant="ghost" size="sm" disabled={saving} onClick={() => void handleRemove()}>
+                {lt('移除', 'Remove')}
+              </Button>
+            )}
+            <Button size="sm" disabled={saving || !limitValid} onClick={() => void handleSave()}>
+              {saving ? lt('保存中…', 'Saving…') : lt('保存预算', 'Save budget')}
+            </Button>
+          </div>
+          {error && <div className="rounded border border-red-200 bg-red-50 p-2 text-sm text-red-700">{error}</div>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {loading ? (
+            <div className="py-6 text-center text-sm text-slate-500">{lt('加载中', 'Loading')}</div>
+          ) : usage ? (
+            <div className="space-y-4">
+              <div className="text-sm text-slate-600">
+                {lt(
+                  `累计消耗 ${usage.totalCredits} 积分 · ${usage.totalCalls} 次生成`,
+                  `${usage.totalCredits} credits over ${usage.totalCalls} runs`
+                )}
+              </div>
+              <section>
+                <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-slate-400">
+                  {lt('按模型', 'By model')}
+                </h3>
+                {renderRows(usage.byModel, (row) =>
+                  row.label && row.label !== row.key ? `${row.key} · ${row.label}` : row.key ?? '-'
+                )}
+              </section>
+              <section>
+                <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-slate-400">
+                  {lt('按节点', 'By node')}
+                </h3>
+                {renderRows(usage.byNode, (row) =>
+                  row.key
+                    ? nodeLabels.get(row.key) ?? lt(`节点 ${row.key.slice(0, 8)}`, `Node ${row.key.slice(0, 8)}`)
+                    : lt('画布 / 对话（未归属节点）', 'Canvas / chat (no node)')
+                )}
+              </section>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
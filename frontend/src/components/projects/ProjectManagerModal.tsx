@@ -3,11 +3,15 @@ import { createPortal } from 'react-dom';
 import { useProjectStore } from '@/stores/projectStore';
 import { Button } from '@/components/ui/button';
 import SmartImage from '@/components/ui/SmartImage';
-import { Check, Pencil, Share2, Trash2, Users } from 'lucide-react';
+import { Check, Coins, Download, Link2, Pencil, Share2, Trash2, Upload, Users } from 'lucide-react';
 import { usePendingUploadLeaveGuard } from '@/hooks/usePendingUploadLeaveGuard';
 import { TEAM_PROJECTS_CHANGED_EVENT } from '@/hooks/useTeamRealtime';
 import { useTranslation } from 'react-i18next';
 import { projectApi, type Project } from '@/services/projectApi';
+import { projectArchiveService } from '@/services/projectArchiveService';
+import { PROJECT_ARCHIVE_EXTENSION } from '@/utils/projectArchive';
+import ShareLinksDialog from './ShareLinksDialog';
+import ProjectBudgetDialog from './ProjectBudgetDialog';
 import type { ProjectContentSnapshot } from '@/types/project';
 import { useTeamStore } from '@/stores/teamStore';
 import { getProjectCache, isCacheValid, setProjectCache } from '@/services/projectCacheStore';
@@ -291,6 +295,12 @@ export default function ProjectManagerModal() {
   const [teamError, setTeamError] = useState('');
   const [cloningToTeam, setCloningToTeam] = useState<string | null>(null);
   const [shareMenuProjectId, setShareMenuProjectId] = useState<string | null>(null);
+  // 正在导出归档的项目 id；导入归档时为 'import'
+  const [archiveBusy, setArchiveBusy] = useState<string | null>(null);
+  const archiveInputRef = useRef<HTMLInputElement | null>(null);
+  // 正在管理公开分享链接的项目
+  const [shareLinksProject, setShareLinksProject] = useState<Project | null>(null);
+  const [budgetProject, setBudgetProject] = useState<Project | null>(null);
 
   const isPersonal = contextId === 'personal';
   const projects = isPersonal ? personalProjects : teamProjects;
@@ -500,6 +510,36 @@ export default function ProjectManagerModal() {
     }
   };
 
+  const handleExportArchive = async (project: Project) => {
+    setArchiveBusy(project.id);
+    try {
+      const result = await projectArchiveService.exportProject(project);
+      if (result.unresolvedAssetCount > 0) {
+        alert(lt(
+          `已导出，但有 ${result.unresolvedAssetCount} 个资源无法下载，归档中保留了原地址`,
+          `Exported, but ${result.unresolvedAssetCount} assets could not be downloaded and keep their original URLs`
+        ));
+      }
+    } catch (e) {
+      alert(lt('导出失败：', 'Export failed: ') + (e instanceof Error ? e.message : ''));
+    } finally {
+      setArchiveBusy(null);
+    }
+  };
+
+  const handleImportArchive = async (file: File) => {
+    setArchiveBusy('import');
+    try {
+      await projectArchiveService.importArchive(file, { teamId: isPersonal ? null : contextId });
+      setPage(0);
+      await reloadCurrentContext();
+    } catch (e) {
+      alert(lt('导入失败：', 'Import failed: ') + (e instanceof Error ? e.message : ''));
+    } finally {
+      setArchiveBusy(null);
+    }
+  };
+
   const handleBatchDelete = async () => {
     if (!selectionMode || selectedIds.size === 0) return;
     const targets = projects.filter((p) => selectedIds.has(p.id));
@@ -630,6 +670,28 @@ export default function ProjectManagerModal() {
                 }
               }}
             />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={archiveBusy === 'import'}
+              onClick={() => archiveInputRef.current?.click()}
+              className="flex items-center gap-2"
+              title={lt('导入包含全部资源的 .tanva 项目归档', 'Import a .tanva archive with all assets')}
+            >
+              <Upload className="h-4 w-4" />
+              {archiveBusy === 'import' ? lt('导入中…', 'Importing…') : lt('导入项目', 'Import project')}
+            </Button>
+            <input
+              ref={archiveInputRef}
+              type="file"
+              accept={PROJECT_ARCHIVE_EXTENSION}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) void handleImportArchive(file);
+              }}
+            />
             <div className="flex-1" />
             {projects.length > 0 && (
               selectionMode ? (
@@ -768,6 +830,46 @@ export default function ProjectManagerModal() {
                           >
                             <Pencil className="h-3.5 w-3.5" />
                           </Button>
+                          <Button
+                            size="sm"
+                            className="h-7 w-7 bg-white/95 px-0 text-slate-700 shadow-sm hover:bg-white"
+                            variant="ghost"
+                            disabled={archiveBusy === p.id}
+                            title={lt('导出项目归档（含全部资源）', 'Export project archive (with all assets)')}
+                            aria-label={lt('导出项目归档', 'Export project archive')}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              void handleExportArchive(p);
+                            }}
+                          >
+                            <Download className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="h-7 w-7 bg-white/95 px-0 text-slate-700 shadow-sm hover:bg-white"
+                            variant="ghost"
+                            title={lt('公开分享链接（只读查看 / 嵌入）', 'Public link (read-only view / embed)')}
+                            aria-label={lt('公开分享链接', 'Public link')}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              setShareLinksProject(p);
+                            }}
+                          >
+                            <Link2 className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="h-7 w-7 bg-white/95 px-0 text-slate-700 shadow-sm hover:bg-white"
+                            variant="ghost"
+                            title={lt('积分预算与成本明细', 'Credit budget and cost breakdown')}
+                            aria-label={lt('积分预算', 'Credit budget')}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              setBudgetProject(p);
+                            }}
+                          >
+                            <Coins className="h-3.5 w-3.5" />
+                          </Button>
                           {isPersonal && nonPersonalTeams.length > 0 && (
                             <div className="relative">
                               <Button
@@ -882,6 +984,10 @@ export default function ProjectManagerModal() {
           )}
         </div>
       </div>
+      {shareLinksProject && (
+        <ShareLinksDialog project={shareLinksProject} onClose={() => setShareLinksProject(null)} />
+      )}
+      {budgetProject && <ProjectBudgetDialog project={budgetProject} onClose={() => setBudgetProject(null)} />}
     </div>
   );
 
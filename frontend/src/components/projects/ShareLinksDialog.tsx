@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Code2, Link2, Lock, Trash2, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  type ProjectShareLinkDto,
+} from '@/services/projectShareApi';
+import {
+  buildShareEmbedCode,
+  buildShareUrl,
+  SHARE_EXPIRY_PRESETS,
+  shareExpiryFromPreset,
+  type ProjectShareAccess,
+  type ShareExpiryPreset,
+} from '@/utils/projectShare';
+
+type Props = {
+  project: { id: string; name: string };
+  onClose: () => void;
+};
+
+export default function ShareLinksDialog({ project, onClose }: Props) {
+  const { i18n } = useTranslation();
+  const isZh = (i18n.resolvedLanguage || i18n.language || '').toLowerCase().startsWith('zh');
+  const lt = (zhText: string, enText: string) => (isZh ? zhText : enText);
+  const locale = isZh ? 'zh-CN' : 'en-US';
+
+  const [links, setLinks] = useState<ProjectShareLinkDto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const [access, setAccess] = useState<ProjectShareAccess>('view');
+  const [expiry, setExpiry] = useState<ShareExpiryPreset>('7d');
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setLinks(await listShareLinks(project.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const link = await createShareLink(project.id, {
+        access,
+        password: password.trim() || undefined,
+        expiresAt: shareExpiryFromPreset(expiry),
+      });
+      setLinks((prev) => [link, ...prev]);
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ProjectShareLinkDto) => {
+    if (!confirm(lt('撤销后此链接立即失效，确定撤销？', 'The link stops working immediately. Revoke it?'))) return;
+    setBusyId(link.id);
+    try {
+      await revokeShareLink(project.id, link.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      window.setTimeout(() => setCopied((prev) => (prev === key ? null : prev)), 1500);
+    } catch {
+      prompt(lt('复制以下内容：', 'Copy this:'), text);
+    }
+  };
+
+  const stateLabel = (link: ProjectShareLinkDto) => {
+    if (link.state === 'revoked') return lt('已撤销', 'Revoked');
+    if (link.state === 'expired') return lt('已过期', 'Expired');
+    return link.expiresAt
+      ? lt(`有效至 ${new Date(link.expiresAt).toLocaleString(locale)}`, `Until ${new Date(link.expiresAt).toLocaleString(locale)}`)
+      : lt('永久有效', 'No expiry');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center" onClick={(e) => e.stopPropagation()}>
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+      <div className="relative flex max-h-[calc(100vh-48px)] w-[640px] max-w-[calc(100vw-48px)] flex-col overflow-hidden rounded-xl border bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="truncate font-medium">
+            {lt('公开分享', 'Public links')} · {project.name}
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 w-7 px-0" onClick={onClose} aria-label={lt('关闭', 'Close')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-b p-4">
+          <p className="text-xs text-slate-500">
+            {lt(
+              '持有链接的人无需登录即可只读查看画布与 Flow；“可评论”链接允许登录用户发表评论。',
+              'Anyone with the link can view the canvas and flow without signing in; "Can comment" links also let signed-in users comment.'
+            )}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="h-8 rounded border px-2 text-sm"
+              value={access}
+              onChange={(e) => setAccess(e.target.value as ProjectShareAccess)}
+            >
+              <option value="view">{lt('仅查看', 'View only')}</option>
+              <option value="comment">{lt('可评论', 'Can comment')}</option>
+            </select>
+            <select
+              className="h-8 rounded border px-2 text-sm"
+              value={expiry}
+              onChange={(e) => setExpiry(e.target.value as ShareExpiryPreset)}
+            >
+              {SHARE_EXPIRY_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="password"
+              className="h-8 w-40"
+              placeholder={lt('访问密码（可选）', 'Password (optional)')}
+              value={password}
+              maxLength={64}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <Button
+              size="sm"
+              disabled={creating || (password.trim().length > 0 && password.trim().length < 4)}
+              onClick={() => void handleCreate()}
+              className="flex items-center gap-1.5"
+            >
+              <Link2 className="h-4 w-4" />
+              {creating ? lt('创建中…', 'Creating…') : lt('创建链接', 'Create link')}
+            </Button>
+          </div>
+          {error && <div className="rounded border border-red-200 bg-red-50 p-2 text-sm text-red-700">{error}</div>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {loading ? (
+            <div className="py-6 text-center text-sm text-slate-500">{lt('加载中', 'Loading')}</div>
+          ) : links.length === 0 ? (
+            <div className="py-6 text-center text-sm text-slate-500">{lt('还没有分享链接', 'No links yet')}</div>
+          ) : (
+            <ul className="space-y-2">
+              {links.map((link) => {
+                const url = buildShareUrl(window.location.origin, link.token);
+                const embed = buildShareEmbedCode(buildShareUrl(window.location.origin, link.token, { embed: true }), {
+                  title: project.name,
+                });
+                const active = link.state === 'active';
+                return (
+                  <li
+                    key={link.id}
+                    className={`rounded-lg border px-3 py-2 text-sm ${active ? '' : 'bg-slate-50 text-slate-400'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-600">
+                        {link.access === 'comment' ? lt('可评论', 'Can comment') : lt('仅查看', 'View only')}
+                      </span>
+                      {link.hasPassword && <Lock className="h-3.5 w-3.5 text-slate-500" aria-label={lt('有密码', 'Password')} />}
+                      <span className="truncate text-xs">{stateLabel(link)}</span>
+                      <span className="ml-auto shrink-0 text-xs text-slate-400">
+                        {lt(`访问 ${link.viewCount} 次`, `${link.viewCount} views`)}
+                      </span>
+                    </div>
+                    <div className="mt-1.5 flex items-center gap-1">
+                      <code className="min-w-0 flex-1 truncate rounded bg-slate-50 px-2 py-1 text-xs">{url}</code>
+                      {active && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 px-0"
+                            title={lt('复制链接', 'Copy link')}
+                            onClick={() => void copy(`${link.id}:url`, url)}
+                          >
+                            {copied === `${link.id}:url` ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 px-0"
+                            title={lt('复制嵌入代码（iframe）', 'Copy embed code (iframe)')}
+                            onClick={() => void copy(`${link.id}:embed`, embed)}
+                          >
+                            {copied === `${link.id}:embed` ? <Check className="h-3.5 w-3.5" /> : <Code2 className="h-3.5 w-3.5" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 px-0 text-red-600 hover:bg-red-50"
+                            title={lt('撤销', 'Revoke')}
+                            disabled={busyId === link.id}
+                            onClick={() => void handleRevoke(link)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
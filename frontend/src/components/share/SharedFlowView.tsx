@@ -0,0 +1,72 @@
+import { memo, useMemo } from 'react';
+import {
+  Background,
+  Controls,
+  Handle,
+  Position,
+  ReactFlow,
+  ReactFlowProvider,
+  type Node,
+  type NodeProps,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import type { FlowGraphSnapshot } from '@/types/project';
+import { toRenderableImageSrc } from '@/utils/imageSource';
+import { toReadOnlyFlow, type ReadOnlyFlowNodeData } from '@/utils/projectShare';
+
+type SharedNode = Node<ReadOnlyFlowNodeData, 'shared'>;
+
+/** 通用只读节点：不加载各节点的编辑组件，只展示标题、文本与图片 / 视频预览 */
+const SharedFlowNode = memo(({ data }: NodeProps<SharedNode>) => {
+  const imageSrc = data.imageRef ? toRenderableImageSrc(data.imageRef) : null;
+  const videoSrc = !imageSrc && data.videoRef ? toRenderableImageSrc(data.videoRef) : null;
+  return (
+    <div className="flex h-full min-h-[60px] w-full min-w-[180px] flex-col overflow-hidden rounded-lg border border-slate-200 bg-white text-xs shadow-sm">
+      <Handle type="target" position={Position.Left} isConnectable={false} />
+      <div className="flex items-center gap-2 border-b bg-slate-50 px-2 py-1">
+        <span className="truncate font-medium text-slate-700">{data.title}</span>
+        {data.title !== data.kind && <span className="ml-auto shrink-0 text-[10px] text-slate-400">{data.kind}</span>}
+      </div>
+      {imageSrc && <img src={imageSrc} alt="" className="max-h-[320px] w-full flex-1 object-contain" draggable={false} />}
+      {videoSrc && <video src={videoSrc} className="max-h-[320px] w-full flex-1" controls preload="metadata" />}
+      {data.text && <div className="whitespace-pre-wrap break-words px-2 py-1.5 text-slate-600">{data.text}</div>}
+      <Handle type="source" position={Position.Right} isConnectable={false} />
+    </div>
+  );
+});
+SharedFlowNode.displayName = 'SharedFlowNode';
+
+const nodeTypes = { shared: SharedFlowNode };
+
+type Props = {
+  flow: FlowGraphSnapshot | null | undefined;
+  emptyLabel: string;
+};
+
+export default function SharedFlowView({ flow, emptyLabel }: Props) {
+  const { nodes, edges } = useMemo(() => toReadOnlyFlow(flow), [flow]);
+  if (nodes.length === 0) {
+    return <div className="flex h-full items-center justify-center text-sm text-slate-400">{emptyLabel}</div>;
+  }
+  return (
+    <ReactFlowProvider>
+      <ReactFlow
+        nodes={nodes as SharedNode[]}
+        edges={edges}
+        nodeTypes={nodeTypes}
+        fitView
+        minZoom={0.05}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        elementsSelectable={false}
+        edgesFocusable={false}
+        nodesFocusable={false}
+        deleteKeyCode={null}
+        proOptions={{ hideAttribution: true }}
+      >
+        <Background />
+        <Controls showInteractive={false} />
+      </ReactFlow>
+    </ReactFlowProvider>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import paper from 'paper';
+import { toRenderableImageSrc } from '@/utils/imageSource';
+import { mapPaperJsonRasterSources } from '@/utils/projectShare';
+
+type Props = {
+  paperJson: string | null | undefined;
+  emptyLabel: string;
+};
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 20;
+const FIT_PADDING = 40;
+
+/**
+ * 分享页的只读 Paper 画布：独立 PaperScope 导入 paperJson，不挂任何编辑工具，
+ * 只支持滚轮缩放与拖拽平移。
+ */
+export default function SharedPaperCanvas({ paperJson, emptyLabel }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [empty, setEmpty] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const scope = new paper.PaperScope();
+    scope.setup(canvas);
+    const view = scope.view;
+
+    let hasContent = false;
+    if (paperJson) {
+      try {
+        scope.project.importJSON(
+          mapPaperJsonRasterSources(paperJson, (source) => toRenderableImageSrc(source))
+        );
+        hasContent = scope.project.layers.some((layer) => layer.children.length > 0);
+      } catch (error) {
+        console.warn('[SharedPaperCanvas] importJSON failed:', error);
+      }
+    }
+    setEmpty(!hasContent);
+
+    const fit = () => {
+      const bounds = scope.project.layers.reduce<paper.Rectangle | null>((acc, layer) => {
+        if (!layer.visible || layer.children.length === 0) return acc;
+        return acc ? acc.unite(layer.bounds) : layer.bounds.clone();
+      }, null);
+      if (!bounds || bounds.width <= 0 || bounds.height <= 0) return;
+      const size = view.viewSize;
+      const zoom = Math.min(
+        (size.width - FIT_PADDING * 2) / bounds.width,
+        (size.height - FIT_PADDING * 2) / bounds.height
+      );
+      view.zoom = Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+      view.center = bounds.center;
+    };
+    fit();
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchor = view.viewToProject(new scope.Point(event.clientX - rect.left, event.clientY - rect.top));
+      const nextZoom = Math.min(Math.max(view.zoom * Math.exp(-event.deltaY * 0.0015), MIN_ZOOM), MAX_ZOOM);
+      const factor = view.zoom / nextZoom;
+      view.zoom = nextZoom;
+      view.center = anchor.add(view.center.subtract(anchor).multiply(factor));
+    };
+
+    let dragFrom: { x: number; y: number } | null = null;
+    const onPointerDown = (event: PointerEvent) => {
+      dragFrom = { x: event.clientX, y: event.clientY };
+      canvas.setPointerCapture(event.pointerId);
+    };
+    const onPointerMove = (event: PointerEvent) => {
+      if (!dragFrom) return;
+      const dx = (event.clientX - dragFrom.x) / view.zoom;
+      const dy = (event.clientY - dragFrom.y) / view.zoom;
+      dragFrom = { x: event.clientX, y: event.clientY };
+      view.center = view.center.subtract(new scope.Point(dx, dy));
+    };
+    const onPointerUp = () => {
+      dragFrom = null;
+    };
+
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointercancel', onPointerUp);
+    canvas.addEventListener('dblclick', fit);
+
+    return () => {
+      canvas.removeEventListener('wheel', onWheel);
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointercancel', onPointerUp);
+      canvas.removeEventListener('dblclick', fit);
+      scope.project.remove();
+      view.remove();
+    };
+  }, [paperJson]);
+
+  return (
+    <div className="relative h-full w-full bg-[#f5f5f5]">
+      <canvas
+        ref={canvasRef}
+        className="block h-full w-full cursor-grab active:cursor-grabbing"
+        data-paper-resize="true"
+      />
+      {empty && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+          {emptyLabel}
+        </div>
+      )}
+    </div>
+  );
+}
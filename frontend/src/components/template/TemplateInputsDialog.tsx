@@ -0,0 +1,198 @@
+import React from "react";
+import { createPortal } from "react-dom";
+import { ImagePlus, X } from "lucide-react";
+import type { FlowTemplate, FlowTemplateInput } from "@/types/template";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getFlowTemplateInputDefaults,
+  getMissingFlowTemplateInputs,
+  type FlowTemplateInputValues,
+} from "@/utils/flowTemplateInputs";
+import { useLocaleText } from "@/utils/localeText";
+
+interface Props {
+  template: FlowTemplate;
+  onCancel: () => void;
+  onSubmit: (values: FlowTemplateInputValues) => void;
+}
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// 实例化 schemaVersion 2 模板前收集暴露输入的表单
+export function TemplateInputsDialog({ template, onCancel, onSubmit }: Props) {
+  const { lt } = useLocaleText();
+  const [values, setValues] = React.useState<FlowTemplateInputValues>(() =>
+    getFlowTemplateInputDefaults(template)
+  );
+  const [missingKeys, setMissingKeys] = React.useState<Set<string>>(new Set());
+
+  const setValue = (key: string, value: string | number) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setMissingKeys((prev) => {
+      if (!prev.has(key)) return prev;
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const missing = getMissingFlowTemplateInputs(template, values);
+    if (missing.length) {
+      setMissingKeys(new Set(missing.map((input) => input.key)));
+      return;
+    }
+    onSubmit(values);
+  };
+
+  const renderField = (input: FlowTemplateInput) => {
+    const value = values[input.key];
+    const stringValue = value === undefined ? "" : String(value);
+    if (input.type === "text") {
+      return (
+        <Textarea
+          value={stringValue}
+          placeholder={input.placeholder}
+          onChange={(e) => setValue(input.key, e.target.value)}
+          className='min-h-[72px] rounded-xl'
+        />
+      );
+    }
+    if (input.type === "enum") {
+      return (
+        <select
+          value={stringValue}
+          onChange={(e) => setValue(input.key, e.target.value)}
+          className='h-9 w-full rounded-xl border border-gray-300 bg-white px-3 text-sm'
+        >
+          {!stringValue && <option value=''>{lt("请选择", "Select")}</option>}
+          {(input.options || []).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label || option.value}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    if (input.type === "number") {
+      return (
+        <Input
+          type='number'
+          value={stringValue}
+          min={input.min}
+          max={input.max}
+          step={input.step}
+          placeholder={input.placeholder}
+          onChange={(e) => setValue(input.key, e.target.value)}
+          className='rounded-xl'
+        />
+      );
+    }
+    return (
+      <div className='flex items-center gap-3'>
+        <div className='w-16 h-16 shrink-0 rounded-xl border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center'>
+          {stringValue ? (
+            <img src={stringValue} alt='' className='w-full h-full object-cover' />
+          ) : (
+            <ImagePlus className='w-5 h-5 text-slate-400' />
+          )}
+        </div>
+        <div className='flex-1 flex flex-col gap-2'>
+          <Input
+            value={stringValue.startsWith("data:") ? "" : stringValue}
+            placeholder={
+              stringValue.startsWith("data:")
+                ? lt("已选择本地图片", "Local image selected")
+                : input.placeholder || lt("粘贴图片链接", "Paste image URL")
+            }
+            onChange={(e) => setValue(input.key, e.target.value)}
+            className='rounded-xl'
+          />
+          <label className='text-xs text-slate-500 cursor-pointer hover:text-slate-700'>
+            <input
+              type='file'
+              accept='image/*'
+              className='hidden'
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (!file) return;
+                try {
+                  setValue(input.key, await readFileAsDataUrl(file));
+                } catch (error) {
+                  console.warn("[TemplateInputsDialog] 读取图片失败", error);
+                }
+              }}
+            />
+            {lt("从本地选择…", "Choose a file…")}
+          </label>
+        </div>
+      </div>
+    );
+  };
+
+  return createPortal(
+    <div
+      className='fixed inset-0 z-[1200] flex items-center justify-center bg-black/30 backdrop-blur-sm'
+      onClick={onCancel}
+    >
+      <form
+        className='relative w-full max-w-md mx-4 max-h-[80vh] flex flex-col rounded-3xl bg-white shadow-[0_32px_80px_rgba(15,23,42,0.18)] border border-slate-200/80 p-6'
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <button
+          type='button'
+          onClick={onCancel}
+          className='absolute top-4 right-4 w-8 h-8 rounded-full flex items-center justify-center hover:bg-slate-100 transition-colors text-slate-400'
+        >
+          <X className='w-4 h-4' />
+        </button>
+        <h2 className='text-base font-semibold text-slate-800 mb-1 pr-8'>
+          {template.name}
+        </h2>
+        <p className='text-xs text-slate-500 mb-4'>
+          {lt(
+            "填写模板输入，将自动写入对应节点",
+            "Fill in the template inputs; they are applied to the bound nodes"
+          )}
+        </p>
+        <div className='flex-1 overflow-y-auto flex flex-col gap-4 pr-1'>
+          {template.inputs.map((input) => (
+            <div key={input.key} className='flex flex-col gap-1.5'>
+              <span className='text-sm font-medium text-slate-700'>
+                {input.label}
+                {input.required && <span className='text-red-500 ml-0.5'>*</span>}
+              </span>
+              {input.description && (
+                <span className='text-xs text-slate-400'>{input.description}</span>
+              )}
+              {renderField(input)}
+              {missingKeys.has(input.key) && (
+                <span className='text-xs text-red-500'>{lt("必填", "Required")}</span>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className='flex gap-3 mt-5'>
+          <Button type='button' variant='outline' className='flex-1 rounded-xl' onClick={onCancel}>
+            {lt("取消", "Cancel")}
+          </Button>
+          <Button type='submit' className='flex-1 rounded-xl'>
+            {lt("使用模板", "Use template")}
+          </Button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,109 @@
+import React from "react";
+import { createPortal } from "react-dom";
+import { X } from "lucide-react";
+import type { FlowTemplateInput, FlowTemplateInputType } from "@/types/template";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  selectFlowTemplateInputs,
+  type FlowTemplateInputPick,
+} from "@/utils/flowTemplateInputs";
+import { useLocaleText } from "@/utils/localeText";
+
+interface Props {
+  templateName: string;
+  candidates: FlowTemplateInput[];
+  onCancel: () => void;
+  onConfirm: (inputs: FlowTemplateInput[]) => void;
+}
+
+// 保存模板时挑选暴露给使用者的输入：候选来自 inferFlowTemplateInputs，默认全选，可改名
+export function TemplateInputsPickerDialog({
+  templateName,
+  candidates,
+  onCancel,
+  onConfirm,
+}: Props) {
+  const { lt } = useLocaleText();
+  const [picks, setPicks] = React.useState<FlowTemplateInputPick[]>(() =>
+    candidates.map((input) => ({ key: input.key, enabled: true, label: input.label }))
+  );
+
+  const typeLabels: Record<FlowTemplateInputType, string> = {
+    text: lt("文本", "Text"),
+    image: lt("图片", "Image"),
+    enum: lt("选项", "Option"),
+    number: lt("数字", "Number"),
+  };
+
+  const updatePick = (key: string, patch: Partial<FlowTemplateInputPick>) => {
+    setPicks((prev) => prev.map((pick) => (pick.key === key ? { ...pick, ...patch } : pick)));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onConfirm(selectFlowTemplateInputs(candidates, picks));
+  };
+
+  return createPortal(
+    <div
+      className='fixed inset-0 z-[1200] flex items-center justify-center bg-black/30 backdrop-blur-sm'
+      onClick={onCancel}
+    >
+      <form
+        className='relative w-full max-w-md mx-4 max-h-[80vh] flex flex-col rounded-3xl bg-white shadow-[0_32px_80px_rgba(15,23,42,0.18)] border border-slate-200/80 p-6'
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <button
+          type='button'
+          onClick={onCancel}
+          className='absolute top-4 right-4 w-8 h-8 rounded-full flex items-center justify-center hover:bg-slate-100 transition-colors text-slate-400'
+        >
+          <X className='w-4 h-4' />
+        </button>
+        <h2 className='text-base font-semibold text-slate-800 mb-1 pr-8'>{templateName}</h2>
+        <p className='text-xs text-slate-500 mb-4'>
+          {lt(
+            "勾选使用模板时要填写的输入，可修改显示名称",
+            "Choose the inputs users fill in when using this template, and rename them if needed"
+          )}
+        </p>
+        <div className='flex-1 overflow-y-auto flex flex-col gap-3 pr-1'>
+          {candidates.map((input, index) => {
+            const pick = picks[index];
+            return (
+              <label key={input.key} className='flex items-center gap-3'>
+                <input
+                  type='checkbox'
+                  checked={pick.enabled}
+                  onChange={(e) => updatePick(input.key, { enabled: e.target.checked })}
+                  className='w-4 h-4 shrink-0'
+                />
+                <Input
+                  value={pick.label}
+                  disabled={!pick.enabled}
+                  placeholder={input.label}
+                  onChange={(e) => updatePick(input.key, { label: e.target.value })}
+                  className='flex-1 rounded-xl'
+                />
+                <span className='w-10 shrink-0 text-xs text-slate-400 text-right'>
+                  {typeLabels[input.type]}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+        <div className='flex gap-3 mt-5'>
+          <Button type='button' variant='outline' className='flex-1 rounded-xl' onClick={onCancel}>
+            {lt("取消", "Cancel")}
+          </Button>
+          <Button type='submit' className='flex-1 rounded-xl'>
+            {lt("保存模板", "Save template")}
+          </Button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * 画板尺寸预设面板
+ * 画板工具激活时显示：选中预设后单击画布放置，拖拽则框出自定义尺寸
+ */
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useTranslation } from 'react-i18next';
+import { FRAME_PRESETS, type FramePresetCategory } from '@/utils/canvasFrames';
+
+interface FramePresetPanelProps {
+  selectedPresetId: string;
+  onSelect: (presetId: string) => void;
+}
+
+const CATEGORY_ORDER: FramePresetCategory[] = ['social', 'print', 'screen'];
+
+const FramePresetPanel: React.FC<FramePresetPanelProps> = ({ selectedPresetId, onSelect }) => {
+  const { i18n } = useTranslation();
+  const isZh = (i18n.resolvedLanguage || i18n.language || '')
+    .toLowerCase()
+    .startsWith('zh');
+  const lt = (zh: string, en: string) => (isZh ? zh : en);
+
+  const categoryLabels: Record<FramePresetCategory, string> = {
+    social: lt('社交媒体', 'Social'),
+    print: lt('打印', 'Print'),
+    screen: lt('演示', 'Screen'),
+  };
+
+  return (
+    <div className="tanva-text-style-panel absolute left-full ml-3 transition-all duration-[50ms] ease-out z-[1001]" style={{ top: '-14px' }}>
+      <div className="tanva-text-style-panel-card flex flex-col gap-2 px-3 py-3 rounded-2xl bg-white shadow-lg border border-gray-200 min-w-[200px]">
+        {CATEGORY_ORDER.map((category) => (
+          <div key={category} className="flex flex-col gap-1">
+            <div className="text-[11px] text-gray-400">{categoryLabels[category]}</div>
+            {FRAME_PRESETS.filter((preset) => preset.category === category).map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                className={cn(
+                  'flex items-center justify-between gap-3 rounded-md px-2 py-1 text-left text-xs hover:bg-gray-100',
+                  preset.id === selectedPresetId && 'bg-gray-100 font-medium text-gray-900'
+                )}
+                onClick={() => onSelect(preset.id)}
+              >
+                <span>{isZh ? preset.label : preset.labelEn}</span>
+                <span className="text-gray-400">{preset.width}×{preset.height}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+        <div className="text-[11px] leading-4 text-gray-400">
+          {lt('单击画布放置，拖拽框出自定义尺寸', 'Click to place, drag for a custom size')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FramePresetPanel;
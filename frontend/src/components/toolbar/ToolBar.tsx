@@ -2,8 +2,9 @@ import React from 'react';
 import { Button } from '../ui/button';
 import { Separator } from '../ui/separator';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
-import { Eraser, Square, Trash2, Box, Image, Layers, Sparkles, Type, GitBranch, MousePointer2, LayoutTemplate, FolderOpen, MessageSquare } from 'lucide-react';
+import { Eraser, Square, Trash2, Box, Image, Layers, Sparkles, Type, GitBranch, MousePointer2, LayoutTemplate, FolderOpen, MessageSquare, Frame } from 'lucide-react';
 import TextStylePanel from './TextStylePanel';
+import FramePresetPanel from './FramePresetPanel';
 import ColorPicker from './ColorPicker';
 import { useToolStore, useUIStore } from '@/stores';
 import { useAIChatStore } from '@/stores/aiChatStore';
@@ -368,6 +369,7 @@ const ToolBar: React.FC<ToolBarProps> = ({ onClearCanvas }) => {
     lineStyle,
     isEraser,
     hasFill,
+    framePresetId,
     setDrawMode: setToolDrawMode,
     setCurrentColor,
     setFillColor,
@@ -375,6 +377,7 @@ const ToolBar: React.FC<ToolBarProps> = ({ onClearCanvas }) => {
     setLineStyle,
     toggleEraser: toggleToolEraser,
     toggleFill,
+    setFramePresetId,
   } = useToolStore();
 
   const {
@@ -926,11 +929,11 @@ const ToolBar: React.FC<ToolBarProps> = ({ onClearCanvas }) => {
         <Tooltip open={isSubMenuOpen ? false : undefined}>
           <TooltipTrigger asChild>
             <Button
-              variant={isToolButtonActive(drawMode !== 'select' && drawMode !== 'marquee' && drawMode !== 'pointer' && drawMode !== 'text' && drawMode !== 'image' && drawMode !== '3d-model' && drawMode !== 'screenshot' && !isEraser) ? "default" : "outline"}
+              variant={isToolButtonActive(drawMode !== 'select' && drawMode !== 'marquee' && drawMode !== 'pointer' && drawMode !== 'text' && drawMode !== 'image' && drawMode !== '3d-model' && drawMode !== 'screenshot' && drawMode !== 'frame' && !isEraser) ? "default" : "outline"}
               size="sm"
               className={cn(
                 "p-0 h-8 w-8 rounded-full",
-                getActiveButtonStyle(isToolButtonActive(drawMode !== 'select' && drawMode !== 'marquee' && drawMode !== 'pointer' && drawMode !== 'text' && drawMode !== 'image' && drawMode !== '3d-model' && drawMode !== 'screenshot' && !isEraser))
+                getActiveButtonStyle(isToolButtonActive(drawMode !== 'select' && drawMode !== 'marquee' && drawMode !== 'pointer' && drawMode !== 'text' && drawMode !== 'image' && drawMode !== '3d-model' && drawMode !== 'screenshot' && drawMode !== 'frame' && !isEraser))
               )}
               onClick={() => {
                 const isDrawingMode = drawingModes.includes(drawMode as typeof drawingModes[number]);
@@ -950,11 +953,11 @@ const ToolBar: React.FC<ToolBarProps> = ({ onClearCanvas }) => {
               {drawMode === 'rect' && <Square className="w-4 h-4" />}
               {drawMode === 'circle' && <CircleIcon className="w-4 h-4" />}
               {/* 如果是选择模式或独立工具模式，显示默认的自由绘制图标但为非激活状态 */}
-              {(drawMode === 'select' || drawMode === 'marquee' || drawMode === 'pointer' || drawMode === 'image' || drawMode === '3d-model' || drawMode === 'text' || drawMode === 'screenshot' || drawMode === 'polyline') && <FreeDrawIcon className="w-4 h-4" />}
+              {(drawMode === 'select' || drawMode === 'marquee' || drawMode === 'pointer' || drawMode === 'image' || drawMode === '3d-model' || drawMode === 'text' || drawMode === 'screenshot' || drawMode === 'frame' || drawMode === 'polyline') && <FreeDrawIcon className="w-4 h-4" />}
             </Button>
           </TooltipTrigger>
           <TooltipContent side="right">
-            {drawMode === 'select' || drawMode === 'marquee' || drawMode === 'pointer' || isEraser || drawMode === 'text' || drawMode === 'image' || drawMode === '3d-model' || drawMode === 'screenshot'
+            {drawMode === 'select' || drawMode === 'marquee' || drawMode === 'pointer' || isEraser || drawMode === 'text' || drawMode === 'image' || drawMode === '3d-model' || drawMode === 'screenshot' || drawMode === 'frame'
               ? lt('点击切换到自由绘制工具', 'Switch to free draw')
               : lt(
                   `当前工具：${drawMode === 'free' ? '自由绘制' : drawMode === 'line' ? '直线' : drawMode === 'arrow' ? '箭头' : drawMode === 'rect' ? '矩形' : drawMode === 'circle' ? '圆形' : drawMode === 'polyline' ? '多段线' : drawMode}`,
@@ -1191,6 +1194,35 @@ const ToolBar: React.FC<ToolBarProps> = ({ onClearCanvas }) => {
             )}
         </div>
 
+        {/* 画板工具 */}
+        <div className="relative">
+          <Tooltip open={isSubMenuOpen ? false : undefined}>
+            <TooltipTrigger asChild>
+              <Button
+                variant={isToolButtonActive(drawMode === 'frame') ? 'default' : 'outline'}
+                size="sm"
+                className={cn(
+                  "p-0 h-8 w-8 rounded-full",
+                  getActiveButtonStyle(isToolButtonActive(drawMode === 'frame'))
+                )}
+                onClick={() => {
+                  setDrawMode('frame');
+                  logger.tool('工具栏：切换到画板工具');
+                }}
+              >
+                <Frame className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="right">
+              {lt('画板：单击放置预设尺寸，拖拽自定义', 'Frame: click for preset size, drag for custom')}
+            </TooltipContent>
+          </Tooltip>
+
+          {drawMode === 'frame' && (
+            <FramePresetPanel selectedPresetId={framePresetId} onSelect={setFramePresetId} />
+          )}
+        </div>
+
       {/* AI编辑图像工具 - 暂时隐藏 */}
         {/* <Button
           variant="outline"
@@ -7,6 +7,7 @@ import type {
   CollabEnvelope,
   CollabEventType,
   CollabListener,
+  CollabViewport,
   CommentMarkerMovePayload,
   ConnectedPayload,
   NodePatchPayload,
@@ -36,8 +37,8 @@ export interface CanvasCollabHandle {
   degraded: boolean;
   subscribe: (type: CollabEventType | CollabEventType[], listener: CollabListener) => () => void;
   sendPatch: (patch: NodePatchPayload) => void;
-  /** x/y 为画布世界坐标（Paper project 坐标），由调用方换算后传入。 */
-  sendCursor: (x: number, y: number) => void;
+  /** x/y 为画布世界坐标（Paper project 坐标），由调用方换算后传入；viewport 为当前可见区域（同一坐标系）。 */
+  sendCursor: (x: number, y: number, viewport?: CollabViewport | null) => void;
   sendCommentMarkerMove: (threadId: string, x: number, y: number) => void;
   claimLock: (nodeId: string) => Promise<{ acquired: boolean; expiresAt: number; holder?: { userId: string } }>;
   renewLock: (nodeId: string) => Promise<{ acquired: boolean; expiresAt: number }>;
@@ -63,6 +64,7 @@ export function useCanvasCollab({ projectId, onAccessRevoked, onSnapshotRequired
   const pendingPatch = useRef<NodePatchPayload | null>(null);
   const patchLastFlush = useRef<number>(0);
   const cursorLastSent = useRef<number>(0);
+  const cursorTrailing = useRef<ReturnType<typeof setTimeout> | null>(null);
   const commentMarkerLastSent = useRef<number>(0);
   const lastSeqRef = useRef<number>(0);
   const seenSeqs = useRef<number[]>([]);
@@ -266,11 +268,32 @@ export function useCanvasCollab({ projectId, onAccessRevoked, onSnapshotRequired
   );
 
   const sendCursor = useCallback(
-    (x: number, y: number) => {
-      const now = Date.now();
-      if (now - cursorLastSent.current < CURSOR_THROTTLE_MS) return;
-      cursorLastSent.current = now;
-      realtimeClient.send({ type: 'cursor', payload: { x, y } });
+    (x: number, y: number, viewport?: CollabViewport | null) => {
+      const payload = viewport ? { x, y, viewport } : { x, y };
+      if (cursorTrailing.current) {
+        clearTimeout(cursorTrailing.current);
+        cursorTrailing.current = null;
+      }
+      const wait = CURSOR_THROTTLE_MS - (Date.now() - cursorLastSent.current);
+      if (wait > 0) {
+        // 节流窗口内只留最后一帧、窗口结束补发：停下后的最终光标/视口一定送达，
+        // 否则跟随者会停在平移途中的某一帧。
+        cursorTrailing.current = setTimeout(() => {
+          cursorTrailing.current = null;
+          cursorLastSent.current = Date.now();
+          realtimeClient.send({ type: 'cursor', payload });
+        }, wait);
+        return;
+      }
+      cursorLastSent.current = Date.now();
+      realtimeClient.send({ type: 'cursor', payload });
+    },
+    [],
+  );
+
+  useEffect(
+    () => () => {
+      if (cursorTrailing.current) clearTimeout(cursorTrailing.current);
     },
     [],
   );
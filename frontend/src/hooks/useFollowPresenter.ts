@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import paper from 'paper';
+import { shallow } from 'zustand/shallow';
+import { useCanvasStore } from '@/stores';
+import { getDpr } from '@/utils/paperCoords';
+import {
+  cameraDrifted,
+  sharedViewportToCamera,
+  type LocalCamera,
+} from '../collab/viewportPresence';
+import type { CollabViewport, PresenceUser } from '../collab/types';
+import type { PeerViewport } from './usePresence';
+
+export interface FollowPresenterHandle {
+  followingUserId: string | null;
+  /** 一次性跳到对端当前视角；对端还没上报过视口时返回 false。 */
+  jumpTo: (userId: string) => boolean;
+  /** 跳过去并持续跟随，直到本地平移/缩放、按 Esc 或对端离开。 */
+  follow: (userId: string) => boolean;
+  stopFollowing: () => void;
+}
+
+const readViewSize = () => {
+  const size = paper?.view?.viewSize;
+  if (size && size.width > 0 && size.height > 0) return { width: size.width, height: size.height };
+  const dpr = getDpr();
+  return { width: window.innerWidth * dpr, height: window.innerHeight * dpr };
+};
+
+/**
+ * 「跳转到成员视角 / 跟随演示者」。相机写入 canvasStore.setViewport（与缩放控件同一入口），
+ * 记下期望值；之后 canvasStore 的视口一旦偏离期望（用户自己拖动/滚轮），即视为离开跟随。
+ */
+export function useFollowPresenter(
+  viewports: Record<string, PeerViewport>,
+  online: PresenceUser[],
+): FollowPresenterHandle {
+  const [followingUserId, setFollowingUserId] = useState<string | null>(null);
+  const expectedRef = useRef<LocalCamera | null>(null);
+  const followingRef = useRef<string | null>(null);
+  const viewportsRef = useRef(viewports);
+
+  useEffect(() => {
+    viewportsRef.current = viewports;
+  }, [viewports]);
+
+  const applyViewport = useCallback((viewport: CollabViewport): boolean => {
+    const camera = sharedViewportToCamera(viewport, readViewSize(), getDpr());
+    if (!camera) return false;
+    // 先写期望再 setViewport：store 订阅是同步回调，否则会把自己这次写入误判为用户挪动
+    expectedRef.current = camera;
+    useCanvasStore.getState().setViewport(camera);
+    // setViewport 会夹取缩放范围，以实际落地值作为期望
+    const { zoom, panX, panY } = useCanvasStore.getState();
+    expectedRef.current = { zoom, panX, panY };
+    return true;
+  }, []);
+
+  const stopFollowing = useCallback(() => {
+    followingRef.current = null;
+    expectedRef.current = null;
+    setFollowingUserId(null);
+  }, []);
+
+  const jumpTo = useCallback(
+    (userId: string) => {
+      const viewport = viewportsRef.current[userId];
+      if (!viewport) return false;
+      if (followingRef.current && followingRef.current !== userId) stopFollowing();
+      return applyViewport(viewport);
+    },
+    [applyViewport, stopFollowing],
+  );
+
+  const follow = useCallback(
+    (userId: string) => {
+      const viewport = viewportsRef.current[userId];
+      if (!viewport || !applyViewport(viewport)) return false;
+      followingRef.current = userId;
+      setFollowingUserId(userId);
+      return true;
+    },
+    [applyViewport],
+  );
+
+  // 演示者视口更新 → 跟着走
+  const followedViewport = followingUserId ? viewports[followingUserId] : undefined;
+  useEffect(() => {
+    if (followingUserId && followedViewport) applyViewport(followedViewport);
+  }, [followingUserId, followedViewport, applyViewport]);
+
+  // 本地相机偏离期望 → 用户自己动了画布，退出跟随
+  useEffect(() => {
+    if (!followingUserId) return;
+    return useCanvasStore.subscribe(
+      (state) => ({ zoom: state.zoom, panX: state.panX, panY: state.panY }),
+      (camera) => {
+        const expected = expectedRef.current;
+        if (followingRef.current && expected && cameraDrifted(expected, camera)) stopFollowing();
+      },
+      { equalityFn: shallow },
+    );
+  }, [followingUserId, stopFollowing]);
+
+  // 演示者离开项目 → 退出跟随
+  useEffect(() => {
+    if (followingUserId && !online.some((u) => u.userId === followingUserId)) stopFollowing();
+  }, [followingUserId, online, stopFollowing]);
+
+  useEffect(() => {
+    if (!followingUserId) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') stopFollowing();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [followingUserId, stopFollowing]);
+
+  return { followingUserId, jumpTo, follow, stopFollowing };
+}
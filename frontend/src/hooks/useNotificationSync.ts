@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { useTeamStore } from '@/stores/teamStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+
+/** 非团队模式（无 WS 连接）下未读数的轮询间隔；团队模式靠 useTeamRealtime 实时推送。 */
+const UNREAD_POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 通知铃铛的数据同步：登录后拉未读数与静音偏好，退出登录清空。
+ * 个人模式不建立实时连接，改为定时 + 窗口重新聚焦时刷新未读数。
+ * 在 App 外壳挂载一次。
+ */
+export function useNotificationSync(): void {
+  const userId = useAuthStore((s) => s.user?.id ?? null);
+  const isTeamMode = useTeamStore((s) => {
+    const t = s.teams.find((team) => team.id === s.activeTeamId);
+    return Boolean(t && !t.isPersonal);
+  });
+
+  useEffect(() => {
+    const store = useNotificationStore.getState();
+    if (!userId) {
+      store.reset();
+      return;
+    }
+    void store.refreshUnreadCount();
+    void store.loadPreferences();
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const refresh = () => {
+      if (document.visibilityState === 'hidden') return;
+      void useNotificationStore.getState().refreshUnreadCount();
+    };
+    window.addEventListener('focus', refresh);
+    // 团队模式下 WS 负责实时推送，只在重新聚焦时兜底校准一次。
+    const timer = isTeamMode ? null : window.setInterval(refresh, UNREAD_POLL_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('focus', refresh);
+      if (timer !== null) window.clearInterval(timer);
+    };
+  }, [userId, isTeamMode]);
+}
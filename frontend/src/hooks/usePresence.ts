@@ -2,11 +2,13 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import type { CanvasCollabHandle } from './useCanvasCollab';
 import type {
   CollabEnvelope,
+  CollabViewport,
   ConnectedPayload,
   CursorPayload,
   PresenceUser,
 } from '../collab/types';
 import { assignUniqueColors, colorFor } from '../collab/presenceColors';
+import { readCollabViewport } from '../collab/viewportPresence';
 
 const CURSOR_STALE_MS = 5_000;
 
@@ -14,18 +16,26 @@ export interface PeerCursor extends CursorPayload {
   receivedAt: number;
 }
 
+export interface PeerViewport extends CollabViewport {
+  userId: string;
+  receivedAt: number;
+}
+
 export interface PresenceState {
   online: PresenceUser[];
   cursors: Record<string, PeerCursor>;
+  /** 对端最近一次上报的可见区域；不随光标 5s 过期（演示者可能长时间不动鼠标），离开项目时清除。 */
+  viewports: Record<string, PeerViewport>;
 }
 
 /**
  * Subscribes to presence events and cursor frames. Returns the live set of
- * online users and a map of their latest cursor positions.
+ * online users, a map of their latest cursor positions and their viewports.
  */
 export function usePresence(collab: CanvasCollabHandle | null | undefined): PresenceState {
   const [online, setOnline] = useState<PresenceUser[]>([]);
   const [cursors, setCursors] = useState<Record<string, PeerCursor>>({});
+  const [viewports, setViewports] = useState<Record<string, PeerViewport>>({});
   const sweepTimer = useRef<ReturnType<typeof setInterval> | null>(null);
 
   useEffect(() => {
@@ -63,6 +73,12 @@ export function usePresence(collab: CanvasCollabHandle | null | undefined): Pres
         delete next[p.userId];
         return next;
       });
+      setViewports((prev) => {
+        if (!(p.userId in prev)) return prev;
+        const next = { ...prev };
+        delete next[p.userId];
+        return next;
+      });
     });
 
     const offCursor = collab.subscribe('cursor', (env: CollabEnvelope) => {
@@ -75,6 +91,13 @@ export function usePresence(collab: CanvasCollabHandle | null | undefined): Pres
           receivedAt: Date.now(),
         },
       }));
+      const viewport = readCollabViewport(c.viewport);
+      if (viewport) {
+        setViewports((prev) => ({
+          ...prev,
+          [c.userId]: { ...viewport, userId: c.userId, receivedAt: Date.now() },
+        }));
+      }
     });
 
     sweepTimer.current = setInterval(() => {
@@ -132,5 +155,5 @@ export function usePresence(collab: CanvasCollabHandle | null | undefined): Pres
     return out;
   }, [cursors, colorMap]);
 
-  return { online: onlineColored, cursors: cursorsColored };
+  return { online: onlineColored, cursors: cursorsColored, viewports };
 }
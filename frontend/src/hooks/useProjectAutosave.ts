@@ -16,6 +16,7 @@ import {
   sanitizeProjectContentForCloudSave,
 } from '@/utils/projectContentValidation';
 import type { ProjectContentSnapshot } from '@/types/project';
+import i18n from '@/i18n';
 
 const AUTOSAVE_INTERVAL = 60 * 1000;
 const DEBOUNCE_DELAY = 5 * 1000;
@@ -195,10 +196,23 @@ export function useProjectAutosave(projectId: string | null) {
         } catch {
           // noop
         }
+        const conflictCount = result.conflictCount ?? result.conflicts?.length ?? 0;
         saveMonitor.push(currentProjectId, 'save_merged_adopted', {
           version: result.version,
           attempt,
+          conflictCount,
         });
+        // 三方合并里双方改了同一处：服务端已按规则取舍（同字段以本地为准，删除让位于修改），提示用户核对。
+        if (conflictCount > 0) {
+          window.dispatchEvent(
+            new CustomEvent('toast', {
+              detail: {
+                message: i18n.t('workspacePage.autosave.mergeConflicts', { count: conflictCount }),
+                type: 'warning',
+              },
+            })
+          );
+        }
       }
 
       try {
@@ -3,9 +3,11 @@ import { useTeamStore } from '@/stores/teamStore';
 import { useAuthStore } from '@/stores/authStore';
 import { useProjectStore } from '@/stores/projectStore';
 import { useProjectContentStore } from '@/stores/projectContentStore';
+import { useNotificationStore } from '@/stores/notificationStore';
 import { realtimeClient } from '@/services/realtimeClient';
 import type {
   CollabEnvelope,
+  NotificationPushPayload,
   TeamCreditsChangedPayload,
   TeamProjectsChangedPayload,
 } from '@/collab/types';
@@ -76,6 +78,10 @@ export function useTeamRealtime(): void {
         try {
           window.dispatchEvent(new CustomEvent('refresh-credits'));
         } catch {}
+      } else if (env.type === 'notification') {
+        const p = env.payload as NotificationPushPayload;
+        if (!p?.notification?.id) return;
+        useNotificationStore.getState().receive(p.notification, p.unreadCount);
       } else if (env.type === 'team_projects_changed') {
         const p = env.payload as TeamProjectsChangedPayload;
         // 仅刷新当前激活团队的列表（其他团队的变更无需打断当前视图）。
@@ -182,11 +182,38 @@ const enUS = {
       languageTitle: "Interface Language",
       languageDesc: "Switch between Chinese and English",
     },
+    notifications: {
+      title: "Notifications",
+      markAllRead: "Mark all read",
+      empty: "No notifications",
+      loadMore: "Load more",
+      loadFailed: "Failed to load notifications",
+      settings: "Notification settings",
+      mutedHint: "Muted types are no longer created",
+      justNow: "Just now",
+      someone: "Someone",
+      types: {
+        mention: "Comment mentions",
+        team_invite: "Team invites",
+        task_completed: "Long tasks finished",
+        credits_expiring: "Credits expiring",
+        project_budget: "Project budget alerts",
+      },
+      messages: {
+        mention: "{{actor}} mentioned you in a comment on \"{{project}}\"",
+        team_invite: "{{actor}} invited you to join \"{{team}}\"",
+        taskSucceeded: "Video task finished",
+        taskFailed: "Video task failed: {{error}}",
+        credits_expiring: "{{amount}} credits expire on {{date}}",
+        project_budget: "Project \"{{project}}\" has used {{threshold}}% of its credit budget",
+      },
+    },
     settings: {
       title: "Settings",
       sections: {
         workspace: "Workspace",
         referral: "Referral",
+        apiKeys: "API Keys",
         appearance: "Appearance",
         ai: "AI Settings",
         advanced: "Advanced",
@@ -228,6 +255,34 @@ const enUS = {
           empty: "No credit info available.",
         },
       },
+      apiKeysTab: {
+        title: "API Keys",
+        desc: "Call generation features through the public AI API; each call is charged to the key's account",
+        personal: "Personal",
+        namePlaceholder: "Name, e.g. automation script",
+        expiresAt: "Expires at",
+        rateLimit: "Rate limit / min",
+        rateLimitPlaceholder: "Rate limit per minute (optional)",
+        unlimited: "Unlimited",
+        lastUsedAt: "Last used",
+        create: "Create key",
+        creating: "Creating...",
+        empty: "No API keys yet",
+        expired: "Expired",
+        rotate: "Rotate",
+        revoke: "Revoke",
+        dismiss: "I've saved it",
+        secretOnce: "The key for \"{{name}}\" is shown only once. Copy it now:",
+        renamePrompt: "Rename API key",
+        rotateConfirm: "Rotating invalidates the current key for \"{{name}}\" immediately. Continue?",
+        revokeConfirm: "\"{{name}}\" will no longer be able to make calls. Revoke it?",
+        scopes: {
+          image: "Image",
+          video: "Video",
+          audio: "Audio",
+          chat: "Chat",
+        },
+      },
       referralTab: {
         alerts: {
           checkInSuccess: "Check-in successful. You earned {{reward}} credits{{bonus}}",
@@ -513,6 +568,9 @@ const enUS = {
       title: "Recent Projects",
       empty: 'No projects yet. Click "New Project" to start creating.',
     },
+    autosave: {
+      mergeConflicts: "{{count}} conflicting edits with collaborators were merged automatically (your changes win on the same field). Please review.",
+    },
   },
   chat: {
     common: {
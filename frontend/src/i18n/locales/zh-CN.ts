@@ -182,11 +182,38 @@ const zhCN = {
       languageTitle: "界面语言",
       languageDesc: "切换中文 / English",
     },
+    notifications: {
+      title: "通知",
+      markAllRead: "全部已读",
+      empty: "暂无通知",
+      loadMore: "加载更多",
+      loadFailed: "通知加载失败",
+      settings: "通知设置",
+      mutedHint: "关闭后该类通知不再产生",
+      justNow: "刚刚",
+      someone: "有人",
+      types: {
+        mention: "评论 @ 我",
+        team_invite: "团队邀请",
+        task_completed: "长任务完成",
+        credits_expiring: "积分即将过期",
+        project_budget: "项目预算告警",
+      },
+      messages: {
+        mention: "{{actor}} 在「{{project}}」的评论中提到了你",
+        team_invite: "{{actor}} 邀请你加入团队「{{team}}」",
+        taskSucceeded: "视频任务已完成",
+        taskFailed: "视频任务失败：{{error}}",
+        credits_expiring: "{{amount}} 积分将于 {{date}} 过期",
+        project_budget: "项目「{{project}}」的积分预算已用 {{threshold}}%",
+      },
+    },
     settings: {
       title: "设置",
       sections: {
         workspace: "工作区",
         referral: "推广激励",
+        apiKeys: "API Key",
         appearance: "视图外观",
         ai: "AI 设置",
         advanced: "高级",
@@ -228,6 +255,34 @@ const zhCN = {
           empty: "暂无积分信息",
         },
       },
+      apiKeysTab: {
+        title: "API Key",
+        desc: "用于通过公开 AI API 调用生成能力，每次调用按 key 所属账户扣除积分",
+        personal: "个人",
+        namePlaceholder: "名称，例如：自动化脚本",
+        expiresAt: "过期时间",
+        rateLimit: "每分钟限流",
+        rateLimitPlaceholder: "每分钟限流（可选）",
+        unlimited: "不限",
+        lastUsedAt: "最近使用",
+        create: "创建 Key",
+        creating: "创建中...",
+        empty: "还没有 API Key",
+        expired: "已过期",
+        rotate: "轮换",
+        revoke: "撤销",
+        dismiss: "我已保存",
+        secretOnce: "「{{name}}」的 Key 只显示这一次，请立即复制保存：",
+        renamePrompt: "重命名 API Key",
+        rotateConfirm: "轮换后「{{name}}」的旧 Key 立即失效，确定继续？",
+        revokeConfirm: "撤销后「{{name}}」将无法再调用，确定继续？",
+        scopes: {
+          image: "图片",
+          video: "视频",
+          audio: "音频",
+          chat: "对话",
+        },
+      },
       referralTab: {
         alerts: {
           checkInSuccess: "签到成功，获得 {{reward}} 积分{{bonus}}",
@@ -512,6 +567,9 @@ const zhCN = {
       title: "最近的项目",
       empty: "暂无项目，点击“新建项目”开始创作",
     },
+    autosave: {
+      mergeConflicts: "与协作者的改动有 {{count}} 处冲突，已自动合并（同一字段以你的修改为准），请核对",
+    },
   },
   chat: {
     common: {
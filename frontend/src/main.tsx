@@ -23,6 +23,8 @@ import Workspace from '@/pages/Workspace';
 const DirectorHarnessPage = lazy(() => import('@/pages/DirectorHarnessPage'));
 const ForcedRigTestPage = lazy(() => import('@/pages/ForcedRigTestPage'));
 const ForcedCameraTestPage = lazy(() => import('@/pages/ForcedCameraTestPage'));
+// 公开分享查看页无需登录，独立分包
+const SharePage = lazy(() => import('@/pages/SharePage'));
 import { initializeRuntimeStability } from '@/bootstrap/runtimeStability';
 import RuntimeErrorBoundary from '@/components/RuntimeErrorBoundary';
 
@@ -44,6 +46,7 @@ function RootRoutes() {
         <Route path="/legal/privacy" element={<PrivacyPolicy />} />
         <Route path="/legal/community" element={<CommunityGuidelines />} />
         <Route path="/oss" element={<OSSDemo />} />
+        <Route path="/share/:token" element={<Suspense fallback={null}><SharePage /></Suspense>} />
         <Route path="/director-harness" element={<Suspense fallback={null}><DirectorHarnessPage /></Suspense>} />
         <Route path="/forced-rig-test" element={<Suspense fallback={null}><ForcedRigTestPage /></Suspense>} />
         <Route path="/forced-camera-test" element={<Suspense fallback={null}><ForcedCameraTestPage /></Suspense>} />
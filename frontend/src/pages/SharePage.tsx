@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useLocation, useParams } from 'react-router-dom';
+import { ExternalLink, Lock, MessageSquare } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import SharedPaperCanvas from '@/components/share/SharedPaperCanvas';
+import SharedFlowView from '@/components/share/SharedFlowView';
+import { useAuthStore } from '@/stores/authStore';
+import type { CanvasCommentThread } from '@/services/canvasCommentsApi';
+import {
+  createSharedCommentThread,
+  getSharedProject,
+  listSharedComments,
+  replySharedCommentThread,
+  ShareRequestError,
+  type SharedProjectDto,
+} from '@/services/projectShareApi';
+import { buildShareUrl, parseShareViewerSearch, type ShareViewerTab } from '@/utils/projectShare';
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'password'; error: string | null }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; data: SharedProjectDto };
+
+/**
+ * 公开分享查看页（/share/:token）：无需登录只读查看画布与 Flow。
+ * ?embed=1 为 iframe 嵌入模式，去掉页头与评论栏，只保留视图切换。
+ */
+export default function SharePage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const location = useLocation();
+  const { embed, view } = useMemo(() => parseShareViewerSearch(location.search), [location.search]);
+  const { i18n } = useTranslation();
+  const isZh = (i18n.resolvedLanguage || i18n.language || '').toLowerCase().startsWith('zh');
+  const lt = (zhText: string, enText: string) => (isZh ? zhText : enText);
+
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+  const [password, setPassword] = useState<string | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  const [tab, setTab] = useState<ShareViewerTab>(view ?? 'canvas');
+
+  const load = useCallback(
+    async (pwd: string | null) => {
+      setState({ status: 'loading' });
+      try {
+        const data = await getSharedProject(token, pwd);
+        setPassword(pwd);
+        setState({ status: 'ready', data });
+        // 未指定视图时：画布为空而 Flow 有内容则默认显示 Flow
+        if (!view && !data.content?.paperJson && (data.content?.flow?.nodes?.length ?? 0) > 0) setTab('flow');
+      } catch (err) {
+        if (err instanceof ShareRequestError && err.status === 401) {
+          setState({ status: 'password', error: pwd ? err.message : null });
+          return;
+        }
+        // 密码错误次数过多被临时锁定：停留在密码表单并提示稍后再试
+        if (err instanceof ShareRequestError && err.status === 429) {
+          setState({ status: 'password', error: err.message });
+          return;
+        }
+        setState({
+          status: 'error',
+          message:
+            err instanceof ShareRequestError && err.status === 410
+              ? lt('分享链接已过期', 'This link has expired')
+              : err instanceof ShareRequestError && err.status === 404
+                ? lt('分享链接不存在或已被撤销', 'This link does not exist or was revoked')
+                : err instanceof Error
+                  ? err.message
+                  : String(err),
+        });
+      }
+    },
+    // lt 只依赖语言，语言切换不需要重新请求
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [token, view]
+  );
+
+  useEffect(() => {
+    void load(null);
+  }, [load]);
+
+  useEffect(() => {
+    if (state.status === 'ready') document.title = `${state.data.project.name} · Tanva`;
+  }, [state]);
+
+  if (state.status === 'loading') {
+    return <CenteredMessage>{lt('加载中…', 'Loading…')}</CenteredMessage>;
+  }
+  if (state.status === 'error') {
+    return <CenteredMessage>{state.message}</CenteredMessage>;
+  }
+  if (state.status === 'password') {
+    return (
+      <CenteredMessage>
+        <form
+          className="flex w-72 flex-col items-center gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (passwordInput.trim()) void load(passwordInput.trim());
+          }}
+        >
+          <Lock className="h-6 w-6 text-slate-400" />
+          <div className="text-sm text-slate-600">{lt('此分享需要访问密码', 'This link is password protected')}</div>
+          <Input
+            type="password"
+            autoFocus
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            placeholder={lt('访问密码', 'Password')}
+          />
+          {state.error && <div className="text-xs text-red-600">{state.error}</div>}
+          <Button type="submit" className="w-full" disabled={!passwordInput.trim()}>
+            {lt('查看', 'View')}
+          </Button>
+        </form>
+      </CenteredMessage>
+    );
+  }
+
+  const { data } = state;
+  const tabs = (
+    <div className="flex items-center gap-0.5 rounded-lg bg-slate-100 p-0.5">
+      {(['canvas', 'flow'] as const).map((id) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => setTab(id)}
+          className={`rounded-md px-3 py-1 text-sm transition-colors ${
+            tab === id ? 'bg-white font-medium text-slate-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {id === 'canvas' ? lt('画布', 'Canvas') : 'Flow'}
+        </button>
+      ))}
+    </div>
+  );
+  const viewer =
+    tab === 'canvas' ? (
+      <SharedPaperCanvas paperJson={data.content?.paperJson} emptyLabel={lt('画布为空', 'Canvas is empty')} />
+    ) : (
+      <SharedFlowView flow={data.content?.flow} emptyLabel={lt('Flow 为空', 'Flow is empty')} />
+    );
+
+  if (embed) {
+    return (
+      <div className="relative h-screen w-screen overflow-hidden bg-white">
+        {viewer}
+        <div className="absolute left-3 top-3 z-10 flex items-center gap-2">
+          {tabs}
+          <a
+            href={buildShareUrl(window.location.origin, token)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 rounded-md bg-white/90 px-2 py-1 text-xs text-slate-600 shadow-sm hover:text-slate-900"
+          >
+            {data.project.name}
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen w-screen flex-col overflow-hidden bg-white">
+      <header className="flex items-center gap-3 border-b px-4 py-2">
+        <span className="truncate font-medium">{data.project.name}</span>
+        <span className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-500">
+          {data.access === 'comment' ? lt('可评论', 'Can comment') : lt('只读', 'Read-only')}
+        </span>
+        <div className="flex-1" />
+        {tabs}
+      </header>
+      <div className="flex min-h-0 flex-1">
+        <main className="min-w-0 flex-1">{viewer}</main>
+        {data.access === 'comment' && <SharedCommentsPanel token={token} password={password} lt={lt} />}
+      </div>
+    </div>
+  );
+}
+
+function CenteredMessage({ children }: { children: ReactNode }) {
+  return (
+    <div className="flex h-screen w-screen items-center justify-center bg-slate-50 text-sm text-slate-500">
+      {children}
+    </div>
+  );
+}
+
+/** comment 权限链接的评论栏：任何人可读，登录用户可发起 / 回复 */
+function SharedCommentsPanel({
+  token,
+  password,
+  lt,
+}: {
+  token: string;
+  password: string | null;
+  lt: (zhText: string, enText: string) => string;
+}) {
+  const user = useAuthStore((s) => s.user);
+  const initAuth = useAuthStore((s) => s.init);
+  const [threads, setThreads] = useState<CanvasCommentThread[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [sending, setSending] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setThreads(await listSharedComments(token, password));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [token, password]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  // 查看页不经过 ProtectedRoute：这里静默探测一次登录态，已登录才显示输入框
+  useEffect(() => {
+    if (!useAuthStore.getState().user) initAuth().catch(() => {});
+  }, [initAuth]);
+
+  const send = async (threadId: string | null) => {
+    const body = (threadId ? replyDrafts[threadId] : draft)?.trim();
+    if (!body) return;
+    setSending(true);
+    try {
+      if (threadId) {
+        await replySharedCommentThread(token, password, threadId, { body });
+        setReplyDrafts((prev) => ({ ...prev, [threadId]: '' }));
+      } else {
+        await createSharedCommentThread(token, password, { body });
+        setDraft('');
+      }
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <aside className="flex w-80 shrink-0 flex-col border-l">
+      <div className="flex items-center gap-2 border-b px-3 py-2 text-sm font-medium text-slate-700">
+        <MessageSquare className="h-4 w-4" />
+        {lt('评论', 'Comments')}
+      </div>
+      <div className="flex-1 space-y-3 overflow-y-auto p-3">
+        {error && <div className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700">{error}</div>}
+        {threads.length === 0 && <div className="text-center text-xs text-slate-400">{lt('暂无评论', 'No comments yet')}</div>}
+        {threads.map((thread) => (
+          <div key={thread.id} className="rounded-lg border p-2 text-sm">
+            {thread.comments.map((comment) => (
+              <div key={comment.id} className="py-1">
+                <div className="text-xs text-slate-400">{comment.author.name || lt('匿名', 'Anonymous')}</div>
+                <div className="whitespace-pre-wrap break-words text-slate-700">
+                  {comment.deleted ? lt('（已删除）', '(deleted)') : comment.body}
+                </div>
+              </div>
+            ))}
+            {user && (
+              <Input
+                className="mt-1 h-7 text-xs"
+                placeholder={lt('回复…', 'Reply…')}
+                value={replyDrafts[thread.id] ?? ''}
+                disabled={sending}
+                onChange={(e) => setReplyDrafts((prev) => ({ ...prev, [thread.id]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') void send(thread.id);
+                }}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="border-t p-3">
+        {user ? (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void send(null);
+            }}
+          >
+            <Input
+              className="h-8 text-sm"
+              placeholder={lt('发表评论…', 'Add a comment…')}
+              value={draft}
+              disabled={sending}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <Button type="submit" size="sm" disabled={sending || !draft.trim()}>
+              {lt('发送', 'Send')}
+            </Button>
+          </form>
+        ) : (
+          <a href="/auth/login" target="_blank" rel="noopener noreferrer" className="text-xs text-sky-600 hover:underline">
+            {lt('登录后即可评论', 'Sign in to comment')}
+          </a>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -12,6 +12,15 @@ import { logger } from '@/utils/logger';
 import { proxifyRemoteAssetUrl } from '@/utils/assetProxy';
 import { toRenderableImageSrc } from '@/utils/imageSource';
 import { canvasToBlob, canvasToDataUrl, dataUrlToBlob } from '@/utils/imageConcurrency';
+import { unionBounds } from '@/utils/canvasVectorExport';
+import { pickFrameInViewport, type FrameInfo } from '@/utils/canvasFrames';
+import {
+  findFrameBlock,
+  getVisibleFrameInfos,
+  isFrameBlock,
+  isFrameTitle,
+  toFrameInfo,
+} from '@/utils/paperFrameBlock';
 
 export interface ScreenshotOptions {
   /** 输出图片格式 */
@@ -38,6 +47,11 @@ export interface ScreenshotOptions {
     imageIds?: string[];
     modelIds?: string[];
   };
+  /**
+   * 按画板截图（画板 frameId），输出范围严格等于画板矩形。
+   * 未指定时：只选中一个画板则截该画板；没有选中内容则截视口内可见面积最大的画板
+   */
+  frameId?: string;
 }
 
 export interface ScreenshotResult {
@@ -97,7 +111,10 @@ export class AutoScreenshotService {
     options: ScreenshotOptions = {}
   ): Promise<ScreenshotResult> {
     const opts = { ...this.DEFAULT_OPTIONS, ...options };
-    
+    if (opts.format === 'svg') {
+      return this.captureVectorScreenshot(opts);
+    }
+
     let restoreSelectionVisuals: (() => void) | null = null;
     let restoreFlowHandles: (() => void) | null = null;
     this.currentImageOrderMap = new Map(
@@ -150,8 +167,18 @@ export class AutoScreenshotService {
 
       // 1. 计算内容边界
       let contentBounds: ContentBounds;
+      const frame = this.resolveScreenshotFrame(
+        opts.frameId,
+        selectionState.selectedPaperItems,
+        selectionState.selectedImages.length > 0 || selectionState.selectedModels.length > 0
+      );
 
-      if (selectionState.hasSelection) {
+      if (frame) {
+        // 画板截图：画板内的全部内容都参与绘制，超出画板的部分由裁剪区域截掉
+        logger.debug('🖼️ 按画板截图:', frame.name);
+        restrictToSelection = false;
+        contentBounds = BoundsCalculator.calculateFrameBounds(frame.bounds);
+      } else if (selectionState.hasSelection) {
         const selectionBounds = BoundsCalculator.calculateSelectionBounds(
           selectionState.selectedImages,
           selectionState.selectedModels,
@@ -257,6 +284,29 @@ export class AutoScreenshotService {
     }
   }
 
+  /**
+   * 解析作为截图单位的画板：显式 frameId > 唯一选中的画板 > 无选中时视口内的画板
+   */
+  private static resolveScreenshotFrame(
+    frameId: string | undefined,
+    selectedPaperItems: paper.Item[],
+    hasOtherSelection: boolean
+  ): FrameInfo | null {
+    if (frameId) {
+      const block = findFrameBlock(frameId);
+      return block ? toFrameInfo(block) : null;
+    }
+    if (hasOtherSelection) return null;
+    if (selectedPaperItems.length > 0) {
+      if (selectedPaperItems.length !== 1 || !isFrameBlock(selectedPaperItems[0])) return null;
+      return toFrameInfo(selectedPaperItems[0] as paper.Path);
+    }
+    const frames = getVisibleFrameInfos();
+    if (frames.length === 0 || !paper.view) return null;
+    const view = paper.view.bounds;
+    return pickFrameInViewport(frames, { x: view.x, y: view.y, width: view.width, height: view.height });
+  }
+
   /**
    * 收集并按层级排序所有可绘制元素
    */
@@ -296,8 +346,8 @@ export class AutoScreenshotService {
         for (let itemIndex = 0; itemIndex < layer.children.length; itemIndex++) {
           const item = layer.children[itemIndex];
           
-          // 跳过辅助元素
-          if (item.data?.isHelper) continue;
+          // 跳过辅助元素与画板标题
+          if (item.data?.isHelper || isFrameTitle(item)) continue;
           if (!item.visible) continue;
 
           // 记录所有遍历的元素（调试信息）
@@ -792,6 +842,33 @@ export class AutoScreenshotService {
     );
   }
 
+  /**
+   * 取 3D 模型当前画面（data URL）：实时帧 → runtime 缓存帧 → WebGL canvas 兜底。
+   * 供矢量导出把模型作为位图嵌入。
+   */
+  static async captureModel3DFrame(modelId: string): Promise<string | null> {
+    const captureResult = await this.requestModel3DFrameCapture(modelId);
+    if (captureResult.frameDataUrl) return captureResult.frameDataUrl;
+
+    const cachedFrame = this.find3DSnapshotImage(modelId);
+    const source = cachedFrame ?? this.find3DCanvas(modelId);
+    if (!source) return null;
+    try {
+      if (source instanceof HTMLCanvasElement) {
+        if (this.isLikelyBlankCanvas(source)) return null;
+        return source.toDataURL('image/png');
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = source.naturalWidth;
+      canvas.height = source.naturalHeight;
+      canvas.getContext('2d')?.drawImage(source, 0, 0);
+      return canvas.toDataURL('image/png');
+    } catch (error) {
+      logger.warn(`读取3D模型画面失败 (${modelId}):`, error);
+      return null;
+    }
+  }
+
   private static requestModel3DFrameCapture(
     modelId: string,
     timeoutMs = 520
@@ -920,8 +997,8 @@ export class AutoScreenshotService {
         if (!layer.visible) continue;
 
         for (const item of layer.children) {
-          // 跳过辅助元素
-          if (item.data?.isHelper) continue;
+          // 跳过辅助元素与画板标题
+          if (item.data?.isHelper || isFrameTitle(item)) continue;
           if (!item.visible) continue;
 
           // 检查元素是否在截图边界内
@@ -1035,7 +1112,8 @@ export class AutoScreenshotService {
     if (path.fillColor) {
       ctx.fill();
     }
-    if (path.strokeColor) {
+    // 画板的描边只是画布上的轮廓，截图里只保留底色
+    if (path.strokeColor && !isFrameBlock(path)) {
       ctx.stroke();
     }
 
@@ -1766,6 +1844,49 @@ export class AutoScreenshotService {
     };
   }
 
+  /**
+   * format: 'svg' 走矢量导出：路径/文字保持矢量，有选中时只导出选中元素的范围。
+   */
+  private static async captureVectorScreenshot(options: Required<ScreenshotOptions>): Promise<ScreenshotResult> {
+    const { VectorExportService } = await import('@/services/VectorExportService');
+    const selectedItems = VectorExportService.resolveSelectionItems(options.selection ?? {});
+    const frame = this.resolveScreenshotFrame(
+      options.frameId,
+      selectedItems.filter((item) => !['image', '3d-model'].includes(item.data?.type)),
+      selectedItems.some((item) => ['image', '3d-model'].includes(item.data?.type))
+    );
+    const regions = frame
+      ? [{ name: frame.name, bounds: frame.bounds }]
+      : VectorExportService.regionsFromItems(selectedItems);
+    const region = unionBounds(regions.map((r) => r.bounds));
+
+    const result = await VectorExportService.exportSvg({
+      region,
+      padding: frame ? 0 : options.padding,
+      backgroundColor: options.includeBackground ? options.backgroundColor : null,
+    });
+    if (!result.success || !result.svg || !result.blob || !result.bounds) {
+      return { success: false, error: result.error ?? 'SVG 导出失败' };
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filename = `${options.filename}-${timestamp}.svg`;
+    const dataUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(result.svg)}`;
+    if (options.autoDownload) {
+      this.downloadBlob(result.blob, filename);
+    }
+    if (options.onComplete) {
+      options.onComplete(dataUrl, filename);
+    }
+    return {
+      success: true,
+      dataUrl,
+      blob: result.blob,
+      bounds: { ...result.bounds, isEmpty: false, elementCount: Math.max(1, regions.length) },
+      filename,
+    };
+  }
+
   /**
    * 下载Blob为文件
    */
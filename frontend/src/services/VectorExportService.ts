@@ -0,0 +1,415 @@
+/**
+ * 画布矢量导出服务
+ * 把 Paper.js 画布导出为真正的 SVG（路径/文字为矢量元素，图片内嵌或外链，图层保留为分组），
+ * 以及按选中元素 / 图层 / 命名区域分页打印（用户可在打印对话框里另存为 PDF，内容保持矢量）。
+ */
+
+import paper from 'paper';
+import { useLayerStore } from '@/stores/layerStore';
+import { logger } from '@/utils/logger';
+import { proxifyRemoteAssetUrl } from '@/utils/assetProxy';
+import { blobToDataUrl } from '@/utils/imageConcurrency';
+import { printHtmlDocument } from '@/utils/printFrame';
+import { AutoScreenshotService } from '@/services/AutoScreenshotService';
+import { getFrameName, getVisibleFrameInfos, isFrameBlock, isFrameTitle } from '@/utils/paperFrameBlock';
+import {
+  boundsIntersect,
+  buildPrintDocument,
+  buildSvgDocument,
+  layerGroupAttributes,
+  orderExportRegions,
+  padBounds,
+  toSvgLayerId,
+  unionBounds,
+  type ExportBounds,
+  type ExportRegion,
+  type PrintPage,
+} from '@/utils/canvasVectorExport';
+
+export type { ExportRegion } from '@/utils/canvasVectorExport';
+
+export interface VectorExportOptions {
+  /** 导出范围；缺省为全部可见图层内容 */
+  region?: ExportBounds | null;
+  /** 只导出这些图层（layerStore id）；缺省为全部可见图层 */
+  layerIds?: string[];
+  /** 图片处理：embed 内嵌为 data URL（默认），link 保留远程地址 */
+  images?: 'embed' | 'link';
+  padding?: number;
+  backgroundColor?: string | null;
+  title?: string;
+}
+
+export interface VectorExportResult {
+  success: boolean;
+  svg?: string;
+  blob?: Blob;
+  bounds?: ExportBounds;
+  /** 内嵌失败、退回外链的图片数量 */
+  linkedImageCount?: number;
+  /** 拿不到画面、被跳过的 3D 模型数量 */
+  skippedModelCount?: number;
+  error?: string;
+}
+
+export interface PrintPagesOptions {
+  regions: ExportRegion[];
+  padding?: number;
+  backgroundColor?: string | null;
+  title?: string;
+}
+
+interface ExportContext {
+  region: ExportBounds | null;
+  layerIds: Set<string>;
+  modelFrames: Map<string, string>;
+  /** 区域内需要导出的 3D 模型数量 */
+  modelCount: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const INKSCAPE_NS = 'http://www.inkscape.org/namespaces/inkscape';
+const DROP_ATTR = 'data-tanva-export-drop';
+const USER_LAYER_PREFIX = 'layer_';
+const IMAGE_FETCH_TIMEOUT_MS = 15000;
+
+const toExportBounds = (rect: paper.Rectangle): ExportBounds => ({
+  x: rect.x,
+  y: rect.y,
+  width: rect.width,
+  height: rect.height,
+});
+
+export class VectorExportService {
+  /**
+   * 导出 SVG。路径、文字由 Paper exportSVG 生成矢量元素；每个用户图层输出为一个带
+   * inkscape:groupmode="layer" 的顶层 <g>（Illustrator / Inkscape 按图层导入）；
+   * 3D 模型取当前渲染帧作为位图嵌入。
+   */
+  static async exportSvg(options: VectorExportOptions = {}): Promise<VectorExportResult> {
+    try {
+      if (!paper.project) return { success: false, error: '画布尚未就绪' };
+      const layers = this.getExportLayers(options.layerIds);
+      if (layers.length === 0) return { success: false, error: '没有可导出的图层' };
+
+      const contentBounds = options.region ?? unionBounds(layers.map((layer) => this.getLayerContentBounds(layer)));
+      if (!contentBounds) return { success: false, error: '画布上没有可导出的内容' };
+      const bounds = padBounds(contentBounds, options.padding ?? 0);
+
+      const region = options.region ? bounds : null;
+      const context: ExportContext = {
+        region,
+        layerIds: new Set(layers.map((layer) => layer.name)),
+        ...(await this.captureModelFrames(layers, region)),
+      };
+
+      const exported = paper.project.exportSVG({
+        asString: false,
+        bounds: new paper.Rectangle(bounds.x, bounds.y, bounds.width, bounds.height),
+        embedImages: false,
+        precision: 3,
+        onExport: (item: paper.Item, node: SVGElement) => this.transformNode(item, node, context),
+      }) as SVGElement;
+
+      const { definitions, layerGroups } = this.collectLayerGroups(exported, layers);
+      const linkedImageCount = await this.resolveImages(exported, options.images ?? 'embed');
+
+      const serializer = new XMLSerializer();
+      const svg = buildSvgDocument({
+        bounds,
+        definitions: definitions.map((node) => serializer.serializeToString(node)),
+        layerGroups: layerGroups.map((node) => serializer.serializeToString(node)),
+        backgroundColor: options.backgroundColor ?? null,
+        title: options.title,
+      });
+      return {
+        success: true,
+        svg,
+        blob: new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }),
+        bounds,
+        linkedImageCount,
+        skippedModelCount: Math.max(0, context.modelCount - context.modelFrames.size),
+      };
+    } catch (error) {
+      logger.error('SVG 导出失败:', error);
+      const insecure = error instanceof DOMException && error.name === 'SecurityError';
+      return {
+        success: false,
+        error: insecure ? '画布中有跨域图片无法读取，导出失败' : error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 分页打印：每个区域一页、页面尺寸等于区域尺寸，图片一律内嵌。
+   * 生成打印文档后调起浏览器打印对话框，用户可在其中另存为 PDF。
+   */
+  static async printPages(options: PrintPagesOptions): Promise<VectorExportResult> {
+    const regions = orderExportRegions(options.regions);
+    if (regions.length === 0) return { success: false, error: '没有可导出的页面' };
+
+    const pages: PrintPage[] = [];
+    let linkedImageCount = 0;
+    let skippedModelCount = 0;
+    for (const region of regions) {
+      const result = await this.exportSvg({
+        region: region.bounds,
+        layerIds: region.layerId ? [region.layerId] : undefined,
+        images: 'embed',
+        padding: options.padding,
+        backgroundColor: options.backgroundColor,
+        title: region.name,
+      });
+      if (!result.success || !result.svg || !result.bounds) {
+        return { success: false, error: result.error ?? `页面「${region.name}」导出失败` };
+      }
+      linkedImageCount += result.linkedImageCount ?? 0;
+      skippedModelCount += result.skippedModelCount ?? 0;
+      pages.push({ name: region.name, svg: result.svg, width: result.bounds.width, height: result.bounds.height });
+    }
+
+    try {
+      await printHtmlDocument(buildPrintDocument(pages, options.title));
+      return { success: true, linkedImageCount, skippedModelCount };
+    } catch (error) {
+      logger.error('分页打印失败:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /** 选中元素 → 每个元素一页。图片/3D 模型的子项归并到所属分组。 */
+  static regionsFromItems(items: paper.Item[]): ExportRegion[] {
+    const seen = new Set<paper.Item>();
+    const regions: ExportRegion[] = [];
+    for (const raw of items) {
+      if (!raw) continue;
+      const parent = raw.parent;
+      const item =
+        parent instanceof paper.Group && (parent.data?.type === 'image' || parent.data?.type === '3d-model')
+          ? parent
+          : raw;
+      if (seen.has(item) || !item.visible || item.data?.isHelper) continue;
+      seen.add(item);
+      regions.push({ name: this.describeItem(item), bounds: toExportBounds(item.bounds) });
+    }
+    return regions;
+  }
+
+  /** 把选区（Paper 元素 + 图片 / 3D 模型 id）解析成 Paper 元素，图片与模型取其分组。 */
+  static resolveSelectionItems(selection: {
+    paperItems?: Array<paper.Item | null | undefined>;
+    imageIds?: string[];
+    modelIds?: string[];
+  }): paper.Item[] {
+    const imageIds = new Set(selection.imageIds ?? []);
+    const modelIds = new Set(selection.modelIds ?? []);
+    const items = (selection.paperItems ?? []).filter((item): item is paper.Item => !!item);
+    if (imageIds.size === 0 && modelIds.size === 0) return items;
+    for (const layer of paper.project?.layers ?? []) {
+      for (const child of layer.children) {
+        const data = child.data ?? {};
+        if (
+          (data.type === 'image' && imageIds.has(data.imageId)) ||
+          (data.type === '3d-model' && modelIds.has(data.modelId))
+        ) {
+          items.push(child);
+        }
+      }
+    }
+    return items;
+  }
+
+  /** 可见画板 → 每个画板一页，页面尺寸等于画板尺寸，页名为画板名。 */
+  static regionsFromFrames(): ExportRegion[] {
+    return getVisibleFrameInfos().map((frame) => ({ name: frame.name, bounds: frame.bounds }));
+  }
+
+  /** 可见图层 → 每个有内容的图层一页，页名为图层名。 */
+  static regionsFromLayers(): ExportRegion[] {
+    const metas = useLayerStore.getState().layers;
+    const regions: ExportRegion[] = [];
+    for (const layer of this.getExportLayers()) {
+      const bounds = this.getLayerContentBounds(layer);
+      if (!bounds) continue;
+      const meta = metas.find((m) => `${USER_LAYER_PREFIX}${m.id}` === layer.name);
+      regions.push({
+        name: meta?.name ?? layer.name,
+        bounds,
+        layerId: layer.name.slice(USER_LAYER_PREFIX.length),
+      });
+    }
+    return regions;
+  }
+
+  static downloadSvg(svg: string, filename: string): void {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename.endsWith('.svg') ? filename : `${filename}.svg`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  private static getExportLayers(layerIds?: string[]): paper.Layer[] {
+    const metas = useLayerStore.getState().layers;
+    const only = layerIds ? new Set(layerIds.map((id) => `${USER_LAYER_PREFIX}${id}`)) : null;
+    return (paper.project?.layers ?? []).filter((layer) => {
+      if (!layer.name?.startsWith(USER_LAYER_PREFIX) || !layer.visible) return false;
+      if (only && !only.has(layer.name)) return false;
+      const meta = metas.find((m) => `${USER_LAYER_PREFIX}${m.id}` === layer.name);
+      return meta ? meta.visible : true;
+    });
+  }
+
+  private static isExportable(item: paper.Item): boolean {
+    return item.visible && !item.data?.isHelper && !isFrameTitle(item);
+  }
+
+  private static getLayerContentBounds(layer: paper.Layer): ExportBounds | null {
+    return unionBounds(
+      layer.children.filter((child) => this.isExportable(child)).map((child) => toExportBounds(child.strokeBounds)),
+    );
+  }
+
+  private static describeItem(item: paper.Item): string {
+    const type = item.data?.type;
+    if (type === 'image') return '图片';
+    if (type === '3d-model') return '3D 模型';
+    if (isFrameBlock(item)) return getFrameName(item as paper.Path);
+    if (item instanceof paper.PointText) {
+      const content = (item.content || '').trim().replace(/\s+/g, ' ');
+      return content ? content.slice(0, 16) : '文字';
+    }
+    return item.name && !item.name.startsWith(USER_LAYER_PREFIX) ? item.name : '图形';
+  }
+
+  private static async captureModelFrames(layers: paper.Layer[], region: ExportBounds | null) {
+    const modelFrames = new Map<string, string>();
+    let modelCount = 0;
+    for (const layer of layers) {
+      for (const child of layer.children) {
+        const modelId = child.data?.type === '3d-model' ? child.data?.modelId : null;
+        if (typeof modelId !== 'string' || !child.visible) continue;
+        if (region && !boundsIntersect(region, toExportBounds(child.bounds))) continue;
+        modelCount += 1;
+        const frame = await AutoScreenshotService.captureModel3DFrame(modelId);
+        if (frame) modelFrames.set(modelId, frame);
+      }
+    }
+    return { modelFrames, modelCount };
+  }
+
+  /**
+   * Paper onExport 钩子：辅助元素、隐藏元素、非用户图层与区域外的顶层元素打上丢弃标记
+   * （钩子不能返回空，只能换成占位节点，导出后统一删除）；3D 模型分组换成当前帧位图，画板去掉轮廓描边。
+   */
+  private static transformNode(item: paper.Item, node: SVGElement, context: ExportContext): SVGElement {
+    const drop = () => {
+      const placeholder = document.createElementNS(SVG_NS, 'g');
+      placeholder.setAttribute(DROP_ATTR, '1');
+      return placeholder;
+    };
+    if (item instanceof paper.Layer) {
+      return context.layerIds.has(item.name) ? node : drop();
+    }
+    if (!this.isExportable(item)) return drop();
+    if (item.parent instanceof paper.Layer && context.region) {
+      if (!boundsIntersect(context.region, toExportBounds(item.strokeBounds))) return drop();
+    }
+    if (item.data?.type === '3d-model') {
+      const frame = context.modelFrames.get(item.data?.modelId);
+      if (!frame) return drop();
+      const bounds = item.bounds;
+      const image = document.createElementNS(SVG_NS, 'image');
+      image.setAttribute('x', String(bounds.x));
+      image.setAttribute('y', String(bounds.y));
+      image.setAttribute('width', String(bounds.width));
+      image.setAttribute('height', String(bounds.height));
+      image.setAttribute('preserveAspectRatio', 'none');
+      image.setAttributeNS(XLINK_NS, 'xlink:href', frame);
+      image.setAttribute('data-tanva-model', '1');
+      return image;
+    }
+    if (isFrameBlock(item)) {
+      // 画板只导出底色，画布上的灰色轮廓不进入文件
+      node.removeAttribute('stroke');
+      node.removeAttribute('stroke-width');
+    }
+    return node;
+  }
+
+  /** 清理导出树，拆出 <defs> 与各图层 <g>，并按 layerStore 的图层名标注分组。 */
+  private static collectLayerGroups(root: SVGElement, layers: paper.Layer[]) {
+    root.querySelectorAll(`[${DROP_ATTR}]`).forEach((node) => node.remove());
+    root.querySelectorAll('[data-paper-data]').forEach((node) => node.removeAttribute('data-paper-data'));
+
+    const metas = useLayerStore.getState().layers;
+    const usedIds = new Set<string>();
+    const definitions: Element[] = [];
+    const layerGroups: Element[] = [];
+    const layerNodes = Array.from(root.children).filter((node) => {
+      if (node.nodeName.toLowerCase() === 'defs') {
+        definitions.push(...Array.from(node.children));
+        return false;
+      }
+      return node.nodeName.toLowerCase() === 'g';
+    });
+    // 丢弃标记已删除，剩下的顶层 <g> 与导出图层一一对应、顺序一致
+    layerNodes.forEach((node, index) => {
+      const layer = layers[index];
+      const meta = layer ? metas.find((m) => `${USER_LAYER_PREFIX}${m.id}` === layer.name) : undefined;
+      const name = meta?.name ?? layer?.name ?? `图层 ${index + 1}`;
+      const attrs = layerGroupAttributes(toSvgLayerId(name, usedIds), name);
+      for (const [key, value] of Object.entries(attrs)) {
+        if (key.startsWith('inkscape:')) {
+          node.setAttributeNS(INKSCAPE_NS, key, value);
+        } else {
+          node.setAttribute(key, value);
+        }
+      }
+      if (node.childElementCount > 0) layerGroups.push(node);
+    });
+    return { definitions, layerGroups };
+  }
+
+  /**
+   * 处理 <image> 地址：embed 模式全部转为 data URL；link 模式仅把 blob:/相对地址这类
+   * 离开当前页面就失效的地址内嵌。内嵌失败的远程图片保留原链接并计数。
+   */
+  private static async resolveImages(root: SVGElement, mode: 'embed' | 'link'): Promise<number> {
+    let linked = 0;
+    const images = Array.from(root.querySelectorAll('image'));
+    for (const image of images) {
+      const href = image.getAttributeNS(XLINK_NS, 'href') || image.getAttribute('href') || '';
+      if (!href || href.startsWith('data:')) continue;
+      const isRemote = /^https?:\/\//i.test(href);
+      if (mode === 'link' && isRemote) continue;
+      const dataUrl = await this.fetchAsDataUrl(href);
+      if (dataUrl) {
+        image.setAttributeNS(XLINK_NS, 'xlink:href', dataUrl);
+      } else {
+        linked += 1;
+        logger.warn('图片内嵌失败，保留原链接:', href.slice(0, 120));
+      }
+    }
+    return linked;
+  }
+
+  private static async fetchAsDataUrl(href: string): Promise<string | null> {
+    const url = /^https?:\/\//i.test(href) ? proxifyRemoteAssetUrl(href, { forceProxy: true }) : href;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) return null;
+      return await blobToDataUrl(await response.blob());
+    } catch {
+      return null;
+    } finally {
+      window.clearTimeout(timer);
+    }
+  }
+}
@@ -543,6 +543,57 @@ export async function getApiUsageModelStats(params?: {
   return response.json();
 }
 
+export type VendorErrorClass =
+  | "timeout"
+  | "rate_limit"
+  | "auth"
+  | "upstream"
+  | "unavailable"
+  | "client"
+  | "unknown";
+
+export interface VendorRouteHealth {
+  modelKey: string;
+  modelName: string;
+  taskType: string;
+  vendorKey: string;
+  vendorLabel: string;
+  enabled: boolean;
+  isDefault: boolean;
+  tier: "healthy" | "degraded" | "open";
+  circuit: {
+    state: "closed" | "open" | "half_open";
+    openUntil: string | null;
+    consecutiveFailures: number;
+    tripCount: number;
+    lastError: string | null;
+  };
+  summary: {
+    totalSamples: number;
+    successes: number;
+    failures: number;
+    successRate: number | null;
+    p50LatencyMs: number | null;
+    p90LatencyMs: number | null;
+    errorClasses: Partial<Record<VendorErrorClass, number>>;
+  };
+  avgDispatchLatencyMs: number | null;
+  lastDispatchAt: string | null;
+}
+
+export interface VendorHealthOverview {
+  generatedAt: string;
+  windowMinutes: number;
+  lastRefreshedAt: string | null;
+  routes: VendorRouteHealth[];
+}
+
+// 托管模型线路健康度（近 1 小时成功率/耗时/错误分类 + 熔断状态）
+export async function getVendorHealth(): Promise<VendorHealthOverview> {
+  const response = await request("/api/admin/api-usage/vendor-health");
+  return response.json();
+}
+
 export async function getApiUsageRecords(params: {
   page?: number;
   pageSize?: number;
@@ -1375,6 +1426,30 @@ export interface MembershipTransitionPreview {
     price: number;
   } | null;
   nextEffectiveAt?: string;
+  /** 仅降级返回：生效时的积分与权益变化 */
+  downgradeEffect?: MembershipDowngradeEffect;
+}
+
+export interface MembershipPlanBenefits {
+  planCode: string;
+  planName: string;
+  monthlyQuotaCredits: number;
+  dailyGiftCredits: number;
+  pauseGiftDecay: boolean;
+  inviteLimit: number | null;
+}
+
+export interface MembershipDowngradeEffect {
+  effectiveAt: string;
+  /** 生效时清零的会员积分（按当前剩余计算） */
+  expiringCredits: number;
+  /** 目标套餐生效时发放的积分 */
+  grantedCredits: number;
+  nextPeriodEndAt: string;
+  benefits: {
+    current: MembershipPlanBenefits;
+    target: MembershipPlanBenefits;
+  };
 }
 
 export async function getMembershipTransitionPreview(planCode: string): Promise<MembershipTransitionPreview> {
@@ -1396,6 +1471,16 @@ export async function scheduleMembershipPlanChange(planCode: string): Promise<{
   return response.json();
 }
 
+export async function cancelMembershipPlanChange(): Promise<{
+  success: boolean;
+  cancelledCount: number;
+}> {
+  const response = await request("/api/membership/change-plan/cancel", {
+    method: "POST",
+  });
+  return response.json();
+}
+
 export async function createMembershipOrder(data: {
   planCode: string;
   paymentMethod: PaymentMethod;
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  AGENT_BATCH_MAX_OPS,
+  AGENT_PATCH_OPS_V1,
+  TANVA_CAPABILITY_MANIFEST,
+  TANVA_CAPABILITY_MANIFEST_V1,
+  flattenAgentFlowPatch,
+  getTanvaCapabilityManifest,
+  parseAgentFlowPatch,
+} from "./agentCanvasProtocol.ts";
+
+test("v1 patches keep parsing unchanged", () => {
+  assert.deepEqual(parseAgentFlowPatch('{"op":"runNode","id":"g1"}'), { op: "runNode", id: "g1" });
+  assert.ok(parseAgentFlowPatch({ op: "addNode", node: { id: "p1", type: "textPrompt" } }));
+  assert.ok(parseAgentFlowPatch({ op: "connectEdge", source: "p1", target: "g1" }));
+  assert.equal(parseAgentFlowPatch({ op: "updateNodeData", id: "p1" }), null);
+  assert.equal(parseAgentFlowPatch({ op: "placeImage" }), null);
+  assert.equal(parseAgentFlowPatch("not json"), null);
+  assert.equal(parseAgentFlowPatch({ op: "removeEverything" }), null);
+});
+
+test("v2 structural ops validate their required fields", () => {
+  assert.ok(parseAgentFlowPatch({ op: "deleteNode", id: "g1" }));
+  assert.equal(parseAgentFlowPatch({ op: "deleteNode" }), null);
+
+  assert.ok(parseAgentFlowPatch({ op: "disconnectEdge", id: "e1" }));
+  assert.ok(parseAgentFlowPatch({ op: "disconnectEdge", source: "p1", target: "g1", targetHandle: "text" }));
+  assert.equal(parseAgentFlowPatch({ op: "disconnectEdge", source: "p1" }), null);
+
+  assert.ok(parseAgentFlowPatch({ op: "moveNode", id: "g1", position: { x: 10, y: -20 } }));
+  assert.equal(parseAgentFlowPatch({ op: "moveNode", id: "g1", position: { x: "10", y: 0 } }), null);
+  assert.equal(parseAgentFlowPatch({ op: "moveNode", id: "g1" }), null);
+
+  assert.deepEqual(parseAgentFlowPatch({ op: "createGroup", id: "grp", nodeIds: ["a", "b", "a", ""] }), {
+    op: "createGroup",
+    id: "grp",
+    nodeIds: ["a", "b"],
+  });
+  assert.equal(parseAgentFlowPatch({ op: "createGroup", nodeIds: ["a", "a"] }), null);
+
+  assert.deepEqual(parseAgentFlowPatch({ op: "autoLayout" }), { op: "autoLayout" });
+});
+
+test("batch is validated as a whole and flattens in order", () => {
+  const batch = parseAgentFlowPatch({
+    op: "batch",
+    ops: [
+      { op: "deleteNode", id: "wrong" },
+      { op: "connectEdge", source: "p1", target: "g1" },
+      { op: "autoLayout", id: "g1" },
+    ],
+  });
+  assert.ok(batch);
+  assert.deepEqual(
+    flattenAgentFlowPatch(batch).map((patch) => patch.op),
+    ["deleteNode", "connectEdge", "autoLayout"]
+  );
+  assert.deepEqual(flattenAgentFlowPatch({ op: "runNode", id: "g1" }), [{ op: "runNode", id: "g1" }]);
+
+  assert.equal(
+    parseAgentFlowPatch({ op: "batch", ops: [{ op: "deleteNode", id: "a" }, { op: "moveNode", id: "b" }] }),
+    null
+  );
+  assert.equal(parseAgentFlowPatch({ op: "batch", ops: [{ op: "batch", ops: [{ op: "autoLayout" }] }] }), null);
+  assert.equal(parseAgentFlowPatch({ op: "batch", ops: [] }), null);
+  assert.equal(
+    parseAgentFlowPatch({
+      op: "batch",
+      ops: Array.from({ length: AGENT_BATCH_MAX_OPS + 1 }, () => ({ op: "autoLayout" })),
+    }),
+    null
+  );
+});
+
+test("v1 manifest still advertises only v1 ops", () => {
+  assert.equal(TANVA_CAPABILITY_MANIFEST_V1.protocol_version, "1");
+  assert.deepEqual(TANVA_CAPABILITY_MANIFEST_V1.patchOps, [...AGENT_PATCH_OPS_V1]);
+  assert.equal(getTanvaCapabilityManifest("1"), TANVA_CAPABILITY_MANIFEST_V1);
+
+  const v2 = getTanvaCapabilityManifest();
+  assert.equal(v2, TANVA_CAPABILITY_MANIFEST);
+  assert.equal(v2.protocol_version, "2");
+  for (const op of ["deleteNode", "disconnectEdge", "moveNode", "createGroup", "autoLayout", "batch"]) {
+    assert.ok(v2.patchOps.includes(op as never), op);
+  }
+  assert.deepEqual(v2.nodeSpecs, TANVA_CAPABILITY_MANIFEST_V1.nodeSpecs);
+  assert.ok(v2.notes.length <= 32);
+});
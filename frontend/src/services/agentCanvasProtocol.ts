@@ -1,8 +1,9 @@
 // frontend/src/services/agentCanvasProtocol.ts
-// 小T画布宿主协议（v1）：Tanva 的能力清单 + flow_patch 操作校验。
+// 小T画布宿主协议：Tanva 的能力清单 + flow_patch 操作校验。
+// v1 只能加节点/改数据/连线/聚焦/贴图/运行；v2 追加删除、断线、移动、打组、整理与批量。
 // 与设计文档 docs/superpowers/specs/2026-07-13-xiaot-agent-integration-design.md 对齐。
 
-export const AGENT_PATCH_OPS = [
+export const AGENT_PATCH_OPS_V1 = [
   "addNode",
   "updateNodeData",
   "connectEdge",
@@ -10,8 +11,23 @@ export const AGENT_PATCH_OPS = [
   "placeImage",
   "runNode",
 ] as const;
+
+export const AGENT_PATCH_OPS = [
+  ...AGENT_PATCH_OPS_V1,
+  "deleteNode",
+  "disconnectEdge",
+  "moveNode",
+  "createGroup",
+  "autoLayout",
+  "batch",
+] as const;
 export type AgentPatchOp = (typeof AGENT_PATCH_OPS)[number];
 
+export type AgentProtocolVersion = "1" | "2";
+
+// batch 内的子操作上限（不可嵌套 batch）
+export const AGENT_BATCH_MAX_OPS = 50;
+
 export interface AgentFlowPatch {
   op: AgentPatchOp;
   node?: { id: string; type: string; data?: Record<string, unknown>; position?: { x: number; y: number } };
@@ -23,24 +39,67 @@ export interface AgentFlowPatch {
   targetHandle?: string;
   url?: string;
   name?: string;
+  // moveNode：目标世界坐标
+  position?: { x: number; y: number };
+  // createGroup：成员节点 id（≥2）
+  nodeIds?: string[];
+  // batch：按序执行的子操作
+  ops?: AgentFlowPatch[];
 }
 
-export function parseAgentFlowPatch(raw: unknown): AgentFlowPatch | null {
-  let obj: unknown = raw;
-  if (typeof raw === "string") {
-    try { obj = JSON.parse(raw); } catch { return null; }
-  }
+const isFiniteXY = (value: unknown): value is { x: number; y: number } =>
+  !!value &&
+  typeof value === "object" &&
+  Number.isFinite((value as { x?: unknown }).x) &&
+  Number.isFinite((value as { y?: unknown }).y);
+
+function parseOne(obj: unknown, allowBatch: boolean): AgentFlowPatch | null {
   if (!obj || typeof obj !== "object") return null;
   const p = obj as AgentFlowPatch;
   if (!(AGENT_PATCH_OPS as readonly string[]).includes(p.op)) return null;
   if (p.op === "addNode" && (!p.node?.id || !p.node?.type)) return null;
   if (p.op === "updateNodeData" && (!p.id || !p.patch)) return null;
   if (p.op === "connectEdge" && (!p.source || !p.target)) return null;
-  if ((p.op === "focusNode" || p.op === "runNode") && !p.id) return null;
+  if ((p.op === "focusNode" || p.op === "runNode" || p.op === "deleteNode") && !p.id) return null;
   if (p.op === "placeImage" && !p.url) return null;
+  // disconnectEdge：给边 id，或给两端节点（handle 可选，用于区分同两端的多条边）
+  if (p.op === "disconnectEdge" && !p.id && (!p.source || !p.target)) return null;
+  if (p.op === "moveNode" && (!p.id || !isFiniteXY(p.position))) return null;
+  if (p.op === "createGroup") {
+    const ids = Array.isArray(p.nodeIds)
+      ? p.nodeIds.filter((id) => typeof id === "string" && id)
+      : [];
+    if (new Set(ids).size < 2) return null;
+    return { ...p, nodeIds: Array.from(new Set(ids)) };
+  }
+  if (p.op === "batch") {
+    // batch 整体校验：任一子操作无法识别则整批拒绝，避免半截落画布
+    if (!allowBatch || !Array.isArray(p.ops)) return null;
+    if (p.ops.length === 0 || p.ops.length > AGENT_BATCH_MAX_OPS) return null;
+    const ops: AgentFlowPatch[] = [];
+    for (const child of p.ops) {
+      const parsed = parseOne(child, false);
+      if (!parsed) return null;
+      ops.push(parsed);
+    }
+    return { op: "batch", ops };
+  }
   return p;
 }
 
+export function parseAgentFlowPatch(raw: unknown): AgentFlowPatch | null {
+  let obj: unknown = raw;
+  if (typeof raw === "string") {
+    try { obj = JSON.parse(raw); } catch { return null; }
+  }
+  return parseOne(obj, true);
+}
+
+// batch 展开成按序的子操作（非 batch 原样单元素），供宿主逐条走改写/契约管线。
+export function flattenAgentFlowPatch(patch: AgentFlowPatch): AgentFlowPatch[] {
+  return patch.op === "batch" ? [...(patch.ops ?? [])] : [patch];
+}
+
 // 节点默认连线 handle（与 manifest nodeSpecs 同源；用于 agent 连线缺 handle 时补全）
 export const DEFAULT_NODE_HANDLES: Record<
   string,
@@ -83,11 +142,11 @@ export const DEFAULT_NODE_HANDLES: Record<
 };
 
 // 暴露给小T的节点能力清单（分层：第一层完整 spec，第二层 stub 只报型号；
-// type 必须存在于 FlowOverlay rawNodeTypes）
-export const TANVA_CAPABILITY_MANIFEST = {
+// type 必须存在于 FlowOverlay rawNodeTypes）。v1 清单原样保留，仍只声明 v1 操作。
+export const TANVA_CAPABILITY_MANIFEST_V1 = {
   protocol_version: "1" as const,
   host: "tanva",
-  patchOps: [...AGENT_PATCH_OPS],
+  patchOps: [...AGENT_PATCH_OPS_V1] as AgentPatchOp[],
   // 富格式 UI 能力声明（协议 v1.2）。前三项是协议级 kind；其余是 tc-card 富卡 name
   // （小T 用 ```tc-card 围栏产出，facade 按此声明经 host_ui 下发；未声明会降级成纯文本正文）。
   // 可选值与形状见门面文档「富格式 UI 协议」节（TapCanvas apps/web/src/ui/account/
@@ -434,6 +493,24 @@ export const TANVA_CAPABILITY_MANIFEST = {
   ],
 };
 
+// v2 清单：节点清单与 v1 相同，追加结构性操作及其用法说明。
+export const TANVA_CAPABILITY_MANIFEST = {
+  ...TANVA_CAPABILITY_MANIFEST_V1,
+  protocol_version: "2" as "1" | "2",
+  patchOps: [...AGENT_PATCH_OPS] as AgentPatchOp[],
+  notes: [
+    ...TANVA_CAPABILITY_MANIFEST_V1.notes,
+    "v2 结构操作：deleteNode{id} 删除你在本会话里自造 id 建出的节点或组（组会连同成员一起删；用户已有的节点不能删）；disconnectEdge{id} 或 {source,target,sourceHandle?,targetHandle?} 断开连线；moveNode{id,position:{x,y}} 移到画布世界坐标；createGroup{id?,nodeIds:[≥2],name?} 把节点打成一组（id 为你自造的组 id，后续可引用）；autoLayout{id?} 按类别整理整张画布（id 给出时整理后聚焦该节点）。被协作者锁定的节点不会被删除或移动",
+    "batch{ops:[...]} 一次下发多个操作（最多 50 个，不可嵌套 batch），按序执行；任一子操作不合法整批拒绝。收拾自己产出的画布时优先用 batch：先 deleteNode/disconnectEdge 清掉错误节点与连线，再 autoLayout",
+  ],
+};
+
+export function getTanvaCapabilityManifest(
+  version: AgentProtocolVersion = "2"
+): typeof TANVA_CAPABILITY_MANIFEST {
+  return version === "1" ? TANVA_CAPABILITY_MANIFEST_V1 : TANVA_CAPABILITY_MANIFEST;
+}
+
 // 小T「优选图片/优选视频」模型选项（用户偏好，随请求作为动态 note 注入，
 // 优先级高于画布惯性——canvas_context 里已有其他生成节点时也不跟随）。
 // nodeType 必须存在于上方 nodeSpecs；图片的 extra 是 generatePro 的 modelProvider 值。
@@ -821,8 +898,8 @@ export function externalizeInlinePrompt(patch: AgentFlowPatch): AgentFlowPatch[]
   return [promptNode, { ...patch, node: { ...node, data: strippedData } }, edge];
 }
 
-export function buildManifestSystemMessage(): string {
-  return `<capability_manifest>${JSON.stringify(TANVA_CAPABILITY_MANIFEST)}</capability_manifest>`;
+export function buildManifestSystemMessage(version: AgentProtocolVersion = "2"): string {
+  return `<capability_manifest>${JSON.stringify(getTanvaCapabilityManifest(version))}</capability_manifest>`;
 }
 
 export interface AgentCanvasSnapshot {
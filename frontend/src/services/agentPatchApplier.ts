@@ -1,13 +1,23 @@
 // frontend/src/services/agentPatchApplier.ts
 // 把小T下发的 flow_patch 翻译成画布 window 事件桥。乐观应用，失败仅 toast。
+// 每轮运行的画布改动记为一条撤销栈事务（beginAgentTurn/endAgentTurn），聊天消息上可整轮撤销或确认。
 // 事件接线（FlowOverlay 侧监听）：
 //   flow:agent-add-node / flow:agent-connect-edge / flow:agent-run-node（本文件新增约定）
-//   flow:updateNodeData / flow:focus-node / triggerQuickImageUpload（画布既有事件，直接复用）
+//   flow:agent-delete-node / flow:agent-disconnect-edge / flow:agent-move-node /
+//   flow:agent-create-group（协议 v2 结构操作）
+//   flow:updateNodeData / flow:focus-node / triggerQuickImageUpload / flow:auto-layout（画布既有事件，直接复用）
 import {
   parseAgentFlowPatch,
   NODE_FORCED_DATA,
   NODE_DEFAULT_DATA,
+  type AgentFlowPatch,
 } from "./agentCanvasProtocol";
+import { FLOW_AUTO_LAYOUT_EVENT } from "@/utils/canvasAutoLayout";
+import { historyService } from "./historyService";
+import type {
+  HistoryTransactionRecord,
+  HistoryTransactionRevertCheck,
+} from "./historyTransaction";
 
 const toast = (message: string, type: "error" | "warning" | "success" = "error") => {
   try {
@@ -17,7 +27,7 @@ const toast = (message: string, type: "error" | "warning" | "success" = "error")
   }
 };
 
-// agent 侧节点 id → 画布真实节点 id（addNode 成功后登记）
+// agent 侧节点 id → 画布真实节点 id（addNode / createGroup 成功后登记）
 const idMap = new Map<string, string>();
 const realId = (id: string): string => idMap.get(id) ?? id;
 
@@ -86,6 +96,64 @@ export function flushAgentPatchQueue(): Promise<void> {
   return chain;
 }
 
+// ── 整轮事务 ──────────────────────────────────────────────
+// 一轮运行 = 一条历史条目：期间 addNode/connect/布局/放图等各自的 commit 被
+// historyService 折叠，轮末补一次快照收进 updateNodeData 这类不单独 commit 的改动。
+// 记录只在内存里：刷新页面后无法整轮撤销，消息上的按钮随之失效。
+// 轮末等自动整理布局动画（~420ms）与 flow 写回节流（120ms）落定再收尾。
+const TURN_SETTLE_MS = 800;
+const AGENT_TURN_LABEL = "agent-turn";
+const openTurns = new Map<string, Promise<string | null>>();
+const turnRecords = new Map<string, HistoryTransactionRecord>();
+
+export function beginAgentTurn(turnId: string): void {
+  if (openTurns.has(turnId)) return;
+  openTurns.set(
+    turnId,
+    historyService.beginTransaction(AGENT_TURN_LABEL).catch(() => null)
+  );
+}
+
+// changed=false（本轮没有任何 patch 落地）时不补快照，返回是否有可撤销的条目。
+export async function endAgentTurn(
+  turnId: string,
+  options: { changed: boolean }
+): Promise<boolean> {
+  const opening = openTurns.get(turnId);
+  if (!opening) return false;
+  openTurns.delete(turnId);
+  const projectId = await opening;
+  if (!projectId) return false;
+  if (options.changed) {
+    await chain;
+    await new Promise<void>((resolve) => window.setTimeout(resolve, TURN_SETTLE_MS));
+  }
+  const record = await historyService
+    .endTransaction(projectId, { finalCommit: options.changed })
+    .catch(() => null);
+  if (!record) return false;
+  turnRecords.set(turnId, record);
+  return true;
+}
+
+export function hasAgentTurnRecord(turnId: string): boolean {
+  return turnRecords.has(turnId);
+}
+
+export async function undoAgentTurn(
+  turnId: string
+): Promise<HistoryTransactionRevertCheck> {
+  const record = turnRecords.get(turnId);
+  if (!record) return "unavailable";
+  const result = await historyService.revertTransaction(record);
+  if (result !== "stale") turnRecords.delete(turnId);
+  return result;
+}
+
+export function acceptAgentTurn(turnId: string): void {
+  turnRecords.delete(turnId);
+}
+
 // 校验同步返回（false = patch 无法识别/缺参），实际画布操作串行入队异步执行。
 export function applyAgentPatch(raw: unknown): boolean {
   const p = parseAgentFlowPatch(raw);
@@ -93,7 +161,24 @@ export function applyAgentPatch(raw: unknown): boolean {
     toast("小T下发的画布操作无法识别，已忽略");
     return false;
   }
+  return applyParsed(p);
+}
+
+// 监听器回报完成前阻塞队列（如 connectEdge 等 handle 就绪），超时兜底防死等。
+const dispatchAndWait = (type: string, detail: Record<string, unknown>, timeoutMs = 2000) =>
+  new Promise<void>((resolve) => {
+    let settled = false;
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timer);
+      resolve();
+    };
+    const timer = window.setTimeout(finish, timeoutMs);
+    window.dispatchEvent(new CustomEvent(type, { detail: { ...detail, done: finish } }));
+  });
 
+function applyParsed(p: AgentFlowPatch): boolean {
   switch (p.op) {
     case "addNode": {
       const node = p.node!;
@@ -144,29 +229,13 @@ export function applyAgentPatch(raw: unknown): boolean {
       // FlowOverlay.onAgentConnectEdge 是 async（连线前轮询等 handle ~1.5s）。
       // 用 done 回调让入队任务等到监听器真正连完再推进，避免 connect 还没落地
       // 就跑 runNode。2s 超时兜底防死等（监听器异常/未接线时不卡队列）。
-      enqueue(
-        () =>
-          new Promise<void>((resolve) => {
-            let settled = false;
-            const finish = () => {
-              if (settled) return;
-              settled = true;
-              window.clearTimeout(timer);
-              resolve();
-            };
-            const timer = window.setTimeout(finish, 2000);
-            window.dispatchEvent(
-              new CustomEvent("flow:agent-connect-edge", {
-                detail: {
-                  source: realId(source!),
-                  target: realId(target!),
-                  sourceHandle: sourceHandle ?? null,
-                  targetHandle: targetHandle ?? null,
-                  done: finish,
-                },
-              })
-            );
-          })
+      enqueue(() =>
+        dispatchAndWait("flow:agent-connect-edge", {
+          source: realId(source!),
+          target: realId(target!),
+          sourceHandle: sourceHandle ?? null,
+          targetHandle: targetHandle ?? null,
+        })
       );
       return true;
     }
@@ -208,12 +277,97 @@ export function applyAgentPatch(raw: unknown): boolean {
               },
               fileName,
               operationType: "manual",
+              historyOrigin: "transaction",
             },
           })
         );
       });
       return true;
     }
+    case "deleteNode": {
+      // 只允许删除本会话里小T自己建的节点：id 未登记时不回退原值，
+      // 否则小T可凭猜到/看到的画布 id 删掉用户的节点。放在队列里判断，等前序 addNode 登记完。
+      const agentId = p.id!;
+      enqueue(() => {
+        const targetId = idMap.get(agentId);
+        if (!targetId) {
+          toast(`小T删除未生效：${agentId} 不是小T在本会话创建的节点`, "warning");
+          return;
+        }
+        return dispatchAndWait("flow:agent-delete-node", { id: targetId }).then(() => {
+          idMap.delete(agentId);
+        });
+      });
+      return true;
+    }
+    case "disconnectEdge": {
+      const { id, source, target, sourceHandle, targetHandle } = p;
+      enqueue(() =>
+        dispatchAndWait("flow:agent-disconnect-edge", {
+          id: id ?? null,
+          source: source ? realId(source) : null,
+          target: target ? realId(target) : null,
+          sourceHandle: sourceHandle ?? null,
+          targetHandle: targetHandle ?? null,
+        })
+      );
+      return true;
+    }
+    case "moveNode": {
+      const { id, position } = p;
+      enqueue(() =>
+        dispatchAndWait("flow:agent-move-node", {
+          id: realId(id!),
+          position: { x: position!.x, y: position!.y },
+        })
+      );
+      return true;
+    }
+    case "createGroup": {
+      const agentGroupId = p.id;
+      const nodeIds = p.nodeIds!;
+      enqueue(
+        () =>
+          new Promise<void>((resolve) => {
+            const timer = window.setTimeout(resolve, 2000);
+            window.dispatchEvent(
+              new CustomEvent("flow:agent-create-group", {
+                detail: {
+                  nodeIds: nodeIds.map(realId),
+                  name: p.name,
+                  done: (groupId: string | null) => {
+                    window.clearTimeout(timer);
+                    if (groupId && agentGroupId) idMap.set(agentGroupId, groupId);
+                    if (!groupId) toast("小T打组失败：成员节点不足两个或不存在", "warning");
+                    resolve();
+                  },
+                },
+              })
+            );
+          })
+      );
+      return true;
+    }
+    case "autoLayout": {
+      const focusId = p.id;
+      enqueue(() => {
+        window.dispatchEvent(
+          new CustomEvent(FLOW_AUTO_LAYOUT_EVENT, {
+            detail: {
+              source: "xiaot",
+              focusNodeId: focusId ? realId(focusId) : null,
+              historyOrigin: "transaction",
+            },
+          })
+        );
+      });
+      return true;
+    }
+    case "batch": {
+      // 子操作已在 parse 时整体校验；逐个入队，保持与单发相同的串行语义
+      for (const child of p.ops ?? []) applyParsed(child);
+      return true;
+    }
     default:
       return false;
   }
@@ -5,7 +5,7 @@
  *
  * 支持多模型调用方式:
  * 1. 内部调用 (带身份认证): /api/ai/generate-image
- * 2. 公开调用 (无需认证): /api/public/ai/generate
+ * 2. 公开调用 (登录态或 x-api-key，按次扣积分): /api/public/ai/generate
  */
 
 import { tokenRefreshManager } from "./tokenRefreshManager";
@@ -0,0 +1,101 @@
+import { fetchWithAuth } from "./authFetch";
+
+const base =
+  import.meta.env.VITE_API_BASE_URL && import.meta.env.VITE_API_BASE_URL.trim().length > 0
+    ? import.meta.env.VITE_API_BASE_URL.replace(/\/+$/, "")
+    : "http://localhost:4000";
+
+export const API_KEY_SCOPES = ["image", "video", "audio", "chat"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKeyDto {
+  id: string;
+  teamId: string | null;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeyWithSecretDto {
+  apiKey: ApiKeyDto;
+  /** 明文 key，仅在创建/轮换时返回一次 */
+  secret: string;
+}
+
+async function json<T>(res: Response): Promise<T> {
+  if (!res.ok) {
+    let msg = `HTTP ${res.status}`;
+    try {
+      const d = await res.json();
+      msg = d?.message || d?.error || msg;
+    } catch {
+      /* ignore */
+    }
+    throw new Error(msg);
+  }
+  return res.json();
+}
+
+const headers = { "Content-Type": "application/json" } as const;
+
+/** teamId 为空时列出个人 key；否则列出团队 key（需团队 owner / admin）。 */
+export async function listApiKeys(teamId?: string | null): Promise<ApiKeyDto[]> {
+  const url = new URL(`${base}/api/api-keys`);
+  if (teamId) url.searchParams.set("teamId", teamId);
+  return json(await fetchWithAuth(url.toString()));
+}
+
+export async function createApiKey(input: {
+  name: string;
+  scopes: ApiKeyScope[];
+  teamId?: string;
+  expiresAt?: string;
+  rateLimitPerMinute?: number;
+}): Promise<ApiKeyWithSecretDto> {
+  return json(
+    await fetchWithAuth(`${base}/api/api-keys`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(input),
+    })
+  );
+}
+
+export async function updateApiKey(
+  id: string,
+  patch: {
+    name?: string;
+    scopes?: ApiKeyScope[];
+    expiresAt?: string | null;
+    rateLimitPerMinute?: number | null;
+  }
+): Promise<ApiKeyDto> {
+  return json(
+    await fetchWithAuth(`${base}/api/api-keys/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers,
+      body: JSON.stringify(patch),
+    })
+  );
+}
+
+export async function rotateApiKey(id: string): Promise<ApiKeyWithSecretDto> {
+  return json(
+    await fetchWithAuth(`${base}/api/api-keys/${encodeURIComponent(id)}/rotate`, {
+      method: "POST",
+    })
+  );
+}
+
+export async function revokeApiKey(id: string): Promise<void> {
+  await json(
+    await fetchWithAuth(`${base}/api/api-keys/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    })
+  );
+}
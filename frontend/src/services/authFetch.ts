@@ -27,6 +27,13 @@ export const IMAGE_REQUEST_TIMEOUT_MS = 15 * 60 * 1000;
 
 let refreshPromise: Promise<boolean> | null = null;
 let creditsRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+// 当前打开的项目：计费请求带上 X-Project-Id，后端据此归属用量并检查项目预算
+let creditProjectId: string | null = null;
+
+/** 由 projectStore 在切换项目时同步（authFetch 不直接依赖 projectStore，避免循环引用） */
+export const setCreditProjectContext = (projectId: string | null): void => {
+  creditProjectId = projectId;
+};
 
 const CREDITS_REFRESH_EVENT = "refresh-credits";
 const CREDITS_REFRESH_DEBOUNCE_MS = 1500;
@@ -71,6 +78,10 @@ const shouldNotifyCreditsRefresh = (
     return false;
   }
 
+  return isCreditsAffectingRequest(input);
+};
+
+const isCreditsAffectingRequest = (input: RequestInput): boolean => {
   const rawUrl = resolveRequestUrl(input);
   try {
     const parsed = new URL(
@@ -173,7 +184,7 @@ const createTimeoutSignal = (
   return { signal: controller.signal, cleanup };
 };
 
-const normalizeInit = (init?: AuthFetchInit): RequestInit => {
+const normalizeInit = (init?: AuthFetchInit, input?: RequestInput): RequestInit => {
   const { auth, ...rest } = init || {};
   const headers = new Headers(rest.headers || {});
   const authMode = auth ?? "auto";
@@ -193,6 +204,11 @@ const normalizeInit = (init?: AuthFetchInit): RequestInit => {
     headers.set('X-Team-Id', teamId);
   }
 
+  // 计费请求注入项目归属（调用方显式传入的优先）
+  if (creditProjectId && input && !headers.has('X-Project-Id') && isCreditsAffectingRequest(input)) {
+    headers.set('X-Project-Id', creditProjectId);
+  }
+
   const credentials =
     rest.credentials ?? (authMode === "omit" ? "omit" : "include");
 
@@ -224,7 +240,7 @@ export async function fetchWithAuth(
     };
     return fetch(input, directInit);
   }
-  const normalized = normalizeInit({ ...rest, auth });
+  const normalized = normalizeInit({ ...rest, auth }, input);
   const { signal: timedSignal, cleanup } = createTimeoutSignal(
     normalized.signal,
     timeoutMs,
@@ -256,7 +272,7 @@ export async function fetchWithAuth(
 
   const refreshed = await ensureRefresh();
   if (refreshed) {
-    const retryNormalized = normalizeInit({ ...rest, auth });
+    const retryNormalized = normalizeInit({ ...rest, auth }, input);
     const { signal: retrySignal, cleanup: retryCleanup } = createTimeoutSignal(
       retryNormalized.signal,
       timeoutMs,
@@ -102,7 +102,7 @@ class BackgroundRemovalService {
       const startTime = performance.now();
       logger.info("🌐 Sending request to backend for background removal...");
 
-      // 使用公开 API 端点（无需认证）
+      // 使用公开 API 端点（携带登录态，按次扣积分）
       const response = await fetchWithAuth(
         `${API_BASE}/api/public/ai/remove-background`,
         {
@@ -0,0 +1,144 @@
+import { fetchWithAuth } from "./authFetch";
+
+const base =
+  import.meta.env.VITE_API_BASE_URL && import.meta.env.VITE_API_BASE_URL.trim().length > 0
+    ? import.meta.env.VITE_API_BASE_URL.replace(/\/+$/, "")
+    : "http://localhost:4000";
+
+export type DirectorAssetKindDto = "motion" | "pose" | "scene";
+
+export interface DirectorAssetDto {
+  id: string;
+  ownerId: string;
+  teamId: string | null;
+  kind: DirectorAssetKindDto;
+  name: string;
+  data: Record<string, unknown>;
+  sourceId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocalDirectorAssetInput {
+  kind: DirectorAssetKindDto;
+  name: string;
+  data: Record<string, unknown>;
+  sourceId: string;
+}
+
+export interface ImportLocalDirectorAssetsResult {
+  created: number;
+  skipped: number;
+  invalid: { sourceId: string; message: string }[];
+}
+
+async function json<T>(res: Response): Promise<T> {
+  if (!res.ok) {
+    let msg = `HTTP ${res.status}`;
+    try {
+      const d = await res.json();
+      msg = d?.message || d?.error || msg;
+    } catch {
+      /* ignore */
+    }
+    throw new Error(msg);
+  }
+  return res.json();
+}
+
+const headers = { "Content-Type": "application/json" } as const;
+
+// ── personal assets ───────────────────────────────────────────────────────────
+
+export async function listDirectorAssets(params?: {
+  kind?: DirectorAssetKindDto;
+}): Promise<DirectorAssetDto[]> {
+  const url = new URL(`${base}/api/director-assets/assets`);
+  if (params?.kind) url.searchParams.set("kind", params.kind);
+  return json(await fetchWithAuth(url.toString()));
+}
+
+export async function createDirectorAsset(input: {
+  kind: DirectorAssetKindDto;
+  name: string;
+  data: Record<string, unknown>;
+}): Promise<DirectorAssetDto> {
+  return json(
+    await fetchWithAuth(`${base}/api/director-assets/assets`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(input),
+    })
+  );
+}
+
+export async function deleteDirectorAsset(assetId: string): Promise<void> {
+  await json(
+    await fetchWithAuth(
+      `${base}/api/director-assets/assets/${encodeURIComponent(assetId)}`,
+      { method: "DELETE" }
+    )
+  );
+}
+
+/** 把个人资产复制一份到团队 */
+export async function shareDirectorAsset(
+  assetId: string,
+  teamId: string
+): Promise<DirectorAssetDto> {
+  return json(
+    await fetchWithAuth(
+      `${base}/api/director-assets/assets/${encodeURIComponent(assetId)}/share`,
+      { method: "POST", headers, body: JSON.stringify({ teamId }) }
+    )
+  );
+}
+
+/** localStorage 迁移：服务端按 sourceId 去重，重复上传幂等 */
+export async function importLocalDirectorAssets(
+  items: LocalDirectorAssetInput[]
+): Promise<ImportLocalDirectorAssetsResult> {
+  return json(
+    await fetchWithAuth(`${base}/api/director-assets/assets/import-local`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ items }),
+    })
+  );
+}
+
+// ── team assets ────────────────────────────────────────────────────────────────
+
+export async function listTeamDirectorAssets(params: {
+  teamId: string;
+  kind?: DirectorAssetKindDto;
+}): Promise<DirectorAssetDto[]> {
+  const url = new URL(`${base}/api/director-assets/team-assets`);
+  url.searchParams.set("teamId", params.teamId);
+  if (params.kind) url.searchParams.set("kind", params.kind);
+  return json(await fetchWithAuth(url.toString()));
+}
+
+export async function createTeamDirectorAsset(input: {
+  teamId: string;
+  kind: DirectorAssetKindDto;
+  name: string;
+  data: Record<string, unknown>;
+}): Promise<DirectorAssetDto> {
+  return json(
+    await fetchWithAuth(`${base}/api/director-assets/team-assets`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(input),
+    })
+  );
+}
+
+export async function deleteTeamDirectorAsset(assetId: string): Promise<void> {
+  await json(
+    await fetchWithAuth(
+      `${base}/api/director-assets/team-assets/${encodeURIComponent(assetId)}`,
+      { method: "DELETE" }
+    )
+  );
+}
@@ -1,6 +1,15 @@
 import { useProjectContentStore } from '@/stores/projectContentStore';
 import { paperSaveService } from '@/services/paperSaveService';
 import type { ProjectContentSnapshot } from '@/types/project';
+import {
+  checkTransactionRevert,
+  isTransactionCommit,
+  shouldCoalesceIntoTransaction,
+  type HistoryCommitOrigin,
+  type HistoryTransaction,
+  type HistoryTransactionRecord,
+  type HistoryTransactionRevertCheck,
+} from '@/services/historyTransaction';
 
 type Snapshot = {
   id: number;
@@ -14,12 +23,17 @@ type Snapshot = {
   paperJsonDelta?: string;           // paperJson 的增量数据（如果是增量快照）
 };
 
+type ActiveTransaction = HistoryTransaction & {
+  pending: Set<Promise<void>>;       // 事务期间尚未落栈的 commit
+};
+
 type HistoryState = {
   past: Snapshot[];
   present: Snapshot | null;
   future: Snapshot[];
   restoring: boolean;
   nextSnapshotId: number;
+  transaction: ActiveTransaction | null;
 };
 
 // ============ 内存优化配置 ============
@@ -36,7 +50,7 @@ function getProjectId(): string | null {
 function getOrInitState(pid: string): HistoryState {
   let st = projectHistory.get(pid);
   if (!st) {
-    st = { past: [], present: null, future: [], restoring: false, nextSnapshotId: 1 };
+    st = { past: [], present: null, future: [], restoring: false, nextSnapshotId: 1, transaction: null };
     projectHistory.set(pid, st);
   }
   return st;
@@ -404,6 +418,48 @@ async function restoreSnapshot(to: Snapshot, opts?: { from?: Snapshot | null; op
   }
 }
 
+async function commitSnapshot(
+  st: HistoryState,
+  label: string | undefined,
+  origin: HistoryCommitOrigin,
+): Promise<void> {
+  const snap = await captureCurrentSnapshot(label);
+  if (!snap) return;
+
+  // 事务期间：事务来源的 commit 若 present 已是本事务条目，先弹回 baseline 再压入新快照（整段只占一条）
+  const txn = st.transaction;
+  const ownedByTxn = isTransactionCommit(txn, st, origin);
+  if (shouldCoalesceIntoTransaction(txn, st, origin)) st.present = st.past.pop() ?? null;
+
+  const snapWithId: Snapshot = {
+    ...snap,
+    id: allocateSnapshotId(st),
+    label: ownedByTxn ? txn!.label : snap.label,
+  };
+
+  // 尝试创建增量快照
+  const incrementalResult = createIncrementalSnapshot(snapWithId.content, st);
+
+  // 构建最终快照
+  const finalSnap: Snapshot = {
+    ...snapWithId,
+    content: incrementalResult.content,
+    isIncremental: incrementalResult.isIncremental,
+    baseSnapshotId: incrementalResult.baseId,
+    paperJsonDelta: incrementalResult.delta,
+  };
+
+  if (st.present) {
+    st.past.push(st.present);
+    while (st.past.length > MAX_DEPTH) dropOldestPastChunk(st);
+  }
+  st.present = finalSnap;
+  st.future = [];
+  if (ownedByTxn) txn!.headId = finalSnap.id;
+
+  trimHistoryByBudget(st);
+}
+
 export type HistoryDebugInfo = {
   pastCount: number;
   futureCount: number;
@@ -498,35 +554,20 @@ export const historyService = {
     }
   },
 
-  async commit(label?: string) {
+  /** origin 默认 "user"；只有标 "transaction" 的 commit 会折叠进进行中的事务。 */
+  async commit(label?: string, options?: { origin?: HistoryCommitOrigin }) {
     const pid = getProjectId();
     if (!pid) return;
     const st = getOrInitState(pid);
     if (st.restoring) return;
-    const snap = await captureCurrentSnapshot(label);
-    if (!snap) return;
-    const snapWithId: Snapshot = { ...snap, id: allocateSnapshotId(st) };
-
-    // 尝试创建增量快照
-    const incrementalResult = createIncrementalSnapshot(snapWithId.content, st);
-
-    // 构建最终快照
-    const finalSnap: Snapshot = {
-      ...snapWithId,
-      content: incrementalResult.content,
-      isIncremental: incrementalResult.isIncremental,
-      baseSnapshotId: incrementalResult.baseId,
-      paperJsonDelta: incrementalResult.delta,
-    };
-
-    if (st.present) {
-      st.past.push(st.present);
-      while (st.past.length > MAX_DEPTH) dropOldestPastChunk(st);
+    const origin = options?.origin ?? 'user';
+    const txn = origin === 'transaction' ? st.transaction : null;
+    const task = commitSnapshot(st, label, origin);
+    if (txn) {
+      txn.pending.add(task);
+      task.finally(() => txn.pending.delete(task)).catch(() => {});
     }
-    st.present = finalSnap;
-    st.future = [];
-
-    trimHistoryByBudget(st);
+    await task;
   },
 
   async undo() {
@@ -545,6 +586,56 @@ export const historyService = {
     await restoreSnapshot(resolvedPrev, { from, op: 'undo' });
   },
 
+  /**
+   * 开启事务：之后的 commit 折叠成一条历史条目，直到 endTransaction。
+   * 同一项目同时只允许一个事务；返回开启时的 projectId（供结束时定位），失败返回 null。
+   */
+  async beginTransaction(label: string): Promise<string | null> {
+    const pid = getProjectId();
+    if (!pid) return null;
+    const st = getOrInitState(pid);
+    if (st.transaction) return null;
+    await this.captureInitialIfEmpty();
+    if (!st.present || st.transaction) return null;
+    st.transaction = { label, baseId: st.present.id, headId: null, pending: new Set() };
+    return pid;
+  },
+
+  /**
+   * 结束事务。finalCommit 时再补一次快照，收进没有单独 commit 的改动（如节点 data 更新）。
+   * 事务里没有任何条目落栈则返回 null（无可撤销内容）。
+   */
+  async endTransaction(
+    projectId: string,
+    options?: { finalCommit?: boolean },
+  ): Promise<HistoryTransactionRecord | null> {
+    const st = projectHistory.get(projectId);
+    const txn = st?.transaction;
+    if (!st || !txn) return null;
+    try {
+      await Promise.allSettled(Array.from(txn.pending));
+      if (options?.finalCommit && getProjectId() === projectId) {
+        await this.commit(txn.label, { origin: 'transaction' });
+      }
+    } finally {
+      st.transaction = null;
+    }
+    if (txn.headId === null) return null;
+    return { projectId, label: txn.label, baseId: txn.baseId, headId: txn.headId };
+  },
+
+  /** 整体撤销一个已结束的事务；事务条目之后已有其他改动时返回 stale，不动栈。 */
+  async revertTransaction(record: HistoryTransactionRecord): Promise<HistoryTransactionRevertCheck> {
+    const pid = getProjectId();
+    const st = pid ? projectHistory.get(pid) : undefined;
+    const check = checkTransactionRevert(record, pid, st);
+    if (check !== 'ok') return check;
+    // 另一个事务进行中时回退会打乱它的 baseline
+    if (st!.transaction || st!.restoring) return 'stale';
+    await this.undo();
+    return 'ok';
+  },
+
   async redo() {
     const pid = getProjectId();
     if (!pid) return;
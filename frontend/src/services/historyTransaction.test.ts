@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  checkTransactionRevert,
+  isTransactionCommit,
+  shouldCoalesceIntoTransaction,
+  type HistoryTransactionRecord,
+} from './historyTransaction.ts';
+
+const stack = (pastIds: number[], presentId: number | null) => ({
+  past: pastIds.map((id) => ({ id })),
+  present: presentId === null ? null : { id: presentId },
+});
+
+test('first commit inside a transaction is pushed, later ones replace the transaction entry', () => {
+  const txn = { label: 'agent-turn', baseId: 3, headId: null };
+  assert.equal(shouldCoalesceIntoTransaction(txn, stack([1, 2], 3), 'transaction'), false);
+
+  const opened = { ...txn, headId: 4 };
+  assert.equal(shouldCoalesceIntoTransaction(opened, stack([1, 2, 3], 4), 'transaction'), true);
+  assert.equal(shouldCoalesceIntoTransaction(null, stack([1, 2, 3], 4), 'transaction'), false);
+});
+
+test('manual undo during a transaction stops coalescing', () => {
+  const txn = { label: 'agent-turn', baseId: 3, headId: 4 };
+  // Ctrl+Z 回到 baseline 之后 present 已不是事务条目
+  assert.equal(shouldCoalesceIntoTransaction(txn, stack([1, 2], 3), 'transaction'), false);
+  // 另有一条普通 commit 压在事务条目之上
+  assert.equal(shouldCoalesceIntoTransaction(txn, stack([1, 2, 3, 4], 5), 'transaction'), false);
+});
+
+test('user commits during a transaction are never folded into it', () => {
+  const txn = { label: 'agent-turn', baseId: 3, headId: 4 };
+  assert.equal(shouldCoalesceIntoTransaction(txn, stack([1, 2, 3], 4), 'user'), false);
+  assert.equal(isTransactionCommit(txn, stack([1, 2, 3], 4), 'user'), false);
+  assert.equal(isTransactionCommit({ ...txn, headId: null }, stack([1, 2], 3), 'user'), false);
+
+  assert.equal(isTransactionCommit({ ...txn, headId: null }, stack([1, 2], 3), 'transaction'), true);
+  assert.equal(isTransactionCommit(txn, stack([1, 2, 3], 4), 'transaction'), true);
+  // 用户已在事务条目之上插入普通条目：之后的事务 commit 也只能另起一条
+  assert.equal(isTransactionCommit(txn, stack([1, 2, 3, 4], 5), 'transaction'), false);
+});
+
+test('a finished transaction can only be reverted while it is still on top', () => {
+  const record: HistoryTransactionRecord = {
+    projectId: 'project-1',
+    label: 'agent-turn',
+    baseId: 3,
+    headId: 4,
+  };
+  assert.equal(checkTransactionRevert(record, 'project-1', stack([1, 2, 3], 4)), 'ok');
+  assert.equal(checkTransactionRevert(record, 'project-1', stack([1, 2, 3, 4], 5)), 'stale');
+  assert.equal(checkTransactionRevert(record, 'project-1', stack([1, 2], 3)), 'stale');
+  assert.equal(checkTransactionRevert(record, 'project-2', stack([1, 2, 3], 4)), 'unavailable');
+  assert.equal(checkTransactionRevert(null, 'project-1', stack([1, 2, 3], 4)), 'unavailable');
+});
@@ -0,0 +1,75 @@
+// 撤销栈事务（纯逻辑，historyService 调用）：一段时间内的多次 commit 折叠成
+// 一条历史条目，整体撤销/确认。典型场景是小T一轮运行里的全部画布改动。
+// 折叠方式：事务开启时记下 present（baseline）；之后每次 commit 若发现 present
+// 已是本事务条目且紧贴 baseline，就先弹回 baseline 再压入新快照，栈上始终只多一条。
+// 只有显式标记 origin: "transaction" 的 commit 参与折叠；事务期间用户自己的编辑
+// 仍各占一条，不会被整轮撤销一并带走。
+
+type SnapshotRef = { id: number };
+
+export type HistoryStackRef = {
+  past: SnapshotRef[];
+  present: SnapshotRef | null;
+};
+
+export type HistoryTransaction = {
+  label: string;
+  baseId: number;
+  headId: number | null;
+};
+
+export type HistoryTransactionRecord = {
+  projectId: string;
+  label: string;
+  baseId: number;
+  headId: number;
+};
+
+export type HistoryTransactionRevertCheck = "ok" | "stale" | "unavailable";
+
+/** commit 来源：事务发起方（如小T patch 队列）触发的改动标 "transaction"，其余为 "user"。 */
+export type HistoryCommitOrigin = "user" | "transaction";
+
+const pastTop = (stack: HistoryStackRef): SnapshotRef | undefined =>
+  stack.past[stack.past.length - 1];
+
+/** 本次 commit 是否应替换事务已有条目（而不是新增一条）。 */
+export function shouldCoalesceIntoTransaction(
+  txn: HistoryTransaction | null | undefined,
+  stack: HistoryStackRef,
+  origin: HistoryCommitOrigin
+): boolean {
+  if (origin !== "transaction") return false;
+  if (!txn || txn.headId === null || !stack.present) return false;
+  // 事务中途用户手动 Ctrl+Z 过：present 不再是事务条目，按普通 commit 处理
+  return stack.present.id === txn.headId && pastTop(stack)?.id === txn.baseId;
+}
+
+/**
+ * 本次 commit 是否记为事务条目：来源为事务、且落在 baseline 之上（首条）或替换已有事务条目。
+ * 用户在事务中途插入过普通条目后，事务侧的 commit 也按普通条目处理，整轮撤销随之失效。
+ */
+export function isTransactionCommit(
+  txn: HistoryTransaction | null | undefined,
+  stack: HistoryStackRef,
+  origin: HistoryCommitOrigin
+): boolean {
+  if (origin !== "transaction" || !txn || !stack.present) return false;
+  return (
+    shouldCoalesceIntoTransaction(txn, stack, origin) || stack.present.id === txn.baseId
+  );
+}
+
+/**
+ * 事务能否整体撤销：只有事务条目仍在栈顶（之后没有别的 commit/undo）时才能
+ * 直接回到 baseline；否则回退会连带丢掉用户后续改动，交给用户逐步 Ctrl+Z。
+ */
+export function checkTransactionRevert(
+  record: HistoryTransactionRecord | null | undefined,
+  projectId: string | null,
+  stack: HistoryStackRef | null | undefined
+): HistoryTransactionRevertCheck {
+  if (!record || !stack || !projectId || record.projectId !== projectId) return "unavailable";
+  if (stack.present?.id === record.headId && pastTop(stack)?.id === record.baseId) return "ok";
+  return "stale";
+}
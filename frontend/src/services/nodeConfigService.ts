@@ -180,6 +180,7 @@ function getDefaultConfigs(): NodeConfig[] {
     { nodeKey: "seed3d", nameZh: "Seed 3D", nameEn: "Seed 3D", category: "other", status: "normal", sortOrder: 41, creditsPerCall: 300, serviceType: "convert-2d-to-3d" },
     { nodeKey: "audioStudio", nameZh: "音频工作台", nameEn: "Audio Studio", category: "audio", status: "normal", sortOrder: 41, creditsPerCall: 0 },
     { nodeKey: "videoToGif", nameZh: "视频转GIF", nameEn: "Video to GIF", category: "other", status: "normal", sortOrder: 43, creditsPerCall: 30, serviceType: "video-to-gif", priceYuan: 0.3 },
+    { nodeKey: "subtitle", nameZh: "字幕", nameEn: "Subtitles", category: "video", status: "normal", sortOrder: 44, creditsPerCall: 20, serviceType: "video-subtitle-asr", priceYuan: 0.2 },
   ];
 }
 
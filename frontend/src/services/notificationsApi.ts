@@ -0,0 +1,96 @@
+import { fetchWithAuth } from "./authFetch";
+
+const base =
+  import.meta.env.VITE_API_BASE_URL && import.meta.env.VITE_API_BASE_URL.trim().length > 0
+    ? import.meta.env.VITE_API_BASE_URL.replace(/\/+$/, "")
+    : "http://localhost:4000";
+
+export const NOTIFICATION_TYPES = [
+  "mention",
+  "team_invite",
+  "task_completed",
+  "credits_expiring",
+  "project_budget",
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * data 随 type 变化：
+ * - mention：projectId / projectName / actorName / nodeId / threadId / commentId / excerpt
+ * - team_invite：teamId / teamName / inviteCode / inviterName / expiresAt
+ * - task_completed：taskId / taskType / status / projectId / nodeId / url / thumbnailUrl / error
+ * - credits_expiring：amount / expiresAt
+ * - project_budget：projectId / projectName / threshold / spent / limitCredits
+ */
+export interface NotificationDto {
+  id: string;
+  type: NotificationType | string;
+  actorId: string | null;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  items: NotificationDto[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+async function json<T>(res: Response): Promise<T> {
+  if (!res.ok) {
+    let msg = `HTTP ${res.status}`;
+    try {
+      const d = await res.json();
+      msg = d?.message || d?.error || msg;
+    } catch {
+      /* ignore */
+    }
+    throw new Error(msg);
+  }
+  return res.json();
+}
+
+const headers = { "Content-Type": "application/json" } as const;
+
+export async function listNotifications(
+  params: { cursor?: string | null; limit?: number; unreadOnly?: boolean } = {}
+): Promise<NotificationPage> {
+  const url = new URL(`${base}/api/notifications`);
+  if (params.cursor) url.searchParams.set("cursor", params.cursor);
+  if (params.limit) url.searchParams.set("limit", String(params.limit));
+  if (params.unreadOnly) url.searchParams.set("unreadOnly", "true");
+  return json(await fetchWithAuth(url.toString()));
+}
+
+export async function getUnreadNotificationCount(): Promise<{ unreadCount: number }> {
+  return json(await fetchWithAuth(`${base}/api/notifications/unread-count`));
+}
+
+export async function markNotificationRead(id: string): Promise<{ unreadCount: number }> {
+  return json(
+    await fetchWithAuth(`${base}/api/notifications/${encodeURIComponent(id)}/read`, {
+      method: "POST",
+    })
+  );
+}
+
+export async function markAllNotificationsRead(): Promise<{ updated: number; unreadCount: number }> {
+  return json(await fetchWithAuth(`${base}/api/notifications/read-all`, { method: "POST" }));
+}
+
+export async function getNotificationPreferences(): Promise<{ mutedTypes: NotificationType[] }> {
+  return json(await fetchWithAuth(`${base}/api/notifications/preferences`));
+}
+
+export async function updateNotificationPreferences(
+  mutedTypes: NotificationType[]
+): Promise<{ mutedTypes: NotificationType[] }> {
+  return json(
+    await fetchWithAuth(`${base}/api/notifications/preferences`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ mutedTypes }),
+    })
+  );
+}
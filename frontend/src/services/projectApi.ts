@@ -34,6 +34,15 @@ export type WorkflowHistoryDetail = WorkflowHistoryEntry & {
   flow: FlowGraphSnapshot;
 };
 
+// 三方合并冲突（与后端 merge-project-snapshots.ts 的 ProjectMergeConflict 对应）
+export type ProjectMergeConflict = {
+  collection: string;
+  id: string;
+  field?: string;
+  kind: "modify-modify" | "delete-modify" | "modify-delete" | "add-add";
+  resolution: "incoming" | "remote";
+};
+
 // 后端基础地址，统一从 .env 中读取：
 // 例如在 .env.development / .env.production 中配置：
 // VITE_API_BASE_URL="https://your-backend-domain.com"
@@ -109,6 +118,19 @@ export const projectApi = {
     });
     return json<Project>(res);
   },
+  // 导入 .tanva 归档：后端重新上传归档内的资源并创建新项目
+  async importArchive(file: File, options?: { teamId?: string | null }): Promise<Project> {
+    const form = new FormData();
+    form.append("file", file, file.name);
+    const headers: Record<string, string> = {};
+    if (options?.teamId) headers["x-team-id"] = options.teamId;
+    const res = await fetchWithAuth(`${base}/api/projects/import`, {
+      method: "POST",
+      headers,
+      body: form,
+    });
+    return json<Project>(res);
+  },
   async create(payload: { name?: string; teamId?: string | null }): Promise<Project> {
     // 后端从 x-team-id 头读取团队上下文：团队模式下新建项目会立即共享给该团队。
     const headers: Record<string, string> = { "Content-Type": "application/json" };
@@ -187,6 +209,9 @@ export const projectApi = {
     /** 服务端命中版本冲突并做了并集合并时为 true，此时 content 为合并后的快照。 */
     merged?: boolean;
     content?: ProjectContentSnapshot;
+    /** 三方合并中双方改动同一条目的记录（服务端已自动取舍，最多回传 50 条），conflictCount 为总数。 */
+    conflicts?: ProjectMergeConflict[];
+    conflictCount?: number;
     /** 服务端判定本地 baseVersion 落后且非协作，拒绝写入。此时前端应冻结并强制刷新。 */
     stale?: boolean;
     latestVersion?: number;
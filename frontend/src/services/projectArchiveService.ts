@@ -0,0 +1,152 @@
+/**
+ * 项目归档（.tanva）导出 / 导入。
+ * 导出在浏览器内完成：取项目内容 → 下载全部引用的资源 → 打包 zip；
+ * 导入把归档整体交给后端，由后端重新上传资源并创建新项目。格式说明见 utils/projectArchive。
+ */
+import { strToU8, zipSync, type Zippable } from "fflate";
+import { paperSaveService } from "@/services/paperSaveService";
+import { projectApi, type Project } from "@/services/projectApi";
+import { useProjectContentStore } from "@/stores/projectContentStore";
+import type { ProjectContentSnapshot } from "@/types/project";
+import { proxifyRemoteAssetUrl } from "@/utils/assetProxy";
+import {
+  isAssetKeyRef,
+  isBlobUrl,
+  isDataUrl,
+  isRemoteUrl,
+  normalizePersistableImageRef,
+  resolveImageToBlob,
+} from "@/utils/imageSource";
+import {
+  ARCHIVE_CONTENT_PATH,
+  ARCHIVE_MANIFEST_PATH,
+  archiveAssetPath,
+  assetKindFromMime,
+  buildProjectArchiveManifest,
+  collectProjectAssetRefs,
+  guessMimeType,
+  mapProjectAssetRefs,
+  projectArchiveFileName,
+  toArchiveAssetRef,
+  type ProjectArchiveAssetEntry,
+} from "@/utils/projectArchive";
+
+export type ProjectArchiveExportResult = {
+  fileName: string;
+  assetCount: number;
+  /** 没能取回文件、在归档里保留原地址的资源数 */
+  unresolvedAssetCount: number;
+};
+
+// 已经压缩过的媒体不再做 deflate，只存储
+const STORED_EXTENSIONS = /\.(png|jpe?g|webp|gif|mp4|webm|mov|mp3|m4a|ogg|glb)$/i;
+
+// 当前打开的项目取实时内容（含尚未上传完成的本地图片），否则取云端已保存的内容
+const loadProjectContent = async (projectId: string): Promise<ProjectContentSnapshot> => {
+  const store = useProjectContentStore.getState();
+  if (store.projectId === projectId && store.content) {
+    const paperJson = paperSaveService.serializePaperProject();
+    return { ...store.content, paperJson: paperJson ?? store.content.paperJson };
+  }
+  const { content } = await projectApi.getContent(projectId);
+  return content;
+};
+
+const fetchBlob = async (url: string): Promise<Blob | null> => {
+  try {
+    const response = await fetch(url);
+    return response.ok ? await response.blob() : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchAssetBlob = async (ref: string): Promise<Blob | null> => {
+  // 图片走统一的图片解析（含 flow-asset / 代理回退）
+  if (ref.startsWith("flow-asset:") || assetKindFromMime(guessMimeType(ref)) === "image") {
+    const blob = await resolveImageToBlob(ref).catch(() => null);
+    if (blob) return blob;
+  }
+  const normalized = normalizePersistableImageRef(ref);
+  const candidates: string[] = [];
+  if (isDataUrl(normalized) || isBlobUrl(normalized)) {
+    candidates.push(normalized);
+  } else if (isAssetKeyRef(normalized)) {
+    const key = normalized.replace(/^\/+/, "");
+    candidates.push(
+      proxifyRemoteAssetUrl(`/api/assets/proxy?key=${encodeURIComponent(key)}`, { forceProxy: true })
+    );
+  } else if (isRemoteUrl(normalized)) {
+    candidates.push(proxifyRemoteAssetUrl(normalized, { forceProxy: true }), normalized);
+  }
+  for (const url of candidates) {
+    const blob = await fetchBlob(url);
+    if (blob && blob.size > 0) return blob;
+  }
+  return null;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const projectArchiveService = {
+  async exportProject(
+    project: Pick<Project, "id" | "name">,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ProjectArchiveExportResult> {
+    const content = await loadProjectContent(project.id);
+    const refs = collectProjectAssetRefs(content);
+
+    const files: Zippable = {};
+    const entries: ProjectArchiveAssetEntry[] = [];
+    const pathByRef = new Map<string, string>();
+    let unresolvedAssetCount = 0;
+
+    for (let i = 0; i < refs.length; i += 1) {
+      const ref = refs[i];
+      onProgress?.(i, refs.length);
+      const blob = await fetchAssetBlob(ref);
+      if (!blob) {
+        unresolvedAssetCount += 1;
+        continue;
+      }
+      const declared = (blob.type || "").split(";")[0].trim().toLowerCase();
+      const mimeType = declared && declared !== "application/octet-stream" ? declared : guessMimeType(ref);
+      const path = archiveAssetPath(entries.length, mimeType, ref);
+      const data = new Uint8Array(await blob.arrayBuffer());
+      files[path] = STORED_EXTENSIONS.test(path) ? [data, { level: 0 }] : data;
+      entries.push({ path, kind: assetKindFromMime(mimeType), mimeType, size: data.byteLength });
+      pathByRef.set(ref, path);
+    }
+    onProgress?.(refs.length, refs.length);
+
+    const archivedContent = mapProjectAssetRefs(content, (ref) => {
+      const path = pathByRef.get(ref);
+      return path ? toArchiveAssetRef(path) : null;
+    });
+    const manifest = buildProjectArchiveManifest({
+      projectName: project.name,
+      assets: entries,
+      unresolvedAssetCount,
+    });
+    files[ARCHIVE_MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+    files[ARCHIVE_CONTENT_PATH] = strToU8(JSON.stringify(archivedContent));
+
+    const zipped = zipSync(files, { level: 6 });
+    const fileName = projectArchiveFileName(project.name);
+    downloadBlob(new Blob([zipped], { type: "application/zip" }), fileName);
+    return { fileName, assetCount: entries.length, unresolvedAssetCount };
+  },
+
+  async importArchive(file: File, options?: { teamId?: string | null }): Promise<Project> {
+    return projectApi.importArchive(file, options);
+  },
+};
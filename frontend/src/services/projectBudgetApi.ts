@@ -0,0 +1,71 @@
+import { fetchWithAuth } from "./authFetch";
+
+const base =
+  import.meta.env.VITE_API_BASE_URL && import.meta.env.VITE_API_BASE_URL.trim().length > 0
+    ? import.meta.env.VITE_API_BASE_URL.replace(/\/+$/, "")
+    : "http://localhost:4000";
+
+export interface ProjectBudgetDto {
+  projectId: string;
+  limitCredits: number;
+  alertThresholds: number[];
+  blockWhenExceeded: boolean;
+  alertedThreshold: number;
+  spentCredits: number;
+  usagePercent: number;
+  updatedAt: string;
+}
+
+export interface ProjectCreditUsageRow {
+  /** byModel 为模型名（无模型时为服务名）；byNode 为节点 id，null 表示未归属到节点 */
+  key: string | null;
+  label: string | null;
+  credits: number;
+  calls: number;
+}
+
+export interface ProjectCreditUsageDto {
+  projectId: string;
+  totalCredits: number;
+  totalCalls: number;
+  byModel: ProjectCreditUsageRow[];
+  byNode: ProjectCreditUsageRow[];
+  budget: ProjectBudgetDto | null;
+}
+
+async function json<T>(res: Response): Promise<T> {
+  if (!res.ok) {
+    let msg = `HTTP ${res.status}`;
+    try {
+      const d = await res.json();
+      msg = d?.message || d?.error || msg;
+    } catch {
+      /* ignore */
+    }
+    throw new Error(msg);
+  }
+  return res.json();
+}
+
+const projectUrl = (projectId: string) => `${base}/api/projects/${encodeURIComponent(projectId)}`;
+
+export async function getProjectCreditUsage(projectId: string): Promise<ProjectCreditUsageDto> {
+  return json(await fetchWithAuth(`${projectUrl(projectId)}/credit-usage`));
+}
+
+export async function saveProjectBudget(
+  projectId: string,
+  input: { limitCredits: number; alertThresholds?: number[]; blockWhenExceeded?: boolean }
+): Promise<ProjectBudgetDto> {
+  return json(
+    await fetchWithAuth(`${projectUrl(projectId)}/credit-budget`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+  );
+}
+
+export async function removeProjectBudget(projectId: string): Promise<void> {
+  await json(await fetchWithAuth(`${projectUrl(projectId)}/credit-budget`, { method: "DELETE" }));
+}
@@ -0,0 +1,134 @@
+import { fetchWithAuth } from "./authFetch";
+import type { CanvasComment, CanvasCommentThread } from "./canvasCommentsApi";
+import type { ProjectContentSnapshot } from "@/types/project";
+import type { ProjectShareAccess } from "@/utils/projectShare";
+
+const base =
+  import.meta.env.VITE_API_BASE_URL && import.meta.env.VITE_API_BASE_URL.trim().length > 0
+    ? import.meta.env.VITE_API_BASE_URL.replace(/\/+$/, "")
+    : "http://localhost:4000";
+
+export interface ProjectShareLinkDto {
+  id: string;
+  projectId: string;
+  token: string;
+  access: ProjectShareAccess;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  state: "active" | "expired" | "revoked";
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+export interface SharedProjectDto {
+  project: { name: string };
+  access: ProjectShareAccess;
+  expiresAt: string | null;
+  updatedAt: string | null;
+  content: Partial<ProjectContentSnapshot> | null;
+}
+
+/** 公开接口的错误带上状态码：401 需要密码 / 密码错误，404 不存在或已撤销，410 已过期 */
+export class ShareRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ShareRequestError";
+  }
+}
+
+async function json<T>(res: Response): Promise<T> {
+  if (!res.ok) {
+    let msg = `HTTP ${res.status}`;
+    try {
+      const d = await res.json();
+      msg = d?.message || d?.error || msg;
+    } catch {
+      /* ignore */
+    }
+    throw new ShareRequestError(msg, res.status);
+  }
+  return res.json();
+}
+
+const PASSWORD_HEADER = "x-share-password";
+
+const shareHeaders = (password?: string | null, withJson = false): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (withJson) headers["Content-Type"] = "application/json";
+  if (password) headers[PASSWORD_HEADER] = password;
+  return headers;
+};
+
+const linksUrl = (projectId: string) => `${base}/api/projects/${encodeURIComponent(projectId)}/share-links`;
+const shareUrl = (token: string) => `${base}/api/share/${encodeURIComponent(token)}`;
+
+// ---- 管理（项目成员） ----
+
+export async function listShareLinks(projectId: string): Promise<ProjectShareLinkDto[]> {
+  return json(await fetchWithAuth(linksUrl(projectId)));
+}
+
+export async function createShareLink(
+  projectId: string,
+  input: { access: ProjectShareAccess; password?: string; expiresAt?: string }
+): Promise<ProjectShareLinkDto> {
+  return json(
+    await fetchWithAuth(linksUrl(projectId), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+  );
+}
+
+export async function revokeShareLink(projectId: string, linkId: string): Promise<void> {
+  await json(
+    await fetchWithAuth(`${linksUrl(projectId)}/${encodeURIComponent(linkId)}`, {
+      method: "DELETE",
+    })
+  );
+}
+
+// ---- 公开访问（查看无需登录；401 表示需要分享密码，不触发登录刷新） ----
+
+export async function getSharedProject(token: string, password?: string | null): Promise<SharedProjectDto> {
+  return json(await fetchWithAuth(shareUrl(token), { auth: "omit", headers: shareHeaders(password) }));
+}
+
+export async function listSharedComments(token: string, password?: string | null): Promise<CanvasCommentThread[]> {
+  return json(
+    await fetchWithAuth(`${shareUrl(token)}/comments`, { auth: "omit", headers: shareHeaders(password) })
+  );
+}
+
+/** 评论需要登录：comment 权限的链接由登录用户以本人身份发表 */
+export async function createSharedCommentThread(
+  token: string,
+  password: string | null | undefined,
+  payload: { body: string; x?: number; y?: number; nodeId?: string }
+): Promise<CanvasCommentThread> {
+  return json(
+    await fetchWithAuth(`${shareUrl(token)}/comments`, {
+      method: "POST",
+      headers: shareHeaders(password, true),
+      body: JSON.stringify(payload),
+    })
+  );
+}
+
+export async function replySharedCommentThread(
+  token: string,
+  password: string | null | undefined,
+  threadId: string,
+  payload: { body: string }
+): Promise<CanvasComment> {
+  return json(
+    await fetchWithAuth(`${shareUrl(token)}/comments/${encodeURIComponent(threadId)}/replies`, {
+      method: "POST",
+      headers: shareHeaders(password, true),
+      body: JSON.stringify(payload),
+    })
+  );
+}
@@ -1,8 +1,9 @@
-import type { FlowTemplate, TemplateIndexEntry } from "@/types/template";
+import type { StoredFlowTemplate, TemplateIndexEntry } from "@/types/template";
 import { fetchWithAuth } from "./authFetch";
 
 export interface PublicTemplate extends TemplateIndexEntry {
-  templateData?: FlowTemplate;
+  // 原样存储的模板数据，可能是 V1；实例化前经 templateStore 升级
+  templateData?: StoredFlowTemplate;
   isActive?: boolean;
   sortOrder?: number;
   thumbnailSmall?: string;
@@ -48,7 +49,7 @@ export async function fetchPublicTemplateIndex(): Promise<
 // 根据ID获取公共模板数据
 export async function fetchPublicTemplateById(
   id: string
-): Promise<FlowTemplate | null> {
+): Promise<StoredFlowTemplate | null> {
   try {
     const response = await fetchWithAuth(`${API_BASE}/api/templates/${id}`);
     if (!response.ok) {
@@ -58,7 +59,7 @@ export async function fetchPublicTemplateById(
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     const data = await response.json();
-    return data as FlowTemplate;
+    return data as StoredFlowTemplate;
   } catch (error) {
     console.warn("fetchPublicTemplateById error:", error);
     return null;
@@ -0,0 +1,90 @@
+/**
+ * 字幕节点服务端接口：识别音轨生成分段、按样式烧录进视频。
+ * 两个接口都是同步返回（识别最长约 10 分钟），计费由后端按次扣除。
+ */
+
+import { fetchWithAuth } from "./authFetch";
+import type {
+  SubtitleLanguage,
+  SubtitleSegment,
+  SubtitleStyle,
+} from "@/components/flow/nodes/subtitle/subtitleFormat";
+
+const API_BASE =
+  (import.meta.env.VITE_API_BASE_URL as string | undefined) ||
+  "http://localhost:4000";
+
+const buildUrl = (path: string) => {
+  const base = API_BASE.replace(/\/+$/, "");
+  const p = path.replace(/^\/+/, "");
+  return `${base}/${p}`;
+};
+
+const readError = async (resp: Response): Promise<string> => {
+  const data = (await resp.json().catch(() => ({}))) as { message?: unknown; error?: unknown };
+  if (typeof data.message === "string" && data.message.trim()) return data.message.trim();
+  if (Array.isArray(data.message)) return data.message.join("; ");
+  if (typeof data.error === "string" && data.error.trim()) return data.error.trim();
+  return `HTTP ${resp.status}`;
+};
+
+async function post<T>(path: string, body: unknown): Promise<T> {
+  const resp = await fetchWithAuth(buildUrl(path), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!resp.ok) throw new Error(await readError(resp));
+  return (await resp.json()) as T;
+}
+
+export interface TranscribeSubtitlesResult {
+  success: boolean;
+  language: SubtitleLanguage;
+  segments: SubtitleSegment[];
+  srt: string;
+  vtt: string;
+}
+
+export interface BurnSubtitlesResult {
+  success: boolean;
+  videoUrl: string;
+  videoKey: string;
+  width: number;
+  height: number;
+}
+
+/** 素材必须是已上传的 http(s) URL（blob:/data: 只存在于当前页面，后端拿不到） */
+const assertRemoteUrl = (url: string, label: string) => {
+  if (!/^https?:\/\//i.test(url.trim())) {
+    throw new Error(`${label}尚未上传，请等待上传完成后再试`);
+  }
+};
+
+export function transcribeSubtitles(request: {
+  mediaUrl: string;
+  language: SubtitleLanguage;
+  projectId?: string | null;
+}): Promise<TranscribeSubtitlesResult> {
+  assertRemoteUrl(request.mediaUrl, "音视频");
+  return post<TranscribeSubtitlesResult>("/api/subtitles/transcribe", {
+    mediaUrl: request.mediaUrl,
+    language: request.language,
+    projectId: request.projectId ?? undefined,
+  });
+}
+
+export function burnSubtitles(request: {
+  videoUrl: string;
+  segments: SubtitleSegment[];
+  style: SubtitleStyle;
+  projectId?: string | null;
+}): Promise<BurnSubtitlesResult> {
+  assertRemoteUrl(request.videoUrl, "视频");
+  return post<BurnSubtitlesResult>("/api/subtitles/burn", {
+    videoUrl: request.videoUrl,
+    segments: request.segments,
+    style: request.style,
+    projectId: request.projectId ?? undefined,
+  });
+}
@@ -4,6 +4,7 @@ import {
   fetchPublicTemplateById,
 } from "./publicTemplateService";
 import { fetchWithAuth } from "./authFetch";
+import { migrateFlowTemplate } from "@/utils/flowTemplateInputs";
 
 // Minimal IndexedDB wrapper for user templates
 const DB_NAME = "tanva_templates";
@@ -22,6 +23,21 @@ type UserTemplateRecord = FlowTemplate & {
   updatedAt: string;
 };
 
+// 存量模板（IndexedDB / 接口）可能仍是 schemaVersion 1，读取时统一升级为 V2
+function migrateUserTemplateRecord(
+  raw: unknown
+): UserTemplateRecord | undefined {
+  const tpl = migrateFlowTemplate(raw);
+  if (!tpl) return undefined;
+  const record = raw as Partial<UserTemplateRecord>;
+  const now = new Date().toISOString();
+  return {
+    ...tpl,
+    createdAt: String(record.createdAt || now),
+    updatedAt: String(record.updatedAt || record.createdAt || now),
+  };
+}
+
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const req = indexedDB.open(DB_NAME, DB_VERSION);
@@ -42,7 +58,12 @@ async function listLocalTemplateRecords(): Promise<UserTemplateRecord[]> {
     const tx = db.transaction(STORE_TEMPLATES, "readonly");
     const store = tx.objectStore(STORE_TEMPLATES);
     const req = store.getAll();
-    req.onsuccess = () => resolve((req.result as UserTemplateRecord[]) || []);
+    req.onsuccess = () =>
+      resolve(
+        ((req.result as unknown[]) || [])
+          .map(migrateUserTemplateRecord)
+          .filter((tpl): tpl is UserTemplateRecord => !!tpl)
+      );
     req.onerror = () => reject(req.error);
   });
 }
@@ -81,7 +102,7 @@ async function getLocalUserTemplate(
     const tx = db.transaction(STORE_TEMPLATES, "readonly");
     const store = tx.objectStore(STORE_TEMPLATES);
     const req = store.get(id);
-    req.onsuccess = () => resolve(req.result as UserTemplateRecord | undefined);
+    req.onsuccess = () => resolve(migrateUserTemplateRecord(req.result));
     req.onerror = () => reject(req.error);
   });
 }
@@ -177,8 +198,7 @@ async function getRemoteUserTemplate(
   if (!res.ok) {
     throw new Error(await parseHttpError(res));
   }
-  const data = (await res.json()) as UserTemplateRecord;
-  return data;
+  return migrateUserTemplateRecord(await res.json());
 }
 
 async function saveRemoteUserTemplate(tpl: FlowTemplate): Promise<void> {
@@ -315,7 +335,7 @@ export async function loadBuiltInTemplateById(
   templateId: string
 ): Promise<FlowTemplate | null> {
   try {
-    return await fetchPublicTemplateById(templateId);
+    return migrateFlowTemplate(await fetchPublicTemplateById(templateId));
   } catch (e) {
     console.warn("loadBuiltInTemplateById error", e);
     return null;
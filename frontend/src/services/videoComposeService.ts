@@ -0,0 +1,145 @@
+/**
+ * 服务端视频合成
+ * 浏览器端 WebAV 合成（composeVideosToBlob）的替代路径：提交到后端排队跑 ffmpeg，
+ * 轮询进度，成片由后端直接上传 OSS 并返回持久 URL。适合长视频 / 高分辨率。
+ */
+
+import { fetchWithAuth } from "./authFetch";
+import type { ComposeVideoSource } from "@/components/flow/nodes/videoCompose/useVideoCompose";
+import type { ComposeAudioTrack } from "@/components/flow/nodes/videoCompose/composeVideosCore";
+
+const API_BASE =
+  (import.meta.env.VITE_API_BASE_URL as string | undefined) ||
+  "http://localhost:4000";
+
+const POLL_INTERVAL_MS = 2000;
+
+const buildUrl = (path: string) => {
+  const base = API_BASE.replace(/\/+$/, "");
+  const p = path.replace(/^\/+/, "");
+  return `${base}/${p}`;
+};
+
+export type ServerComposeStatus = "pending" | "processing" | "succeeded" | "failed";
+
+export interface ServerComposeTask {
+  success: boolean;
+  taskId: string;
+  status: ServerComposeStatus;
+  progress?: number;
+  queuePosition?: number;
+  videoUrl?: string;
+  durationSec?: number;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+export interface ServerComposeRequest {
+  clips: Array<{ url: string; trimStart?: number; trimEnd?: number; title?: string }>;
+  audioTracks?: ComposeAudioTrack[];
+  projectId?: string;
+  nodeId?: string;
+}
+
+const readError = async (resp: Response): Promise<string> => {
+  const data = (await resp.json().catch(() => ({}))) as { message?: unknown; error?: unknown };
+  if (typeof data.message === "string" && data.message.trim()) return data.message.trim();
+  if (Array.isArray(data.message)) return data.message.join("; ");
+  if (typeof data.error === "string" && data.error.trim()) return data.error.trim();
+  return `HTTP ${resp.status}`;
+};
+
+async function json<T>(resp: Response): Promise<T> {
+  if (!resp.ok) throw new Error(await readError(resp));
+  return (await resp.json()) as T;
+}
+
+export async function submitServerCompose(
+  request: ServerComposeRequest
+): Promise<ServerComposeTask> {
+  const resp = await fetchWithAuth(buildUrl("/api/ai/video-compose"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return json<ServerComposeTask>(resp);
+}
+
+export async function getServerComposeTask(taskId: string): Promise<ServerComposeTask> {
+  const resp = await fetchWithAuth(
+    buildUrl(`/api/ai/video-compose/task/${encodeURIComponent(taskId)}`),
+    { method: "GET" }
+  );
+  return json<ServerComposeTask>(resp);
+}
+
+export async function cancelServerCompose(taskId: string): Promise<ServerComposeTask> {
+  const resp = await fetchWithAuth(
+    buildUrl(`/api/ai/video-compose/task/${encodeURIComponent(taskId)}/cancel`),
+    { method: "POST" }
+  );
+  return json<ServerComposeTask>(resp);
+}
+
+/**
+ * 轮询已提交的合成任务到终态，返回成片 OSS URL 等信息。
+ * signal 只停止本地轮询，后端任务继续跑；要真正取消请调用 cancelServerCompose。
+ */
+export async function waitForServerCompose(
+  taskId: string,
+  options?: { signal?: AbortSignal; onProgress?: (progress: number) => void }
+): Promise<ServerComposeTask> {
+  const signal = options?.signal;
+  while (true) {
+    if (signal?.aborted) throw new Error("已停止等待合成结果");
+    const task = await getServerComposeTask(taskId);
+    options?.onProgress?.(task.progress ?? 0);
+    if (task.status === "succeeded" && task.videoUrl) return task;
+    if (task.status === "failed") {
+      throw new Error(task.error || "服务端合成失败");
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * 校验并提交服务端合成任务，返回 taskId；进度与结果由调用方用 waitForServerCompose 轮询。
+ * 素材必须是已上传的 http(s) URL（blob:/data: 只存在于当前页面，后端拿不到）。
+ */
+export async function submitServerComposeJob(
+  sources: ComposeVideoSource[],
+  options?: {
+    audioTracks?: ComposeAudioTrack[];
+    projectId?: string | null;
+    nodeId?: string;
+  }
+): Promise<string> {
+  if (sources.length < 2) {
+    throw new Error("至少需要 2 个视频才能合成");
+  }
+  const local = [...sources, ...(options?.audioTracks ?? [])].find(
+    (item) => !/^https?:\/\//i.test(item.url)
+  );
+  if (local) {
+    throw new Error(`服务端合成需要已上传的素材：${local.title || local.url.slice(0, 32)}`);
+  }
+
+  const { taskId } = await submitServerCompose({
+    clips: sources.map((s) => ({
+      url: s.url,
+      trimStart: s.trimStart,
+      trimEnd: s.trimEnd,
+      title: s.title,
+    })),
+    audioTracks: options?.audioTracks?.map((t) => ({
+      url: t.url,
+      volume: t.volume,
+      loop: t.loop,
+      title: t.title,
+    })),
+    projectId: options?.projectId || undefined,
+    nodeId: options?.nodeId,
+  });
+  return taskId;
+}
@@ -97,6 +97,21 @@ test("an accepted image generator runs at most once", () => {
   );
 });
 
+test("deleting a held prompt drops it instead of flushing it", () => {
+  const contract = new XiaotImagePatchContract(1);
+  const emitted = [
+    ...contract.accept(addNode("p1", "textPrompt")),
+    ...contract.accept({ op: "deleteNode", id: "p1" }),
+    ...contract.accept({ op: "deleteNode", id: "other" }),
+    ...contract.finish(),
+  ];
+
+  assert.deepEqual(
+    emitted.map((patch) => `${patch.op}:${patch.node?.id ?? patch.id}`),
+    ["deleteNode:other"]
+  );
+});
+
 test("gptImage2 manifest declares one asynchronous image output", () => {
   const spec = TANVA_CAPABILITY_MANIFEST.nodeSpecs.find(
     (candidate) => candidate.type === "gptImage2"
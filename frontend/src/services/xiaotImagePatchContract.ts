@@ -78,6 +78,12 @@ export class XiaotImagePatchContract {
       return [patch];
     }
 
+    if (patch.op === "deleteNode" && patch.id && this.pendingPrompts.has(patch.id)) {
+      // Deleting a prompt that was never flushed: drop it instead of adding then removing.
+      this.pendingPrompts.delete(patch.id);
+      return [];
+    }
+
     if (patch.id) {
       if (
         this.rejectedImageIds.has(patch.id) ||
@@ -31,7 +31,6 @@ import {
   type XiaotChatModel,
 } from "@/services/agentBackendAPI";
 import {
-  TANVA_CAPABILITY_MANIFEST,
   XIAOT_PREFERRED_IMAGE_MODELS,
   XIAOT_PREFERRED_VIDEO_MODELS,
   VIDEO_TYPES_REQUIRE_IMAGE,
@@ -43,14 +42,19 @@ import {
   detectVideoDuration,
   getVideoModelLabel,
   externalizeInlinePrompt,
+  flattenAgentFlowPatch,
+  getTanvaCapabilityManifest,
   parseAgentFlowPatch,
   rewritePatchForPreferredVideo,
   rewritePatchToImageType,
+  type AgentProtocolVersion,
   type XiaotPreferredImageModel,
   type XiaotPreferredVideoModel,
 } from "@/services/agentCanvasProtocol";
 import {
   applyAgentPatch,
+  beginAgentTurn,
+  endAgentTurn,
   ensureAgentPatchSession,
   flushAgentPatchQueue,
   resolveAgentNodeId,
@@ -452,6 +456,13 @@ async function loadLocalSessions(): Promise<{
   return readSessionsFromLocalStorage();
 }
 
+// 小T整轮画布改动的确认状态（见 AgentTurnActions）
+export type AgentTurnStatus = "pending" | "reverted" | "accepted";
+
+export type ChatMessageMetadata = Record<string, any> & {
+  agentTurn?: { status: AgentTurnStatus };
+};
+
 export interface ChatMessage {
   id: string;
   type: "user" | "ai" | "error";
@@ -484,7 +495,7 @@ export interface ChatMessage {
   sourceImagesData?: string[];
   webSearchResult?: unknown;
   provider?: AIProviderType;
-  metadata?: Record<string, any>;
+  metadata?: ChatMessageMetadata;
   // 🔥 每条消息的独立生成状态
   generationStatus?: {
     isGenerating: boolean;
@@ -1022,6 +1033,9 @@ const RUNNINGHUB_REFERENCE_NODE_ID =
   import.meta.env?.VITE_RUNNINGHUB_REFERENCE_NODE_ID ?? "158";
 const RUNNINGHUB_WEBAPP_ID = import.meta.env?.VITE_RUNNINGHUB_WEBAPP_ID;
 const RUNNINGHUB_WEBHOOK_URL = import.meta.env?.VITE_RUNNINGHUB_WEBHOOK_URL;
+// 小T画布协议版本：默认 v2；facade 尚未升级时可用 VITE_XIAOT_PROTOCOL_VERSION=1 回退到 v1 清单
+const XIAOT_PROTOCOL_VERSION: AgentProtocolVersion =
+  import.meta.env?.VITE_XIAOT_PROTOCOL_VERSION === "1" ? "1" : "2";
 const ENABLE_VIDEO_CANVAS_PLACEMENT = false;
 const VIDEO_FETCH_TIMEOUT_MS = 60000;
 const DEFAULT_PLACEHOLDER_EDGE = 512;
@@ -8557,6 +8571,9 @@ export const useAIChatStore = create<AIChatState>()(
           // 3️⃣ patch 会话跟随聊天会话：同会话保留 agent 节点 id 映射
           //（小T下轮可继续引用上轮自造 id），仅聊天会话切换时才重置
           ensureAgentPatchSession(sessionId);
+          // 本轮全部画布改动记为一条历史事务，消息上提供「撤销本轮 / 保留」
+          const agentTurnId = aiMessage.id;
+          beginAgentTurn(agentTurnId);
 
           let assembled = "";
           let patchCount = 0;
@@ -8635,7 +8652,7 @@ export const useAIChatStore = create<AIChatState>()(
             const projectId =
               useProjectContentStore.getState().projectId || undefined;
             // 用户优选模型 → 每请求动态附加 note（优先级最高，压过画布惯性）。
-            // 浅拷贝构造，不改 TANVA_CAPABILITY_MANIFEST 模块常量；
+            // 浅拷贝构造，不改模块级能力清单常量；
             // notes 上限 32 条/每条 1000 字符，当前 10+1 条，安全。
             const preferredImage =
               XIAOT_PREFERRED_IMAGE_MODELS.find(
@@ -8645,11 +8662,12 @@ export const useAIChatStore = create<AIChatState>()(
               XIAOT_PREFERRED_VIDEO_MODELS.find(
                 (option) => option.value === state.xiaotPreferredVideo
               ) ?? XIAOT_PREFERRED_VIDEO_MODELS[0];
+            const baseManifest = getTanvaCapabilityManifest(XIAOT_PROTOCOL_VERSION);
             const capabilityManifest = {
-              ...TANVA_CAPABILITY_MANIFEST,
+              ...baseManifest,
               imageOutputCount,
               notes: [
-                ...TANVA_CAPABILITY_MANIFEST.notes,
+                ...baseManifest.notes,
                 ...(options?.forceImageGeneration
                   ? [
                       "【本轮宿主已判定为生图任务·必须执行】只规划图片生成：整理用户需求为可执行提示词，选择合适的 GPT/图片生成节点，创建 textPrompt 并连接图片节点，然后 runNode。不要改成普通文字回答、视频或其他工具。",
@@ -8767,55 +8785,34 @@ export const useAIChatStore = create<AIChatState>()(
                 // 高于小T自选。视频/图片对称——addNode 落画布前把生成节点类型
                 // 强制对齐到目标（视频=优选视频/点名，图片=优选图片/点名）。
                 // 只改本地不回传小T（idMap 以 agent id 为键，type 改写不影响 id）。
-                let patch: unknown = event.data?.patch;
-                const parsedForRewrite = parseAgentFlowPatch(patch);
-                if (parsedForRewrite) {
-                  // 视频节点强制对齐
-                  const vRewritten = rewritePatchForPreferredVideo(
-                    parsedForRewrite,
-                    rewriteTargetType
-                  );
-                  if (vRewritten !== parsedForRewrite) {
-                    console.info(
-                      "[xiaot] 视频节点强制对齐 →",
-                      rewriteTargetType
-                    );
-                    patch = vRewritten;
-                    if (!videoRewriteToasted) {
-                      videoRewriteToasted = true;
-                      try {
-                        window.dispatchEvent(
-                          new CustomEvent("toast", {
-                            detail: {
-                              message: `已用你选的 ${rewriteTargetLabel}`,
-                              type: "success",
-                            },
-                          })
-                        );
-                      } catch {
-                        /* ignore */
-                      }
-                    }
-                  } else {
-                    // 图片节点强制对齐（与视频互斥：一个 addNode 只可能是其一）
-                    const iRewritten = rewritePatchToImageType(
+                // v2 batch 先展开成子操作，逐条走下面的改写/外置/契约管线（与单发 patch 同一语义）；
+                // 无法识别的 patch 原样进入管线，由 applyAgentPatch 统一 toast 忽略。
+                const incomingParsed = parseAgentFlowPatch(event.data?.patch);
+                const incomingPatches: unknown[] = incomingParsed
+                  ? flattenAgentFlowPatch(incomingParsed)
+                  : [event.data?.patch];
+                for (const incomingPatch of incomingPatches) {
+                  let patch: unknown = incomingPatch;
+                  const parsedForRewrite = parseAgentFlowPatch(patch);
+                  if (parsedForRewrite) {
+                    // 视频节点强制对齐
+                    const vRewritten = rewritePatchForPreferredVideo(
                       parsedForRewrite,
-                      imgTargetType,
-                      imgTargetProvider
+                      rewriteTargetType
                     );
-                    if (iRewritten !== parsedForRewrite) {
+                    if (vRewritten !== parsedForRewrite) {
                       console.info(
-                        "[xiaot] 图片节点强制对齐 →",
-                        imgTargetType
+                        "[xiaot] 视频节点强制对齐 →",
+                        rewriteTargetType
                       );
-                      patch = iRewritten;
-                      if (!imageRewriteToasted) {
-                        imageRewriteToasted = true;
+                      patch = vRewritten;
+                      if (!videoRewriteToasted) {
+                        videoRewriteToasted = true;
                         try {
                           window.dispatchEvent(
                             new CustomEvent("toast", {
                               detail: {
-                                message: `已用你选的 ${imgTargetLabel}`,
+                                message: `已用你选的 ${rewriteTargetLabel}`,
                                 type: "success",
                               },
                             })
@@ -8824,115 +8821,144 @@ export const useAIChatStore = create<AIChatState>()(
                           /* ignore */
                         }
                       }
-                    }
-                  }
-                }
-                // 视频时长确定性注入（用户显式时长 > 小T给的 > 节点默认）：
-                // 用最终 type 定字段名与上限，clamp 到模型上限。放在 rewrite 后、
-                // 对账前，直接写进 patch.node.data（clipDuration/duration 已在
-                // rewrite 白名单，不会被剥离；applier forced/defaults 不含时长键，
-                // 注入值得以保留）。
-                if (detectedDuration != null) {
-                  const dp = parseAgentFlowPatch(patch);
-                  if (
-                    dp?.op === "addNode" &&
-                    dp.node &&
-                    VIDEO_NODE_TYPES.has(dp.node.type)
-                  ) {
-                    const field = videoDurationField(dp.node.type);
-                    const cap = VIDEO_MAX_DURATION[dp.node.type] ?? 15;
-                    const clamped = Math.min(detectedDuration, cap);
-                    if (detectedDuration > cap) {
-                      console.info(
-                        `[xiaot] ${detectedDuration}s 超 ${dp.node.type} 上限${cap}，clamp`
+                    } else {
+                      // 图片节点强制对齐（与视频互斥：一个 addNode 只可能是其一）
+                      const iRewritten = rewritePatchToImageType(
+                        parsedForRewrite,
+                        imgTargetType,
+                        imgTargetProvider
                       );
+                      if (iRewritten !== parsedForRewrite) {
+                        console.info(
+                          "[xiaot] 图片节点强制对齐 →",
+                          imgTargetType
+                        );
+                        patch = iRewritten;
+                        if (!imageRewriteToasted) {
+                          imageRewriteToasted = true;
+                          try {
+                            window.dispatchEvent(
+                              new CustomEvent("toast", {
+                                detail: {
+                                  message: `已用你选的 ${imgTargetLabel}`,
+                                  type: "success",
+                                },
+                              })
+                            );
+                          } catch {
+                            /* ignore */
+                          }
+                        }
+                      }
                     }
-                    const baseData =
-                      dp.node.data && typeof dp.node.data === "object"
-                        ? (dp.node.data as Record<string, unknown>)
-                        : {};
-                    patch = {
-                      ...dp,
-                      node: {
-                        ...dp.node,
-                        data: { ...baseData, [field]: clamped },
-                      },
-                    };
                   }
-                }
-                // 提示词强制外置（确定性根治）：生成节点 data 里的内联提示词
-                // 一律抽出，展开为 textPrompt 节点 + 连线承载。必须放在优选
-                // 改写之后——改写目标（如 gptImage2）不消费 data.prompts，
-                // 不外置会静默丢提示词报「缺少提示词输入」。
-                const finalParsed = parseAgentFlowPatch(patch);
-                const expandedPatches: unknown[] = finalParsed
-                  ? externalizeInlinePrompt(finalParsed)
-                  : [patch];
-                if (expandedPatches.length > 1) {
-                  console.info(
-                    "[xiaot] 内联提示词已外置为 textPrompt 节点:",
-                    finalParsed?.node?.id
-                  );
-                }
-                for (const onePatch of expandedPatches) {
-                  const oneParsed = parseAgentFlowPatch(onePatch);
-                  if (!oneParsed) continue;
-                  for (const admittedPatch of imagePatchContract.accept(oneParsed)) {
-                    // 缺图对账只记录最终真正获准落画布的节点和边。
+                  // 视频时长确定性注入（用户显式时长 > 小T给的 > 节点默认）：
+                  // 用最终 type 定字段名与上限，clamp 到模型上限。放在 rewrite 后、
+                  // 对账前，直接写进 patch.node.data（clipDuration/duration 已在
+                  // rewrite 白名单，不会被剥离；applier forced/defaults 不含时长键，
+                  // 注入值得以保留）。
+                  if (detectedDuration != null) {
+                    const dp = parseAgentFlowPatch(patch);
                     if (
-                      admittedPatch.op === "addNode" &&
-                      admittedPatch.node &&
-                      VIDEO_TYPES_REQUIRE_IMAGE.has(admittedPatch.node.type)
+                      dp?.op === "addNode" &&
+                      dp.node &&
+                      VIDEO_NODE_TYPES.has(dp.node.type)
                     ) {
-                      const nodeData = (admittedPatch.node.data || {}) as Record<
-                        string,
-                        unknown
-                      >;
-                      const label =
-                        (typeof nodeData.label === "string" && nodeData.label) ||
-                        admittedPatch.node.type;
-                      addedImageVideoNodes.set(admittedPatch.node.id, {
-                        type: admittedPatch.node.type,
-                        label,
-                      });
-                    }
-                    if (admittedPatch.op === "connectEdge" && admittedPatch.target) {
-                      const th = (admittedPatch.targetHandle || "").toLowerCase();
-                      if (th.includes("image") || th.includes("img")) {
-                        imageEdgeTargets.add(admittedPatch.target);
+                      const field = videoDurationField(dp.node.type);
+                      const cap = VIDEO_MAX_DURATION[dp.node.type] ?? 15;
+                      const clamped = Math.min(detectedDuration, cap);
+                      if (detectedDuration > cap) {
+                        console.info(
+                          `[xiaot] ${detectedDuration}s 超 ${dp.node.type} 上限${cap}，clamp`
+                        );
                       }
+                      const baseData =
+                        dp.node.data && typeof dp.node.data === "object"
+                          ? (dp.node.data as Record<string, unknown>)
+                          : {};
+                      patch = {
+                        ...dp,
+                        node: {
+                          ...dp.node,
+                          data: { ...baseData, [field]: clamped },
+                        },
+                      };
                     }
-                    if (
-                      admittedPatch.op === "addNode" &&
-                      admittedPatch.node &&
-                      imagePatchContract
-                        .getAcceptedImageIds()
-                        .includes(admittedPatch.node.id)
-                    ) {
-                      firstImageNodeAt ??= performance.now();
-                    }
-                    if (admittedPatch.op === "runNode") {
-                      firstRunNodeAt ??= performance.now();
+                  }
+                  // 提示词强制外置（确定性根治）：生成节点 data 里的内联提示词
+                  // 一律抽出，展开为 textPrompt 节点 + 连线承载。必须放在优选
+                  // 改写之后——改写目标（如 gptImage2）不消费 data.prompts，
+                  // 不外置会静默丢提示词报「缺少提示词输入」。
+                  const finalParsed = parseAgentFlowPatch(patch);
+                  const expandedPatches: unknown[] = finalParsed
+                    ? externalizeInlinePrompt(finalParsed)
+                    : [patch];
+                  if (expandedPatches.length > 1) {
+                    console.info(
+                      "[xiaot] 内联提示词已外置为 textPrompt 节点:",
+                      finalParsed?.node?.id
+                    );
+                  }
+                  for (const onePatch of expandedPatches) {
+                    const oneParsed = parseAgentFlowPatch(onePatch);
+                    if (!oneParsed) continue;
+                    for (const admittedPatch of imagePatchContract.accept(oneParsed)) {
+                      // 缺图对账只记录最终真正获准落画布的节点和边。
+                      if (
+                        admittedPatch.op === "addNode" &&
+                        admittedPatch.node &&
+                        VIDEO_TYPES_REQUIRE_IMAGE.has(admittedPatch.node.type)
+                      ) {
+                        const nodeData = (admittedPatch.node.data || {}) as Record<
+                          string,
+                          unknown
+                        >;
+                        const label =
+                          (typeof nodeData.label === "string" && nodeData.label) ||
+                          admittedPatch.node.type;
+                        addedImageVideoNodes.set(admittedPatch.node.id, {
+                          type: admittedPatch.node.type,
+                          label,
+                        });
+                      }
+                      if (admittedPatch.op === "connectEdge" && admittedPatch.target) {
+                        const th = (admittedPatch.targetHandle || "").toLowerCase();
+                        if (th.includes("image") || th.includes("img")) {
+                          imageEdgeTargets.add(admittedPatch.target);
+                        }
+                      }
+                      if (
+                        admittedPatch.op === "addNode" &&
+                        admittedPatch.node &&
+                        imagePatchContract
+                          .getAcceptedImageIds()
+                          .includes(admittedPatch.node.id)
+                      ) {
+                        firstImageNodeAt ??= performance.now();
+                      }
+                      if (admittedPatch.op === "runNode") {
+                        firstRunNodeAt ??= performance.now();
+                      }
+                      if (!applyAgentPatch(admittedPatch)) continue;
+                      patchCount += 1;
+                      get().updateMessage(aiMessage.id, (msg) => ({
+                        ...msg,
+                        metadata: {
+                          ...(msg.metadata || {}),
+                          agentPatchCount: patchCount,
+                        },
+                        generationStatus: {
+                          ...(msg.generationStatus || {}),
+                          isGenerating: true,
+                          progress: Math.max(
+                            msg.generationStatus?.progress ?? 0,
+                            60
+                          ),
+                          error: null,
+                          stage: "小T执行中",
+                        },
+                      }));
                     }
-                    if (!applyAgentPatch(admittedPatch)) continue;
-                    patchCount += 1;
-                    get().updateMessage(aiMessage.id, (msg) => ({
-                      ...msg,
-                      metadata: {
-                        ...(msg.metadata || {}),
-                        agentPatchCount: patchCount,
-                      },
-                      generationStatus: {
-                        ...(msg.generationStatus || {}),
-                        isGenerating: true,
-                        progress: Math.max(
-                          msg.generationStatus?.progress ?? 0,
-                          60
-                        ),
-                        error: null,
-                        stage: "小T执行中",
-                      },
-                    }));
                   }
                 }
               } else if (event.type === "host_tool") {
@@ -9249,6 +9275,7 @@ export const useAIChatStore = create<AIChatState>()(
                   detail: {
                     source: "xiaot",
                     focusNodeId: firstAcceptedImageId,
+                    historyOrigin: "transaction",
                   },
                 })
               );
@@ -9406,6 +9433,23 @@ export const useAIChatStore = create<AIChatState>()(
               }));
             }
           } finally {
+            // 事务收尾在 xiaotRunning 复位前：避免下一轮抢先开事务被拒
+            try {
+              const undoable = await endAgentTurn(agentTurnId, {
+                changed: patchCount > 0,
+              });
+              if (undoable) {
+                get().updateMessage(agentTurnId, (msg) => ({
+                  ...msg,
+                  metadata: {
+                    ...(msg.metadata || {}),
+                    agentTurn: { status: "pending" },
+                  },
+                }));
+              }
+            } catch (turnError) {
+              console.warn("[xiaot] 本轮画布事务收尾失败:", turnError);
+            }
             // 仅在仍是本轮 controller 时清理（防并发轮次误清后一轮）
             if (xiaotAbortController === controller) {
               xiaotAbortController = null;
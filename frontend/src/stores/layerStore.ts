@@ -10,6 +10,13 @@ export interface LayerMeta {
     locked?: boolean;
 }
 
+/** 协作端推来的图层变更（见 collab canvas_patch 的 upsertLayers/removeLayerIds/layerOrder）。 */
+export interface RemoteLayerPatch {
+    upsertLayers?: LayerMeta[];
+    removeLayerIds?: string[];
+    layerOrder?: string[];
+}
+
 interface LayerState {
     layers: LayerMeta[];
     activeLayerId: string | null;
@@ -28,6 +35,7 @@ interface LayerState {
     moveLayerUp: (id: string) => void;
     moveLayerDown: (id: string) => void;
     reorderLayer: (sourceId: string, targetId: string, placeAbove?: boolean) => void;
+    applyRemoteLayerPatch: (patch: RemoteLayerPatch) => void;
     ensureActiveLayer: () => paper.Layer;
 }
 
@@ -286,6 +294,81 @@ export const useLayerStore = create<LayerState>()(subscribeWithSelector((set, ge
         window.dispatchEvent(new CustomEvent('layerOrderChanged'));
     },
 
+    applyRemoteLayerPatch: ({ upsertLayers = [], removeLayerIds = [], layerOrder }) => {
+        const state = get();
+        let nextLayers = [...state.layers];
+
+        // 删除：与本地 deleteLayer 一样至少保留一个图层
+        for (const id of removeLayerIds) {
+            if (nextLayers.length <= 1) break;
+            if (!nextLayers.some(l => l.id === id)) continue;
+            try { findLayerByStoreId(id)?.remove(); } catch {}
+            nextLayers = nextLayers.filter(l => l.id !== id);
+        }
+
+        // 新建/改名/显隐/锁定：远端新建的图层不抢本地的活动图层
+        for (const meta of upsertLayers) {
+            if (!meta?.id) continue;
+            const next: LayerMeta = {
+                id: meta.id,
+                name: meta.name,
+                visible: meta.visible !== false,
+                locked: Boolean(meta.locked),
+            };
+            let paperLayer = findLayerByStoreId(next.id);
+            if (!paperLayer && paper.project) {
+                const prevActive = paper.project.activeLayer;
+                paperLayer = new paper.Layer();
+                paperLayer.name = `layer_${next.id}`;
+                if (next.locked) {
+                    paperLayer.locked = true;
+                }
+                insertAboveGrid(paperLayer);
+                try { prevActive?.activate(); } catch {}
+            }
+            if (paperLayer) {
+                paperLayer.visible = next.visible;
+            }
+            const index = nextLayers.findIndex(l => l.id === next.id);
+            if (index >= 0) nextLayers[index] = { ...nextLayers[index], ...next };
+            else nextLayers.push(next);
+        }
+
+        // 顺序：按远端全量顺序排列，远端未知的本地图层保持相对位置排在末尾
+        let orderChanged = false;
+        if (layerOrder && layerOrder.length > 0) {
+            const rank = new Map(layerOrder.map((id, index) => [id, index]));
+            const sorted = nextLayers
+                .map((layer, index) => ({ layer, index }))
+                .sort((a, b) =>
+                    (rank.get(a.layer.id) ?? layerOrder.length + a.index) -
+                    (rank.get(b.layer.id) ?? layerOrder.length + b.index)
+                )
+                .map(item => item.layer);
+            orderChanged = sorted.some((layer, index) => layer.id !== nextLayers[index].id);
+            nextLayers = sorted;
+            // 数组越靠前越在上层：自底向上逐个 insertAbove
+            for (let i = nextLayers.length - 2; i >= 0; i--) {
+                const upper = findLayerByStoreId(nextLayers[i].id);
+                const lower = findLayerByStoreId(nextLayers[i + 1].id);
+                if (upper && lower) upper.insertAbove(lower);
+            }
+        }
+
+        let nextActiveId = state.activeLayerId;
+        if (!nextActiveId || !nextLayers.some(l => l.id === nextActiveId)) {
+            nextActiveId = nextLayers[0]?.id ?? null;
+            if (nextActiveId) {
+                try { findLayerByStoreId(nextActiveId)?.activate(); } catch {}
+            }
+        }
+
+        set({ layers: nextLayers, activeLayerId: nextActiveId });
+        if (orderChanged) {
+            window.dispatchEvent(new CustomEvent('layerOrderChanged'));
+        }
+    },
+
     ensureActiveLayer: () => {
         const state = get();
 
@@ -310,7 +393,7 @@ export const useLayerStore = create<LayerState>()(subscribeWithSelector((set, ge
                         paperLayer.name = `layer_${meta.id}`;
                         paperLayer.visible = meta.visible;
                         if (meta.locked) {
-                            try { (paperLayer as any).locked = true; } catch {}
+                            paperLayer.locked = true;
                         }
                         insertAboveGrid(paperLayer);
                     }
@@ -0,0 +1,157 @@
+import { create } from 'zustand';
+import {
+  getNotificationPreferences,
+  getUnreadNotificationCount,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  updateNotificationPreferences,
+  type NotificationDto,
+  type NotificationType,
+} from '@/services/notificationsApi';
+
+const PAGE_SIZE = 20;
+
+interface NotificationState {
+  items: NotificationDto[];
+  nextCursor: string | null;
+  unreadCount: number;
+  mutedTypes: NotificationType[];
+  loading: boolean;
+  /** 首屏列表是否已拉取（打开面板时才拉，之后靠实时推送增量插入）。 */
+  loaded: boolean;
+  error: string | null;
+
+  refreshUnreadCount: () => Promise<void>;
+  loadFirstPage: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  /** 实时推送（WS/SSE 的 notification 事件）到达：插到列表顶部并以服务端未读数为准。 */
+  receive: (notification: NotificationDto, unreadCount: number) => void;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  loadPreferences: () => Promise<void>;
+  setMuted: (type: NotificationType, muted: boolean) => Promise<void>;
+  /** 退出登录时清空，避免下一个账号看到上一个账号的通知。 */
+  reset: () => void;
+}
+
+const initialState = {
+  items: [] as NotificationDto[],
+  nextCursor: null as string | null,
+  unreadCount: 0,
+  mutedTypes: [] as NotificationType[],
+  loading: false,
+  loaded: false,
+  error: null as string | null,
+};
+
+export const useNotificationStore = create<NotificationState>((set, get) => ({
+  ...initialState,
+
+  refreshUnreadCount: async () => {
+    try {
+      const { unreadCount } = await getUnreadNotificationCount();
+      set({ unreadCount });
+    } catch {
+      /* 轮询失败静默，下次再试 */
+    }
+  },
+
+  loadFirstPage: async () => {
+    set({ loading: true, error: null });
+    try {
+      const page = await listNotifications({ limit: PAGE_SIZE });
+      set({
+        items: page.items,
+        nextCursor: page.nextCursor,
+        unreadCount: page.unreadCount,
+        loaded: true,
+      });
+    } catch (e) {
+      set({ error: e instanceof Error ? e.message : 'load failed' });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  loadMore: async () => {
+    const { nextCursor, loading } = get();
+    if (!nextCursor || loading) return;
+    set({ loading: true, error: null });
+    try {
+      const page = await listNotifications({ cursor: nextCursor, limit: PAGE_SIZE });
+      set((s) => {
+        const seen = new Set(s.items.map((n) => n.id));
+        return {
+          items: [...s.items, ...page.items.filter((n) => !seen.has(n.id))],
+          nextCursor: page.nextCursor,
+          unreadCount: page.unreadCount,
+        };
+      });
+    } catch (e) {
+      set({ error: e instanceof Error ? e.message : 'load failed' });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  receive: (notification, unreadCount) =>
+    set((s) => ({
+      items: s.loaded
+        ? [notification, ...s.items.filter((n) => n.id !== notification.id)]
+        : s.items,
+      unreadCount,
+    })),
+
+  markRead: async (id) => {
+    const target = get().items.find((n) => n.id === id);
+    if (target?.readAt) return;
+    const readAt = new Date().toISOString();
+    set((s) => ({
+      items: s.items.map((n) => (n.id === id ? { ...n, readAt } : n)),
+      unreadCount: Math.max(0, s.unreadCount - 1),
+    }));
+    try {
+      const { unreadCount } = await markNotificationRead(id);
+      set({ unreadCount });
+    } catch {
+      void get().refreshUnreadCount();
+    }
+  },
+
+  markAllRead: async () => {
+    const readAt = new Date().toISOString();
+    set((s) => ({
+      items: s.items.map((n) => (n.readAt ? n : { ...n, readAt })),
+      unreadCount: 0,
+    }));
+    try {
+      await markAllNotificationsRead();
+    } catch {
+      void get().refreshUnreadCount();
+    }
+  },
+
+  loadPreferences: async () => {
+    try {
+      const { mutedTypes } = await getNotificationPreferences();
+      set({ mutedTypes });
+    } catch {
+      /* 偏好拉取失败保持默认（全部开启） */
+    }
+  },
+
+  setMuted: async (type, muted) => {
+    const prev = get().mutedTypes;
+    const next = muted ? Array.from(new Set([...prev, type])) : prev.filter((t) => t !== type);
+    set({ mutedTypes: next });
+    try {
+      const { mutedTypes } = await updateNotificationPreferences(next);
+      set({ mutedTypes });
+    } catch (e) {
+      set({ mutedTypes: prev, error: e instanceof Error ? e.message : 'save failed' });
+    }
+  },
+
+  reset: () => set({ ...initialState }),
+}));
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { projectApi, type Project } from '@/services/projectApi';
+import { setCreditProjectContext } from '@/services/authFetch';
 import { deleteProjectCache } from '@/services/projectCacheStore';
 import { useTeamStore } from '@/stores/teamStore';
 import i18n from '@/i18n';
@@ -401,3 +402,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     currentProject: s.currentProject?.id === id ? { ...(s.currentProject as Project), name } : s.currentProject,
   })),
 }));
+
+// 计费请求按当前项目归属用量（X-Project-Id）
+useProjectStore.subscribe((state, prev) => {
+  if (state.currentProjectId !== prev.currentProjectId) setCreditProjectContext(state.currentProjectId);
+});
@@ -3,9 +3,10 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { logger } from '@/utils/logger';
 import { createSafeStorage } from './storageUtils';
+import { DEFAULT_FRAME_PRESET_ID, FRAME_PRESETS } from '@/utils/canvasFrames';
 
 // 工具类型定义
-export type DrawMode = 'select' | 'marquee' | 'pointer' | 'free' | 'line' | 'arrow' | 'rect' | 'circle' | 'polyline' | 'text' | 'image' | 'quick-image' | '3d-model' | 'screenshot';
+export type DrawMode = 'select' | 'marquee' | 'pointer' | 'free' | 'line' | 'arrow' | 'rect' | 'circle' | 'polyline' | 'text' | 'image' | 'quick-image' | '3d-model' | 'screenshot' | 'frame';
 export type LineStyle =
   | 'solid'
   | 'dashed'
@@ -24,6 +25,8 @@ interface ToolState {
   lineStyle: LineStyle;
   isEraser: boolean;
   hasFill: boolean;
+  // 画板工具单击放置时使用的尺寸预设
+  framePresetId: string;
 
   // 操作方法
   setDrawMode: (mode: DrawMode) => void;
@@ -33,6 +36,7 @@ interface ToolState {
   setLineStyle: (style: LineStyle) => void;
   toggleEraser: () => void;
   toggleFill: () => void;
+  setFramePresetId: (presetId: string) => void;
 
   // 快捷切换工具
   nextDrawingTool: () => void;
@@ -55,6 +59,7 @@ const ALL_DRAW_MODES: DrawMode[] = [
   'quick-image',
   '3d-model',
   'screenshot',
+  'frame',
 ];
 const TOOL_SETTINGS_VERSION = 2;
 
@@ -72,6 +77,9 @@ const LINE_STYLES: LineStyle[] = [
 const isLineStyle = (value: unknown): value is LineStyle =>
   typeof value === 'string' && LINE_STYLES.includes(value as LineStyle);
 
+const isFramePresetId = (value: unknown): value is string =>
+  typeof value === 'string' && FRAME_PRESETS.some((preset) => preset.id === value);
+
 export const useToolStore = create<ToolState>()(
   subscribeWithSelector(
     persist(
@@ -84,6 +92,7 @@ export const useToolStore = create<ToolState>()(
         lineStyle: 'solid',
         isEraser: false,
         hasFill: false,
+        framePresetId: DEFAULT_FRAME_PRESET_ID,
 
         // 设置方法
         setDrawMode: (mode) => {
@@ -125,6 +134,10 @@ export const useToolStore = create<ToolState>()(
           set({ hasFill: !hasFill });
         },
 
+        setFramePresetId: (presetId) => {
+          if (isFramePresetId(presetId)) set({ framePresetId: presetId });
+        },
+
         // 快捷切换绘图工具（循环切换）
         nextDrawingTool: () => {
           const { drawMode } = get();
@@ -152,6 +165,7 @@ export const useToolStore = create<ToolState>()(
                 : 2,
             lineStyle: isLineStyle(state.lineStyle) ? state.lineStyle : 'solid',
             hasFill: typeof state.hasFill === 'boolean' ? state.hasFill : false,
+            framePresetId: isFramePresetId(state.framePresetId) ? state.framePresetId : DEFAULT_FRAME_PRESET_ID,
           };
         },
         // 持久化工具设置，但不包括橡皮擦状态（通常是临时的）
@@ -162,6 +176,7 @@ export const useToolStore = create<ToolState>()(
           strokeWidth: state.strokeWidth,
           lineStyle: state.lineStyle,
           hasFill: state.hasFill,
+          framePresetId: state.framePresetId,
         }) as Partial<ToolState>,
       }
     )
@@ -45,4 +45,43 @@ export interface FlowTemplateV1 {
   edges: TemplateEdge[];
 }
 
-export type FlowTemplate = FlowTemplateV1; // future-proof
+export type FlowTemplateInputType = "text" | "image" | "enum" | "number";
+
+// 输入绑定到某个模板节点 data 上的字段（支持 a.b 形式的嵌套路径）
+export interface FlowTemplateInputBinding {
+  nodeId: string;
+  field: string;
+}
+
+export interface FlowTemplateInputOption {
+  value: string;
+  label?: string;
+}
+
+export interface FlowTemplateInput {
+  key: string;
+  label: string;
+  type: FlowTemplateInputType;
+  description?: string;
+  required?: boolean;
+  // 缺省时取第一个绑定字段在模板里的当前值
+  default?: string | number;
+  placeholder?: string;
+  // enum
+  options?: FlowTemplateInputOption[];
+  // number
+  min?: number;
+  max?: number;
+  step?: number;
+  bindings: FlowTemplateInputBinding[];
+}
+
+export interface FlowTemplateV2 extends Omit<FlowTemplateV1, "schemaVersion"> {
+  schemaVersion: 2;
+  inputs: FlowTemplateInput[];
+}
+
+export type FlowTemplate = FlowTemplateV2;
+
+// 从存储/接口读到的原始模板，可能仍是 V1，使用前经 migrateFlowTemplate 升级
+export type StoredFlowTemplate = FlowTemplateV1 | FlowTemplateV2;
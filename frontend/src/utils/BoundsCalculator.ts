@@ -6,6 +6,7 @@
 import paper from 'paper';
 import { isRaster, isPath, isPointText } from '@/utils/paperCoords';
 import type { ImageInstance, Model3DInstance } from '@/types/canvas';
+import { isFrameBlock, isFrameTitle } from '@/utils/paperFrameBlock';
 
 export interface Bounds {
   x: number;
@@ -143,6 +144,23 @@ export class BoundsCalculator {
     };
   }
 
+  /**
+   * 画板截图边界：严格等于画板矩形（不加边距、不含描边），画板外的内容会被裁掉
+   */
+  static calculateFrameBounds(frame: Bounds): ContentBounds {
+    if (!this.isValidBounds(frame)) {
+      return { x: 0, y: 0, width: 800, height: 600, isEmpty: true, elementCount: 0 };
+    }
+    return {
+      x: frame.x,
+      y: frame.y,
+      width: frame.width,
+      height: frame.height,
+      isEmpty: false,
+      elementCount: 1
+    };
+  }
+
   /**
    * 计算多个边界的联合边界
    */
@@ -220,9 +238,11 @@ export class BoundsCalculator {
       // 跳过网格/背景层元素
       const layerName = (item.layer && item.layer.name) || '';
       if (layerName === 'grid' || layerName === 'background') return;
+      // 画板标题只是画布上的标注，不计入内容
+      if (isFrameTitle(item)) return;
 
-      // 计算包含线宽的边界
-      const rect = (item as any).strokeBounds || item.bounds || null;
+      // 计算包含线宽的边界（画板以自身矩形为准，描边只是画布上的轮廓）
+      const rect = isFrameBlock(item) ? item.bounds : item.strokeBounds || item.bounds || null;
 
       if (item instanceof paper.Group) {
         // 组：不直接使用组的边界，逐个遍历可见子项，避免隐形子项扩大边界
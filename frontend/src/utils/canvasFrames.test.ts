@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  DEFAULT_FRAME_PRESET_ID,
+  findFrameForBounds,
+  frameRectFromClick,
+  frameRectFromDrag,
+  getFramePreset,
+  nextFrameName,
+  pickFrameInViewport,
+  type FrameInfo,
+} from './canvasFrames.ts';
+
+const frames: FrameInfo[] = [
+  { id: 'a', name: '画板 1', bounds: { x: 0, y: 0, width: 1000, height: 1000 } },
+  { id: 'b', name: '画板 2', bounds: { x: 1200, y: 0, width: 500, height: 500 } },
+  { id: 'inner', name: '画板 3', bounds: { x: 100, y: 100, width: 300, height: 300 } },
+];
+
+test('presets fall back to the default and click placement centres the preset', () => {
+  assert.equal(getFramePreset('missing').id, DEFAULT_FRAME_PRESET_ID);
+  const preset = getFramePreset('instagram-square');
+  assert.deepEqual(frameRectFromClick({ x: 100, y: 200 }, preset), {
+    x: -440,
+    y: -340,
+    width: 1080,
+    height: 1080,
+  });
+});
+
+test('drag rect normalises direction and treats tiny drags as clicks', () => {
+  assert.deepEqual(frameRectFromDrag({ x: 300, y: 400 }, { x: 100, y: 150.4 }), {
+    x: 100,
+    y: 150.4,
+    width: 200,
+    height: 250,
+  });
+  assert.equal(frameRectFromDrag({ x: 0, y: 0 }, { x: 4, y: 300 }), null);
+});
+
+test('next frame name continues from the highest existing number', () => {
+  assert.equal(nextFrameName([]), '画板 1');
+  assert.equal(nextFrameName(['画板 1', '封面', '画板 7', '画板x']), '画板 8');
+});
+
+test('selection maps to the smallest frame containing every item', () => {
+  const inInner = { x: 150, y: 150, width: 50, height: 50 };
+  const inOuter = { x: 700, y: 700, width: 100, height: 100 };
+  const inB = { x: 1300, y: 100, width: 10, height: 10 };
+  assert.equal(findFrameForBounds(frames, [inInner])?.id, 'inner');
+  assert.equal(findFrameForBounds(frames, [inInner, inOuter])?.id, 'a');
+  assert.equal(findFrameForBounds(frames, [inInner, inB]), null);
+  assert.equal(findFrameForBounds(frames, []), null);
+});
+
+test('viewport picks the frame with the largest visible area', () => {
+  assert.equal(pickFrameInViewport(frames, { x: 900, y: 0, width: 900, height: 500 })?.id, 'b');
+  assert.equal(pickFrameInViewport(frames, { x: 5000, y: 5000, width: 100, height: 100 }), null);
+});
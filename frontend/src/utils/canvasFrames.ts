@@ -0,0 +1,127 @@
+/**
+ * 画板（Frame）的纯函数部分：尺寸预设、拖拽/点击生成矩形、命名、按区域挑选画板。
+ * 不依赖 Paper，画板在画布上的 Path / 标题见 utils/paperFrameBlock。
+ *
+ * 尺寸单位与 Paper world 坐标一致：预设 1080×1080 即导出 1080×1080 像素。
+ */
+
+import type { ExportBounds } from './canvasVectorExport';
+
+export type FramePresetCategory = 'social' | 'print' | 'screen';
+
+export interface FramePreset {
+  id: string;
+  label: string;
+  labelEn: string;
+  category: FramePresetCategory;
+  width: number;
+  height: number;
+}
+
+/** 画布上一个画板的最小描述（id / 名称 / 边界）。 */
+export interface FrameInfo {
+  id: string;
+  name: string;
+  bounds: ExportBounds;
+}
+
+export const FRAME_PRESETS: FramePreset[] = [
+  { id: 'instagram-square', label: 'Instagram 方图', labelEn: 'Instagram Square', category: 'social', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', label: 'Instagram 竖图', labelEn: 'Instagram Portrait', category: 'social', width: 1080, height: 1350 },
+  { id: 'story', label: 'Story / 抖音竖屏', labelEn: 'Story / Reels', category: 'social', width: 1080, height: 1920 },
+  { id: 'xiaohongshu', label: '小红书 3:4', labelEn: 'RedNote 3:4', category: 'social', width: 1242, height: 1660 },
+  { id: 'wechat-cover', label: '公众号封面', labelEn: 'WeChat Cover', category: 'social', width: 900, height: 383 },
+  { id: 'a4-portrait', label: 'A4 纵向', labelEn: 'A4 Portrait', category: 'print', width: 794, height: 1123 },
+  { id: 'a4-landscape', label: 'A4 横向', labelEn: 'A4 Landscape', category: 'print', width: 1123, height: 794 },
+  { id: 'screen-16-9', label: '16:9 演示', labelEn: '16:9 Slide', category: 'screen', width: 1920, height: 1080 },
+  { id: 'screen-4-3', label: '4:3 演示', labelEn: '4:3 Slide', category: 'screen', width: 1440, height: 1080 },
+];
+
+export const DEFAULT_FRAME_PRESET_ID = 'screen-16-9';
+
+/** 拖拽距离小于该值视为单击：按当前预设尺寸放置画板 */
+export const FRAME_DRAG_THRESHOLD = 8;
+
+const FRAME_NAME_PREFIX = '画板';
+
+export function getFramePreset(id: string | null | undefined): FramePreset {
+  return FRAME_PRESETS.find((preset) => preset.id === id) ?? FRAME_PRESETS.find((preset) => preset.id === DEFAULT_FRAME_PRESET_ID)!;
+}
+
+/** 单击放置：以点击点为中心摆放预设尺寸的画板。 */
+export function frameRectFromClick(point: { x: number; y: number }, preset: FramePreset): ExportBounds {
+  return {
+    x: point.x - preset.width / 2,
+    y: point.y - preset.height / 2,
+    width: preset.width,
+    height: preset.height,
+  };
+}
+
+/** 拖拽框出自定义尺寸；任一方向不足阈值时返回 null，由调用方回退为单击放置。 */
+export function frameRectFromDrag(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  threshold: number = FRAME_DRAG_THRESHOLD,
+): ExportBounds | null {
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  if (!(width >= threshold) || !(height >= threshold)) return null;
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+}
+
+/** 下一个默认名称：「画板 N」，N 取现有同前缀名称的最大编号 + 1。 */
+export function nextFrameName(existingNames: string[]): string {
+  let max = 0;
+  const pattern = new RegExp(`^${FRAME_NAME_PREFIX}\\s*(\\d+)$`);
+  existingNames.forEach((name) => {
+    const match = pattern.exec((name || '').trim());
+    if (match) max = Math.max(max, parseInt(match[1], 10));
+  });
+  return `${FRAME_NAME_PREFIX} ${max + 1}`;
+}
+
+const intersectionArea = (a: ExportBounds, b: ExportBounds): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+};
+
+/** 元素是否归属画板：以元素中心点落在画板内为准（与 Figma 放入画板的判定一致）。 */
+export function isInsideFrame(frame: ExportBounds, bounds: ExportBounds): boolean {
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+  return cx >= frame.x && cx <= frame.x + frame.width && cy >= frame.y && cy <= frame.y + frame.height;
+}
+
+/**
+ * 为一组元素（选中内容）找所属画板：所有元素都落在同一画板内时返回该画板，
+ * 否则返回 null（跨画板或画板外的选中内容按原始选区导出）。
+ * 画板嵌套时取面积最小的那个。
+ */
+export function findFrameForBounds(frames: FrameInfo[], targets: ExportBounds[]): FrameInfo | null {
+  if (targets.length === 0) return null;
+  const candidates = frames
+    .filter((frame) => targets.every((target) => isInsideFrame(frame.bounds, target)))
+    .sort((a, b) => a.bounds.width * a.bounds.height - b.bounds.width * b.bounds.height);
+  return candidates[0] ?? null;
+}
+
+/** 视口内可见面积最大的画板；都不可见时返回 null。 */
+export function pickFrameInViewport(frames: FrameInfo[], viewport: ExportBounds): FrameInfo | null {
+  let best: FrameInfo | null = null;
+  let bestArea = 0;
+  frames.forEach((frame) => {
+    const area = intersectionArea(frame.bounds, viewport);
+    if (area > bestArea) {
+      best = frame;
+      bestArea = area;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildPrintDocument,
+  buildSvgDocument,
+  orderExportRegions,
+  padBounds,
+  toSvgLayerId,
+  unionBounds,
+} from './canvasVectorExport.ts';
+
+test('union bounds skips empty entries and pads outward', () => {
+  const bounds = unionBounds([
+    { x: 10, y: 20, width: 100, height: 50 },
+    null,
+    { x: -40, y: 60, width: 20, height: 30 },
+    { x: 0, y: 0, width: 0, height: 10 },
+  ]);
+  assert.deepEqual(bounds, { x: -40, y: 20, width: 150, height: 70 });
+  assert.equal(unionBounds([null, undefined]), null);
+  assert.deepEqual(padBounds({ x: 0, y: 0, width: 10, height: 10 }, 5), { x: -5, y: -5, width: 20, height: 20 });
+});
+
+test('regions are paginated in reading order with unique names', () => {
+  const ordered = orderExportRegions([
+    { name: '图片', bounds: { x: 500, y: 5, width: 100, height: 100 } },
+    { name: '图片', bounds: { x: 0, y: 0, width: 100, height: 100 } },
+    { name: '标题', bounds: { x: 0, y: 400, width: 300, height: 80 } },
+    { name: '空', bounds: { x: 0, y: 0, width: 0, height: 0 } },
+  ]);
+  assert.deepEqual(
+    ordered.map((region) => [region.name, region.bounds.x, region.bounds.y]),
+    [
+      ['图片', 0, 0],
+      ['图片 2', 500, 5],
+      ['标题', 0, 400],
+    ],
+  );
+});
+
+test('layer ids keep readable names and stay unique', () => {
+  const used = new Set<string>();
+  assert.equal(toSvgLayerId('背景 图层', used), '背景_图层');
+  assert.equal(toSvgLayerId('背景 图层', used), '背景_图层_2');
+  assert.equal(toSvgLayerId('1 封面', used), '_1_封面');
+  assert.equal(toSvgLayerId('  <>  ', used), 'layer');
+});
+
+test('svg document frames the world coordinates with a viewBox', () => {
+  const svg = buildSvgDocument({
+    bounds: { x: -100.12345, y: 50, width: 300, height: 200 },
+    definitions: ['<linearGradient id="g1"/>'],
+    layerGroups: ['<g id="背景"><path d="M0 0L10 10"/></g>'],
+    backgroundColor: '#fff',
+    title: 'A & B',
+  });
+  assert.match(svg, /^<\?xml version="1.0"/);
+  assert.match(svg, /viewBox="-100.123 50 300 200"/);
+  assert.match(svg, /width="300" height="200"/);
+  assert.match(svg, /<title>A &amp; B<\/title>/);
+  assert.ok(svg.indexOf('<defs>') < svg.indexOf('<rect'));
+  assert.ok(svg.indexOf('<rect') < svg.indexOf('<g id="背景">'));
+});
+
+test('print document gives every page its own size', () => {
+  const html = buildPrintDocument([
+    { name: '第一页', svg: '<?xml version="1.0"?>\n<svg id="a"></svg>', width: 800, height: 600 },
+    { name: '"第二页"', svg: '<svg id="b"></svg>', width: 1080.555, height: 1920 },
+  ]);
+  assert.match(html, /@page p0 \{ size: 800px 600px; margin: 0; \}/);
+  assert.match(html, /@page p1 \{ size: 1080.56px 1920px; margin: 0; \}/);
+  assert.match(html, /<section class="page page-0" data-name="第一页"><svg id="a"><\/svg><\/section>/);
+  assert.match(html, /data-name="&quot;第二页&quot;"/);
+  assert.doesNotMatch(html, /<\?xml/);
+});
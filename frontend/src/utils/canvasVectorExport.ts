@@ -0,0 +1,201 @@
+/**
+ * 画布矢量导出（SVG / 分页 PDF）的纯函数部分：区域计算、SVG 外壳、图层分组属性、打印文档拼装。
+ * 不依赖 Paper / DOM，具体的 Paper 图层导出见 services/VectorExportService。
+ *
+ * 坐标均为 Paper world 坐标：SVG 用 viewBox 直接框住原始坐标，内容无需再平移。
+ */
+
+export interface ExportBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** 一页导出区域（选中元素、图层或命名区域）。 */
+export interface ExportRegion {
+  name: string;
+  bounds: ExportBounds;
+  /** 只导出该图层（layerStore id）；缺省导出区域内全部可见图层 */
+  layerId?: string;
+}
+
+export interface SvgDocumentOptions {
+  bounds: ExportBounds;
+  /** 已序列化的 <defs> 子元素（渐变、符号等） */
+  definitions?: string[];
+  /** 已序列化的各图层 <g>，按从下到上排列 */
+  layerGroups: string[];
+  backgroundColor?: string | null;
+  title?: string;
+}
+
+export interface PrintPage {
+  name: string;
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const INKSCAPE_NS = 'http://www.inkscape.org/namespaces/inkscape';
+
+const round = (value: number, precision = 3) => {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+};
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const isUsableBounds = (bounds: ExportBounds | null | undefined): bounds is ExportBounds =>
+  !!bounds &&
+  [bounds.x, bounds.y, bounds.width, bounds.height].every((n) => Number.isFinite(n)) &&
+  bounds.width > 0 &&
+  bounds.height > 0;
+
+export function unionBounds(list: Array<ExportBounds | null | undefined>): ExportBounds | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const bounds of list) {
+    if (!isUsableBounds(bounds)) continue;
+    minX = Math.min(minX, bounds.x);
+    minY = Math.min(minY, bounds.y);
+    maxX = Math.max(maxX, bounds.x + bounds.width);
+    maxY = Math.max(maxY, bounds.y + bounds.height);
+  }
+  if (!Number.isFinite(minX)) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function padBounds(bounds: ExportBounds, padding: number): ExportBounds {
+  const pad = Number.isFinite(padding) && padding > 0 ? padding : 0;
+  return {
+    x: bounds.x - pad,
+    y: bounds.y - pad,
+    width: bounds.width + pad * 2,
+    height: bounds.height + pad * 2,
+  };
+}
+
+export function boundsIntersect(a: ExportBounds, b: ExportBounds): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+/**
+ * 整理分页区域：丢弃空区域，按阅读顺序（先上后下、同一行从左到右）排序，重名追加序号。
+ * 顶边相差不到较矮区域一半高度的视为同一行，避免轻微错位打乱顺序。
+ */
+export function orderExportRegions(regions: ExportRegion[]): ExportRegion[] {
+  const usable = regions.filter((region) => isUsableBounds(region.bounds));
+  const sorted = [...usable].sort((a, b) => {
+    const rowTolerance = Math.min(a.bounds.height, b.bounds.height) / 2;
+    if (Math.abs(a.bounds.y - b.bounds.y) > rowTolerance) return a.bounds.y - b.bounds.y;
+    return a.bounds.x - b.bounds.x;
+  });
+  const seen = new Map<string, number>();
+  return sorted.map((region) => {
+    const base = region.name.trim() || '页面';
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? { ...region, name: base } : { ...region, name: `${base} ${count}` };
+  });
+}
+
+/**
+ * 图层名 → SVG id。Illustrator / Inkscape 用顶层 <g> 的 id / label 作图层名，
+ * 这里保留中文等字母字符，把 XML id 不允许的字符换成下划线，并保证唯一。
+ */
+export function toSvgLayerId(name: string, used: Set<string>): string {
+  let base = name.trim().replace(/[^\p{L}\p{N}_.-]+/gu, '_').replace(/^_+|_+$/g, '');
+  if (!base) base = 'layer';
+  if (!/^[\p{L}_]/u.test(base)) base = `_${base}`;
+  let id = base;
+  let n = 2;
+  while (used.has(id)) {
+    id = `${base}_${n}`;
+    n += 1;
+  }
+  used.add(id);
+  return id;
+}
+
+/** 图层 <g> 上的属性：Inkscape 图层标记 + 原始名称。 */
+export function layerGroupAttributes(id: string, name: string): Record<string, string> {
+  return {
+    id,
+    'data-name': name,
+    'inkscape:groupmode': 'layer',
+    'inkscape:label': name,
+  };
+}
+
+export function buildSvgDocument(options: SvgDocumentOptions): string {
+  const { bounds, definitions, layerGroups, backgroundColor, title } = options;
+  const x = round(bounds.x);
+  const y = round(bounds.y);
+  const width = round(bounds.width);
+  const height = round(bounds.height);
+  const parts = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="${SVG_NS}" xmlns:xlink="${XLINK_NS}" xmlns:inkscape="${INKSCAPE_NS}" version="1.1"` +
+      ` width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+  ];
+  if (title) parts.push(`<title>${escapeXml(title)}</title>`);
+  if (definitions && definitions.length > 0) parts.push('<defs>', ...definitions, '</defs>');
+  if (backgroundColor) {
+    parts.push(
+      `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${escapeXml(backgroundColor)}"/>`,
+    );
+  }
+  parts.push(...layerGroups, '</svg>');
+  return parts.join('\n');
+}
+
+const stripXmlDeclaration = (svg: string) => svg.replace(/^\s*<\?xml[^>]*>\s*/, '');
+
+/**
+ * 多页打印文档：每页一个具名 @page，页面尺寸等于该区域尺寸（CSS px），
+ * 交给浏览器打印另存为 PDF 时路径与文字保持矢量。
+ */
+export function buildPrintDocument(pages: PrintPage[], title = 'Tanva Export'): string {
+  const pageRules = pages
+    .map((page, index) => {
+      const width = round(page.width, 2);
+      const height = round(page.height, 2);
+      return (
+        `@page p${index} { size: ${width}px ${height}px; margin: 0; }\n` +
+        `.page-${index} { page: p${index}; width: ${width}px; height: ${height}px; }`
+      );
+    })
+    .join('\n');
+  const body = pages
+    .map(
+      (page, index) =>
+        `<section class="page page-${index}" data-name="${escapeXml(page.name)}">${stripXmlDeclaration(page.svg)}</section>`,
+    )
+    .join('\n');
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8" />',
+    `<title>${escapeXml(title)}</title>`,
+    '<style>',
+    'html, body { margin: 0; padding: 0; }',
+    '.page { overflow: hidden; break-after: page; page-break-after: always; }',
+    '.page:last-child { break-after: auto; page-break-after: auto; }',
+    '.page > svg { display: block; width: 100%; height: 100%; }',
+    pageRules,
+    '</style></head><body>',
+    body,
+    '</body></html>',
+  ].join('\n');
+}
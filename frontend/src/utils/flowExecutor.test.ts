@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { TemplateEdge, TemplateNode } from "../types/template.ts";
+import { executeFlowGraph } from "./flowExecutor.ts";
+
+const node = (id: string, type: string, x = 0, y = 0): TemplateNode => ({
+  id,
+  type,
+  position: { x, y },
+  data: {},
+});
+
+const edge = (source: string, target: string): TemplateEdge => ({
+  id: `${source}->${target}`,
+  source,
+  target,
+});
+
+const RUNNABLE = new Set(["generate", "klingVideo"]);
+const isRunnable = (n: TemplateNode) => RUNNABLE.has(n.type);
+
+const deferredRun = () => {
+  const started: string[] = [];
+  const resolvers = new Map<string, (ok: boolean) => void>();
+  let active = 0;
+  let maxActive = 0;
+  const runNode = (n: TemplateNode) =>
+    new Promise<boolean>((resolve) => {
+      started.push(n.id);
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      resolvers.set(n.id, (ok) => {
+        active -= 1;
+        resolve(ok);
+      });
+    });
+  const finish = async (id: string, ok = true) => {
+    resolvers.get(id)?.(ok);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  return { started, runNode, finish, maxActive: () => maxActive };
+};
+
+test("independent image nodes sharing one prompt run concurrently", async () => {
+  const nodes = [
+    node("prompt", "textPrompt", 0),
+    node("a", "generate", 100, 0),
+    node("b", "generate", 100, 100),
+    node("c", "generate", 100, 200),
+    node("d", "generate", 100, 300),
+  ];
+  const edges = ["a", "b", "c", "d"].map((id) => edge("prompt", id));
+  const runner = deferredRun();
+  const done = executeFlowGraph({ nodes, edges, isRunnable, runNode: runner.runNode });
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assert.deepEqual(runner.started, ["a", "b", "c", "d"]);
+  for (const id of ["a", "b", "c", "d"]) await runner.finish(id);
+
+  const summary = await done;
+  assert.equal(runner.maxActive(), 4);
+  assert.equal(summary.succeeded, 4);
+  assert.equal(summary.states.has("prompt"), false);
+});
+
+test("per-type limit throttles video nodes without blocking image nodes", async () => {
+  const nodes = [
+    node("v1", "klingVideo", 0, 0),
+    node("v2", "klingVideo", 0, 100),
+    node("img", "generate", 0, 200),
+  ];
+  const runner = deferredRun();
+  const done = executeFlowGraph({
+    nodes,
+    edges: [],
+    isRunnable,
+    runNode: runner.runNode,
+    limits: { total: 4, byType: { klingVideo: 1 } },
+  });
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assert.deepEqual(runner.started, ["v1", "img"]);
+  await runner.finish("v1");
+  assert.deepEqual(runner.started, ["v1", "img", "v2"]);
+  await runner.finish("img");
+  await runner.finish("v2");
+  assert.equal((await done).succeeded, 3);
+});
+
+test("a failed node skips its whole downstream chain", async () => {
+  const nodes = [
+    node("a", "generate", 0),
+    node("mid", "textPrompt", 100),
+    node("b", "generate", 200),
+    node("other", "generate", 0, 300),
+  ];
+  const edges = [edge("a", "mid"), edge("mid", "b")];
+  const seen: Array<[string, string]> = [];
+  const runner = deferredRun();
+  const done = executeFlowGraph({
+    nodes,
+    edges,
+    isRunnable,
+    runNode: runner.runNode,
+    onStateChange: (id, state) => seen.push([id, state]),
+  });
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await runner.finish("a", false);
+  await runner.finish("other");
+
+  const summary = await done;
+  assert.deepEqual(runner.started, ["a", "other"]);
+  assert.equal(summary.states.get("a"), "failed");
+  assert.equal(summary.states.get("b"), "skipped");
+  assert.equal(summary.executed, 2);
+  assert.ok(seen.some(([id, state]) => id === "b" && state === "queued"));
+});
+
+test("abort cancels queued and running nodes", async () => {
+  const nodes = [node("a", "generate", 0), node("b", "generate", 100)];
+  const controller = new AbortController();
+  const runner = deferredRun();
+  const done = executeFlowGraph({
+    nodes,
+    edges: [edge("a", "b")],
+    isRunnable,
+    runNode: runner.runNode,
+    signal: controller.signal,
+  });
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  controller.abort();
+  const summary = await done;
+  assert.equal(summary.stopped, true);
+  assert.equal(summary.cancelled, 2);
+  assert.deepEqual(runner.started, ["a"]);
+});
+
+test("cycles fall back to position order instead of stalling", async () => {
+  const nodes = [node("a", "generate", 0), node("b", "generate", 100)];
+  const order: string[] = [];
+  const summary = await executeFlowGraph({
+    nodes,
+    edges: [edge("a", "b"), edge("b", "a")],
+    isRunnable,
+    runNode: async (n) => {
+      order.push(n.id);
+      return true;
+    },
+  });
+  assert.deepEqual(order, ["a", "b"]);
+  assert.equal(summary.succeeded, 2);
+});
+
+test("nodes reused by shouldSkip count as success for downstream", async () => {
+  const nodes = [node("a", "generate", 0), node("b", "klingVideo", 100)];
+  const order: string[] = [];
+  const summary = await executeFlowGraph({
+    nodes,
+    edges: [edge("a", "b")],
+    isRunnable,
+    shouldSkip: (n) => n.id === "a",
+    runNode: async (n) => {
+      order.push(n.id);
+      return true;
+    },
+  });
+  assert.deepEqual(order, ["b"]);
+  assert.equal(summary.states.get("a"), "cached");
+  assert.equal(summary.cached, 1);
+  assert.equal(summary.executed, 1);
+});
@@ -0,0 +1,329 @@
+import type { TemplateEdge, TemplateNode } from "@/types/template";
+
+// Flow 分组运行 / 全局运行的依赖感知执行器：
+// - 上游全部成功后节点才进入就绪队列，互不依赖的分支并发执行；
+// - 并发受全局上限与「按节点类型」上限双重约束（如视频节点单独限流）；
+// - 上游失败/被跳过时，下游整条链标记为 skipped，不再发起运行；
+// - 节点在放行时可由 shouldSkip 判定沿用上次结果（cached），对下游等同成功；
+// - 只依赖纯 TemplateNode/TemplateEdge 图结构，运行动作由调用方注入，便于单测。
+
+export type FlowNodeRunState =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "cached"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+// 执行器只关心 id/type/position，React Flow 节点与模板节点都可直接传入
+export type FlowExecutableNode = Pick<TemplateNode, "id" | "position"> & {
+  type?: string;
+};
+
+export interface FlowExecutionLimits {
+  // 同时运行的节点总数上限
+  total?: number;
+  // 未在 byType 中声明的节点类型的单类型并发上限
+  perType?: number;
+  // 指定节点类型的并发上限
+  byType?: Record<string, number>;
+}
+
+export interface FlowExecutionOptions<N extends FlowExecutableNode = TemplateNode> {
+  nodes: N[];
+  edges: Array<Pick<TemplateEdge, "source" | "target">>;
+  // 可运行节点才会调用 runNode；其它节点（提示词、图片输入等）视为直通，
+  // 只负责把上游结果传递给下游。
+  isRunnable: (node: N) => boolean;
+  // 返回 false 或抛错均视为失败
+  runNode: (node: N) => Promise<boolean>;
+  // 放行时调用（此时上游均已完成）；返回 true 则不运行，沿用上次结果
+  shouldSkip?: (node: N) => boolean;
+  limits?: FlowExecutionLimits;
+  // 中止后不再启动新节点；运行中的节点结果不再等待，记为 cancelled
+  signal?: AbortSignal;
+  onStateChange?: (nodeId: string, state: FlowNodeRunState) => void;
+}
+
+export interface FlowExecutionSummary {
+  // 仅包含可运行节点的最终状态
+  states: Map<string, FlowNodeRunState>;
+  succeeded: number;
+  cached: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  // 实际发起运行的节点数（成功 + 失败）
+  executed: number;
+  stopped: boolean;
+}
+
+export const DEFAULT_FLOW_EXECUTION_LIMITS: Required<
+  Pick<FlowExecutionLimits, "total" | "perType">
+> = {
+  total: 4,
+  perType: 4,
+};
+
+const normalizeLimit = (value: unknown, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 1 ? Math.floor(parsed) : fallback;
+};
+
+// 与原串行实现保持一致：同层节点按画布位置从左到右、从上到下发起。
+export const compareFlowNodePosition = (
+  a: Pick<FlowExecutableNode, "position">,
+  b: Pick<FlowExecutableNode, "position">
+): number => {
+  const ax = Number(a.position?.x ?? 0);
+  const bx = Number(b.position?.x ?? 0);
+  if (Math.abs(ax - bx) > 0.01) return ax - bx;
+  const ay = Number(a.position?.y ?? 0);
+  const by = Number(b.position?.y ?? 0);
+  return ay - by;
+};
+
+export function executeFlowGraph<N extends FlowExecutableNode>(
+  options: FlowExecutionOptions<N>
+): Promise<FlowExecutionSummary> {
+  const { nodes, edges, isRunnable, runNode, shouldSkip, signal, onStateChange } =
+    options;
+  const totalLimit = normalizeLimit(
+    options.limits?.total,
+    DEFAULT_FLOW_EXECUTION_LIMITS.total
+  );
+  const perTypeLimit = normalizeLimit(
+    options.limits?.perType,
+    DEFAULT_FLOW_EXECUTION_LIMITS.perType
+  );
+  const byType = options.limits?.byType ?? {};
+  const limitForType = (type: string) =>
+    normalizeLimit(byType[type], perTypeLimit);
+
+  const nodeById = new Map<string, N>();
+  nodes.forEach((node) => {
+    if (!nodeById.has(node.id)) nodeById.set(node.id, node);
+  });
+
+  const upstream = new Map<string, Set<string>>();
+  const downstream = new Map<string, Set<string>>();
+  nodeById.forEach((_, id) => {
+    upstream.set(id, new Set());
+    downstream.set(id, new Set());
+  });
+  edges.forEach((edge) => {
+    if (edge.source === edge.target) return;
+    if (!nodeById.has(edge.source) || !nodeById.has(edge.target)) return;
+    downstream.get(edge.source)!.add(edge.target);
+    upstream.get(edge.target)!.add(edge.source);
+  });
+
+  const runnableIds = new Set<string>();
+  nodeById.forEach((node, id) => {
+    if (isRunnable(node)) runnableIds.add(id);
+  });
+
+  const states = new Map<string, FlowNodeRunState>();
+  const remainingDeps = new Map<string, number>();
+  upstream.forEach((deps, id) => remainingDeps.set(id, deps.size));
+
+  const pending = new Set<string>(nodeById.keys());
+  const ready: N[] = [];
+  const runningByType = new Map<string, number>();
+  let runningCount = 0;
+  let stopped = false;
+  let finished = false;
+
+  const setState = (id: string, state: FlowNodeRunState) => {
+    if (!runnableIds.has(id)) return;
+    states.set(id, state);
+    onStateChange?.(id, state);
+  };
+
+  runnableIds.forEach((id) => setState(id, "queued"));
+
+  return new Promise<FlowExecutionSummary>((resolve) => {
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      signal?.removeEventListener("abort", handleAbort);
+      let succeeded = 0;
+      let cached = 0;
+      let failed = 0;
+      let skipped = 0;
+      let cancelled = 0;
+      states.forEach((state) => {
+        if (state === "succeeded") succeeded += 1;
+        else if (state === "cached") cached += 1;
+        else if (state === "failed") failed += 1;
+        else if (state === "skipped") skipped += 1;
+        else if (state === "cancelled") cancelled += 1;
+      });
+      resolve({
+        states,
+        succeeded,
+        cached,
+        failed,
+        skipped,
+        cancelled,
+        executed: succeeded + failed,
+        stopped,
+      });
+    };
+
+    const handleAbort = () => {
+      if (finished) return;
+      stopped = true;
+      states.forEach((state, id) => {
+        if (state === "queued" || state === "running") setState(id, "cancelled");
+      });
+      finish();
+    };
+
+    // 节点失败/被跳过：下游全部阻断（跳过）
+    const block = (id: string) => {
+      const stack = Array.from(downstream.get(id) ?? []);
+      while (stack.length) {
+        const next = stack.pop() as string;
+        if (!pending.has(next)) continue;
+        pending.delete(next);
+        setState(next, "skipped");
+        const readyIndex = ready.findIndex((node) => node.id === next);
+        if (readyIndex >= 0) ready.splice(readyIndex, 1);
+        downstream.get(next)?.forEach((child) => stack.push(child));
+      }
+    };
+
+    const release = (id: string) => {
+      downstream.get(id)?.forEach((child) => {
+        if (!pending.has(child)) return;
+        const left = (remainingDeps.get(child) ?? 0) - 1;
+        remainingDeps.set(child, left);
+        if (left <= 0) enqueue(child);
+      });
+    };
+
+    const complete = (id: string, ok: boolean) => {
+      if (ok) release(id);
+      else block(id);
+    };
+
+    const enqueue = (id: string) => {
+      if (!pending.has(id)) return;
+      const node = nodeById.get(id);
+      if (!node) return;
+      if (ready.some((item) => item.id === id)) return;
+      ready.push(node);
+    };
+
+    // 每个节点只在首次放行时判定一次（判定可能涉及整图哈希计算）
+    const reuseDecisions = new Map<string, boolean>();
+    const canReuse = (node: N): boolean => {
+      if (!shouldSkip) return false;
+      const decided = reuseDecisions.get(node.id);
+      if (decided !== undefined) return decided;
+      let reuse = false;
+      try {
+        reuse = shouldSkip(node) === true;
+      } catch {
+        reuse = false;
+      }
+      reuseDecisions.set(node.id, reuse);
+      return reuse;
+    };
+
+    const start = (node: N) => {
+      pending.delete(node.id);
+      if (!runnableIds.has(node.id)) {
+        complete(node.id, true);
+        return;
+      }
+      if (canReuse(node)) {
+        setState(node.id, "cached");
+        complete(node.id, true);
+        return;
+      }
+      const type = String(node.type || "");
+      runningCount += 1;
+      runningByType.set(type, (runningByType.get(type) ?? 0) + 1);
+      setState(node.id, "running");
+
+      let result: Promise<boolean>;
+      try {
+        result = Promise.resolve(runNode(node));
+      } catch (error) {
+        result = Promise.reject(error);
+      }
+      result
+        .then(
+          (ok) => ok !== false,
+          () => false
+        )
+        .then((ok) => {
+          runningCount -= 1;
+          runningByType.set(type, Math.max(0, (runningByType.get(type) ?? 1) - 1));
+          if (finished) return;
+          setState(node.id, ok ? "succeeded" : "failed");
+          complete(node.id, ok);
+          pump();
+        });
+    };
+
+    const pump = () => {
+      if (finished) return;
+      if (signal?.aborted) {
+        handleAbort();
+        return;
+      }
+
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+        ready.sort(compareFlowNodePosition);
+        for (let index = 0; index < ready.length; index += 1) {
+          const node = ready[index];
+          if (!runnableIds.has(node.id) || canReuse(node)) {
+            ready.splice(index, 1);
+            start(node);
+            progressed = true;
+            break;
+          }
+          if (runningCount >= totalLimit) break;
+          const type = String(node.type || "");
+          if ((runningByType.get(type) ?? 0) >= limitForType(type)) continue;
+          ready.splice(index, 1);
+          start(node);
+          progressed = true;
+          break;
+        }
+
+        // 环路兜底：没有运行中/就绪节点但仍有待运行节点时，按位置放行最靠前的一个
+        if (!progressed && runningCount === 0 && ready.length === 0 && pending.size) {
+          const fallback = Array.from(pending)
+            .map((id) => nodeById.get(id) as N)
+            .sort(compareFlowNodePosition)[0];
+          if (fallback) {
+            enqueue(fallback.id);
+            progressed = true;
+          }
+        }
+      }
+
+      if (runningCount === 0 && ready.length === 0 && pending.size === 0) {
+        finish();
+      }
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener("abort", handleAbort);
+
+    remainingDeps.forEach((count, id) => {
+      if (count === 0) enqueue(id);
+    });
+    pump();
+  });
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { TemplateEdge, TemplateNode } from "../types/template.ts";
+import {
+  FLOW_RUN_INPUT_HASH_KEY,
+  computeFlowNodeInputHash,
+  isFlowNodeInputUnchanged,
+} from "./flowRunInputHash.ts";
+
+const graph = (promptText: string) => {
+  const nodes: TemplateNode[] = [
+    { id: "prompt", type: "textPrompt", position: { x: 0, y: 0 }, data: { text: promptText } },
+    {
+      id: "relay",
+      type: "textPrompt",
+      position: { x: 100, y: 0 },
+      data: {},
+    },
+    {
+      id: "gen",
+      type: "generate",
+      position: { x: 200, y: 0 },
+      data: { imageSize: "1K", aspectRatio: "1:1" },
+    },
+  ];
+  const edges: TemplateEdge[] = [
+    { id: "e1", source: "prompt", target: "relay", sourceHandle: "text", targetHandle: "text" },
+    { id: "e2", source: "relay", target: "gen", sourceHandle: "text", targetHandle: "text" },
+  ];
+  return { nodes, edges };
+};
+
+test("outputs and run state of the node itself do not change its hash", () => {
+  const { nodes, edges } = graph("a cat");
+  const before = computeFlowNodeInputHash(nodes[2], nodes, edges);
+  nodes[2].data = {
+    ...nodes[2].data,
+    status: "succeeded",
+    imageUrl: "https://cdn.example.com/out.png",
+    taskId: "t1",
+    onRun: () => undefined,
+  };
+  assert.equal(computeFlowNodeInputHash(nodes[2], nodes, edges), before);
+});
+
+test("changes anywhere upstream invalidate the recorded hash", () => {
+  const original = graph("a cat");
+  const hash = computeFlowNodeInputHash(original.nodes[2], original.nodes, original.edges);
+  original.nodes[2].data[FLOW_RUN_INPUT_HASH_KEY] = hash;
+  assert.equal(
+    isFlowNodeInputUnchanged(original.nodes[2], original.nodes, original.edges),
+    true
+  );
+
+  const edited = graph("a dog");
+  edited.nodes[2].data[FLOW_RUN_INPUT_HASH_KEY] = hash;
+  assert.equal(isFlowNodeInputUnchanged(edited.nodes[2], edited.nodes, edited.edges), false);
+});
+
+test("own parameter changes and image input nodes are never reused", () => {
+  const { nodes, edges } = graph("a cat");
+  nodes[2].data[FLOW_RUN_INPUT_HASH_KEY] = computeFlowNodeInputHash(nodes[2], nodes, edges);
+  nodes[2].data.aspectRatio = "16:9";
+  assert.equal(isFlowNodeInputUnchanged(nodes[2], nodes, edges), false);
+
+  const image: TemplateNode = {
+    id: "img",
+    type: "image",
+    position: { x: 0, y: 0 },
+    data: {},
+  };
+  image.data[FLOW_RUN_INPUT_HASH_KEY] = computeFlowNodeInputHash(image, [image], []);
+  assert.equal(isFlowNodeInputUnchanged(image, [image], []), false);
+});
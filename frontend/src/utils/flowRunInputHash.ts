@@ -0,0 +1,205 @@
+import type { FlowExecutableNode } from "./flowExecutor";
+
+// Flow 增量运行：节点成功运行时记录「解析后输入」的内容哈希（写入 node.data，随
+// FlowGraphSnapshot 持久化）。分组/全局运行前重新计算，哈希一致即跳过该节点，
+// 避免未变化的生图/视频节点被重复执行和重复扣费。
+//
+// 哈希范围：
+// - 节点自身参数（模型、尺寸、时长、提示词等），排除运行产物与运行期字段；
+// - 全部上游祖先节点的数据（含其产物：文本、图片/视频 URL），以及连线的句柄。
+//   采用祖先闭包而不是只看直接上游，是因为提示词等直通节点可能在运行时才从更上游取值。
+
+export const FLOW_RUN_INPUT_HASH_KEY = "runInputHash";
+
+type HashableNode = FlowExecutableNode & { data?: unknown };
+type HashableEdge = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+};
+
+// 运行状态、进度、任务句柄、渲染注入字段：任何节点都不计入哈希
+const VOLATILE_DATA_KEYS = new Set<string>([
+  FLOW_RUN_INPUT_HASH_KEY,
+  "status",
+  "error",
+  "progress",
+  "progressStartedAt",
+  "taskPhase",
+  "apiUsageId",
+  "fallbackMessage",
+  "creditsPerCall",
+  "seedance2AccessEnabled",
+  "seedance2AccessResolved",
+  "isDarkTheme",
+  "boxW",
+  "boxH",
+  "collapsed",
+]);
+const VOLATILE_DATA_PREFIXES = ["task", "videoTask", "pending", "on"];
+
+// 节点自身的运行产物：不计入自身哈希（否则每次运行后哈希必然变化），
+// 但作为下游的输入会计入下游哈希。
+const OUTPUT_DATA_KEYS = new Set<string>([
+  "imageUrl",
+  "imageData",
+  "imageUrls",
+  "images",
+  "thumbnail",
+  "thumbnails",
+  "videoUrl",
+  "videoUrls",
+  "videoVersion",
+  "audioUrl",
+  "audioUrls",
+  "modelUrl",
+  "gifUrl",
+  "history",
+  "responseText",
+  "lastPrompt",
+]);
+
+// 部分文本节点把结果写回 text/prompt 字段
+const OUTPUT_DATA_KEYS_BY_TYPE: Record<string, string[]> = {
+  textChat: ["text"],
+  promptOptimize: ["text", "expandedText"],
+  analysis: ["text", "prompt"],
+  videoAnalyze: ["text", "prompt"],
+};
+
+// 这些节点的输入就是自身持有的素材，跳过会吞掉用户更换的图片，始终重新运行
+const NON_CACHEABLE_TYPES = new Set<string>(["image", "imagePro"]);
+
+export const isFlowRunCacheableType = (type?: string | null): boolean =>
+  !!type && !NON_CACHEABLE_TYPES.has(type);
+
+const isVolatileKey = (key: string): boolean =>
+  VOLATILE_DATA_KEYS.has(key) ||
+  VOLATILE_DATA_PREFIXES.some(
+    (prefix) =>
+      key.length > prefix.length &&
+      key.startsWith(prefix) &&
+      key[prefix.length] === key[prefix.length].toUpperCase()
+  );
+
+const pickData = (
+  data: unknown,
+  omit?: ReadonlySet<string>
+): Record<string, unknown> => {
+  if (!data || typeof data !== "object") return {};
+  const picked: Record<string, unknown> = {};
+  Object.entries(data as Record<string, unknown>).forEach(([key, value]) => {
+    if (typeof value === "function" || value === undefined) return;
+    if (isVolatileKey(key)) return;
+    if (omit?.has(key)) return;
+    picked[key] = value;
+  });
+  return picked;
+};
+
+const stableStringify = (value: unknown): string => {
+  const seen = new WeakSet<object>();
+  const walk = (input: unknown): unknown => {
+    if (typeof input === "function" || input === undefined) return undefined;
+    if (!input || typeof input !== "object") return input;
+    if (seen.has(input as object)) return undefined;
+    seen.add(input as object);
+    if (Array.isArray(input)) return input.map((item) => walk(item) ?? null);
+    const sorted: Record<string, unknown> = {};
+    Object.keys(input as Record<string, unknown>)
+      .sort()
+      .forEach((key) => {
+        const child = walk((input as Record<string, unknown>)[key]);
+        if (child !== undefined) sorted[key] = child;
+      });
+    return sorted;
+  };
+  return JSON.stringify(walk(value)) ?? "";
+};
+
+// cyrb53：同步、无依赖的 53 位字符串哈希，足够区分节点输入快照
+const hashString = (input: string, seed = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i += 1) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export function computeFlowNodeInputHash(
+  node: HashableNode,
+  nodes: HashableNode[],
+  edges: HashableEdge[]
+): string {
+  const nodeById = new Map(nodes.map((item) => [item.id, item] as const));
+  const incoming = new Map<string, HashableEdge[]>();
+  edges.forEach((edge) => {
+    if (edge.source === edge.target) return;
+    const list = incoming.get(edge.target) ?? [];
+    list.push(edge);
+    incoming.set(edge.target, list);
+  });
+
+  const ancestors = new Map<string, HashableNode>();
+  const links: string[] = [];
+  const stack = [node.id];
+  const expanded = new Set<string>();
+  while (stack.length) {
+    const current = stack.pop() as string;
+    if (expanded.has(current)) continue;
+    expanded.add(current);
+    (incoming.get(current) ?? []).forEach((edge) => {
+      const source = nodeById.get(edge.source);
+      if (!source || source.id === node.id) return;
+      links.push(
+        [edge.source, edge.sourceHandle ?? "", edge.target, edge.targetHandle ?? ""].join(
+          "|"
+        )
+      );
+      ancestors.set(source.id, source);
+      stack.push(source.id);
+    });
+  }
+
+  const type = String(node.type || "");
+  const ownOutputKeys = new Set<string>([
+    ...OUTPUT_DATA_KEYS,
+    ...(OUTPUT_DATA_KEYS_BY_TYPE[type] ?? []),
+  ]);
+
+  const snapshot = {
+    type,
+    params: pickData(node.data, ownOutputKeys),
+    links: links.sort(),
+    upstream: Array.from(ancestors.values())
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map((ancestor) => ({
+        id: ancestor.id,
+        type: String(ancestor.type || ""),
+        data: pickData(ancestor.data),
+      })),
+  };
+  return hashString(stableStringify(snapshot));
+}
+
+// 节点上次成功运行时记录的输入哈希与当前一致：可以跳过
+export function isFlowNodeInputUnchanged(
+  node: HashableNode,
+  nodes: HashableNode[],
+  edges: HashableEdge[]
+): boolean {
+  if (!isFlowRunCacheableType(node.type)) return false;
+  const recorded = (node.data as Record<string, unknown> | undefined)?.[
+    FLOW_RUN_INPUT_HASH_KEY
+  ];
+  if (typeof recorded !== "string" || !recorded) return false;
+  return recorded === computeFlowNodeInputHash(node, nodes, edges);
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  applyFlowTemplateInputs,
+  getFlowTemplateInputDefaults,
+  getMissingFlowTemplateInputs,
+  inferFlowTemplateInputs,
+  migrateFlowTemplate,
+  selectFlowTemplateInputs,
+} from "./flowTemplateInputs.ts";
+
+const v1 = {
+  schemaVersion: 1,
+  id: "tpl_1",
+  name: "海报",
+  nodes: [
+    { id: "p", type: "textPrompt", position: { x: 0, y: 0 }, data: { text: "a cat" } },
+    { id: "img", type: "image", position: { x: 0, y: 100 }, data: { imageUrl: "https://x/a.png" } },
+    { id: "g", type: "generate", position: { x: 200, y: 0 }, data: { aspectRatio: "1:1" } },
+  ],
+  edges: [{ id: "e1", source: "p", target: "g" }],
+};
+
+test("v1 templates migrate to v2 with no inputs", () => {
+  const tpl = migrateFlowTemplate(v1);
+  assert.ok(tpl);
+  assert.equal(tpl.schemaVersion, 2);
+  assert.deepEqual(tpl.inputs, []);
+  assert.equal(tpl.nodes.length, 3);
+  assert.equal(migrateFlowTemplate("nope"), null);
+});
+
+test("invalid inputs and bindings to missing nodes are dropped", () => {
+  const tpl = migrateFlowTemplate({
+    ...v1,
+    schemaVersion: 2,
+    inputs: [
+      { key: "prompt", label: "提示词", type: "text", bindings: [{ nodeId: "p", field: "text" }] },
+      { key: "prompt", type: "text", bindings: [{ nodeId: "p", field: "text" }] },
+      { key: "ghost", type: "text", bindings: [{ nodeId: "missing", field: "text" }] },
+      { key: "bad", type: "color", bindings: [{ nodeId: "p", field: "text" }] },
+      { key: "ratio", type: "enum", options: [], bindings: [{ nodeId: "g", field: "aspectRatio" }] },
+    ],
+  });
+  assert.deepEqual(
+    tpl?.inputs.map((input) => input.key),
+    ["prompt"]
+  );
+});
+
+test("form values are written to bound fields with coercion", () => {
+  const tpl = migrateFlowTemplate({
+    ...v1,
+    schemaVersion: 2,
+    inputs: [
+      { key: "prompt", label: "提示词", type: "text", required: true, bindings: [{ nodeId: "p", field: "text" }] },
+      {
+        key: "ratio",
+        label: "尺寸",
+        type: "enum",
+        options: ["1:1", "16:9"],
+        bindings: [{ nodeId: "g", field: "aspectRatio" }],
+      },
+      { key: "seed", label: "种子", type: "number", max: 100, bindings: [{ nodeId: "g", field: "params.seed" }] },
+      { key: "ref", label: "参考图", type: "image", bindings: [{ nodeId: "img", field: "imageUrl" }] },
+    ],
+  });
+  assert.ok(tpl);
+  assert.deepEqual(getFlowTemplateInputDefaults(tpl), {
+    prompt: "a cat",
+    ratio: "1:1",
+    ref: "https://x/a.png",
+  });
+  assert.deepEqual(
+    getMissingFlowTemplateInputs(tpl, { prompt: "  " }).map((input) => input.key),
+    ["prompt"]
+  );
+
+  const applied = applyFlowTemplateInputs(tpl, {
+    prompt: "a dog",
+    ratio: "4:3",
+    seed: "250",
+    ref: "data:image/png;base64,AAAA",
+  });
+  const byId = new Map(applied.nodes.map((node) => [node.id, node.data]));
+  assert.equal(byId.get("p")?.text, "a dog");
+  assert.equal(byId.get("g")?.aspectRatio, "1:1");
+  assert.deepEqual(byId.get("g")?.params, { seed: 100 });
+  assert.equal(byId.get("img")?.imageData, "data:image/png;base64,AAAA");
+  assert.equal(byId.get("img")?.imageUrl, undefined);
+  assert.equal(tpl.nodes[0].data.text, "a cat");
+});
+
+test("saving infers prompt, image and aspect ratio inputs", () => {
+  const inputs = inferFlowTemplateInputs(v1.nodes);
+  assert.deepEqual(
+    inputs.map((input) => [input.type, input.bindings[0].field]),
+    [
+      ["text", "text"],
+      ["image", "imageUrl"],
+      ["enum", "aspectRatio"],
+    ]
+  );
+});
+
+test("the author's picks narrow and rename the inferred inputs", () => {
+  const inputs = inferFlowTemplateInputs(v1.nodes);
+  const picked = selectFlowTemplateInputs(inputs, [
+    { key: "p.text", enabled: true, label: " 主题 " },
+    { key: "img.image", enabled: false, label: "参考图" },
+    { key: "g.aspectRatio", enabled: true, label: "" },
+  ]);
+  assert.deepEqual(
+    picked.map((input) => [input.key, input.label]),
+    [
+      ["p.text", "主题"],
+      ["g.aspectRatio", "尺寸"],
+    ]
+  );
+  assert.deepEqual(selectFlowTemplateInputs(inputs, []), []);
+});
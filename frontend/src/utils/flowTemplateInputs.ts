@@ -0,0 +1,338 @@
+import type {
+  FlowTemplate,
+  FlowTemplateInput,
+  FlowTemplateInputBinding,
+  FlowTemplateInputOption,
+  FlowTemplateInputType,
+  TemplateNode,
+} from "../types/template";
+
+// Flow 模板 schemaVersion 2：在节点/连线之外声明一组具名输入（文本、图片、枚举、数字），
+// 每个输入绑定到若干节点的 data 字段。实例化时先弹表单收集输入，再写回绑定字段，
+// 用户不必在节点里逐个找提示词、参考图和尺寸。
+//
+// V1 模板（只有 nodes/edges）经 migrateFlowTemplate 升级为 inputs 为空的 V2，行为不变。
+// 后端 backend/src/templates/flow-template-schema.ts 做同样的升级与校验，两边保持一致。
+
+export const FLOW_TEMPLATE_SCHEMA_VERSION = 2;
+
+export type FlowTemplateInputValue = string | number;
+export type FlowTemplateInputValues = Record<string, FlowTemplateInputValue>;
+
+const INPUT_TYPES = new Set<FlowTemplateInputType>(["text", "image", "enum", "number"]);
+const MAX_INPUTS = 32;
+const MAX_BINDINGS_PER_INPUT = 16;
+
+// 生图/视频节点常见比例，用于保存模板时自动暴露「尺寸」输入
+export const FLOW_TEMPLATE_ASPECT_RATIO_OPTIONS = [
+  "1:1",
+  "2:3",
+  "3:2",
+  "3:4",
+  "4:3",
+  "4:5",
+  "5:4",
+  "9:16",
+  "16:9",
+  "21:9",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const toTrimmedString = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+const toFiniteNumber = (value: unknown): number | undefined => {
+  if (typeof value === "string" && !value.trim()) return undefined;
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const readField = (data: unknown, field: string): unknown => {
+  let current: unknown = data;
+  for (const part of field.split(".")) {
+    if (!isRecord(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+};
+
+const writeField = (
+  data: Record<string, unknown>,
+  field: string,
+  value: unknown
+): Record<string, unknown> => {
+  const [head, ...rest] = field.split(".");
+  if (!rest.length) return { ...data, [head]: value };
+  const child = isRecord(data[head]) ? (data[head] as Record<string, unknown>) : {};
+  return { ...data, [head]: writeField(child, rest.join("."), value) };
+};
+
+const normalizeOptions = (raw: unknown): FlowTemplateInputOption[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const options: FlowTemplateInputOption[] = [];
+  raw.forEach((item) => {
+    const value = isRecord(item) ? toTrimmedString(item.value) : toTrimmedString(item);
+    if (!value || seen.has(value)) return;
+    seen.add(value);
+    const label = isRecord(item) ? toTrimmedString(item.label) : "";
+    options.push(label ? { value, label } : { value });
+  });
+  return options;
+};
+
+// 校验并规范化输入声明：丢弃类型非法、无有效绑定（节点不存在）的输入，key 去重。
+export function normalizeFlowTemplateInputs(
+  raw: unknown,
+  nodes: Array<Pick<TemplateNode, "id">>
+): FlowTemplateInput[] {
+  if (!Array.isArray(raw)) return [];
+  const nodeIds = new Set(nodes.map((node) => String(node.id)));
+  const keys = new Set<string>();
+  const inputs: FlowTemplateInput[] = [];
+
+  for (const item of raw) {
+    if (inputs.length >= MAX_INPUTS) break;
+    if (!isRecord(item)) continue;
+    const key = toTrimmedString(item.key);
+    const type = item.type as FlowTemplateInputType;
+    if (!key || keys.has(key) || !INPUT_TYPES.has(type)) continue;
+
+    const bindings: FlowTemplateInputBinding[] = [];
+    if (Array.isArray(item.bindings)) {
+      item.bindings.forEach((binding) => {
+        if (!isRecord(binding) || bindings.length >= MAX_BINDINGS_PER_INPUT) return;
+        const nodeId = toTrimmedString(binding.nodeId);
+        const field = toTrimmedString(binding.field);
+        if (!nodeId || !field || !nodeIds.has(nodeId)) return;
+        if (field.split(".").some((part) => !part || part === "__proto__")) return;
+        bindings.push({ nodeId, field });
+      });
+    }
+    if (!bindings.length) continue;
+
+    const input: FlowTemplateInput = {
+      key,
+      label: toTrimmedString(item.label) || key,
+      type,
+      bindings,
+    };
+    const description = toTrimmedString(item.description);
+    if (description) input.description = description;
+    const placeholder = toTrimmedString(item.placeholder);
+    if (placeholder) input.placeholder = placeholder;
+    if (item.required === true) input.required = true;
+
+    if (type === "enum") {
+      const options = normalizeOptions(item.options);
+      if (!options.length) continue;
+      input.options = options;
+      const fallback = toTrimmedString(item.default);
+      if (options.some((option) => option.value === fallback)) input.default = fallback;
+    } else if (type === "number") {
+      const min = toFiniteNumber(item.min);
+      const max = toFiniteNumber(item.max);
+      const step = toFiniteNumber(item.step);
+      if (min !== undefined) input.min = min;
+      if (max !== undefined) input.max = max;
+      if (step !== undefined && step > 0) input.step = step;
+      const fallback = toFiniteNumber(item.default);
+      if (fallback !== undefined) input.default = fallback;
+    } else if (typeof item.default === "string") {
+      input.default = item.default;
+    }
+
+    keys.add(key);
+    inputs.push(input);
+  }
+  return inputs;
+}
+
+// 任意来源（IndexedDB、用户模板接口、公共模板 templateData、导入的 JSON）统一升级为 V2。
+export function migrateFlowTemplate(raw: unknown): FlowTemplate | null {
+  if (!isRecord(raw)) return null;
+  const nodes = Array.isArray(raw.nodes) ? (raw.nodes as TemplateNode[]) : [];
+  const edges = Array.isArray(raw.edges) ? (raw.edges as FlowTemplate["edges"]) : [];
+  return {
+    ...(raw as Omit<FlowTemplate, "schemaVersion" | "inputs">),
+    schemaVersion: 2,
+    nodes,
+    edges,
+    inputs: normalizeFlowTemplateInputs(raw.inputs, nodes),
+  };
+}
+
+const coerceInputValue = (
+  input: FlowTemplateInput,
+  value: unknown
+): FlowTemplateInputValue | undefined => {
+  if (input.type === "number") {
+    let parsed = toFiniteNumber(value);
+    if (parsed === undefined) return undefined;
+    if (typeof input.min === "number") parsed = Math.max(input.min, parsed);
+    if (typeof input.max === "number") parsed = Math.min(input.max, parsed);
+    return parsed;
+  }
+  if (typeof value !== "string") return undefined;
+  if (input.type === "enum") {
+    return input.options?.some((option) => option.value === value) ? value : undefined;
+  }
+  if (input.type === "image") {
+    const trimmed = value.trim();
+    return trimmed || undefined;
+  }
+  return value;
+};
+
+// 表单初始值：输入声明的 default，缺省取第一个绑定字段在模板中的当前值
+export function getFlowTemplateInputDefaults(tpl: FlowTemplate): FlowTemplateInputValues {
+  const nodeById = new Map(tpl.nodes.map((node) => [String(node.id), node] as const));
+  const values: FlowTemplateInputValues = {};
+  tpl.inputs.forEach((input) => {
+    const candidates: unknown[] = [input.default];
+    input.bindings.forEach((binding) => {
+      const data = nodeById.get(binding.nodeId)?.data;
+      candidates.push(readField(data, binding.field));
+      if (input.type === "image" && binding.field === "imageUrl") {
+        candidates.push(readField(data, "imageData"));
+      }
+    });
+    for (const candidate of candidates) {
+      const coerced = coerceInputValue(input, candidate);
+      if (coerced !== undefined) {
+        values[input.key] = coerced;
+        return;
+      }
+    }
+  });
+  return values;
+}
+
+// 必填但未填写的输入（用于表单校验）
+export function getMissingFlowTemplateInputs(
+  tpl: FlowTemplate,
+  values: FlowTemplateInputValues
+): FlowTemplateInput[] {
+  return tpl.inputs.filter((input) => {
+    if (!input.required) return false;
+    const value = coerceInputValue(input, values[input.key]);
+    return value === undefined || (typeof value === "string" && !value.trim());
+  });
+}
+
+// 把表单值写回绑定字段，返回新的模板（不修改入参）。非法值（枚举越界、非数字）忽略，保留模板原值。
+export function applyFlowTemplateInputs(
+  tpl: FlowTemplate,
+  values: FlowTemplateInputValues
+): FlowTemplate {
+  if (!tpl.inputs.length) return tpl;
+  const dataById = new Map<string, Record<string, unknown>>();
+  tpl.nodes.forEach((node) => {
+    dataById.set(String(node.id), isRecord(node.data) ? node.data : {});
+  });
+
+  tpl.inputs.forEach((input) => {
+    if (!Object.prototype.hasOwnProperty.call(values, input.key)) return;
+    const value = coerceInputValue(input, values[input.key]);
+    if (value === undefined) return;
+    input.bindings.forEach(({ nodeId, field }) => {
+      let data = dataById.get(nodeId);
+      if (!data) return;
+      // 图片节点以 imageUrl || imageData 取图：本地上传的 dataURL 写入 imageData，并清掉旧的 imageUrl
+      if (
+        input.type === "image" &&
+        field === "imageUrl" &&
+        typeof value === "string" &&
+        value.startsWith("data:")
+      ) {
+        data = writeField(data, "imageData", value);
+        data = writeField(data, "imageUrl", undefined);
+      } else {
+        data = writeField(data, field, value);
+      }
+      dataById.set(nodeId, data);
+    });
+  });
+
+  return {
+    ...tpl,
+    nodes: tpl.nodes.map((node) => {
+      const data = dataById.get(String(node.id));
+      return data && data !== node.data ? { ...node, data } : node;
+    }),
+  };
+}
+
+// 保存模板时推断的候选输入：提示词节点的文本、图片节点的图片、生成节点的比例。
+// 只作为保存对话框里的默认勾选，作者在那里决定暴露哪些、叫什么名字（selectFlowTemplateInputs）。
+export function inferFlowTemplateInputs(
+  nodes: Array<Pick<TemplateNode, "id" | "type" | "data">>
+): FlowTemplateInput[] {
+  const counters = new Map<string, number>();
+  const nextLabel = (base: string) => {
+    const count = (counters.get(base) ?? 0) + 1;
+    counters.set(base, count);
+    return count === 1 ? base : `${base} ${count}`;
+  };
+  const inputs: FlowTemplateInput[] = [];
+
+  nodes.forEach((node) => {
+    const id = String(node.id);
+    const data = isRecord(node.data) ? node.data : {};
+    if (node.type === "textPrompt" && typeof data.text === "string") {
+      inputs.push({
+        key: `${id}.text`,
+        label: nextLabel("提示词"),
+        type: "text",
+        bindings: [{ nodeId: id, field: "text" }],
+      });
+      return;
+    }
+    if (node.type === "image") {
+      inputs.push({
+        key: `${id}.image`,
+        label: nextLabel("参考图"),
+        type: "image",
+        bindings: [{ nodeId: id, field: "imageUrl" }],
+      });
+      return;
+    }
+    const ratio = toTrimmedString(data.aspectRatio);
+    if (ratio) {
+      const values = FLOW_TEMPLATE_ASPECT_RATIO_OPTIONS.includes(ratio)
+        ? FLOW_TEMPLATE_ASPECT_RATIO_OPTIONS
+        : [ratio, ...FLOW_TEMPLATE_ASPECT_RATIO_OPTIONS];
+      inputs.push({
+        key: `${id}.aspectRatio`,
+        label: nextLabel("尺寸"),
+        type: "enum",
+        default: ratio,
+        options: values.map((value) => ({ value })),
+        bindings: [{ nodeId: id, field: "aspectRatio" }],
+      });
+    }
+  });
+
+  return inputs.slice(0, MAX_INPUTS);
+}
+
+export type FlowTemplateInputPick = {
+  key: string;
+  enabled: boolean;
+  label: string;
+};
+
+// 按作者在保存对话框里的勾选与改名收窄候选输入；没有对应 pick 的候选视为未勾选，空名称沿用推断的名称。
+export function selectFlowTemplateInputs(
+  candidates: FlowTemplateInput[],
+  picks: FlowTemplateInputPick[]
+): FlowTemplateInput[] {
+  const pickByKey = new Map(picks.map((pick) => [pick.key, pick] as const));
+  return candidates.flatMap((input) => {
+    const pick = pickByKey.get(input.key);
+    if (!pick?.enabled) return [];
+    return [{ ...input, label: pick.label.trim() || input.label }];
+  });
+}
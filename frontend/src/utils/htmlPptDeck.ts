@@ -64,7 +64,7 @@ const createCoverSlide = (): Pick<HtmlPptSlide, "title" | "html" | "css"> => ({
   html: `<div class="hero">
   <div class="eyebrow">HTML PPT</div>
   <h1>Design the story directly in code</h1>
-  <p>Use Ultra to reshape this page, then export the deck as a single HTML file.</p>
+  <p>Use Ultra to reshape this page, then export the deck as HTML, PPTX, or PDF.</p>
 </div>`,
   css: `.hero {
   height: 100%;
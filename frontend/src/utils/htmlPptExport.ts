@@ -0,0 +1,231 @@
+import type { HtmlPptDeck } from "./htmlPptDeck";
+import {
+  buildHtmlPptPptx,
+  type HtmlPptPptxImageType,
+  type HtmlPptPptxItem,
+  type HtmlPptPptxSlide,
+} from "./htmlPptPptx";
+import { printHtmlDocument } from "./printFrame";
+
+/**
+ * HTML PPT 的 PPTX 导出与打印（浏览器侧）。
+ * PPTX：每页在离屏 iframe 里按设计稿尺寸渲染，量出文本块与图片的位置，交给 buildHtmlPptPptx 打包；
+ * 打印：把整套页面按 deck 比例分页交给 printHtmlDocument，用户可在打印对话框里另存为 PDF，文字保持矢量。
+ * 两者都要求调用方先过 htmlPptSafety 校验，这里渲染时也不开放脚本。
+ */
+
+type DesignSize = { width: number; height: number };
+
+const RENDER_TIMEOUT_MS = 8000;
+const IMAGE_FETCH_TIMEOUT_MS = 15000;
+const GENERIC_FONT_FAMILIES = new Set([
+  "serif",
+  "sans-serif",
+  "monospace",
+  "cursive",
+  "fantasy",
+  "system-ui",
+  "ui-sans-serif",
+  "ui-serif",
+  "ui-monospace",
+  "-apple-system",
+  "blinkmacsystemfont",
+]);
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "TEMPLATE", "VIDEO", "AUDIO", "CANVAS", "SVG", "IFRAME"]);
+
+const wait = (ms: number) => new Promise<void>((resolve) => window.setTimeout(resolve, ms));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T | undefined> =>
+  Promise.race([promise, wait(ms).then(() => undefined)]);
+
+const mountOffscreenFrame = (srcDoc: string, design: DesignSize, sandbox: string) =>
+  new Promise<HTMLIFrameElement>((resolve, reject) => {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("sandbox", sandbox);
+    frame.setAttribute("aria-hidden", "true");
+    frame.style.cssText = `position:fixed;left:-20000px;top:0;width:${design.width}px;height:${design.height}px;border:0;visibility:hidden;pointer-events:none;`;
+    const timer = window.setTimeout(() => {
+      frame.remove();
+      reject(new Error("HTML PPT slide render timed out."));
+    }, RENDER_TIMEOUT_MS);
+    frame.onload = () => {
+      window.clearTimeout(timer);
+      resolve(frame);
+    };
+    frame.srcdoc = srcDoc;
+    document.body.appendChild(frame);
+  });
+
+const waitForFrameAssets = async (doc: Document) => {
+  const images = Array.from(doc.images).map((img) =>
+    img.complete ? Promise.resolve() : img.decode().catch(() => undefined)
+  );
+  await withTimeout(Promise.all([...images, doc.fonts?.ready.then(() => undefined)]), RENDER_TIMEOUT_MS);
+};
+
+const firstFontFamily = (value: string): string | undefined => {
+  const family = value
+    .split(",")
+    .map((part) => part.trim().replace(/^["']|["']$/g, ""))
+    .find((part) => part && !GENERIC_FONT_FAMILIES.has(part.toLowerCase()));
+  return family || undefined;
+};
+
+const cssUrl = (value: string): string | null => {
+  const match = value.match(/url\(\s*["']?([^"')]+)["']?\s*\)/i);
+  return match && /^https?:\/\//i.test(match[1]) ? match[1] : null;
+};
+
+const firstCssColor = (value: string): string | undefined =>
+  value.match(/rgba?\([^)]+\)|#[0-9a-f]{3,6}\b/i)?.[0];
+
+const toTextAlign = (value: string): "left" | "center" | "right" | "justify" => {
+  if (value === "center" || value === "right" || value === "justify") return value;
+  if (value === "end") return "right";
+  return "left";
+};
+
+const hasOwnText = (el: Element) =>
+  Array.from(el.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim());
+
+/** 在已渲染的 slide 文档里量出文本块与图片（相对 .slide-root 的设计稿像素坐标）。 */
+const collectSlideLayout = (doc: Document, design: DesignSize) => {
+  const win = doc.defaultView;
+  const root = doc.querySelector(".slide-root");
+  if (!win || !root) return { background: undefined, items: [] as HtmlPptPptxItem[] };
+  const origin = root.getBoundingClientRect();
+  const items: HtmlPptPptxItem[] = [];
+
+  const boxOf = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const x = Math.max(0, rect.left - origin.left);
+    const y = Math.max(0, rect.top - origin.top);
+    const w = Math.min(design.width, rect.right - origin.left) - x;
+    const h = Math.min(design.height, rect.bottom - origin.top) - y;
+    return w > 1 && h > 1 ? { x, y, w, h } : null;
+  };
+
+  const walk = (el: Element, isRoot: boolean) => {
+    if (SKIPPED_TAGS.has(el.tagName.toUpperCase())) return;
+    const style = win.getComputedStyle(el);
+    if (style.display === "none" || style.visibility === "hidden" || Number(style.opacity) === 0) return;
+    const box = boxOf(el);
+
+    if (el.tagName === "IMG") {
+      const src = (el as HTMLImageElement).currentSrc || (el as HTMLImageElement).src;
+      if (box && /^https?:\/\//i.test(src)) items.push({ kind: "image", url: src, ...box });
+      return;
+    }
+
+    const backgroundUrl = cssUrl(style.backgroundImage);
+    if (box && backgroundUrl) items.push({ kind: "image", url: backgroundUrl, ...box });
+
+    if (!isRoot && hasOwnText(el)) {
+      // 自带文字的元素整体作为一个文本框，行内子元素（strong/span）并入
+      const text = (el as HTMLElement).innerText.trim();
+      if (box && text) {
+        items.push({
+          kind: "text",
+          text,
+          ...box,
+          fontSizePx: parseFloat(style.fontSize) || 16,
+          color: style.color,
+          bold: (parseInt(style.fontWeight, 10) || 400) >= 600,
+          italic: style.fontStyle === "italic",
+          align: toTextAlign(style.textAlign),
+          fontFamily: firstFontFamily(style.fontFamily),
+        });
+      }
+      return;
+    }
+    Array.from(el.children).forEach((child) => walk(child, false));
+  };
+
+  walk(root, true);
+  const rootStyle = win.getComputedStyle(root);
+  const background =
+    rootStyle.backgroundColor && !/rgba\([^)]*,\s*0\)$/.test(rootStyle.backgroundColor)
+      ? rootStyle.backgroundColor
+      : firstCssColor(rootStyle.backgroundImage);
+  return { background, items };
+};
+
+const sniffImageType = (bytes: Uint8Array): HtmlPptPptxImageType | undefined => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return "image/gif";
+  return undefined;
+};
+
+const fetchImageBytes = async (url: string) => {
+  const controller = new AbortController();
+  const timer = window.setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+  try {
+    const resp = await fetch(url, { mode: "cors", credentials: "omit", signal: controller.signal });
+    if (!resp.ok) return null;
+    const data = new Uint8Array(await resp.arrayBuffer());
+    const contentType = sniffImageType(data);
+    return contentType ? { data, contentType } : null;
+  } catch {
+    return null;
+  } finally {
+    window.clearTimeout(timer);
+  }
+};
+
+export async function exportHtmlPptDeckToPptx(options: {
+  deck: HtmlPptDeck;
+  title: string;
+  design: DesignSize;
+  buildSlideSrcDoc: (slideIndex: number) => string;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<Blob> {
+  const { deck, design } = options;
+  const slides: HtmlPptPptxSlide[] = [];
+  const imageCache = new Map<string, Promise<Awaited<ReturnType<typeof fetchImageBytes>>>>();
+
+  for (let index = 0; index < deck.slides.length; index += 1) {
+    const slide = deck.slides[index];
+    // 只给 allow-same-origin 以便读取版面，不给 allow-scripts
+    const frame = await mountOffscreenFrame(options.buildSlideSrcDoc(index), design, "allow-same-origin");
+    try {
+      const doc = frame.contentDocument;
+      if (!doc) throw new Error("HTML PPT slide render failed.");
+      await waitForFrameAssets(doc);
+      const layout = collectSlideLayout(doc, design);
+      const items = await Promise.all(
+        layout.items.map(async (item) => {
+          if (item.kind !== "image") return item;
+          if (!imageCache.has(item.url)) imageCache.set(item.url, fetchImageBytes(item.url));
+          const fetched = await imageCache.get(item.url);
+          return fetched ? { ...item, ...fetched } : item;
+        })
+      );
+      slides.push({ title: slide.title, background: layout.background, items, notes: slide.notes });
+    } finally {
+      frame.remove();
+    }
+    options.onProgress?.(index + 1, deck.slides.length);
+  }
+
+  const bytes = buildHtmlPptPptx({
+    title: options.title,
+    aspectRatio: deck.aspectRatio,
+    designWidth: design.width,
+    designHeight: design.height,
+    slides,
+  });
+  return new Blob([bytes], {
+    type: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  });
+}
+
+/** 打印分页好的整套页面（@page 尺寸即 deck 比例），等图片与字体就绪后再调起打印。 */
+export function printHtmlPptDeck(printHtml: string, design: DesignSize): Promise<void> {
+  return printHtmlDocument(printHtml, {
+    width: design.width,
+    height: design.height,
+    timeoutMs: RENDER_TIMEOUT_MS,
+    beforePrint: waitForFrameAssets,
+  });
+}
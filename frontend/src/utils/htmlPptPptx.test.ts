@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { strFromU8, unzipSync } from "fflate";
+import { buildHtmlPptPptx, toPptxColor, type HtmlPptPptxDeck } from "./htmlPptPptx.ts";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const deck: HtmlPptPptxDeck = {
+  title: "Launch <Q3>",
+  aspectRatio: "16:9",
+  designWidth: 1920,
+  designHeight: 1080,
+  slides: [
+    {
+      title: "Cover",
+      background: "rgb(248, 250, 252)",
+      notes: "Open with the story.\nThen the numbers & the ask.",
+      items: [
+        {
+          kind: "text",
+          x: 64,
+          y: 400,
+          w: 1200,
+          h: 120,
+          text: "Design the story\ndirectly in code",
+          fontSizePx: 58,
+          color: "#111827",
+          bold: true,
+          align: "left",
+        },
+        {
+          kind: "image",
+          x: 1280,
+          y: 200,
+          w: 480,
+          h: 270,
+          url: "https://oss.example.com/a.png",
+          data: PNG_BYTES,
+          contentType: "image/png",
+        },
+      ],
+    },
+    {
+      title: "Linked",
+      items: [
+        { kind: "image", x: 0, y: 0, w: 960, h: 540, url: "https://cdn.example.com/b.webp" },
+        { kind: "image", x: 0, y: 0, w: 10, h: 10, url: "/relative.png" },
+      ],
+    },
+  ],
+};
+
+const unpack = () => {
+  const files = unzipSync(buildHtmlPptPptx(deck));
+  const text = (name: string) => {
+    assert.ok(files[name], `missing ${name}`);
+    return strFromU8(files[name]);
+  };
+  return { files, text };
+};
+
+test("toPptxColor normalizes hex and rgb, drops transparent", () => {
+  assert.equal(toPptxColor("#abc"), "AABBCC");
+  assert.equal(toPptxColor("rgb(15, 118, 110)"), "0F766E");
+  assert.equal(toPptxColor("rgba(255, 255, 255, 0.8)"), "FFFFFF");
+  assert.equal(toPptxColor("rgba(0, 0, 0, 0)"), null);
+  assert.equal(toPptxColor("linear-gradient(red, blue)"), null);
+});
+
+test("buildHtmlPptPptx writes one slide part per deck slide at the deck aspect ratio", () => {
+  const { files, text } = unpack();
+  assert.equal(Object.keys(files)[0], "[Content_Types].xml");
+  const presentation = text("ppt/presentation.xml");
+  assert.match(presentation, /<p:sldSz cx="12192000" cy="6858000"\/>/);
+  assert.equal(presentation.match(/<p:sldId /g)?.length, 2);
+  assert.match(text("docProps/core.xml"), /Launch &lt;Q3&gt;/);
+  const types = text("[Content_Types].xml");
+  assert.match(types, /PartName="\/ppt\/slides\/slide2.xml"/);
+  assert.match(types, /Extension="png" ContentType="image\/png"/);
+});
+
+test("text boxes keep design-pixel position and map px font size to points", () => {
+  const slide = unpack().text("ppt/slides/slide1.xml");
+  // 1920px -> 12192000 EMU：1px = 6350 EMU，字号 58px = 29pt
+  assert.match(slide, /<a:off x="406400" y="2540000"\/><a:ext cx="7620000" cy="762000"\/>/);
+  assert.match(slide, /sz="2900" b="1"/);
+  assert.match(slide, /<a:t>Design the story<\/a:t>.*<a:t>directly in code<\/a:t>/);
+  assert.match(slide, /<p:bg><p:bgPr><a:solidFill><a:srgbClr val="F8FAFC"\/>/);
+});
+
+test("images embed when bytes are available and fall back to external links", () => {
+  const { files, text } = unpack();
+  assert.deepEqual(files["ppt/media/image1.png"], PNG_BYTES);
+  assert.match(text("ppt/slides/_rels/slide1.xml.rels"), /Target="..\/media\/image1.png"/);
+  assert.match(text("ppt/slides/slide1.xml"), /r:embed="rId2"/);
+  const linkedRels = text("ppt/slides/_rels/slide2.xml.rels");
+  assert.match(linkedRels, /Target="https:\/\/cdn.example.com\/b.webp" TargetMode="External"/);
+  assert.ok(!linkedRels.includes("relative.png"));
+  assert.match(text("ppt/slides/slide2.xml"), /r:link="rId2"/);
+});
+
+test("speaker notes become notes slides", () => {
+  const { files, text } = unpack();
+  const notes = text("ppt/notesSlides/notesSlide1.xml");
+  assert.match(notes, /<a:t>Open with the story.<\/a:t>/);
+  assert.match(notes, /<a:t>Then the numbers &amp; the ask.<\/a:t>/);
+  assert.match(text("ppt/slides/_rels/slide1.xml.rels"), /notesSlide1.xml/);
+  assert.equal(files["ppt/notesSlides/notesSlide2.xml"], undefined);
+});
+
+test("buildHtmlPptPptx rejects an empty deck", () => {
+  assert.throws(() => buildHtmlPptPptx({ ...deck, slides: [] }), /no slides/);
+});
@@ -0,0 +1,322 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+
+/**
+ * HTML PPT -> PPTX：把离屏渲染量出来的版面（文本框 / 图片，设计稿像素坐标）
+ * 写成最小可编辑的 OOXML 演示文稿。每页 = 一张空白版式幻灯片 + 绝对定位的形状 + 备注页。
+ * 这里只做纯数据到 zip 的映射，量版面与取图片字节由 htmlPptExport 在浏览器里完成。
+ */
+
+export type HtmlPptPptxTextBox = {
+  kind: "text";
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  text: string;
+  fontSizePx: number;
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  align?: "left" | "center" | "right" | "justify";
+  fontFamily?: string;
+};
+
+export type HtmlPptPptxImage = {
+  kind: "image";
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  url: string;
+  /** 取到字节就内嵌；取不到（跨域等）退化为外链图片 */
+  data?: Uint8Array;
+  contentType?: HtmlPptPptxImageType;
+};
+
+export type HtmlPptPptxItem = HtmlPptPptxTextBox | HtmlPptPptxImage;
+
+export type HtmlPptPptxSlide = {
+  title: string;
+  background?: string;
+  items: HtmlPptPptxItem[];
+  notes?: string;
+};
+
+export type HtmlPptPptxDeck = {
+  title: string;
+  aspectRatio: "16:9" | "4:3";
+  designWidth: number;
+  designHeight: number;
+  slides: HtmlPptPptxSlide[];
+};
+
+export type HtmlPptPptxImageType = "image/png" | "image/jpeg" | "image/gif";
+
+const IMAGE_EXTENSIONS: Record<HtmlPptPptxImageType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpeg",
+  "image/gif": "gif",
+};
+
+// 16:9 = 13.333in x 7.5in，4:3 = 10in x 7.5in（1in = 914400 EMU）
+const SLIDE_SIZE_EMU = {
+  "16:9": { cx: 12192000, cy: 6858000 },
+  "4:3": { cx: 9144000, cy: 6858000 },
+} as const;
+
+const EMU_PER_POINT = 12700;
+
+const NS_A = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const NS_R = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_P = "http://schemas.openxmlformats.org/presentationml/2006/main";
+const NS_REL = "http://schemas.openxmlformats.org/package/2006/relationships";
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const escapeXml = (value: string): string =>
+  value
+    // XML 1.0 不允许的控制字符直接丢弃，否则 PowerPoint 拒绝打开
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** 只接受 #rgb / #rrggbb / rgb()，其余（含全透明）返回 null */
+export const toPptxColor = (value: string | undefined): string | null => {
+  const source = String(value || "").trim();
+  const hex = source.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    return digits.toUpperCase();
+  }
+  const rgb = source.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i);
+  if (!rgb) return null;
+  if (rgb[4] !== undefined) {
+    const alpha = rgb[4].endsWith("%") ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    if (!(alpha > 0)) return null;
+  }
+  return rgb
+    .slice(1, 4)
+    .map((channel) => Math.max(0, Math.min(255, Math.round(Number(channel)))).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+};
+
+const relationshipsXml = (rels: Array<{ id: string; type: string; target: string; external?: boolean }>) =>
+  `${XML_HEAD}<Relationships xmlns="${NS_REL}">${rels
+    .map(
+      (rel) =>
+        `<Relationship Id="${rel.id}" Type="${REL}/${rel.type}" Target="${escapeXml(rel.target)}"${
+          rel.external ? ' TargetMode="External"' : ""
+        }/>`
+    )
+    .join("")}</Relationships>`;
+
+const THEME_XML = `${XML_HEAD}<a:theme xmlns:a="${NS_A}" name="Tanva"><a:themeElements><a:clrScheme name="Tanva"><a:dk1><a:srgbClr val="111827"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F8FAFC"/></a:lt2><a:accent1><a:srgbClr val="2563EB"/></a:accent1><a:accent2><a:srgbClr val="0F766E"/></a:accent2><a:accent3><a:srgbClr val="F59E0B"/></a:accent3><a:accent4><a:srgbClr val="DC2626"/></a:accent4><a:accent5><a:srgbClr val="7C3AED"/></a:accent5><a:accent6><a:srgbClr val="059669"/></a:accent6><a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink></a:clrScheme><a:fontScheme name="Tanva"><a:majorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont><a:minorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme><a:fmtScheme name="Tanva"><a:fillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:fillStyleLst><a:lnStyleLst><a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="12700"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="19050"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln></a:lnStyleLst><a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst><a:bgFillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:bgFillStyleLst></a:fmtScheme></a:themeElements></a:theme>`;
+
+const EMPTY_SP_TREE = `<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr></p:spTree>`;
+
+const CLR_MAP =
+  'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"';
+
+const SLIDE_MASTER_XML = `${XML_HEAD}<p:sldMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${EMPTY_SP_TREE}</p:cSld><p:clrMap ${CLR_MAP}/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>`;
+
+const SLIDE_LAYOUT_XML = `${XML_HEAD}<p:sldLayout xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" type="blank" preserve="1"><p:cSld name="Blank">${EMPTY_SP_TREE}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+const NOTES_MASTER_XML = `${XML_HEAD}<p:notesMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld>${EMPTY_SP_TREE}</p:cSld><p:clrMap ${CLR_MAP}/></p:notesMaster>`;
+
+const paragraphXml = (box: HtmlPptPptxTextBox, line: string, pxToHundredthPt: number) => {
+  const algn = { left: "l", center: "ctr", right: "r", justify: "just" }[box.align || "left"];
+  const size = Math.max(100, Math.min(400000, Math.round(box.fontSizePx * pxToHundredthPt)));
+  const color = toPptxColor(box.color);
+  const attrs = [`lang="zh-CN"`, `sz="${size}"`, box.bold ? 'b="1"' : "", box.italic ? 'i="1"' : ""]
+    .filter(Boolean)
+    .join(" ");
+  const fill = color ? `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>` : "";
+  const font = box.fontFamily
+    ? `<a:latin typeface="${escapeXml(box.fontFamily)}"/><a:ea typeface="${escapeXml(box.fontFamily)}"/>`
+    : "";
+  const run = line
+    ? `<a:r><a:rPr ${attrs} dirty="0">${fill}${font}</a:rPr><a:t>${escapeXml(line)}</a:t></a:r>`
+    : "";
+  return `<a:p><a:pPr algn="${algn}"/>${run}<a:endParaRPr ${attrs}/></a:p>`;
+};
+
+const xfrmXml = (item: HtmlPptPptxItem, pxToEmu: number) =>
+  `<a:xfrm><a:off x="${Math.round(item.x * pxToEmu)}" y="${Math.round(item.y * pxToEmu)}"/><a:ext cx="${Math.max(
+    1,
+    Math.round(item.w * pxToEmu)
+  )}" cy="${Math.max(1, Math.round(item.h * pxToEmu))}"/></a:xfrm>`;
+
+const textShapeXml = (box: HtmlPptPptxTextBox, shapeId: number, pxToEmu: number, pxToHundredthPt: number) =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${shapeId}" name="Text ${shapeId}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr><p:spPr>${xfrmXml(
+    box,
+    pxToEmu
+  )}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr><p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" rtlCol="0"><a:noAutofit/></a:bodyPr><a:lstStyle/>${box.text
+    .split(/\r?\n/)
+    .map((line) => paragraphXml(box, line, pxToHundredthPt))
+    .join("")}</p:txBody></p:sp>`;
+
+const pictureXml = (image: HtmlPptPptxImage, shapeId: number, relId: string, embedded: boolean, pxToEmu: number) =>
+  `<p:pic><p:nvPicPr><p:cNvPr id="${shapeId}" name="Picture ${shapeId}" descr="${escapeXml(
+    image.url
+  )}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip ${
+    embedded ? "r:embed" : "r:link"
+  }="${relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr>${xfrmXml(
+    image,
+    pxToEmu
+  )}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+
+const notesSlideXml = (notes: string) =>
+  `${XML_HEAD}<p:notes xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/><p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/>${notes
+    .split(/\r?\n/)
+    .map((line) => (line ? `<a:p><a:r><a:rPr lang="zh-CN" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>` : "<a:p/>"))
+    .join("")}</p:txBody></p:sp></p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`;
+
+export function buildHtmlPptPptx(deck: HtmlPptPptxDeck): Uint8Array {
+  if (!deck.slides.length) {
+    throw new Error("HTML PPT deck has no slides to export.");
+  }
+  const size = SLIDE_SIZE_EMU[deck.aspectRatio] ?? SLIDE_SIZE_EMU["16:9"];
+  const pxToEmu = size.cx / Math.max(1, deck.designWidth);
+  const pxToHundredthPt = (pxToEmu / EMU_PER_POINT) * 100;
+
+  // [Content_Types].xml 放在 zip 首位（部分阅读器按顺序探测），内容最后再填
+  const files: Zippable = { "[Content_Types].xml": new Uint8Array() };
+  const contentOverrides: string[] = [];
+  const mediaDefaults = new Set<string>();
+  const override = (part: string, type: string) =>
+    contentOverrides.push(
+      `<Override PartName="/${part}" ContentType="application/vnd.openxmlformats-${type}+xml"/>`
+    );
+  let mediaIndex = 0;
+
+  deck.slides.forEach((slide, index) => {
+    const slideNo = index + 1;
+    const rels: Array<{ id: string; type: string; target: string; external?: boolean }> = [
+      { id: "rId1", type: "slideLayout", target: "../slideLayouts/slideLayout1.xml" },
+    ];
+    let shapeId = 1;
+    const shapes = slide.items
+      .map((item) => {
+        shapeId += 1;
+        if (item.kind === "text") {
+          return item.text.trim() ? textShapeXml(item, shapeId, pxToEmu, pxToHundredthPt) : "";
+        }
+        const relId = `rId${rels.length + 1}`;
+        const ext = item.data && item.contentType ? IMAGE_EXTENSIONS[item.contentType] : undefined;
+        if (item.data && ext) {
+          mediaIndex += 1;
+          const name = `image${mediaIndex}.${ext}`;
+          files[`ppt/media/${name}`] = [item.data, { level: 0 }];
+          mediaDefaults.add(ext);
+          rels.push({ id: relId, type: "image", target: `../media/${name}` });
+          return pictureXml(item, shapeId, relId, true, pxToEmu);
+        }
+        if (!/^https?:\/\//i.test(item.url)) return "";
+        rels.push({ id: relId, type: "image", target: item.url, external: true });
+        return pictureXml(item, shapeId, relId, false, pxToEmu);
+      })
+      .join("");
+
+    const notes = (slide.notes || "").trim();
+    if (notes) {
+      rels.push({ id: `rId${rels.length + 1}`, type: "notesSlide", target: `../notesSlides/notesSlide${slideNo}.xml` });
+      files[`ppt/notesSlides/notesSlide${slideNo}.xml`] = strToU8(notesSlideXml(notes));
+      files[`ppt/notesSlides/_rels/notesSlide${slideNo}.xml.rels`] = strToU8(
+        relationshipsXml([
+          { id: "rId1", type: "notesMaster", target: "../notesMasters/notesMaster1.xml" },
+          { id: "rId2", type: "slide", target: `../slides/slide${slideNo}.xml` },
+        ])
+      );
+      override(`ppt/notesSlides/notesSlide${slideNo}.xml`, "officedocument.presentationml.notesSlide");
+    }
+
+    const background = toPptxColor(slide.background);
+    const bg = background
+      ? `<p:bg><p:bgPr><a:solidFill><a:srgbClr val="${background}"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>`
+      : "";
+    files[`ppt/slides/slide${slideNo}.xml`] = strToU8(
+      `${XML_HEAD}<p:sld xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld name="${escapeXml(
+        slide.title || `Slide ${slideNo}`
+      )}">${bg}${EMPTY_SP_TREE.replace("</p:spTree>", `${shapes}</p:spTree>`)}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+    );
+    files[`ppt/slides/_rels/slide${slideNo}.xml.rels`] = strToU8(relationshipsXml(rels));
+    override(`ppt/slides/slide${slideNo}.xml`, "officedocument.presentationml.slide");
+  });
+
+  const slideCount = deck.slides.length;
+  files["ppt/presentation.xml"] = strToU8(
+    `${XML_HEAD}<p:presentation xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" saveSubsetFonts="1"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst><p:sldIdLst>${deck.slides
+      .map((_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 4}"/>`)
+      .join("")}</p:sldIdLst><p:sldSz cx="${size.cx}" cy="${size.cy}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`
+  );
+  files["ppt/_rels/presentation.xml.rels"] = strToU8(
+    relationshipsXml([
+      { id: "rId1", type: "slideMaster", target: "slideMasters/slideMaster1.xml" },
+      { id: "rId2", type: "notesMaster", target: "notesMasters/notesMaster1.xml" },
+      { id: "rId3", type: "theme", target: "theme/theme1.xml" },
+      ...deck.slides.map((_, index) => ({
+        id: `rId${index + 4}`,
+        type: "slide",
+        target: `slides/slide${index + 1}.xml`,
+      })),
+    ])
+  );
+  files["ppt/slideMasters/slideMaster1.xml"] = strToU8(SLIDE_MASTER_XML);
+  files["ppt/slideMasters/_rels/slideMaster1.xml.rels"] = strToU8(
+    relationshipsXml([
+      { id: "rId1", type: "slideLayout", target: "../slideLayouts/slideLayout1.xml" },
+      { id: "rId2", type: "theme", target: "../theme/theme1.xml" },
+    ])
+  );
+  files["ppt/slideLayouts/slideLayout1.xml"] = strToU8(SLIDE_LAYOUT_XML);
+  files["ppt/slideLayouts/_rels/slideLayout1.xml.rels"] = strToU8(
+    relationshipsXml([{ id: "rId1", type: "slideMaster", target: "../slideMasters/slideMaster1.xml" }])
+  );
+  files["ppt/notesMasters/notesMaster1.xml"] = strToU8(NOTES_MASTER_XML);
+  files["ppt/notesMasters/_rels/notesMaster1.xml.rels"] = strToU8(
+    relationshipsXml([{ id: "rId1", type: "theme", target: "../theme/theme2.xml" }])
+  );
+  files["ppt/theme/theme1.xml"] = strToU8(THEME_XML);
+  files["ppt/theme/theme2.xml"] = strToU8(THEME_XML);
+  files["docProps/core.xml"] = strToU8(
+    `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeXml(
+      deck.title || "HTML PPT"
+    )}</dc:title><dc:creator>Tanva</dc:creator></cp:coreProperties>`
+  );
+  files["docProps/app.xml"] = strToU8(
+    `${XML_HEAD}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Tanva</Application><Slides>${slideCount}</Slides></Properties>`
+  );
+  files["_rels/.rels"] = strToU8(
+    relationshipsXml([
+      { id: "rId1", type: "officeDocument", target: "ppt/presentation.xml" },
+      { id: "rId2", type: "extended-properties", target: "docProps/app.xml" },
+    ]).replace(
+      "</Relationships>",
+      `<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`
+    )
+  );
+
+  override("ppt/presentation.xml", "officedocument.presentationml.presentation.main");
+  override("ppt/slideMasters/slideMaster1.xml", "officedocument.presentationml.slideMaster");
+  override("ppt/slideLayouts/slideLayout1.xml", "officedocument.presentationml.slideLayout");
+  override("ppt/notesMasters/notesMaster1.xml", "officedocument.presentationml.notesMaster");
+  override("ppt/theme/theme1.xml", "officedocument.theme");
+  override("ppt/theme/theme2.xml", "officedocument.theme");
+  override("docProps/app.xml", "officedocument.extended-properties");
+  contentOverrides.push(
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+  );
+  files["[Content_Types].xml"] = strToU8(
+    `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${[
+      ...mediaDefaults,
+    ]
+      .map((ext) => `<Default Extension="${ext}" ContentType="image/${ext}"/>`)
+      .join("")}${contentOverrides.join("")}</Types>`
+  );
+
+  return zipSync(files);
+}
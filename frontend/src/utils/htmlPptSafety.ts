@@ -43,6 +43,17 @@ export function assertSafeHtmlPptCode(value: string, label = "HTML PPT code") {
   }
 }
 
+export function assertSafeHtmlPptDeck(deck: {
+  themeCss?: string;
+  slides: Array<{ html?: string; css?: string }>;
+}) {
+  assertSafeHtmlPptCode(deck.themeCss || "", "Deck theme CSS");
+  deck.slides.forEach((slide, index) => {
+    assertSafeHtmlPptCode(slide.html || "", `Slide ${index + 1} HTML`);
+    assertSafeHtmlPptCode(slide.css || "", `Slide ${index + 1} CSS`);
+  });
+}
+
 export function containsNonPersistableHtmlPptAsset(value: unknown): boolean {
   if (typeof value === "string") {
     return INLINE_IMAGE_PATTERNS.some((pattern) => pattern.test(value));
@@ -0,0 +1,294 @@
+import paper from 'paper';
+import { isPath, isPointText } from '@/utils/paperCoords';
+import { IMAGE_GROUP_BLOCK_TYPE } from '@/utils/paperImageGroupBlock';
+import { isInsideFrame, nextFrameName, type FrameInfo } from '@/utils/canvasFrames';
+import type { ExportBounds } from '@/utils/canvasVectorExport';
+
+export const FRAME_BLOCK_TYPE = 'frame';
+export const FRAME_TITLE_TYPE = 'frame-title';
+
+export interface CreateFrameBlockOptions {
+  name?: string;
+  presetId?: string;
+  layer?: paper.Layer | null;
+}
+
+/** 画板内的元素（中心点落在画板内的图片 / 路径 / 文本），拖动画板时随之移动。 */
+export interface FrameMembers {
+  imageIds: string[];
+  items: paper.Item[];
+}
+
+const FRAME_FILL = '#ffffff';
+const FRAME_STROKE = '#d1d5db';
+const FRAME_STROKE_WIDTH = 1;
+const TITLE_FONT_SIZE = 20;
+const TITLE_COLOR = '#6b7280';
+const TITLE_OFFSET = 8;
+
+export const isFrameBlock = (item: paper.Item | null | undefined): boolean =>
+  !!item && isPath(item) && item.data?.type === FRAME_BLOCK_TYPE;
+
+export const isFrameTitle = (item: paper.Item | null | undefined): boolean =>
+  !!item && item.data?.type === FRAME_TITLE_TYPE;
+
+export const getFrameBlocks = (): paper.Path[] => {
+  if (!paper.project) return [];
+  try {
+    const items = paper.project.getItems({
+      match: (item: paper.Item) => item?.data?.type === FRAME_BLOCK_TYPE,
+    }) as paper.Item[];
+    return items.filter((item): item is paper.Path => isPath(item));
+  } catch {
+    return [];
+  }
+};
+
+export const findFrameBlock = (frameId: string): paper.Path | null => {
+  if (!frameId) return null;
+  return getFrameBlocks().find((block) => block.data?.frameId === frameId) ?? null;
+};
+
+export const getFrameName = (block: paper.Path): string => {
+  const name = block.data?.name;
+  return typeof name === 'string' && name.trim() ? name.trim() : '画板';
+};
+
+export const toFrameInfo = (block: paper.Path): FrameInfo => {
+  const rect = block.bounds;
+  return {
+    id: String(block.data?.frameId || block.id),
+    name: getFrameName(block),
+    bounds: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+  };
+};
+
+/** 当前可见图层里的画板（隐藏的画板不作为导出 / 截图单位）。 */
+export const getVisibleFrameInfos = (): FrameInfo[] =>
+  getFrameBlocks()
+    .filter((block) => block.visible && block.layer?.visible !== false)
+    .map(toFrameInfo);
+
+const findFrameTitles = (frameId: string): paper.PointText[] => {
+  if (!paper.project || !frameId) return [];
+  try {
+    const matches = paper.project.getItems({
+      match: (item: paper.Item) => item?.data?.type === FRAME_TITLE_TYPE && item?.data?.frameId === frameId,
+    }) as paper.Item[];
+    return matches.filter((item): item is paper.PointText => isPointText(item));
+  } catch {
+    return [];
+  }
+};
+
+export const findFrameTitle = (frameId: string): paper.PointText | null => findFrameTitles(frameId)[0] ?? null;
+
+// 创建或更新画板标题（画板左上角外侧），并保证标题紧跟在画板之后
+export const createOrUpdateFrameTitle = (block: paper.Path): paper.PointText | null => {
+  if (!isFrameBlock(block)) return null;
+  const frameId = block.data?.frameId;
+  if (!frameId) return null;
+
+  const [existing, ...duplicates] = findFrameTitles(frameId);
+  duplicates.forEach((title) => {
+    try { title.remove(); } catch {}
+  });
+
+  const point = new paper.Point(block.bounds.left, block.bounds.top - TITLE_OFFSET);
+  const title =
+    existing ??
+    new paper.PointText({
+      point,
+      content: getFrameName(block),
+      fontSize: TITLE_FONT_SIZE,
+      fontFamily: 'system-ui, -apple-system, sans-serif',
+      fillColor: new paper.Color(TITLE_COLOR),
+      insert: false,
+    });
+
+  try {
+    title.data = { ...(title.data || {}), type: FRAME_TITLE_TYPE, frameId, isHelper: false };
+    title.content = getFrameName(block);
+    title.point = point;
+  } catch {}
+
+  const layer = block.layer;
+  if (layer) {
+    try {
+      const blockIndex = layer.children.indexOf(block);
+      if (blockIndex >= 0 && layer.children[blockIndex + 1] !== title) {
+        layer.insertChild(blockIndex + 1, title);
+      } else if (blockIndex < 0) {
+        layer.addChild(title);
+      }
+    } catch {}
+  }
+  return title;
+};
+
+export const renameFrameBlock = (block: paper.Path, name: string): boolean => {
+  const trimmed = name.trim();
+  if (!isFrameBlock(block) || !trimmed) return false;
+  try {
+    block.data = { ...(block.data || {}), name: trimmed };
+  } catch {
+    return false;
+  }
+  createOrUpdateFrameTitle(block);
+  return true;
+};
+
+// 删除画板及其标题；画板内的内容保留在原处
+export const deleteFrameBlock = (block: paper.Path): boolean => {
+  if (!isFrameBlock(block)) return false;
+  const frameId = block.data?.frameId;
+  findFrameTitles(frameId).forEach((title) => {
+    try { title.remove(); } catch {}
+  });
+  try {
+    block.remove();
+  } catch {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * 新建画板：白底矩形 + 标题。插入到目标图层中第一个与之重叠的元素下方，
+ * 这样在已有内容上框出画板时，内容仍然显示在画板之上。
+ */
+export const createFrameBlock = (rect: ExportBounds, options?: CreateFrameBlockOptions): paper.Path | null => {
+  const layer = options?.layer ?? paper.project?.activeLayer ?? null;
+  if (!layer) return null;
+  if (!(rect.width > 0) || !(rect.height > 0)) return null;
+
+  const rectangle = new paper.Rectangle(rect.x, rect.y, rect.width, rect.height);
+  const block = new paper.Path.Rectangle({
+    rectangle,
+    fillColor: new paper.Color(FRAME_FILL),
+    strokeColor: new paper.Color(FRAME_STROKE),
+    strokeWidth: FRAME_STROKE_WIDTH,
+    insert: false,
+  });
+  const existingNames = getFrameBlocks().map(getFrameName);
+  block.data = {
+    type: FRAME_BLOCK_TYPE,
+    frameId: `frame_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+    name: options?.name?.trim() || nextFrameName(existingNames),
+    presetId: options?.presetId ?? 'custom',
+    isHelper: false,
+  };
+
+  const overlapIndex = layer.children.findIndex((item) => {
+    if (!item || item.data?.isHelper) return false;
+    const bounds = item.bounds;
+    return !!bounds && bounds.intersects(rectangle);
+  });
+  try {
+    if (overlapIndex >= 0) layer.insertChild(overlapIndex, block);
+    else layer.addChild(block);
+  } catch {
+    try { layer.addChild(block); } catch {}
+  }
+
+  createOrUpdateFrameTitle(block);
+  return block;
+};
+
+/**
+ * 收集画板内的元素：各可见图层顶层的图片（按 imageId）、路径与文本。
+ * 画板本身、画板标题、图片组块（随组内图片移动）与 3D 模型不计入。
+ */
+export const collectFrameMembers = (block: paper.Path): FrameMembers => {
+  const result: FrameMembers = { imageIds: [], items: [] };
+  if (!isFrameBlock(block) || !paper.project) return result;
+  const frameRect = block.bounds;
+  const frameBounds = { x: frameRect.x, y: frameRect.y, width: frameRect.width, height: frameRect.height };
+
+  paper.project.layers.forEach((layer) => {
+    if (!layer.visible || !String(layer.name || '').startsWith('layer_')) return;
+    layer.children.forEach((item) => {
+      const data = item.data || {};
+      if (item === block || data.isHelper || !item.visible || item.locked) return;
+      if (data.type === FRAME_BLOCK_TYPE || data.type === FRAME_TITLE_TYPE) return;
+      if (data.type === IMAGE_GROUP_BLOCK_TYPE || data.type === 'image-group-title') return;
+      if (data.type === '3d-model') return;
+      const rect = item.bounds;
+      if (!rect || !isInsideFrame(frameBounds, { x: rect.x, y: rect.y, width: rect.width, height: rect.height })) return;
+      if (data.type === 'image') {
+        if (typeof data.imageId === 'string' && data.imageId) result.imageIds.push(data.imageId);
+        return;
+      }
+      result.items.push(item);
+    });
+  });
+  return result;
+};
+
+// ---- 画布上的画板裁剪 ----
+// 画板内容不挪进 clip Group（图片等大量逻辑按图层顶层 children 查找元素），
+// 而是在图层绘制时裁剪：图层内位于某画板之上、中心点落在画板内的元素，按画板矩形裁剪后绘制。
+// 做法与 Paper 绘制 clipped Group 相同：先以 clip 模式绘制画板路径，再绘制元素。
+// 只影响画布显示；导出 / 截图本来就按画板范围裁切。
+
+interface PaperDrawParam {
+  clip?: boolean;
+  extend(props: Record<string, unknown>): PaperDrawParam;
+}
+
+type DrawableItem = paper.Item & {
+  draw(ctx: CanvasRenderingContext2D, param: PaperDrawParam): void;
+};
+
+interface LayerDrawProto {
+  _draw(this: paper.Layer, ctx: CanvasRenderingContext2D, param: PaperDrawParam): void;
+  __frameClipInstalled?: boolean;
+}
+
+const isFrameClipTarget = (item: paper.Item): boolean => {
+  const type = item.data?.type;
+  return !item.data?.isHelper && type !== FRAME_BLOCK_TYPE && type !== FRAME_TITLE_TYPE;
+};
+
+// 取元素之下、包含其中心点的最上层画板
+const findClippingFrame = (item: paper.Item, framesBelow: paper.Path[]): paper.Path | null => {
+  if (framesBelow.length === 0 || !isFrameClipTarget(item)) return null;
+  const center = item.bounds?.center;
+  if (!center) return null;
+  for (let i = framesBelow.length - 1; i >= 0; i -= 1) {
+    const frame = framesBelow[i];
+    if (frame.visible && frame.bounds.contains(center)) return frame;
+  }
+  return null;
+};
+
+const installFrameContentClipping = () => {
+  const proto = paper.Layer.prototype as unknown as LayerDrawProto;
+  if (proto.__frameClipInstalled || typeof proto._draw !== 'function') return;
+  const baseDraw = proto._draw;
+  proto._draw = function drawLayerWithFrameClipping(ctx, param) {
+    // 作为裁剪路径绘制或自身带 clipMask 时走 Paper 原逻辑
+    if (param.clip || this.clipped || !this.children.some((child) => isFrameBlock(child))) {
+      baseDraw.call(this, ctx, param);
+      return;
+    }
+    const childParam = param.extend({ clipItem: null, clip: false });
+    const framesBelow: paper.Path[] = [];
+    this.children.forEach((child) => {
+      const item = child as DrawableItem;
+      const frame = findClippingFrame(item, framesBelow);
+      if (isFrameBlock(child)) framesBelow.push(child as paper.Path);
+      if (!frame) {
+        item.draw(ctx, childParam);
+        return;
+      }
+      ctx.save();
+      (frame as unknown as DrawableItem).draw(ctx, childParam.extend({ clip: true }));
+      item.draw(ctx, childParam);
+      ctx.restore();
+    });
+  };
+  proto.__frameClipInstalled = true;
+};
+
+installFrameContentClipping();
@@ -0,0 +1,66 @@
+/**
+ * 隐藏 iframe 打印：把一份完整 HTML 文档写进屏幕外 iframe，渲染完成后调起浏览器打印对话框。
+ * 这里不生成 PDF 文件——用户在打印对话框里选择「另存为 PDF」才得到 PDF，调用方的文案要按「打印」来写。
+ * iframe 只开放 allow-same-origin（读取文档等待资源）与 allow-modals（调起打印），不允许脚本。
+ */
+
+const DEFAULT_RENDER_TIMEOUT_MS = 8000;
+// 不触发 afterprint 的浏览器兜底移除时间；过早移除会让还开着的打印对话框失去内容
+const FALLBACK_REMOVE_MS = 60_000;
+
+export interface PrintHtmlOptions {
+  /** iframe 视口尺寸（影响打印前的布局与资源加载），缺省 1×1 */
+  width?: number;
+  height?: number;
+  timeoutMs?: number;
+  /** 调起打印前的准备，如等待图片与字体加载 */
+  beforePrint?: (doc: Document) => Promise<void>;
+}
+
+const mountPrintFrame = (html: string, options: PrintHtmlOptions) =>
+  new Promise<HTMLIFrameElement>((resolve, reject) => {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("sandbox", "allow-same-origin allow-modals");
+    frame.setAttribute("aria-hidden", "true");
+    frame.style.cssText = `position:fixed;left:-20000px;top:0;width:${options.width ?? 1}px;height:${options.height ?? 1}px;border:0;visibility:hidden;pointer-events:none;`;
+    const timer = window.setTimeout(() => {
+      frame.remove();
+      reject(new Error("打印页面渲染超时"));
+    }, options.timeoutMs ?? DEFAULT_RENDER_TIMEOUT_MS);
+    frame.onload = () => {
+      window.clearTimeout(timer);
+      resolve(frame);
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+export async function printHtmlDocument(html: string, options: PrintHtmlOptions = {}): Promise<void> {
+  const frame = await mountPrintFrame(html, options);
+  const win = frame.contentWindow;
+  const doc = frame.contentDocument;
+  if (!win || !doc) {
+    frame.remove();
+    throw new Error("打印页面渲染失败");
+  }
+
+  // print() 在多数浏览器里阻塞到对话框关闭，也有浏览器立即返回；统一等 afterprint 再移除
+  let removed = false;
+  const remove = () => {
+    if (removed) return;
+    removed = true;
+    window.clearTimeout(fallbackTimer);
+    frame.remove();
+  };
+  const fallbackTimer = window.setTimeout(remove, FALLBACK_REMOVE_MS);
+  win.addEventListener("afterprint", remove, { once: true });
+
+  try {
+    await options.beforePrint?.(doc);
+    win.focus();
+    win.print();
+  } catch (error) {
+    remove();
+    throw error;
+  }
+}
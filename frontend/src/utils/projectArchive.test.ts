@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  archiveAssetPath,
+  buildProjectArchiveManifest,
+  collectProjectAssetRefs,
+  isArchivableAssetRef,
+  mapProjectAssetRefs,
+  projectArchiveFileName,
+  toArchiveAssetRef,
+} from './projectArchive.ts';
+
+const paperJson = JSON.stringify([
+  'Project',
+  [['Layer', { name: 'layer_1', children: [['Raster', { source: 'https://cdn.example.com/projects/u/p/a.png' }]] }]],
+]);
+
+const content = {
+  paperJson,
+  assets: {
+    images: [
+      { id: 'img1', url: 'https://cdn.example.com/projects/u/p/a.png' },
+      { id: 'img2', src: 'data:image/png;base64,AAAA' },
+    ],
+    models: [{ id: 'm1', path: 'projects/u/p/chair.glb' }],
+    videos: [{ id: 'v1', url: 'https://cdn.example.com/videos/clip.mp4?x=1' }],
+  },
+  flow: {
+    nodes: [
+      { id: 'n1', data: { imageData: 'blob:http://localhost/123', text: 'see https://example.com/page' } },
+      { id: 'n2', data: { prompt: 'a cat', link: 'https://example.com/page' } },
+    ],
+  },
+};
+
+test('asset refs are recognised by scheme, key prefix and media extension', () => {
+  assert.equal(isArchivableAssetRef('data:image/png;base64,AAAA'), true);
+  assert.equal(isArchivableAssetRef('data:text/plain,hello'), false);
+  assert.equal(isArchivableAssetRef('flow-asset:abc'), true);
+  assert.equal(isArchivableAssetRef('/api/assets/proxy?key=projects/a.png'), true);
+  assert.equal(isArchivableAssetRef('uploads/images/x.webp'), true);
+  assert.equal(isArchivableAssetRef('uploads/notes'), false);
+  assert.equal(isArchivableAssetRef('https://example.com/page'), false);
+  assert.equal(isArchivableAssetRef('tanva-asset:assets/0001.png'), false);
+});
+
+test('collect walks nested content including the serialized paper project', () => {
+  assert.deepEqual(collectProjectAssetRefs(content), [
+    'https://cdn.example.com/projects/u/p/a.png',
+    'data:image/png;base64,AAAA',
+    'projects/u/p/chair.glb',
+    'https://cdn.example.com/videos/clip.mp4?x=1',
+    'blob:http://localhost/123',
+  ]);
+});
+
+test('mapping rewrites refs everywhere and keeps unmapped refs and plain text', () => {
+  const mapped = mapProjectAssetRefs(content, (ref) =>
+    ref.endsWith('a.png') ? toArchiveAssetRef('assets/0001.png') : null,
+  );
+  assert.equal(mapped.assets.images[0].url, 'tanva-asset:assets/0001.png');
+  assert.match(mapped.paperJson, /"source":"tanva-asset:assets\/0001\.png"/);
+  assert.equal(mapped.assets.images[1].src, 'data:image/png;base64,AAAA');
+  assert.equal(mapped.flow.nodes[0].data.text, 'see https://example.com/page');
+  assert.equal(content.assets.images[0].url, 'https://cdn.example.com/projects/u/p/a.png');
+});
+
+test('asset paths, manifest and file name', () => {
+  assert.equal(archiveAssetPath(0, 'image/jpeg', 'x'), 'assets/0001.jpg');
+  assert.equal(archiveAssetPath(11, 'application/octet-stream', 'projects/a/b.glb?v=2'), 'assets/0012.glb');
+  const manifest = buildProjectArchiveManifest({ projectName: '  ', assets: [], exportedAt: '2026-01-01T00:00:00.000Z' });
+  assert.equal(manifest.format, 'tanva.project');
+  assert.equal(manifest.version, 1);
+  assert.equal(manifest.project.name, '未命名项目');
+  assert.equal(projectArchiveFileName('海报/v2: final'), '海报_v2_ final.tanva');
+});
@@ -0,0 +1,190 @@
+/**
+ * 项目归档（.tanva）格式的纯函数部分：收集项目内容里引用的资源、把引用改写成归档内路径、
+ * 生成 manifest。归档本身是一个 zip：
+ *
+ *   manifest.json   格式标识 / 版本 / 资源清单
+ *   content.json    ProjectContentSnapshot，资源引用改写为 `tanva-asset:assets/0001.png`
+ *   assets/…        图片、视频、音频、3D 模型原文件
+ *
+ * 导入由后端完成：按 manifest 逐个重新上传到 OSS，再把 `tanva-asset:` 引用换成新地址。
+ * 格式变化时递增 PROJECT_ARCHIVE_VERSION，并在后端 project-archive.ts 登记旧版本迁移。
+ */
+
+export const PROJECT_ARCHIVE_FORMAT = 'tanva.project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+export const PROJECT_ARCHIVE_EXTENSION = '.tanva';
+export const ARCHIVE_ASSET_SCHEME = 'tanva-asset:';
+export const ARCHIVE_MANIFEST_PATH = 'manifest.json';
+export const ARCHIVE_CONTENT_PATH = 'content.json';
+export const ARCHIVE_ASSETS_DIR = 'assets/';
+
+export type ProjectArchiveAssetKind = 'image' | 'video' | 'audio' | 'model' | 'file';
+
+export interface ProjectArchiveAssetEntry {
+  /** 归档内路径，如 assets/0001.png */
+  path: string;
+  kind: ProjectArchiveAssetKind;
+  mimeType: string;
+  size: number;
+}
+
+export interface ProjectArchiveManifest {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { name: string };
+  assets: ProjectArchiveAssetEntry[];
+  /** 导出时没能取回文件、在 content.json 中保留原地址的资源数 */
+  unresolvedAssetCount: number;
+}
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  glb: 'model/gltf-binary',
+  gltf: 'model/gltf+json',
+};
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+  'model/gltf-binary': 'glb',
+  'model/gltf+json': 'gltf',
+};
+
+const DATA_ASSET_PATTERN = /^data:(?:image|video|audio|model)\/[\w.+-]+[;,]/i;
+const ASSET_KEY_PATTERN = /^\/?(?:templates|projects|uploads|videos)\//i;
+const ASSET_PROXY_PATTERN = /^(?:https?:\/\/[^/]+)?\/(?:api\/)?assets\/proxy\?/i;
+const LOCAL_REF_PREFIXES = ['blob:', 'flow-asset:'];
+
+const extensionOf = (value: string): string => {
+  const path = value.split(/[?#]/)[0] || '';
+  const match = /\.([a-z0-9]{2,5})$/i.exec(path);
+  return match ? match[1].toLowerCase() : '';
+};
+
+/** 按扩展名推断 MIME；未知时返回 application/octet-stream。 */
+export function guessMimeType(ref: string): string {
+  const trimmed = ref.trim();
+  const dataMatch = /^data:([\w.+-]+\/[\w.+-]+)/i.exec(trimmed);
+  if (dataMatch) return dataMatch[1].toLowerCase();
+  return MIME_BY_EXTENSION[extensionOf(trimmed)] ?? 'application/octet-stream';
+}
+
+export function assetKindFromMime(mimeType: string): ProjectArchiveAssetKind {
+  const type = (mimeType || '').toLowerCase();
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('model/')) return 'model';
+  return 'file';
+}
+
+/**
+ * 是否为需要打包进归档的资源引用：内联 data URL、本地 blob / flow-asset、
+ * 资源代理地址、OSS key，以及带媒体扩展名的远程 URL。整串匹配，不处理文本中夹带的链接。
+ */
+export function isArchivableAssetRef(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.startsWith(ARCHIVE_ASSET_SCHEME)) return false;
+  if (DATA_ASSET_PATTERN.test(trimmed)) return true;
+  if (LOCAL_REF_PREFIXES.some((prefix) => trimmed.startsWith(prefix))) return true;
+  if (ASSET_PROXY_PATTERN.test(trimmed)) return true;
+  const hasMediaExtension = Boolean(MIME_BY_EXTENSION[extensionOf(trimmed)]);
+  if (/^https?:\/\//i.test(trimmed)) return hasMediaExtension;
+  return ASSET_KEY_PATTERN.test(trimmed) && hasMediaExtension;
+}
+
+const mapValue = (value: unknown, map: (ref: string) => string | null | undefined, key?: string): unknown => {
+  if (typeof value === 'string') {
+    // paperJson 是序列化后的 Paper 项目，Raster 的 source 藏在字符串里，需要展开处理
+    if (key === 'paperJson' && value.trim().startsWith('[')) {
+      try {
+        return JSON.stringify(mapValue(JSON.parse(value), map));
+      } catch {
+        return value;
+      }
+    }
+    if (!isArchivableAssetRef(value)) return value;
+    return map(value.trim()) ?? value;
+  }
+  if (Array.isArray(value)) return value.map((item) => mapValue(item, map));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([childKey, child]) => {
+      out[childKey] = mapValue(child, map, childKey);
+    });
+    return out;
+  }
+  return value;
+};
+
+/** 深拷贝项目内容并改写其中的资源引用；map 返回空值时保留原引用。 */
+export function mapProjectAssetRefs<T>(content: T, map: (ref: string) => string | null | undefined): T {
+  return mapValue(content, map) as T;
+}
+
+/** 项目内容中引用的全部资源（去重，按首次出现顺序）。 */
+export function collectProjectAssetRefs(content: unknown): string[] {
+  const refs = new Set<string>();
+  mapProjectAssetRefs(content, (ref) => {
+    refs.add(ref);
+    return null;
+  });
+  return Array.from(refs);
+}
+
+/** 第 index 个资源在归档内的路径：assets/0001.png */
+export function archiveAssetPath(index: number, mimeType: string, ref: string): string {
+  const ext = EXTENSION_BY_MIME[(mimeType || '').toLowerCase()] || extensionOf(ref) || 'bin';
+  return `${ARCHIVE_ASSETS_DIR}${String(index + 1).padStart(4, '0')}.${ext}`;
+}
+
+export const toArchiveAssetRef = (path: string): string => `${ARCHIVE_ASSET_SCHEME}${path}`;
+
+export function buildProjectArchiveManifest(params: {
+  projectName: string;
+  assets: ProjectArchiveAssetEntry[];
+  unresolvedAssetCount?: number;
+  exportedAt?: string;
+}): ProjectArchiveManifest {
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: params.exportedAt ?? new Date().toISOString(),
+    project: { name: params.projectName.trim() || '未命名项目' },
+    assets: params.assets,
+    unresolvedAssetCount: params.unresolvedAssetCount ?? 0,
+  };
+}
+
+/** 下载文件名：去掉文件系统不允许的字符。 */
+export function projectArchiveFileName(projectName: string): string {
+  const base = projectName.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'project';
+  return `${base}${PROJECT_ARCHIVE_EXTENSION}`;
+}
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { FlowGraphSnapshot } from '../types/project.ts';
+import { buildNodeUsageLabels, parseBudgetThresholds, resolveBudgetLevel } from './projectBudget.ts';
+
+test('阈值输入：中英文逗号与空格分隔，越界丢弃，去重升序', () => {
+  assert.deepEqual(parseBudgetThresholds('80，50, 50 120 0 95.6'), [50, 80, 96]);
+  assert.deepEqual(parseBudgetThresholds(''), [50, 80, 100]);
+  assert.deepEqual(parseBudgetThresholds('abc'), [50, 80, 100]);
+  assert.deepEqual(parseBudgetThresholds('1 2 3 4 5 6 7'), [1, 2, 3, 4, 5]);
+});
+
+test('预算进度配色：最低阈值起 warn，100% 起 exceeded', () => {
+  assert.equal(resolveBudgetLevel(10, [50, 80, 100]), 'ok');
+  assert.equal(resolveBudgetLevel(50, [50, 80, 100]), 'warn');
+  assert.equal(resolveBudgetLevel(100, [50, 80, 100]), 'exceeded');
+  assert.equal(resolveBudgetLevel(99, []), 'ok');
+});
+
+test('节点标签：标题 · 类型，无标题时只显示类型', () => {
+  const flow = {
+    nodes: [
+      { id: 'a', type: 'generate', position: { x: 0, y: 0 }, data: { label: '主图' } },
+      { id: 'b', type: 'klingVideo', position: { x: 0, y: 0 }, data: {} },
+      { id: 'c', type: 'image', position: { x: 0, y: 0 }, data: { title: 'image' } },
+    ],
+    edges: [],
+  } as unknown as FlowGraphSnapshot;
+  const labels = buildNodeUsageLabels(flow);
+  assert.equal(labels.get('a'), '主图 · generate');
+  assert.equal(labels.get('b'), 'klingVideo');
+  assert.equal(labels.get('c'), 'image');
+  assert.equal(buildNodeUsageLabels(null).size, 0);
+});
@@ -0,0 +1,47 @@
+import type { FlowGraphSnapshot } from "@/types/project";
+
+export const DEFAULT_BUDGET_THRESHOLDS = [50, 80, 100];
+const MAX_THRESHOLDS = 5;
+
+/** 解析「50, 80, 100」这类输入：1–100 的整数，去重升序，最多 5 个；无有效值时返回默认阈值 */
+export function parseBudgetThresholds(text: string): number[] {
+  const values = new Set<number>();
+  for (const part of text.split(/[,，\s]+/)) {
+    if (!part) continue;
+    const n = Math.round(Number(part));
+    if (Number.isFinite(n) && n >= 1 && n <= 100) values.add(n);
+  }
+  const sorted = [...values].sort((a, b) => a - b).slice(0, MAX_THRESHOLDS);
+  return sorted.length > 0 ? sorted : [...DEFAULT_BUDGET_THRESHOLDS];
+}
+
+export type BudgetLevel = "ok" | "warn" | "exceeded";
+
+/** 进度条配色：达到 100% 为 exceeded，达到最低告警阈值为 warn */
+export function resolveBudgetLevel(usagePercent: number, thresholds: number[]): BudgetLevel {
+  if (usagePercent >= 100) return "exceeded";
+  const lowest = thresholds.length > 0 ? Math.min(...thresholds) : 100;
+  return usagePercent >= lowest ? "warn" : "ok";
+}
+
+const nodeTitle = (data: unknown): string | null => {
+  if (!data || typeof data !== "object") return null;
+  const record = data as Record<string, unknown>;
+  for (const value of [record.title, record.label]) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return null;
+};
+
+/**
+ * 成本明细里的节点只有 id：用当前项目的 flow 快照换成「标题 · 类型」。
+ * 已删除的节点不在快照里，由调用方显示 id。
+ */
+export function buildNodeUsageLabels(flow: FlowGraphSnapshot | null | undefined): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const node of Array.isArray(flow?.nodes) ? flow!.nodes : []) {
+    const title = nodeTitle(node.data);
+    labels.set(node.id, title && title !== node.type ? `${title} · ${node.type}` : node.type);
+  }
+  return labels;
+}
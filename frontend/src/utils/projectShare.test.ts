@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildShareEmbedCode,
+  buildShareUrl,
+  mapPaperJsonRasterSources,
+  parseShareViewerSearch,
+  shareExpiryFromPreset,
+  toReadOnlyFlow,
+} from './projectShare.ts';
+
+test('分享地址与嵌入代码：embed 参数、属性转义', () => {
+  assert.equal(buildShareUrl('https://tanva.app/', 'abc_DEF-123'), 'https://tanva.app/share/abc_DEF-123');
+  const embedUrl = buildShareUrl('https://tanva.app', 'tok', { embed: true });
+  assert.equal(embedUrl, 'https://tanva.app/share/tok?embed=1');
+  const code = buildShareEmbedCode(embedUrl, { title: '海报 "A"', width: 800, height: 450 });
+  assert.match(code, /^<iframe src="https:\/\/tanva\.app\/share\/tok\?embed=1" width="800" height="450"/);
+  assert.match(code, /title="海报 &quot;A&quot;"/);
+});
+
+test('过期预设与查看页参数', () => {
+  const now = new Date('2026-06-01T00:00:00.000Z');
+  assert.equal(shareExpiryFromPreset('never', now), undefined);
+  assert.equal(shareExpiryFromPreset('7d', now), '2026-06-08T00:00:00.000Z');
+  assert.deepEqual(parseShareViewerSearch('?embed=1&view=flow'), { embed: true, view: 'flow' });
+  assert.deepEqual(parseShareViewerSearch('?view=other'), { embed: false, view: null });
+});
+
+test('paperJson：只改写 Raster.source，非法 JSON 原样返回', () => {
+  const paperJson = JSON.stringify([
+    'Project',
+    [['Layer', { children: [['Raster', { source: 'projects/u/p/a.png' }], ['Path', { source: 'keep' }]] }]],
+  ]);
+  const out = mapPaperJsonRasterSources(paperJson, (src) => `/api/assets/proxy?key=${src}`);
+  assert.ok(out.includes('"source":"/api/assets/proxy?key=projects/u/p/a.png"'));
+  assert.ok(out.includes('"source":"keep"'));
+  assert.equal(mapPaperJsonRasterSources('{oops', () => 'x'), '{oops');
+});
+
+test('只读 flow：子节点换算绝对坐标，悬空连线丢弃，文本截断', () => {
+  const { nodes, edges } = toReadOnlyFlow({
+    nodes: [
+      { id: 'g', type: 'group', position: { x: 100, y: 50 }, data: { label: '分组' } },
+      { id: 'a', type: 'image', position: { x: 10, y: 20 }, parentNode: 'g', data: { imageUrl: 'projects/u/p/a.png' } },
+      { id: 'b', type: 'textPrompt', position: { x: 0, y: 0 }, data: { text: 'x'.repeat(300) }, width: 240 },
+    ],
+    edges: [
+      { id: 'e1', source: 'a', target: 'b', sourceHandle: 'img', targetHandle: 'in' },
+      { id: 'e2', source: 'a', target: 'missing' },
+    ],
+  });
+  assert.deepEqual(nodes[1].position, { x: 110, y: 70 });
+  assert.equal(nodes[0].data.title, '分组');
+  assert.equal(nodes[1].data.imageRef, 'projects/u/p/a.png');
+  assert.equal(nodes[2].data.text?.length, 201);
+  assert.equal(nodes[2].width, 240);
+  assert.deepEqual(edges, [{ id: 'e1', source: 'a', target: 'b' }]);
+});
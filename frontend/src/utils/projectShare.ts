@@ -0,0 +1,163 @@
+/**
+ * 项目公开分享链接（/share/:token）的纯函数：分享地址 / iframe 嵌入代码、
+ * 过期时间预设、只读查看页对 paperJson 与 flow 快照的整理。
+ */
+import type { FlowGraphSnapshot } from "@/types/project";
+
+export type ProjectShareAccess = "view" | "comment";
+
+export type ShareExpiryPreset = "never" | "1d" | "7d" | "30d";
+
+export const SHARE_EXPIRY_PRESETS: { id: ShareExpiryPreset; label: string }[] = [
+  { id: "never", label: "永不过期" },
+  { id: "1d", label: "1 天" },
+  { id: "7d", label: "7 天" },
+  { id: "30d", label: "30 天" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRESET_DAYS: Record<Exclude<ShareExpiryPreset, "never">, number> = { "1d": 1, "7d": 7, "30d": 30 };
+
+/** 预设 → 过期时间（ISO）；永不过期返回 undefined */
+export function shareExpiryFromPreset(preset: ShareExpiryPreset, now: Date = new Date()): string | undefined {
+  if (preset === "never") return undefined;
+  return new Date(now.getTime() + PRESET_DAYS[preset] * DAY_MS).toISOString();
+}
+
+export const SHARE_ROUTE_PREFIX = "/share/";
+
+export function buildShareUrl(origin: string, token: string, options?: { embed?: boolean }): string {
+  const url = `${origin.replace(/\/+$/, "")}${SHARE_ROUTE_PREFIX}${encodeURIComponent(token)}`;
+  return options?.embed ? `${url}?embed=1` : url;
+}
+
+const escapeAttr = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export function buildShareEmbedCode(
+  embedUrl: string,
+  options?: { width?: number; height?: number; title?: string }
+): string {
+  const width = options?.width ?? 960;
+  const height = options?.height ?? 600;
+  const title = escapeAttr(options?.title || "Tanva");
+  return `<iframe src="${escapeAttr(embedUrl)}" width="${width}" height="${height}" title="${title}" style="border:0" loading="lazy" allow="fullscreen"></iframe>`;
+}
+
+export type ShareViewerTab = "canvas" | "flow";
+
+/** 查看页参数：?embed=1 去掉页头等外框；?view=flow 默认打开 flow */
+export function parseShareViewerSearch(search: string): { embed: boolean; view: ShareViewerTab | null } {
+  const params = new URLSearchParams(search);
+  const embed = ["1", "true"].includes((params.get("embed") || "").toLowerCase());
+  const view = params.get("view");
+  return { embed, view: view === "canvas" || view === "flow" ? view : null };
+}
+
+/**
+ * 改写 paperJson 中 Raster 的 source（保存的是 OSS key / 持久化引用，查看页需转成可渲染地址）。
+ * 解析失败时原样返回。
+ */
+export function mapPaperJsonRasterSources(paperJson: string, map: (source: string) => string | null): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(paperJson);
+  } catch {
+    return paperJson;
+  }
+  const visit = (node: unknown): void => {
+    if (!Array.isArray(node)) {
+      if (node && typeof node === "object") Object.values(node).forEach(visit);
+      return;
+    }
+    if (node[0] === "Raster" && node[1] && typeof node[1] === "object") {
+      const props = node[1] as Record<string, unknown>;
+      if (typeof props.source === "string") {
+        const next = map(props.source);
+        if (next) props.source = next;
+      }
+    }
+    node.forEach(visit);
+  };
+  visit(parsed);
+  return JSON.stringify(parsed);
+}
+
+export type ReadOnlyFlowNodeData = {
+  kind: string;
+  title: string;
+  text: string | null;
+  /** 原始图片引用（可能是 OSS key），由渲染侧转换为可显示地址 */
+  imageRef: string | null;
+  videoRef: string | null;
+};
+
+export type ReadOnlyFlowNode = {
+  id: string;
+  type: "shared";
+  position: { x: number; y: number };
+  data: ReadOnlyFlowNodeData;
+  width?: number;
+  height?: number;
+};
+
+export type ReadOnlyFlowEdge = { id: string; source: string; target: string };
+
+const TEXT_PREVIEW_LENGTH = 200;
+
+const firstString = (...values: unknown[]): string | null => {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return null;
+};
+
+/**
+ * 把保存的 flow 快照整理成只读查看用的通用节点：
+ * 查看页不加载各节点的编辑组件，只展示类型、标题、文本与图片/视频预览。
+ * 子节点的 position 相对父节点，这里换算成绝对坐标；连线丢弃 handle（通用节点只有一对端口）。
+ */
+export function toReadOnlyFlow(flow: FlowGraphSnapshot | null | undefined): {
+  nodes: ReadOnlyFlowNode[];
+  edges: ReadOnlyFlowEdge[];
+} {
+  const sourceNodes = Array.isArray(flow?.nodes) ? flow!.nodes : [];
+  const byId = new Map(sourceNodes.map((node) => [node.id, node]));
+
+  const absolutePosition = (id: string, seen = new Set<string>()): { x: number; y: number } => {
+    const node = byId.get(id);
+    if (!node || seen.has(id)) return { x: 0, y: 0 };
+    seen.add(id);
+    const own = { x: Number(node.position?.x) || 0, y: Number(node.position?.y) || 0 };
+    if (!node.parentNode) return own;
+    const parent = absolutePosition(node.parentNode, seen);
+    return { x: parent.x + own.x, y: parent.y + own.y };
+  };
+
+  const nodes = sourceNodes.map((node): ReadOnlyFlowNode => {
+    const data = (node.data ?? {}) as Record<string, unknown>;
+    const text = firstString(data.text, data.prompt);
+    const width = Number(node.width ?? node.boxW);
+    const height = Number(node.height ?? node.boxH);
+    return {
+      id: node.id,
+      type: "shared",
+      position: absolutePosition(node.id),
+      data: {
+        kind: node.type,
+        title: firstString(data.title, data.label) ?? node.type,
+        text: text && text.length > TEXT_PREVIEW_LENGTH ? `${text.slice(0, TEXT_PREVIEW_LENGTH)}…` : text,
+        imageRef: firstString(data.imageUrl, data.outputImage, data.thumbnail, data.imageData),
+        videoRef: firstString(data.videoUrl),
+      },
+      ...(Number.isFinite(width) && width > 0 ? { width } : {}),
+      ...(Number.isFinite(height) && height > 0 ? { height } : {}),
+    };
+  });
+
+  const edges = (Array.isArray(flow?.edges) ? flow!.edges : [])
+    .filter((edge) => byId.has(edge.source) && byId.has(edge.target))
+    .map((edge) => ({ id: edge.id, source: edge.source, target: edge.target }));
+
+  return { nodes, edges };
+}
@@ -4,6 +4,7 @@
  */
 
 import type { ImageInstance, Model3DInstance } from '@/types/canvas';
+import type { FrameInfo } from '@/utils/canvasFrames';
 
 // 对齐边缘类型
 export type AlignmentEdge = 'left' | 'right' | 'top' | 'bottom' | 'centerX' | 'centerY';
@@ -209,6 +210,21 @@ export function modelsToBounds(models: Model3DInstance[]): ObjectBounds[] {
     }));
 }
 
+/**
+ * 将画板转换为 ObjectBounds 数组（画板边缘与中线同样作为吸附参考）
+ * @param frames 画板列表
+ * @returns 对象边界列表
+ */
+export function framesToBounds(frames: FrameInfo[]): ObjectBounds[] {
+  return frames.map((frame) => ({
+    id: frame.id,
+    x: frame.bounds.x,
+    y: frame.bounds.y,
+    width: frame.bounds.width,
+    height: frame.bounds.height,
+  }));
+}
+
 /**
  * 合并多个对象边界列表
  * @param boundsList 多个对象边界列表